@@ -1,4 +1,4 @@
-import { type IpcMain } from 'electron'
+import { type IpcMain, type BrowserWindow } from 'electron'
 import { closeSSHTunnel } from '../ssh-tunnel'
 import { applySSHTunnel } from './ssh-helper'
 import {
@@ -7,12 +7,19 @@ import {
   kafkaGetClusterInfo, kafkaListConsumerGroups, kafkaDescribeConsumerGroup,
   kafkaGetConsumerGroupOffsets, kafkaResetConsumerGroupOffsets, kafkaDeleteConsumerGroup,
   kafkaGetTopicConfig, kafkaAlterTopicConfig, kafkaGetStats,
+  kafkaStartTail, kafkaPauseTail, kafkaStopTail, setTailMessageCallback,
+  kafkaListSubjects, kafkaGetSubjectVersions, kafkaGetSchema,
+  kafkaStartSearch, kafkaCancelSearch, setSearchProgressCallback,
+  kafkaStartReplay, kafkaCancelReplay, setReplayProgressCallback,
+  kafkaStartBulkProduce, kafkaCancelBulkProduce, setBulkProduceProgressCallback,
+  kafkaDescribeAcls, kafkaCreateAcls, kafkaDeleteAcls,
+  kafkaCreatePartitions, kafkaReassignPartitions, kafkaListReassignments,
 } from '../kafka'
 
-export function setupKafkaHandlers(ipcMain: IpcMain) {
-  ipcMain.handle('kafka:connect', async (_event, connectionId, connectionString, sshTunnel) => {
+export function setupKafkaHandlers(ipcMain: IpcMain, getMainWindow: () => BrowserWindow | null) {
+  ipcMain.handle('kafka:connect', async (_event, connectionId, connectionString, sshTunnel, options) => {
     const finalConnStr = await applySSHTunnel(connectionId, connectionString, sshTunnel)
-    return await connectToKafka(connectionId, finalConnStr)
+    return await connectToKafka(connectionId, finalConnStr, options)
   })
 
   ipcMain.handle('kafka:disconnect', async (_event, connectionId) => {
@@ -28,12 +35,65 @@ export function setupKafkaHandlers(ipcMain: IpcMain) {
     return await kafkaGetTopicMetadata(connectionId, topic)
   })
 
-  ipcMain.handle('kafka:consumeMessages', async (_event, connectionId, topic, limit, fromBeginning) => {
-    return await kafkaConsumeMessages(connectionId, topic, limit, fromBeginning)
+  ipcMain.handle('kafka:consumeMessages', async (_event, connectionId, topic, options) => {
+    return await kafkaConsumeMessages(connectionId, topic, options)
   })
 
-  ipcMain.handle('kafka:produceMessage', async (_event, connectionId, topic, messages) => {
-    return await kafkaProduceMessage(connectionId, topic, messages)
+  // Live tail
+  ipcMain.handle('kafka:startTail', async (_event, connectionId, tailId, topic) => {
+    return await kafkaStartTail(connectionId, tailId, topic)
+  })
+
+  ipcMain.handle('kafka:pauseTail', async (_event, tailId, paused) => {
+    return await kafkaPauseTail(tailId, paused)
+  })
+
+  ipcMain.handle('kafka:stopTail', async (_event, tailId) => {
+    return await kafkaStopTail(tailId)
+  })
+
+  // Search
+  ipcMain.handle('kafka:startSearch', async (_event, connectionId, searchId, topic, options) => {
+    return await kafkaStartSearch(connectionId, searchId, topic, options)
+  })
+
+  ipcMain.handle('kafka:cancelSearch', async (_event, searchId) => {
+    return await kafkaCancelSearch(searchId)
+  })
+
+  // Replay
+  ipcMain.handle('kafka:startReplay', async (_event, replayId, source, destination, selection, options) => {
+    return await kafkaStartReplay(replayId, source, destination, selection, options)
+  })
+
+  ipcMain.handle('kafka:cancelReplay', async (_event, replayId) => {
+    return await kafkaCancelReplay(replayId)
+  })
+
+  ipcMain.handle('kafka:produceMessage', async (_event, connectionId, topic, messages, schema) => {
+    return await kafkaProduceMessage(connectionId, topic, messages, schema)
+  })
+
+  // Bulk produce
+  ipcMain.handle('kafka:startBulkProduce', async (_event, produceId, connectionId, topic, source, options) => {
+    return await kafkaStartBulkProduce(produceId, connectionId, topic, source, options)
+  })
+
+  ipcMain.handle('kafka:cancelBulkProduce', async (_event, produceId) => {
+    return await kafkaCancelBulkProduce(produceId)
+  })
+
+  // Schema Registry
+  ipcMain.handle('kafka:listSubjects', async (_event, connectionId) => {
+    return await kafkaListSubjects(connectionId)
+  })
+
+  ipcMain.handle('kafka:getSubjectVersions', async (_event, connectionId, subject) => {
+    return await kafkaGetSubjectVersions(connectionId, subject)
+  })
+
+  ipcMain.handle('kafka:getSchema', async (_event, connectionId, subject, version) => {
+    return await kafkaGetSchema(connectionId, subject, version)
   })
 
   ipcMain.handle('kafka:createTopic', async (_event, connectionId, topic, numPartitions, replicationFactor) => {
@@ -44,6 +104,19 @@ export function setupKafkaHandlers(ipcMain: IpcMain) {
     return await kafkaDeleteTopic(connectionId, topic)
   })
 
+  // Partitions
+  ipcMain.handle('kafka:createPartitions', async (_event, connectionId, topic, count) => {
+    return await kafkaCreatePartitions(connectionId, topic, count)
+  })
+
+  ipcMain.handle('kafka:reassignPartitions', async (_event, connectionId, topic, assignments) => {
+    return await kafkaReassignPartitions(connectionId, topic, assignments)
+  })
+
+  ipcMain.handle('kafka:listReassignments', async (_event, connectionId, topic) => {
+    return await kafkaListReassignments(connectionId, topic)
+  })
+
   ipcMain.handle('kafka:getClusterInfo', async (_event, connectionId) => {
     return await kafkaGetClusterInfo(connectionId)
   })
@@ -60,8 +133,8 @@ export function setupKafkaHandlers(ipcMain: IpcMain) {
     return await kafkaGetConsumerGroupOffsets(connectionId, groupId, topic)
   })
 
-  ipcMain.handle('kafka:resetConsumerGroupOffsets', async (_event, connectionId, groupId, topic, earliest) => {
-    return await kafkaResetConsumerGroupOffsets(connectionId, groupId, topic, earliest)
+  ipcMain.handle('kafka:resetConsumerGroupOffsets', async (_event, connectionId, groupId, topic, spec, dryRun) => {
+    return await kafkaResetConsumerGroupOffsets(connectionId, groupId, topic, spec, dryRun)
   })
 
   ipcMain.handle('kafka:deleteConsumerGroup', async (_event, connectionId, groupId) => {
@@ -76,8 +149,53 @@ export function setupKafkaHandlers(ipcMain: IpcMain) {
     return await kafkaAlterTopicConfig(connectionId, topic, configEntries)
   })
 
+  // ACLs
+  ipcMain.handle('kafka:describeAcls', async (_event, connectionId, filter) => {
+    return await kafkaDescribeAcls(connectionId, filter)
+  })
+
+  ipcMain.handle('kafka:createAcls', async (_event, connectionId, acls) => {
+    return await kafkaCreateAcls(connectionId, acls)
+  })
+
+  ipcMain.handle('kafka:deleteAcls', async (_event, connectionId, acls) => {
+    return await kafkaDeleteAcls(connectionId, acls)
+  })
+
   ipcMain.handle('kafka:getStats', async (_event, connectionId) => {
     return await kafkaGetStats(connectionId)
   })
+
+  // Forward live tail batches to the renderer
+  setTailMessageCallback((tailId, event) => {
+    const win = getMainWindow()
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('kafka:tailMessages', { tailId, ...event })
+    }
+  })
+
+  // Forward search hits and progress to the renderer
+  setSearchProgressCallback((progress) => {
+    const win = getMainWindow()
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('kafka:searchProgress', progress)
+    }
+  })
+
+  // Forward replay progress to the renderer
+  setReplayProgressCallback((progress) => {
+    const win = getMainWindow()
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('kafka:replayProgress', progress)
+    }
+  })
+
+  // Forward bulk produce progress to the renderer
+  setBulkProduceProgressCallback((progress) => {
+    const win = getMainWindow()
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('kafka:bulkProduceProgress', progress)
+    }
+  })
 }
 
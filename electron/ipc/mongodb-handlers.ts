@@ -4,12 +4,14 @@ import { applySSHTunnel } from './ssh-helper'
 import { validated, mongoSchemas as s } from './validation'
 import {
   connectToMongoDB, disconnectFromMongoDB, listDatabases, listCollections,
-  executeQuery, insertDocument, updateDocument, deleteDocument,
-  updateMany, deleteMany, countDocuments, aggregate, getCollectionStats,
+  executeQuery, mongoOpenCursor, mongoFetchNext, mongoCloseCursor, mongoCancelCursor,
+  insertDocument, updateDocument, deleteDocument,
+  updateMany, deleteMany, bulkWrite, countDocuments, aggregate, getCollectionStats,
   mongoCreateDatabase, mongoDropDatabase, mongoCreateCollection, mongoDropCollection,
   mongoRenameCollection, mongoListIndexes, mongoCreateIndex, mongoDropIndex,
   explainQuery, getServerStatus,
 } from '../mongodb'
+import { mongoRunScript } from '../mongodb-shell'
 
 export function setupMongoDBHandlers(ipcMain: IpcMain) {
   ipcMain.handle('mongodb:connect', validated(s.connect, async (_event, connectionId, connectionString, sshTunnel) => {
@@ -34,6 +36,26 @@ export function setupMongoDBHandlers(ipcMain: IpcMain) {
     return await executeQuery(connectionId, database, collection, filter, options)
   }))
 
+  ipcMain.handle('mongodb:openCursor', validated(s.openCursor, async (_event, connectionId, database, collection, filter, options) => {
+    return await mongoOpenCursor(connectionId, database, collection, filter, options)
+  }))
+
+  ipcMain.handle('mongodb:fetchNext', validated(s.fetchNext, async (_event, cursorId, batchSize) => {
+    return await mongoFetchNext(cursorId, batchSize)
+  }))
+
+  ipcMain.handle('mongodb:closeCursor', validated(s.closeCursor, async (_event, cursorId) => {
+    return await mongoCloseCursor(cursorId)
+  }))
+
+  ipcMain.handle('mongodb:cancelCursor', validated(s.cancelCursor, async (_event, cursorId) => {
+    return await mongoCancelCursor(cursorId)
+  }))
+
+  ipcMain.handle('mongodb:runScript', validated(s.runScript, async (_event, connectionId, database, script) => {
+    return await mongoRunScript(connectionId, database, script)
+  }))
+
   ipcMain.handle('mongodb:insertDocument', validated(s.insertDocument, async (_event, connectionId, database, collection, document) => {
     return await insertDocument(connectionId, database, collection, document)
   }))
@@ -54,6 +76,10 @@ export function setupMongoDBHandlers(ipcMain: IpcMain) {
     return await deleteMany(connectionId, database, collection, filter)
   }))
 
+  ipcMain.handle('mongodb:bulkWrite', validated(s.bulkWrite, async (_event, connectionId, database, collection, operations) => {
+    return await bulkWrite(connectionId, database, collection, operations)
+  }))
+
   ipcMain.handle('mongodb:countDocuments', validated(s.countDocuments, async (_event, connectionId, database, collection, filter) => {
     return await countDocuments(connectionId, database, collection, filter)
   }))
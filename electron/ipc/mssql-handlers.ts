@@ -0,0 +1,161 @@
+import { type IpcMain } from 'electron'
+import { closeSSHTunnel } from '../ssh-tunnel'
+import { applySSHTunnel } from './ssh-helper'
+import { validated, mssqlSchemas as s, connectionId as cId, databaseName as db, collectionName as tbl, indexName as idx } from './validation'
+import { z } from 'zod'
+import {
+  connectToMSSQL, disconnectFromMSSQL, mssqlListDatabases, mssqlListTables,
+  mssqlExecuteQuery, mssqlExecuteScript, mssqlFindQuery, mssqlInsertDocument, mssqlUpdateDocument, mssqlDeleteDocument,
+  mssqlUpdateMany, mssqlDeleteMany, mssqlCountRows, mssqlAggregate, mssqlGetTableSchema,
+  mssqlCreateDatabase, mssqlDropDatabase, mssqlCreateTable, mssqlDropTable, mssqlRenameTable,
+  mssqlListIndexes, mssqlCreateIndex, mssqlDropIndex, mssqlExplainQuery, mssqlGetServerStats,
+  mssqlListSchemas, mssqlGetActiveSessions, mssqlKillSession,
+} from '../mssql'
+
+export function setupMSSQLHandlers(ipcMain: IpcMain) {
+  ipcMain.handle('mssql:connect', validated(s.connect, async (_event, connectionId, connectionString, sshTunnel) => {
+    const finalConnStr = await applySSHTunnel(connectionId, connectionString, sshTunnel)
+    return await connectToMSSQL(connectionId, finalConnStr)
+  }))
+
+  ipcMain.handle('mssql:disconnect', validated(s.disconnect, async (_event, connectionId) => {
+    await closeSSHTunnel(connectionId)
+    return await disconnectFromMSSQL(connectionId)
+  }))
+
+  ipcMain.handle('mssql:listDatabases', validated(s.listDatabases, async (_event, connectionId) => {
+    return await mssqlListDatabases(connectionId)
+  }))
+
+  ipcMain.handle('mssql:listSchemas', validated(s.listSchemas, async (_event, connectionId, database) => {
+    return await mssqlListSchemas(connectionId, database)
+  }))
+
+  ipcMain.handle('mssql:listTables', validated(s.listTables, async (_event, connectionId, database) => {
+    return await mssqlListTables(connectionId, database)
+  }))
+
+  ipcMain.handle('mssql:executeQuery', validated(s.executeQuery, async (_event, connectionId, database, table, query, options) => {
+    return await mssqlExecuteQuery(connectionId, database, table, query, options)
+  }))
+
+  ipcMain.handle('mssql:executeScript', validated(s.executeScript, async (_event, connectionId, database, statements) => {
+    return await mssqlExecuteScript(connectionId, database, statements)
+  }))
+
+  ipcMain.handle('mssql:findQuery', validated(s.findQuery, async (_event, connectionId, database, table, filter, options) => {
+    return await mssqlFindQuery(connectionId, database, table, filter, options)
+  }))
+
+  ipcMain.handle('mssql:insertDocument', validated(s.insertRow, async (_event, connectionId, database, table, document) => {
+    return await mssqlInsertDocument(connectionId, database, table, document)
+  }))
+
+  ipcMain.handle('mssql:updateDocument', validated(s.updateRow, async (_event, connectionId, database, table, filter, update) => {
+    return await mssqlUpdateDocument(connectionId, database, table, filter, update)
+  }))
+
+  ipcMain.handle('mssql:deleteDocument', validated(s.deleteRow, async (_event, connectionId, database, table, filter) => {
+    return await mssqlDeleteDocument(connectionId, database, table, filter)
+  }))
+
+  ipcMain.handle('mssql:updateMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown()), z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter, update) => {
+      return await mssqlUpdateMany(connectionId, database, table, filter, update)
+    }
+  ))
+
+  ipcMain.handle('mssql:deleteMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await mssqlDeleteMany(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('mssql:countRows', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await mssqlCountRows(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('mssql:aggregate', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await mssqlAggregate(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('mssql:getTableSchema', validated(s.getTableSchema, async (_event, connectionId, database, table) => {
+    return await mssqlGetTableSchema(connectionId, database, table)
+  }))
+
+  // SQL Server Management
+  ipcMain.handle('mssql:createDatabase', validated(z.tuple([cId, db]), async (_event, connectionId, database) => {
+    return await mssqlCreateDatabase(connectionId, database)
+  }))
+
+  ipcMain.handle('mssql:dropDatabase', validated(z.tuple([cId, db]), async (_event, connectionId, database) => {
+    return await mssqlDropDatabase(connectionId, database)
+  }))
+
+  ipcMain.handle('mssql:createTable', validated(
+    z.tuple([cId, db, tbl, z.array(z.object({
+      name: z.string().min(1),
+      type: z.string().min(1),
+      nullable: z.boolean().optional(),
+      defaultValue: z.string().optional(),
+      primaryKey: z.boolean().optional(),
+    }))]),
+    async (_event, connectionId, database, table, columns) => {
+      return await mssqlCreateTable(connectionId, database, table, columns)
+    }
+  ))
+
+  ipcMain.handle('mssql:dropTable', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await mssqlDropTable(connectionId, database, table)
+  }))
+
+  ipcMain.handle('mssql:renameTable', validated(
+    z.tuple([cId, db, z.string().min(1), z.string().min(1)]),
+    async (_event, connectionId, database, oldName, newName) => {
+      return await mssqlRenameTable(connectionId, database, oldName, newName)
+    }
+  ))
+
+  ipcMain.handle('mssql:listIndexes', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await mssqlListIndexes(connectionId, database, table)
+  }))
+
+  ipcMain.handle('mssql:createIndex', validated(
+    z.tuple([cId, db, tbl, idx, z.array(z.string()), z.object({ unique: z.boolean().optional(), method: z.string().optional() }).passthrough().optional()]),
+    async (_event, connectionId, database, table, indexName, columns, options) => {
+      return await mssqlCreateIndex(connectionId, database, table, indexName, columns, options)
+    }
+  ))
+
+  ipcMain.handle('mssql:dropIndex', validated(z.tuple([cId, db, tbl, idx]), async (_event, connectionId, database, table, indexName) => {
+    return await mssqlDropIndex(connectionId, database, table, indexName)
+  }))
+
+  ipcMain.handle('mssql:explainQuery', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await mssqlExplainQuery(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('mssql:getServerStats', validated(z.tuple([cId]), async (_event, connectionId) => {
+    return await mssqlGetServerStats(connectionId)
+  }))
+
+  // SQL Server Tools
+  ipcMain.handle('mssql:getActiveSessions', validated(z.tuple([cId]), async (_event, connectionId) => {
+    return await mssqlGetActiveSessions(connectionId)
+  }))
+
+  ipcMain.handle('mssql:killSession', validated(z.tuple([cId, z.number().int().positive()]), async (_event, connectionId, sessionId) => {
+    return await mssqlKillSession(connectionId, sessionId)
+  }))
+}
@@ -0,0 +1,147 @@
+import { type IpcMain } from 'electron'
+import { closeSSHTunnel } from '../ssh-tunnel'
+import { applySSHTunnel } from './ssh-helper'
+import { validated, mysqlSchemas as s, connectionId as cId, databaseName as db, collectionName as tbl, indexName as idx } from './validation'
+import { z } from 'zod'
+import {
+  connectToMySQL, disconnectFromMySQL, mysqlListDatabases, mysqlListTables,
+  mysqlExecuteQuery, mysqlExecuteScript, mysqlFindQuery, mysqlInsertDocument, mysqlUpdateDocument, mysqlDeleteDocument,
+  mysqlUpdateMany, mysqlDeleteMany, mysqlCountRows, mysqlAggregate, mysqlGetTableSchema,
+  mysqlCreateDatabase, mysqlDropDatabase, mysqlCreateTable, mysqlDropTable, mysqlRenameTable,
+  mysqlListIndexes, mysqlCreateIndex, mysqlDropIndex, mysqlExplainQuery, mysqlGetServerStats,
+} from '../mysql'
+
+export function setupMySQLHandlers(ipcMain: IpcMain) {
+  ipcMain.handle('mysql:connect', validated(s.connect, async (_event, connectionId, connectionString, sshTunnel) => {
+    const finalConnStr = await applySSHTunnel(connectionId, connectionString, sshTunnel)
+    return await connectToMySQL(connectionId, finalConnStr)
+  }))
+
+  ipcMain.handle('mysql:disconnect', validated(s.disconnect, async (_event, connectionId) => {
+    await closeSSHTunnel(connectionId)
+    return await disconnectFromMySQL(connectionId)
+  }))
+
+  ipcMain.handle('mysql:listDatabases', validated(s.listDatabases, async (_event, connectionId) => {
+    return await mysqlListDatabases(connectionId)
+  }))
+
+  ipcMain.handle('mysql:listTables', validated(s.listTables, async (_event, connectionId, database) => {
+    return await mysqlListTables(connectionId, database)
+  }))
+
+  ipcMain.handle('mysql:executeQuery', validated(s.executeQuery, async (_event, connectionId, database, table, query, options) => {
+    return await mysqlExecuteQuery(connectionId, database, table, query, options)
+  }))
+
+  ipcMain.handle('mysql:executeScript', validated(s.executeScript, async (_event, connectionId, database, statements) => {
+    return await mysqlExecuteScript(connectionId, database, statements)
+  }))
+
+  ipcMain.handle('mysql:findQuery', validated(s.findQuery, async (_event, connectionId, database, table, filter, options) => {
+    return await mysqlFindQuery(connectionId, database, table, filter, options)
+  }))
+
+  ipcMain.handle('mysql:insertDocument', validated(s.insertRow, async (_event, connectionId, database, table, document) => {
+    return await mysqlInsertDocument(connectionId, database, table, document)
+  }))
+
+  ipcMain.handle('mysql:updateDocument', validated(s.updateRow, async (_event, connectionId, database, table, filter, update) => {
+    return await mysqlUpdateDocument(connectionId, database, table, filter, update)
+  }))
+
+  ipcMain.handle('mysql:deleteDocument', validated(s.deleteRow, async (_event, connectionId, database, table, filter) => {
+    return await mysqlDeleteDocument(connectionId, database, table, filter)
+  }))
+
+  ipcMain.handle('mysql:updateMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown()), z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter, update) => {
+      return await mysqlUpdateMany(connectionId, database, table, filter, update)
+    }
+  ))
+
+  ipcMain.handle('mysql:deleteMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await mysqlDeleteMany(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('mysql:countRows', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await mysqlCountRows(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('mysql:aggregate', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await mysqlAggregate(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('mysql:getTableSchema', validated(s.getTableSchema, async (_event, connectionId, database, table) => {
+    return await mysqlGetTableSchema(connectionId, database, table)
+  }))
+
+  // MySQL Management
+  ipcMain.handle('mysql:createDatabase', validated(z.tuple([cId, db]), async (_event, connectionId, database) => {
+    return await mysqlCreateDatabase(connectionId, database)
+  }))
+
+  ipcMain.handle('mysql:dropDatabase', validated(z.tuple([cId, db]), async (_event, connectionId, database) => {
+    return await mysqlDropDatabase(connectionId, database)
+  }))
+
+  ipcMain.handle('mysql:createTable', validated(
+    z.tuple([cId, db, tbl, z.array(z.object({
+      name: z.string().min(1),
+      type: z.string().min(1),
+      nullable: z.boolean().optional(),
+      defaultValue: z.string().optional(),
+      primaryKey: z.boolean().optional(),
+    }))]),
+    async (_event, connectionId, database, table, columns) => {
+      return await mysqlCreateTable(connectionId, database, table, columns)
+    }
+  ))
+
+  ipcMain.handle('mysql:dropTable', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await mysqlDropTable(connectionId, database, table)
+  }))
+
+  ipcMain.handle('mysql:renameTable', validated(
+    z.tuple([cId, db, z.string().min(1), z.string().min(1)]),
+    async (_event, connectionId, database, oldName, newName) => {
+      return await mysqlRenameTable(connectionId, database, oldName, newName)
+    }
+  ))
+
+  ipcMain.handle('mysql:listIndexes', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await mysqlListIndexes(connectionId, database, table)
+  }))
+
+  ipcMain.handle('mysql:createIndex', validated(
+    z.tuple([cId, db, tbl, idx, z.array(z.string()), z.object({ unique: z.boolean().optional(), method: z.string().optional() }).passthrough().optional()]),
+    async (_event, connectionId, database, table, indexName, columns, options) => {
+      return await mysqlCreateIndex(connectionId, database, table, indexName, columns, options)
+    }
+  ))
+
+  ipcMain.handle('mysql:dropIndex', validated(z.tuple([cId, db, tbl, idx]), async (_event, connectionId, database, table, indexName) => {
+    return await mysqlDropIndex(connectionId, database, table, indexName)
+  }))
+
+  ipcMain.handle('mysql:explainQuery', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await mysqlExplainQuery(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('mysql:getServerStats', validated(z.tuple([cId]), async (_event, connectionId) => {
+    return await mysqlGetServerStats(connectionId)
+  }))
+}
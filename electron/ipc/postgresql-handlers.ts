@@ -4,9 +4,10 @@ import { applySSHTunnel } from './ssh-helper'
 import { validated, pgSchemas as s, connectionId as cId, databaseName as db, collectionName as tbl, indexName as idx } from './validation'
 import { z } from 'zod'
 import {
-  connectToPostgreSQL, disconnectFromPostgreSQL, pgListDatabases, pgListTables,
-  pgExecuteQuery, pgFindQuery, pgInsertDocument, pgUpdateDocument, pgDeleteDocument,
-  pgUpdateMany, pgDeleteMany, pgCountRows, pgAggregate, pgGetTableSchema,
+  connectToPostgreSQL, disconnectFromPostgreSQL, pgListDatabases, pgListSchemas, pgListTables, pgListFunctions,
+  pgExecuteQuery, pgExecuteScript, pgOpenCursor, pgFetchNext, pgCloseCursor, pgCancelCursor,
+  pgOpenSession, pgSessionExecute, pgEndTransaction, pgSessionStatus, pgCloseSession, pgFindQuery, pgInsertDocument, pgUpdateDocument, pgDeleteDocument,
+  pgUpdateMany, pgDeleteMany, pgApplyChanges, pgCountRows, pgAggregate, pgGetTableSchema,
   pgCreateDatabase, pgDropDatabase, pgCreateTable, pgDropTable, pgRenameTable,
   pgListIndexes, pgCreateIndex, pgDropIndex, pgExplainQuery, pgGetServerStats,
   pgGetActiveQueries, pgCancelQuery, pgTerminateBackend, pgGetTableDetails,
@@ -28,14 +29,62 @@ export function setupPostgreSQLHandlers(ipcMain: IpcMain) {
     return await pgListDatabases(connectionId)
   }))
 
+  ipcMain.handle('postgresql:listSchemas', validated(s.listSchemas, async (_event, connectionId, database) => {
+    return await pgListSchemas(connectionId, database)
+  }))
+
   ipcMain.handle('postgresql:listTables', validated(s.listTables, async (_event, connectionId, database) => {
     return await pgListTables(connectionId, database)
   }))
 
+  ipcMain.handle('postgresql:listFunctions', validated(s.listFunctions, async (_event, connectionId, database, schema) => {
+    return await pgListFunctions(connectionId, database, schema)
+  }))
+
   ipcMain.handle('postgresql:executeQuery', validated(s.executeQuery, async (_event, connectionId, database, table, query, options) => {
     return await pgExecuteQuery(connectionId, database, table, query, options)
   }))
 
+  ipcMain.handle('postgresql:executeScript', validated(s.executeScript, async (_event, connectionId, database, statements) => {
+    return await pgExecuteScript(connectionId, database, statements)
+  }))
+
+  ipcMain.handle('postgresql:openCursor', validated(s.openCursor, async (_event, connectionId, database, query, session) => {
+    return await pgOpenCursor(connectionId, database, query, session)
+  }))
+
+  ipcMain.handle('postgresql:fetchNext', validated(s.fetchNext, async (_event, cursorId, batchSize) => {
+    return await pgFetchNext(cursorId, batchSize)
+  }))
+
+  ipcMain.handle('postgresql:closeCursor', validated(s.closeCursor, async (_event, cursorId) => {
+    return await pgCloseCursor(cursorId)
+  }))
+
+  ipcMain.handle('postgresql:cancelCursor', validated(s.cancelCursor, async (_event, cursorId) => {
+    return await pgCancelCursor(cursorId)
+  }))
+
+  ipcMain.handle('postgresql:openSession', validated(s.openSession, async (_event, connectionId, database) => {
+    return await pgOpenSession(connectionId, database)
+  }))
+
+  ipcMain.handle('postgresql:sessionExecute', validated(s.sessionExecute, async (_event, sessionId, statements, autoCommit) => {
+    return await pgSessionExecute(sessionId, statements, autoCommit)
+  }))
+
+  ipcMain.handle('postgresql:endTransaction', validated(s.endTransaction, async (_event, sessionId, commit) => {
+    return await pgEndTransaction(sessionId, commit)
+  }))
+
+  ipcMain.handle('postgresql:sessionStatus', validated(s.sessionStatus, async (_event, sessionId) => {
+    return await pgSessionStatus(sessionId)
+  }))
+
+  ipcMain.handle('postgresql:closeSession', validated(s.closeSession, async (_event, sessionId) => {
+    return await pgCloseSession(sessionId)
+  }))
+
   ipcMain.handle('postgresql:findQuery', validated(s.findQuery, async (_event, connectionId, database, table, filter, options) => {
     return await pgFindQuery(connectionId, database, table, filter, options)
   }))
@@ -66,6 +115,10 @@ export function setupPostgreSQLHandlers(ipcMain: IpcMain) {
     }
   ))
 
+  ipcMain.handle('postgresql:applyChanges', validated(s.applyChanges, async (_event, connectionId, database, statements) => {
+    return await pgApplyChanges(connectionId, database, statements)
+  }))
+
   ipcMain.handle('postgresql:countRows', validated(
     z.tuple([cId, db, tbl, z.record(z.unknown())]),
     async (_event, connectionId, database, table, filter) => {
@@ -122,8 +175,8 @@ export function setupPostgreSQLHandlers(ipcMain: IpcMain) {
     }
   ))
 
-  ipcMain.handle('postgresql:dropIndex', validated(z.tuple([cId, db, idx]), async (_event, connectionId, database, indexName) => {
-    return await pgDropIndex(connectionId, database, indexName)
+  ipcMain.handle('postgresql:dropIndex', validated(z.tuple([cId, db, tbl, idx]), async (_event, connectionId, database, table, indexName) => {
+    return await pgDropIndex(connectionId, database, table, indexName)
   }))
 
   ipcMain.handle('postgresql:explainQuery', validated(
@@ -169,7 +222,7 @@ export function setupPostgreSQLHandlers(ipcMain: IpcMain) {
     }
   ))
 
-  ipcMain.handle('postgresql:getTableSizes', validated(z.tuple([cId]), async (_event, connectionId) => {
-    return await pgGetTableSizes(connectionId)
+  ipcMain.handle('postgresql:getTableSizes', validated(z.tuple([cId, db.optional()]), async (_event, connectionId, database) => {
+    return await pgGetTableSizes(connectionId, database)
   }))
 }
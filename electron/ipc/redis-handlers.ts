@@ -6,17 +6,24 @@ import {
   redisGetKeyValue, redisSetKey, redisDeleteKey, redisExecuteCommand, redisGetInfo,
   redisFlushDatabase, redisRenameKey, redisGetServerStats, redisGetSlowLog,
   redisGetClients, redisMemoryUsage, redisBulkDelete, redisBulkTTL,
+  redisStartMemoryAnalysis, redisCancelMemoryAnalysis, setMemoryAnalysisProgressCallback,
   redisAddItem, redisRemoveItem,
   redisSubscribe, redisUnsubscribe, redisUnsubscribeAll, redisPublish, redisGetPubSubChannels,
   setPubSubMessageCallback,
   redisStreamAdd, redisStreamRange, redisStreamLen, redisStreamDel, redisStreamTrim, redisStreamInfo,
   redisGetKeyEncoding, redisSetKeyTTL, redisCopyKey,
+  redisEvalScript, redisCallFunction, redisScriptLoad, redisScriptExists, redisScriptFlush,
+  redisFunctionLoad, redisFunctionList, redisFunctionDelete,
 } from '../redis'
 
 export function setupRedisHandlers(ipcMain: IpcMain, getMainWindow: () => BrowserWindow | null) {
-  ipcMain.handle('redis:connect', async (_event, connectionId, connectionString, sshTunnel) => {
+  ipcMain.handle('redis:connect', async (_event, connectionId, connectionString, sshTunnel, options) => {
+    // Cluster and Sentinel clients are redirected to other nodes, which a single tunnel can't reach
+    if (sshTunnel?.enabled && options?.mode && options.mode !== 'standalone') {
+      return { success: false, error: 'SSH tunnels only work with standalone Redis connections' }
+    }
     const finalConnStr = await applySSHTunnel(connectionId, connectionString, sshTunnel)
-    return await connectToRedis(connectionId, finalConnStr)
+    return await connectToRedis(connectionId, finalConnStr, options)
   })
 
   ipcMain.handle('redis:disconnect', async (_event, connectionId) => {
@@ -28,8 +35,8 @@ export function setupRedisHandlers(ipcMain: IpcMain, getMainWindow: () => Browse
     return await redisListDatabases(connectionId)
   })
 
-  ipcMain.handle('redis:listKeys', async (_event, connectionId, database, pattern, count) => {
-    return await redisListKeys(connectionId, database, pattern, count)
+  ipcMain.handle('redis:listKeys', async (_event, connectionId, database, pattern, count, cursor, type) => {
+    return await redisListKeys(connectionId, database, pattern, count, cursor, type)
   })
 
   ipcMain.handle('redis:getKeyValue', async (_event, connectionId, database, key) => {
@@ -74,6 +81,37 @@ export function setupRedisHandlers(ipcMain: IpcMain, getMainWindow: () => Browse
   ipcMain.handle('redis:memoryUsage', async (_event, connectionId, database, key) => {
     return await redisMemoryUsage(connectionId, database, key)
   })
+  ipcMain.handle('redis:startMemoryAnalysis', async (_event, analysisId, connectionId, database, options) => {
+    return await redisStartMemoryAnalysis(analysisId, connectionId, database, options)
+  })
+  ipcMain.handle('redis:cancelMemoryAnalysis', async (_event, analysisId) => {
+    return await redisCancelMemoryAnalysis(analysisId)
+  })
+  // Lua scripts & functions
+  ipcMain.handle('redis:evalScript', async (_event, connectionId, database, mode, scriptOrSha, keys, args) => {
+    return await redisEvalScript(connectionId, database, mode, scriptOrSha, keys, args)
+  })
+  ipcMain.handle('redis:callFunction', async (_event, connectionId, database, name, keys, args, readOnly) => {
+    return await redisCallFunction(connectionId, database, name, keys, args, readOnly)
+  })
+  ipcMain.handle('redis:scriptLoad', async (_event, connectionId, script) => {
+    return await redisScriptLoad(connectionId, script)
+  })
+  ipcMain.handle('redis:scriptExists', async (_event, connectionId, shas) => {
+    return await redisScriptExists(connectionId, shas)
+  })
+  ipcMain.handle('redis:scriptFlush', async (_event, connectionId) => {
+    return await redisScriptFlush(connectionId)
+  })
+  ipcMain.handle('redis:functionLoad', async (_event, connectionId, code, replace) => {
+    return await redisFunctionLoad(connectionId, code, replace)
+  })
+  ipcMain.handle('redis:functionList', async (_event, connectionId) => {
+    return await redisFunctionList(connectionId)
+  })
+  ipcMain.handle('redis:functionDelete', async (_event, connectionId, library) => {
+    return await redisFunctionDelete(connectionId, library)
+  })
   ipcMain.handle('redis:bulkDelete', async (_event, connectionId, database, pattern) => {
     return await redisBulkDelete(connectionId, database, pattern)
   })
@@ -142,5 +180,13 @@ export function setupRedisHandlers(ipcMain: IpcMain, getMainWindow: () => Browse
       win.webContents.send('redis:pubsubMessage', { connectionId, channel, message, timestamp: Date.now() })
     }
   })
+
+  // Forward memory analysis progress to the renderer
+  setMemoryAnalysisProgressCallback((progress) => {
+    const win = getMainWindow()
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('redis:memoryAnalysisProgress', progress)
+    }
+  })
 }
 
@@ -0,0 +1,132 @@
+import { type IpcMain } from 'electron'
+import { validated, sqliteSchemas as s, connectionId as cId, databaseName as db, collectionName as tbl, indexName as idx } from './validation'
+import { z } from 'zod'
+import {
+  connectToSQLite, disconnectFromSQLite, sqliteListDatabases, sqliteListTables,
+  sqliteExecuteQuery, sqliteFindQuery, sqliteInsertDocument, sqliteUpdateDocument, sqliteDeleteDocument,
+  sqliteUpdateMany, sqliteDeleteMany, sqliteCountRows, sqliteAggregate, sqliteGetTableSchema,
+  sqliteCreateTable, sqliteDropTable, sqliteRenameTable,
+  sqliteListIndexes, sqliteCreateIndex, sqliteDropIndex, sqliteExplainQuery, sqliteGetServerStats,
+} from '../sqlite'
+
+export function setupSQLiteHandlers(ipcMain: IpcMain) {
+  // Local files only — no SSH tunnel
+  ipcMain.handle('sqlite:connect', validated(s.connect, async (_event, connectionId, filePath) => {
+    return await connectToSQLite(connectionId, filePath)
+  }))
+
+  ipcMain.handle('sqlite:disconnect', validated(s.disconnect, async (_event, connectionId) => {
+    return await disconnectFromSQLite(connectionId)
+  }))
+
+  ipcMain.handle('sqlite:listDatabases', validated(s.listDatabases, async (_event, connectionId) => {
+    return await sqliteListDatabases(connectionId)
+  }))
+
+  ipcMain.handle('sqlite:listTables', validated(s.listTables, async (_event, connectionId, database) => {
+    return await sqliteListTables(connectionId, database)
+  }))
+
+  ipcMain.handle('sqlite:executeQuery', validated(s.executeQuery, async (_event, connectionId, database, table, query, options) => {
+    return await sqliteExecuteQuery(connectionId, database, table, query, options)
+  }))
+
+  ipcMain.handle('sqlite:findQuery', validated(s.findQuery, async (_event, connectionId, database, table, filter, options) => {
+    return await sqliteFindQuery(connectionId, database, table, filter, options)
+  }))
+
+  ipcMain.handle('sqlite:insertDocument', validated(s.insertRow, async (_event, connectionId, database, table, document) => {
+    return await sqliteInsertDocument(connectionId, database, table, document)
+  }))
+
+  ipcMain.handle('sqlite:updateDocument', validated(s.updateRow, async (_event, connectionId, database, table, filter, update) => {
+    return await sqliteUpdateDocument(connectionId, database, table, filter, update)
+  }))
+
+  ipcMain.handle('sqlite:deleteDocument', validated(s.deleteRow, async (_event, connectionId, database, table, filter) => {
+    return await sqliteDeleteDocument(connectionId, database, table, filter)
+  }))
+
+  ipcMain.handle('sqlite:updateMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown()), z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter, update) => {
+      return await sqliteUpdateMany(connectionId, database, table, filter, update)
+    }
+  ))
+
+  ipcMain.handle('sqlite:deleteMany', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await sqliteDeleteMany(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('sqlite:countRows', validated(
+    z.tuple([cId, db, tbl, z.record(z.unknown())]),
+    async (_event, connectionId, database, table, filter) => {
+      return await sqliteCountRows(connectionId, database, table, filter)
+    }
+  ))
+
+  ipcMain.handle('sqlite:aggregate', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await sqliteAggregate(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('sqlite:getTableSchema', validated(s.getTableSchema, async (_event, connectionId, database, table) => {
+    return await sqliteGetTableSchema(connectionId, database, table)
+  }))
+
+  // SQLite Management
+  ipcMain.handle('sqlite:createTable', validated(
+    z.tuple([cId, db, tbl, z.array(z.object({
+      name: z.string().min(1),
+      type: z.string().min(1),
+      nullable: z.boolean().optional(),
+      defaultValue: z.string().optional(),
+      primaryKey: z.boolean().optional(),
+    }))]),
+    async (_event, connectionId, database, table, columns) => {
+      return await sqliteCreateTable(connectionId, database, table, columns)
+    }
+  ))
+
+  ipcMain.handle('sqlite:dropTable', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await sqliteDropTable(connectionId, database, table)
+  }))
+
+  ipcMain.handle('sqlite:renameTable', validated(
+    z.tuple([cId, db, z.string().min(1), z.string().min(1)]),
+    async (_event, connectionId, database, oldName, newName) => {
+      return await sqliteRenameTable(connectionId, database, oldName, newName)
+    }
+  ))
+
+  ipcMain.handle('sqlite:listIndexes', validated(z.tuple([cId, db, tbl]), async (_event, connectionId, database, table) => {
+    return await sqliteListIndexes(connectionId, database, table)
+  }))
+
+  ipcMain.handle('sqlite:createIndex', validated(
+    z.tuple([cId, db, tbl, idx, z.array(z.string()), z.object({ unique: z.boolean().optional() }).passthrough().optional()]),
+    async (_event, connectionId, database, table, indexName, columns, options) => {
+      return await sqliteCreateIndex(connectionId, database, table, indexName, columns, options)
+    }
+  ))
+
+  ipcMain.handle('sqlite:dropIndex', validated(z.tuple([cId, db, idx]), async (_event, connectionId, database, indexName) => {
+    return await sqliteDropIndex(connectionId, database, indexName)
+  }))
+
+  ipcMain.handle('sqlite:explainQuery', validated(
+    z.tuple([cId, db, tbl, z.string()]),
+    async (_event, connectionId, database, table, query) => {
+      return await sqliteExplainQuery(connectionId, database, table, query)
+    }
+  ))
+
+  ipcMain.handle('sqlite:getServerStats', validated(z.tuple([cId]), async (_event, connectionId) => {
+    return await sqliteGetServerStats(connectionId)
+  }))
+}
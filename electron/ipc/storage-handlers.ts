@@ -4,6 +4,7 @@ import {
   saveQuery, getSavedQueries, deleteSavedQuery,
   addQueryHistory, getQueryHistory,
   getQueryTemplates, saveQueryTemplate, deleteQueryTemplate,
+  getRedisScripts, saveRedisScript, deleteRedisScript,
 } from '../storage'
 
 export function setupStorageHandlers(ipcMain: IpcMain) {
@@ -71,5 +72,23 @@ export function setupStorageHandlers(ipcMain: IpcMain) {
       return { success: false, error: error.message }
     }
   })
+
+  // Redis Lua scripts
+  ipcMain.handle('storage:getRedisScripts', () => {
+    return getRedisScripts()
+  })
+
+  ipcMain.handle('storage:saveRedisScript', (_event, script) => {
+    return saveRedisScript(script)
+  })
+
+  ipcMain.handle('storage:deleteRedisScript', (_event, id) => {
+    try {
+      deleteRedisScript(id)
+      return { success: true }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
 }
 
@@ -25,6 +25,9 @@ export const connectionId = z.string().min(1, 'connectionId is required')
 export const databaseName = z.string().min(1, 'database name is required')
 export const collectionName = z.string().min(1, 'collection/table name is required')
 export const indexName = z.string().min(1, 'index name is required')
+export const cursorId = z.string().min(1, 'cursorId is required')
+export const sessionId = z.string().min(1, 'sessionId is required')
+export const batchSize = z.number().int().min(1).max(5000).optional()
 export const filterObj = z.record(z.unknown()).default({})
 export const optionsObj = z.record(z.unknown()).optional()
 export const pipelineArr = z.array(z.record(z.unknown()))
@@ -48,11 +51,17 @@ export const mongoSchemas = {
   listDatabases: z.tuple([connectionId]),
   listCollections: z.tuple([connectionId, databaseName]),
   executeQuery: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
+  openCursor: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
+  fetchNext: z.tuple([cursorId, batchSize]),
+  closeCursor: z.tuple([cursorId]),
+  cancelCursor: z.tuple([cursorId]),
+  runScript: z.tuple([connectionId, databaseName, z.string()]),
   insertDocument: z.tuple([connectionId, databaseName, collectionName, documentObj]),
   updateDocument: z.tuple([connectionId, databaseName, collectionName, filterObj, documentObj]),
   deleteDocument: z.tuple([connectionId, databaseName, collectionName, filterObj]),
   updateMany: z.tuple([connectionId, databaseName, collectionName, filterObj, documentObj]),
   deleteMany: z.tuple([connectionId, databaseName, collectionName, filterObj]),
+  bulkWrite: z.tuple([connectionId, databaseName, collectionName, z.array(z.record(z.unknown())).min(1)]),
   countDocuments: z.tuple([connectionId, databaseName, collectionName, filterObj]),
   aggregate: z.tuple([connectionId, databaseName, collectionName, pipelineArr]),
   getCollectionStats: z.tuple([connectionId, databaseName, collectionName]),
@@ -74,6 +83,67 @@ export const pgSchemas = {
   connect: z.tuple([connectionId, z.string().min(1), sshTunnelSchema]),
   disconnect: z.tuple([connectionId]),
   listDatabases: z.tuple([connectionId]),
+  listSchemas: z.tuple([connectionId, databaseName]),
+  listTables: z.tuple([connectionId, databaseName]),
+  listFunctions: z.tuple([connectionId, databaseName, z.string().min(1).max(63)]),
+  executeQuery: z.tuple([connectionId, databaseName, z.string(), z.string(), optionsObj]),
+  executeScript: z.tuple([connectionId, databaseName, z.array(z.string().min(1)).min(1)]),
+  openCursor: z.tuple([connectionId, databaseName, z.string().min(1), z.object({ sessionId, autoCommit: z.boolean() }).optional()]),
+  fetchNext: z.tuple([cursorId, batchSize]),
+  closeCursor: z.tuple([cursorId]),
+  cancelCursor: z.tuple([cursorId]),
+  openSession: z.tuple([connectionId, databaseName]),
+  sessionExecute: z.tuple([sessionId, z.array(z.string().min(1)).min(1), z.boolean()]),
+  endTransaction: z.tuple([sessionId, z.boolean()]),
+  sessionStatus: z.tuple([sessionId]),
+  closeSession: z.tuple([sessionId]),
+  applyChanges: z.tuple([connectionId, databaseName, z.array(z.object({ text: z.string().min(1), values: z.array(z.unknown()) })).min(1)]),
+  findQuery: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
+  insertRow: z.tuple([connectionId, databaseName, collectionName, documentObj]),
+  updateRow: z.tuple([connectionId, databaseName, collectionName, filterObj, documentObj]),
+  deleteRow: z.tuple([connectionId, databaseName, collectionName, filterObj]),
+  getTableSchema: z.tuple([connectionId, databaseName, collectionName]),
+}
+
+// ── MySQL Schemas ───────────────────────────────────
+
+export const mysqlSchemas = {
+  connect: z.tuple([connectionId, z.string().min(1), sshTunnelSchema]),
+  disconnect: z.tuple([connectionId]),
+  listDatabases: z.tuple([connectionId]),
+  listTables: z.tuple([connectionId, databaseName]),
+  executeQuery: z.tuple([connectionId, databaseName, z.string(), z.string(), optionsObj]),
+  executeScript: z.tuple([connectionId, databaseName, z.array(z.string().min(1)).min(1)]),
+  findQuery: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
+  insertRow: z.tuple([connectionId, databaseName, collectionName, documentObj]),
+  updateRow: z.tuple([connectionId, databaseName, collectionName, filterObj, documentObj]),
+  deleteRow: z.tuple([connectionId, databaseName, collectionName, filterObj]),
+  getTableSchema: z.tuple([connectionId, databaseName, collectionName]),
+}
+
+// ── SQL Server Schemas ──────────────────────────────
+
+export const mssqlSchemas = {
+  connect: z.tuple([connectionId, z.string().min(1), sshTunnelSchema]),
+  disconnect: z.tuple([connectionId]),
+  listDatabases: z.tuple([connectionId]),
+  listSchemas: z.tuple([connectionId, databaseName]),
+  listTables: z.tuple([connectionId, databaseName]),
+  executeQuery: z.tuple([connectionId, databaseName, z.string(), z.string(), optionsObj]),
+  executeScript: z.tuple([connectionId, databaseName, z.array(z.string().min(1)).min(1)]),
+  findQuery: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
+  insertRow: z.tuple([connectionId, databaseName, collectionName, documentObj]),
+  updateRow: z.tuple([connectionId, databaseName, collectionName, filterObj, documentObj]),
+  deleteRow: z.tuple([connectionId, databaseName, collectionName, filterObj]),
+  getTableSchema: z.tuple([connectionId, databaseName, collectionName]),
+}
+
+// ── SQLite Schemas ──────────────────────────────────
+
+export const sqliteSchemas = {
+  connect: z.tuple([connectionId, z.string().min(1, 'file path is required')]),
+  disconnect: z.tuple([connectionId]),
+  listDatabases: z.tuple([connectionId]),
   listTables: z.tuple([connectionId, databaseName]),
   executeQuery: z.tuple([connectionId, databaseName, z.string(), z.string(), optionsObj]),
   findQuery: z.tuple([connectionId, databaseName, collectionName, filterObj, optionsObj]),
@@ -4,6 +4,9 @@ import path from 'path'
 import { initStorage, migrateSecrets, getAppSetting, seedBuiltInTemplates } from './storage'
 import { pingMongoDB, disconnectAll as disconnectAllMongo } from './mongodb'
 import { pingPostgreSQL, disconnectAll as disconnectAllPg } from './postgresql'
+import { pingMySQL, disconnectAll as disconnectAllMySQL } from './mysql'
+import { pingSQLite, disconnectAll as disconnectAllSQLite } from './sqlite'
+import { pingMSSQL, disconnectAll as disconnectAllMSSQL } from './mssql'
 import { pingRedis, disconnectAll as disconnectAllRedis } from './redis'
 import { pingKafka, disconnectAll as disconnectAllKafka } from './kafka'
 import { closeAllSSHTunnels } from './ssh-tunnel'
@@ -12,6 +15,9 @@ import { initUpdater, setupUpdaterIPC, checkForUpdatesQuietly } from './updater'
 import { setupStorageHandlers } from './ipc/storage-handlers'
 import { setupMongoDBHandlers } from './ipc/mongodb-handlers'
 import { setupPostgreSQLHandlers } from './ipc/postgresql-handlers'
+import { setupMySQLHandlers } from './ipc/mysql-handlers'
+import { setupSQLiteHandlers } from './ipc/sqlite-handlers'
+import { setupMSSQLHandlers } from './ipc/mssql-handlers'
 import { setupRedisHandlers } from './ipc/redis-handlers'
 import { setupKafkaHandlers } from './ipc/kafka-handlers'
 import { setupSecurityHandlers } from './ipc/security-handlers'
@@ -146,6 +152,9 @@ app.on('before-quit', async () => {
   await Promise.allSettled([
     disconnectAllMongo().catch(() => {}),
     disconnectAllPg().catch(() => {}),
+    disconnectAllMySQL().catch(() => {}),
+    disconnectAllSQLite().catch(() => {}),
+    disconnectAllMSSQL().catch(() => {}),
     disconnectAllRedis().catch(() => {}),
     disconnectAllKafka().catch(() => {}),
     closeAllSSHTunnels().catch(() => {}),
@@ -156,8 +165,11 @@ app.on('before-quit', async () => {
 setupStorageHandlers(ipcMain)
 setupMongoDBHandlers(ipcMain)
 setupPostgreSQLHandlers(ipcMain)
+setupMySQLHandlers(ipcMain)
+setupSQLiteHandlers(ipcMain)
+setupMSSQLHandlers(ipcMain)
 setupRedisHandlers(ipcMain, () => mainWindow)
-setupKafkaHandlers(ipcMain)
+setupKafkaHandlers(ipcMain, () => mainWindow)
 setupSecurityHandlers(ipcMain)
 setupAIHandlers(ipcMain)
 
@@ -175,6 +187,9 @@ ipcMain.handle('db:ping', async (_event, connectionId: string, dbType: string) =
   switch (dbType) {
     case 'mongodb': return await pingMongoDB(connectionId)
     case 'postgresql': return await pingPostgreSQL(connectionId)
+    case 'mysql': return await pingMySQL(connectionId)
+    case 'sqlite': return await pingSQLite(connectionId)
+    case 'mssql': return await pingMSSQL(connectionId)
     case 'redis': return await pingRedis(connectionId)
     case 'kafka': return await pingKafka(connectionId)
     default: return { success: false, error: `Unsupported database type: ${dbType}` }
@@ -0,0 +1,324 @@
+import {
+  ObjectId, UUID,
+  type MongoClient, type Db, type Collection, type Document, type FindCursor, type AggregationCursor,
+} from 'mongodb'
+import { getMongoClient, toEJSON, fromEJSON } from './mongodb'
+import { SCRIPT_FILENAME, scriptErrorLine, wrapScript } from '../src/utils/shellScript'
+import {
+  EJSON_TYPE_KEYS, isShellMethod, runShellScript, type ShellBridge, type ShellObjectKind,
+} from '../src/utils/shellSandbox'
+import { toShellSyntax } from '../src/utils/ejson'
+
+const SCRIPT_TIMEOUT_MS = 60_000
+/** Documents a bare find() / aggregate() result shows when the script sets no limit */
+const IMPLICIT_LIMIT = 1000
+const MAX_OUTPUT_LINES = 1000
+
+/** Per-run state: printed output and the script line of the latest call */
+class ScriptState {
+  output: string[] = []
+  /** Script line of the most recent db call — driver errors carry no script frame of their own */
+  line: number | undefined
+
+  constructor(private readonly lineCount: number) {}
+
+  mark() {
+    this.line = scriptErrorLine(new Error().stack, this.lineCount) ?? this.line
+  }
+
+  print(text: string) {
+    if (this.output.length < MAX_OUTPUT_LINES) this.output.push(text)
+    else if (this.output.length === MAX_OUTPUT_LINES) this.output.push(`… output truncated at ${MAX_OUTPUT_LINES} lines`)
+  }
+}
+
+interface FindModifiers {
+  sort?: Document
+  skip?: number
+  limit?: number
+  projection?: Document
+  hint?: Document | string
+  batchSize?: number
+  maxTimeMS?: number
+}
+
+/** Chainable cursor: modifiers build up until a terminal method (toArray, next …) runs the query */
+class ShellCursor {
+  private readonly modifiers: FindModifiers = {}
+  private live: FindCursor | AggregationCursor | null = null
+
+  constructor(
+    private readonly open: (modifiers: FindModifiers) => FindCursor | AggregationCursor,
+    private readonly counter?: (modifiers: FindModifiers) => Promise<number>,
+  ) {}
+
+  sort(spec: Document) { this.modifiers.sort = spec; return this }
+  skip(n: number) { this.modifiers.skip = n; return this }
+  limit(n: number) { this.modifiers.limit = n; return this }
+  project(spec: Document) { this.modifiers.projection = spec; return this }
+  projection(spec: Document) { return this.project(spec) }
+  hint(index: Document | string) { this.modifiers.hint = index; return this }
+  batchSize(n: number) { this.modifiers.batchSize = n; return this }
+  maxTimeMS(ms: number) { this.modifiers.maxTimeMS = ms; return this }
+
+  private cursor() {
+    return (this.live ??= this.open(this.modifiers))
+  }
+
+  toArray() { return this.cursor().toArray() }
+  hasNext() { return this.cursor().hasNext() }
+  next() { return this.cursor().next() }
+  close() { return this.cursor().close() }
+
+  /** Host-side close for a cancelled run — only kills a cursor the script actually opened */
+  async kill() { await this.live?.close() }
+
+  async count() {
+    if (!this.counter) throw new Error('count() is only available on find() cursors')
+    return this.counter(this.modifiers)
+  }
+
+  explain(verbosity: string = 'queryPlanner') {
+    return this.open(this.modifiers).explain(verbosity as any)
+  }
+
+  /** What the script shows when it ends on a cursor: the first IMPLICIT_LIMIT documents unless it set a limit */
+  async preview() {
+    const cap = this.modifiers.limit ? Infinity : IMPLICIT_LIMIT
+    const documents: Document[] = []
+    let truncated = false
+    for await (const doc of this.cursor()) {
+      if (documents.length >= cap) { truncated = true; break }
+      documents.push(doc)
+    }
+    return { documents, truncated }
+  }
+}
+
+const applyModifiers = (cursor: FindCursor, m: FindModifiers) => {
+  if (m.sort) cursor.sort(m.sort)
+  if (m.skip) cursor.skip(m.skip)
+  if (m.limit) cursor.limit(m.limit)
+  if (m.projection) cursor.project(m.projection)
+  if (m.hint) cursor.hint(m.hint)
+  if (m.batchSize) cursor.batchSize(m.batchSize)
+  if (m.maxTimeMS) cursor.maxTimeMS(m.maxTimeMS)
+  return cursor
+}
+
+/** Collection API in mongosh spelling. Reads carry the run's abort signal, so a cancelled run stops them */
+class ShellCollection {
+  constructor(private readonly coll: Collection, private readonly signal: AbortSignal) {}
+
+  find(filter: Document = {}, projection?: Document) {
+    const { signal } = this
+    return new ShellCursor(
+      (m) => applyModifiers(this.coll.find(filter, projection ? { projection, signal } : { signal }), m),
+      (m) => this.coll.countDocuments(filter, { skip: m.skip, limit: m.limit, signal }),
+    )
+  }
+
+  aggregate(pipeline: Document[] = [], options?: Document) {
+    return new ShellCursor(() => this.coll.aggregate(pipeline, { ...options, signal: this.signal }))
+  }
+
+  findOne(filter: Document = {}, projection?: Document) {
+    return this.coll.findOne(filter, projection ? { projection, signal: this.signal } : { signal: this.signal })
+  }
+  countDocuments(filter: Document = {}, options?: Document) { return this.coll.countDocuments(filter, { ...options, signal: this.signal }) }
+  estimatedDocumentCount() { return this.coll.estimatedDocumentCount() }
+  distinct(key: string, filter: Document = {}) { return this.coll.distinct(key, filter) }
+  insertOne(doc: Document) { return this.coll.insertOne(doc) }
+  insertMany(docs: Document[], options?: Document) { return this.coll.insertMany(docs, options) }
+  updateOne(filter: Document, update: Document, options?: Document) { return this.coll.updateOne(filter, update, options) }
+  updateMany(filter: Document, update: Document, options?: Document) { return this.coll.updateMany(filter, update, options) }
+  replaceOne(filter: Document, doc: Document, options?: Document) { return this.coll.replaceOne(filter, doc, options) }
+  deleteOne(filter: Document) { return this.coll.deleteOne(filter) }
+  deleteMany(filter: Document) { return this.coll.deleteMany(filter) }
+  findOneAndUpdate(filter: Document, update: Document, options: Document = {}) { return this.coll.findOneAndUpdate(filter, update, options) }
+  findOneAndReplace(filter: Document, doc: Document, options: Document = {}) { return this.coll.findOneAndReplace(filter, doc, options) }
+  findOneAndDelete(filter: Document, options: Document = {}) { return this.coll.findOneAndDelete(filter, options) }
+  bulkWrite(operations: any[], options?: Document) { return this.coll.bulkWrite(operations, options) }
+  createIndex(keys: Document, options?: Document) { return this.coll.createIndex(keys, options) }
+  getIndexes() { return this.coll.listIndexes().toArray() }
+  dropIndex(name: string) { return this.coll.dropIndex(name) }
+  drop() { return this.coll.drop() }
+  getName() { return this.coll.collectionName }
+}
+
+/** `db` global — the sandbox turns any other property into a collection (db.orders, db['order-items']) */
+class ShellDb {
+  private readonly db: Db
+
+  constructor(private readonly client: MongoClient, private readonly name: string, private readonly signal: AbortSignal) {
+    this.db = client.db(name)
+  }
+
+  getName() { return this.name }
+  getCollection(collection: string) { return new ShellCollection(this.db.collection(collection), this.signal) }
+  getSiblingDB(other: string) { return new ShellDb(this.client, other, this.signal) }
+  getCollectionNames() {
+    return this.db.listCollections({}, { nameOnly: true, signal: this.signal }).toArray().then(list => list.map(c => c.name).sort())
+  }
+  createCollection(collection: string, options?: Document) { return this.db.createCollection(collection, options).then(() => ({ ok: 1 })) }
+  runCommand(command: Document) { return this.db.command(command, { signal: this.signal }) }
+  adminCommand(command: Document) { return this.client.db('admin').command(command, { signal: this.signal }) }
+}
+
+type ShellObject = ShellDb | ShellCollection | ShellCursor
+
+const kindOf = (value: unknown): ShellObjectKind | null =>
+  value instanceof ShellDb ? 'db' : value instanceof ShellCollection ? 'collection' : value instanceof ShellCursor ? 'cursor' : null
+
+const formatValue = (value: unknown, indent: number) =>
+  typeof value === 'string' ? value : value === undefined ? 'undefined' : toShellSyntax(toEJSON(value), indent)
+
+/**
+ * Script values arrive as EJSON. Plain numbers stay numbers (cursor.limit(10) needs one), while the
+ * wrappers — NumberLong(…), ObjectId(…), ISODate(…) — become their BSON types.
+ */
+const fromScript = (value: any): any => {
+  if (Array.isArray(value)) return value.map(fromScript)
+  if (value === null || typeof value !== 'object') return value
+  const keys = Object.keys(value)
+  if (keys.length > 0 && EJSON_TYPE_KEYS.includes(keys[0])) return fromEJSON(value)
+  return Object.fromEntries(keys.map(k => [k, fromScript(value[k])]))
+}
+
+/**
+ * Host end of the sandbox bridge. Script objects live here and go by handle; arguments and replies cross as
+ * EJSON text, so nothing the script receives was made in this realm. Once cancelled, every call — and every
+ * reply still on its way — fails with the cancellation error, so the script cannot issue anything more.
+ */
+const createBridge = (state: ScriptState, db: ShellDb) => {
+  const objects = new Map<number, ShellObject>([[1, db]])
+  const handles = new Map<ShellObject, number>([[db, 1]])
+  let cancelled: Error | null = null
+
+  const reply = (value: unknown) => {
+    const kind = kindOf(value)
+    if (!kind) return JSON.stringify(value === undefined ? {} : { value: toEJSON(value) })
+    let handle = handles.get(value as ShellObject)
+    if (handle === undefined) {
+      handle = objects.size + 1
+      objects.set(handle, value as ShellObject)
+      handles.set(value as ShellObject, handle)
+    }
+    return JSON.stringify({ handle, kind })
+  }
+  const fail = (error: any) => JSON.stringify({ error: error?.message ?? String(error) })
+
+  const shellCall = (method: string, args: any[]) => {
+    switch (method) {
+      case 'print': {
+        const [indent, values] = args as [number, (string | { value: unknown })[]]
+        state.print(values.map(v => typeof v === 'string' ? v : formatValue(v.value, indent)).join(' '))
+        return undefined
+      }
+      case 'objectId': return new ObjectId().toHexString()
+      case 'uuid': return new UUID()
+      default: throw new Error(`Unknown shell call: ${method}`)
+    }
+  }
+
+  const bridge: ShellBridge = (target, method, args, callback) => {
+    try {
+      if (cancelled) throw cancelled
+      state.mark()
+      const decoded = fromScript(JSON.parse(args))
+      if (!Array.isArray(decoded)) throw new Error('Invalid arguments')
+      let result: unknown
+      if (target === 0) {
+        result = shellCall(method, decoded)
+      } else {
+        const object = objects.get(target)
+        const kind = object && kindOf(object)
+        if (!object || !kind || !isShellMethod(kind, method)) throw new Error(`${method} is not a shell method`)
+        result = (object as any)[method](...decoded)
+      }
+      if (!callback) return reply(result)
+      Promise.resolve(result)
+        .then(value => { if (cancelled) throw cancelled; return reply(value) })
+        .catch(fail)
+        .then(text => callback(text))
+      return ''
+    } catch (error) {
+      if (!callback) return fail(error)
+      callback(fail(error))
+      return ''
+    }
+  }
+
+  /** Stop the run: fail whatever the script calls next and kill the cursors it left open */
+  const cancel = (reason: Error) => {
+    cancelled = reason
+    for (const object of objects.values()) {
+      if (object instanceof ShellCursor) object.kill().catch(() => { /* already closed */ })
+    }
+  }
+
+  return { bridge, cancel, cursor: (handle: number) => objects.get(handle) }
+}
+
+const isDocument = (value: unknown): value is Document =>
+  value !== null && typeof value === 'object' && !('_bsontype' in value) &&
+  Object.prototype.toString.call(value) !== '[object Date]'
+
+/** Shape a script result for QueryResults: arrays are rows, a document is one row, anything else a { value } row */
+const toRows = async (value: unknown) => {
+  if (value instanceof ShellCursor) return value.preview()
+  if (value === undefined) return { documents: [], truncated: false }
+  const items = Array.isArray(value) ? value : [value]
+  return { documents: items.map(item => isDocument(item) ? item : { value: item }), truncated: false }
+}
+
+/**
+ * Run a mongo shell-style script against a database. Syntax and runtime errors come back with the script line
+ * they occurred on; driver errors with the line of the db call that failed.
+ */
+export const mongoRunScript = async (connectionId: string, database: string, script: string) => {
+  const state = new ScriptState(script.split('\n').length)
+  const startTime = Date.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  try {
+    const client = getMongoClient(connectionId)
+    if (!client) throw new Error('Not connected')
+
+    const controller = new AbortController()
+    const { bridge, cancel, cursor } = createBridge(state, new ShellDb(client, database, controller.signal))
+    // The vm timeout covers synchronous loops; the timer covers the awaited part, aborting the reads in flight
+    // and cancelling the bridge so the script cannot carry on behind the caller's back
+    const running = runShellScript(wrapScript(script), bridge, { filename: SCRIPT_FILENAME, lineOffset: -1, timeout: SCRIPT_TIMEOUT_MS })
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Script timed out after ${SCRIPT_TIMEOUT_MS / 1000}s`)
+        controller.abort(error)
+        cancel(error)
+        reject(error)
+      }, SCRIPT_TIMEOUT_MS)
+    })
+    const result = await Promise.race([running, timeout])
+    const { documents, truncated } = await toRows(
+      result.cursor !== undefined ? cursor(result.cursor) : fromScript(result.value)
+    )
+
+    return {
+      success: true,
+      documents: toEJSON(documents),
+      output: state.output,
+      truncated,
+      executionTime: Date.now() - startTime,
+    }
+  } catch (error: any) {
+    const message = error?.message ?? String(error)
+    console.error('Run script error:', message)
+    return {
+      success: false,
+      error: message,
+      line: scriptErrorLine(error?.stack, script.split('\n').length) ?? state.line,
+      output: state.output,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
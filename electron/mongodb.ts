@@ -1,11 +1,53 @@
-import { MongoClient, Db, ObjectId } from 'mongodb'
+import { randomUUID } from 'crypto'
+import { MongoClient, Db, ObjectId, BSON, Double, Int32, Long, type ClientSession, type Collection, type FindCursor } from 'mongodb'
 
 interface ConnectionInfo {
   client: MongoClient
   db?: Db
 }
 
+interface CursorInfo {
+  connectionId: string
+  cursor: FindCursor
+  /** Tag attached as the command comment so the server-side op can be found for killOp */
+  comment: string
+}
+
 const connections = new Map<string, ConnectionInfo>()
+const cursors = new Map<string, CursorInfo>()
+
+const DEFAULT_BATCH_SIZE = 200
+
+/* ── Extended JSON ────────────────────────────────────── */
+
+/**
+ * Tag the numbers relaxed EJSON would let change type on the way back: Int64, and doubles with an integral
+ * value (5.0, 3e9), which would otherwise come back as Int32 / Int64. Int32 and fractional doubles stay plain.
+ */
+const tagNumbers = (value: any): any => {
+  if (value instanceof Long) return { $numberLong: value.toString() }
+  if (value instanceof Double) return Number.isInteger(value.value) ? BSON.EJSON.serialize(value, { relaxed: false }) : value.value
+  if (value instanceof Int32) return value.value
+  if (Array.isArray(value)) return value.map(tagNumbers)
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, any> = {}
+    for (const [k, v] of Object.entries(value)) out[k] = tagNumbers(v)
+    return out
+  }
+  return value
+}
+
+/** Documents cross IPC as relaxed EJSON so ObjectId, Date, Decimal128, Binary and Long survive structured clone */
+export const toEJSON = (value: any): any => BSON.EJSON.serialize(tagNumbers(value), { relaxed: true })
+
+/** Filters, documents and pipelines arrive as EJSON — rebuild the BSON types before they reach the driver */
+export const fromEJSON = (value: any): any => BSON.EJSON.deserialize(value ?? {}, { relaxed: false })
+
+/** Read options: leave Int64, Int32 and Double as BSON values so tagNumbers can tell them apart */
+export const READ_OPTIONS = { promoteLongs: false, promoteValues: false } as const
+
+/** Connected client for the shell script runtime */
+export const getMongoClient = (connectionId: string): MongoClient | undefined => connections.get(connectionId)?.client
 
 export const connectToMongoDB = async (connectionId: string, connectionString: string) => {
   let client: MongoClient | null = null
@@ -42,6 +84,9 @@ export const disconnectFromMongoDB = async (connectionId: string) => {
   try {
     const connection = connections.get(connectionId)
     if (connection) {
+      for (const [cursorId, info] of cursors) {
+        if (info.connectionId === connectionId) cursors.delete(cursorId)
+      }
       await connection.client.close()
       connections.delete(connectionId)
 
@@ -116,12 +161,13 @@ export const executeQuery = async (
     const skip = options.skip || 0
     const sort = options.sort || {}
 
-    const documents = await coll.find(filter).sort(sort).skip(skip).limit(limit).toArray()
-    const totalCount = await coll.countDocuments(filter)
+    const query = fromEJSON(filter)
+    const documents = await coll.find(query, READ_OPTIONS).sort(sort).skip(skip).limit(limit).toArray()
+    const totalCount = await coll.countDocuments(query)
 
     return {
       success: true,
-      documents,
+      documents: toEJSON(documents),
       totalCount,
       returnedCount: documents.length,
     }
@@ -131,6 +177,98 @@ export const executeQuery = async (
   }
 }
 
+/* ── Streaming Cursors ────────────────────────────────── */
+
+export const mongoOpenCursor = async (
+  connectionId: string,
+  database: string,
+  collection: string,
+  filter: any = {},
+  options: any = {}
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const cursorId = randomUUID()
+    const comment = `zentab:${cursorId}`
+    const coll = connection.client.db(database).collection(collection)
+
+    // Nothing is sent to the server until the first fetch
+    const cursor = coll.find(fromEJSON(filter), { ...READ_OPTIONS, comment })
+      .sort(options.sort || {})
+      .skip(options.skip || 0)
+      .batchSize(options.batchSize || DEFAULT_BATCH_SIZE)
+    if (options.limit) cursor.limit(options.limit)
+
+    cursors.set(cursorId, { connectionId, cursor, comment })
+    return { success: true, cursorId }
+  } catch (error: any) {
+    console.error('Open cursor error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mongoFetchNext = async (cursorId: string, batchSize: number = DEFAULT_BATCH_SIZE) => {
+  const info = cursors.get(cursorId)
+  try {
+    if (!info) throw new Error('Cursor not found or already closed')
+
+    const documents: any[] = []
+    while (documents.length < batchSize && await info.cursor.hasNext()) {
+      documents.push(...info.cursor.readBufferedDocuments(batchSize - documents.length))
+    }
+
+    const done = documents.length < batchSize
+    if (done) await mongoCloseCursor(cursorId)
+
+    return { success: true, documents: toEJSON(documents), done }
+  } catch (error: any) {
+    if (info) await mongoCloseCursor(cursorId)
+    console.error('Fetch next error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mongoCloseCursor = async (cursorId: string) => {
+  try {
+    const info = cursors.get(cursorId)
+    if (!info) return { success: true }
+    cursors.delete(cursorId)
+    await info.cursor.close()
+    return { success: true }
+  } catch (error: any) {
+    console.error('Close cursor error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Kill the server-side operation behind a cursor (find or getMore) and close it */
+export const mongoCancelCursor = async (cursorId: string) => {
+  try {
+    const info = cursors.get(cursorId)
+    if (!info) return { success: true, killed: 0 }
+    const connection = connections.get(info.connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const admin = connection.client.db('admin')
+    const ops = await admin.aggregate([
+      { $currentOp: { allUsers: true, idleConnections: false } },
+      { $match: { $or: [{ 'command.comment': info.comment }, { 'cursor.originatingCommand.comment': info.comment }] } },
+      { $project: { opid: 1 } },
+    ]).toArray()
+    for (const op of ops) {
+      await admin.command({ killOp: 1, op: op.opid })
+    }
+
+    await mongoCloseCursor(cursorId)
+    return { success: true, killed: ops.length }
+  } catch (error: any) {
+    console.error('Cancel cursor error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
 export const insertDocument = async (
   connectionId: string,
   database: string,
@@ -146,11 +284,11 @@ export const insertDocument = async (
     const db = connection.client.db(database)
     const coll = db.collection(collection)
 
-    const result = await coll.insertOne(document)
+    const result = await coll.insertOne(fromEJSON(document))
 
     return {
       success: true,
-      insertedId: result.insertedId,
+      insertedId: toEJSON(result.insertedId),
     }
   } catch (error: any) {
     console.error('Insert document error:', error.message)
@@ -174,10 +312,13 @@ export const updateDocument = async (
     const db = connection.client.db(database)
     const coll = db.collection(collection)
 
-    // Remove _id from update to avoid "Performing an update on the path '_id' would modify the immutable field '_id'"
-    const { _id, ...updateFields } = update
+    // Update operators ($set / $unset of the changed fields) go as they are; a whole document is $set field by field,
+    // without _id — "Performing an update on the path '_id' would modify the immutable field '_id'"
+    const parsed = fromEJSON(update)
+    const { _id, ...updateFields } = parsed
+    const operators = Object.keys(parsed).length > 0 && Object.keys(parsed).every(key => key.startsWith('$'))
 
-    const result = await coll.updateOne(filter, { $set: updateFields })
+    const result = await coll.updateOne(fromEJSON(filter), operators ? parsed : { $set: updateFields })
 
     return {
       success: true,
@@ -204,7 +345,7 @@ export const deleteDocument = async (
     const db = connection.client.db(database)
     const coll = db.collection(collection)
 
-    const result = await coll.deleteOne(filter)
+    const result = await coll.deleteOne(fromEJSON(filter))
 
     return {
       success: true,
@@ -229,7 +370,7 @@ export const updateMany = async (
 
     const db = connection.client.db(database)
     const coll = db.collection(collection)
-    const result = await coll.updateMany(filter, { $set: update })
+    const result = await coll.updateMany(fromEJSON(filter), { $set: fromEJSON(update) })
 
     return { success: true, matchedCount: result.matchedCount, modifiedCount: result.modifiedCount }
   } catch (error: any) {
@@ -250,7 +391,7 @@ export const deleteMany = async (
 
     const db = connection.client.db(database)
     const coll = db.collection(collection)
-    const result = await coll.deleteMany(filter)
+    const result = await coll.deleteMany(fromEJSON(filter))
 
     return { success: true, deletedCount: result.deletedCount }
   } catch (error: any) {
@@ -259,6 +400,87 @@ export const deleteMany = async (
   }
 }
 
+/** Replica set members and mongos run multi-document transactions; a standalone server can't */
+const supportsTransactions = async (client: MongoClient) => {
+  const hello = await client.db('admin').command({ hello: 1 })
+  return Boolean(hello.setName) || hello.msg === 'isdbgrid'
+}
+
+/** Run one staged insertOne / updateOne / deleteOne; false when its filter matched nothing */
+const applyStagedOperation = async (coll: Collection, operation: any, session?: ClientSession) => {
+  if (operation.insertOne) {
+    await coll.insertOne(operation.insertOne.document, { session })
+    return true
+  }
+  if (operation.updateOne) {
+    const result = await coll.updateOne(operation.updateOne.filter, operation.updateOne.update, { session })
+    return result.matchedCount > 0
+  }
+  if (operation.deleteOne) {
+    const result = await coll.deleteOne(operation.deleteOne.filter, { session })
+    return result.deletedCount > 0
+  }
+  throw new Error(`Unsupported operation: ${Object.keys(operation)[0]}`)
+}
+
+/**
+ * Apply the Data Viewer's staged changes in order. Each update and delete must match its row; one that matches
+ * nothing — the document was changed or removed since it was loaded — is reported in `staleIndexes`. On a replica
+ * set or sharded cluster everything runs in one transaction, which any stale row or failure aborts. A standalone
+ * server has no transactions: it stops at the first failing write, and `appliedIndexes` lists what was written.
+ */
+export const bulkWrite = async (
+  connectionId: string,
+  database: string,
+  collection: string,
+  operations: any[]
+) => {
+  const appliedIndexes: number[] = []
+  const staleIndexes: number[] = []
+  let index = 0
+  let transactional = false
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const coll = connection.client.db(database).collection(collection)
+    const staged: any[] = fromEJSON(operations)
+    const applyAll = async (session?: ClientSession) => {
+      appliedIndexes.length = 0
+      staleIndexes.length = 0
+      for (index = 0; index < staged.length; index++) {
+        if (await applyStagedOperation(coll, staged[index], session)) appliedIndexes.push(index)
+        else staleIndexes.push(index)
+      }
+      if (staleIndexes.length > 0) throw new Error(`No rows matched for ${staleIndexes.length} change${staleIndexes.length !== 1 ? 's' : ''} — the document was changed or deleted since it was loaded`)
+    }
+
+    transactional = await supportsTransactions(connection.client)
+    if (transactional) {
+      const session = connection.client.startSession()
+      try {
+        await session.withTransaction(() => applyAll(session))
+      } finally {
+        await session.endSession()
+      }
+    } else {
+      await applyAll()
+    }
+
+    return { success: true, applied: appliedIndexes.length }
+  } catch (error: any) {
+    console.error('Bulk write error:', error.message)
+    return {
+      success: false,
+      error: error.message,
+      failedIndex: index < operations.length ? index : staleIndexes[0],
+      staleIndexes,
+      // A rolled-back transaction wrote nothing
+      appliedIndexes: transactional ? [] : appliedIndexes,
+    }
+  }
+}
+
 export const countDocuments = async (
   connectionId: string,
   database: string,
@@ -271,7 +493,7 @@ export const countDocuments = async (
 
     const db = connection.client.db(database)
     const coll = db.collection(collection)
-    const count = await coll.countDocuments(filter)
+    const count = await coll.countDocuments(fromEJSON(filter))
 
     return { success: true, count }
   } catch (error: any) {
@@ -295,11 +517,11 @@ export const aggregate = async (
     const db = connection.client.db(database)
     const coll = db.collection(collection)
 
-    const documents = await coll.aggregate(pipeline).toArray()
+    const documents = await coll.aggregate(fromEJSON(pipeline), READ_OPTIONS).toArray()
 
     return {
       success: true,
-      documents,
+      documents: toEJSON(documents),
     }
   } catch (error: any) {
     console.error('Aggregate error:', error.message)
@@ -474,7 +696,7 @@ export const explainQuery = async (
     const db = connection.client.db(database)
     const coll = db.collection(collection)
 
-    const explanation = await coll.find(filter).explain('executionStats')
+    const explanation = await coll.find(fromEJSON(filter)).explain('executionStats')
 
     return { success: true, explain: explanation }
   } catch (error: any) {
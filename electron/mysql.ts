@@ -0,0 +1,718 @@
+import { createPool, type Pool, type PoolConnection, type ResultSetHeader } from 'mysql2/promise'
+
+interface MySQLConnectionInfo {
+  pool: Pool
+  database?: string
+}
+
+const connections = new Map<string, MySQLConnectionInfo>()
+
+/** Quote a MySQL identifier with backticks (escaping embedded backticks) */
+const quoteId = (name: string) => `\`${String(name).replace(/`/g, '``')}\``
+
+/** Fully-qualified `db`.`table` reference so every call honours the selected database */
+const qualify = (database: string, table: string) => (database ? `${quoteId(database)}.${quoteId(table)}` : quoteId(table))
+
+/** mysql2 expands plain objects into `key = value` lists, so JSON column values are sent as strings */
+const toParam = (value: any) =>
+  value !== null && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value) ? JSON.stringify(value) : value
+
+/** Rows and their columns, or for INSERT / UPDATE / DELETE / DDL the result header as a single row */
+const toQueryResult = (result: unknown, fields: unknown) => {
+  if (!Array.isArray(result)) {
+    const header = result as ResultSetHeader
+    const summary = { affectedRows: header.affectedRows, insertId: header.insertId, info: header.info }
+    return { documents: [summary] as any[], totalCount: header.affectedRows, returnedCount: 1 }
+  }
+  const rows = result as any[]
+  return {
+    documents: rows,
+    totalCount: rows.length,
+    returnedCount: rows.length,
+    fields: (fields as any[] | undefined)?.map(f => ({ name: f.name, columnType: f.columnType })),
+  }
+}
+
+export const connectToMySQL = async (connectionId: string, connectionString: string) => {
+  let pool: Pool | null = null
+  try {
+    // Close existing connection if any
+    if (connections.has(connectionId)) {
+      await disconnectFromMySQL(connectionId)
+    }
+
+    pool = createPool({
+      uri: connectionString,
+      connectTimeout: 5000,
+      connectionLimit: 10,
+      idleTimeout: 30000,
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+      dateStrings: true,
+    })
+
+    // Test connection
+    const conn = await pool.getConnection()
+    await conn.query('SELECT 1')
+    conn.release()
+
+    // Extract database name from connection string
+    const dbMatch = connectionString.match(/\/([^/?]+)(?:\?|$)/)
+    const database = dbMatch ? decodeURIComponent(dbMatch[1]) : undefined
+
+    connections.set(connectionId, { pool, database })
+
+    return { success: true, connectionId }
+  } catch (error: any) {
+    console.error('MySQL connection error:', error.message)
+    // Clean up pool on connection failure to prevent leak
+    if (pool) {
+      try { await pool.end() } catch { /* ignore cleanup errors */ }
+    }
+    return { success: false, error: error.message }
+  }
+}
+
+export const disconnectFromMySQL = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (connection) {
+      await connection.pool.end()
+      connections.delete(connectionId)
+    }
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL disconnect error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const pingMySQL = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) return { success: false, error: 'Not connected' }
+    await connection.pool.query('SELECT 1')
+    return { success: true }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlListDatabases = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const [rows] = await connection.pool.query<any[]>(
+      'SELECT SCHEMA_NAME AS name FROM information_schema.SCHEMATA ORDER BY SCHEMA_NAME'
+    )
+    return { success: true, databases: rows }
+  } catch (error: any) {
+    console.error('MySQL list databases error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlListTables = async (connectionId: string, database: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const [rows] = await connection.pool.query<any[]>(
+      `SELECT TABLE_NAME AS name, TABLE_TYPE AS type
+       FROM information_schema.TABLES
+       WHERE TABLE_SCHEMA = ?
+       ORDER BY TABLE_NAME`,
+      [database]
+    )
+    return { success: true, collections: rows }
+  } catch (error: any) {
+    console.error('MySQL list tables error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Statements that leave a transaction open on the connection, which must then not go back to the pool */
+const TRANSACTION_STATEMENT = /^\s*(begin|start\s+transaction|savepoint|xa\s+(start|begin)|set\s+(session\s+|@@(session\.)?)?autocommit\b)\b/i
+
+export const mysqlExecuteQuery = async (
+  connectionId: string,
+  database: string,
+  _table: string,
+  query: string,
+  _options: any = {}
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    // Raw SQL may use unqualified names, so pin a pooled connection to the selected database
+    const conn = await connection.pool.getConnection()
+    try {
+      if (database) await conn.query(`USE ${quoteId(database)}`)
+      const [result, fields] = await conn.query(query)
+      const { documents, totalCount, returnedCount, fields: columns } = toQueryResult(result, fields)
+      return { success: true, documents, totalCount, returnedCount, fields: columns }
+    } finally {
+      // A transaction opened here would ride along with whatever borrows the connection next
+      if (TRANSACTION_STATEMENT.test(query)) conn.destroy()
+      else conn.release()
+    }
+  } catch (error: any) {
+    console.error('MySQL execute query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/**
+ * Run a script's statements one after another on one pooled connection, so USE, user variables, temporary
+ * tables and transactions carry over between them. Stops at the first failing statement.
+ */
+export const mysqlExecuteScript = async (connectionId: string, database: string, statements: string[]) => {
+  let conn: PoolConnection | null = null
+  let failed = false
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    conn = await connection.pool.getConnection()
+    if (database) await conn.query(`USE ${quoteId(database)}`)
+
+    const results = []
+    for (const statement of statements) {
+      const startTime = Date.now()
+      try {
+        const [result, fields] = await conn.query(statement)
+        const { documents, totalCount, fields: columns } = toQueryResult(result, fields)
+        results.push({ success: true, documents, rowCount: totalCount, fields: columns, executionTime: Date.now() - startTime })
+      } catch (error: any) {
+        failed = true
+        results.push({ success: false, documents: [], error: error.message, executionTime: Date.now() - startTime })
+        break
+      }
+    }
+
+    return { success: true, results }
+  } catch (error: any) {
+    console.error('MySQL execute script error:', error.message)
+    return { success: false, error: error.message }
+  } finally {
+    // Don't hand a connection that may hold an open transaction back to the pool
+    if (failed || statements.some(s => TRANSACTION_STATEMENT.test(s))) conn?.destroy()
+    else conn?.release()
+  }
+}
+
+export const mysqlFindQuery = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any = {},
+  options: any = {}
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const limit = Number(options.limit) || 100
+    const skip = Number(options.skip) || 0
+    const sort = options.sort || {}
+
+    // Build WHERE clause from filter
+    const { whereClause, values } = buildWhereClause(filter)
+
+    // Build ORDER BY
+    let orderBy = ''
+    const sortKeys = Object.keys(sort)
+    if (sortKeys.length > 0) {
+      const sortParts = sortKeys.map(k => `${quoteId(k)} ${sort[k] === -1 ? 'DESC' : 'ASC'}`)
+      orderBy = `ORDER BY ${sortParts.join(', ')}`
+    }
+
+    const target = qualify(database, table)
+
+    // Count total
+    const [countRows] = await connection.pool.query<any[]>(`SELECT COUNT(*) AS total FROM ${target} ${whereClause}`, values)
+    const totalCount = parseInt(countRows[0]?.total || '0', 10)
+
+    // Fetch rows
+    const [rows] = await connection.pool.query<any[]>(
+      `SELECT * FROM ${target} ${whereClause} ${orderBy} LIMIT ${limit} OFFSET ${skip}`,
+      values
+    )
+
+    return {
+      success: true,
+      documents: rows,
+      totalCount,
+      returnedCount: rows.length,
+    }
+  } catch (error: any) {
+    console.error('MySQL find query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlInsertDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  document: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const keys = Object.keys(document)
+    const values = Object.values(document).map(toParam)
+    const placeholders = keys.map(() => '?')
+
+    const query = `INSERT INTO ${qualify(database, table)} (${keys.map(quoteId).join(', ')}) VALUES (${placeholders.join(', ')})`
+    const [result] = await connection.pool.query<ResultSetHeader>(query, values)
+
+    // MySQL has no RETURNING: re-select the row by its AUTO_INCREMENT column, whatever that is named
+    const insertedId = result.insertId || undefined
+    if (!insertedId) return { success: true, document }
+    const [columns] = await connection.pool.query<any[]>(
+      `SELECT COLUMN_NAME AS name FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ? AND EXTRA LIKE '%auto_increment%'`,
+      [database || null, table]
+    )
+    const autoIncrement = columns[0]?.name
+    if (!autoIncrement) return { success: true, insertedId, document }
+    const [rows] = await connection.pool.query<any[]>(
+      `SELECT * FROM ${qualify(database, table)} WHERE ${quoteId(autoIncrement)} = ? LIMIT 1`,
+      [insertedId]
+    )
+    return { success: true, insertedId, document: rows[0] ?? document }
+  } catch (error: any) {
+    console.error('MySQL insert error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlUpdateDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any,
+  update: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const { whereClause, values: whereValues } = buildWhereClause(filter)
+    const updateKeys = Object.keys(update).filter(k => !(k in filter))
+    if (updateKeys.length === 0) return { success: true, modifiedCount: 0 }
+
+    const setParts = updateKeys.map(k => `${quoteId(k)} = ?`)
+    const updateValues = updateKeys.map(k => toParam(update[k]))
+
+    // LIMIT 1 keeps a single-row edit from touching duplicates in tables without a primary key
+    const query = `UPDATE ${qualify(database, table)} SET ${setParts.join(', ')} ${whereClause} LIMIT 1`
+    const [result] = await connection.pool.query<ResultSetHeader>(query, [...updateValues, ...whereValues])
+
+    return { success: true, modifiedCount: result.affectedRows }
+  } catch (error: any) {
+    console.error('MySQL update error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlDeleteDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const { whereClause, values } = buildWhereClause(filter)
+    const query = `DELETE FROM ${qualify(database, table)} ${whereClause} LIMIT 1`
+    const [result] = await connection.pool.query<ResultSetHeader>(query, values)
+
+    return { success: true, deletedCount: result.affectedRows }
+  } catch (error: any) {
+    console.error('MySQL delete error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlUpdateMany = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any,
+  update: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const { whereClause, values: whereValues } = buildWhereClause(filter)
+    const updateKeys = Object.keys(update).filter(k => !(k in filter))
+    if (updateKeys.length === 0) return { success: true, matchedCount: 0, modifiedCount: 0 }
+
+    const setParts = updateKeys.map(k => `${quoteId(k)} = ?`)
+    const updateValues = updateKeys.map(k => toParam(update[k]))
+
+    const query = `UPDATE ${qualify(database, table)} SET ${setParts.join(', ')} ${whereClause}`
+    const [result] = await connection.pool.query<ResultSetHeader>(query, [...updateValues, ...whereValues])
+
+    return { success: true, matchedCount: result.affectedRows, modifiedCount: result.changedRows }
+  } catch (error: any) {
+    console.error('MySQL update many error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlDeleteMany = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const { whereClause, values } = buildWhereClause(filter)
+    const query = `DELETE FROM ${qualify(database, table)} ${whereClause}`
+    const [result] = await connection.pool.query<ResultSetHeader>(query, values)
+
+    return { success: true, deletedCount: result.affectedRows }
+  } catch (error: any) {
+    console.error('MySQL delete many error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlCountRows = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const { whereClause, values } = buildWhereClause(filter)
+    const query = `SELECT COUNT(*) AS count FROM ${qualify(database, table)} ${whereClause}`
+    const [rows] = await connection.pool.query<any[]>(query, values)
+
+    return { success: true, count: parseInt(rows[0]?.count || '0', 10) }
+  } catch (error: any) {
+    console.error('MySQL count rows error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlGetTableSchema = async (
+  connectionId: string,
+  database: string,
+  table: string
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    // Alias to the lowercase information_schema shape the PostgreSQL driver returns
+    const [rows] = await connection.pool.query<any[]>(
+      `SELECT COLUMN_NAME AS column_name, COLUMN_TYPE AS data_type, IS_NULLABLE AS is_nullable,
+              COLUMN_DEFAULT AS column_default, CHARACTER_MAXIMUM_LENGTH AS character_maximum_length,
+              NUMERIC_PRECISION AS numeric_precision, NUMERIC_SCALE AS numeric_scale,
+              COLUMN_KEY AS column_key, EXTRA AS extra
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+       ORDER BY ORDINAL_POSITION`,
+      [database, table]
+    )
+
+    return { success: true, columns: rows }
+  } catch (error: any) {
+    console.error('MySQL get table schema error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlAggregate = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  query: string
+) => {
+  const result = await mysqlExecuteQuery(connectionId, database, table, query)
+  if (!result.success) return { success: false, error: result.error }
+  return { success: true, documents: result.documents }
+}
+
+/* ── Database Management ──────────────────────────────── */
+
+export const mysqlCreateDatabase = async (connectionId: string, database: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    // Strict validation: only allow alphanumeric and underscore, must start with letter/underscore
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(database)) {
+      throw new Error('Invalid database name. Use only letters, numbers, and underscores. Must start with a letter or underscore.')
+    }
+    if (database.length > 64) {
+      throw new Error('Database name too long. Maximum 64 characters.')
+    }
+    await connection.pool.query(`CREATE DATABASE ${quoteId(database)}`)
+    return { success: true }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlDropDatabase = async (connectionId: string, database: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(database)) {
+      throw new Error('Invalid database name.')
+    }
+    await connection.pool.query(`DROP DATABASE ${quoteId(database)}`)
+    return { success: true }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlCreateTable = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  columns: Array<{ name: string; type: string; nullable?: boolean; defaultValue?: string; primaryKey?: boolean }>
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const colDefs = columns.map(col => {
+      let def = `${quoteId(col.name)} ${col.type}`
+      if (col.nullable === false) def += ' NOT NULL'
+      if (col.defaultValue) def += ` DEFAULT ${col.defaultValue}`
+      if (col.primaryKey) def += ' PRIMARY KEY'
+      return def
+    })
+
+    const query = `CREATE TABLE ${qualify(database, table)} (${colDefs.join(', ')})`
+    await connection.pool.query(query)
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL create table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlDropTable = async (connectionId: string, database: string, table: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    await connection.pool.query(`DROP TABLE IF EXISTS ${qualify(database, table)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL drop table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlRenameTable = async (connectionId: string, database: string, oldName: string, newName: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    await connection.pool.query(`RENAME TABLE ${qualify(database, oldName)} TO ${qualify(database, newName)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL rename table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Index Management ─────────────────────────────────── */
+
+export const mysqlListIndexes = async (connectionId: string, database: string, table: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const [rows] = await connection.pool.query<any[]>(`SHOW INDEX FROM ${qualify(database, table)}`)
+
+    // SHOW INDEX returns one row per indexed column — fold them into one entry per index
+    const byName = new Map<string, { name: string; unique: boolean; type: string; columns: string[] }>()
+    for (const row of rows) {
+      const entry = byName.get(row.Key_name) || { name: row.Key_name, unique: Number(row.Non_unique) === 0, type: row.Index_type, columns: [] }
+      entry.columns[Number(row.Seq_in_index) - 1] = row.Column_name ?? row.Expression
+      byName.set(row.Key_name, entry)
+    }
+
+    const indexes = Array.from(byName.values()).map(ix => ({
+      name: ix.name,
+      unique: ix.unique,
+      definition: `${ix.unique ? 'UNIQUE ' : ''}INDEX ${quoteId(ix.name)} USING ${ix.type} (${ix.columns.map(quoteId).join(', ')})`,
+    }))
+    return { success: true, indexes }
+  } catch (error: any) {
+    console.error('MySQL list indexes error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlCreateIndex = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  indexName: string,
+  columns: string[],
+  options?: { unique?: boolean; method?: string }
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const unique = options?.unique ? 'UNIQUE ' : ''
+    const method = options?.method ? ` USING ${options.method.toUpperCase() === 'HASH' ? 'HASH' : 'BTREE'}` : ''
+    const cols = columns.map(quoteId).join(', ')
+
+    const query = `CREATE ${unique}INDEX ${quoteId(indexName)} ON ${qualify(database, table)} (${cols})${method}`
+    await connection.pool.query(query)
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL create index error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlDropIndex = async (connectionId: string, database: string, table: string, indexName: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    // Index names are only unique per table in MySQL, so the table is required
+    await connection.pool.query(`DROP INDEX ${quoteId(indexName)} ON ${qualify(database, table)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('MySQL drop index error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Explain & Server Stats ───────────────────────────── */
+
+export const mysqlExplainQuery = async (
+  connectionId: string,
+  database: string,
+  _table: string,
+  query: string
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const conn = await connection.pool.getConnection()
+    try {
+      if (database) await conn.query(`USE ${quoteId(database)}`)
+      const [rows] = await conn.query<any[]>(`EXPLAIN FORMAT=JSON ${query}`)
+      const raw = rows[0]?.EXPLAIN
+      return { success: true, explain: typeof raw === 'string' ? JSON.parse(raw) : raw ?? rows }
+    } finally {
+      conn.release()
+    }
+  } catch (error: any) {
+    console.error('MySQL explain query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const mysqlGetServerStats = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const [versionRows] = await connection.pool.query<any[]>('SELECT VERSION() AS version')
+    const [statusRows] = await connection.pool.query<any[]>('SHOW GLOBAL STATUS')
+    const [varRows] = await connection.pool.query<any[]>(
+      "SHOW GLOBAL VARIABLES WHERE Variable_name IN ('max_connections', 'innodb_buffer_pool_size')"
+    )
+    const [sizeRows] = await connection.pool.query<any[]>(
+      'SELECT COALESCE(SUM(DATA_LENGTH + INDEX_LENGTH), 0) AS size FROM information_schema.TABLES'
+    )
+
+    const status: Record<string, string> = {}
+    statusRows.forEach((r: any) => { status[r.Variable_name] = r.Value })
+    const variables: Record<string, string> = {}
+    varRows.forEach((r: any) => { variables[r.Variable_name] = r.Value })
+    const num = (v: string | undefined) => parseInt(v || '0', 10)
+
+    return {
+      success: true,
+      stats: {
+        version: versionRows[0]?.version,
+        uptime: num(status.Uptime),
+        database_size: num(sizeRows[0]?.size),
+        connections: {
+          current: num(status.Threads_connected),
+          running: num(status.Threads_running),
+          max: num(variables.max_connections),
+          total: num(status.Connections),
+          aborted: num(status.Aborted_connects),
+        },
+        queries: num(status.Questions),
+        slow_queries: num(status.Slow_queries),
+        commands: {
+          select: num(status.Com_select),
+          insert: num(status.Com_insert),
+          update: num(status.Com_update),
+          delete: num(status.Com_delete),
+        },
+        network: { bytesReceived: num(status.Bytes_received), bytesSent: num(status.Bytes_sent) },
+        innodb: {
+          bufferPoolSize: num(variables.innodb_buffer_pool_size),
+          readRequests: num(status.Innodb_buffer_pool_read_requests),
+          diskReads: num(status.Innodb_buffer_pool_reads),
+          rowLockWaits: num(status.Innodb_row_lock_waits),
+        },
+      },
+    }
+  } catch (error: any) {
+    console.error('MySQL server stats error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Helper: build WHERE clause from filter object ──────────── */
+
+function buildWhereClause(filter: any): { whereClause: string; values: any[] } {
+  const keys = Object.keys(filter || {})
+  if (keys.length === 0) return { whereClause: '', values: [] }
+
+  const conditions: string[] = []
+  const values: any[] = []
+
+  keys.forEach((key) => {
+    if (filter[key] === null) {
+      conditions.push(`${quoteId(key)} IS NULL`)
+    } else {
+      conditions.push(`${quoteId(key)} = ?`)
+      values.push(toParam(filter[key]))
+    }
+  })
+
+  return { whereClause: `WHERE ${conditions.join(' AND ')}`, values }
+}
+
+/** Disconnect all MySQL connections (used on app quit) */
+export const disconnectAll = async () => {
+  const tasks = Array.from(connections.keys()).map((id) => disconnectFromMySQL(id).catch(() => {}))
+  await Promise.allSettled(tasks)
+}
@@ -1,11 +1,104 @@
-import { Pool } from 'pg'
+import { randomUUID } from 'crypto'
+import { Pool, type PoolClient, type QueryConfig, type QueryResult } from 'pg'
+import { qualify, quoteId, splitTable } from '../src/utils/pgIdentifiers'
 
 interface PostgreSQLConnectionInfo {
-  pool: Pool
-  database?: string
+  connectionString: string
+  /** Database named in the connection string — server-wide queries run here */
+  database: string
+  /** A PostgreSQL session is bound to one database, so each one gets its own pool */
+  pools: Map<string, Pool>
+}
+
+interface PgCursorInfo {
+  connectionId: string
+  database: string
+  /** Dedicated client — a cursor lives inside one session's transaction */
+  client: PoolClient
+  /** Backend pid, the target for pg_cancel_backend */
+  pid: number
+  /** Name of the DECLAREd cursor; null for statements that cannot be declared (DML, DDL, multi-statement) */
+  portal: string | null
+  query: string
+  /** Result of a non-cursor statement, handed out in batches */
+  buffered?: any[]
+  fields?: { name: string; dataTypeID: number }[]
+  busy: boolean
+  /** Set when the cursor borrows a Query Editor session's client instead of checking one out */
+  sessionId?: string
+  /** The cursor's BEGIN opened the transaction, so closing the cursor ends it */
+  ownsTransaction?: boolean
+  /** Closed while a fetch was in flight — that fetch hands back the client once it settles */
+  closed?: boolean
+}
+
+interface PgSessionInfo {
+  connectionId: string
+  database: string
+  client: PoolClient
+  pid: number
+  /** Status byte of the last ReadyForQuery: I (idle), T (in a transaction) or E (in a failed transaction) */
+  txStatus: string
 }
 
 const connections = new Map<string, PostgreSQLConnectionInfo>()
+const cursors = new Map<string, PgCursorInfo>()
+const sessions = new Map<string, PgSessionInfo>()
+
+const DEFAULT_BATCH_SIZE = 200
+const CURSOR_STATEMENT = /^\s*(select|with|values|table|\()/i
+
+const SYSTEM_SCHEMA_FILTER = `nspname NOT IN ('pg_catalog', 'information_schema') AND nspname NOT LIKE 'pg\\_toast%' AND nspname NOT LIKE 'pg\\_temp\\_%'`
+
+/** Sidebar / Data Viewer name for a relation: public stays bare, other schemas are prefixed */
+const displayName = (schema: string, name: string) => schema === 'public' ? name : `${schema}.${name}`
+
+const createPool = (connectionString: string) => new Pool({
+  connectionString,
+  connectionTimeoutMillis: 5000,
+  idleTimeoutMillis: 30000,
+  max: 10,
+})
+
+/** Point a postgresql:// URL at another database on the same server */
+const withDatabase = (connectionString: string, database: string) => {
+  try {
+    const url = new URL(connectionString)
+    url.pathname = `/${encodeURIComponent(database)}`
+    return url.toString()
+  } catch {
+    throw new Error(`Cannot switch database for this connection string — reconnect with a postgresql:// URL`)
+  }
+}
+
+const getConnection = (connectionId: string) => {
+  const connection = connections.get(connectionId)
+  if (!connection) throw new Error('Not connected')
+  return connection
+}
+
+/** Get (or lazily create) the pool for a database on this connection */
+const getPool = (connection: PostgreSQLConnectionInfo, database?: string): Pool => {
+  const dbName = database || connection.database
+  let pool = connection.pools.get(dbName)
+  if (!pool) {
+    pool = createPool(dbName === connection.database ? connection.connectionString : withDatabase(connection.connectionString, dbName))
+    // An idle client erroring (e.g. the database was dropped) must not crash the main process
+    pool.on('error', (err) => console.error(`PostgreSQL pool error (${dbName}):`, err.message))
+    connection.pools.set(dbName, pool)
+  }
+  return pool
+}
+
+/** Close one database's pool, or all of them */
+const closePools = async (connection: PostgreSQLConnectionInfo, database?: string) => {
+  const names = database ? [database] : Array.from(connection.pools.keys())
+  await Promise.allSettled(names.map(async (name) => {
+    const pool = connection.pools.get(name)
+    connection.pools.delete(name)
+    if (pool) await pool.end()
+  }))
+}
 
 export const connectToPostgreSQL = async (connectionId: string, connectionString: string) => {
   try {
@@ -14,23 +107,23 @@ export const connectToPostgreSQL = async (connectionId: string, connectionString
       await disconnectFromPostgreSQL(connectionId)
     }
 
-    const pool = new Pool({
-      connectionString,
-      connectionTimeoutMillis: 5000,
-      idleTimeoutMillis: 30000,
-      max: 10,
-    })
-
-    // Test connection
-    const client = await pool.connect()
-    await client.query('SELECT NOW()')
-    client.release()
-
     // Extract database name from connection string
     const dbMatch = connectionString.match(/\/([^/?]+)(?:\?|$)/)
-    const database = dbMatch ? dbMatch[1] : 'postgres'
+    const database = dbMatch ? decodeURIComponent(dbMatch[1]) : 'postgres'
 
-    connections.set(connectionId, { pool, database })
+    const connection: PostgreSQLConnectionInfo = { connectionString, database, pools: new Map() }
+
+    // Test connection
+    try {
+      const client = await getPool(connection).connect()
+      await client.query('SELECT NOW()')
+      client.release()
+    } catch (error) {
+      await closePools(connection)
+      throw error
+    }
+
+    connections.set(connectionId, connection)
 
     return { success: true, connectionId }
   } catch (error: any) {
@@ -43,9 +136,19 @@ export const disconnectFromPostgreSQL = async (connectionId: string) => {
   try {
     const connection = connections.get(connectionId)
     if (connection) {
-      await connection.pool.end()
       connections.delete(connectionId)
-
+      // pool.end() waits for checked-out clients, so drop open cursors and sessions first
+      for (const [cursorId, info] of cursors) {
+        if (info.connectionId !== connectionId) continue
+        cursors.delete(cursorId)
+        if (!info.sessionId) info.client.release(true)
+      }
+      for (const [sessionId, session] of sessions) {
+        if (session.connectionId !== connectionId) continue
+        sessions.delete(sessionId)
+        session.client.release(true)
+      }
+      await closePools(connection)
     }
     return { success: true }
   } catch (error: any) {
@@ -58,7 +161,7 @@ export const pingPostgreSQL = async (connectionId: string) => {
   try {
     const connection = connections.get(connectionId)
     if (!connection) return { success: false, error: 'Not connected' }
-    const client = await connection.pool.connect()
+    const client = await getPool(connection).connect()
     await client.query('SELECT 1')
     client.release()
     return { success: true }
@@ -69,10 +172,10 @@ export const pingPostgreSQL = async (connectionId: string) => {
 
 export const pgListDatabases = async (connectionId: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
-    const result = await connection.pool.query(
+    const result = await pool.query(
       "SELECT datname as name FROM pg_database WHERE datistemplate = false ORDER BY datname"
     )
     return { success: true, databases: result.rows }
@@ -82,36 +185,89 @@ export const pgListDatabases = async (connectionId: string) => {
   }
 }
 
-export const pgListTables = async (connectionId: string, _database: string) => {
+export const pgListSchemas = async (connectionId: string, database: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
+
+    const result = await pool.query(
+      `SELECT nspname AS name, pg_get_userbyid(nspowner) AS owner
+       FROM pg_namespace
+       WHERE ${SYSTEM_SCHEMA_FILTER}
+       ORDER BY nspname <> 'public', nspname`
+    )
+    return { success: true, schemas: result.rows }
+  } catch (error: any) {
+    console.error('PG list schemas error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Tables, views, materialized views and foreign tables across all user schemas */
+export const pgListTables = async (connectionId: string, database: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(
-      `SELECT table_name as name, table_type as type
-       FROM information_schema.tables
-       WHERE table_schema = 'public'
-       ORDER BY table_name`
+    // Partitions are reached through their parent table, so they are left out
+    const result = await pool.query(
+      `SELECT n.nspname AS schema, c.relname AS table_name,
+              CASE c.relkind WHEN 'v' THEN 'VIEW' WHEN 'm' THEN 'MATERIALIZED VIEW' WHEN 'f' THEN 'FOREIGN TABLE' ELSE 'BASE TABLE' END AS type
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f') AND NOT c.relispartition AND ${SYSTEM_SCHEMA_FILTER}
+       ORDER BY n.nspname <> 'public', n.nspname, c.relname`
     )
-    return { success: true, collections: result.rows }
+    const collections = result.rows.map((r: any) => ({
+      name: displayName(r.schema, r.table_name),
+      schema: r.schema,
+      type: r.type,
+    }))
+    return { success: true, collections }
   } catch (error: any) {
     console.error('PG list tables error:', error.message)
     return { success: false, error: error.message }
   }
 }
 
+/** Functions and procedures in a schema, excluding those installed by extensions */
+export const pgListFunctions = async (connectionId: string, database: string, schema: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
+
+    const result = await pool.query(
+      `SELECT p.proname AS name, pg_get_function_identity_arguments(p.oid) AS arguments,
+              pg_get_function_result(p.oid) AS result_type,
+              CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+              l.lanname AS language
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       JOIN pg_language l ON l.oid = p.prolang
+       WHERE n.nspname = $1
+         AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+       ORDER BY p.proname, arguments`,
+      [schema]
+    )
+    return { success: true, functions: result.rows }
+  } catch (error: any) {
+    console.error('PG list functions error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
 export const pgExecuteQuery = async (
   connectionId: string,
-  _database: string,
+  database: string,
   _table: string,
   query: string,
   options: any = {}
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(query)
+    const result = await pool.query(query)
 
     return {
       success: true,
@@ -126,18 +282,322 @@ export const pgExecuteQuery = async (
   }
 }
 
+/** Statements that leave session state (an open transaction) behind */
+const TRANSACTION_STATEMENT = /^\s*(begin|start\s+transaction|savepoint|prepare\s+transaction)\b/i
+
+/** Run statements one after another on one client, stopping at the first failure */
+const runStatements = async (client: PoolClient, statements: string[]) => {
+  const results = []
+  for (const statement of statements) {
+    const startTime = Date.now()
+    try {
+      const result = await client.query(statement)
+      results.push({
+        success: true,
+        documents: result.rows || [],
+        rowCount: result.rowCount ?? result.rows?.length ?? 0,
+        command: result.command,
+        fields: mapFields(result.fields),
+        executionTime: Date.now() - startTime,
+      })
+    } catch (error: any) {
+      results.push({
+        success: false,
+        documents: [],
+        error: error.message,
+        executionTime: Date.now() - startTime,
+      })
+      break
+    }
+  }
+  return results
+}
+
+/**
+ * Run a script's statements one after another on a single session, so SET, temp tables and transactions
+ * carry over between them. Stops at the first failing statement.
+ */
+export const pgExecuteScript = async (connectionId: string, database: string, statements: string[]) => {
+  let client: PoolClient | null = null
+  let failed = false
+  try {
+    const connection = getConnection(connectionId)
+    client = await getPool(connection, database).connect()
+
+    const results = await runStatements(client, statements)
+    failed = results.some(r => !r.success)
+
+    return { success: true, results }
+  } catch (error: any) {
+    console.error('PG execute script error:', error.message)
+    return { success: false, error: error.message }
+  } finally {
+    // Don't hand an aborted or still-open transaction back to the pool
+    client?.release(failed || statements.some(s => TRANSACTION_STATEMENT.test(s)))
+  }
+}
+
+/* ── Sessions ─────────────────────────────────────────── */
+
+const TRANSACTION_STATES: Record<string, 'idle' | 'open' | 'failed'> = { I: 'idle', T: 'open', E: 'failed' }
+
+const transactionState = (session: PgSessionInfo) => TRANSACTION_STATES[session.txStatus] ?? 'idle'
+
+const getSession = (sessionId: string) => {
+  const session = sessions.get(sessionId)
+  if (!session) throw new Error('Session not found or already closed')
+  return session
+}
+
+/** Pin a client to a Query Editor tab so BEGIN, the statements after it and COMMIT share one backend */
+export const pgOpenSession = async (connectionId: string, database: string) => {
+  let client: PoolClient | null = null
+  try {
+    const connection = getConnection(connectionId)
+    client = await getPool(connection, database).connect()
+    const { rows } = await client.query('SELECT pg_backend_pid() AS pid')
+
+    const sessionId = randomUUID()
+    const session: PgSessionInfo = { connectionId, database, client, pid: rows[0].pid, txStatus: 'I' }
+    // Every round-trip ends with ReadyForQuery, which carries the backend's transaction status
+    client.connection.on('readyForQuery', (msg: { status: string }) => { session.txStatus = msg.status })
+    // A dropped connection takes the session, and any open transaction, with it
+    client.on('error', () => { sessions.delete(sessionId) })
+    sessions.set(sessionId, session)
+    return { success: true, sessionId }
+  } catch (error: any) {
+    client?.release(true)
+    console.error('PG open session error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Run statements on a session; with auto-commit off the first one opens a transaction that stays open */
+export const pgSessionExecute = async (sessionId: string, statements: string[], autoCommit: boolean) => {
+  try {
+    const session = getSession(sessionId)
+    if (!autoCommit && session.txStatus === 'I') await session.client.query('BEGIN')
+    const results = await runStatements(session.client, statements)
+    return { success: true, results, transaction: transactionState(session) }
+  } catch (error: any) {
+    console.error('PG session execute error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** COMMIT or ROLLBACK the session's transaction. COMMIT of a failed transaction reports ROLLBACK as its command */
+export const pgEndTransaction = async (sessionId: string, commit: boolean) => {
+  try {
+    const session = getSession(sessionId)
+    const result = await session.client.query(commit ? 'COMMIT' : 'ROLLBACK')
+    return { success: true, command: result.command, transaction: transactionState(session) }
+  } catch (error: any) {
+    console.error('PG end transaction error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const pgSessionStatus = async (sessionId: string) => {
+  try {
+    return { success: true, transaction: transactionState(getSession(sessionId)) }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
+/** Drop a session; destroying the connection rolls back whatever it still had open */
+export const pgCloseSession = async (sessionId: string) => {
+  const session = sessions.get(sessionId)
+  if (!session) return { success: true }
+  sessions.delete(sessionId)
+  for (const [cursorId, info] of cursors) {
+    if (info.sessionId === sessionId) cursors.delete(cursorId)
+  }
+  session.client.release(true)
+  return { success: true }
+}
+
+/* ── Streaming Cursors ────────────────────────────────── */
+
+const mapFields = (fields?: QueryResult['fields']) => fields?.map(f => ({ name: f.name, dataTypeID: f.dataTypeID }))
+
+/** Hand a cursor's client back to the pool; a failed or cancelled session is discarded instead */
+const releaseCursor = async (info: PgCursorInfo, discard: boolean) => {
+  if (info.sessionId) {
+    // The session outlives the cursor — only undo what the cursor itself opened
+    try {
+      if (discard) {
+        if (info.ownsTransaction) await info.client.query('ROLLBACK')
+      } else {
+        if (info.portal) await info.client.query(`CLOSE ${info.portal}`)
+        if (info.ownsTransaction) await info.client.query('COMMIT')
+      }
+    } catch { /* the session reports its own transaction state */ }
+    return
+  }
+  if (discard) {
+    info.client.release(true)
+    return
+  }
+  try {
+    if (info.portal) await info.client.query(`CLOSE ${info.portal}; COMMIT`)
+    info.client.release()
+  } catch {
+    info.client.release(true)
+  }
+}
+
+/** Open a cursor on a fresh pooled client, or on a Query Editor session when one is given */
+export const pgOpenCursor = async (
+  connectionId: string,
+  database: string,
+  query: string,
+  session?: { sessionId: string; autoCommit: boolean }
+) => {
+  let client: PoolClient | null = null
+  const pinned = session ? sessions.get(session.sessionId) : undefined
+  try {
+    if (session && !pinned) throw new Error('Session not found or already closed')
+    let pid: number
+    if (pinned) {
+      client = pinned.client
+      pid = pinned.pid
+      if (!session!.autoCommit && pinned.txStatus === 'I') await client.query('BEGIN')
+    } else {
+      const connection = getConnection(connectionId)
+      client = await getPool(connection, database).connect()
+      const { rows } = await client.query('SELECT pg_backend_pid() AS pid')
+      pid = rows[0].pid
+    }
+
+    const cursorId = randomUUID()
+    const statement = query.trim().replace(/;\s*$/, '')
+    let portal: string | null = null
+    // Inside the user's own transaction a savepoint keeps a rejected DECLARE from aborting it
+    const ownsTransaction = !pinned || pinned.txStatus === 'I'
+    if (CURSOR_STATEMENT.test(statement)) {
+      const name = `zentab_${cursorId.replace(/-/g, '')}`
+      try {
+        await client.query(ownsTransaction ? 'BEGIN' : 'SAVEPOINT zentab_cursor')
+        // Extended protocol rejects multiple statements, so "SELECT 1; DELETE ..." never runs inside the cursor
+        await client.query({ text: `DECLARE ${name} NO SCROLL CURSOR FOR ${statement}`, queryMode: 'extended' } as QueryConfig)
+        if (!ownsTransaction) await client.query('RELEASE SAVEPOINT zentab_cursor')
+        portal = name
+      } catch {
+        // e.g. data-modifying CTEs cannot be declared — run the statement as-is on first fetch
+        await client.query(ownsTransaction ? 'ROLLBACK' : 'ROLLBACK TO SAVEPOINT zentab_cursor; RELEASE SAVEPOINT zentab_cursor')
+      }
+    }
+
+    cursors.set(cursorId, {
+      connectionId, database, client, pid, portal, query, busy: false,
+      sessionId: session?.sessionId, ownsTransaction: !!portal && ownsTransaction,
+    })
+    return { success: true, cursorId }
+  } catch (error: any) {
+    if (!pinned) client?.release(true)
+    console.error('PG open cursor error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const pgFetchNext = async (cursorId: string, batchSize: number = DEFAULT_BATCH_SIZE) => {
+  const info = cursors.get(cursorId)
+  try {
+    if (!info) throw new Error('Cursor not found or already closed')
+    // One statement at a time per session — a second FETCH would queue behind the first and read out of order
+    if (info.busy) return { success: false, error: 'A fetch is already running on this cursor' }
+
+    info.busy = true
+    let documents: any[]
+    let done: boolean
+    if (info.portal) {
+      const result = await info.client.query(`FETCH FORWARD ${batchSize} FROM ${info.portal}`)
+      info.fields ??= mapFields(result.fields)
+      documents = result.rows
+      done = documents.length < batchSize
+    } else {
+      let buffered = info.buffered
+      if (!buffered) {
+        const result: QueryResult | QueryResult[] = await info.client.query(info.query)
+        const last = Array.isArray(result) ? result[result.length - 1] : result
+        const rows: any[] = last?.rows || []
+        buffered = info.buffered = rows
+        info.fields = mapFields(last?.fields)
+      }
+      documents = buffered.splice(0, batchSize)
+      done = buffered.length === 0
+    }
+    info.busy = false
+
+    if (info.closed) {
+      await releaseCursor(info, true)
+      return { success: false, error: 'Cursor closed' }
+    }
+    if (done) {
+      cursors.delete(cursorId)
+      await releaseCursor(info, false)
+    }
+    return { success: true, documents, done, fields: info.fields }
+  } catch (error: any) {
+    if (info && (cursors.delete(cursorId) || info.closed)) await releaseCursor(info, true)
+    console.error('PG fetch next error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Cancel whatever the cursor's backend is running, from another pooled connection */
+const cancelBackend = async (info: PgCursorInfo) => {
+  const connection = getConnection(info.connectionId)
+  const result = await getPool(connection, info.database).query('SELECT pg_cancel_backend($1) AS cancelled', [info.pid])
+  return result.rows[0]?.cancelled === true
+}
 
+/**
+ * Close a cursor. Mid-fetch the statement is cancelled and the fetch discards the client when it settles —
+ * releasing it from here would hand a connection that is still running a query back to the pool.
+ */
+export const pgCloseCursor = async (cursorId: string) => {
+  const info = cursors.get(cursorId)
+  if (!info) return { success: true }
+  cursors.delete(cursorId)
+  if (!info.busy) {
+    await releaseCursor(info, false)
+    return { success: true }
+  }
+  info.closed = true
+  try {
+    await cancelBackend(info)
+  } catch (error: any) {
+    console.error('PG close cursor error:', error.message)
+  }
+  return { success: true }
+}
+
+/** Cancel the statement a cursor is running; an in-flight fetch then fails and discards the session */
+export const pgCancelCursor = async (cursorId: string) => {
+  try {
+    const info = cursors.get(cursorId)
+    if (!info) return { success: true }
+    if (!info.busy) return await pgCloseCursor(cursorId)
+
+    return { success: true, cancelled: await cancelBackend(info) }
+  } catch (error: any) {
+    console.error('PG cancel cursor error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
 
 export const pgFindQuery = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any = {},
   options: any = {}
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const limit = options.limit || 100
     const skip = options.skip || 0
@@ -150,18 +610,18 @@ export const pgFindQuery = async (
     let orderBy = ''
     const sortKeys = Object.keys(sort)
     if (sortKeys.length > 0) {
-      const sortParts = sortKeys.map(k => `"${k}" ${sort[k] === -1 ? 'DESC' : 'ASC'}`)
+      const sortParts = sortKeys.map(k => `${quoteId(k)} ${sort[k] === -1 ? 'DESC' : 'ASC'}`)
       orderBy = `ORDER BY ${sortParts.join(', ')}`
     }
 
     // Count total
-    const countQuery = `SELECT COUNT(*) as total FROM "${table}" ${whereClause}`
-    const countResult = await connection.pool.query(countQuery, values)
+    const countQuery = `SELECT COUNT(*) as total FROM ${qualify(table)} ${whereClause}`
+    const countResult = await pool.query(countQuery, values)
     const totalCount = parseInt(countResult.rows[0]?.total || '0')
 
     // Fetch rows
-    const dataQuery = `SELECT * FROM "${table}" ${whereClause} ${orderBy} LIMIT ${limit} OFFSET ${skip}`
-    const result = await connection.pool.query(dataQuery, values)
+    const dataQuery = `SELECT * FROM ${qualify(table)} ${whereClause} ${orderBy} LIMIT ${limit} OFFSET ${skip}`
+    const result = await pool.query(dataQuery, values)
 
     return {
       success: true,
@@ -177,20 +637,20 @@ export const pgFindQuery = async (
 
 export const pgInsertDocument = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   document: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const keys = Object.keys(document)
     const values = Object.values(document)
     const placeholders = keys.map((_, i) => `$${i + 1}`)
 
-    const query = `INSERT INTO "${table}" (${keys.map(k => `"${k}"`).join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`
-    const result = await connection.pool.query(query, values)
+    const query = `INSERT INTO ${qualify(table)} (${keys.map(quoteId).join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`
+    const result = await pool.query(query, values)
 
     return { success: true, insertedId: result.rows[0]?.id, document: result.rows[0] }
   } catch (error: any) {
@@ -201,24 +661,24 @@ export const pgInsertDocument = async (
 
 export const pgUpdateDocument = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any,
   update: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const { whereClause, values: whereValues } = buildWhereClause(filter)
     const updateKeys = Object.keys(update).filter(k => !(k in filter))
     const updateValues = updateKeys.map(k => update[k])
-    const setParts = updateKeys.map((k, i) => `"${k}" = $${whereValues.length + i + 1}`)
+    const setParts = updateKeys.map((k, i) => `${quoteId(k)} = $${whereValues.length + i + 1}`)
 
     if (setParts.length === 0) return { success: true, modifiedCount: 0 }
 
-    const query = `UPDATE "${table}" SET ${setParts.join(', ')} ${whereClause}`
-    const result = await connection.pool.query(query, [...whereValues, ...updateValues])
+    const query = `UPDATE ${qualify(table)} SET ${setParts.join(', ')} ${whereClause}`
+    const result = await pool.query(query, [...whereValues, ...updateValues])
 
     return { success: true, modifiedCount: result.rowCount }
   } catch (error: any) {
@@ -229,17 +689,17 @@ export const pgUpdateDocument = async (
 
 export const pgDeleteDocument = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const { whereClause, values } = buildWhereClause(filter)
-    const query = `DELETE FROM "${table}" ${whereClause}`
-    const result = await connection.pool.query(query, values)
+    const query = `DELETE FROM ${qualify(table)} ${whereClause}`
+    const result = await pool.query(query, values)
 
     return { success: true, deletedCount: result.rowCount }
   } catch (error: any) {
@@ -250,24 +710,24 @@ export const pgDeleteDocument = async (
 
 export const pgUpdateMany = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any,
   update: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const { whereClause, values: whereValues } = buildWhereClause(filter)
     const updateKeys = Object.keys(update).filter(k => !(k in filter))
     const updateValues = updateKeys.map(k => update[k])
-    const setParts = updateKeys.map((k, i) => `"${k}" = $${whereValues.length + i + 1}`)
+    const setParts = updateKeys.map((k, i) => `${quoteId(k)} = $${whereValues.length + i + 1}`)
 
     if (setParts.length === 0) return { success: true, matchedCount: 0, modifiedCount: 0 }
 
-    const query = `UPDATE "${table}" SET ${setParts.join(', ')} ${whereClause}`
-    const result = await connection.pool.query(query, [...whereValues, ...updateValues])
+    const query = `UPDATE ${qualify(table)} SET ${setParts.join(', ')} ${whereClause}`
+    const result = await pool.query(query, [...whereValues, ...updateValues])
 
     return { success: true, matchedCount: result.rowCount, modifiedCount: result.rowCount }
   } catch (error: any) {
@@ -278,17 +738,17 @@ export const pgUpdateMany = async (
 
 export const pgDeleteMany = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const { whereClause, values } = buildWhereClause(filter)
-    const query = `DELETE FROM "${table}" ${whereClause}`
-    const result = await connection.pool.query(query, values)
+    const query = `DELETE FROM ${qualify(table)} ${whereClause}`
+    const result = await pool.query(query, values)
 
     return { success: true, deletedCount: result.rowCount }
   } catch (error: any) {
@@ -297,19 +757,53 @@ export const pgDeleteMany = async (
   }
 }
 
+/**
+ * Apply the Data Viewer's staged changes in one transaction. A statement that touches no rows — the row was
+ * changed or removed since it was loaded — rolls the whole batch back like any other failure.
+ */
+export const pgApplyChanges = async (
+  connectionId: string,
+  database: string,
+  statements: { text: string; values: unknown[] }[]
+) => {
+  let client: PoolClient | null = null
+  let index = 0
+  try {
+    const connection = getConnection(connectionId)
+    client = await getPool(connection, database).connect()
+
+    await client.query('BEGIN')
+    let affected = 0
+    for (; index < statements.length; index++) {
+      const result = await client.query(statements[index].text, statements[index].values)
+      if (!result.rowCount) throw new Error('No rows matched — the row was changed or deleted since it was loaded')
+      affected += result.rowCount
+    }
+    await client.query('COMMIT')
+
+    return { success: true, affected }
+  } catch (error: any) {
+    await client?.query('ROLLBACK').catch(() => {})
+    console.error('PG apply changes error:', error.message)
+    return { success: false, error: error.message, failedIndex: index }
+  } finally {
+    client?.release()
+  }
+}
+
 export const pgCountRows = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   filter: any
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const { whereClause, values } = buildWhereClause(filter)
-    const query = `SELECT COUNT(*) as count FROM "${table}" ${whereClause}`
-    const result = await connection.pool.query(query, values)
+    const query = `SELECT COUNT(*) as count FROM ${qualify(table)} ${whereClause}`
+    const result = await pool.query(query, values)
 
     return { success: true, count: parseInt(result.rows[0]?.count || '0', 10) }
   } catch (error: any) {
@@ -320,20 +814,21 @@ export const pgCountRows = async (
 
 export const pgGetTableSchema = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(
+    const { schema, name } = splitTable(table)
+    const result = await pool.query(
       `SELECT column_name, data_type, is_nullable, column_default, character_maximum_length,
               numeric_precision, numeric_scale
        FROM information_schema.columns
-       WHERE table_schema = 'public' AND table_name = $1
+       WHERE table_schema = $1 AND table_name = $2
        ORDER BY ordinal_position`,
-      [table]
+      [schema, name]
     )
 
     return { success: true, columns: result.rows }
@@ -345,15 +840,15 @@ export const pgGetTableSchema = async (
 
 export const pgAggregate = async (
   connectionId: string,
-  _database: string,
+  database: string,
   _table: string,
   query: string
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(query)
+    const result = await pool.query(query)
     return { success: true, documents: result.rows }
   } catch (error: any) {
     console.error('PG aggregate error:', error.message)
@@ -365,8 +860,8 @@ export const pgAggregate = async (
 
 export const pgCreateDatabase = async (connectionId: string, database: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
     // Strict validation: only allow alphanumeric and underscore, must start with letter/underscore
     if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(database)) {
@@ -377,7 +872,7 @@ export const pgCreateDatabase = async (connectionId: string, database: string) =
     }
     // Use double-quote escaping for PostgreSQL identifiers (escape any embedded double quotes)
     const safeName = database.replace(/"/g, '""')
-    await connection.pool.query(`CREATE DATABASE "${safeName}"`)
+    await pool.query(`CREATE DATABASE "${safeName}"`)
     return { success: true }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -386,19 +881,23 @@ export const pgCreateDatabase = async (connectionId: string, database: string) =
 
 export const pgDropDatabase = async (connectionId: string, database: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
     if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(database)) {
       throw new Error('Invalid database name.')
     }
+    if (database === connection.database) {
+      throw new Error('Cannot drop the database this connection was opened on.')
+    }
     const safeName = database.replace(/"/g, '""')
+    await closePools(connection, database)
     // Terminate existing connections to the database first
-    await connection.pool.query(
+    await pool.query(
       `SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE datname = $1 AND pid <> pg_backend_pid()`,
       [database]
     )
-    await connection.pool.query(`DROP DATABASE "${safeName}"`)
+    await pool.query(`DROP DATABASE "${safeName}"`)
     return { success: true }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -407,24 +906,24 @@ export const pgDropDatabase = async (connectionId: string, database: string) =>
 
 export const pgCreateTable = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   columns: Array<{ name: string; type: string; nullable?: boolean; defaultValue?: string; primaryKey?: boolean }>
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const colDefs = columns.map(col => {
-      let def = `"${col.name}" ${col.type}`
+      let def = `${quoteId(col.name)} ${col.type}`
       if (col.primaryKey) def += ' PRIMARY KEY'
       if (col.nullable === false) def += ' NOT NULL'
       if (col.defaultValue) def += ` DEFAULT ${col.defaultValue}`
       return def
     })
 
-    const query = `CREATE TABLE "${table}" (${colDefs.join(', ')})`
-    await connection.pool.query(query)
+    const query = `CREATE TABLE ${qualify(table)} (${colDefs.join(', ')})`
+    await pool.query(query)
     return { success: true }
   } catch (error: any) {
     console.error('PG create table error:', error.message)
@@ -432,12 +931,12 @@ export const pgCreateTable = async (
   }
 }
 
-export const pgDropTable = async (connectionId: string, _database: string, table: string) => {
+export const pgDropTable = async (connectionId: string, database: string, table: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    await connection.pool.query(`DROP TABLE IF EXISTS "${table}" CASCADE`)
+    await pool.query(`DROP TABLE IF EXISTS ${qualify(table)} CASCADE`)
     return { success: true }
   } catch (error: any) {
     console.error('PG drop table error:', error.message)
@@ -445,12 +944,13 @@ export const pgDropTable = async (connectionId: string, _database: string, table
   }
 }
 
-export const pgRenameTable = async (connectionId: string, _database: string, oldName: string, newName: string) => {
+export const pgRenameTable = async (connectionId: string, database: string, oldName: string, newName: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    await connection.pool.query(`ALTER TABLE "${oldName}" RENAME TO "${newName}"`)
+    // RENAME TO takes a bare name — the table stays in its schema
+    await pool.query(`ALTER TABLE ${qualify(oldName)} RENAME TO ${quoteId(splitTable(newName).name)}`)
     return { success: true }
   } catch (error: any) {
     console.error('PG rename table error:', error.message)
@@ -460,18 +960,19 @@ export const pgRenameTable = async (connectionId: string, _database: string, old
 
 /* ── Index Management ─────────────────────────────────── */
 
-export const pgListIndexes = async (connectionId: string, _database: string, table: string) => {
+export const pgListIndexes = async (connectionId: string, database: string, table: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(
+    const { schema, name } = splitTable(table)
+    const result = await pool.query(
       `SELECT indexname as name, indexdef as definition,
-              pg_size_pretty(pg_relation_size(quote_ident(indexname))) as size
+              pg_size_pretty(pg_relation_size(format('%I.%I', schemaname, indexname)::regclass)) as size
        FROM pg_indexes
-       WHERE tablename = $1 AND schemaname = 'public'
+       WHERE schemaname = $1 AND tablename = $2
        ORDER BY indexname`,
-      [table]
+      [schema, name]
     )
     return { success: true, indexes: result.rows }
   } catch (error: any) {
@@ -482,22 +983,23 @@ export const pgListIndexes = async (connectionId: string, _database: string, tab
 
 export const pgCreateIndex = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   indexName: string,
   columns: string[],
   options?: { unique?: boolean; method?: string }
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const unique = options?.unique ? 'UNIQUE ' : ''
     const method = options?.method ? `USING ${options.method} ` : ''
-    const cols = columns.map(c => `"${c}"`).join(', ')
+    const cols = columns.map(quoteId).join(', ')
 
-    const query = `CREATE ${unique}INDEX "${indexName}" ON "${table}" ${method}(${cols})`
-    await connection.pool.query(query)
+    // The index is created in the table's schema
+    const query = `CREATE ${unique}INDEX ${quoteId(indexName)} ON ${qualify(table)} ${method}(${cols})`
+    await pool.query(query)
     return { success: true }
   } catch (error: any) {
     console.error('PG create index error:', error.message)
@@ -505,12 +1007,13 @@ export const pgCreateIndex = async (
   }
 }
 
-export const pgDropIndex = async (connectionId: string, _database: string, indexName: string) => {
+export const pgDropIndex = async (connectionId: string, database: string, table: string, indexName: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    await connection.pool.query(`DROP INDEX IF EXISTS "${indexName}"`)
+    // Indexes share their table's schema
+    await pool.query(`DROP INDEX IF EXISTS ${quoteId(splitTable(table).schema)}.${quoteId(indexName)}`)
     return { success: true }
   } catch (error: any) {
     console.error('PG drop index error:', error.message)
@@ -522,16 +1025,16 @@ export const pgDropIndex = async (connectionId: string, _database: string, index
 
 export const pgExplainQuery = async (
   connectionId: string,
-  _database: string,
+  database: string,
   _table: string,
   query: string
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
     const explainQuery = `EXPLAIN (ANALYZE, FORMAT JSON) ${query}`
-    const result = await connection.pool.query(explainQuery)
+    const result = await pool.query(explainQuery)
 
     return { success: true, explain: result.rows[0]['QUERY PLAN'] || result.rows }
   } catch (error: any) {
@@ -542,14 +1045,14 @@ export const pgExplainQuery = async (
 
 export const pgGetServerStats = async (connectionId: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
-    const versionResult = await connection.pool.query('SELECT version()')
-    const activityResult = await connection.pool.query(`SELECT state, count(*) as count FROM pg_stat_activity GROUP BY state`)
-    const dbSizeResult = await connection.pool.query(`SELECT pg_database_size(current_database()) as size`)
-    const bgWriterResult = await connection.pool.query(`SELECT * FROM pg_stat_bgwriter`)
-    const dbStatsResult = await connection.pool.query(`SELECT * FROM pg_stat_database WHERE datname = current_database()`)
+    const versionResult = await pool.query('SELECT version()')
+    const activityResult = await pool.query(`SELECT state, count(*) as count FROM pg_stat_activity GROUP BY state`)
+    const dbSizeResult = await pool.query(`SELECT pg_database_size(current_database()) as size`)
+    const bgWriterResult = await pool.query(`SELECT * FROM pg_stat_bgwriter`)
+    const dbStatsResult = await pool.query(`SELECT * FROM pg_stat_database WHERE datname = current_database()`)
 
     const connections_by_state: Record<string, number> = {}
     activityResult.rows.forEach((r: any) => { connections_by_state[r.state || 'null'] = parseInt(r.count) })
@@ -599,10 +1102,10 @@ function buildWhereClause(filter: any): { whereClause: string; values: any[] } {
 
 export const pgGetActiveQueries = async (connectionId: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
-    const result = await connection.pool.query(
+    const result = await pool.query(
       `SELECT pid, usename, datname, client_addr, state, query,
               query_start, state_change,
               EXTRACT(EPOCH FROM (now() - query_start))::numeric(10,2) AS duration_sec,
@@ -620,9 +1123,9 @@ export const pgGetActiveQueries = async (connectionId: string) => {
 
 export const pgCancelQuery = async (connectionId: string, pid: number) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
-    await connection.pool.query('SELECT pg_cancel_backend($1)', [pid])
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
+    await pool.query('SELECT pg_cancel_backend($1)', [pid])
     return { success: true }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -631,9 +1134,9 @@ export const pgCancelQuery = async (connectionId: string, pid: number) => {
 
 export const pgTerminateBackend = async (connectionId: string, pid: number) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
-    await connection.pool.query('SELECT pg_terminate_backend($1)', [pid])
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
+    await pool.query('SELECT pg_terminate_backend($1)', [pid])
     return { success: true }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -642,51 +1145,54 @@ export const pgTerminateBackend = async (connectionId: string, pid: number) => {
 
 /* ── PG Tools: Table Details (constraints, FK, triggers) ── */
 
-export const pgGetTableDetails = async (connectionId: string, _database: string, table: string) => {
+export const pgGetTableDetails = async (connectionId: string, database: string, table: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
+    const { schema, name } = splitTable(table)
 
     // Constraints
-    const constraintsResult = await connection.pool.query(
+    const constraintsResult = await pool.query(
       `SELECT con.conname AS name, con.contype AS type,
               pg_get_constraintdef(con.oid) AS definition
        FROM pg_constraint con
        JOIN pg_class rel ON rel.oid = con.conrelid
        JOIN pg_namespace nsp ON nsp.oid = rel.relnamespace
-       WHERE rel.relname = $1 AND nsp.nspname = 'public'
+       WHERE nsp.nspname = $1 AND rel.relname = $2
        ORDER BY con.contype, con.conname`,
-      [table]
+      [schema, name]
     )
 
     // Foreign keys (outgoing)
-    const fkResult = await connection.pool.query(
+    const fkResult = await pool.query(
       `SELECT tc.constraint_name, kcu.column_name,
-              ccu.table_name AS foreign_table, ccu.column_name AS foreign_column,
+              CASE WHEN ccu.table_schema = 'public' THEN ccu.table_name ELSE ccu.table_schema || '.' || ccu.table_name END AS foreign_table,
+              ccu.column_name AS foreign_column,
               rc.update_rule, rc.delete_rule
        FROM information_schema.table_constraints tc
-       JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name
-       JOIN information_schema.constraint_column_usage ccu ON ccu.constraint_name = tc.constraint_name
-       JOIN information_schema.referential_constraints rc ON rc.constraint_name = tc.constraint_name
-       WHERE tc.constraint_type = 'FOREIGN KEY' AND tc.table_name = $1 AND tc.table_schema = 'public'`,
-      [table]
+       JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name AND tc.constraint_schema = kcu.constraint_schema
+       JOIN information_schema.constraint_column_usage ccu ON ccu.constraint_name = tc.constraint_name AND ccu.constraint_schema = tc.constraint_schema
+       JOIN information_schema.referential_constraints rc ON rc.constraint_name = tc.constraint_name AND rc.constraint_schema = tc.constraint_schema
+       WHERE tc.constraint_type = 'FOREIGN KEY' AND tc.table_schema = $1 AND tc.table_name = $2`,
+      [schema, name]
     )
 
     // Triggers
-    const triggersResult = await connection.pool.query(
+    const triggersResult = await pool.query(
       `SELECT trigger_name, event_manipulation, action_timing, action_statement
        FROM information_schema.triggers
-       WHERE event_object_table = $1 AND event_object_schema = 'public'
+       WHERE event_object_schema = $1 AND event_object_table = $2
        ORDER BY trigger_name`,
-      [table]
+      [schema, name]
     )
 
     // Table size
-    const sizeResult = await connection.pool.query(
-      `SELECT pg_size_pretty(pg_total_relation_size(quote_ident($1))) AS total_size,
-              pg_size_pretty(pg_relation_size(quote_ident($1))) AS table_size,
-              pg_size_pretty(pg_indexes_size(quote_ident($1))) AS indexes_size`,
-      [table]
+    const sizeResult = await pool.query(
+      `SELECT pg_size_pretty(pg_total_relation_size(c.oid)) AS total_size,
+              pg_size_pretty(pg_relation_size(c.oid)) AS table_size,
+              pg_size_pretty(pg_indexes_size(c.oid)) AS indexes_size
+       FROM (SELECT format('%I.%I', $1::text, $2::text)::regclass AS oid) c`,
+      [schema, name]
     )
 
     return {
@@ -706,10 +1212,10 @@ export const pgGetTableDetails = async (connectionId: string, _database: string,
 
 export const pgListRoles = async (connectionId: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
-    const result = await connection.pool.query(
+    const result = await pool.query(
       `SELECT rolname, rolsuper, rolcreaterole, rolcreatedb, rolcanlogin,
               rolreplication, rolconnlimit, rolvaliduntil,
               ARRAY(SELECT b.rolname FROM pg_catalog.pg_auth_members m
@@ -729,10 +1235,10 @@ export const pgListRoles = async (connectionId: string) => {
 
 export const pgListExtensions = async (connectionId: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection)
 
-    const result = await connection.pool.query(
+    const result = await pool.query(
       `SELECT e.extname AS name, e.extversion AS version, n.nspname AS schema,
               c.description
        FROM pg_extension e
@@ -751,23 +1257,23 @@ export const pgListExtensions = async (connectionId: string) => {
 
 export const pgRunMaintenance = async (
   connectionId: string,
-  _database: string,
+  database: string,
   table: string,
   action: 'vacuum' | 'vacuum_full' | 'analyze' | 'reindex'
 ) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const safeTable = table.replace(/[^a-zA-Z0-9_]/g, '')
+    const safeTable = qualify(table)
     let sql = ''
     switch (action) {
-      case 'vacuum': sql = `VACUUM "${safeTable}"`; break
-      case 'vacuum_full': sql = `VACUUM FULL "${safeTable}"`; break
-      case 'analyze': sql = `ANALYZE "${safeTable}"`; break
-      case 'reindex': sql = `REINDEX TABLE "${safeTable}"`; break
+      case 'vacuum': sql = `VACUUM ${safeTable}`; break
+      case 'vacuum_full': sql = `VACUUM FULL ${safeTable}`; break
+      case 'analyze': sql = `ANALYZE ${safeTable}`; break
+      case 'reindex': sql = `REINDEX TABLE ${safeTable}`; break
     }
-    await connection.pool.query(sql)
+    await pool.query(sql)
     return { success: true }
   } catch (error: any) {
     console.error('PG maintenance error:', error.message)
@@ -777,24 +1283,26 @@ export const pgRunMaintenance = async (
 
 /* ── PG Tools: Table Sizes ───────────────────────────── */
 
-export const pgGetTableSizes = async (connectionId: string) => {
+export const pgGetTableSizes = async (connectionId: string, database?: string) => {
   try {
-    const connection = connections.get(connectionId)
-    if (!connection) throw new Error('Not connected')
+    const connection = getConnection(connectionId)
+    const pool = getPool(connection, database)
 
-    const result = await connection.pool.query(
-      `SELECT relname AS name,
+    const result = await pool.query(
+      `SELECT n.nspname AS schema, c.relname AS table_name,
               pg_size_pretty(pg_total_relation_size(c.oid)) AS total_size,
               pg_total_relation_size(c.oid) AS total_bytes,
               pg_size_pretty(pg_relation_size(c.oid)) AS table_size,
               pg_size_pretty(pg_indexes_size(c.oid)) AS indexes_size,
               n_live_tup AS row_estimate
        FROM pg_class c
-       LEFT JOIN pg_stat_user_tables s ON s.relname = c.relname
-       WHERE c.relkind = 'r' AND c.relnamespace = (SELECT oid FROM pg_namespace WHERE nspname = 'public')
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+       WHERE c.relkind = 'r' AND ${SYSTEM_SCHEMA_FILTER}
        ORDER BY pg_total_relation_size(c.oid) DESC`
     )
-    return { success: true, tables: result.rows }
+    const tables = result.rows.map(({ schema, table_name, ...rest }: any) => ({ name: displayName(schema, table_name), ...rest }))
+    return { success: true, tables }
   } catch (error: any) {
     console.error('PG table sizes error:', error.message)
     return { success: false, error: error.message }
@@ -23,6 +23,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('mongodb:listCollections', connectionId, dbName),
     executeQuery: (connectionId: string, dbName: string, collectionName: string, query: any, options: any) =>
       ipcRenderer.invoke('mongodb:executeQuery', connectionId, dbName, collectionName, query, options),
+    openCursor: (connectionId: string, dbName: string, collectionName: string, filter: any, options?: any) =>
+      ipcRenderer.invoke('mongodb:openCursor', connectionId, dbName, collectionName, filter, options),
+    fetchNext: (cursorId: string, batchSize?: number) =>
+      ipcRenderer.invoke('mongodb:fetchNext', cursorId, batchSize),
+    closeCursor: (cursorId: string) =>
+      ipcRenderer.invoke('mongodb:closeCursor', cursorId),
+    cancelCursor: (cursorId: string) =>
+      ipcRenderer.invoke('mongodb:cancelCursor', cursorId),
+    runScript: (connectionId: string, dbName: string, script: string) =>
+      ipcRenderer.invoke('mongodb:runScript', connectionId, dbName, script),
     insertDocument: (
       connectionId: string,
       dbName: string,
@@ -56,6 +66,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('mongodb:updateMany', connectionId, dbName, collectionName, filter, update),
     deleteMany: (connectionId: string, dbName: string, collectionName: string, filter: any) =>
       ipcRenderer.invoke('mongodb:deleteMany', connectionId, dbName, collectionName, filter),
+    bulkWrite: (connectionId: string, dbName: string, collectionName: string, operations: any[]) =>
+      ipcRenderer.invoke('mongodb:bulkWrite', connectionId, dbName, collectionName, operations),
     countDocuments: (connectionId: string, dbName: string, collectionName: string, filter: any) =>
       ipcRenderer.invoke('mongodb:countDocuments', connectionId, dbName, collectionName, filter),
     // Database management
@@ -90,10 +102,34 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('postgresql:disconnect', connectionId),
     listDatabases: (connectionId: string) =>
       ipcRenderer.invoke('postgresql:listDatabases', connectionId),
+    listSchemas: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('postgresql:listSchemas', connectionId, database),
     listTables: (connectionId: string, database: string) =>
       ipcRenderer.invoke('postgresql:listTables', connectionId, database),
+    listFunctions: (connectionId: string, database: string, schema: string) =>
+      ipcRenderer.invoke('postgresql:listFunctions', connectionId, database, schema),
     executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) =>
       ipcRenderer.invoke('postgresql:executeQuery', connectionId, database, table, query, options),
+    executeScript: (connectionId: string, database: string, statements: string[]) =>
+      ipcRenderer.invoke('postgresql:executeScript', connectionId, database, statements),
+    openCursor: (connectionId: string, database: string, query: string, session?: { sessionId: string; autoCommit: boolean }) =>
+      ipcRenderer.invoke('postgresql:openCursor', connectionId, database, query, session),
+    fetchNext: (cursorId: string, batchSize?: number) =>
+      ipcRenderer.invoke('postgresql:fetchNext', cursorId, batchSize),
+    closeCursor: (cursorId: string) =>
+      ipcRenderer.invoke('postgresql:closeCursor', cursorId),
+    cancelCursor: (cursorId: string) =>
+      ipcRenderer.invoke('postgresql:cancelCursor', cursorId),
+    openSession: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('postgresql:openSession', connectionId, database),
+    sessionExecute: (sessionId: string, statements: string[], autoCommit: boolean) =>
+      ipcRenderer.invoke('postgresql:sessionExecute', sessionId, statements, autoCommit),
+    endTransaction: (sessionId: string, commit: boolean) =>
+      ipcRenderer.invoke('postgresql:endTransaction', sessionId, commit),
+    sessionStatus: (sessionId: string) =>
+      ipcRenderer.invoke('postgresql:sessionStatus', sessionId),
+    closeSession: (sessionId: string) =>
+      ipcRenderer.invoke('postgresql:closeSession', sessionId),
     findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) =>
       ipcRenderer.invoke('postgresql:findQuery', connectionId, database, table, filter, options),
     insertDocument: (connectionId: string, database: string, table: string, document: any) =>
@@ -106,6 +142,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('postgresql:updateMany', connectionId, database, table, filter, update),
     deleteMany: (connectionId: string, database: string, table: string, filter: any) =>
       ipcRenderer.invoke('postgresql:deleteMany', connectionId, database, table, filter),
+    applyChanges: (connectionId: string, database: string, statements: { text: string; values: unknown[] }[]) =>
+      ipcRenderer.invoke('postgresql:applyChanges', connectionId, database, statements),
     countRows: (connectionId: string, database: string, table: string, filter: any) =>
       ipcRenderer.invoke('postgresql:countRows', connectionId, database, table, filter),
     aggregate: (connectionId: string, database: string, table: string, query: string) =>
@@ -128,8 +166,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('postgresql:listIndexes', connectionId, database, table),
     createIndex: (connectionId: string, database: string, table: string, indexName: string, columns: string[], options?: any) =>
       ipcRenderer.invoke('postgresql:createIndex', connectionId, database, table, indexName, columns, options),
-    dropIndex: (connectionId: string, database: string, indexName: string) =>
-      ipcRenderer.invoke('postgresql:dropIndex', connectionId, database, indexName),
+    dropIndex: (connectionId: string, database: string, table: string, indexName: string) =>
+      ipcRenderer.invoke('postgresql:dropIndex', connectionId, database, table, indexName),
     explainQuery: (connectionId: string, database: string, table: string, query: string) =>
       ipcRenderer.invoke('postgresql:explainQuery', connectionId, database, table, query),
     getServerStats: (connectionId: string) =>
@@ -149,20 +187,189 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('postgresql:listExtensions', connectionId),
     runMaintenance: (connectionId: string, database: string, table: string, action: string) =>
       ipcRenderer.invoke('postgresql:runMaintenance', connectionId, database, table, action),
-    getTableSizes: (connectionId: string) =>
-      ipcRenderer.invoke('postgresql:getTableSizes', connectionId),
+    getTableSizes: (connectionId: string, database?: string) =>
+      ipcRenderer.invoke('postgresql:getTableSizes', connectionId, database),
+  },
+
+  // MySQL operations
+  mysql: {
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any) =>
+      ipcRenderer.invoke('mysql:connect', connectionId, connectionString, sshTunnel),
+    disconnect: (connectionId: string) =>
+      ipcRenderer.invoke('mysql:disconnect', connectionId),
+    listDatabases: (connectionId: string) =>
+      ipcRenderer.invoke('mysql:listDatabases', connectionId),
+    listTables: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mysql:listTables', connectionId, database),
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) =>
+      ipcRenderer.invoke('mysql:executeQuery', connectionId, database, table, query, options),
+    executeScript: (connectionId: string, database: string, statements: string[]) =>
+      ipcRenderer.invoke('mysql:executeScript', connectionId, database, statements),
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) =>
+      ipcRenderer.invoke('mysql:findQuery', connectionId, database, table, filter, options),
+    insertDocument: (connectionId: string, database: string, table: string, document: any) =>
+      ipcRenderer.invoke('mysql:insertDocument', connectionId, database, table, document),
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('mysql:updateDocument', connectionId, database, table, filter, update),
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mysql:deleteDocument', connectionId, database, table, filter),
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('mysql:updateMany', connectionId, database, table, filter, update),
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mysql:deleteMany', connectionId, database, table, filter),
+    countRows: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mysql:countRows', connectionId, database, table, filter),
+    aggregate: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('mysql:aggregate', connectionId, database, table, query),
+    getTableSchema: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mysql:getTableSchema', connectionId, database, table),
+    // Database management
+    createDatabase: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mysql:createDatabase', connectionId, database),
+    dropDatabase: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mysql:dropDatabase', connectionId, database),
+    createTable: (connectionId: string, database: string, table: string, columns: any[]) =>
+      ipcRenderer.invoke('mysql:createTable', connectionId, database, table, columns),
+    dropTable: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mysql:dropTable', connectionId, database, table),
+    renameTable: (connectionId: string, database: string, oldName: string, newName: string) =>
+      ipcRenderer.invoke('mysql:renameTable', connectionId, database, oldName, newName),
+    // Index management
+    listIndexes: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mysql:listIndexes', connectionId, database, table),
+    createIndex: (connectionId: string, database: string, table: string, indexName: string, columns: string[], options?: any) =>
+      ipcRenderer.invoke('mysql:createIndex', connectionId, database, table, indexName, columns, options),
+    dropIndex: (connectionId: string, database: string, table: string, indexName: string) =>
+      ipcRenderer.invoke('mysql:dropIndex', connectionId, database, table, indexName),
+    explainQuery: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('mysql:explainQuery', connectionId, database, table, query),
+    getServerStats: (connectionId: string) =>
+      ipcRenderer.invoke('mysql:getServerStats', connectionId),
+  },
+
+  // SQL Server operations
+  mssql: {
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any) =>
+      ipcRenderer.invoke('mssql:connect', connectionId, connectionString, sshTunnel),
+    disconnect: (connectionId: string) =>
+      ipcRenderer.invoke('mssql:disconnect', connectionId),
+    listDatabases: (connectionId: string) =>
+      ipcRenderer.invoke('mssql:listDatabases', connectionId),
+    listSchemas: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mssql:listSchemas', connectionId, database),
+    listTables: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mssql:listTables', connectionId, database),
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) =>
+      ipcRenderer.invoke('mssql:executeQuery', connectionId, database, table, query, options),
+    executeScript: (connectionId: string, database: string, statements: string[]) =>
+      ipcRenderer.invoke('mssql:executeScript', connectionId, database, statements),
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) =>
+      ipcRenderer.invoke('mssql:findQuery', connectionId, database, table, filter, options),
+    insertDocument: (connectionId: string, database: string, table: string, document: any) =>
+      ipcRenderer.invoke('mssql:insertDocument', connectionId, database, table, document),
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('mssql:updateDocument', connectionId, database, table, filter, update),
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mssql:deleteDocument', connectionId, database, table, filter),
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('mssql:updateMany', connectionId, database, table, filter, update),
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mssql:deleteMany', connectionId, database, table, filter),
+    countRows: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('mssql:countRows', connectionId, database, table, filter),
+    aggregate: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('mssql:aggregate', connectionId, database, table, query),
+    getTableSchema: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mssql:getTableSchema', connectionId, database, table),
+    // Database management
+    createDatabase: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mssql:createDatabase', connectionId, database),
+    dropDatabase: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('mssql:dropDatabase', connectionId, database),
+    createTable: (connectionId: string, database: string, table: string, columns: any[]) =>
+      ipcRenderer.invoke('mssql:createTable', connectionId, database, table, columns),
+    dropTable: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mssql:dropTable', connectionId, database, table),
+    renameTable: (connectionId: string, database: string, oldName: string, newName: string) =>
+      ipcRenderer.invoke('mssql:renameTable', connectionId, database, oldName, newName),
+    // Index management
+    listIndexes: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('mssql:listIndexes', connectionId, database, table),
+    createIndex: (connectionId: string, database: string, table: string, indexName: string, columns: string[], options?: any) =>
+      ipcRenderer.invoke('mssql:createIndex', connectionId, database, table, indexName, columns, options),
+    dropIndex: (connectionId: string, database: string, table: string, indexName: string) =>
+      ipcRenderer.invoke('mssql:dropIndex', connectionId, database, table, indexName),
+    explainQuery: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('mssql:explainQuery', connectionId, database, table, query),
+    getServerStats: (connectionId: string) =>
+      ipcRenderer.invoke('mssql:getServerStats', connectionId),
+    // Sessions
+    getActiveSessions: (connectionId: string) =>
+      ipcRenderer.invoke('mssql:getActiveSessions', connectionId),
+    killSession: (connectionId: string, sessionId: number) =>
+      ipcRenderer.invoke('mssql:killSession', connectionId, sessionId),
+  },
+
+  // SQLite operations (local database files)
+  sqlite: {
+    connect: (connectionId: string, filePath: string) =>
+      ipcRenderer.invoke('sqlite:connect', connectionId, filePath),
+    disconnect: (connectionId: string) =>
+      ipcRenderer.invoke('sqlite:disconnect', connectionId),
+    listDatabases: (connectionId: string) =>
+      ipcRenderer.invoke('sqlite:listDatabases', connectionId),
+    listTables: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('sqlite:listTables', connectionId, database),
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) =>
+      ipcRenderer.invoke('sqlite:executeQuery', connectionId, database, table, query, options),
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) =>
+      ipcRenderer.invoke('sqlite:findQuery', connectionId, database, table, filter, options),
+    insertDocument: (connectionId: string, database: string, table: string, document: any) =>
+      ipcRenderer.invoke('sqlite:insertDocument', connectionId, database, table, document),
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('sqlite:updateDocument', connectionId, database, table, filter, update),
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('sqlite:deleteDocument', connectionId, database, table, filter),
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) =>
+      ipcRenderer.invoke('sqlite:updateMany', connectionId, database, table, filter, update),
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('sqlite:deleteMany', connectionId, database, table, filter),
+    countRows: (connectionId: string, database: string, table: string, filter: any) =>
+      ipcRenderer.invoke('sqlite:countRows', connectionId, database, table, filter),
+    aggregate: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('sqlite:aggregate', connectionId, database, table, query),
+    getTableSchema: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('sqlite:getTableSchema', connectionId, database, table),
+    // Table management
+    createTable: (connectionId: string, database: string, table: string, columns: any[]) =>
+      ipcRenderer.invoke('sqlite:createTable', connectionId, database, table, columns),
+    dropTable: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('sqlite:dropTable', connectionId, database, table),
+    renameTable: (connectionId: string, database: string, oldName: string, newName: string) =>
+      ipcRenderer.invoke('sqlite:renameTable', connectionId, database, oldName, newName),
+    // Index management
+    listIndexes: (connectionId: string, database: string, table: string) =>
+      ipcRenderer.invoke('sqlite:listIndexes', connectionId, database, table),
+    createIndex: (connectionId: string, database: string, table: string, indexName: string, columns: string[], options?: any) =>
+      ipcRenderer.invoke('sqlite:createIndex', connectionId, database, table, indexName, columns, options),
+    dropIndex: (connectionId: string, database: string, indexName: string) =>
+      ipcRenderer.invoke('sqlite:dropIndex', connectionId, database, indexName),
+    explainQuery: (connectionId: string, database: string, table: string, query: string) =>
+      ipcRenderer.invoke('sqlite:explainQuery', connectionId, database, table, query),
+    getServerStats: (connectionId: string) =>
+      ipcRenderer.invoke('sqlite:getServerStats', connectionId),
   },
 
   // Redis operations
   redis: {
-    connect: (connectionId: string, connectionString: string, sshTunnel?: any) =>
-      ipcRenderer.invoke('redis:connect', connectionId, connectionString, sshTunnel),
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any, options?: any) =>
+      ipcRenderer.invoke('redis:connect', connectionId, connectionString, sshTunnel, options),
     disconnect: (connectionId: string) =>
       ipcRenderer.invoke('redis:disconnect', connectionId),
     listDatabases: (connectionId: string) =>
       ipcRenderer.invoke('redis:listDatabases', connectionId),
-    listKeys: (connectionId: string, database: string, pattern: string, count: number) =>
-      ipcRenderer.invoke('redis:listKeys', connectionId, database, pattern, count),
+    listKeys: (connectionId: string, database: string, pattern: string, count: number, cursor?: string, type?: string) =>
+      ipcRenderer.invoke('redis:listKeys', connectionId, database, pattern, count, cursor, type),
     getKeyValue: (connectionId: string, database: string, key: string) =>
       ipcRenderer.invoke('redis:getKeyValue', connectionId, database, key),
     setKey: (connectionId: string, database: string, key: string, value: any, type: string, ttl?: number) =>
@@ -187,6 +394,32 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('redis:getClients', connectionId),
     memoryUsage: (connectionId: string, database: string, key: string) =>
       ipcRenderer.invoke('redis:memoryUsage', connectionId, database, key),
+    startMemoryAnalysis: (analysisId: string, connectionId: string, database: string, options: any) =>
+      ipcRenderer.invoke('redis:startMemoryAnalysis', analysisId, connectionId, database, options),
+    cancelMemoryAnalysis: (analysisId: string) =>
+      ipcRenderer.invoke('redis:cancelMemoryAnalysis', analysisId),
+    onMemoryAnalysisProgress: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data)
+      ipcRenderer.on('redis:memoryAnalysisProgress', handler)
+      return () => ipcRenderer.removeListener('redis:memoryAnalysisProgress', handler)
+    },
+    // Lua scripts & functions
+    evalScript: (connectionId: string, database: string, mode: 'eval' | 'evalsha', scriptOrSha: string, keys: string[], args: string[]) =>
+      ipcRenderer.invoke('redis:evalScript', connectionId, database, mode, scriptOrSha, keys, args),
+    callFunction: (connectionId: string, database: string, name: string, keys: string[], args: string[], readOnly?: boolean) =>
+      ipcRenderer.invoke('redis:callFunction', connectionId, database, name, keys, args, readOnly),
+    scriptLoad: (connectionId: string, script: string) =>
+      ipcRenderer.invoke('redis:scriptLoad', connectionId, script),
+    scriptExists: (connectionId: string, shas: string[]) =>
+      ipcRenderer.invoke('redis:scriptExists', connectionId, shas),
+    scriptFlush: (connectionId: string) =>
+      ipcRenderer.invoke('redis:scriptFlush', connectionId),
+    functionLoad: (connectionId: string, code: string, replace?: boolean) =>
+      ipcRenderer.invoke('redis:functionLoad', connectionId, code, replace),
+    functionList: (connectionId: string) =>
+      ipcRenderer.invoke('redis:functionList', connectionId),
+    functionDelete: (connectionId: string, library: string) =>
+      ipcRenderer.invoke('redis:functionDelete', connectionId, library),
     bulkDelete: (connectionId: string, database: string, pattern: string) =>
       ipcRenderer.invoke('redis:bulkDelete', connectionId, database, pattern),
     bulkTTL: (connectionId: string, database: string, pattern: string, ttl: number) =>
@@ -235,22 +468,77 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Kafka operations
   kafka: {
-    connect: (connectionId: string, connectionString: string, sshTunnel?: any) =>
-      ipcRenderer.invoke('kafka:connect', connectionId, connectionString, sshTunnel),
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any, options?: any) =>
+      ipcRenderer.invoke('kafka:connect', connectionId, connectionString, sshTunnel, options),
     disconnect: (connectionId: string) =>
       ipcRenderer.invoke('kafka:disconnect', connectionId),
     listTopics: (connectionId: string) =>
       ipcRenderer.invoke('kafka:listTopics', connectionId),
     getTopicMetadata: (connectionId: string, topic: string) =>
       ipcRenderer.invoke('kafka:getTopicMetadata', connectionId, topic),
-    consumeMessages: (connectionId: string, topic: string, limit: number, fromBeginning: boolean) =>
-      ipcRenderer.invoke('kafka:consumeMessages', connectionId, topic, limit, fromBeginning),
-    produceMessage: (connectionId: string, topic: string, messages: any[]) =>
-      ipcRenderer.invoke('kafka:produceMessage', connectionId, topic, messages),
+    consumeMessages: (connectionId: string, topic: string, options: { from: string; partition?: number; offset?: number; timestamp?: number; offsets?: Record<number, number>; limit: number }) =>
+      ipcRenderer.invoke('kafka:consumeMessages', connectionId, topic, options),
+    startTail: (connectionId: string, tailId: string, topic: string) =>
+      ipcRenderer.invoke('kafka:startTail', connectionId, tailId, topic),
+    pauseTail: (tailId: string, paused: boolean) =>
+      ipcRenderer.invoke('kafka:pauseTail', tailId, paused),
+    stopTail: (tailId: string) =>
+      ipcRenderer.invoke('kafka:stopTail', tailId),
+    onTailMessages: (callback: (data: { tailId: string; messages?: any[]; error?: string }) => void) => {
+      const handler = (_event: any, data: any) => callback(data)
+      ipcRenderer.on('kafka:tailMessages', handler)
+      return () => ipcRenderer.removeListener('kafka:tailMessages', handler)
+    },
+    startSearch: (connectionId: string, searchId: string, topic: string, options: any) =>
+      ipcRenderer.invoke('kafka:startSearch', connectionId, searchId, topic, options),
+    cancelSearch: (searchId: string) =>
+      ipcRenderer.invoke('kafka:cancelSearch', searchId),
+    onSearchProgress: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data)
+      ipcRenderer.on('kafka:searchProgress', handler)
+      return () => ipcRenderer.removeListener('kafka:searchProgress', handler)
+    },
+    startReplay: (
+      replayId: string,
+      source: { connectionId: string; topic: string },
+      destination: { connectionId: string; topic: string },
+      selection: any,
+      options: any
+    ) => ipcRenderer.invoke('kafka:startReplay', replayId, source, destination, selection, options),
+    cancelReplay: (replayId: string) =>
+      ipcRenderer.invoke('kafka:cancelReplay', replayId),
+    onReplayProgress: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data)
+      ipcRenderer.on('kafka:replayProgress', handler)
+      return () => ipcRenderer.removeListener('kafka:replayProgress', handler)
+    },
+    produceMessage: (connectionId: string, topic: string, messages: any[], schema?: { subject: string; version?: number }) =>
+      ipcRenderer.invoke('kafka:produceMessage', connectionId, topic, messages, schema),
+    startBulkProduce: (produceId: string, connectionId: string, topic: string, source: any, options: any) =>
+      ipcRenderer.invoke('kafka:startBulkProduce', produceId, connectionId, topic, source, options),
+    cancelBulkProduce: (produceId: string) =>
+      ipcRenderer.invoke('kafka:cancelBulkProduce', produceId),
+    onBulkProduceProgress: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data)
+      ipcRenderer.on('kafka:bulkProduceProgress', handler)
+      return () => ipcRenderer.removeListener('kafka:bulkProduceProgress', handler)
+    },
+    listSubjects: (connectionId: string) =>
+      ipcRenderer.invoke('kafka:listSubjects', connectionId),
+    getSubjectVersions: (connectionId: string, subject: string) =>
+      ipcRenderer.invoke('kafka:getSubjectVersions', connectionId, subject),
+    getSchema: (connectionId: string, subject: string, version: number | 'latest') =>
+      ipcRenderer.invoke('kafka:getSchema', connectionId, subject, version),
     createTopic: (connectionId: string, topic: string, numPartitions: number, replicationFactor: number) =>
       ipcRenderer.invoke('kafka:createTopic', connectionId, topic, numPartitions, replicationFactor),
     deleteTopic: (connectionId: string, topic: string) =>
       ipcRenderer.invoke('kafka:deleteTopic', connectionId, topic),
+    createPartitions: (connectionId: string, topic: string, count: number) =>
+      ipcRenderer.invoke('kafka:createPartitions', connectionId, topic, count),
+    reassignPartitions: (connectionId: string, topic: string, assignments: Array<{ partition: number; replicas: number[] }>) =>
+      ipcRenderer.invoke('kafka:reassignPartitions', connectionId, topic, assignments),
+    listReassignments: (connectionId: string, topic?: string) =>
+      ipcRenderer.invoke('kafka:listReassignments', connectionId, topic),
     getClusterInfo: (connectionId: string) =>
       ipcRenderer.invoke('kafka:getClusterInfo', connectionId),
     listConsumerGroups: (connectionId: string) =>
@@ -259,14 +547,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('kafka:describeConsumerGroup', connectionId, groupId),
     getConsumerGroupOffsets: (connectionId: string, groupId: string, topic?: string) =>
       ipcRenderer.invoke('kafka:getConsumerGroupOffsets', connectionId, groupId, topic),
-    resetConsumerGroupOffsets: (connectionId: string, groupId: string, topic: string, earliest: boolean) =>
-      ipcRenderer.invoke('kafka:resetConsumerGroupOffsets', connectionId, groupId, topic, earliest),
+    resetConsumerGroupOffsets: (connectionId: string, groupId: string, topic: string, spec: any, dryRun?: boolean) =>
+      ipcRenderer.invoke('kafka:resetConsumerGroupOffsets', connectionId, groupId, topic, spec, dryRun),
     deleteConsumerGroup: (connectionId: string, groupId: string) =>
       ipcRenderer.invoke('kafka:deleteConsumerGroup', connectionId, groupId),
     getTopicConfig: (connectionId: string, topic: string) =>
       ipcRenderer.invoke('kafka:getTopicConfig', connectionId, topic),
     alterTopicConfig: (connectionId: string, topic: string, configEntries: Array<{ name: string; value: string }>) =>
       ipcRenderer.invoke('kafka:alterTopicConfig', connectionId, topic, configEntries),
+    describeAcls: (connectionId: string, filter?: any) =>
+      ipcRenderer.invoke('kafka:describeAcls', connectionId, filter),
+    createAcls: (connectionId: string, acls: any[]) =>
+      ipcRenderer.invoke('kafka:createAcls', connectionId, acls),
+    deleteAcls: (connectionId: string, acls: any[]) =>
+      ipcRenderer.invoke('kafka:deleteAcls', connectionId, acls),
     getStats: (connectionId: string) =>
       ipcRenderer.invoke('kafka:getStats', connectionId),
   },
@@ -295,6 +589,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getQueryTemplates: () => ipcRenderer.invoke('storage:getQueryTemplates'),
     saveQueryTemplate: (template: any) => ipcRenderer.invoke('storage:saveQueryTemplate', template),
     deleteQueryTemplate: (id: string) => ipcRenderer.invoke('storage:deleteQueryTemplate', id),
+    getRedisScripts: () => ipcRenderer.invoke('storage:getRedisScripts'),
+    saveRedisScript: (script: any) => ipcRenderer.invoke('storage:saveRedisScript', script),
+    deleteRedisScript: (id: string) => ipcRenderer.invoke('storage:deleteRedisScript', id),
   },
 
   // Auto-updater operations
@@ -342,34 +639,106 @@ export interface ElectronAPI {
     listDatabases: (connectionId: string) => Promise<any[]>
     listCollections: (connectionId: string, dbName: string) => Promise<any[]>
     executeQuery: (connectionId: string, dbName: string, collectionName: string, query: any, options: any) => Promise<any>
+    openCursor: (connectionId: string, dbName: string, collectionName: string, filter: any, options?: any) => Promise<any>
+    fetchNext: (cursorId: string, batchSize?: number) => Promise<any>
+    closeCursor: (cursorId: string) => Promise<any>
+    cancelCursor: (cursorId: string) => Promise<any>
+    runScript: (connectionId: string, dbName: string, script: string) => Promise<any>
     insertDocument: (connectionId: string, dbName: string, collectionName: string, document: any) => Promise<any>
     updateDocument: (connectionId: string, dbName: string, collectionName: string, filter: any, update: any) => Promise<any>
     deleteDocument: (connectionId: string, dbName: string, collectionName: string, filter: any) => Promise<any>
     updateMany: (connectionId: string, dbName: string, collectionName: string, filter: any, update: any) => Promise<any>
     deleteMany: (connectionId: string, dbName: string, collectionName: string, filter: any) => Promise<any>
+    bulkWrite: (connectionId: string, dbName: string, collectionName: string, operations: any[]) => Promise<any>
     countDocuments: (connectionId: string, dbName: string, collectionName: string, filter: any) => Promise<any>
   }
   postgresql: {
     connect: (connectionId: string, connectionString: string, sshTunnel?: any) => Promise<any>
     disconnect: (connectionId: string) => Promise<void>
     listDatabases: (connectionId: string) => Promise<any>
+    listSchemas: (connectionId: string, database: string) => Promise<any>
     listTables: (connectionId: string, database: string) => Promise<any>
+    listFunctions: (connectionId: string, database: string, schema: string) => Promise<any>
     executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) => Promise<any>
+    executeScript: (connectionId: string, database: string, statements: string[]) => Promise<any>
+    openCursor: (connectionId: string, database: string, query: string, session?: { sessionId: string; autoCommit: boolean }) => Promise<any>
+    fetchNext: (cursorId: string, batchSize?: number) => Promise<any>
+    closeCursor: (cursorId: string) => Promise<any>
+    cancelCursor: (cursorId: string) => Promise<any>
+    openSession: (connectionId: string, database: string) => Promise<any>
+    sessionExecute: (sessionId: string, statements: string[], autoCommit: boolean) => Promise<any>
+    endTransaction: (sessionId: string, commit: boolean) => Promise<any>
+    sessionStatus: (sessionId: string) => Promise<any>
+    closeSession: (sessionId: string) => Promise<any>
     findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) => Promise<any>
     insertDocument: (connectionId: string, database: string, table: string, document: any) => Promise<any>
     updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
     deleteDocument: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
     updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
     deleteMany: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    applyChanges: (connectionId: string, database: string, statements: { text: string; values: unknown[] }[]) => Promise<any>
     countRows: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
     aggregate: (connectionId: string, database: string, table: string, query: string) => Promise<any>
     getTableSchema: (connectionId: string, database: string, table: string) => Promise<any>
   }
-  redis: {
+  mysql: {
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any) => Promise<any>
+    disconnect: (connectionId: string) => Promise<void>
+    listDatabases: (connectionId: string) => Promise<any>
+    listTables: (connectionId: string, database: string) => Promise<any>
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) => Promise<any>
+    executeScript: (connectionId: string, database: string, statements: string[]) => Promise<any>
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) => Promise<any>
+    insertDocument: (connectionId: string, database: string, table: string, document: any) => Promise<any>
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    countRows: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    aggregate: (connectionId: string, database: string, table: string, query: string) => Promise<any>
+    getTableSchema: (connectionId: string, database: string, table: string) => Promise<any>
+  }
+  mssql: {
     connect: (connectionId: string, connectionString: string, sshTunnel?: any) => Promise<any>
     disconnect: (connectionId: string) => Promise<void>
     listDatabases: (connectionId: string) => Promise<any>
-    listKeys: (connectionId: string, database: string, pattern: string, count: number) => Promise<any>
+    listTables: (connectionId: string, database: string) => Promise<any>
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) => Promise<any>
+    executeScript: (connectionId: string, database: string, statements: string[]) => Promise<any>
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) => Promise<any>
+    insertDocument: (connectionId: string, database: string, table: string, document: any) => Promise<any>
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    countRows: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    aggregate: (connectionId: string, database: string, table: string, query: string) => Promise<any>
+    getTableSchema: (connectionId: string, database: string, table: string) => Promise<any>
+  }
+  sqlite: {
+    connect: (connectionId: string, filePath: string) => Promise<any>
+    disconnect: (connectionId: string) => Promise<void>
+    listDatabases: (connectionId: string) => Promise<any>
+    listTables: (connectionId: string, database: string) => Promise<any>
+    executeQuery: (connectionId: string, database: string, table: string, query: string, options: any) => Promise<any>
+    findQuery: (connectionId: string, database: string, table: string, filter: any, options: any) => Promise<any>
+    insertDocument: (connectionId: string, database: string, table: string, document: any) => Promise<any>
+    updateDocument: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteDocument: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    updateMany: (connectionId: string, database: string, table: string, filter: any, update: any) => Promise<any>
+    deleteMany: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    countRows: (connectionId: string, database: string, table: string, filter: any) => Promise<any>
+    aggregate: (connectionId: string, database: string, table: string, query: string) => Promise<any>
+    getTableSchema: (connectionId: string, database: string, table: string) => Promise<any>
+  }
+  redis: {
+    connect: (
+      connectionId: string, connectionString: string, sshTunnel?: any,
+      options?: { mode: 'standalone' | 'cluster' | 'sentinel'; nodes?: string[]; sentinels?: string[]; masterName?: string; sentinelUsername?: string; sentinelPassword?: string }
+    ) => Promise<any>
+    disconnect: (connectionId: string) => Promise<void>
+    listDatabases: (connectionId: string) => Promise<any>
+    listKeys: (connectionId: string, database: string, pattern: string, count: number, cursor?: string, type?: string) => Promise<any>
     getKeyValue: (connectionId: string, database: string, key: string) => Promise<any>
     setKey: (connectionId: string, database: string, key: string, value: any, type: string, ttl?: number) => Promise<any>
     deleteKey: (connectionId: string, database: string, key: string) => Promise<any>
@@ -377,22 +746,65 @@ export interface ElectronAPI {
     getInfo: (connectionId: string) => Promise<any>
   }
   kafka: {
-    connect: (connectionId: string, connectionString: string, sshTunnel?: any) => Promise<any>
+    connect: (connectionId: string, connectionString: string, sshTunnel?: any, options?: {
+      schemaRegistry?: { url: string; username?: string; password?: string }
+      tls?: { caFile?: string; certFile?: string; keyFile?: string; passphrase?: string; verifyCertificate?: boolean; verifyHostname?: boolean; servername?: string }
+      oauth?: { tokenEndpoint: string; clientId: string; clientSecret: string; scope?: string }
+    }) => Promise<any>
     disconnect: (connectionId: string) => Promise<any>
     listTopics: (connectionId: string) => Promise<any>
     getTopicMetadata: (connectionId: string, topic: string) => Promise<any>
-    consumeMessages: (connectionId: string, topic: string, limit: number, fromBeginning: boolean) => Promise<any>
-    produceMessage: (connectionId: string, topic: string, messages: any[]) => Promise<any>
+    consumeMessages: (connectionId: string, topic: string, options: { from: string; partition?: number; offset?: number; timestamp?: number; offsets?: Record<number, number>; limit: number }) => Promise<any>
+    startTail: (connectionId: string, tailId: string, topic: string) => Promise<any>
+    pauseTail: (tailId: string, paused: boolean) => Promise<any>
+    stopTail: (tailId: string) => Promise<any>
+    onTailMessages: (callback: (data: { tailId: string; messages?: any[]; error?: string }) => void) => () => void
+    startSearch: (
+      connectionId: string, searchId: string, topic: string,
+      options: { criteria: { field: string; mode: string; pattern: string; header?: string; equals?: string; caseSensitive?: boolean }; partitions?: number[]; from?: number; to?: number; maxResults: number }
+    ) => Promise<any>
+    cancelSearch: (searchId: string) => Promise<any>
+    onSearchProgress: (callback: (data: { searchId: string; hits?: any[]; scanned: number; total: number; done?: boolean; truncated?: boolean; cancelled?: boolean; error?: string }) => void) => () => void
+    startReplay: (
+      replayId: string,
+      source: { connectionId: string; topic: string },
+      destination: { connectionId: string; topic: string },
+      selection: { kind: 'offsets' | 'time' | 'messages'; partitions?: number[]; start?: number; end?: number; from?: number; to?: number; messages?: Array<{ partition: number; offset: string }>; resumeFrom?: Record<number, number> },
+      options: { preserveKeys: boolean; preserveHeaders: boolean; preserveTimestamps: boolean; preservePartitions?: boolean; messagesPerSecond?: number }
+    ) => Promise<any>
+    cancelReplay: (replayId: string) => Promise<any>
+    onReplayProgress: (callback: (data: { replayId: string; produced: number; scanned: number; total: number; positions: Record<number, number>; done?: boolean; cancelled?: boolean; error?: string }) => void) => () => void
+    produceMessage: (connectionId: string, topic: string, messages: any[], schema?: { subject: string; version?: number }) => Promise<any>
+    startBulkProduce: (
+      produceId: string, connectionId: string, topic: string,
+      source: { kind: 'template' | 'messages'; template?: { key?: string; value: string; partition?: string; headers?: Record<string, string> }; count?: number; sequenceStart?: number; messages?: Array<{ key?: string; value: string; partition?: number; headers?: Record<string, string> }> },
+      options: { compression: 'none' | 'gzip' | 'snappy' | 'lz4' | 'zstd'; messagesPerSecond?: number; batchSize?: number; acks?: -1 | 0 | 1 }
+    ) => Promise<any>
+    cancelBulkProduce: (produceId: string) => Promise<any>
+    onBulkProduceProgress: (callback: (data: { produceId: string; sent: number; total: number; elapsedMs: number; done?: boolean; cancelled?: boolean; error?: string; failedAt?: number; partitions?: Array<{ partition: number; firstOffset: number; nextOffset: number }> }) => void) => () => void
+    listSubjects: (connectionId: string) => Promise<any>
+    getSubjectVersions: (connectionId: string, subject: string) => Promise<any>
+    getSchema: (connectionId: string, subject: string, version: number | 'latest') => Promise<any>
     createTopic: (connectionId: string, topic: string, numPartitions: number, replicationFactor: number) => Promise<any>
     deleteTopic: (connectionId: string, topic: string) => Promise<any>
+    createPartitions: (connectionId: string, topic: string, count: number) => Promise<any>
+    reassignPartitions: (connectionId: string, topic: string, assignments: Array<{ partition: number; replicas: number[] }>) => Promise<any>
+    listReassignments: (connectionId: string, topic?: string) => Promise<any>
     getClusterInfo: (connectionId: string) => Promise<any>
     listConsumerGroups: (connectionId: string) => Promise<any>
     describeConsumerGroup: (connectionId: string, groupId: string) => Promise<any>
     getConsumerGroupOffsets: (connectionId: string, groupId: string, topic?: string) => Promise<any>
-    resetConsumerGroupOffsets: (connectionId: string, groupId: string, topic: string, earliest: boolean) => Promise<any>
+    resetConsumerGroupOffsets: (
+      connectionId: string, groupId: string, topic: string,
+      spec: { strategy: string; timestamp?: number; offsets?: Record<number, number>; shiftBy?: number; partitions?: number[] },
+      dryRun?: boolean
+    ) => Promise<any>
     deleteConsumerGroup: (connectionId: string, groupId: string) => Promise<any>
     getTopicConfig: (connectionId: string, topic: string) => Promise<any>
     alterTopicConfig: (connectionId: string, topic: string, configEntries: Array<{ name: string; value: string }>) => Promise<any>
+    describeAcls: (connectionId: string, filter?: { principal?: string; resourceType?: string; resourceName?: string; patternType?: string }) => Promise<any>
+    createAcls: (connectionId: string, acls: Array<{ principal: string; host: string; resourceType: string; resourceName: string; patternType: string; operation: string; permission: string }>) => Promise<any>
+    deleteAcls: (connectionId: string, acls: Array<{ principal: string; host: string; resourceType: string; resourceName: string; patternType: string; operation: string; permission: string }>) => Promise<any>
     getStats: (connectionId: string) => Promise<any>
   }
   dialog: {
@@ -414,6 +826,9 @@ export interface ElectronAPI {
     getQueryTemplates: () => Promise<any[]>
     saveQueryTemplate: (template: any) => Promise<any>
     deleteQueryTemplate: (id: string) => Promise<{ success: boolean }>
+    getRedisScripts: () => Promise<any[]>
+    saveRedisScript: (script: any) => Promise<any>
+    deleteRedisScript: (id: string) => Promise<{ success: boolean }>
   }
   updater: {
     checkForUpdates: () => Promise<{ success: boolean; updateInfo?: any; error?: string }>
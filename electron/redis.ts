@@ -1,14 +1,35 @@
-import Redis from 'ioredis'
+import Redis, { Cluster } from 'ioredis'
+import {
+  formatAddress, formatClusterCursor, isClusterFanoutCommand, keySlot, parseClusterCursor, parseHostList,
+  redisUrlOptions, slotsPerNode,
+} from '../src/utils/redisTopology'
+import { formatBytes } from '../src/utils/formatters'
+import { createDbClientPool, parseDbIndex, type DbClientPool } from '../src/utils/redisDbClients'
+import {
+  createMemoryReport, keyLengthCommand,
+  type RedisKeySample, type RedisMemoryAnalysisOptions, type RedisMemoryAnalysisProgress,
+} from '../src/utils/redisMemory'
+import { functionLibraryName, parseFunctionList } from '../src/utils/redisLua'
+import type { RedisConnectOptions, RedisMode } from '../src/types'
 
 interface RedisConnectionInfo {
-  client: Redis
+  /** A `Cluster` routes each command to the master serving its key's slot */
+  client: Redis | Cluster
+  mode: RedisMode
+  /** Sentinel mode: the monitored master, followed through failovers */
+  masterName?: string
+  /**
+   * Standalone / Sentinel: a client per logical database, so concurrent calls for different
+   * databases never share a SELECT. `client` itself only runs server-wide commands.
+   */
+  dbClients?: DbClientPool<Redis>
 }
 
 const connections = new Map<string, RedisConnectionInfo>()
 
 // Pub/Sub: separate subscriber connections (subscribing puts client in subscriber mode)
 interface PubSubInfo {
-  subscriber: Redis
+  subscriber: Redis | Cluster
   channels: Set<string>
 }
 const pubsubConnections = new Map<string, PubSubInfo>()
@@ -19,22 +40,94 @@ export const setPubSubMessageCallback = (cb: (connectionId: string, channel: str
   pubsubMessageCallback = cb
 }
 
-export const connectToRedis = async (connectionId: string, connectionString: string) => {
+// Memory analysis: a background SCAN per run that measures keys into a report
+interface RedisMemoryAnalysis {
+  connectionId: string
+  startedAt: number
+  scanned: number
+  total: number
+  report: ReturnType<typeof createMemoryReport>
+}
+const memoryAnalyses = new Map<string, RedisMemoryAnalysis>()
+type MemoryAnalysisCallback = (progress: RedisMemoryAnalysisProgress) => void
+let memoryAnalysisCallback: MemoryAnalysisCallback | null = null
+
+/** Set callback for memory analysis progress (called from main.ts) */
+export const setMemoryAnalysisProgressCallback = (cb: MemoryAnalysisCallback) => {
+  memoryAnalysisCallback = cb
+}
+
+/** The client for a connection mode; credentials, TLS and the database come from the connection string */
+const createClient = (connectionString: string, options: RedisConnectOptions): Redis | Cluster => {
+  if (options.mode === 'cluster') {
+    const url = redisUrlOptions(connectionString)
+    const nodes = options.nodes?.length ? parseHostList(options.nodes) : [{ host: url.host, port: url.port }]
+    return new Cluster(nodes, {
+      lazyConnect: true,
+      redisOptions: {
+        username: url.username,
+        password: url.password,
+        tls: url.tls ? {} : undefined,
+        connectTimeout: 5000,
+      },
+    })
+  }
+  if (options.mode === 'sentinel') {
+    if (!options.masterName?.trim()) throw new Error('Enter the name of the master the sentinels monitor')
+    const sentinels = parseHostList(options.sentinels || [], 26379)
+    if (sentinels.length === 0) throw new Error('Enter at least one sentinel address')
+    const url = redisUrlOptions(connectionString)
+    return new Redis({
+      sentinels,
+      name: options.masterName.trim(),
+      sentinelUsername: options.sentinelUsername || undefined,
+      sentinelPassword: options.sentinelPassword || undefined,
+      username: url.username,
+      password: url.password,
+      db: url.db,
+      tls: url.tls ? {} : undefined,
+      // Subscribes to the sentinels' +switch-master so a failover reconnects to the new master right away
+      failoverDetector: true,
+      connectTimeout: 5000,
+      lazyConnect: true,
+    })
+  }
+  return new Redis(connectionString, {
+    connectTimeout: 5000,
+    lazyConnect: true,
+  })
+}
+
+export const connectToRedis = async (connectionId: string, connectionString: string, options: RedisConnectOptions = { mode: 'standalone' }) => {
   try {
     if (connections.has(connectionId)) {
       await disconnectFromRedis(connectionId)
     }
 
-    const client = new Redis(connectionString, {
-      connectTimeout: 5000,
-      lazyConnect: true,
-    })
+    const client = createClient(connectionString, options)
+
+    try {
+      await client.connect()
+      // Test connection
+      await client.ping()
+    } catch (error) {
+      client.disconnect()
+      throw error
+    }
 
-    await client.connect()
-    // Test connection
-    await client.ping()
+    const dbClients = client instanceof Cluster ? undefined : createDbClientPool(async (db) => {
+      // A duplicate keeps the host (or sentinels), credentials and TLS of the connection
+      const dbClient = client.duplicate({ db, lazyConnect: true })
+      try {
+        await dbClient.connect()
+      } catch (error) {
+        dbClient.disconnect()
+        throw error
+      }
+      return dbClient
+    }, dbClient => dbClient.quit())
 
-    connections.set(connectionId, { client })
+    connections.set(connectionId, { client, mode: options.mode, masterName: options.masterName?.trim(), dbClients })
     console.log(`Connected to Redis: ${connectionId}`)
     return { success: true, connectionId }
   } catch (error: any) {
@@ -45,6 +138,10 @@ export const connectToRedis = async (connectionId: string, connectionString: str
 
 export const disconnectFromRedis = async (connectionId: string) => {
   try {
+    for (const [analysisId, run] of memoryAnalyses) {
+      if (run.connectionId === connectionId) await redisCancelMemoryAnalysis(analysisId)
+    }
+
     // Clean up pub/sub subscriber
     const psInfo = pubsubConnections.get(connectionId)
     if (psInfo) {
@@ -54,6 +151,7 @@ export const disconnectFromRedis = async (connectionId: string) => {
 
     const connection = connections.get(connectionId)
     if (connection) {
+      await connection.dbClients?.closeAll()
       await connection.client.quit()
       connections.delete(connectionId)
       console.log(`Disconnected from Redis: ${connectionId}`)
@@ -65,6 +163,25 @@ export const disconnectFromRedis = async (connectionId: string) => {
   }
 }
 
+/**
+ * The client bound to the database ("db3") a call targets. A Cluster has only database 0, and its
+ * client picks a node per command, so it is shared.
+ */
+const databaseClient = async (connection: RedisConnectionInfo, database: string): Promise<Redis | Cluster> => {
+  const dbIndex = parseDbIndex(database)
+  if (connection.client instanceof Cluster) {
+    if (dbIndex !== 0) throw new Error('Redis Cluster only has database 0')
+    return connection.client
+  }
+  return connection.dbClients!.get(dbIndex)
+}
+
+/** Every master of a Cluster, or the one server otherwise */
+const masterClients = (client: Redis | Cluster): Redis[] =>
+  client instanceof Cluster ? client.nodes('master') : [client]
+
+const nodeAddress = (node: Redis) => formatAddress({ host: node.options.host || '127.0.0.1', port: node.options.port || 6379 })
+
 export const pingRedis = async (connectionId: string) => {
   try {
     const connection = connections.get(connectionId)
@@ -82,9 +199,15 @@ export const redisListDatabases = async (connectionId: string) => {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
+    if (connection.client instanceof Cluster) {
+      const sizes = await Promise.all(masterClients(connection.client).map(node => node.dbsize()))
+      return { success: true, databases: [{ name: 'db0', keys: sizes.reduce((sum, n) => sum + n, 0) }] }
+    }
+
     // Get number of databases from config
-    const configResult = await connection.client.config('GET', 'databases')
-    const dbCount = configResult && configResult.length >= 2 ? parseInt(configResult[1]) : 16
+    // CONFIG GET replies [name, value]; the Redis | Cluster union leaves its type unknown
+    const configResult: unknown = await connection.client.config('GET', 'databases')
+    const dbCount = Array.isArray(configResult) && configResult.length >= 2 ? parseInt(String(configResult[1])) : 16
 
     // Get keyspace info to show which DBs have keys
     const info = await connection.client.info('keyspace')
@@ -109,42 +232,70 @@ export const redisListDatabases = async (connectionId: string) => {
   }
 }
 
-/** List keys matching a pattern (acts like "collections") */
-export const redisListKeys = async (connectionId: string, database: string, pattern: string = '*', count: number = 200) => {
+/** Stop a SCAN page after this long even if few keys matched, so sparse patterns stay responsive */
+const SCAN_PAGE_BUDGET_MS = 1500
+
+/**
+ * List one page of keys matching a pattern (acts like "collections").
+ * Resume from the returned `cursor` until it is `'0'`; `type` filters with `SCAN ... TYPE`.
+ */
+export const redisListKeys = async (
+  connectionId: string, database: string, pattern: string = '*', count: number = 200, cursor: string = '0', type?: string
+) => {
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    // Select the database index
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-
-    // Use SCAN to get keys
-    const keys: string[] = []
-    let cursor = '0'
-    do {
-      const [nextCursor, batch] = await connection.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
-      cursor = nextCursor
-      keys.push(...batch)
-      if (keys.length >= count) break
-    } while (cursor !== '0')
-
-    // Get types for each key (limit to avoid overload)
-    const limitedKeys = keys.slice(0, count)
-    const pipeline = connection.client.pipeline()
-    for (const key of limitedKeys) {
-      pipeline.type(key)
-    }
-    const types = await pipeline.exec()
+    const client = await databaseClient(connection, database)
+
+    // SCAN every master (a Cluster node only iterates its own slots and has its own cursor)
+    // and type the keys on the node that holds them
+    const cluster = client instanceof Cluster
+    const masters = masterClients(client)
+    const cursors = cluster ? parseClusterCursor(cursor, masters.map(nodeAddress)) : new Map([['', cursor || '0']])
+    const active = masters.filter(node => cursors.has(cluster ? nodeAddress(node) : ''))
+    const perNodeCount = Math.ceil(count / Math.max(active.length, 1))
+    const deadline = Date.now() + SCAN_PAGE_BUDGET_MS
+    const nextCursors = new Map<string, string>()
+
+    const perNode = await Promise.all(active.map(async (node) => {
+      const address = cluster ? nodeAddress(node) : ''
+      let nodeCursor = cursors.get(address) || '0'
+      const keys: string[] = []
+      do {
+        const [next, batch] = type
+          ? await node.scan(nodeCursor, 'MATCH', pattern, 'COUNT', 500, 'TYPE', type)
+          : await node.scan(nodeCursor, 'MATCH', pattern, 'COUNT', 500)
+        nodeCursor = next
+        keys.push(...batch)
+      } while (nodeCursor !== '0' && keys.length < perNodeCount && Date.now() < deadline)
+      if (nodeCursor !== '0') nextCursors.set(address, nodeCursor)
+
+      // Every key of the page is kept — dropping some would skip them when the scan resumes
+      let types: (string | undefined)[] = keys.map(() => type)
+      if (!type) {
+        const pipeline = node.pipeline()
+        for (const key of keys) {
+          pipeline.type(key)
+        }
+        types = ((await pipeline.exec()) || []).map(([, keyType]) => keyType as string)
+      }
 
-    const collections = limitedKeys.map((key, i) => ({
-      name: key,
-      type: types?.[i]?.[1] || 'unknown',
+      return keys.map((key, i) => ({
+        name: key,
+        type: types[i] || 'unknown',
+        ...(cluster ? { slot: keySlot(key), node: address } : {}),
+      }))
     }))
 
+    const collections = perNode.flat()
     collections.sort((a, b) => a.name.localeCompare(b.name))
 
-    return { success: true, collections }
+    return {
+      success: true,
+      collections,
+      cursor: cluster ? formatClusterCursor(nextCursors) : nextCursors.get('') || '0',
+    }
   } catch (error: any) {
     console.error('Redis list keys error:', error)
     return { success: false, error: error.message }
@@ -157,35 +308,34 @@ export const redisGetKeyValue = async (connectionId: string, database: string, k
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
-    const keyType = await connection.client.type(key)
-    const ttl = await connection.client.ttl(key)
+    const keyType = await client.type(key)
+    const ttl = await client.ttl(key)
     let value: any
 
     switch (keyType) {
       case 'string':
-        value = await connection.client.get(key)
+        value = await client.get(key)
         break
       case 'hash':
-        value = await connection.client.hgetall(key)
+        value = await client.hgetall(key)
         break
       case 'list': {
-        const len = await connection.client.llen(key)
-        value = await connection.client.lrange(key, 0, Math.min(len - 1, 999))
+        const len = await client.llen(key)
+        value = await client.lrange(key, 0, Math.min(len - 1, 999))
         break
       }
       case 'set':
-        value = await connection.client.smembers(key)
+        value = await client.smembers(key)
         break
       case 'zset':
-        value = await connection.client.zrange(key, 0, -1, 'WITHSCORES')
+        value = await client.zrange(key, 0, -1, 'WITHSCORES')
         break
       case 'stream': {
         // Get stream info + recent entries
-        const len = await (connection.client as any).call('XLEN', key)
-        const entries = await (connection.client as any).call('XRANGE', key, '-', '+', 'COUNT', '200')
+        const len = await (client as any).call('XLEN', key)
+        const entries = await (client as any).call('XRANGE', key, '-', '+', 'COUNT', '200')
         value = { length: len, entries: parseStreamEntries(entries) }
         break
       }
@@ -227,38 +377,37 @@ export const redisSetKey = async (
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     switch (type) {
       case 'string':
-        await connection.client.set(key, value)
+        await client.set(key, value)
         break
       case 'hash':
-        await connection.client.del(key)
+        await client.del(key)
         if (typeof value === 'object' && value !== null) {
           const entries = Object.entries(value).flat() as string[]
-          if (entries.length > 0) await connection.client.hmset(key, ...entries)
+          if (entries.length > 0) await client.hmset(key, ...entries)
         }
         break
       case 'list':
-        await connection.client.del(key)
+        await client.del(key)
         if (Array.isArray(value) && value.length > 0) {
-          await connection.client.rpush(key, ...value)
+          await client.rpush(key, ...value)
         }
         break
       case 'set':
-        await connection.client.del(key)
+        await client.del(key)
         if (Array.isArray(value) && value.length > 0) {
-          await connection.client.sadd(key, ...value)
+          await client.sadd(key, ...value)
         }
         break
       default:
-        await connection.client.set(key, typeof value === 'string' ? value : JSON.stringify(value))
+        await client.set(key, typeof value === 'string' ? value : JSON.stringify(value))
     }
 
     if (ttl && ttl > 0) {
-      await connection.client.expire(key, ttl)
+      await client.expire(key, ttl)
     }
 
     return { success: true }
@@ -274,10 +423,9 @@ export const redisDeleteKey = async (connectionId: string, database: string, key
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
-    const result = await connection.client.del(key)
+    const result = await client.del(key)
     return { success: true, deletedCount: result }
   } catch (error: any) {
     console.error('Redis delete key error:', error)
@@ -291,8 +439,7 @@ export const redisExecuteCommand = async (connectionId: string, database: string
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     // Parse command string into parts
     const parts = parseRedisCommand(command)
@@ -300,8 +447,17 @@ export const redisExecuteCommand = async (connectionId: string, database: string
 
     const cmd = parts[0].toUpperCase()
     const args = parts.slice(1)
+    // Each database has its own client; switching one would send later calls to the wrong database
+    if (cmd === 'SELECT') throw new Error('SELECT is not available here — pick the database to run commands against instead')
+
+    // A Cluster sends keyless commands to one node, so ask every master and key the results by node
+    if (client instanceof Cluster && isClusterFanoutCommand(cmd, args[0])) {
+      const nodes = masterClients(connection.client)
+      const results = await Promise.all(nodes.map(node => node.call(cmd, ...args)))
+      return { success: true, result: Object.fromEntries(nodes.map((node, i) => [nodeAddress(node), results[i]])) }
+    }
 
-    const result = await (connection.client as any).call(cmd, ...args)
+    const result = await (client as any).call(cmd, ...args)
     return { success: true, result }
   } catch (error: any) {
     console.error('Redis execute command error:', error)
@@ -342,93 +498,146 @@ function parseRedisInfo(info: string): Record<string, Record<string, string>> {
   return sections
 }
 
+/** Structured server stats from one server's INFO output */
+const serverStatsFromInfo = (info: string) => {
+  const parsed = parseRedisInfo(info)
+  const server = parsed.server || {}
+  const clients = parsed.clients || {}
+  const memory = parsed.memory || {}
+  const stats = parsed.stats || {}
+  const persistence = parsed.persistence || {}
+  const replication = parsed.replication || {}
+  const keyspace = parsed.keyspace || {}
+  const cpu = parsed.cpu || {}
+
+  // Parse keyspace info
+  const keyspaceInfo: Array<{ db: string; keys: number; expires: number; avgTtl: number }> = []
+  for (const [k, v] of Object.entries(keyspace)) {
+    const m = v.match(/keys=(\d+),expires=(\d+),avg_ttl=(\d+)/)
+    if (m) keyspaceInfo.push({ db: k, keys: +m[1], expires: +m[2], avgTtl: +m[3] })
+  }
+
+  return {
+    server: {
+      version: server.redis_version || 'N/A',
+      mode: server.redis_mode || 'standalone',
+      os: server.os || 'N/A',
+      uptimeInSeconds: +(server.uptime_in_seconds || 0),
+      tcpPort: +(server.tcp_port || 6379),
+      configFile: server.config_file || '',
+    },
+    clients: {
+      connected: +(clients.connected_clients || 0),
+      blocked: +(clients.blocked_clients || 0),
+      maxClients: +(clients.maxclients || 0),
+      trackingClients: +(clients.tracking_clients || 0),
+    },
+    memory: {
+      used: +(memory.used_memory || 0),
+      usedHuman: memory.used_memory_human || '0B',
+      usedPeak: +(memory.used_memory_peak || 0),
+      usedPeakHuman: memory.used_memory_peak_human || '0B',
+      usedRss: +(memory.used_memory_rss || 0),
+      usedRssHuman: memory.used_memory_rss_human || '0B',
+      maxMemory: +(memory.maxmemory || 0),
+      maxMemoryHuman: memory.maxmemory_human || '0B',
+      maxMemoryPolicy: memory.maxmemory_policy || 'noeviction',
+      fragRatio: +(memory.mem_fragmentation_ratio || 0),
+    },
+    stats: {
+      totalConnectionsReceived: +(stats.total_connections_received || 0),
+      totalCommandsProcessed: +(stats.total_commands_processed || 0),
+      instantaneousOpsPerSec: +(stats.instantaneous_ops_per_sec || 0),
+      totalNetInputBytes: +(stats.total_net_input_bytes || 0),
+      totalNetOutputBytes: +(stats.total_net_output_bytes || 0),
+      keyspaceHits: +(stats.keyspace_hits || 0),
+      keyspaceMisses: +(stats.keyspace_misses || 0),
+      expiredKeys: +(stats.expired_keys || 0),
+      evictedKeys: +(stats.evicted_keys || 0),
+      pubsubChannels: +(stats.pubsub_channels || 0),
+      pubsubPatterns: +(stats.pubsub_patterns || 0),
+    },
+    persistence: {
+      rdbEnabled: persistence.rdb_last_save_time !== undefined,
+      rdbLastSaveTime: +(persistence.rdb_last_save_time || 0),
+      rdbLastSaveStatus: persistence.rdb_last_bgsave_status || 'N/A',
+      rdbChangesSinceLastSave: +(persistence.rdb_changes_since_last_save || 0),
+      aofEnabled: persistence.aof_enabled === '1',
+      aofRewriteInProgress: persistence.aof_rewrite_in_progress === '1',
+      aofLastRewriteStatus: persistence.aof_last_bgrewrite_status || 'N/A',
+    },
+    replication: {
+      role: replication.role || 'master',
+      connectedSlaves: +(replication.connected_slaves || 0),
+      replOffset: +(replication.master_repl_offset || 0),
+    },
+    cpu: {
+      usedCpuSys: +(cpu.used_cpu_sys || 0),
+      usedCpuUser: +(cpu.used_cpu_user || 0),
+    },
+    keyspace: keyspaceInfo,
+  }
+}
+
 /** Get Redis server stats (structured) */
 export const redisGetServerStats = async (connectionId: string) => {
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const info = await connection.client.info()
-    const parsed = parseRedisInfo(info)
-    const server = parsed.server || {}
-    const clients = parsed.clients || {}
-    const memory = parsed.memory || {}
-    const stats = parsed.stats || {}
-    const persistence = parsed.persistence || {}
-    const replication = parsed.replication || {}
-    const keyspace = parsed.keyspace || {}
-    const cpu = parsed.cpu || {}
-
-    // Parse keyspace info
-    const keyspaceInfo: Array<{ db: string; keys: number; expires: number; avgTtl: number }> = []
-    for (const [k, v] of Object.entries(keyspace)) {
-      const m = v.match(/keys=(\d+),expires=(\d+),avg_ttl=(\d+)/)
-      if (m) keyspaceInfo.push({ db: k, keys: +m[1], expires: +m[2], avgTtl: +m[3] })
-    }
-
-    return {
-      success: true,
-      stats: {
-        server: {
-          version: server.redis_version || 'N/A',
-          mode: server.redis_mode || 'standalone',
-          os: server.os || 'N/A',
-          uptimeInSeconds: +(server.uptime_in_seconds || 0),
-          tcpPort: +(server.tcp_port || 6379),
-          configFile: server.config_file || '',
-        },
-        clients: {
-          connected: +(clients.connected_clients || 0),
-          blocked: +(clients.blocked_clients || 0),
-          maxClients: +(clients.maxclients || 0),
-          trackingClients: +(clients.tracking_clients || 0),
-        },
-        memory: {
-          used: +(memory.used_memory || 0),
-          usedHuman: memory.used_memory_human || '0B',
-          usedPeak: +(memory.used_memory_peak || 0),
-          usedPeakHuman: memory.used_memory_peak_human || '0B',
-          usedRss: +(memory.used_memory_rss || 0),
-          usedRssHuman: memory.used_memory_rss_human || '0B',
-          maxMemory: +(memory.maxmemory || 0),
-          maxMemoryHuman: memory.maxmemory_human || '0B',
-          maxMemoryPolicy: memory.maxmemory_policy || 'noeviction',
-          fragRatio: +(memory.mem_fragmentation_ratio || 0),
-        },
+    if (connection.client instanceof Cluster) {
+      // Server details come from the first master; counters and the keyspace add up over all masters
+      const nodes = masterClients(connection.client)
+      const perNode = (await Promise.all(nodes.map(node => node.info()))).map(serverStatsFromInfo)
+      const total = (pick: (n: ReturnType<typeof serverStatsFromInfo>) => number) => perNode.reduce((sum, n) => sum + pick(n), 0)
+      const [first] = perNode
+      const slots = slotsPerNode(connection.client.slots)
+      const usedMemory = total(n => n.memory.used)
+      const keys = total(n => n.keyspace.find(k => k.db === 'db0')?.keys || 0)
+      return {
+        success: true,
         stats: {
-          totalConnectionsReceived: +(stats.total_connections_received || 0),
-          totalCommandsProcessed: +(stats.total_commands_processed || 0),
-          instantaneousOpsPerSec: +(stats.instantaneous_ops_per_sec || 0),
-          totalNetInputBytes: +(stats.total_net_input_bytes || 0),
-          totalNetOutputBytes: +(stats.total_net_output_bytes || 0),
-          keyspaceHits: +(stats.keyspace_hits || 0),
-          keyspaceMisses: +(stats.keyspace_misses || 0),
-          expiredKeys: +(stats.expired_keys || 0),
-          evictedKeys: +(stats.evicted_keys || 0),
-          pubsubChannels: +(stats.pubsub_channels || 0),
-          pubsubPatterns: +(stats.pubsub_patterns || 0),
-        },
-        persistence: {
-          rdbEnabled: persistence.rdb_last_save_time !== undefined,
-          rdbLastSaveTime: +(persistence.rdb_last_save_time || 0),
-          rdbLastSaveStatus: persistence.rdb_last_bgsave_status || 'N/A',
-          rdbChangesSinceLastSave: +(persistence.rdb_changes_since_last_save || 0),
-          aofEnabled: persistence.aof_enabled === '1',
-          aofRewriteInProgress: persistence.aof_rewrite_in_progress === '1',
-          aofLastRewriteStatus: persistence.aof_last_bgrewrite_status || 'N/A',
-        },
-        replication: {
-          role: replication.role || 'master',
-          connectedSlaves: +(replication.connected_slaves || 0),
-          replOffset: +(replication.master_repl_offset || 0),
+          ...first,
+          server: { ...first.server, mode: 'cluster' },
+          clients: { ...first.clients, connected: total(n => n.clients.connected), blocked: total(n => n.clients.blocked) },
+          memory: { ...first.memory, used: usedMemory, usedHuman: formatBytes(usedMemory) },
+          stats: {
+            ...first.stats,
+            totalConnectionsReceived: total(n => n.stats.totalConnectionsReceived),
+            totalCommandsProcessed: total(n => n.stats.totalCommandsProcessed),
+            instantaneousOpsPerSec: total(n => n.stats.instantaneousOpsPerSec),
+            totalNetInputBytes: total(n => n.stats.totalNetInputBytes),
+            totalNetOutputBytes: total(n => n.stats.totalNetOutputBytes),
+            keyspaceHits: total(n => n.stats.keyspaceHits),
+            keyspaceMisses: total(n => n.stats.keyspaceMisses),
+            expiredKeys: total(n => n.stats.expiredKeys),
+            evictedKeys: total(n => n.stats.evictedKeys),
+          },
+          keyspace: keys > 0 ? [{
+            db: 'db0', keys, expires: total(n => n.keyspace.find(k => k.db === 'db0')?.expires || 0), avgTtl: 0,
+          }] : [],
+          cluster: {
+            nodes: nodes.map((node, i) => ({
+              address: nodeAddress(node),
+              slots: slots.get(`${node.options.host}:${node.options.port}`) || 0,
+              keys: perNode[i].keyspace.find(k => k.db === 'db0')?.keys || 0,
+              usedMemoryHuman: perNode[i].memory.usedHuman,
+              opsPerSec: perNode[i].stats.instantaneousOpsPerSec,
+              connectedClients: perNode[i].clients.connected,
+              connectedSlaves: perNode[i].replication.connectedSlaves,
+            })),
+          },
         },
-        cpu: {
-          usedCpuSys: +(cpu.used_cpu_sys || 0),
-          usedCpuUser: +(cpu.used_cpu_user || 0),
-        },
-        keyspace: keyspaceInfo,
-      },
+      }
+    }
+
+    const stats = serverStatsFromInfo(await connection.client.info())
+    if (connection.mode === 'sentinel') {
+      const stream = connection.client.stream
+      const master = stream?.remoteAddress ? formatAddress({ host: stream.remoteAddress, port: stream.remotePort || 6379 }) : ''
+      return { success: true, stats: { ...stats, sentinel: { masterName: connection.masterName || '', master } } }
     }
+    return { success: true, stats }
   } catch (error: any) {
     console.error('Redis get server stats error:', error)
     return { success: false, error: error.message }
@@ -487,10 +696,9 @@ export const redisMemoryUsage = async (connectionId: string, database: string, k
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
-    const bytes = await (connection.client as any).call('MEMORY', 'USAGE', key)
+    const bytes = await (client as any).call('MEMORY', 'USAGE', key)
     return { success: true, bytes: bytes || 0 }
   } catch (error: any) {
     console.error('Redis memory usage error:', error)
@@ -498,22 +706,127 @@ export const redisMemoryUsage = async (connectionId: string, database: string, k
   }
 }
 
+/** Progress events (with a partial report) are sent at most this often */
+const MEMORY_PROGRESS_INTERVAL_MS = 500
+
+/** MEMORY USAGE, length and TTL of keys on one node; the length command depends on the type, hence two pipelines */
+const measureKeys = async (node: Redis, keys: string[]): Promise<RedisKeySample[]> => {
+  const first = node.pipeline()
+  for (const key of keys) first.type(key).call('MEMORY', 'USAGE', key).pttl(key)
+  const results = (await first.exec()) || []
+  const types = keys.map((_, i) => String(results[i * 3]?.[1] ?? 'none'))
+
+  const second = node.pipeline()
+  keys.forEach((key, i) => {
+    const command = keyLengthCommand(types[i])
+    if (command) second.call(command, key)
+  })
+  const lengths = (await second.exec()) || []
+
+  let next = 0
+  return keys.flatMap((key, i) => {
+    const length = keyLengthCommand(types[i]) ? Number(lengths[next++]?.[1]) || 0 : 0
+    // Expired or deleted since SCAN returned it
+    if (types[i] === 'none') return []
+    const ttlMs = Number(results[i * 3 + 2]?.[1])
+    return [{ key, type: types[i], bytes: Number(results[i * 3 + 1]?.[1]) || 0, length, ttlMs: ttlMs >= 0 ? ttlMs : -1 }]
+  })
+}
+
+/**
+ * SCAN a database (every master of a Cluster) and measure its keys into a memory report. Returns
+ * once the scan has started; progress with the report so far arrives through the memory analysis
+ * callback, ending with a `done` event that carries the final report.
+ */
+export const redisStartMemoryAnalysis = async (
+  analysisId: string, connectionId: string, database: string, options: RedisMemoryAnalysisOptions = {}
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+    if (memoryAnalyses.has(analysisId)) return { success: true, analysisId }
+
+    const client = await databaseClient(connection, database)
+    const nodes = masterClients(client)
+    const total = (await Promise.all(nodes.map(node => node.dbsize()))).reduce((sum, n) => sum + n, 0)
+    const run: RedisMemoryAnalysis = { connectionId, startedAt: Date.now(), scanned: 0, total, report: createMemoryReport(options) }
+    memoryAnalyses.set(analysisId, run)
+
+    const sampleRate = options.sampleRate ?? 1
+    const maxKeys = options.maxKeys || Infinity
+    let lastProgress = 0
+    const report = (event: Partial<RedisMemoryAnalysisProgress> = {}) => {
+      const built = run.report.build(run.scanned)
+      memoryAnalysisCallback?.({
+        analysisId, scanned: run.scanned, sampled: built.sampledKeys, total, elapsedMs: Date.now() - run.startedAt, report: built, ...event,
+      })
+    }
+
+    const analyze = async () => {
+      let failure: Partial<RedisMemoryAnalysisProgress> = {}
+      try {
+        for (const node of nodes) {
+          let cursor = '0'
+          do {
+            const [next, keys] = await node.scan(cursor, 'MATCH', options.pattern || '*', 'COUNT', 500)
+            cursor = next
+            if (!memoryAnalyses.has(analysisId)) return
+            const batch = keys.slice(0, maxKeys - run.scanned)
+            run.scanned += batch.length
+            const measured = sampleRate >= 1 ? batch : batch.filter(() => Math.random() < sampleRate)
+            if (measured.length) (await measureKeys(node, measured)).forEach(run.report.add)
+            if (!memoryAnalyses.has(analysisId)) return
+            if (Date.now() - lastProgress >= MEMORY_PROGRESS_INTERVAL_MS) {
+              lastProgress = Date.now()
+              report()
+            }
+          } while (cursor !== '0' && run.scanned < maxKeys)
+          if (run.scanned >= maxKeys) break
+        }
+      } catch (error: any) {
+        failure = { error: error.message }
+      }
+      if (!memoryAnalyses.has(analysisId)) return
+      memoryAnalyses.delete(analysisId)
+      report({ done: true, ...failure })
+    }
+    analyze()
+    return { success: true, analysisId, total }
+  } catch (error: any) {
+    memoryAnalyses.delete(analysisId)
+    console.error('Redis memory analysis error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** Stop a memory analysis; its last event keeps the report of the keys measured so far */
+export const redisCancelMemoryAnalysis = async (analysisId: string) => {
+  const run = memoryAnalyses.get(analysisId)
+  if (!run) return { success: true }
+  memoryAnalyses.delete(analysisId)
+  const built = run.report.build(run.scanned)
+  memoryAnalysisCallback?.({
+    analysisId, scanned: run.scanned, sampled: built.sampledKeys, total: run.total, elapsedMs: Date.now() - run.startedAt,
+    done: true, cancelled: true, report: built,
+  })
+  return { success: true }
+}
+
 /** Bulk delete keys by pattern */
 export const redisBulkDelete = async (connectionId: string, database: string, pattern: string) => {
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     let deleted = 0
     let cursor = '0'
     do {
-      const [nextCursor, keys] = await connection.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
+      const [nextCursor, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
       cursor = nextCursor
       if (keys.length > 0) {
-        deleted += await connection.client.del(...keys)
+        deleted += await client.del(...keys)
       }
     } while (cursor !== '0')
 
@@ -530,15 +843,14 @@ export const redisBulkTTL = async (connectionId: string, database: string, patte
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     let updated = 0
     let cursor = '0'
     do {
-      const [nextCursor, keys] = await connection.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
+      const [nextCursor, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 100)
       cursor = nextCursor
-      const pipeline = connection.client.pipeline()
+      const pipeline = client.pipeline()
       for (const key of keys) {
         if (ttl > 0) pipeline.expire(key, ttl)
         else pipeline.persist(key)
@@ -560,14 +872,13 @@ export const redisAddItem = async (connectionId: string, database: string, key:
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     switch (keyType) {
-      case 'hash': await connection.client.hset(key, field, value); break
-      case 'list': await connection.client.rpush(key, value); break
-      case 'set': await connection.client.sadd(key, value); break
-      case 'zset': await connection.client.zadd(key, score ?? 0, value); break
+      case 'hash': await client.hset(key, field, value); break
+      case 'list': await client.rpush(key, value); break
+      case 'set': await client.sadd(key, value); break
+      case 'zset': await client.zadd(key, score ?? 0, value); break
       default: throw new Error(`Cannot add item to type: ${keyType}`)
     }
 
@@ -583,18 +894,17 @@ export const redisRemoveItem = async (connectionId: string, database: string, ke
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     switch (keyType) {
-      case 'hash': await connection.client.hdel(key, field); break
+      case 'hash': await client.hdel(key, field); break
       case 'list': {
         // Remove by value (first occurrence)
-        await connection.client.lrem(key, 1, field)
+        await client.lrem(key, 1, field)
         break
       }
-      case 'set': await connection.client.srem(key, field); break
-      case 'zset': await connection.client.zrem(key, field); break
+      case 'set': await client.srem(key, field); break
+      case 'zset': await client.zrem(key, field); break
       default: throw new Error(`Cannot remove item from type: ${keyType}`)
     }
 
@@ -611,9 +921,8 @@ export const redisFlushDatabase = async (connectionId: string, database: string)
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    await connection.client.flushdb()
+    const client = await databaseClient(connection, database)
+    await client.flushdb()
     return { success: true }
   } catch (error: any) {
     console.error('Redis flush database error:', error)
@@ -627,9 +936,8 @@ export const redisRenameKey = async (connectionId: string, database: string, old
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
 
-    const dbIndex = parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    await connection.client.rename(oldKey, newKey)
+    const client = await databaseClient(connection, database)
+    await client.rename(oldKey, newKey)
     return { success: true }
   } catch (error: any) {
     console.error('Redis rename key error:', error)
@@ -637,6 +945,132 @@ export const redisRenameKey = async (connectionId: string, database: string, old
   }
 }
 
+/* ── Lua scripts & functions ──────────── */
+
+/** EVAL a script, or EVALSHA one already in the script cache */
+export const redisEvalScript = async (
+  connectionId: string, database: string, mode: 'eval' | 'evalsha', scriptOrSha: string, keys: string[], args: string[]
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const client = await databaseClient(connection, database)
+    const startedAt = Date.now()
+    const result = await client.call(mode === 'eval' ? 'EVAL' : 'EVALSHA', scriptOrSha, String(keys.length), ...keys, ...args)
+    return { success: true, result, durationMs: Date.now() - startedAt }
+  } catch (error: any) {
+    console.error('Redis eval script error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** FCALL (or FCALL_RO, which replicas accept) a function of a loaded library */
+export const redisCallFunction = async (
+  connectionId: string, database: string, name: string, keys: string[], args: string[], readOnly = false
+) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const client = await databaseClient(connection, database)
+    const startedAt = Date.now()
+    const result = await client.call(readOnly ? 'FCALL_RO' : 'FCALL', name, String(keys.length), ...keys, ...args)
+    return { success: true, result, durationMs: Date.now() - startedAt }
+  } catch (error: any) {
+    console.error('Redis call function error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+// The script cache and function libraries are per server, so a Cluster needs them on every master
+
+/** SCRIPT LOAD, returning the SHA1 to EVALSHA */
+export const redisScriptLoad = async (connectionId: string, script: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const shas = await Promise.all(masterClients(connection.client).map(node => node.call('SCRIPT', 'LOAD', script)))
+    return { success: true, sha: String(shas[0]) }
+  } catch (error: any) {
+    console.error('Redis script load error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** SCRIPT EXISTS — in a Cluster a script only counts as cached when every master has it */
+export const redisScriptExists = async (connectionId: string, shas: string[]) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const perNode = await Promise.all(masterClients(connection.client).map(node => node.call('SCRIPT', 'EXISTS', ...shas) as Promise<number[]>))
+    return { success: true, exists: shas.map((_, i) => perNode.every(flags => flags[i] === 1)) }
+  } catch (error: any) {
+    console.error('Redis script exists error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** SCRIPT FLUSH — empties the script cache */
+export const redisScriptFlush = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    await Promise.all(masterClients(connection.client).map(node => node.call('SCRIPT', 'FLUSH')))
+    return { success: true }
+  } catch (error: any) {
+    console.error('Redis script flush error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** FUNCTION LOAD a library (Redis 7+), returning its name */
+export const redisFunctionLoad = async (connectionId: string, code: string, replace = false) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const library = functionLibraryName(code)
+    const args = replace ? ['LOAD', 'REPLACE', code] : ['LOAD', code]
+    await Promise.all(masterClients(connection.client).map(node => node.call('FUNCTION', ...args)))
+    return { success: true, library }
+  } catch (error: any) {
+    console.error('Redis function load error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** FUNCTION LIST WITHCODE — the libraries and their functions */
+export const redisFunctionList = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    const reply = await masterClients(connection.client)[0].call('FUNCTION', 'LIST', 'WITHCODE')
+    return { success: true, libraries: parseFunctionList(reply) }
+  } catch (error: any) {
+    console.error('Redis function list error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
+/** FUNCTION DELETE a library with all its functions */
+export const redisFunctionDelete = async (connectionId: string, library: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) throw new Error('Not connected')
+
+    await Promise.all(masterClients(connection.client).map(node => node.call('FUNCTION', 'DELETE', library)))
+    return { success: true }
+  } catch (error: any) {
+    console.error('Redis function delete error:', error)
+    return { success: false, error: error.message }
+  }
+}
+
 /* ── Pub/Sub ──────────── */
 
 /** Get the subscriber connection, creating one if needed */
@@ -773,11 +1207,10 @@ export const redisStreamAdd = async (connectionId: string, database: string, key
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
     const args: string[] = [key, id]
     for (const [k, v] of Object.entries(fields)) { args.push(k, v) }
-    const entryId = await (connection.client as any).call('XADD', ...args)
+    const entryId = await (client as any).call('XADD', ...args)
     return { success: true, entryId }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -789,9 +1222,8 @@ export const redisStreamRange = async (connectionId: string, database: string, k
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const raw = await (connection.client as any).call('XRANGE', key, start, end, 'COUNT', String(count))
+    const client = await databaseClient(connection, database)
+    const raw = await (client as any).call('XRANGE', key, start, end, 'COUNT', String(count))
     return { success: true, entries: parseStreamEntries(raw) }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -803,9 +1235,8 @@ export const redisStreamLen = async (connectionId: string, database: string, key
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const len = await (connection.client as any).call('XLEN', key)
+    const client = await databaseClient(connection, database)
+    const len = await (client as any).call('XLEN', key)
     return { success: true, length: len }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -817,9 +1248,8 @@ export const redisStreamDel = async (connectionId: string, database: string, key
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const deleted = await (connection.client as any).call('XDEL', key, ...ids)
+    const client = await databaseClient(connection, database)
+    const deleted = await (client as any).call('XDEL', key, ...ids)
     return { success: true, deleted }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -831,9 +1261,8 @@ export const redisStreamTrim = async (connectionId: string, database: string, ke
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const trimmed = await (connection.client as any).call('XTRIM', key, 'MAXLEN', String(maxLen))
+    const client = await databaseClient(connection, database)
+    const trimmed = await (client as any).call('XTRIM', key, 'MAXLEN', String(maxLen))
     return { success: true, trimmed }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -845,9 +1274,8 @@ export const redisStreamInfo = async (connectionId: string, database: string, ke
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const raw = await (connection.client as any).call('XINFO', 'STREAM', key)
+    const client = await databaseClient(connection, database)
+    const raw = await (client as any).call('XINFO', 'STREAM', key)
     // Parse flat array into object
     const info: Record<string, any> = {}
     for (let i = 0; i < raw.length; i += 2) {
@@ -866,9 +1294,8 @@ export const redisGetKeyEncoding = async (connectionId: string, database: string
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
-    const encoding = await (connection.client as any).call('OBJECT', 'ENCODING', key)
+    const client = await databaseClient(connection, database)
+    const encoding = await (client as any).call('OBJECT', 'ENCODING', key)
     return { success: true, encoding }
   } catch (error: any) {
     return { success: false, error: error.message }
@@ -882,12 +1309,11 @@ export const redisSetKeyTTL = async (connectionId: string, database: string, key
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
     if (ttl > 0) {
-      await connection.client.expire(key, ttl)
+      await client.expire(key, ttl)
     } else {
-      await connection.client.persist(key)
+      await client.persist(key)
     }
     return { success: true }
   } catch (error: any) {
@@ -902,26 +1328,25 @@ export const redisCopyKey = async (connectionId: string, database: string, sourc
   try {
     const connection = connections.get(connectionId)
     if (!connection) throw new Error('Not connected')
-    const dbIndex = Number.parseInt(database.replace('db', '')) || 0
-    await connection.client.select(dbIndex)
+    const client = await databaseClient(connection, database)
 
     // Check if dest key already exists
-    const exists = await connection.client.exists(destKey)
+    const exists = await client.exists(destKey)
     if (exists) throw new Error(`Key "${destKey}" already exists`)
 
     // Try COPY command first (Redis 6.2+)
     try {
-      await (connection.client as any).call('COPY', sourceKey, destKey)
+      await (client as any).call('COPY', sourceKey, destKey)
       // Copy TTL
-      const ttl = await connection.client.pttl(sourceKey)
-      if (ttl > 0) await connection.client.pexpire(destKey, ttl)
+      const ttl = await client.pttl(sourceKey)
+      if (ttl > 0) await client.pexpire(destKey, ttl)
       return { success: true }
     } catch {
       // Fallback: DUMP/RESTORE for older Redis
-      const dump = await connection.client.dump(sourceKey)
+      const dump = await client.dump(sourceKey)
       if (!dump) throw new Error('Key not found or empty')
-      const ttl = await connection.client.pttl(sourceKey)
-      await (connection.client as any).call('RESTORE', destKey, ttl > 0 ? String(ttl) : '0', dump)
+      const ttl = await client.pttl(sourceKey)
+      await (client as any).call('RESTORE', destKey, ttl > 0 ? String(ttl) : '0', dump)
       return { success: true }
     }
   } catch (error: any) {
@@ -0,0 +1,539 @@
+import Database from 'better-sqlite3'
+import fs from 'fs'
+
+interface SQLiteConnectionInfo {
+  db: Database.Database
+  filePath: string
+}
+
+const connections = new Map<string, SQLiteConnectionInfo>()
+
+/** Quote a SQLite identifier with double quotes (escaping embedded quotes) */
+const quoteId = (name: string) => `"${String(name).replace(/"/g, '""')}"`
+
+/** Schema-qualified "schema"."table" reference (schema = main / temp / attached name) */
+const qualify = (database: string, table: string) => `${quoteId(database || 'main')}.${quoteId(table)}`
+
+/** better-sqlite3 only binds numbers, strings, bigints, buffers and null */
+const toParam = (value: any) => {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.toISOString()
+  if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) return JSON.stringify(value)
+  return value === undefined ? null : value
+}
+
+const getConnection = (connectionId: string) => {
+  const connection = connections.get(connectionId)
+  if (!connection) throw new Error('Not connected')
+  return connection
+}
+
+export const connectToSQLite = async (connectionId: string, filePath: string) => {
+  let db: Database.Database | null = null
+  try {
+    // Close existing connection if any
+    if (connections.has(connectionId)) {
+      await disconnectFromSQLite(connectionId)
+    }
+
+    // fileMustExist: a typo in the path should fail instead of silently creating an empty database
+    db = new Database(filePath, { fileMustExist: true })
+
+    // Test connection (also fails fast on files that are not SQLite databases)
+    db.prepare('SELECT count(*) FROM sqlite_master').get()
+
+    connections.set(connectionId, { db, filePath })
+
+    return { success: true, connectionId }
+  } catch (error: any) {
+    console.error('SQLite connection error:', error.message)
+    if (db) {
+      try { db.close() } catch { /* ignore cleanup errors */ }
+    }
+    return { success: false, error: error.message }
+  }
+}
+
+export const disconnectFromSQLite = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (connection) {
+      connection.db.close()
+      connections.delete(connectionId)
+    }
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite disconnect error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const pingSQLite = async (connectionId: string) => {
+  try {
+    const connection = connections.get(connectionId)
+    if (!connection) return { success: false, error: 'Not connected' }
+    connection.db.prepare('SELECT 1').get()
+    return { success: true }
+  } catch (error: any) {
+    return { success: false, error: error.message }
+  }
+}
+
+/** Lists the main database plus any ATTACHed ones */
+export const sqliteListDatabases = async (connectionId: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const rows = connection.db.prepare('SELECT name FROM pragma_database_list ORDER BY seq').all()
+    return { success: true, databases: rows }
+  } catch (error: any) {
+    console.error('SQLite list databases error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteListTables = async (connectionId: string, database: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const rows = connection.db.prepare(
+      `SELECT name, type FROM ${quoteId(database || 'main')}.sqlite_master
+       WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`
+    ).all()
+    return { success: true, collections: rows }
+  } catch (error: any) {
+    console.error('SQLite list tables error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteExecuteQuery = async (
+  connectionId: string,
+  _database: string,
+  _table: string,
+  query: string,
+  _options: any = {}
+) => {
+  try {
+    const connection = getConnection(connectionId)
+    const stmt = connection.db.prepare(query)
+
+    if (!stmt.reader) {
+      // INSERT / UPDATE / DELETE / DDL → surface the run info as a single row
+      const info = stmt.run()
+      const summary = { changes: info.changes, lastInsertRowid: Number(info.lastInsertRowid) }
+      return { success: true, documents: [summary], totalCount: info.changes, returnedCount: 1 }
+    }
+
+    const rows = stmt.all() as any[]
+    return {
+      success: true,
+      documents: rows,
+      totalCount: rows.length,
+      returnedCount: rows.length,
+      fields: stmt.columns().map(c => ({ name: c.name, type: c.type })),
+    }
+  } catch (error: any) {
+    console.error('SQLite execute query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteFindQuery = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any = {},
+  options: any = {}
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const limit = Number(options.limit) || 100
+    const skip = Number(options.skip) || 0
+    const sort = options.sort || {}
+
+    // Build WHERE clause from filter
+    const { whereClause, values } = buildWhereClause(filter)
+
+    // Build ORDER BY
+    let orderBy = ''
+    const sortKeys = Object.keys(sort)
+    if (sortKeys.length > 0) {
+      const sortParts = sortKeys.map(k => `${quoteId(k)} ${sort[k] === -1 ? 'DESC' : 'ASC'}`)
+      orderBy = `ORDER BY ${sortParts.join(', ')}`
+    }
+
+    const target = qualify(database, table)
+
+    // Count total
+    const countRow = connection.db.prepare(`SELECT COUNT(*) AS total FROM ${target} ${whereClause}`).get(...values) as any
+    const totalCount = Number(countRow?.total || 0)
+
+    // Fetch rows
+    const rows = connection.db.prepare(`SELECT * FROM ${target} ${whereClause} ${orderBy} LIMIT ? OFFSET ?`).all(...values, limit, skip)
+
+    return {
+      success: true,
+      documents: rows,
+      totalCount,
+      returnedCount: rows.length,
+    }
+  } catch (error: any) {
+    console.error('SQLite find query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteInsertDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  document: any
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const keys = Object.keys(document)
+    const values = Object.values(document).map(toParam)
+
+    const query = keys.length > 0
+      ? `INSERT INTO ${qualify(database, table)} (${keys.map(quoteId).join(', ')}) VALUES (${keys.map(() => '?').join(', ')}) RETURNING *`
+      : `INSERT INTO ${qualify(database, table)} DEFAULT VALUES RETURNING *`
+    const row = connection.db.prepare(query).get(...values) as any
+
+    return { success: true, insertedId: row?.id, document: row }
+  } catch (error: any) {
+    console.error('SQLite insert error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteUpdateDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any,
+  update: any
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const { whereClause, values: whereValues } = buildWhereClause(filter)
+    const updateKeys = Object.keys(update).filter(k => !(k in filter))
+    if (updateKeys.length === 0) return { success: true, modifiedCount: 0 }
+
+    const setParts = updateKeys.map(k => `${quoteId(k)} = ?`)
+    const updateValues = updateKeys.map(k => toParam(update[k]))
+
+    const query = `UPDATE ${qualify(database, table)} SET ${setParts.join(', ')} ${whereClause}`
+    const info = connection.db.prepare(query).run(...updateValues, ...whereValues)
+
+    return { success: true, modifiedCount: info.changes }
+  } catch (error: any) {
+    console.error('SQLite update error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteDeleteDocument = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const { whereClause, values } = buildWhereClause(filter)
+    const info = connection.db.prepare(`DELETE FROM ${qualify(database, table)} ${whereClause}`).run(...values)
+
+    return { success: true, deletedCount: info.changes }
+  } catch (error: any) {
+    console.error('SQLite delete error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteUpdateMany = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any,
+  update: any
+) => {
+  const result = await sqliteUpdateDocument(connectionId, database, table, filter, update)
+  if (!result.success) return result
+  return { success: true, matchedCount: result.modifiedCount, modifiedCount: result.modifiedCount }
+}
+
+export const sqliteDeleteMany = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  return sqliteDeleteDocument(connectionId, database, table, filter)
+}
+
+export const sqliteCountRows = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  filter: any
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const { whereClause, values } = buildWhereClause(filter)
+    const row = connection.db.prepare(`SELECT COUNT(*) AS count FROM ${qualify(database, table)} ${whereClause}`).get(...values) as any
+
+    return { success: true, count: Number(row?.count || 0) }
+  } catch (error: any) {
+    console.error('SQLite count rows error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteGetTableSchema = async (
+  connectionId: string,
+  database: string,
+  table: string
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const rows = connection.db.prepare('SELECT * FROM pragma_table_info(?, ?) ORDER BY cid').all(table, database || 'main') as any[]
+    const pkCount = rows.filter(r => r.pk > 0).length
+
+    // Map PRAGMA table_info onto the information_schema shape the other SQL drivers return
+    const columns = rows.map(r => ({
+      column_name: r.name,
+      data_type: r.type || 'ANY',
+      is_nullable: r.notnull ? 'NO' : 'YES',
+      column_default: r.dflt_value,
+      character_maximum_length: null,
+      numeric_precision: null,
+      numeric_scale: null,
+      primary_key: r.pk > 0,
+      // A lone INTEGER PRIMARY KEY aliases the rowid and is assigned automatically
+      extra: pkCount === 1 && r.pk === 1 && String(r.type).toUpperCase() === 'INTEGER' ? 'auto_increment' : '',
+    }))
+
+    return { success: true, columns }
+  } catch (error: any) {
+    console.error('SQLite get table schema error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteAggregate = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  query: string
+) => {
+  const result = await sqliteExecuteQuery(connectionId, database, table, query)
+  if (!result.success) return { success: false, error: result.error }
+  return { success: true, documents: result.documents }
+}
+
+/* ── Table Management ─────────────────────────────────── */
+
+export const sqliteCreateTable = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  columns: Array<{ name: string; type: string; nullable?: boolean; defaultValue?: string; primaryKey?: boolean }>
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const colDefs = columns.map(col => {
+      let def = `${quoteId(col.name)} ${col.type}`
+      if (col.primaryKey) def += ' PRIMARY KEY'
+      if (col.nullable === false) def += ' NOT NULL'
+      if (col.defaultValue) def += ` DEFAULT ${col.defaultValue}`
+      return def
+    })
+
+    connection.db.exec(`CREATE TABLE ${qualify(database, table)} (${colDefs.join(', ')})`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite create table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteDropTable = async (connectionId: string, database: string, table: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    connection.db.exec(`DROP TABLE IF EXISTS ${qualify(database, table)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite drop table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteRenameTable = async (connectionId: string, database: string, oldName: string, newName: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    connection.db.exec(`ALTER TABLE ${qualify(database, oldName)} RENAME TO ${quoteId(newName)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite rename table error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Index Management ─────────────────────────────────── */
+
+export const sqliteListIndexes = async (connectionId: string, database: string, table: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const schema = database || 'main'
+
+    const list = connection.db.prepare('SELECT * FROM pragma_index_list(?, ?)').all(table, schema) as any[]
+    const sqlByName = new Map<string, string | null>()
+    const master = connection.db.prepare(`SELECT name, sql FROM ${quoteId(schema)}.sqlite_master WHERE type = 'index' AND tbl_name = ?`).all(table) as any[]
+    master.forEach(m => sqlByName.set(m.name, m.sql))
+
+    const indexes = list.map(ix => {
+      const cols = (connection.db.prepare('SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno').all(ix.name, schema) as any[]).map(c => c.name)
+      // Indexes created implicitly for PRIMARY KEY / UNIQUE constraints have no CREATE INDEX statement
+      const origin = ix.origin === 'pk' ? 'PRIMARY KEY' : ix.origin === 'u' ? 'UNIQUE constraint' : ''
+      return {
+        name: ix.name,
+        unique: ix.unique === 1,
+        partial: ix.partial === 1,
+        definition: sqlByName.get(ix.name) || `${origin} (${cols.map(quoteId).join(', ')})`,
+      }
+    })
+    return { success: true, indexes }
+  } catch (error: any) {
+    console.error('SQLite list indexes error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteCreateIndex = async (
+  connectionId: string,
+  database: string,
+  table: string,
+  indexName: string,
+  columns: string[],
+  options?: { unique?: boolean }
+) => {
+  try {
+    const connection = getConnection(connectionId)
+
+    const unique = options?.unique ? 'UNIQUE ' : ''
+    const cols = columns.map(quoteId).join(', ')
+
+    // SQLite puts the schema on the index name; the table must live in that same schema
+    connection.db.exec(`CREATE ${unique}INDEX ${qualify(database, indexName)} ON ${quoteId(table)} (${cols})`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite create index error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+export const sqliteDropIndex = async (connectionId: string, database: string, indexName: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    connection.db.exec(`DROP INDEX IF EXISTS ${qualify(database, indexName)}`)
+    return { success: true }
+  } catch (error: any) {
+    console.error('SQLite drop index error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Explain & PRAGMA Info ────────────────────────────── */
+
+export const sqliteExplainQuery = async (
+  connectionId: string,
+  _database: string,
+  _table: string,
+  query: string
+) => {
+  try {
+    const connection = getConnection(connectionId)
+    // Rows of { id, parent, notused, detail } — the tree is rebuilt from id/parent in the renderer
+    const rows = connection.db.prepare(`EXPLAIN QUERY PLAN ${query}`).all()
+    return { success: true, explain: rows }
+  } catch (error: any) {
+    console.error('SQLite explain query error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+const PRAGMA_KEYS = [
+  'journal_mode', 'synchronous', 'foreign_keys', 'auto_vacuum', 'encoding',
+  'page_size', 'page_count', 'freelist_count', 'cache_size', 'user_version', 'application_id',
+]
+
+/** File-level info and PRAGMA settings; SQLite has no server, so this backs the Monitoring page */
+export const sqliteGetServerStats = async (connectionId: string) => {
+  try {
+    const connection = getConnection(connectionId)
+    const { db, filePath } = connection
+
+    const pragmas: Record<string, any> = {}
+    for (const key of PRAGMA_KEYS) {
+      pragmas[key] = db.pragma(key, { simple: true })
+    }
+
+    const counts = db.prepare(
+      `SELECT type, COUNT(*) AS count FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' GROUP BY type`
+    ).all() as any[]
+    const objects: Record<string, number> = {}
+    counts.forEach(r => { objects[r.type] = r.count })
+
+    let fileSize = 0
+    try { fileSize = fs.statSync(filePath).size } catch { /* in-memory or removed file */ }
+
+    return {
+      success: true,
+      stats: {
+        version: (db.prepare('SELECT sqlite_version() AS v').get() as any)?.v,
+        filePath,
+        fileSize,
+        readonly: db.readonly,
+        objects,
+        pragmas,
+      },
+    }
+  } catch (error: any) {
+    console.error('SQLite stats error:', error.message)
+    return { success: false, error: error.message }
+  }
+}
+
+/* ── Helper: build WHERE clause from filter object ──────────── */
+
+function buildWhereClause(filter: any): { whereClause: string; values: any[] } {
+  const keys = Object.keys(filter || {})
+  if (keys.length === 0) return { whereClause: '', values: [] }
+
+  const conditions: string[] = []
+  const values: any[] = []
+
+  keys.forEach((key) => {
+    if (filter[key] === null) {
+      conditions.push(`${quoteId(key)} IS NULL`)
+    } else {
+      conditions.push(`${quoteId(key)} = ?`)
+      values.push(toParam(filter[key]))
+    }
+  })
+
+  return { whereClause: `WHERE ${conditions.join(' AND ')}`, values }
+}
+
+/** Close all SQLite files (used on app quit) */
+export const disconnectAll = async () => {
+  const tasks = Array.from(connections.keys()).map((id) => disconnectFromSQLite(id).catch(() => {}))
+  await Promise.allSettled(tasks)
+}
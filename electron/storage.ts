@@ -1,7 +1,7 @@
 import Database from 'better-sqlite3'
 import path from 'path'
 import { app, safeStorage } from 'electron'
-import type { DatabaseConnection, SavedQuery } from '../src/types'
+import type { DatabaseConnection, RedisScript, SavedQuery } from '../src/types'
 
 let db: Database.Database | null = null
 
@@ -75,6 +75,17 @@ export const initStorage = () => {
       updatedAt TEXT
     );
 
+    CREATE TABLE IF NOT EXISTS redis_scripts (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'script',
+      body TEXT NOT NULL,
+      keys TEXT,
+      args TEXT,
+      createdAt TEXT,
+      updatedAt TEXT
+    );
+
     CREATE TABLE IF NOT EXISTS app_settings (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL
@@ -112,6 +123,26 @@ export const initStorage = () => {
       db.exec("ALTER TABLE connections ADD COLUMN kafkaSSL INTEGER")
       console.log('Migration: added kafkaSSL column to connections')
     }
+    if (!columns.includes('kafkaSchemaRegistry')) {
+      db.exec("ALTER TABLE connections ADD COLUMN kafkaSchemaRegistry TEXT")
+      console.log('Migration: added kafkaSchemaRegistry column to connections')
+    }
+    if (!columns.includes('kafkaTLS')) {
+      db.exec("ALTER TABLE connections ADD COLUMN kafkaTLS TEXT")
+      console.log('Migration: added kafkaTLS column to connections')
+    }
+    if (!columns.includes('kafkaOAuth')) {
+      db.exec("ALTER TABLE connections ADD COLUMN kafkaOAuth TEXT")
+      console.log('Migration: added kafkaOAuth column to connections')
+    }
+    if (!columns.includes('redisOptions')) {
+      db.exec("ALTER TABLE connections ADD COLUMN redisOptions TEXT")
+      console.log('Migration: added redisOptions column to connections')
+    }
+    if (!columns.includes('mssqlTrustServerCertificate')) {
+      db.exec("ALTER TABLE connections ADD COLUMN mssqlTrustServerCertificate INTEGER")
+      console.log('Migration: added mssqlTrustServerCertificate column to connections')
+    }
   } catch (e) {
     console.warn('Migration check failed:', e)
   }
@@ -232,8 +263,8 @@ export const saveConnection = (connection: DatabaseConnection) => {
   const db = getStorage()
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO connections
-    (id, name, type, host, port, username, password, authDatabase, database, connectionString, sshTunnel, kafkaSASL, kafkaSSL, createdAt, updatedAt)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, name, type, host, port, username, password, authDatabase, database, connectionString, sshTunnel, kafkaSASL, kafkaSSL, kafkaSchemaRegistry, kafkaTLS, kafkaOAuth, redisOptions, mssqlTrustServerCertificate, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `)
 
   // Convert Date to ISO string for SQLite
@@ -256,6 +287,22 @@ export const saveConnection = (connection: DatabaseConnection) => {
   // Encrypt Kafka SASL config (contains credentials)
   const encKafkaSASL = (connection as any).kafkaSASL ? encryptString((connection as any).kafkaSASL) : null
 
+  // Schema Registry config as encrypted JSON (may contain credentials)
+  const encSchemaRegistry = connection.kafkaSchemaRegistry?.url
+    ? encryptString(JSON.stringify(connection.kafkaSchemaRegistry))
+    : null
+
+  // TLS file paths with the key passphrase, and the OAuth client secret, as encrypted JSON
+  const encKafkaTLS = connection.kafkaTLS ? encryptString(JSON.stringify(connection.kafkaTLS)) : null
+  const encKafkaOAuth = connection.kafkaOAuth?.tokenEndpoint
+    ? encryptString(JSON.stringify(connection.kafkaOAuth))
+    : null
+
+  // Cluster / Sentinel topology as encrypted JSON (may contain the sentinel password)
+  const encRedisOptions = connection.redisOptions && connection.redisOptions.mode !== 'standalone'
+    ? encryptString(JSON.stringify(connection.redisOptions))
+    : null
+
   stmt.run(
     connection.id,
     connection.name,
@@ -270,6 +317,11 @@ export const saveConnection = (connection: DatabaseConnection) => {
     encSshTunnel,
     encKafkaSASL,
     (connection as any).kafkaSSL ? 1 : 0,
+    encSchemaRegistry,
+    encKafkaTLS,
+    encKafkaOAuth,
+    encRedisOptions,
+    connection.mssqlTrustServerCertificate ? 1 : 0,
     createdAt,
     updatedAt
   )
@@ -285,6 +337,10 @@ export const getConnections = (): DatabaseConnection[] => {
   // Decrypt ALL sensitive fields and parse JSON fields after reading
   return rows.map((row) => {
     const decSshTunnel = row.sshTunnel ? decryptString(row.sshTunnel) : null
+    const decSchemaRegistry = row.kafkaSchemaRegistry ? decryptString(row.kafkaSchemaRegistry) : null
+    const decKafkaTLS = row.kafkaTLS ? decryptString(row.kafkaTLS) : null
+    const decKafkaOAuth = row.kafkaOAuth ? decryptString(row.kafkaOAuth) : null
+    const decRedisOptions = row.redisOptions ? decryptString(row.redisOptions) : null
     return {
       ...row,
       username: row.username ? decryptString(row.username) : row.username,
@@ -293,6 +349,11 @@ export const getConnections = (): DatabaseConnection[] => {
       sshTunnel: decSshTunnel ? JSON.parse(decSshTunnel) : undefined,
       kafkaSSL: row.kafkaSSL === 1,
       kafkaSASL: row.kafkaSASL ? decryptString(row.kafkaSASL) : undefined,
+      kafkaSchemaRegistry: decSchemaRegistry ? JSON.parse(decSchemaRegistry) : undefined,
+      kafkaTLS: decKafkaTLS ? JSON.parse(decKafkaTLS) : undefined,
+      kafkaOAuth: decKafkaOAuth ? JSON.parse(decKafkaOAuth) : undefined,
+      redisOptions: decRedisOptions ? JSON.parse(decRedisOptions) : undefined,
+      mssqlTrustServerCertificate: row.mssqlTrustServerCertificate === 1,
     }
   })
 }
@@ -471,6 +532,27 @@ export const seedBuiltInTemplates = () => {
   console.log(`[Storage] Seeded ${templates.length} built-in query templates`)
 }
 
+// ── Redis Lua Scripts ────────────────────────────────────────
+export const getRedisScripts = (): RedisScript[] => {
+  const db = getStorage()
+  return db.prepare('SELECT * FROM redis_scripts ORDER BY name ASC').all() as RedisScript[]
+}
+
+export const saveRedisScript = (s: RedisScript) => {
+  const db = getStorage()
+  const now = new Date().toISOString()
+  db.prepare(`
+    INSERT OR REPLACE INTO redis_scripts
+    (id, name, kind, body, keys, args, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(s.id, s.name, s.kind || 'script', s.body, s.keys || null, s.args || null, s.createdAt || now, now)
+  return { ...s, createdAt: s.createdAt || now, updatedAt: now }
+}
+
+export const deleteRedisScript = (id: string) => {
+  const db = getStorage()
+  db.prepare('DELETE FROM redis_scripts WHERE id = ?').run(id)
+}
 
 // ── AI Models (encrypted API keys) ──────────────────────────
 export interface AIModelRecord {
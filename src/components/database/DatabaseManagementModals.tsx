@@ -1,5 +1,6 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { X, AlertTriangle, Plus, Trash2 } from 'lucide-react'
+import { isSQLDatabase } from '@/utils/dbTypes'
 
 function ModalShell({ isOpen, onClose, title, children, width = 'max-w-md' }: {
   isOpen: boolean; onClose: () => void; title: string; children: React.ReactNode; width?: string
@@ -127,11 +128,51 @@ export function RenameModal({ isOpen, onClose, onSubmit, itemType, currentName }
   )
 }
 
-interface PgColumnDef {
+interface SqlColumnDef {
   name: string; type: string; primaryKey: boolean; nullable: boolean; defaultValue: string
 }
 
-const emptyCol = (): PgColumnDef => ({ name: '', type: 'INTEGER', primaryKey: false, nullable: true, defaultValue: '' })
+/* ── Column types offered by the table builder, per SQL dialect ── */
+const COLUMN_TYPES: Record<string, Array<{ group: string; types: string[] }>> = {
+  postgresql: [
+    { group: 'Numeric', types: ['INTEGER', 'BIGINT', 'SMALLINT', 'SERIAL', 'BIGSERIAL', 'NUMERIC', 'DECIMAL', 'REAL', 'DOUBLE PRECISION'] },
+    { group: 'Text', types: ['VARCHAR(255)', 'TEXT', 'CHAR(1)'] },
+    { group: 'Boolean', types: ['BOOLEAN'] },
+    { group: 'Date / Time', types: ['DATE', 'TIMESTAMP', 'TIMESTAMPTZ', 'TIME', 'TIMETZ'] },
+    { group: 'JSON', types: ['JSON', 'JSONB'] },
+    { group: 'Other', types: ['UUID', 'BYTEA'] },
+  ],
+  mysql: [
+    { group: 'Numeric', types: ['INT', 'INT AUTO_INCREMENT', 'BIGINT', 'BIGINT AUTO_INCREMENT', 'SMALLINT', 'TINYINT', 'DECIMAL(10,2)', 'FLOAT', 'DOUBLE'] },
+    { group: 'Text', types: ['VARCHAR(255)', 'TEXT', 'MEDIUMTEXT', 'LONGTEXT', 'CHAR(1)'] },
+    { group: 'Boolean', types: ['BOOLEAN'] },
+    { group: 'Date / Time', types: ['DATE', 'DATETIME', 'TIMESTAMP', 'TIME', 'YEAR'] },
+    { group: 'JSON', types: ['JSON'] },
+    { group: 'Other', types: ['BLOB', 'BINARY(16)', "ENUM('a','b')"] },
+  ],
+  // SQLite uses type affinity — these are the names its affinity rules map cleanly
+  sqlite: [
+    { group: 'Numeric', types: ['INTEGER', 'REAL', 'NUMERIC'] },
+    { group: 'Text', types: ['TEXT', 'VARCHAR(255)'] },
+    { group: 'Boolean', types: ['BOOLEAN'] },
+    { group: 'Date / Time', types: ['DATE', 'DATETIME'] },
+    { group: 'JSON', types: ['JSON'] },
+    { group: 'Other', types: ['BLOB'] },
+  ],
+  mssql: [
+    { group: 'Numeric', types: ['INT', 'INT IDENTITY(1,1)', 'BIGINT', 'BIGINT IDENTITY(1,1)', 'SMALLINT', 'TINYINT', 'DECIMAL(18,2)', 'FLOAT', 'MONEY'] },
+    { group: 'Text', types: ['NVARCHAR(255)', 'NVARCHAR(MAX)', 'VARCHAR(255)', 'NCHAR(1)'] },
+    { group: 'Boolean', types: ['BIT'] },
+    { group: 'Date / Time', types: ['DATE', 'DATETIME2', 'DATETIMEOFFSET', 'TIME'] },
+    { group: 'Other', types: ['UNIQUEIDENTIFIER', 'VARBINARY(MAX)', 'XML'] },
+  ],
+}
+
+/** Auto-incrementing type for the default `id` column (an SQLite INTEGER PRIMARY KEY aliases the rowid) */
+const ID_COLUMN_TYPE: Record<string, string> = { postgresql: 'SERIAL', mysql: 'INT AUTO_INCREMENT', mssql: 'INT IDENTITY(1,1)', sqlite: 'INTEGER' }
+
+const emptyCol = (): SqlColumnDef => ({ name: '', type: 'INTEGER', primaryKey: false, nullable: true, defaultValue: '' })
+const idCol = (dbType: string): SqlColumnDef => ({ ...emptyCol(), name: 'id', type: ID_COLUMN_TYPE[dbType] || 'INTEGER', primaryKey: true, nullable: false })
 
 /* ── Toggle pill ── */
 function Toggle({ checked, onChange, label, color = 'primary' }: {
@@ -159,39 +200,43 @@ export function CreateCollectionModal({ isOpen, onClose, onSubmit, dbType }: {
   const [loading, setLoading] = useState(false)
   const [capped, setCapped] = useState(false)
   const [size, setSize] = useState('1048576')
-  const [columns, setColumns] = useState<PgColumnDef[]>([{ ...emptyCol(), name: 'id', type: 'SERIAL', primaryKey: true, nullable: false }])
+  const [columns, setColumns] = useState<SqlColumnDef[]>([idCol(dbType)])
   const label = dbType === 'kafka' ? 'Topic' : dbType === 'redis' ? 'Key' : dbType === 'mongodb' ? 'Collection' : 'Table'
-  const isPg = dbType === 'postgresql'
+  const isSql = isSQLDatabase(dbType)
+  const typeGroups = COLUMN_TYPES[dbType] || COLUMN_TYPES.postgresql
+
+  // Reset the column builder when switching to a connection with a different dialect
+  useEffect(() => { setColumns([idCol(dbType)]) }, [dbType])
 
-  const updateCol = (i: number, patch: Partial<PgColumnDef>) => {
+  const updateCol = (i: number, patch: Partial<SqlColumnDef>) => {
     setColumns(prev => prev.map((c, idx) => idx === i ? { ...c, ...patch } : c))
   }
   const removeCol = (i: number) => setColumns(prev => prev.filter((_, idx) => idx !== i))
-  const addCol = () => setColumns(prev => [...prev, emptyCol()])
+  const addCol = () => setColumns(prev => [...prev, { ...emptyCol(), type: typeGroups[0].types[0] }])
 
   const go = async () => {
     if (!name.trim()) return
     setLoading(true)
     let opts: any
     if (dbType === 'mongodb' && capped) opts = { capped: true, size: parseInt(size) || 1048576 }
-    if (isPg) {
+    if (isSql) {
       const validCols = columns.filter(c => c.name.trim())
       if (validCols.length === 0) { setLoading(false); return }
       opts = { columns: validCols.map(c => ({ name: c.name.trim(), type: c.type, primaryKey: c.primaryKey, nullable: c.nullable, defaultValue: c.defaultValue || undefined })) }
     }
-    try { await onSubmit(name.trim(), opts); setName(''); setCapped(false); setColumns([{ ...emptyCol(), name: 'id', type: 'SERIAL', primaryKey: true, nullable: false }]); onClose() } catch {} finally { setLoading(false) }
+    try { await onSubmit(name.trim(), opts); setName(''); setCapped(false); setColumns([idCol(dbType)]); onClose() } catch {} finally { setLoading(false) }
   }
 
-  const hasValidCols = !isPg || columns.some(c => c.name.trim())
+  const hasValidCols = !isSql || columns.some(c => c.name.trim())
 
   return (
-    <ModalShell isOpen={isOpen} onClose={onClose} title={`Create ${label}`} width={isPg ? 'max-w-2xl' : 'max-w-md'}>
+    <ModalShell isOpen={isOpen} onClose={onClose} title={`Create ${label}`} width={isSql ? 'max-w-2xl' : 'max-w-md'}>
       <div className="space-y-4">
         <div>
           <label className="text-xs font-medium mb-1 block">{label} Name</label>
           <input className={IC} value={name} onChange={e => setName(e.target.value)}
             placeholder={dbType === 'mongodb' ? 'my_collection' : dbType === 'kafka' ? 'my_topic' : dbType === 'redis' ? 'user:1001' : 'my_table'}
-            autoFocus onKeyDown={e => !isPg && e.key === 'Enter' && go()} />
+            autoFocus onKeyDown={e => !isSql && e.key === 'Enter' && go()} />
         </div>
         {dbType === 'mongodb' && (
           <div className="space-y-2">
@@ -209,7 +254,7 @@ export function CreateCollectionModal({ isOpen, onClose, onSubmit, dbType }: {
             )}
           </div>
         )}
-        {isPg && (
+        {isSql && (
           <div className="space-y-2.5">
             <div className="flex items-center gap-2">
               <span className="text-xs font-semibold">Columns</span>
@@ -230,40 +275,11 @@ export function CreateCollectionModal({ isOpen, onClose, onSubmit, dbType }: {
                   <input className={IC} value={col.name} onChange={e => updateCol(i, { name: e.target.value })} placeholder="column_name" />
                   {/* Type */}
                   <select className={IC} value={col.type} onChange={e => updateCol(i, { type: e.target.value })}>
-                    <optgroup label="Numeric">
-                      <option value="INTEGER">INTEGER</option>
-                      <option value="BIGINT">BIGINT</option>
-                      <option value="SMALLINT">SMALLINT</option>
-                      <option value="SERIAL">SERIAL</option>
-                      <option value="BIGSERIAL">BIGSERIAL</option>
-                      <option value="NUMERIC">NUMERIC</option>
-                      <option value="DECIMAL">DECIMAL</option>
-                      <option value="REAL">REAL</option>
-                      <option value="DOUBLE PRECISION">DOUBLE PRECISION</option>
-                    </optgroup>
-                    <optgroup label="Text">
-                      <option value="VARCHAR(255)">VARCHAR(255)</option>
-                      <option value="TEXT">TEXT</option>
-                      <option value="CHAR(1)">CHAR(1)</option>
-                    </optgroup>
-                    <optgroup label="Boolean">
-                      <option value="BOOLEAN">BOOLEAN</option>
-                    </optgroup>
-                    <optgroup label="Date / Time">
-                      <option value="DATE">DATE</option>
-                      <option value="TIMESTAMP">TIMESTAMP</option>
-                      <option value="TIMESTAMPTZ">TIMESTAMPTZ</option>
-                      <option value="TIME">TIME</option>
-                      <option value="TIMETZ">TIMETZ</option>
-                    </optgroup>
-                    <optgroup label="JSON">
-                      <option value="JSON">JSON</option>
-                      <option value="JSONB">JSONB</option>
-                    </optgroup>
-                    <optgroup label="Other">
-                      <option value="UUID">UUID</option>
-                      <option value="BYTEA">BYTEA</option>
-                    </optgroup>
+                    {typeGroups.map(g => (
+                      <optgroup key={g.group} label={g.group}>
+                        {g.types.map(t => <option key={t} value={t}>{t}</option>)}
+                      </optgroup>
+                    ))}
                   </select>
                   {/* PK */}
                   <div className="flex justify-center">
@@ -1,12 +1,7 @@
 import { useState } from 'react'
 import { ChevronRight, ChevronDown, Zap, Clock, Database, Search } from 'lucide-react'
 import { formatCompactNumber } from '@/utils/formatters'
-
-interface ExplainNodeProps {
-  node: any
-  depth?: number
-  dbType: 'mongodb' | 'postgresql'
-}
+import type { DatabaseType } from '@/types'
 
 const formatNumber = formatCompactNumber
 
@@ -73,13 +68,124 @@ const PgNode = ({ node, depth = 0, maxCost = 0 }: { node: any; depth?: number; m
   )
 }
 
+/* ── MySQL: EXPLAIN FORMAT=JSON nests operations by key rather than a uniform child list ── */
+const MYSQL_WRAPPER_KEYS = ['query_block', 'ordering_operation', 'grouping_operation', 'duplicates_removal', 'windowing', 'union_result', 'materialized_from_subquery', 'table']
+const MYSQL_LIST_KEYS = ['nested_loop', 'query_specifications', 'attached_subqueries', 'optimized_away_subqueries', 'order_by_subqueries', 'select_list_subqueries']
+
+const getMySqlChildren = (node: any): Array<{ label: string; node: any }> => {
+  const children: Array<{ label: string; node: any }> = []
+  for (const key of MYSQL_WRAPPER_KEYS) {
+    if (node[key] && typeof node[key] === 'object') children.push({ label: key, node: node[key] })
+  }
+  for (const key of MYSQL_LIST_KEYS) {
+    if (!Array.isArray(node[key])) continue
+    for (const item of node[key]) {
+      // List items are usually `{ table: {...} }` or `{ query_block: {...} }` — unwrap the single key
+      const keys = Object.keys(item || {})
+      if (keys.length === 1 && typeof item[keys[0]] === 'object') children.push({ label: keys[0], node: item[keys[0]] })
+      else children.push({ label: key, node: item })
+    }
+  }
+  return children
+}
+
+const MySqlNode = ({ label, node, depth = 0 }: { label: string; node: any; depth?: number }) => {
+  const [expanded, setExpanded] = useState(depth < 4)
+  const children = getMySqlChildren(node)
+  const isTable = label === 'table'
+  const accessType: string | undefined = node.access_type
+  const rows = node.rows_examined_per_scan
+  const cost = node.cost_info?.prefix_cost ?? node.cost_info?.query_cost
+  const title = isTable ? (accessType || 'table') : label.replace(/_/g, ' ')
+  const color = accessType === 'ALL' ? 'text-red-400' : accessType === 'index' ? 'text-yellow-400' : isTable ? 'text-green-400' : 'text-blue-400'
+
+  return (
+    <div style={{ marginLeft: depth * 16 }}>
+      <div className="flex items-center gap-1.5 py-1 px-1.5 rounded hover:bg-accent/50 cursor-pointer group" onClick={() => setExpanded(!expanded)}>
+        {children.length > 0 ? (expanded ? <ChevronDown className="h-3 w-3 shrink-0 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 shrink-0 text-muted-foreground" />) : <span className="w-3" />}
+        <span className={`text-[11px] font-bold ${color}`}>{title}</span>
+        {node.table_name && <span className="text-[10px] text-blue-400 bg-blue-400/10 px-1 rounded">{node.table_name}</span>}
+        {node.key && <span className="text-[10px] text-purple-400 bg-purple-400/10 px-1 rounded">idx: {node.key}</span>}
+        {node.using_filesort && <span className="text-[10px] text-orange-400 bg-orange-400/10 px-1 rounded">filesort</span>}
+        {node.using_temporary_table && <span className="text-[10px] text-orange-400 bg-orange-400/10 px-1 rounded">temporary</span>}
+        <div className="flex items-center gap-2 ml-auto text-[10px] text-muted-foreground">
+          {rows !== undefined && <span title="Rows examined per scan"><Search className="h-2.5 w-2.5 inline mr-0.5" />{formatNumber(Number(rows))}</span>}
+          {cost !== undefined && <span title="Cost"><Zap className="h-2.5 w-2.5 inline mr-0.5" />{cost}</span>}
+        </div>
+      </div>
+      {expanded && children.map((child, i) => <MySqlNode key={i} label={child.label} node={child.node} depth={depth + 1} />)}
+    </div>
+  )
+}
+
+/* ── SQLite: EXPLAIN QUERY PLAN returns flat { id, parent, detail } rows ── */
+interface SqliteStep { id: number; parent: number; detail: string; children: SqliteStep[] }
+
+const buildSqliteTree = (rows: any[]): SqliteStep[] => {
+  const byId = new Map<number, SqliteStep>()
+  const roots: SqliteStep[] = []
+  for (const r of rows) byId.set(r.id, { id: r.id, parent: r.parent, detail: String(r.detail ?? ''), children: [] })
+  for (const step of byId.values()) {
+    const parent = byId.get(step.parent)
+    if (parent) parent.children.push(step)
+    else roots.push(step)
+  }
+  return roots
+}
+
+const SqliteNode = ({ step, depth = 0 }: { step: SqliteStep; depth?: number }) => {
+  const [expanded, setExpanded] = useState(depth < 4)
+  const { detail, children } = step
+  const indexName = detail.match(/USING (?:COVERING )?INDEX (\S+)/)?.[1] || (/USING INTEGER PRIMARY KEY/.test(detail) ? 'rowid' : undefined)
+  // Plain SCAN = full table scan; SEARCH = index lookup
+  const color = /^SCAN\b/.test(detail) ? (indexName ? 'text-yellow-400' : 'text-red-400') : /^SEARCH\b/.test(detail) ? 'text-green-400' : 'text-blue-400'
+
+  return (
+    <div style={{ marginLeft: depth * 16 }}>
+      <div className="flex items-center gap-1.5 py-1 px-1.5 rounded hover:bg-accent/50 cursor-pointer group" onClick={() => setExpanded(!expanded)}>
+        {children.length > 0 ? (expanded ? <ChevronDown className="h-3 w-3 shrink-0 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 shrink-0 text-muted-foreground" />) : <span className="w-3" />}
+        <span className={`text-[11px] font-bold ${color}`}>{detail}</span>
+        {indexName && <span className="text-[10px] text-purple-400 bg-purple-400/10 px-1 rounded">idx: {indexName}</span>}
+        {/TEMP B-TREE/.test(detail) && <span className="text-[10px] text-orange-400 bg-orange-400/10 px-1 rounded">temp b-tree</span>}
+      </div>
+      {expanded && children.map(child => <SqliteNode key={child.id} step={child} depth={depth + 1} />)}
+    </div>
+  )
+}
+
+/* ── SQL Server: showplan XML parsed into { physicalOp, logicalOp, subtreeCost, children } nodes ── */
+const MssqlNode = ({ node, depth = 0 }: { node: any; depth?: number }) => {
+  const [expanded, setExpanded] = useState(depth < 4)
+  const children: any[] = node.children || []
+  const op: string = node.physicalOp || 'Unknown'
+  // Scans read the whole heap / index; seeks and lookups are targeted
+  const color = op === 'Table Scan' || op === 'Clustered Index Scan' ? 'text-red-400' : op === 'Index Scan' ? 'text-yellow-400' : /Seek|Lookup/.test(op) ? 'text-green-400' : 'text-blue-400'
+
+  return (
+    <div style={{ marginLeft: depth * 16 }}>
+      <div className="flex items-center gap-1.5 py-1 px-1.5 rounded hover:bg-accent/50 cursor-pointer group" onClick={() => setExpanded(!expanded)}>
+        {children.length > 0 ? (expanded ? <ChevronDown className="h-3 w-3 shrink-0 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 shrink-0 text-muted-foreground" />) : <span className="w-3" />}
+        <span className={`text-[11px] font-bold ${color}`}>{op}</span>
+        {node.logicalOp && node.logicalOp !== op && <span className="text-[10px] text-muted-foreground">({node.logicalOp})</span>}
+        {node.object && <span className="text-[10px] text-blue-400 bg-blue-400/10 px-1 rounded">{node.object}</span>}
+        {node.index && <span className="text-[10px] text-purple-400 bg-purple-400/10 px-1 rounded">idx: {node.index}</span>}
+        <div className="flex items-center gap-2 ml-auto text-[10px] text-muted-foreground">
+          {node.estimateRows !== undefined && <span title="Estimated rows"><Database className="h-2.5 w-2.5 inline mr-0.5" />{formatNumber(Math.round(node.estimateRows))}</span>}
+          {node.subtreeCost !== undefined && <span title="Estimated subtree cost"><Zap className="h-2.5 w-2.5 inline mr-0.5" />{Number(node.subtreeCost).toFixed(4)}</span>}
+        </div>
+      </div>
+      {expanded && children.map((child, i) => <MssqlNode key={i} node={child} depth={depth + 1} />)}
+    </div>
+  )
+}
+
 const getMaxCost = (node: any): number => {
   const cost = node['Total Cost'] || 0
   const children = node.Plans || []
   return Math.max(cost, ...children.map(getMaxCost))
 }
 
-export const ExplainPlanTree = ({ plan, dbType }: { plan: any; dbType: 'mongodb' | 'postgresql' }) => {
+export const ExplainPlanTree = ({ plan, dbType }: { plan: any; dbType: DatabaseType }) => {
   if (!plan) return <p className="text-xs text-muted-foreground">No execution plan available</p>
 
   if (dbType === 'mongodb') {
@@ -101,6 +207,50 @@ export const ExplainPlanTree = ({ plan, dbType }: { plan: any; dbType: 'mongodb'
     )
   }
 
+  if (dbType === 'mysql') {
+    const queryBlock = plan.query_block || plan
+    return (
+      <div>
+        {queryBlock.cost_info?.query_cost && (
+          <div className="flex flex-wrap gap-3 mb-3 p-2 rounded bg-muted/50 text-[10px]">
+            <span>Query Cost: <b>{queryBlock.cost_info.query_cost}</b></span>
+            {queryBlock.select_id !== undefined && <span>Select ID: <b>{queryBlock.select_id}</b></span>}
+          </div>
+        )}
+        <MySqlNode label="query_block" node={queryBlock} />
+      </div>
+    )
+  }
+
+  if (dbType === 'sqlite') {
+    const steps = buildSqliteTree(Array.isArray(plan) ? plan : [])
+    if (steps.length === 0) return <p className="text-xs text-muted-foreground">Could not parse execution plan</p>
+    return (
+      <div>
+        {steps.map(step => <SqliteNode key={step.id} step={step} />)}
+      </div>
+    )
+  }
+
+  if (dbType === 'mssql') {
+    const statements: any[] = (plan.statements || []).filter((st: any) => st.plan)
+    if (statements.length === 0) return <p className="text-xs text-muted-foreground">Could not parse execution plan</p>
+    return (
+      <div className="space-y-3">
+        {statements.map((st, i) => (
+          <div key={i}>
+            <div className="flex flex-wrap gap-3 mb-2 p-2 rounded bg-muted/50 text-[10px]">
+              {statements.length > 1 && <span>Statement <b>{i + 1}</b></span>}
+              {st.cost !== undefined && <span>Estimated Cost: <b>{Number(st.cost).toFixed(4)}</b></span>}
+              {st.estimateRows !== undefined && <span>Estimated Rows: <b>{formatNumber(Math.round(st.estimateRows))}</b></span>}
+            </div>
+            <MssqlNode node={st.plan} />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
   // PostgreSQL
   const pgPlan = Array.isArray(plan) ? plan[0]?.Plan || plan[0] : plan?.Plan || plan
   if (!pgPlan) return <p className="text-xs text-muted-foreground">Could not parse execution plan</p>
@@ -0,0 +1,122 @@
+import { useState, useMemo, useEffect, type ReactNode } from 'react'
+import { ChevronRight, ChevronDown, Folder, FolderOpen, Loader2, Search } from 'lucide-react'
+import { useSettingsStore } from '@/store/settingsStore'
+import { buildKeyTree, keyLeafName, REDIS_KEY_TYPES, type KeyTreeFolder, type RedisKeyEntry } from '@/utils/redisKeyspace'
+
+/** Keys rendered per folder before "show all" — a flat keyspace can put thousands in one folder */
+const LEAF_LIMIT = 500
+
+interface RedisKeyTreeProps {
+  keys: RedisKeyEntry[]
+  pattern: string
+  type: string
+  /** The SCAN cursor is not back at 0, so more keys can be loaded */
+  hasMore: boolean
+  loading: boolean
+  onFilter: (pattern: string, type: string) => void
+  onLoadMore: () => void
+  renderKey: (key: RedisKeyEntry, label: string) => ReactNode
+}
+
+/** Sidebar key browser of a Redis database: MATCH / TYPE filter, namespace folders and "load more" */
+export const RedisKeyTree = ({ keys, pattern, type, hasMore, loading, onFilter, onLoadMore, renderKey }: RedisKeyTreeProps) => {
+  const delimiter = useSettingsStore(s => s.general.redisKeyDelimiter)
+  const [draftPattern, setDraftPattern] = useState(pattern)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [showAll, setShowAll] = useState<Set<string>>(new Set())
+
+  useEffect(() => setDraftPattern(pattern), [pattern])
+
+  const tree = useMemo(() => buildKeyTree(keys, delimiter), [keys, delimiter])
+
+  const toggle = (path: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(path)) next.delete(path)
+    else next.add(path)
+    return next
+  })
+
+  const renderChildren = (folder: KeyTreeFolder): ReactNode => {
+    const leaves = showAll.has(folder.path) ? folder.keys : folder.keys.slice(0, LEAF_LIMIT)
+    return (
+      <>
+        {folder.folders.map(renderFolder)}
+        {leaves.map(key => renderKey(key, keyLeafName(key.name, folder.path)))}
+        {leaves.length < folder.keys.length && (
+          <button
+            onClick={() => setShowAll(prev => new Set(prev).add(folder.path))}
+            className="sidebar-tree-item w-full text-[10px] text-muted-foreground"
+          >
+            Show {folder.keys.length - leaves.length} more…
+          </button>
+        )}
+      </>
+    )
+  }
+
+  const renderFolder = (folder: KeyTreeFolder): ReactNode => {
+    const open = expanded.has(folder.path)
+    return (
+      <div key={folder.path}>
+        <button onClick={() => toggle(folder.path)} className="sidebar-tree-item w-full" title={`${folder.path}*`}>
+          {open ? (
+            <ChevronDown className="h-3 w-3 text-sidebar-foreground shrink-0" />
+          ) : (
+            <ChevronRight className="h-3 w-3 text-sidebar-foreground shrink-0" />
+          )}
+          {open ? (
+            <FolderOpen className="h-3 w-3 text-red-400/70 shrink-0" />
+          ) : (
+            <Folder className="h-3 w-3 text-red-400/50 shrink-0" />
+          )}
+          <span className="truncate flex-1 text-left text-[11px]">{folder.name || <em className="text-muted-foreground">(empty)</em>}</span>
+          <span className="text-[10px] text-sidebar-foreground tabular-nums">{folder.count}</span>
+        </button>
+        {open && <div className="ml-3 border-l border-border/30 pl-1">{renderChildren(folder)}</div>}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 px-1 py-1">
+        <div className="relative flex-1 min-w-0">
+          <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 h-2.5 w-2.5 text-sidebar-foreground" />
+          <input
+            value={draftPattern}
+            onChange={(e) => setDraftPattern(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onFilter(draftPattern.trim(), type)}
+            placeholder="MATCH, e.g. user:*"
+            title="SCAN MATCH pattern — press Enter to apply"
+            className="w-full pl-5 pr-1 py-0.5 text-[10px] font-mono rounded border border-border/50 bg-background/50 focus:outline-none focus:border-primary/50 placeholder:text-sidebar-foreground"
+          />
+        </div>
+        <select
+          value={type}
+          onChange={(e) => onFilter(draftPattern.trim(), e.target.value)}
+          title="SCAN TYPE filter"
+          className="py-0.5 text-[10px] rounded border border-border/50 bg-background/50 focus:outline-none"
+        >
+          <option value="">all</option>
+          {REDIS_KEY_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+      </div>
+
+      {renderChildren(tree)}
+      {keys.length === 0 && !loading && (
+        <div className="px-2 py-1 text-[10px] text-muted-foreground/60">{hasMore ? 'No matches yet' : 'No keys'}</div>
+      )}
+
+      {(hasMore || loading) && (
+        <button
+          onClick={onLoadMore}
+          disabled={loading}
+          className="sidebar-tree-item w-full text-[10px] text-primary disabled:text-muted-foreground"
+        >
+          {loading && <Loader2 className="h-3 w-3 animate-spin shrink-0" />}
+          <span className="flex-1 text-left">{loading ? 'Scanning…' : `Load more (${keys.length} loaded)`}</span>
+        </button>
+      )}
+    </div>
+  )
+}
@@ -26,13 +26,19 @@ import {
   Settings2,
   Users,
   Keyboard,
+  Layers,
+  Table2,
+  FunctionSquare,
 } from 'lucide-react'
 import { cn } from '@/utils/cn'
+import { isSQLDatabase } from '@/utils/dbTypes'
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { SettingsModal } from '@/components/settings/SettingsModal'
 import { DatabaseIcon, getDatabaseTypeName } from '@/components/common/DatabaseIcon'
 import { useToast } from '@/components/common/Toast'
+import { mergeKeyPages } from '@/utils/redisKeyspace'
+import { RedisKeyTree } from './RedisKeyTree'
 import {
   CreateDatabaseModal,
   ConfirmDropModal,
@@ -54,6 +60,12 @@ const navigation = [
   { name: 'Kafka Tools', href: '/kafka-tools', icon: Radio, dbType: 'kafka' as const },
 ]
 
+// Redis keys come in SCAN pages of about this many
+const KEY_PAGE_SIZE = 500
+
+const schemaKey = (db: string, schema: string) => `${db}\u0000${schema}`
+const splitSchemaKey = (key: string) => key.split('\u0000') as [string, string]
+
 export const Sidebar = () => {
   const location = useLocation()
   const navigate = useNavigate()
@@ -64,16 +76,22 @@ export const Sidebar = () => {
   const [databases, setDatabases] = useState<any[]>([])
   const [collections, setCollections] = useState<{ [key: string]: any[] }>({})
   const [expandedDbs, setExpandedDbs] = useState<Set<string>>(new Set())
+  // Schema level (PostgreSQL / SQL Server), keyed by schemaKey(db, schema)
+  const [schemas, setSchemas] = useState<{ [key: string]: string[] }>({})
+  const [expandedSchemas, setExpandedSchemas] = useState<Set<string>>(new Set())
+  const [functions, setFunctions] = useState<{ [key: string]: any[] }>({})
+  // Redis: filter and SCAN cursor per database — the key list grows page by page until the cursor is '0'
+  const [keyScans, setKeyScans] = useState<{ [db: string]: { pattern: string; type: string; cursor: string; loading?: boolean } }>({})
   const [searchQuery, setSearchQuery] = useState('')
   const [showSettings, setShowSettings] = useState(false)
   const [collapsed, setCollapsed] = useState(false)
 
   // Context menu state
-  const [ctxMenu, setCtxMenu] = useState<{ x: number; y: number; type: 'db' | 'coll'; db: string; coll?: string } | null>(null)
+  const [ctxMenu, setCtxMenu] = useState<{ x: number; y: number; type: 'db' | 'schema' | 'coll'; db: string; schema?: string; coll?: string } | null>(null)
   // Modal states
   const [showCreateDb, setShowCreateDb] = useState(false)
   const [showDropDb, setShowDropDb] = useState<string | null>(null)
-  const [showCreateColl, setShowCreateColl] = useState<string | null>(null)
+  const [showCreateColl, setShowCreateColl] = useState<{ db: string; schema?: string } | null>(null)
   const [showDropColl, setShowDropColl] = useState<{ db: string; coll: string } | null>(null)
   const [showRenameColl, setShowRenameColl] = useState<{ db: string; coll: string } | null>(null)
   const [showIndexManager, setShowIndexManager] = useState<{ db: string; coll: string } | null>(null)
@@ -101,6 +119,10 @@ export const Sidebar = () => {
       setCollections({})
       setExpandedDbs(new Set())
     }
+    setSchemas({})
+    setExpandedSchemas(new Set())
+    setFunctions({})
+    setKeyScans({})
   }, [activeConnectionId])
 
   const loadDatabases = async () => {
@@ -121,12 +143,32 @@ export const Sidebar = () => {
 
   const loadCollections = async (dbName: string) => {
     if (!activeConnectionId) return
+    if (isRedis) return loadKeys(dbName)
     try {
-      const result: any = await databaseService.listCollections(activeConnectionId, dbName)
+      const [result, schemaResult]: any[] = await Promise.all([
+        databaseService.listCollections(activeConnectionId, dbName),
+        hasSchemas ? databaseService.listSchemas(activeConnectionId, dbName) : null,
+      ])
       if (result.success) {
         const colls = result.collections || []
         setCollections(prev => ({ ...prev, [dbName]: colls }))
         setCachedCollections(dbName, colls)
+        if (hasSchemas) {
+          // Empty schemas only come from listSchemas; objects can live in schemas it hides (e.g. no USAGE)
+          const names = new Set<string>((schemaResult?.schemas || []).map((sc: any) => sc.name))
+          colls.forEach((c: any) => c.schema && names.add(c.schema))
+          setSchemas(prev => ({ ...prev, [dbName]: Array.from(names) }))
+          // Open the default schema the first time a database is expanded
+          if (!schemas[dbName] && names.has(defaultSchema)) {
+            setExpandedSchemas(prev => new Set(prev).add(schemaKey(dbName, defaultSchema)))
+            loadFunctions(dbName, defaultSchema)
+          }
+          // Re-fetch functions of schemas that are already open
+          expandedSchemas.forEach(key => {
+            const [db, schema] = splitSchemaKey(key)
+            if (db === dbName) loadFunctions(db, schema)
+          })
+        }
       } else {
         tt.error('Failed to load collections: ' + (result.error || 'Unknown error'))
       }
@@ -135,6 +177,48 @@ export const Sidebar = () => {
     }
   }
 
+  /** Load the first page of keys, or the next one with `more` */
+  const loadKeys = async (dbName: string, more = false, filter = keyScans[dbName]) => {
+    if (!activeConnectionId) return
+    const pattern = filter?.pattern || ''
+    const type = filter?.type || ''
+    const cursor = more ? filter?.cursor || '0' : '0'
+    setKeyScans(prev => ({ ...prev, [dbName]: { pattern, type, cursor, loading: true } }))
+    try {
+      const result: any = await databaseService.redisScanKeys(activeConnectionId, dbName, {
+        pattern: pattern || '*', type: type || undefined, cursor, count: KEY_PAGE_SIZE,
+      })
+      if (!result.success) throw new Error(result.error || 'Unknown error')
+      const keys = more ? mergeKeyPages(collections[dbName] || [], result.collections || []) : result.collections || []
+      setCollections(prev => ({ ...prev, [dbName]: keys }))
+      setCachedCollections(dbName, keys)
+      setKeyScans(prev => ({ ...prev, [dbName]: { pattern, type, cursor: result.cursor || '0' } }))
+    } catch (error: any) {
+      tt.error('Failed to load keys: ' + error.message)
+      setKeyScans(prev => ({ ...prev, [dbName]: { pattern, type, cursor } }))
+    }
+  }
+
+  const loadFunctions = async (dbName: string, schema: string) => {
+    if (!activeConnectionId || dbType !== 'postgresql') return
+    try {
+      const result: any = await databaseService.pgListFunctions(activeConnectionId, dbName, schema)
+      if (result.success) setFunctions(prev => ({ ...prev, [schemaKey(dbName, schema)]: result.functions || [] }))
+    } catch { /* functions are informational — the tables still render */ }
+  }
+
+  const toggleSchema = (dbName: string, schema: string) => {
+    const key = schemaKey(dbName, schema)
+    const next = new Set(expandedSchemas)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+      if (!functions[key]) loadFunctions(dbName, schema)
+    }
+    setExpandedSchemas(next)
+  }
+
   const toggleDatabase = (dbName: string) => {
     const newExpanded = new Set(expandedDbs)
     if (newExpanded.has(dbName)) {
@@ -157,15 +241,24 @@ export const Sidebar = () => {
   const dbType = activeConnection?.type || 'mongodb'
   const isRedis = dbType === 'redis'
   const isKafka = dbType === 'kafka'
+  // A SQLite "database" is the opened file (plus any ATTACHed ones) — it can't be created or dropped here
+  const isSQLite = dbType === 'sqlite'
   const isNoSQL = dbType === 'mongodb' || isRedis
   const itemLabel = isKafka ? 'Topic' : isRedis ? 'Key' : isNoSQL ? 'Collection' : 'Table'
-  const supportsIndex = dbType === 'mongodb' || dbType === 'postgresql'
+  const supportsIndex = dbType === 'mongodb' || isSQLDatabase(dbType)
+  // Tables are grouped database → schema → objects; names outside the default schema are "schema.table"
+  const hasSchemas = dbType === 'postgresql' || dbType === 'mssql'
+  const defaultSchema = dbType === 'mssql' ? 'dbo' : 'public'
 
   // Context menu handlers
   const handleDbContext = (e: React.MouseEvent, dbName: string) => {
     e.preventDefault()
     setCtxMenu({ x: e.clientX, y: e.clientY, type: 'db', db: dbName })
   }
+  const handleSchemaContext = (e: React.MouseEvent, dbName: string, schema: string) => {
+    e.preventDefault()
+    setCtxMenu({ x: e.clientX, y: e.clientY, type: 'schema', db: dbName, schema })
+  }
   const handleCollContext = (e: React.MouseEvent, dbName: string, collName: string) => {
     e.preventDefault()
     setCtxMenu({ x: e.clientX, y: e.clientY, type: 'coll', db: dbName, coll: collName })
@@ -184,8 +277,10 @@ export const Sidebar = () => {
   }
   const handleCreateColl = async (name: string, options?: any) => {
     if (!activeConnectionId || !showCreateColl) return
-    await databaseService.createCollection(activeConnectionId, showCreateColl, name, options, dbType as any)
-    await loadCollections(showCreateColl)
+    const { db, schema } = showCreateColl
+    const qualifiedName = schema && schema !== defaultSchema ? `${schema}.${name}` : name
+    await databaseService.createCollection(activeConnectionId, db, qualifiedName, options, dbType as any)
+    await loadCollections(db)
   }
   const handleDropColl = async () => {
     if (!activeConnectionId || !showDropColl) return
@@ -218,6 +313,88 @@ export const Sidebar = () => {
     setIndexes(result?.indexes || result || [])
   }
 
+  /* ── Tree rows ── */
+  const renderCollection = (dbName: string, coll: any, label?: string) => (
+    <button
+      key={coll.name}
+      onClick={() => handleSelectCollection(dbName, coll.name)}
+      onContextMenu={(e) => handleCollContext(e, dbName, coll.name)}
+      className={cn(
+        'sidebar-tree-item w-full',
+        selectedDatabase === dbName && selectedCollection === coll.name && 'active'
+      )}
+      title={isRedis ? (coll.slot != null ? `${coll.name}\nslot ${coll.slot} · ${coll.node}` : coll.name) : undefined}
+    >
+      {isKafka ? (
+        <Radio className="h-3 w-3 text-amber-400/70 shrink-0" />
+      ) : isRedis ? (
+        <Key className="h-3 w-3 text-red-400/70 shrink-0" />
+      ) : coll.type === 'VIEW' ? (
+        <Eye className="h-3 w-3 text-cyan-400/70 shrink-0" />
+      ) : coll.type === 'MATERIALIZED VIEW' ? (
+        <Table2 className="h-3 w-3 text-cyan-400/70 shrink-0" />
+      ) : (
+        <Table className="h-3 w-3 text-blue-400/70 shrink-0" />
+      )}
+      <span className="truncate flex-1 text-left text-[11px]">{label ?? coll.name}</span>
+      {isRedis && coll.type && (
+        <span className="text-[9px] text-muted-foreground/60 font-mono">{coll.type}</span>
+      )}
+      {isRedis && coll.slot != null && (
+        <span className="text-[9px] text-muted-foreground/40 font-mono">#{coll.slot}</span>
+      )}
+      {isKafka && coll.partitions != null && (
+        <span className="text-[9px] text-muted-foreground/60 font-mono">{coll.partitions}p</span>
+      )}
+    </button>
+  )
+
+  const renderSchema = (dbName: string, schema: string) => {
+    const key = schemaKey(dbName, schema)
+    const expanded = expandedSchemas.has(key)
+    const objects = (collections[dbName] || []).filter((c: any) => c.schema === schema)
+    const fns = functions[key] || []
+    // Objects outside the default schema are named "schema.table" — show just the table under its schema
+    const prefix = `${schema}.`
+    return (
+      <div key={key}>
+        <button
+          onClick={() => toggleSchema(dbName, schema)}
+          onContextMenu={(e) => handleSchemaContext(e, dbName, schema)}
+          className="sidebar-tree-item w-full"
+        >
+          {expanded ? (
+            <ChevronDown className="h-3 w-3 text-sidebar-foreground shrink-0" />
+          ) : (
+            <ChevronRight className="h-3 w-3 text-sidebar-foreground shrink-0" />
+          )}
+          <Layers className="h-3 w-3 text-purple-400/70 shrink-0" />
+          <span className="truncate flex-1 text-left text-[11px]">{schema}</span>
+          <span className="text-[10px] text-sidebar-foreground tabular-nums">{objects.length}</span>
+        </button>
+        {expanded && (
+          <div className="ml-3 border-l border-border/30 pl-1">
+            {objects.map((coll: any) => renderCollection(dbName, coll, coll.name.startsWith(prefix) ? coll.name.slice(prefix.length) : coll.name))}
+            {fns.map((fn: any) => (
+              <div
+                key={`${fn.name}(${fn.arguments})`}
+                className="sidebar-tree-item w-full cursor-default"
+                title={`${fn.kind} ${schema}.${fn.name}(${fn.arguments})${fn.result_type ? ` → ${fn.result_type}` : ''}`}
+              >
+                <FunctionSquare className="h-3 w-3 text-green-400/70 shrink-0" />
+                <span className="truncate flex-1 text-left text-[11px]">{fn.name}</span>
+                <span className="text-[9px] text-muted-foreground/60 font-mono">{fn.kind === 'function' ? 'fn' : fn.kind}</span>
+              </div>
+            ))}
+            {objects.length === 0 && fns.length === 0 && (
+              <div className="px-2 py-1 text-[10px] text-muted-foreground/60">Empty</div>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   // Collapsed sidebar
   if (collapsed) {
     return (
@@ -295,7 +472,7 @@ export const Sidebar = () => {
               <span className="text-xs font-semibold truncate block">{activeConnection.name}</span>
               <span className="text-[10px] text-sidebar-foreground">{getDatabaseTypeName(activeConnection.type || 'mongodb')}</span>
             </div>
-            {!isRedis && (
+            {!isRedis && !isSQLite && (
               <button
                 onClick={() => setShowCreateDb(true)}
                 className="p-1 rounded hover:bg-sidebar-accent transition-colors"
@@ -358,38 +535,28 @@ export const Sidebar = () => {
                   <span className="truncate flex-1 text-left text-[11px]">{db.name}</span>
                   {collections[db.name] && (
                     <span className="text-[10px] text-sidebar-foreground tabular-nums">
-                      {collections[db.name].length}
+                      {collections[db.name].length}{isRedis && keyScans[db.name]?.cursor !== '0' ? '+' : ''}
                     </span>
                   )}
                 </button>
                 {expandedDbs.has(db.name) && collections[db.name] && (
                   <div className="ml-3 border-l border-border/30 pl-1">
-                    {collections[db.name].map((coll: any) => (
-                      <button
-                        key={coll.name}
-                        onClick={() => handleSelectCollection(db.name, coll.name)}
-                        onContextMenu={(e) => handleCollContext(e, db.name, coll.name)}
-                        className={cn(
-                          'sidebar-tree-item w-full',
-                          selectedDatabase === db.name && selectedCollection === coll.name && 'active'
-                        )}
-                      >
-                        {isKafka ? (
-                          <Radio className="h-3 w-3 text-amber-400/70 shrink-0" />
-                        ) : isRedis ? (
-                          <Key className="h-3 w-3 text-red-400/70 shrink-0" />
-                        ) : (
-                          <Table className="h-3 w-3 text-blue-400/70 shrink-0" />
-                        )}
-                        <span className="truncate flex-1 text-left text-[11px]">{coll.name}</span>
-                        {isRedis && coll.type && (
-                          <span className="text-[9px] text-muted-foreground/60 font-mono">{coll.type}</span>
-                        )}
-                        {isKafka && coll.partitions != null && (
-                          <span className="text-[9px] text-muted-foreground/60 font-mono">{coll.partitions}p</span>
-                        )}
-                      </button>
-                    ))}
+                    {hasSchemas
+                      ? (schemas[db.name] || []).map(schema => renderSchema(db.name, schema))
+                      : isRedis
+                        ? (
+                          <RedisKeyTree
+                            keys={collections[db.name]}
+                            pattern={keyScans[db.name]?.pattern || ''}
+                            type={keyScans[db.name]?.type || ''}
+                            hasMore={(keyScans[db.name]?.cursor || '0') !== '0'}
+                            loading={!!keyScans[db.name]?.loading}
+                            onFilter={(pattern, type) => loadKeys(db.name, false, { pattern, type, cursor: '0' })}
+                            onLoadMore={() => loadKeys(db.name, true)}
+                            renderKey={(key, label) => renderCollection(db.name, key, label)}
+                          />
+                        )
+                        : collections[db.name].map((coll: any) => renderCollection(db.name, coll))}
                   </div>
                 )}
               </div>
@@ -476,10 +643,10 @@ export const Sidebar = () => {
         >
           {ctxMenu.type === 'db' && (
             <>
-              <button className="dropdown-item mx-1" onClick={() => setShowCreateColl(ctxMenu.db)}>
+              <button className="dropdown-item mx-1" onClick={() => setShowCreateColl({ db: ctxMenu.db })}>
                 <Plus className="h-3.5 w-3.5 text-muted-foreground" /> Create {itemLabel}
               </button>
-              {!isRedis && !isKafka && (
+              {!isRedis && !isKafka && !isSQLite && (
                 <button className="dropdown-item mx-1 text-destructive hover:!bg-destructive/10" onClick={() => setShowDropDb(ctxMenu.db)}>
                   <Trash2 className="h-3.5 w-3.5" /> Drop Database
                 </button>
@@ -495,6 +662,17 @@ export const Sidebar = () => {
               </button>
             </>
           )}
+          {ctxMenu.type === 'schema' && ctxMenu.schema && (
+            <>
+              <button className="dropdown-item mx-1" onClick={() => setShowCreateColl({ db: ctxMenu.db, schema: ctxMenu.schema })}>
+                <Plus className="h-3.5 w-3.5 text-muted-foreground" /> Create {itemLabel} in {ctxMenu.schema}
+              </button>
+              <div className="my-1 border-t border-border/50 mx-2" />
+              <button className="dropdown-item mx-1" onClick={() => { loadCollections(ctxMenu.db) }}>
+                <RefreshCw className="h-3.5 w-3.5 text-muted-foreground" /> Refresh
+              </button>
+            </>
+          )}
           {ctxMenu.type === 'coll' && ctxMenu.coll && (
             <>
               {isKafka && (
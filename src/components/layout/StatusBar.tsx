@@ -1,5 +1,6 @@
-import { Database, WifiOff, Clock, HardDrive, Activity } from 'lucide-react'
+import { Database, WifiOff, Clock, HardDrive, Activity, GitCommitHorizontal } from 'lucide-react'
 import { useConnectionStore } from '@/store/connectionStore'
+import { useQueryTabStore } from '@/store/queryTabStore'
 import { getDatabaseTypeName } from '@/components/common/DatabaseIcon'
 import { useConnectionHealth, HealthStatus } from '@/hooks/useConnectionHealth'
 
@@ -14,6 +15,10 @@ export const StatusBar = () => {
   const { activeConnectionId, getActiveConnection, selectedDatabase, selectedCollection } = useConnectionStore()
   const activeConnection = getActiveConnection()
   const { health, doPing } = useConnectionHealth()
+  // Query Editor tabs on this connection holding an uncommitted transaction
+  const tabs = useQueryTabStore(s => s.tabs)
+  const pendingTabs = tabs.filter(t => t.session?.connectionId === activeConnectionId && t.transaction && t.transaction !== 'idle')
+  const failedTransaction = pendingTabs.some(t => t.transaction === 'failed')
 
   const isNoSQL = !activeConnection?.type || activeConnection.type === 'mongodb' || activeConnection.type === 'redis'
   const itemLabel = isNoSQL ? 'Collection' : 'Table'
@@ -62,6 +67,15 @@ export const StatusBar = () => {
 
       {/* Right */}
       <div className="flex items-center gap-3">
+        {pendingTabs.length > 0 && (
+          <div
+            className={`flex items-center gap-1.5 ${failedTransaction ? 'text-red-400' : 'text-amber-400'}`}
+            title={`Uncommitted transaction in ${pendingTabs.map(t => t.name).join(', ')}`}
+          >
+            <GitCommitHorizontal className="h-3 w-3" />
+            <span>{failedTransaction ? 'Transaction failed' : 'Transaction open'}</span>
+          </div>
+        )}
         {activeConnectionId && activeConnection ? (
           <button
             onClick={() => doPing()}
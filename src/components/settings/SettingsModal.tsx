@@ -137,6 +137,12 @@ function GeneralTab() {
             <option value="relative">Relative (e.g. 2 hours ago)</option>
           </select>
         </div>
+        <div className={ROW_CLS}>
+          <div><p className={LABEL_CLS}>Redis Key Delimiter</p><p className={DESC_CLS}>Groups Redis keys into folders in the sidebar (empty for a flat list)</p></div>
+          <input value={general.redisKeyDelimiter} maxLength={4}
+            onChange={(e) => setGeneralSetting('redisKeyDelimiter', e.target.value)}
+            className={`${SELECT_CLS} w-24 text-center font-mono`} />
+        </div>
       </div>
       <div className={SECTION_CLS}>
         <h3 className={SECTION_TITLE_CLS}>Behavior</h3>
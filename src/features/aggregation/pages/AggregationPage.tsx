@@ -5,6 +5,7 @@ import { PipelinePreview } from '../components/PipelinePreview'
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
+import { parseShellSyntax, toShellSyntax } from '@/utils/ejson'
 
 interface Stage {
   id: string
@@ -102,7 +103,7 @@ export const AggregationPage = () => {
       // Build pipeline array
       const pipeline = stages.map((stage) => {
         try {
-          const content = JSON.parse(stage.content)
+          const content = parseShellSyntax(stage.content)
           return { [stage.type]: content }
         } catch (e) {
           throw new Error(`Invalid JSON in stage: ${stage.type}`)
@@ -129,14 +130,14 @@ export const AggregationPage = () => {
   const generateCode = () => {
     const pipeline = stages.map((stage) => {
       try {
-        const content = JSON.parse(stage.content)
+        const content = parseShellSyntax(stage.content)
         return { [stage.type]: content }
       } catch (e) {
         return { [stage.type]: {} }
       }
     })
 
-    return `db.${selectedCollection || 'collection'}.aggregate(${JSON.stringify(pipeline, null, 2)})`
+    return `db.${selectedCollection || 'collection'}.aggregate(${toShellSyntax(pipeline)})`
   }
 
   return (
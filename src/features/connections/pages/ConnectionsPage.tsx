@@ -3,6 +3,7 @@ import { Plus, Download, Upload, Database, Search } from 'lucide-react'
 import { ConnectionForm } from '../components/ConnectionForm'
 import { ConnectionList } from '../components/ConnectionList'
 import { useConnectionStore } from '@/store/connectionStore'
+import { useQueryTabStore } from '@/store/queryTabStore'
 import { storageService } from '@/services/storage.service'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
@@ -58,6 +59,11 @@ export const ConnectionsPage = () => {
         } : undefined,
         kafkaSASL: data.kafkaSASL,
         kafkaSSL: data.kafkaSSL,
+        kafkaSchemaRegistry: data.kafkaSchemaRegistry,
+        kafkaTLS: data.kafkaTLS,
+        kafkaOAuth: data.kafkaOAuth,
+        redisOptions: data.redisOptions,
+        mssqlTrustServerCertificate: data.mssqlTrustServerCertificate,
         createdAt: editingConnection?.createdAt || new Date() as any,
         updatedAt: new Date() as any,
       }
@@ -87,6 +93,14 @@ export const ConnectionsPage = () => {
       return connection.connectionString.trim()
     }
 
+    // SQLite connects to a local file — the stored database field holds its path
+    if (connection.type === 'sqlite') {
+      if (!connection.database || !connection.database.trim()) {
+        throw new Error('Missing database file path')
+      }
+      return connection.database.trim()
+    }
+
     if (!connection.host || !connection.host.trim()) {
       throw new Error('Missing connection string or host')
     }
@@ -102,6 +116,19 @@ export const ConnectionsPage = () => {
       return `postgresql://${auth}${connection.host}:${connection.port || 5432}/${database}${sslParam}`
     }
 
+    if (dbType === 'mysql') {
+      const database = connection.database ? `/${encodeURIComponent(connection.database)}` : ''
+      // mysql2 JSON-decodes URI params, so `ssl={}` enables TLS with certificate verification
+      const sslParam = connection.ssl ? `?ssl=${encodeURIComponent('{}')}` : ''
+      return `mysql://${auth}${connection.host}:${connection.port || 3306}${database}${sslParam}`
+    }
+
+    if (dbType === 'mssql') {
+      const database = connection.database ? `/${encodeURIComponent(connection.database)}` : ''
+      const trust = connection.mssqlTrustServerCertificate ? '?trustServerCertificate=true' : ''
+      return `mssql://${auth}${connection.host}:${connection.port || 1433}${database}${trust}`
+    }
+
     if (dbType === 'redis') {
       const db = connection.database ? `/${connection.database}` : ''
       return `redis://${auth}${connection.host}:${connection.port || 6379}${db}`
@@ -121,10 +148,11 @@ export const ConnectionsPage = () => {
       if (sasl === 'plain') proto += '+sasl_plain'
       else if (sasl === 'scram-sha-256') proto += '+sasl_scram256'
       else if (sasl === 'scram-sha-512') proto += '+sasl_scram512'
+      else if (sasl === 'oauthbearer') proto += '+sasl_oauthbearer'
       if (connection.kafkaSSL) proto += '+ssl'
 
-      // Auth part (only when SASL is not none)
-      const kafkaAuth = sasl !== 'none' && connection.username && connection.password
+      // Auth part (only for SASL mechanisms with a username and password)
+      const kafkaAuth = sasl !== 'none' && sasl !== 'oauthbearer' && connection.username && connection.password
         ? `${encodeURIComponent(connection.username)}:${encodeURIComponent(connection.password)}@`
         : ''
 
@@ -144,7 +172,11 @@ export const ConnectionsPage = () => {
       const dbType = connection.type || 'mongodb'
 
       // Connect via unified service (pass SSH tunnel config if present)
-      const result: any = await databaseService.connect(connection.id, connectionString, dbType, connection.sshTunnel)
+      const result: any = await databaseService.connect(connection.id, connectionString, dbType, connection.sshTunnel, {
+        schemaRegistry: connection.kafkaSchemaRegistry,
+        tls: connection.kafkaTLS,
+        oauth: connection.kafkaOAuth,
+      }, connection.redisOptions)
 
       if (result.success) {
         setActiveConnection(connection.id)
@@ -160,7 +192,14 @@ export const ConnectionsPage = () => {
     }
   }
 
-  const handleDisconnect = async (connectionId: string) => {
+  const handleDisconnect = (connectionId: string) => {
+    const pending = useQueryTabStore.getState().tabs.filter(tab => tab.session?.connectionId === connectionId && tab.transaction && tab.transaction !== 'idle')
+    if (pending.length === 0) return disconnect(connectionId)
+    const names = pending.map(tab => `"${tab.name}"`).join(', ')
+    t.confirm(`Uncommitted transaction in ${names}. Disconnect and roll back?`, () => disconnect(connectionId))
+  }
+
+  const disconnect = async (connectionId: string) => {
     try {
       setLoading(true)
       const connection = connections.find(c => c.id === connectionId)
@@ -168,6 +207,7 @@ export const ConnectionsPage = () => {
       const result: any = await databaseService.disconnect(connectionId, dbType)
 
       if (result && result.success) {
+        useQueryTabStore.getState().dropSessions(connectionId)
         if (activeConnectionId === connectionId) {
           setActiveConnection(null)
         }
@@ -2,11 +2,13 @@ import { useState } from 'react'
 import { X, Trash2, Pencil, AlertTriangle, Play, Eye } from 'lucide-react'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
+import { isSQLDatabase } from '@/utils/dbTypes'
+import { parseShellSyntax } from '@/utils/ejson'
 
 type BatchMode = 'update' | 'delete'
 
-/** Parse simple "key = value" lines into a filter object for PostgreSQL */
-function parsePostgresFilter(str: string): Record<string, any> {
+/** Parse simple "key = value" lines into a filter object for SQL tables */
+function parseSqlFilter(str: string): Record<string, any> {
   const filter: Record<string, any> = {}
   for (const line of str.split('\n')) {
     const trimmed = line.trim()
@@ -37,7 +39,7 @@ interface BatchOperationsProps {
 export const BatchOperations = ({ connectionId, database, collection, dbType, onClose, onSuccess }: BatchOperationsProps) => {
   const tt = useToast()
   const [mode, setMode] = useState<BatchMode>('delete')
-  const [filterStr, setFilterStr] = useState(dbType === 'postgresql' ? '' : '{}')
+  const [filterStr, setFilterStr] = useState(isSQLDatabase(dbType) ? '' : '{}')
   const [updateStr, setUpdateStr] = useState('{}')
   const [previewCount, setPreviewCount] = useState<number | null>(null)
   const [previewLoading, setPreviewLoading] = useState(false)
@@ -52,10 +54,10 @@ export const BatchOperations = ({ connectionId, database, collection, dbType, on
     try {
       let filter: any
       if (isMongo) {
-        filter = JSON.parse(filterStr)
+        filter = parseShellSyntax(filterStr)
       } else {
         // For PostgreSQL, convert simple key=value to object
-        filter = filterStr.trim() ? parsePostgresFilter(filterStr) : {}
+        filter = filterStr.trim() ? parseSqlFilter(filterStr) : {}
       }
       const res = await databaseService.countDocuments(connectionId, database, collection, filter, dbType as any)
       if (res.success) {
@@ -78,9 +80,9 @@ export const BatchOperations = ({ connectionId, database, collection, dbType, on
     try {
       let filter: any
       if (isMongo) {
-        filter = JSON.parse(filterStr)
+        filter = parseShellSyntax(filterStr)
       } else {
-        filter = filterStr.trim() ? parsePostgresFilter(filterStr) : {}
+        filter = filterStr.trim() ? parseSqlFilter(filterStr) : {}
       }
 
       if (mode === 'delete') {
@@ -94,7 +96,7 @@ export const BatchOperations = ({ connectionId, database, collection, dbType, on
           tt.error(res.error)
         }
       } else {
-        const update = JSON.parse(updateStr)
+        const update = isMongo ? parseShellSyntax(updateStr) : JSON.parse(updateStr)
         const res = await databaseService.updateMany(connectionId, database, collection, filter, update, dbType as any)
         if (res.success) {
           setResult(`✅ Updated ${res.modifiedCount} of ${res.matchedCount} matched document(s)`)
@@ -5,6 +5,9 @@ interface DiffViewerProps {
   left: any
   right: any
   onClose: () => void
+  title?: string
+  leftLabel?: string
+  rightLabel?: string
 }
 
 type DiffType = 'added' | 'removed' | 'changed' | 'unchanged'
@@ -67,7 +70,7 @@ const diffColors: Record<DiffType, { bg: string; border: string; icon: string }>
   unchanged: { bg: '', border: 'border-l-transparent', icon: ' ' },
 }
 
-export const DiffViewer = ({ left, right, onClose }: DiffViewerProps) => {
+export const DiffViewer = ({ left, right, onClose, title = 'Document Diff', leftLabel = 'Left (Doc A)', rightLabel = 'Right (Doc B)' }: DiffViewerProps) => {
   const [showOnlyDiffs, setShowOnlyDiffs] = useState(false)
   const diffLines = useMemo(() => computeDiff(left, right), [left, right])
   const filtered = showOnlyDiffs ? diffLines.filter(d => d.type !== 'unchanged') : diffLines
@@ -84,7 +87,7 @@ export const DiffViewer = ({ left, right, onClose }: DiffViewerProps) => {
         {/* Header */}
         <div className="flex items-center justify-between px-4 py-3 border-b">
           <div className="flex items-center gap-3">
-            <h3 className="text-sm font-semibold">Document Diff</h3>
+            <h3 className="text-sm font-semibold">{title}</h3>
             <div className="flex gap-2 text-[10px]">
               <span className="text-green-400">+{stats.added} added</span>
               <span className="text-red-400">−{stats.removed} removed</span>
@@ -107,8 +110,8 @@ export const DiffViewer = ({ left, right, onClose }: DiffViewerProps) => {
           <div className="grid grid-cols-[32px_1fr_1fr_1fr] gap-0 sticky top-0 bg-muted/80 border-b text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
             <div className="px-1 py-2 text-center"></div>
             <div className="px-3 py-2">Field</div>
-            <div className="px-3 py-2 border-l">Left (Doc A)</div>
-            <div className="px-3 py-2 border-l">Right (Doc B)</div>
+            <div className="px-3 py-2 border-l">{leftLabel}</div>
+            <div className="px-3 py-2 border-l">{rightLabel}</div>
           </div>
           {filtered.length === 0 ? (
             <div className="p-8 text-center text-xs text-muted-foreground">Documents are identical</div>
@@ -1,10 +1,12 @@
 import React, { useState, useRef, useCallback } from 'react'
 import { useVirtualizer } from '@tanstack/react-virtual'
-import { Edit, Trash2, Copy, ChevronDown, ChevronRight, ArrowUp, ArrowDown, ChevronsUpDown, Search, Clock, Hash, Type, ToggleLeft, List, Braces } from 'lucide-react'
+import { Edit, Trash2, Undo2, Copy, ChevronDown, ChevronRight, ArrowUp, ArrowDown, ChevronsUpDown, Search, Clock, Hash, Type, ToggleLeft, List, Braces } from 'lucide-react'
 import { Button } from '@/components/common/Button'
 import { formatJSON } from '@/utils/formatters'
 import { useToast } from '@/components/common/Toast'
 import { NoDocuments } from '@/components/common/EmptyState'
+import { ejsonScalar, ejsonType, toShellSyntax } from '@/utils/ejson'
+import type { RowStatus } from '@/utils/stagedChanges'
 
 interface DocumentTableProps {
   documents: any[]
@@ -15,6 +17,14 @@ interface DocumentTableProps {
   sortDirection?: 1 | -1
   selectedDocs?: Set<string>
   onToggleSelect?: (rowKey: string, doc: any) => void
+  /** Staged-edit state of a row; deleted rows offer undo instead of delete */
+  rowStatus?: (doc: any) => RowStatus | undefined
+}
+
+const STATUS_CLASSES: Record<RowStatus, string> = {
+  inserted: '!bg-emerald-500/10',
+  updated: '!bg-amber-500/10',
+  deleted: '!bg-red-500/10 line-through opacity-60',
 }
 
 const ROW_HEIGHT = 36
@@ -23,11 +33,11 @@ const VIRTUALIZATION_THRESHOLD = 100
 
 /** Try to parse a value as a date. Returns formatted string or null. */
 const tryParseDate = (value: any): string | null => {
-  // MongoDB $date format
+  // MongoDB EJSON $date
   if (typeof value === 'object' && value !== null) {
-    if (value.$date) {
-      const d = new Date(typeof value.$date === 'string' ? value.$date : value.$date.$numberLong ? Number(value.$date.$numberLong) : value.$date)
-      if (!isNaN(d.getTime())) return d.toLocaleString()
+    if (ejsonType(value) === 'Date') {
+      const iso = ejsonScalar(value)
+      if (iso) return new Date(iso).toLocaleString()
     }
     if (value instanceof Date && !isNaN(value.getTime())) return value.toLocaleString()
   }
@@ -71,11 +81,11 @@ const ValueCell = ({ value }: { value: any }) => {
     return <span className="text-sky-400">{value.toLocaleString()}</span>
   }
   if (typeof value === 'object') {
-    if (value.$oid) return <span className="text-muted-foreground/70 font-mono text-[10px]">{value.$oid}</span>
-    if (value.buffer && typeof value.buffer === 'object') {
-      const bufferArray = Object.values(value.buffer) as number[]
-      return <span className="text-muted-foreground/70 font-mono text-[10px]">{bufferArray.map(b => b.toString(16).padStart(2, '0')).join('')}</span>
+    const type = ejsonType(value)
+    if (type === 'ObjectId' || type === 'Binary' || type === 'UUID') {
+      return <span className="text-muted-foreground/70 font-mono text-[10px]" title={type}>{ejsonScalar(value)}</span>
     }
+    if (type) return <span className="text-sky-400" title={type}>{ejsonScalar(value)}</span>
     if (Array.isArray(value)) {
       return <span className="text-violet-400">[{value.length} items]</span>
     }
@@ -91,11 +101,8 @@ const formatValue = (value: any): string => {
   const dateStr = tryParseDate(value)
   if (dateStr) return dateStr
   if (typeof value === 'object') {
-    if (value.$oid) return value.$oid
-    if (value.buffer && typeof value.buffer === 'object') {
-      const bufferArray = Object.values(value.buffer) as number[]
-      return bufferArray.map(b => b.toString(16).padStart(2, '0')).join('')
-    }
+    const scalar = ejsonScalar(value)
+    if (scalar !== null) return scalar
     if (Array.isArray(value)) return `[${value.length} items]`
     const str = JSON.stringify(value)
     return str.length > 60 ? str.slice(0, 57) + '...' : str
@@ -109,6 +116,9 @@ const getTypeInfo = (value: any): { icon: React.ReactNode; label: string; color:
   if (typeof value === 'boolean') return { icon: <ToggleLeft className="h-3 w-3" />, label: 'boolean', color: 'text-orange-400' }
   if (tryParseDate(value)) return { icon: <Clock className="h-3 w-3" />, label: 'date', color: 'text-amber-400' }
   if (typeof value === 'number') return { icon: <Hash className="h-3 w-3" />, label: 'number', color: 'text-sky-400' }
+  const bsonType = ejsonType(value)
+  if (bsonType === 'ObjectId' || bsonType === 'Binary' || bsonType === 'UUID') return { icon: <Hash className="h-3 w-3" />, label: bsonType, color: 'text-muted-foreground/70' }
+  if (bsonType) return { icon: <Hash className="h-3 w-3" />, label: bsonType, color: 'text-sky-400' }
   if (typeof value === 'string') return { icon: <Type className="h-3 w-3" />, label: 'string', color: 'text-foreground' }
   if (Array.isArray(value)) return { icon: <List className="h-3 w-3" />, label: `array[${value.length}]`, color: 'text-violet-400' }
   if (typeof value === 'object') return { icon: <Braces className="h-3 w-3" />, label: 'object', color: 'text-violet-400' }
@@ -171,8 +181,10 @@ const DocumentDetail = ({ doc, onCopy }: { doc: any; onCopy: (doc: any) => void
                     <span className={value ? 'text-emerald-400' : 'text-orange-400'}>{String(value)}</span>
                   ) : typeof value === 'number' ? (
                     <span className="text-sky-400">{value.toLocaleString()}</span>
+                  ) : ejsonType(value) ? (
+                    <span className={typeInfo.color}>{ejsonScalar(value)}</span>
                   ) : typeof value === 'object' ? (
-                    <span className="text-violet-400 text-[10px]">{JSON.stringify(value, null, 1).slice(0, 300)}</span>
+                    <span className="text-violet-400 text-[10px]">{toShellSyntax(value, 1).slice(0, 300)}</span>
                   ) : (
                     <span className="text-foreground/90">{String(value)}</span>
                   )}
@@ -186,7 +198,7 @@ const DocumentDetail = ({ doc, onCopy }: { doc: any; onCopy: (doc: any) => void
   )
 }
 
-export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField, sortDirection, selectedDocs, onToggleSelect }: DocumentTableProps) => {
+export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField, sortDirection, selectedDocs, onToggleSelect, rowStatus }: DocumentTableProps) => {
   const tt = useToast()
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
   const [columnFilters, setColumnFilters] = useState<Record<string, string>>({})
@@ -200,11 +212,7 @@ export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField,
 
   const getRowKey = (doc: any, index: number): string => {
     if (doc._id) {
-      if (typeof doc._id === 'object' && doc._id.$oid) return doc._id.$oid
-      if (typeof doc._id === 'object' && doc._id.buffer) {
-        const bufferArray = Object.values(doc._id.buffer) as number[]
-        return bufferArray.map(b => b.toString(16).padStart(2, '0')).join('')
-      }
+      if (typeof doc._id === 'object') return ejsonScalar(doc._id) ?? JSON.stringify(doc._id)
       return String(doc._id)
     }
     return `row-${index}`
@@ -295,11 +303,12 @@ export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField,
     const isExpanded = expandedRows.has(rowKey)
     const isSelected = selectedDocs?.has(rowKey)
     const isEven = index % 2 === 0
+    const status = rowStatus?.(doc)
     return (
       <React.Fragment key={rowKey}>
         <tr className={`group/row border-b border-border/50 transition-colors
           ${isSelected ? 'bg-primary/10 hover:bg-primary/15' : isEven ? 'bg-transparent hover:bg-muted/30' : 'bg-muted/10 hover:bg-muted/30'}
-          ${isExpanded ? '!bg-muted/20' : ''}`}
+          ${isExpanded ? '!bg-muted/20' : ''} ${status ? STATUS_CLASSES[status] : ''}`}
         >
           {onToggleSelect && (
             <td className="px-3 py-2 text-center w-10">
@@ -321,7 +330,9 @@ export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField,
             <div className="flex gap-0.5 justify-end opacity-0 group-hover/row:opacity-100 transition-opacity">
               <Button variant="ghost" size="icon" onClick={() => copyToClipboard(doc)} className="h-7 w-7" title="Copy"><Copy className="h-3.5 w-3.5" /></Button>
               <Button variant="ghost" size="icon" onClick={() => onEdit(doc)} className="h-7 w-7" title="Edit"><Edit className="h-3.5 w-3.5" /></Button>
-              <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7 hover:text-destructive" title="Delete"><Trash2 className="h-3.5 w-3.5" /></Button>
+              {status === 'deleted'
+                ? <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7" title="Undo delete"><Undo2 className="h-3.5 w-3.5" /></Button>
+                : <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7 hover:text-destructive" title="Delete"><Trash2 className="h-3.5 w-3.5" /></Button>}
             </div>
           </td>
         </tr>
@@ -378,6 +389,7 @@ export const DocumentTable = ({ documents, onEdit, onDelete, onSort, sortField,
       hasFilters={hasFilters}
       documents={documents}
       renderTableHeader={renderTableHeader}
+      rowStatus={rowStatus}
     />
   )
 }
@@ -387,7 +399,7 @@ function VirtualizedTableBody({
   getRowKey, toggleRow, copyToClipboard,
   onEdit, onDelete, sortField, sortDirection, filteringColumn,
   setFilteringColumn, columnFilters, setColumnFilters, hasFilters,
-  documents, renderTableHeader,
+  documents, renderTableHeader, rowStatus,
 }: any) {
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
@@ -417,6 +429,7 @@ function VirtualizedTableBody({
                   const isExpanded = expandedRows.has(rowKey)
                   const isSelected = selectedDocs?.has(rowKey)
                   const isEven = index % 2 === 0
+                  const status: RowStatus | undefined = rowStatus?.(doc)
                   return (
                     <div
                       key={rowKey}
@@ -427,7 +440,7 @@ function VirtualizedTableBody({
                         <tbody>
                           <tr className={`group/row border-b border-border/50 transition-colors
                             ${isSelected ? 'bg-primary/10 hover:bg-primary/15' : isEven ? 'bg-transparent hover:bg-muted/30' : 'bg-muted/10 hover:bg-muted/30'}
-                            ${isExpanded ? '!bg-muted/20' : ''}`}
+                            ${isExpanded ? '!bg-muted/20' : ''} ${status ? STATUS_CLASSES[status] : ''}`}
                           >
                             {onToggleSelect && (
                               <td className="px-3 py-2 text-center w-10">
@@ -449,7 +462,9 @@ function VirtualizedTableBody({
                               <div className="flex gap-0.5 justify-end opacity-0 group-hover/row:opacity-100 transition-opacity">
                                 <Button variant="ghost" size="icon" onClick={() => copyToClipboard(doc)} className="h-7 w-7" title="Copy"><Copy className="h-3.5 w-3.5" /></Button>
                                 <Button variant="ghost" size="icon" onClick={() => onEdit(doc)} className="h-7 w-7" title="Edit"><Edit className="h-3.5 w-3.5" /></Button>
-                                <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7 hover:text-destructive" title="Delete"><Trash2 className="h-3.5 w-3.5" /></Button>
+                                {status === 'deleted'
+                                  ? <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7" title="Undo delete"><Undo2 className="h-3.5 w-3.5" /></Button>
+                                  : <Button variant="ghost" size="icon" onClick={() => onDelete(doc)} className="h-7 w-7 hover:text-destructive" title="Delete"><Trash2 className="h-3.5 w-3.5" /></Button>}
                               </div>
                             </td>
                           </tr>
@@ -1,24 +1,27 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useMemo } from 'react'
 import { Radio, RefreshCw, Send, Copy, FileJson, Table, ChevronDown, ChevronRight, Search, X, Info, Server } from 'lucide-react'
 import { Input } from '@/components/common/Input'
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
 import { Skeleton } from '@/components/common/Skeleton'
+import { useKafkaConsume } from '@/features/kafka-tools/hooks/useKafkaConsume'
+import { KafkaConsumeControls } from '@/features/kafka-tools/components/KafkaConsumeControls'
+import { KafkaSchemaBadge } from '@/features/kafka-tools/components/KafkaSchemaBadge'
 
 export const KafkaMessageViewer = () => {
-  const { activeConnectionId, selectedDatabase, selectedCollection } = useConnectionStore()
+  const { activeConnectionId, selectedDatabase, selectedCollection, getActiveConnection } = useConnectionStore()
+  const hasRegistry = !!getActiveConnection()?.kafkaSchemaRegistry?.url
   const tt = useToast()
-  const [messages, setMessages] = useState<any[]>([])
-  const [loading, setLoading] = useState(false)
-  const [limit, setLimit] = useState(50)
-  const [fromBeginning, setFromBeginning] = useState(true)
+  const consume = useKafkaConsume(activeConnectionId, selectedCollection)
+  const { messages, loading } = consume
   const [viewMode, setViewMode] = useState<'table' | 'json'>('table')
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
   // Produce message state
   const [showProduce, setShowProduce] = useState(false)
   const [produceKey, setProduceKey] = useState('')
   const [produceValue, setProduceValue] = useState('')
+  const [produceSubject, setProduceSubject] = useState('')
   const [producing, setProducing] = useState(false)
   // Filter state
   const [filterKey, setFilterKey] = useState('')
@@ -29,42 +32,20 @@ export const KafkaMessageViewer = () => {
   const [partitionDetails, setPartitionDetails] = useState<any>(null)
   const [partitionLoading, setPartitionLoading] = useState(false)
 
-  useEffect(() => {
-    if (activeConnectionId && selectedCollection) {
-      consumeMessages()
-    } else {
-      setMessages([])
-    }
-  }, [activeConnectionId, selectedCollection])
-
-  const consumeMessages = async () => {
-    if (!activeConnectionId || !selectedCollection) return
-    try {
-      setLoading(true)
-      const result = await databaseService.kafkaConsumeMessages(activeConnectionId, selectedCollection, limit, fromBeginning)
-      if (result.success) {
-        setMessages(result.documents || [])
-      }
-    } catch (error: any) {
-      tt.error('Failed to consume: ' + error.message)
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const handleProduce = async () => {
     if (!activeConnectionId || !selectedCollection) return
     if (!produceValue.trim()) { tt.warning('Message value is required'); return }
     try {
       setProducing(true)
       const messages = [{ key: produceKey || undefined, value: produceValue }]
-      const result = await databaseService.kafkaProduceMessage(activeConnectionId, selectedCollection, messages as any)
+      const schema = hasRegistry && produceSubject.trim() ? { subject: produceSubject.trim() } : undefined
+      const result = await databaseService.kafkaProduceMessage(activeConnectionId, selectedCollection, messages, schema)
       if (result.success) {
         tt.success('Message sent!')
         setProduceKey('')
         setProduceValue('')
         setShowProduce(false)
-        await consumeMessages()
+        await consume.consume()
       }
     } catch (error: any) {
       tt.error('Produce failed: ' + error.message)
@@ -158,7 +139,7 @@ export const KafkaMessageViewer = () => {
             <Copy className="h-3.5 w-3.5" />
             Copy
           </button>
-          <button onClick={consumeMessages} disabled={loading} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent transition-colors disabled:opacity-50">
+          <button onClick={consume.consume} disabled={loading} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent transition-colors disabled:opacity-50">
             <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
             Consume
           </button>
@@ -169,11 +150,17 @@ export const KafkaMessageViewer = () => {
       {showProduce && (
         <div className="rounded-md border bg-card p-3 space-y-2">
           <span className="text-[11px] font-semibold">Produce Message</span>
-          <div className="grid grid-cols-2 gap-2">
+          <div className={`grid ${hasRegistry ? 'grid-cols-3' : 'grid-cols-2'} gap-2`}>
             <div>
               <label className="text-[10px] text-muted-foreground mb-0.5 block">Key (optional)</label>
               <Input value={produceKey} onChange={(e) => setProduceKey(e.target.value)} placeholder="Message key" className="text-[11px] h-7 font-mono" />
             </div>
+            {hasRegistry && (
+              <div>
+                <label className="text-[10px] text-muted-foreground mb-0.5 block">Value schema subject (optional)</label>
+                <Input value={produceSubject} onChange={(e) => setProduceSubject(e.target.value)} placeholder={`${selectedCollection}-value`} className="text-[11px] h-7 font-mono" />
+              </div>
+            )}
             <div className="flex items-end gap-1.5">
               <button onClick={handleProduce} disabled={producing} className="px-3 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50">
                 {producing ? 'Sending...' : 'Send'}
@@ -189,14 +176,7 @@ export const KafkaMessageViewer = () => {
 
       {/* Consume Controls */}
       <div className="flex gap-1.5 items-center">
-        <div className="flex items-center gap-1.5">
-          <label className="text-[10px] text-muted-foreground">Limit:</label>
-          <Input type="number" value={String(limit)} onChange={(e) => setLimit(Number(e.target.value) || 50)} className="w-20 text-[11px] h-7" />
-        </div>
-        <label className="flex items-center gap-1 text-[10px] text-muted-foreground cursor-pointer">
-          <input type="checkbox" checked={fromBeginning} onChange={(e) => setFromBeginning(e.target.checked)} className="rounded border-border" />
-          From beginning
-        </label>
+        <KafkaConsumeControls consume={consume} />
         <div className="flex-1" />
         <span className="text-[11px] text-muted-foreground">
           {filterKey || filterValue ? `${filteredMessages.length} / ` : ''}{messages.length} messages
@@ -319,7 +299,10 @@ export const KafkaMessageViewer = () => {
                         <td className="px-2 py-1.5 font-mono text-amber-400">{msg.partition}</td>
                         <td className="px-2 py-1.5 font-mono text-muted-foreground">{msg.offset}</td>
                         <td className="px-2 py-1.5 font-mono truncate max-w-[200px]" title={msg.key || ''}>{msg.key || <span className="text-muted-foreground/50">null</span>}</td>
-                        <td className="px-2 py-1.5 font-mono truncate max-w-[400px]" title={msg.value || ''}>{msg.value || <span className="text-muted-foreground/50">null</span>}</td>
+                        <td className="px-2 py-1.5 font-mono truncate max-w-[400px]" title={msg.value || ''}>
+                          <KafkaSchemaBadge message={msg} />
+                          {msg.value || <span className="text-muted-foreground/50">null</span>}
+                        </td>
                         <td className="px-2 py-1.5 text-muted-foreground">{formatTimestamp(msg.timestamp)}</td>
                       </tr>
                       {isExpanded && (
@@ -327,6 +310,7 @@ export const KafkaMessageViewer = () => {
                           <td colSpan={6} className="px-4 py-2 bg-muted/20">
                             <div className="space-y-1">
                               <div className="text-[10px] text-muted-foreground">Partition: {msg.partition} | Offset: {msg.offset} | Timestamp: {formatTimestamp(msg.timestamp)}</div>
+                              {msg.decodeError && <div className="text-[10px] text-red-400">Could not decode with the Schema Registry: {msg.decodeError}</div>}
                               {msg.key && <div><span className="text-[10px] text-muted-foreground">Key:</span><pre className="text-[11px] font-mono mt-0.5">{msg.key}</pre></div>}
                               <div><span className="text-[10px] text-muted-foreground">Value:</span><pre className="text-[11px] font-mono mt-0.5 whitespace-pre-wrap break-all">{tryParseJSON(msg.value)}</pre></div>
                               {msg.headers && Object.keys(msg.headers).length > 0 && (
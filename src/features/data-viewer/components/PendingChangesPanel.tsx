@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react'
+import { X, GitCompareArrows, Undo2, Check, Trash2, RefreshCw } from 'lucide-react'
+import { DiffViewer } from './DiffViewer'
+import { toShellSyntax } from '@/utils/ejson'
+import { changedFields, inlineSqlValues, toBulkWriteOperations, toSqlStatements, type StagedChange } from '@/utils/stagedChanges'
+
+interface PendingChangesPanelProps {
+  changes: StagedChange[]
+  dbType: string
+  table: string
+  applying: boolean
+  onApply: () => void
+  onDiscard: () => void
+  onRevert: (key: string) => void
+  onClose: () => void
+}
+
+const KIND_STYLES: Record<StagedChange['kind'], string> = {
+  insert: 'bg-emerald-500/15 text-emerald-400',
+  update: 'bg-amber-500/15 text-amber-400',
+  delete: 'bg-red-500/15 text-red-400',
+}
+
+/** One line describing what a change touches */
+const summarize = (change: StagedChange) => {
+  if (change.kind === 'insert') return `${Object.keys(change.after).length} fields`
+  const where = Object.entries(change.filter).map(([k, v]) => `${k} = ${toShellSyntax(v, 0)}`).join(', ')
+  if (change.kind === 'delete') return where
+  const { set, unset } = changedFields(change.before, change.after)
+  return `${where} · ${[...Object.keys(set), ...unset].join(', ')}`
+}
+
+export const PendingChangesPanel = ({ changes, dbType, table, applying, onApply, onDiscard, onRevert, onClose }: PendingChangesPanelProps) => {
+  const [diffKey, setDiffKey] = useState<string | null>(null)
+  const diffChange = changes.find(c => c.key === diffKey)
+
+  // What will actually be sent, so the preview never drifts from the apply
+  const preview = useMemo(() => dbType === 'postgresql'
+    ? toSqlStatements(changes, table).map(s => `${inlineSqlValues(s)};`).join('\n')
+    : toBulkWriteOperations(changes).map(operation => {
+      const [method, args] = Object.entries(operation)[0]
+      return `db.getCollection(${JSON.stringify(table)}).${method}(${Object.values(args).map(toShellSyntax).join(', ')})`
+    }).join('\n'),
+  [changes, dbType, table])
+
+  return (
+    <>
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60" onClick={() => { if (!applying) onClose() }}>
+      <div className="bg-background border rounded-lg w-[900px] max-h-[85vh] flex flex-col shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div className="flex items-center gap-3">
+            <h3 className="text-sm font-semibold">Pending Changes</h3>
+            <span className="text-[10px] text-muted-foreground">
+              {changes.length} change{changes.length !== 1 ? 's' : ''} · applied {dbType === 'postgresql' ? 'in one transaction' : 'in order, in one transaction on a replica set'}
+            </span>
+          </div>
+          <button onClick={onClose} disabled={applying} className="p-1 rounded hover:bg-accent disabled:opacity-50"><X className="h-4 w-4" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {changes.map(change => (
+            <div key={change.key} className="flex items-center gap-3 px-4 py-2 border-b border-border/40 text-xs">
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+              <span className="flex-1 font-mono truncate" title={summarize(change)}>{summarize(change)}</span>
+              {change.kind === 'update' && (
+                <button onClick={() => setDiffKey(change.key)} className="flex items-center gap-1 px-2 py-1 text-[10px] rounded border hover:bg-accent transition-colors">
+                  <GitCompareArrows className="h-3 w-3" /> Diff
+                </button>
+              )}
+              <button onClick={() => onRevert(change.key)} disabled={applying}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] rounded border hover:bg-accent transition-colors disabled:opacity-50">
+                <Undo2 className="h-3 w-3" /> Revert
+              </button>
+            </div>
+          ))}
+
+          <div className="px-4 py-3">
+            <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground mb-1.5">
+              {dbType === 'postgresql' ? 'Generated SQL' : 'Generated operations'}
+            </div>
+            <pre className="text-[11px] font-mono bg-muted/50 rounded-md p-3 overflow-auto max-h-[260px] whitespace-pre-wrap">{preview}</pre>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t">
+          <button onClick={onDiscard} disabled={applying}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10 disabled:opacity-50">
+            <Trash2 className="h-3.5 w-3.5" /> Discard All
+          </button>
+          <button onClick={onApply} disabled={applying || changes.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+            {applying ? <RefreshCw className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+            {applying ? 'Applying...' : `Apply ${changes.length} Change${changes.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+
+    {diffChange?.kind === 'update' && (
+      <DiffViewer left={diffChange.before} right={diffChange.after} onClose={() => setDiffKey(null)}
+        title="Staged Edit" leftLabel="Current" rightLabel="Pending" />
+    )}
+    </>
+  )
+}
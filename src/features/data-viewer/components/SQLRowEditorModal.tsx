@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react'
 import { X, Loader2, AlertCircle, Save, Plus, Hash, Type, Calendar, Clock, ToggleLeft, Braces, Table2, Sparkles, Ban } from 'lucide-react'
-import { postgresqlService } from '@/services/postgresql.service'
+import { databaseService } from '@/services/database.service'
 
 interface ColumnSchema {
   column_name: string
@@ -10,6 +10,8 @@ interface ColumnSchema {
   character_maximum_length: number | null
   numeric_precision: number | null
   numeric_scale: number | null
+  /** MySQL only — e.g. "auto_increment" */
+  extra?: string
 }
 
 interface SQLRowEditorModalProps {
@@ -22,19 +24,26 @@ interface SQLRowEditorModalProps {
   onClose: () => void
 }
 
+/** MySQL reports BOOLEAN columns as tinyint(1); SQL Server uses bit */
+const isBooleanType = (t: string) => t.includes('boolean') || t.startsWith('tinyint(1)') || t === 'bit'
+
+/** MySQL integer types: int, int(11), bigint unsigned, ... */
+const isMySQLIntType = (t: string) => /^(tiny|small|medium|big)?int\b/.test(t)
+
 function getInputType(dataType: string): string {
   const t = dataType.toLowerCase()
-  if (['integer', 'bigint', 'smallint', 'numeric', 'decimal', 'real', 'double precision', 'serial', 'bigserial'].some(n => t.includes(n))) return 'number'
-  if (t.includes('boolean')) return 'checkbox'
+  if (isBooleanType(t)) return 'checkbox'
+  if (['integer', 'bigint', 'smallint', 'numeric', 'decimal', 'real', 'double', 'float', 'serial', 'bigserial', 'money'].some(n => t.includes(n)) || isMySQLIntType(t)) return 'number'
   if (t === 'date') return 'date'
-  if (t.includes('timestamp')) return 'datetime-local'
+  if (t.includes('timestamp') || t.includes('datetime')) return 'datetime-local'
   if (t.includes('time') && !t.includes('timestamp')) return 'time'
   return 'text'
 }
 
 function isAutoGenerated(col: ColumnSchema): boolean {
   const def = col.column_default || ''
-  return def.includes('nextval(') || def.includes('gen_random_uuid')
+  return def.includes('nextval(') || def.includes('gen_random_uuid') || /newid\(\)|newsequentialid\(\)/i.test(def)
+    || ['auto_increment', 'computed'].some(e => (col.extra || '').includes(e))
 }
 
 function isJsonType(dataType: string): boolean {
@@ -44,7 +53,8 @@ function isJsonType(dataType: string): boolean {
 
 function isTextLong(col: ColumnSchema): boolean {
   const t = col.data_type.toLowerCase()
-  return t === 'text' || (t.includes('character') && (col.character_maximum_length === null || col.character_maximum_length > 255))
+  // SQL Server reports (n)varchar(max) with a length of -1
+  return t.endsWith('text') || col.character_maximum_length === -1 || (t.includes('character') && (col.character_maximum_length === null || col.character_maximum_length > 255))
 }
 
 /** Convert a date value from DB into the format required by HTML date/time inputs */
@@ -75,10 +85,10 @@ function formatDateForInput(value: any, inputType: string): string {
 
 function getTypeIcon(dataType: string) {
   const t = dataType.toLowerCase()
-  if (['integer', 'bigint', 'smallint', 'numeric', 'decimal', 'real', 'double precision', 'serial', 'bigserial'].some(n => t.includes(n))) return Hash
-  if (t.includes('boolean')) return ToggleLeft
+  if (isBooleanType(t)) return ToggleLeft
+  if (['integer', 'bigint', 'smallint', 'numeric', 'decimal', 'real', 'double', 'float', 'serial', 'bigserial', 'money'].some(n => t.includes(n)) || isMySQLIntType(t)) return Hash
   if (t === 'date') return Calendar
-  if (t.includes('timestamp')) return Calendar
+  if (t.includes('timestamp') || t.includes('datetime')) return Calendar
   if (t.includes('time')) return Clock
   if (t === 'json' || t === 'jsonb') return Braces
   return Type
@@ -86,9 +96,9 @@ function getTypeIcon(dataType: string) {
 
 function getTypeBadgeColor(dataType: string): string {
   const t = dataType.toLowerCase()
-  if (['integer', 'bigint', 'smallint', 'serial', 'bigserial'].some(n => t.includes(n))) return 'text-blue-400 bg-blue-500/10 border-blue-500/20'
-  if (['numeric', 'decimal', 'real', 'double'].some(n => t.includes(n))) return 'text-cyan-400 bg-cyan-500/10 border-cyan-500/20'
-  if (t.includes('boolean')) return 'text-amber-400 bg-amber-500/10 border-amber-500/20'
+  if (isBooleanType(t)) return 'text-amber-400 bg-amber-500/10 border-amber-500/20'
+  if (['integer', 'bigint', 'smallint', 'serial', 'bigserial'].some(n => t.includes(n)) || isMySQLIntType(t)) return 'text-blue-400 bg-blue-500/10 border-blue-500/20'
+  if (['numeric', 'decimal', 'real', 'double', 'float', 'money'].some(n => t.includes(n))) return 'text-cyan-400 bg-cyan-500/10 border-cyan-500/20'
   if (t.includes('timestamp') || t === 'date' || t.includes('time')) return 'text-purple-400 bg-purple-500/10 border-purple-500/20'
   if (t === 'json' || t === 'jsonb') return 'text-orange-400 bg-orange-500/10 border-orange-500/20'
   if (t === 'uuid') return 'text-pink-400 bg-pink-500/10 border-pink-500/20'
@@ -110,7 +120,7 @@ export function SQLRowEditorModal({ mode, doc, connectionId, database, table, on
   const loadSchema = async () => {
     try {
       setLoading(true)
-      const result = await postgresqlService.getTableSchema(connectionId, database, table)
+      const result = await databaseService.getTableSchema(connectionId, database, table)
       if (result.success && result.columns) {
         setColumns(result.columns)
         const initial: Record<string, any> = {}
@@ -253,7 +263,7 @@ export function SQLRowEditorModal({ mode, doc, connectionId, database, table, on
           <div className="flex-1" />
           <span className={`text-[9px] font-mono font-medium px-1.5 py-0.5 rounded-md border ${badgeColor}`}>
             {col.data_type.toUpperCase()}
-            {col.character_maximum_length ? `(${col.character_maximum_length})` : ''}
+            {col.character_maximum_length === -1 ? '(MAX)' : col.character_maximum_length ? `(${col.character_maximum_length})` : ''}
           </span>
           {nullable && !autoGen && (
             <button
@@ -315,7 +325,7 @@ export function SQLRowEditorModal({ mode, doc, connectionId, database, table, on
             onChange={e => handleChange(col.column_name, e.target.value)}
             placeholder={autoGen && mode === 'insert' ? '(auto-generated)' : col.column_default ? `Default: ${col.column_default}` : ''}
             disabled={isDisabled}
-            step={inputType === 'number' && (col.data_type.toLowerCase().includes('numeric') || col.data_type.toLowerCase().includes('decimal') || col.data_type.toLowerCase().includes('real') || col.data_type.toLowerCase().includes('double')) ? 'any' : undefined}
+            step={inputType === 'number' && (col.data_type.toLowerCase().includes('numeric') || col.data_type.toLowerCase().includes('decimal') || col.data_type.toLowerCase().includes('real') || col.data_type.toLowerCase().includes('double') || col.data_type.toLowerCase().includes('money')) ? 'any' : undefined}
           />
         )}
       </div>
@@ -1,9 +1,12 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useConnectionStore } from '@/store/connectionStore'
 import { useAISettingsStore } from '@/store/aiSettingsStore'
 import { databaseService } from '@/services/database.service'
 import { aiService } from '@/services/ai.service'
 import { useToast } from '@/components/common/Toast'
+import { isSQLDatabase } from '@/utils/dbTypes'
+import { ejsonScalar, parseShellSyntax, toShellSyntax } from '@/utils/ejson'
+import { overlayChanges, stageChange, toMongoUpdate, unstageChange, type StagedChange } from '@/utils/stagedChanges'
 
 export type ViewMode = 'table' | 'json' | 'tree'
 
@@ -32,6 +35,11 @@ export function useDataViewer() {
   const [showBatch, setShowBatch] = useState(false)
   const [showAI, setShowAI] = useState(false)
   const [showFilter, setShowFilter] = useState(false)
+  const [staging, setStagingState] = useState(false)
+  const [changes, setChanges] = useState<StagedChange[]>([])
+  const [showChanges, setShowChanges] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const insertCounterRef = useRef(0)
 
   const activeConnection = getActiveConnection()
   const dbType = activeConnection?.type || 'mongodb'
@@ -47,7 +55,7 @@ export function useDataViewer() {
       setLoading(true)
       let filterObj = {}
       try {
-        filterObj = JSON.parse(customFilter !== undefined ? customFilter : filter)
+        filterObj = parseShellSyntax(customFilter !== undefined ? customFilter : filter)
       } catch { /* invalid filter */ }
 
       const queryLimit = customOptions?.limit !== undefined ? customOptions.limit : limit
@@ -81,7 +89,7 @@ export function useDataViewer() {
   }, [activeConnectionId, selectedDatabase, selectedCollection, page, isRedis, isKafka])
 
   const buildRowFilter = useCallback((doc: any) => {
-    if (dbType !== 'postgresql') return { _id: doc._id }
+    if (!isSQLDatabase(dbType)) return { _id: doc._id }
     if (doc.id !== undefined) return { id: doc.id }
     const f: Record<string, any> = {}
     for (const [key, val] of Object.entries(doc)) {
@@ -90,6 +98,18 @@ export function useDataViewer() {
     return f
   }, [dbType])
 
+  // Staged edits: rows are matched to their changes by the filter that would address them
+  const rowKeyOf = useCallback((doc: any) => JSON.stringify(buildRowFilter(doc)), [buildRowFilter])
+  const stagedRows = useMemo(() => overlayChanges(documents, changes, rowKeyOf), [documents, changes, rowKeyOf])
+  const stagedRowByDoc = useMemo(() => new Map(stagedRows.map(row => [row.doc, row])), [stagedRows])
+  const displayDocuments = useMemo(() => (changes.length > 0 ? stagedRows.map(row => row.doc) : documents), [changes.length, stagedRows, documents])
+  const rowStatus = useCallback((doc: any) => stagedRowByDoc.get(doc)?.status, [stagedRowByDoc])
+
+  useEffect(() => {
+    setChanges([])
+    setShowChanges(false)
+  }, [activeConnectionId, selectedDatabase, selectedCollection])
+
   const handleToggleSelect = useCallback((rowKey: string, doc: any) => {
     setSelectedDocs(prev => {
       const next = new Set(prev)
@@ -111,26 +131,45 @@ export function useDataViewer() {
   }, [selectedDocs.size, tt])
 
   const handleEdit = useCallback((doc: any) => {
-    const docForEdit = { ...doc }
-    if (docForEdit._id && typeof docForEdit._id === 'object' && docForEdit._id.buffer) {
-      const bufferArray = Object.values(docForEdit._id.buffer) as number[]
-      docForEdit._id = bufferArray.map(b => b.toString(16).padStart(2, '0')).join('')
-    }
-    setEditDoc({ mode: 'edit', doc: docForEdit })
-    setEditDocValue(JSON.stringify(docForEdit, null, 2))
-  }, [])
+    if (stagedRowByDoc.get(doc)?.status === 'deleted') { tt.warning('Undo the delete before editing this row'); return }
+    setEditDoc({ mode: 'edit', doc })
+    setEditDocValue(toShellSyntax(doc))
+  }, [stagedRowByDoc, tt])
 
   const handleUpdate = useCallback(async (oldDoc: any, newDoc: any) => {
     if (!activeConnectionId || !selectedDatabase || !selectedCollection) return
+    if (staging) {
+      const row = stagedRowByDoc.get(oldDoc)
+      // The SQL row editor leaves out empty nullable columns, so keep the rest of the row
+      const after = isSQLDatabase(dbType) ? { ...oldDoc, ...newDoc } : newDoc
+      if (row?.status === 'inserted') {
+        setChanges(prev => stageChange(prev, { kind: 'update', key: row.key, filter: {}, before: oldDoc, after }))
+      } else {
+        const original = changes.find(c => c.key === row?.key && c.kind === 'update')
+        const before = original?.kind === 'update' ? original.before : oldDoc
+        setChanges(prev => stageChange(prev, { kind: 'update', key: row?.key ?? rowKeyOf(oldDoc), filter: buildRowFilter(before), before, after }))
+      }
+      return
+    }
     try {
       const f = buildRowFilter(oldDoc)
-      const result = await databaseService.updateDocument(activeConnectionId, selectedDatabase, selectedCollection, f, newDoc)
+      // MongoDB gets only the changed fields, so an edit never rewrites the others' BSON types
+      const update = isSQLDatabase(dbType) ? newDoc : toMongoUpdate(oldDoc, newDoc)
+      if (!update) { tt.info('No changes to save'); return }
+      const result = await databaseService.updateDocument(activeConnectionId, selectedDatabase, selectedCollection, f, update)
       if (result.success) { tt.success('Document updated!'); loadDocuments() }
       else { tt.error('Update failed: ' + result.error) }
     } catch (error) { tt.error('Update error: ' + error) }
-  }, [activeConnectionId, selectedDatabase, selectedCollection, buildRowFilter, loadDocuments, tt])
+  }, [activeConnectionId, selectedDatabase, selectedCollection, staging, stagedRowByDoc, changes, dbType, rowKeyOf, buildRowFilter, loadDocuments, tt])
 
   const handleDelete = useCallback((doc: any) => {
+    if (staging) {
+      const row = stagedRowByDoc.get(doc)
+      const key = row?.key ?? rowKeyOf(doc)
+      if (row?.status === 'deleted') { setChanges(prev => unstageChange(prev, key)); return }
+      setChanges(prev => stageChange(prev, { kind: 'delete', key, filter: buildRowFilter(doc), before: doc }))
+      return
+    }
     tt.confirm('Are you sure you want to delete this document?', async () => {
       if (!activeConnectionId || !selectedDatabase || !selectedCollection) return
       try {
@@ -140,7 +179,7 @@ export function useDataViewer() {
         else { tt.error('Delete failed: ' + result.error) }
       } catch (error: any) { tt.error('Delete error: ' + error.message) }
     })
-  }, [activeConnectionId, selectedDatabase, selectedCollection, buildRowFilter, loadDocuments, tt])
+  }, [activeConnectionId, selectedDatabase, selectedCollection, staging, stagedRowByDoc, rowKeyOf, buildRowFilter, loadDocuments, tt])
 
   const handleInsert = useCallback(() => {
     setEditDoc({ mode: 'insert', doc: {} })
@@ -149,12 +188,58 @@ export function useDataViewer() {
 
   const insertDocument = useCallback(async (doc: any) => {
     if (!activeConnectionId || !selectedDatabase || !selectedCollection) return
+    if (staging) {
+      const key = `new-${++insertCounterRef.current}`
+      setChanges(prev => stageChange(prev, { kind: 'insert', key, after: doc }))
+      return
+    }
     try {
       const result = await databaseService.insertDocument(activeConnectionId, selectedDatabase, selectedCollection, doc)
       if (result.success) { tt.success('Document inserted!'); loadDocuments() }
       else { tt.error('Insert failed: ' + result.error) }
     } catch { /* silent */ }
-  }, [activeConnectionId, selectedDatabase, selectedCollection, loadDocuments, tt])
+  }, [activeConnectionId, selectedDatabase, selectedCollection, staging, loadDocuments, tt])
+
+  const revertChange = useCallback((key: string) => setChanges(prev => unstageChange(prev, key)), [])
+
+  const discardChanges = useCallback(() => {
+    setChanges([])
+    setShowChanges(false)
+  }, [])
+
+  const setStaging = useCallback((enabled: boolean) => {
+    if (enabled || changes.length === 0) { setStagingState(enabled); return }
+    tt.confirm(`Discard ${changes.length} pending change${changes.length !== 1 ? 's' : ''}?`, () => {
+      discardChanges()
+      setStagingState(false)
+    })
+  }, [changes.length, discardChanges, tt])
+
+  const applyChanges = useCallback(async () => {
+    if (!activeConnectionId || !selectedDatabase || !selectedCollection || changes.length === 0) return
+    setApplying(true)
+    try {
+      const result = await databaseService.applyStagedChanges(activeConnectionId, selectedDatabase, selectedCollection, changes)
+      if (result.success) {
+        tt.success(`Applied ${changes.length} change${changes.length !== 1 ? 's' : ''}`)
+        discardChanges()
+        loadDocuments()
+      } else if (result.appliedIndexes?.length > 0) {
+        // Without a transaction the writes that went through stay written — drop those, keep stale and unattempted ones
+        const applied = new Set<number>(result.appliedIndexes)
+        setChanges(prev => prev.filter((_, i) => !applied.has(i)))
+        tt.error(`${result.error}. ${applied.size} other change${applied.size !== 1 ? 's were' : ' was'} written; the rest stay pending.`)
+        loadDocuments()
+      } else {
+        const at = result.failedIndex !== undefined ? ` at change ${result.failedIndex + 1}` : ''
+        tt.error(`Apply failed${at}: ${result.error}. Nothing was changed.`)
+      }
+    } catch (error: any) {
+      tt.error('Apply error: ' + error.message)
+    } finally {
+      setApplying(false)
+    }
+  }, [activeConnectionId, selectedDatabase, selectedCollection, changes, discardChanges, loadDocuments, tt])
 
   const handleAiQuery = useCallback(async () => {
     if (!naturalLanguageQuery.trim()) { tt.warning('Please enter a query'); return }
@@ -200,7 +285,7 @@ export function useDataViewer() {
       })
       if (fetchAll) {
         try {
-          const allResult = await databaseService.executeQuery(activeConnectionId!, selectedDatabase!, selectedCollection!, JSON.parse(filter || '{}'), { limit: 50000, sort })
+          const allResult = await databaseService.executeQuery(activeConnectionId!, selectedDatabase!, selectedCollection!, parseShellSyntax(filter || '{}'), { limit: 50000, sort })
           if (allResult.success && allResult.documents) exportDocs = allResult.documents
         } catch { /* use current page */ }
       }
@@ -225,13 +310,13 @@ export function useDataViewer() {
       })
       if (fetchAll) {
         try {
-          const allResult = await databaseService.executeQuery(activeConnectionId!, selectedDatabase!, selectedCollection!, JSON.parse(filter || '{}'), { limit: 50000, sort })
+          const allResult = await databaseService.executeQuery(activeConnectionId!, selectedDatabase!, selectedCollection!, parseShellSyntax(filter || '{}'), { limit: 50000, sort })
           if (allResult.success && allResult.documents) exportDocs = allResult.documents
         } catch { /* use current page */ }
       }
     }
     const keys = [...new Set(exportDocs.flatMap(d => Object.keys(d)))]
-    const esc = (v: any) => { const s = v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v); return s.includes(',') || s.includes('"') || s.includes('\n') ? `"${s.replace(/"/g, '""')}"` : s }
+    const esc = (v: any) => { const s = v === null || v === undefined ? '' : typeof v === 'object' ? ejsonScalar(v) ?? JSON.stringify(v) : String(v); return s.includes(',') || s.includes('"') || s.includes('\n') ? `"${s.replace(/"/g, '""')}"` : s }
     const csv = [keys.join(','), ...exportDocs.map(row => keys.map(k => esc(row[k])).join(','))].join('\n')
     const res = await window.electronAPI.dialog.showSaveDialog({
       defaultPath: `${selectedCollection}.csv`,
@@ -269,7 +354,7 @@ export function useDataViewer() {
     // Connection info
     activeConnectionId, selectedDatabase, selectedCollection, dbType, isRedis, isKafka,
     // Data
-    documents, loading, totalCount, totalPages,
+    documents, displayDocuments, loading, totalCount, totalPages,
     // Pagination
     page, limit, goToPage, setGoToPage, handlePageChange, handleLimitChange,
     // Sort
@@ -282,6 +367,8 @@ export function useDataViewer() {
     editDoc, setEditDoc, editDocValue, setEditDocValue, handleEdit, handleUpdate, handleDelete, handleInsert, insertDocument,
     // Selection & Diff
     selectedDocs, selectedDocsData, handleToggleSelect, handleCompare, clearSelection, showDiff, setShowDiff,
+    // Staged edits
+    staging, setStaging, changes, rowStatus, revertChange, discardChanges, applyChanges, applying, showChanges, setShowChanges,
     // Batch
     showBatch, setShowBatch,
     // AI
@@ -1,4 +1,4 @@
-import { RefreshCw, Plus, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Table, FileJson, GitBranch, Sparkles, Download, X, FileSpreadsheet, GitCompareArrows, Layers, Filter } from 'lucide-react'
+import { RefreshCw, Plus, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Table, FileJson, GitBranch, Sparkles, Download, X, FileSpreadsheet, GitCompareArrows, Layers, Filter, ListChecks } from 'lucide-react'
 import { Input } from '@/components/common/Input'
 import { DocumentTable } from '../components/DocumentTable'
 import { DiffViewer } from '../components/DiffViewer'
@@ -6,9 +6,12 @@ import { BatchOperations } from '../components/BatchOperations'
 import { RedisKeyViewer } from '../components/RedisKeyViewer'
 import { KafkaMessageViewer } from '../components/KafkaMessageViewer'
 import { SQLRowEditorModal } from '../components/SQLRowEditorModal'
+import { PendingChangesPanel } from '../components/PendingChangesPanel'
 import { JSONTreeView } from '@/components/common/JSONTreeView'
 import { TableSkeleton } from '@/components/common/Skeleton'
 import { useDataViewer } from '../hooks/useDataViewer'
+import { isSQLDatabase, supportsStagedEdits } from '@/utils/dbTypes'
+import { parseShellSyntax } from '@/utils/ejson'
 
 export const DataViewerPage = () => {
   const vm = useDataViewer()
@@ -87,6 +90,13 @@ export const DataViewerPage = () => {
 
           <div className="w-px h-5 bg-border mx-0.5" />
 
+          {supportsStagedEdits(vm.dbType) && (
+            <button onClick={() => vm.setStaging(!vm.staging)}
+              className={`p-1.5 rounded-md transition-colors ${vm.staging ? 'bg-amber-500/15 text-amber-400' : 'text-muted-foreground hover:bg-accent hover:text-foreground'}`}
+              title={vm.staging ? 'Stop staging edits' : 'Stage edits (review and apply together)'}>
+              <ListChecks className="h-3.5 w-3.5" />
+            </button>
+          )}
           <button onClick={() => vm.setShowBatch(true)} className="p-1.5 rounded-md text-muted-foreground hover:bg-accent hover:text-foreground transition-colors" title="Batch Operations">
             <Layers className="h-3.5 w-3.5" />
           </button>
@@ -160,12 +170,36 @@ export const DataViewerPage = () => {
         </div>
       )}
 
+      {/* Pending Changes Bar */}
+      {vm.staging && (
+        <div className="flex items-center gap-2 py-2 border-b border-border animate-in slide-in-from-top-1 duration-150">
+          <ListChecks className="h-3.5 w-3.5 text-amber-400 shrink-0" />
+          <span className="text-xs text-muted-foreground flex-1">
+            {vm.changes.length > 0
+              ? <><span className="text-foreground font-medium">{vm.changes.length}</span> pending change{vm.changes.length !== 1 ? 's' : ''}</>
+              : 'Staging edits — changes are collected until you apply them'}
+          </span>
+          <button onClick={() => vm.setShowChanges(true)} disabled={vm.changes.length === 0}
+            className="px-2.5 py-1 text-xs rounded-md border hover:bg-accent transition-colors disabled:opacity-50">
+            Review
+          </button>
+          <button onClick={vm.discardChanges} disabled={vm.changes.length === 0 || vm.applying}
+            className="px-2.5 py-1 text-xs rounded-md text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50">
+            Discard
+          </button>
+          <button onClick={vm.applyChanges} disabled={vm.changes.length === 0 || vm.applying}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50">
+            {vm.applying && <RefreshCw className="h-3 w-3 animate-spin" />} Apply
+          </button>
+        </div>
+      )}
+
       {/* Data Content */}
       <div className="flex-1 overflow-auto mt-2 rounded-md border bg-card">
         {vm.loading ? (
           <TableSkeleton rows={12} columns={5} />
         ) : vm.viewMode === 'table' ? (
-          <DocumentTable documents={vm.documents} onEdit={vm.handleEdit} onDelete={vm.handleDelete}
+          <DocumentTable documents={vm.displayDocuments} onEdit={vm.handleEdit} onDelete={vm.handleDelete} rowStatus={vm.rowStatus}
             sortField={vm.sortField} sortDirection={vm.sortDirection} onSort={vm.handleSort}
             selectedDocs={vm.selectedDocs} onToggleSelect={vm.handleToggleSelect} />
         ) : vm.viewMode === 'tree' ? (
@@ -222,13 +256,13 @@ export const DataViewerPage = () => {
       </div>
 
       {/* Modals */}
-      {vm.editDoc && vm.dbType === 'postgresql' && vm.activeConnectionId && vm.selectedDatabase && vm.selectedCollection && (
+      {vm.editDoc && isSQLDatabase(vm.dbType) && vm.activeConnectionId && vm.selectedDatabase && vm.selectedCollection && (
         <SQLRowEditorModal mode={vm.editDoc.mode} doc={vm.editDoc.doc}
           connectionId={vm.activeConnectionId} database={vm.selectedDatabase} table={vm.selectedCollection}
           onSave={(data) => { if (vm.editDoc!.mode === 'edit') vm.handleUpdate(vm.editDoc!.doc, data); else vm.insertDocument(data); vm.setEditDoc(null) }}
           onClose={() => vm.setEditDoc(null)} />
       )}
-      {vm.editDoc && vm.dbType !== 'postgresql' && (
+      {vm.editDoc && !isSQLDatabase(vm.dbType) && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60" onClick={() => vm.setEditDoc(null)} onKeyDown={(e) => { if (e.key === 'Escape') vm.setEditDoc(null) }}>
           <div className="bg-background border border-border rounded-lg w-[700px] max-h-[80vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
             <div className="flex items-center justify-between px-4 py-3 border-b border-border">
@@ -243,23 +277,14 @@ export const DataViewerPage = () => {
               <button onClick={() => vm.setEditDoc(null)} className="px-3 py-1.5 text-xs rounded-md border border-input text-muted-foreground hover:bg-accent">Cancel</button>
               <button onClick={() => {
                 try {
-                  const parsed = JSON.parse(vm.editDocValue)
+                  const parsed = parseShellSyntax(vm.editDocValue)
                   if (vm.editDoc!.mode === 'edit') {
-                    const origDoc = vm.documents.find(d => {
-                      const editId = vm.editDoc!.doc._id
-                      const dId = d._id
-                      if (typeof editId === 'string' && typeof dId === 'object' && dId.buffer) {
-                        const bufArr = Object.values(dId.buffer) as number[]
-                        return bufArr.map(b => b.toString(16).padStart(2, '0')).join('') === editId
-                      }
-                      return JSON.stringify(dId) === JSON.stringify(editId)
-                    })
-                    if (origDoc) vm.handleUpdate(origDoc, parsed)
+                    vm.handleUpdate(vm.editDoc!.doc, parsed)
                   } else {
                     vm.insertDocument(parsed)
                   }
                   vm.setEditDoc(null)
-                } catch { vm.tt.error('Invalid JSON') }
+                } catch (e: any) { vm.tt.error(`Invalid document: ${e.message}`) }
               }} className="px-3 py-1.5 text-xs rounded-md bg-primary text-primary-foreground hover:bg-primary/90">
                 {vm.editDoc.mode === 'edit' ? 'Update' : 'Insert'}
               </button>
@@ -273,6 +298,12 @@ export const DataViewerPage = () => {
         return <DiffViewer left={docs[0]} right={docs[1]} onClose={() => vm.setShowDiff(false)} />
       })()}
 
+      {vm.showChanges && (
+        <PendingChangesPanel changes={vm.changes} dbType={vm.dbType} table={vm.selectedCollection}
+          applying={vm.applying} onApply={vm.applyChanges} onDiscard={vm.discardChanges}
+          onRevert={vm.revertChange} onClose={() => vm.setShowChanges(false)} />
+      )}
+
       {vm.showBatch && (
         <BatchOperations connectionId={vm.activeConnectionId!} database={vm.selectedDatabase!}
           collection={vm.selectedCollection!} dbType={vm.dbType}
@@ -3,6 +3,7 @@ import { Upload, Download, FileJson, FileSpreadsheet, AlertTriangle, CheckCircle
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
+import { ejsonScalar, parseShellSyntax } from '@/utils/ejson'
 
 type Format = 'json' | 'csv'
 
@@ -26,11 +27,22 @@ function csvToObjects(csv: string): Record<string, any>[] {
   })
 }
 
+/** MongoDB JSON import: an array / single document in EJSON or shell syntax, or mongoexport's one document per line */
+function parseMongoJSON(content: string): any {
+  try {
+    return parseShellSyntax(content)
+  } catch (error) {
+    const lines = content.split('\n').filter(line => line.trim())
+    if (lines.length < 2) throw error
+    return lines.map(line => parseShellSyntax(line))
+  }
+}
+
 function objectsToCsv(data: Record<string, any>[]): string {
   if (!data.length) return ''
   const keys = [...new Set(data.flatMap(d => Object.keys(d)))]
   const escape = (v: any) => {
-    const s = v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v)
+    const s = v === null || v === undefined ? '' : typeof v === 'object' ? ejsonScalar(v) ?? JSON.stringify(v) : String(v)
     return s.includes(',') || s.includes('"') || s.includes('\n') ? `"${s.replace(/"/g, '""')}"` : s
   }
   return [keys.join(','), ...data.map(row => keys.map(k => escape(row[k])).join(','))].join('\n')
@@ -65,7 +77,7 @@ export const ImportExportPage = () => {
       const content = await window.electronAPI.fs.readFile(result.filePaths[0])
       let parsed: any[]
       if (importFormat === 'json') {
-        const raw = JSON.parse(content)
+        const raw = dbType === 'mongodb' ? parseMongoJSON(content) : JSON.parse(content)
         parsed = Array.isArray(raw) ? raw : [raw]
       } else {
         parsed = csvToObjects(content)
@@ -0,0 +1,152 @@
+import { useState, useMemo } from 'react'
+import { ShieldPlus, X } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import {
+  ACL_OPERATIONS, CLUSTER_RESOURCE_NAME, aclBundle, normalizePrincipal,
+  type AclOperation, type AclPatternType, type AclPermission, type AclResourceType, type KafkaAcl,
+} from '@/utils/kafkaAcls'
+
+type GrantKind = 'producer' | 'consumer' | 'custom'
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** Grant a principal producer or consumer access to a topic (or topic prefix), or add a single custom ACL */
+export const KafkaAclGrantPanel = ({ connectionId, topics, tt, onGranted, onClose }: {
+  connectionId: string; topics: string[]; tt: any; onGranted: () => void; onClose: () => void
+}) => {
+  const [kind, setKind] = useState<GrantKind>('consumer')
+  const [principal, setPrincipal] = useState('')
+  const [host, setHost] = useState('*')
+  const [patternType, setPatternType] = useState<AclPatternType>('literal')
+  const [topic, setTopic] = useState('')
+  const [group, setGroup] = useState('')
+  const [transactionalId, setTransactionalId] = useState('')
+  const [idempotent, setIdempotent] = useState(true)
+  const [resourceType, setResourceType] = useState<AclResourceType>('topic')
+  const [resourceName, setResourceName] = useState('')
+  const [operation, setOperation] = useState<AclOperation>('read')
+  const [permission, setPermission] = useState<AclPermission>('allow')
+  const [busy, setBusy] = useState(false)
+
+  const acls = useMemo((): KafkaAcl[] => {
+    if (!principal.trim()) return []
+    if (kind === 'custom') {
+      const name = resourceType === 'cluster' ? CLUSTER_RESOURCE_NAME : resourceName.trim()
+      if (!name) return []
+      return [{
+        principal: normalizePrincipal(principal), host: host.trim() || '*', resourceType, resourceName: name,
+        patternType: resourceType === 'cluster' ? 'literal' : patternType, operation, permission,
+      }]
+    }
+    if (!topic.trim()) return []
+    return aclBundle(kind, { principal, host, topic: topic.trim(), patternType, group, transactionalId, idempotent })
+  }, [kind, principal, host, patternType, topic, group, transactionalId, idempotent, resourceType, resourceName, operation, permission])
+
+  const changeResourceType = (type: AclResourceType) => {
+    setResourceType(type)
+    if (!ACL_OPERATIONS[type].includes(operation)) setOperation(ACL_OPERATIONS[type][0])
+  }
+
+  const handleGrant = async () => {
+    if (acls.length === 0) return
+    setBusy(true)
+    try {
+      const result = await databaseService.kafkaCreateAcls(connectionId, acls)
+      if (!result.success) throw new Error(result.error)
+      tt.success(`Created ${result.created} ACL(s) for ${acls[0].principal}`)
+      onGranted()
+    } catch (err: any) { tt.error(err.message) }
+    finally { setBusy(false) }
+  }
+
+  return (
+    <div className="rounded border bg-card p-2.5 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[11px] font-semibold">Grant</span>
+        <select value={kind} onChange={e => setKind(e.target.value as GrantKind)} className={inputClass}>
+          <option value="consumer">Consumer access</option>
+          <option value="producer">Producer access</option>
+          <option value="custom">Custom ACL</option>
+        </select>
+        <span className="text-[10px] text-muted-foreground">to</span>
+        <input value={principal} onChange={e => setPrincipal(e.target.value)} placeholder="User:alice" className={`w-40 font-mono ${inputClass}`} />
+        <span className="text-[10px] text-muted-foreground">from host</span>
+        <input value={host} onChange={e => setHost(e.target.value)} className={`w-28 font-mono ${inputClass}`} title="* for any host" />
+        <div className="flex-1" />
+        <button onClick={handleGrant} disabled={busy || acls.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-[11px] rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+          <ShieldPlus className="h-3 w-3" /> Create {acls.length > 0 ? `${acls.length} ACL(s)` : 'ACLs'}
+        </button>
+        <button onClick={onClose} className="p-1 rounded hover:bg-accent text-muted-foreground" title="Close">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {kind === 'custom' ? (
+          <>
+            <select value={permission} onChange={e => setPermission(e.target.value as AclPermission)} className={inputClass}>
+              <option value="allow">Allow</option>
+              <option value="deny">Deny</option>
+            </select>
+            <select value={operation} onChange={e => setOperation(e.target.value as AclOperation)} className={inputClass}>
+              {ACL_OPERATIONS[resourceType].map(op => <option key={op} value={op}>{op}</option>)}
+            </select>
+            <span className="text-[10px] text-muted-foreground">on</span>
+            <select value={resourceType} onChange={e => changeResourceType(e.target.value as AclResourceType)} className={inputClass}>
+              <option value="topic">Topic</option>
+              <option value="group">Group</option>
+              <option value="cluster">Cluster</option>
+              <option value="transactional-id">Transactional ID</option>
+            </select>
+            {resourceType !== 'cluster' && (
+              <input value={resourceName} onChange={e => setResourceName(e.target.value)} placeholder="Name, or * for all"
+                list={resourceType === 'topic' ? 'kafka-acl-topics' : undefined} className={`w-48 font-mono ${inputClass}`} />
+            )}
+          </>
+        ) : (
+          <>
+            <span className="text-[10px] text-muted-foreground">Topic</span>
+            <input value={topic} onChange={e => setTopic(e.target.value)} placeholder="Name, prefix or *" list="kafka-acl-topics" className={`w-48 font-mono ${inputClass}`} />
+            {kind === 'consumer' && (
+              <>
+                <span className="text-[10px] text-muted-foreground">Group</span>
+                <input value={group} onChange={e => setGroup(e.target.value)} placeholder="*" className={`w-36 font-mono ${inputClass}`} />
+              </>
+            )}
+            {kind === 'producer' && (
+              <>
+                <span className="text-[10px] text-muted-foreground">Transactional ID</span>
+                <input value={transactionalId} onChange={e => setTransactionalId(e.target.value)} placeholder="none" className={`w-36 font-mono ${inputClass}`} />
+                <label className="flex items-center gap-1 text-[11px] text-muted-foreground cursor-pointer">
+                  <input type="checkbox" checked={idempotent || !!transactionalId.trim()} disabled={!!transactionalId.trim()}
+                    onChange={e => setIdempotent(e.target.checked)} /> Idempotent
+                </label>
+              </>
+            )}
+          </>
+        )}
+        {!(kind === 'custom' && resourceType === 'cluster') && (
+          <select value={patternType} onChange={e => setPatternType(e.target.value as AclPatternType)} className={inputClass}>
+            <option value="literal">Literal</option>
+            <option value="prefixed">Prefixed</option>
+          </select>
+        )}
+        <datalist id="kafka-acl-topics">
+          {topics.map(t => <option key={t} value={t} />)}
+        </datalist>
+      </div>
+
+      {acls.length > 0 && (
+        <ul className="text-[10px] font-mono text-muted-foreground space-y-0.5">
+          {acls.map((acl, i) => (
+            <li key={i}>
+              {acl.permission.toUpperCase()} {acl.principal} {acl.operation.toUpperCase()} on {acl.resourceType} {acl.patternType === 'prefixed' ? `${acl.resourceName}*` : acl.resourceName}
+              {acl.host !== '*' && ` from ${acl.host}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
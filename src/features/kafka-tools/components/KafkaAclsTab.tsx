@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { RefreshCw, ShieldCheck, ShieldPlus, Trash2 } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import { aclKey, sortAcls, type AclResourceType, type KafkaAcl, type KafkaAclFilter } from '@/utils/kafkaAcls'
+import { KafkaAclGrantPanel } from './KafkaAclGrantPanel'
+
+const RESOURCE_LABELS: Record<AclResourceType, string> = {
+  topic: 'Topic', group: 'Group', cluster: 'Cluster', 'transactional-id': 'Transactional ID',
+}
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** The cluster's ACLs, filtered on the broker by principal, resource and pattern, with grant and delete */
+export const KafkaAclsTab = ({ connectionId, tt }: { connectionId: string; tt: any }) => {
+  const [acls, setAcls] = useState<KafkaAcl[]>([])
+  const [topics, setTopics] = useState<string[]>([])
+  const [filter, setFilter] = useState<KafkaAclFilter>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [granting, setGranting] = useState(false)
+
+  const loadAcls = useCallback(async (current: KafkaAclFilter) => {
+    setLoading(true)
+    try {
+      const result = await databaseService.kafkaDescribeAcls(connectionId, current)
+      if (!result.success) throw new Error(result.error)
+      setAcls(sortAcls(result.acls || []))
+      setSelected(new Set())
+      setError(null)
+    } catch (err: any) {
+      setAcls([])
+      setError(err.message)
+    } finally { setLoading(false) }
+  }, [connectionId])
+
+  useEffect(() => { loadAcls({}) }, [loadAcls])
+
+  useEffect(() => {
+    databaseService.listDatabases(connectionId, 'kafka')
+      .then((result: any) => {
+        if (result.success) setTopics((result.databases || []).map((t: any) => typeof t === 'string' ? t : t.name).sort())
+      })
+      .catch(() => {})
+  }, [connectionId])
+
+  const updateFilter = (patch: Partial<KafkaAclFilter>) => setFilter(prev => ({ ...prev, ...patch }))
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key); else next.add(key)
+      return next
+    })
+  }
+
+  const handleDelete = async (targets: KafkaAcl[]) => {
+    if (targets.length === 0) return
+    const what = targets.length === 1
+      ? `${targets[0].permission} ${targets[0].operation} for ${targets[0].principal} on ${targets[0].resourceType} "${targets[0].resourceName}"`
+      : `${targets.length} ACLs`
+    if (!confirm(`Delete ${what}?`)) return
+    try {
+      const result = await databaseService.kafkaDeleteAcls(connectionId, targets)
+      if (!result.success) throw new Error(result.error)
+      tt.success(`Deleted ${result.deleted} ACL(s)`)
+      loadAcls(filter)
+    } catch (err: any) { tt.error(err.message) }
+  }
+
+  const selectedAcls = useMemo(() => acls.filter(a => selected.has(aclKey(a))), [acls, selected])
+  const allSelected = acls.length > 0 && selected.size === acls.length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mr-2">ACLs ({acls.length})</h3>
+        <input value={filter.principal || ''} onChange={e => updateFilter({ principal: e.target.value })} onKeyDown={e => { if (e.key === 'Enter') loadAcls(filter) }}
+          placeholder="Principal (User:alice)" className={`w-40 font-mono ${inputClass}`} />
+        <select value={filter.resourceType || ''} onChange={e => updateFilter({ resourceType: (e.target.value || undefined) as AclResourceType | undefined })} className={inputClass}>
+          <option value="">Any resource</option>
+          {Object.entries(RESOURCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <input value={filter.resourceName || ''} onChange={e => updateFilter({ resourceName: e.target.value })} onKeyDown={e => { if (e.key === 'Enter') loadAcls(filter) }}
+          placeholder="Resource name" className={`w-40 font-mono ${inputClass}`} />
+        <select value={filter.patternType || ''} onChange={e => updateFilter({ patternType: (e.target.value || undefined) as KafkaAclFilter['patternType'] })} className={inputClass}
+          title="Match finds every literal, wildcard and prefixed ACL that applies to the resource name">
+          <option value="">Any pattern</option>
+          <option value="literal">Literal</option>
+          <option value="prefixed">Prefixed</option>
+          <option value="match">Match</option>
+        </select>
+        <button onClick={() => loadAcls(filter)} disabled={loading} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent disabled:opacity-50">
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} /> Apply
+        </button>
+        <div className="flex-1" />
+        {selectedAcls.length > 0 && (
+          <button onClick={() => handleDelete(selectedAcls)}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10">
+            <Trash2 className="h-3.5 w-3.5" /> Delete {selectedAcls.length}
+          </button>
+        )}
+        <button onClick={() => setGranting(!granting)}
+          className={`flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border transition-colors ${granting ? 'bg-primary/15 text-primary' : 'hover:bg-accent'}`}>
+          <ShieldPlus className="h-3.5 w-3.5" /> Grant access
+        </button>
+      </div>
+
+      {granting && (
+        <KafkaAclGrantPanel connectionId={connectionId} topics={topics} tt={tt}
+          onGranted={() => { setGranting(false); loadAcls(filter) }} onClose={() => setGranting(false)} />
+      )}
+
+      {error ? (
+        <div className="rounded-md border bg-card px-4 py-8 text-center">
+          <ShieldCheck className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+          <p className="text-xs text-muted-foreground">Could not load ACLs</p>
+          <p className="text-[11px] text-red-400 font-mono mt-1">{error}</p>
+          <p className="text-[10px] text-muted-foreground mt-1">The cluster needs an authorizer configured, and this connection needs DESCRIBE on the cluster</p>
+        </div>
+      ) : acls.length === 0 ? (
+        <div className="rounded-md border bg-card px-4 py-8 text-center">
+          <ShieldCheck className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+          <p className="text-xs text-muted-foreground">{loading ? 'Loading ACLs...' : 'No ACLs match the filter'}</p>
+        </div>
+      ) : (
+        <div className="rounded-md border bg-card overflow-hidden">
+          <table className="w-full text-[11px]">
+            <thead><tr className="bg-muted/30 border-b">
+              <th className="px-2 py-1.5 w-8">
+                <input type="checkbox" checked={allSelected} onChange={() => setSelected(allSelected ? new Set() : new Set(acls.map(aclKey)))} />
+              </th>
+              <th className="text-left px-2 py-1.5 font-medium">Principal</th>
+              <th className="text-left px-2 py-1.5 font-medium">Host</th>
+              <th className="text-left px-2 py-1.5 font-medium">Resource</th>
+              <th className="text-left px-2 py-1.5 font-medium">Operation</th>
+              <th className="text-left px-2 py-1.5 font-medium">Permission</th>
+              <th className="w-8"></th>
+            </tr></thead>
+            <tbody>
+              {acls.map(acl => {
+                const key = aclKey(acl)
+                return (
+                  <tr key={key} className="border-b last:border-0 hover:bg-muted/20">
+                    <td className="px-2 py-1 text-center"><input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} /></td>
+                    <td className="px-2 py-1 font-mono">{acl.principal}</td>
+                    <td className="px-2 py-1 font-mono text-muted-foreground">{acl.host}</td>
+                    <td className="px-2 py-1">
+                      <span className="text-muted-foreground mr-1.5">{RESOURCE_LABELS[acl.resourceType]}</span>
+                      <span className="font-mono">{acl.resourceName}</span>
+                      {acl.patternType === 'prefixed' && <span className="ml-1.5 px-1 py-0.5 text-[9px] rounded bg-blue-500/15 text-blue-400">prefix</span>}
+                    </td>
+                    <td className="px-2 py-1 font-mono uppercase">{acl.operation}</td>
+                    <td className="px-2 py-1">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${acl.permission === 'allow' ? 'bg-green-500/15 text-green-500' : 'bg-red-500/15 text-red-400'}`}>
+                        {acl.permission}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1">
+                      <button onClick={() => handleDelete([acl])} className="p-1 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive" title="Delete ACL">
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
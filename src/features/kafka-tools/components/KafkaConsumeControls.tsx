@@ -0,0 +1,52 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { KafkaStartPosition } from '@/utils/kafkaBrowse'
+import type { KafkaConsumeState } from '../hooks/useKafkaConsume'
+
+const START_POSITIONS: Array<{ value: KafkaStartPosition; label: string }> = [
+  { value: 'beginning', label: 'From beginning' },
+  { value: 'end', label: 'Latest (last N)' },
+  { value: 'offset', label: 'From offset' },
+  { value: 'timestamp', label: 'From timestamp' },
+]
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** Start position, partition and page size for browsing a topic, with previous/next page buttons */
+export const KafkaConsumeControls = ({ consume }: { consume: KafkaConsumeState }) => {
+  const { windows } = consume
+  const range = windows.length === 1
+    ? `P${windows[0].partition}: ${windows[0].start}–${Math.max(windows[0].start, windows[0].end - 1)} of ${windows[0].low}–${Math.max(windows[0].low, windows[0].high - 1)}`
+    : windows.length > 1 ? `${windows.length} partitions` : ''
+
+  return (
+    <div className="flex gap-2 items-center flex-wrap">
+      <select value={consume.from} onChange={e => consume.setFrom(e.target.value as KafkaStartPosition)} className={inputClass}>
+        {START_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+      </select>
+      {consume.from === 'offset' && (
+        <input type="number" min={0} value={consume.offset} onChange={e => consume.setOffset(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') consume.consume() }} placeholder="Offset" className={`w-24 font-mono ${inputClass}`} />
+      )}
+      {consume.from === 'timestamp' && (
+        <input type="datetime-local" step={1} value={consume.timestamp} onChange={e => consume.setTimestamp(e.target.value)} className={inputClass} />
+      )}
+      <select value={consume.partition ?? ''} onChange={e => consume.setPartition(e.target.value === '' ? undefined : Number(e.target.value))} className={inputClass}>
+        <option value="">All partitions</option>
+        {consume.partitions.map(p => <option key={p} value={p}>Partition {p}</option>)}
+      </select>
+      <label className="text-[10px] text-muted-foreground">Per partition:</label>
+      <input type="number" min={1} value={consume.limit} onChange={e => consume.setLimit(Number(e.target.value) || 50)} className={`w-16 ${inputClass}`} />
+      <div className="flex items-center">
+        <button onClick={consume.previousPage} disabled={!consume.hasPrevious || consume.loading} title="Previous page"
+          className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors disabled:opacity-30">
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </button>
+        <button onClick={consume.nextPage} disabled={!consume.hasNext || consume.loading} title="Next page"
+          className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors disabled:opacity-30">
+          <ChevronRight className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {range && <span className="text-[10px] font-mono text-muted-foreground" title={windows.map(w => `P${w.partition}: ${w.start}–${w.end} (high ${w.high})`).join('\n')}>{range}</span>}
+    </div>
+  )
+}
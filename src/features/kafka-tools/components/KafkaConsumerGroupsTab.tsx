@@ -6,12 +6,14 @@ import {
 import { databaseService } from '@/services/database.service'
 import { TableSkeleton } from '@/components/common/Skeleton'
 import { NoConsumerGroups } from '@/components/common/EmptyState'
+import { KafkaOffsetResetPanel } from './KafkaOffsetResetPanel'
 
 /* ── Consumer Group Detail (expanded) ── */
-const ConsumerGroupDetail = ({ groupId, detail, offsets, loading, onResetOffsets }: {
-  groupId: string; detail: any; offsets: any; loading: boolean;
-  onResetOffsets: (groupId: string, topic: string, earliest: boolean) => void
+const ConsumerGroupDetail = ({ connectionId, groupId, detail, offsets, loading, tt, onOffsetsReset }: {
+  connectionId: string; groupId: string; detail: any; offsets: any; loading: boolean; tt: any;
+  onOffsetsReset: () => void
 }) => {
+  const [resetTopic, setResetTopic] = useState<string | null>(null)
   if (loading) return <div className="px-4 py-3 text-[11px] text-muted-foreground">Loading details...</div>
   if (!detail) return null
 
@@ -77,15 +79,20 @@ const ConsumerGroupDetail = ({ groupId, detail, offsets, loading, onResetOffsets
                 <Radio className="h-3 w-3 text-amber-400" />
                 <span className="text-[11px] font-mono font-medium">{topicOffset.topic}</span>
                 <div className="flex-1" />
-                <button onClick={() => onResetOffsets(groupId, topicOffset.topic, true)}
-                  className="flex items-center gap-1 px-2 py-0.5 text-[10px] rounded border hover:bg-accent" title="Reset to earliest">
-                  <RotateCcw className="h-2.5 w-2.5" /> Earliest
-                </button>
-                <button onClick={() => onResetOffsets(groupId, topicOffset.topic, false)}
-                  className="flex items-center gap-1 px-2 py-0.5 text-[10px] rounded border hover:bg-accent" title="Reset to latest">
-                  <RotateCcw className="h-2.5 w-2.5" /> Latest
+                <button onClick={() => setResetTopic(resetTopic === topicOffset.topic ? null : topicOffset.topic)}
+                  className={`flex items-center gap-1 px-2 py-0.5 text-[10px] rounded border transition-colors ${resetTopic === topicOffset.topic ? 'bg-primary/15 text-primary' : 'hover:bg-accent'}`}
+                  title="Reset offsets to a time, offset or shift">
+                  <RotateCcw className="h-2.5 w-2.5" /> Reset offsets
                 </button>
               </div>
+              {resetTopic === topicOffset.topic && (
+                <KafkaOffsetResetPanel
+                  connectionId={connectionId} groupId={groupId} topic={topicOffset.topic} tt={tt}
+                  partitions={(topicOffset.partitions || []).map((p: any) => p.partition)}
+                  onApplied={() => { setResetTopic(null); onOffsetsReset() }}
+                  onClose={() => setResetTopic(null)}
+                />
+              )}
               <div className="rounded border overflow-hidden">
                 <table className="w-full text-[11px]">
                   <thead><tr className="bg-muted/30 border-b">
@@ -158,10 +165,8 @@ export const KafkaConsumerGroupsTab = ({ connectionId, tt }: { connectionId: str
     } catch (err: any) { tt.error(err.message) }
   }
 
-  const handleResetOffsets = async (groupId: string, topic: string, earliest: boolean) => {
+  const reloadOffsets = async (groupId: string) => {
     try {
-      await databaseService.kafkaResetConsumerGroupOffsets(connectionId, groupId, topic, earliest)
-      tt.success(`Offsets reset to ${earliest ? 'earliest' : 'latest'} for ${topic}`)
       const offsetResult = await databaseService.kafkaGetConsumerGroupOffsets(connectionId, groupId)
       if (offsetResult.success) setGroupOffsets(offsetResult)
     } catch (err: any) { tt.error(err.message) }
@@ -195,8 +200,8 @@ export const KafkaConsumerGroupsTab = ({ connectionId, tt }: { connectionId: str
               </div>
               {isExpanded && (
                 <ConsumerGroupDetail
-                  groupId={gid} detail={groupDetail} offsets={groupOffsets}
-                  loading={detailLoading} onResetOffsets={handleResetOffsets}
+                  connectionId={connectionId} groupId={gid} detail={groupDetail} offsets={groupOffsets}
+                  loading={detailLoading} tt={tt} onOffsetsReset={() => reloadOffsets(gid)}
                 />
               )}
             </div>
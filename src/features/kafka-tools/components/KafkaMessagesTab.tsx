@@ -1,17 +1,24 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import {
   Radio, RefreshCw, ChevronDown, ChevronRight, X, Send, Copy, FileJson,
-  Table, Search, MessageSquare,
+  Table, Search, MessageSquare, Pause, Play, Eraser,
 } from 'lucide-react'
 import { databaseService } from '@/services/database.service'
+import { useConnectionStore } from '@/store/connectionStore'
+import { isFilterEmpty, matchesMessageFilter } from '@/utils/kafkaMessages'
+import { useKafkaConsume } from '../hooks/useKafkaConsume'
+import { useKafkaTail, TAIL_BUFFER_SIZES } from '../hooks/useKafkaTail'
+import { KafkaConsumeControls } from './KafkaConsumeControls'
+import { KafkaSchemaBadge } from './KafkaSchemaBadge'
 
 export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectionId: string; tt: any; initialTopic?: string }) => {
   const [topics, setTopics] = useState<string[]>([])
   const [selectedTopic, setSelectedTopic] = useState<string>(initialTopic || '')
-  const [messages, setMessages] = useState<any[]>([])
-  const [loading, setLoading] = useState(false)
-  const [limit, setLimit] = useState(50)
-  const [fromBeginning, setFromBeginning] = useState(true)
+  const consume = useKafkaConsume(connectionId, selectedTopic || null)
+  const tail = useKafkaTail(connectionId, selectedTopic || null)
+  // Live mode shows the newest messages first
+  const messages = useMemo(() => (tail.live ? [...tail.messages].reverse() : consume.messages), [tail.live, tail.messages, consume.messages])
+  const loading = consume.loading && !tail.live
   const [viewMode, setViewMode] = useState<'table' | 'json'>('table')
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
   // Produce
@@ -19,10 +26,13 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
   const [produceKey, setProduceKey] = useState('')
   const [produceValue, setProduceValue] = useState('')
   const [produceHeaders, setProduceHeaders] = useState('')
+  const [produceSubject, setProduceSubject] = useState('')
+  const hasRegistry = useConnectionStore(s => !!s.connections.find(c => c.id === connectionId)?.kafkaSchemaRegistry?.url)
   const [producing, setProducing] = useState(false)
   // Filter
   const [filterKey, setFilterKey] = useState('')
   const [filterValue, setFilterValue] = useState('')
+  const [filterHeader, setFilterHeader] = useState('')
   const [showFilter, setShowFilter] = useState(false)
 
   const loadTopics = useCallback(async () => {
@@ -40,18 +50,6 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
 
   useEffect(() => { loadTopics() }, [loadTopics])
 
-  const consumeMessages = useCallback(async () => {
-    if (!selectedTopic) return
-    setLoading(true)
-    try {
-      const result = await databaseService.kafkaConsumeMessages(connectionId, selectedTopic, limit, fromBeginning)
-      if (result.success) setMessages(result.documents || [])
-    } catch (err: any) { tt.error('Failed to consume: ' + err.message) }
-    finally { setLoading(false) }
-  }, [connectionId, selectedTopic, limit, fromBeginning])
-
-  useEffect(() => { if (selectedTopic) consumeMessages() }, [selectedTopic])
-
   const handleProduce = async () => {
     if (!selectedTopic) { tt.warning('Select a topic first'); return }
     if (!produceValue.trim()) { tt.warning('Message value is required'); return }
@@ -62,22 +60,21 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
         try { headers = JSON.parse(produceHeaders) } catch { tt.warning('Headers must be valid JSON'); setProducing(false); return }
       }
       const msgs = [{ key: produceKey || undefined, value: produceValue, headers }]
-      await databaseService.kafkaProduceMessage(connectionId, selectedTopic, msgs)
+      const schema = hasRegistry && produceSubject.trim() ? { subject: produceSubject.trim() } : undefined
+      await databaseService.kafkaProduceMessage(connectionId, selectedTopic, msgs, schema)
       tt.success('Message produced')
       setProduceKey(''); setProduceValue(''); setProduceHeaders('')
-      consumeMessages()
+      if (!tail.live) consume.consume()
     } catch (err: any) { tt.error(err.message) }
     finally { setProducing(false) }
   }
 
-  const filteredMessages = useMemo(() => {
-    if (!filterKey && !filterValue) return messages
-    return messages.filter((msg) => {
-      const keyMatch = !filterKey || (msg.key || '').toLowerCase().includes(filterKey.toLowerCase())
-      const valMatch = !filterValue || (msg.value || '').toLowerCase().includes(filterValue.toLowerCase())
-      return keyMatch && valMatch
-    })
-  }, [messages, filterKey, filterValue])
+  const messageFilter = useMemo(() => ({ key: filterKey, value: filterValue, header: filterHeader }), [filterKey, filterValue, filterHeader])
+  const filtering = !isFilterEmpty(messageFilter)
+  const filteredMessages = useMemo(
+    () => (filtering ? messages.filter(msg => matchesMessageFilter(msg, messageFilter)) : messages),
+    [messages, messageFilter, filtering]
+  )
 
   const toggleRow = (key: string) => {
     setExpandedRows(prev => {
@@ -118,7 +115,12 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
         <button onClick={copyMessages} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent">
           <Copy className="h-3.5 w-3.5" /> Copy
         </button>
-        <button onClick={consumeMessages} disabled={loading || !selectedTopic} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent disabled:opacity-50">
+        <button onClick={() => (tail.live ? tail.stop() : tail.start())} disabled={!selectedTopic}
+          className={`flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border transition-colors disabled:opacity-50 ${tail.live ? 'bg-green-500/15 text-green-400 border-green-500/30' : 'hover:bg-accent'}`}
+          title={tail.live ? 'Stop live tail' : 'Stream new messages as they arrive'}>
+          <Radio className={`h-3.5 w-3.5 ${tail.live && !tail.paused ? 'animate-pulse' : ''}`} /> Live
+        </button>
+        <button onClick={consume.consume} disabled={loading || !selectedTopic || tail.live} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent disabled:opacity-50">
           <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} /> Consume
         </button>
       </div>
@@ -139,6 +141,13 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
                 className="w-full px-2 py-1.5 text-[11px] font-mono rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
             </div>
           </div>
+          {hasRegistry && (
+            <div>
+              <label className="text-[10px] text-muted-foreground mb-0.5 block">Value schema subject (optional — encodes the JSON value with its latest version)</label>
+              <input value={produceSubject} onChange={e => setProduceSubject(e.target.value)} placeholder={selectedTopic ? `${selectedTopic}-value` : 'topic-value'}
+                className="w-full px-2 py-1.5 text-[11px] font-mono rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
+            </div>
+          )}
           <div>
             <label className="text-[10px] text-muted-foreground mb-0.5 block">Value</label>
             <textarea value={produceValue} onChange={e => setProduceValue(e.target.value)} placeholder='{"event": "user_signup", "userId": 123}'
@@ -154,16 +163,27 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
 
       {/* Consume Controls */}
       <div className="flex gap-2 items-center">
-        <label className="text-[10px] text-muted-foreground">Limit:</label>
-        <input type="number" value={limit} onChange={e => setLimit(Number(e.target.value) || 50)}
-          className="w-20 px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
-        <label className="flex items-center gap-1 text-[10px] text-muted-foreground cursor-pointer">
-          <input type="checkbox" checked={fromBeginning} onChange={e => setFromBeginning(e.target.checked)} className="rounded border-border" />
-          From beginning
-        </label>
+        {tail.live ? (
+          <div className="flex gap-2 items-center">
+            <button onClick={tail.togglePause} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent">
+              {tail.paused ? <><Play className="h-3 w-3" /> Resume</> : <><Pause className="h-3 w-3" /> Pause</>}
+            </button>
+            <button onClick={tail.clear} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent">
+              <Eraser className="h-3 w-3" /> Clear
+            </button>
+            <label className="text-[10px] text-muted-foreground">Keep last:</label>
+            <select value={tail.capacity} onChange={e => tail.resize(Number(e.target.value))}
+              className="px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary">
+              {TAIL_BUFFER_SIZES.map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+            </select>
+            <span className="text-[10px] text-muted-foreground">{tail.paused ? 'Paused' : 'Streaming'} · {tail.received.toLocaleString()} received</span>
+          </div>
+        ) : (
+          <KafkaConsumeControls consume={consume} />
+        )}
         <div className="flex-1" />
         <span className="text-[11px] text-muted-foreground">
-          {filterKey || filterValue ? `${filteredMessages.length} / ` : ''}{messages.length} messages
+          {filtering ? `${filteredMessages.length} / ` : ''}{messages.length} messages
         </span>
         <button onClick={() => setShowFilter(!showFilter)} className={`p-1.5 rounded transition-colors ${showFilter ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:bg-accent'}`} title="Filter">
           <Search className="h-3.5 w-3.5" />
@@ -185,8 +205,10 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
             className="flex-1 px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
           <input value={filterValue} onChange={e => setFilterValue(e.target.value)} placeholder="Filter by value..."
             className="flex-1 px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
-          {(filterKey || filterValue) && (
-            <button onClick={() => { setFilterKey(''); setFilterValue('') }} className="p-1 rounded hover:bg-accent text-muted-foreground" title="Clear">
+          <input value={filterHeader} onChange={e => setFilterHeader(e.target.value)} placeholder="Filter by header (name=value)..."
+            className="flex-1 px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" />
+          {filtering && (
+            <button onClick={() => { setFilterKey(''); setFilterValue(''); setFilterHeader('') }} className="p-1 rounded hover:bg-accent text-muted-foreground" title="Clear">
               <X className="h-3.5 w-3.5" />
             </button>
           )}
@@ -210,8 +232,10 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
               <MessageSquare className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
-              <p className="text-xs text-muted-foreground">{messages.length === 0 ? 'No messages in this topic' : 'No messages match the filter'}</p>
-              {messages.length === 0 && <p className="text-[10px] text-muted-foreground mt-1">Click "Consume" to fetch or "Produce" to send</p>}
+              <p className="text-xs text-muted-foreground">
+                {messages.length > 0 ? 'No messages match the filter' : tail.live ? 'Waiting for new messages...' : 'No messages in this topic'}
+              </p>
+              {messages.length === 0 && !tail.live && <p className="text-[10px] text-muted-foreground mt-1">Click "Consume" to fetch or "Produce" to send</p>}
             </div>
           </div>
         ) : viewMode === 'json' ? (
@@ -244,6 +268,7 @@ export const KafkaMessagesTab = ({ connectionId, tt, initialTopic }: { connectio
                       <td className="px-2 py-1.5 font-mono text-muted-foreground">{msg.offset}</td>
                       <td className="px-2 py-1.5 font-mono truncate max-w-[200px]" title={msg.key || ''}>{msg.key || <span className="text-muted-foreground/50">null</span>}</td>
                       <td className="px-2 py-1.5 font-mono truncate max-w-[400px]" title={msg.value || ''}>
+                        <KafkaSchemaBadge message={msg} />
                         {isExp ? (
                           <pre className="whitespace-pre-wrap break-all text-[11px]">{tryParseJSON(msg.value)}</pre>
                         ) : (
@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { AlertTriangle, Eye, RotateCcw, X } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import type { OffsetResetRow, OffsetResetSpec, OffsetResetStrategy } from '@/utils/kafkaOffsetReset'
+
+const STRATEGIES: Array<{ value: OffsetResetStrategy; label: string }> = [
+  { value: 'earliest', label: 'To earliest' },
+  { value: 'latest', label: 'To latest' },
+  { value: 'datetime', label: 'To date/time' },
+  { value: 'offset', label: 'To offset' },
+  { value: 'shift', label: 'Shift by' },
+  { value: 'current', label: 'To current' },
+]
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** Reset a consumer group's offsets on one topic: pick a strategy, preview old vs new offsets, then apply */
+export const KafkaOffsetResetPanel = ({ connectionId, groupId, topic, partitions, tt, onApplied, onClose }: {
+  connectionId: string; groupId: string; topic: string; partitions: number[]; tt: any;
+  onApplied: () => void; onClose: () => void
+}) => {
+  const [strategy, setStrategy] = useState<OffsetResetStrategy>('earliest')
+  const [partition, setPartition] = useState<number | undefined>(undefined)
+  const [timestamp, setTimestamp] = useState('')
+  const [shiftBy, setShiftBy] = useState('0')
+  const [offsets, setOffsets] = useState<Record<number, string>>({})
+  const [preview, setPreview] = useState<{ rows: OffsetResetRow[]; activeMembers: number } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  // Any change to the inputs makes the preview stale
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => { setter(value); setPreview(null) }
+
+  const buildSpec = (): OffsetResetSpec | null => {
+    if (strategy === 'datetime') {
+      const ts = Date.parse(timestamp)
+      if (Number.isNaN(ts)) { tt.warning('Pick a date and time to reset to'); return null }
+      return { strategy, timestamp: ts, partitions: partition === undefined ? undefined : [partition] }
+    }
+    if (strategy === 'offset') {
+      const entries = Object.entries(offsets).filter(([, v]) => v.trim() !== '' && !Number.isNaN(Number(v)))
+      if (entries.length === 0) { tt.warning('Enter an offset for at least one partition'); return null }
+      return { strategy, offsets: Object.fromEntries(entries.map(([p, v]) => [p, Number(v)])) }
+    }
+    if (strategy === 'shift') {
+      if (!Number.isInteger(Number(shiftBy))) { tt.warning('Shift must be a whole number'); return null }
+      return { strategy, shiftBy: Number(shiftBy), partitions: partition === undefined ? undefined : [partition] }
+    }
+    return { strategy, partitions: partition === undefined ? undefined : [partition] }
+  }
+
+  const run = async (dryRun: boolean) => {
+    const spec = buildSpec()
+    if (!spec) return
+    if (!dryRun && !confirm(`Reset offsets of "${groupId}" on ${topic} for ${preview?.rows.filter(r => r.target !== null).length ?? 0} partition(s)?`)) return
+    setBusy(true)
+    try {
+      const result = await databaseService.kafkaResetConsumerGroupOffsets(connectionId, groupId, topic, spec, dryRun)
+      if (!result.success) throw new Error(result.error)
+      if (dryRun) {
+        setPreview({ rows: result.rows, activeMembers: result.activeMembers })
+      } else {
+        tt.success(`Offsets reset on ${result.applied} partition(s) of ${topic}`)
+        onApplied()
+      }
+    } catch (err: any) { tt.error(err.message) }
+    finally { setBusy(false) }
+  }
+
+  const changes = preview?.rows.filter(r => r.target !== null) ?? []
+
+  return (
+    <div className="rounded border bg-card p-2.5 mb-2 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[11px] font-semibold">Reset offsets</span>
+        <select value={strategy} onChange={e => edit(setStrategy)(e.target.value as OffsetResetStrategy)} className={inputClass}>
+          {STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+        {strategy === 'datetime' && (
+          <input type="datetime-local" step={1} value={timestamp} onChange={e => edit(setTimestamp)(e.target.value)} className={inputClass} />
+        )}
+        {strategy === 'shift' && (
+          <input type="number" value={shiftBy} onChange={e => edit(setShiftBy)(e.target.value)} className={`w-24 font-mono ${inputClass}`} title="Negative values move back" />
+        )}
+        {strategy !== 'offset' && (
+          <select value={partition ?? ''} onChange={e => edit(setPartition)(e.target.value === '' ? undefined : Number(e.target.value))} className={inputClass}>
+            <option value="">All partitions</option>
+            {partitions.map(p => <option key={p} value={p}>Partition {p}</option>)}
+          </select>
+        )}
+        <div className="flex-1" />
+        <button onClick={() => run(true)} disabled={busy} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">
+          <Eye className="h-3 w-3" /> Preview
+        </button>
+        <button onClick={() => run(false)} disabled={busy || !preview || preview.activeMembers > 0 || changes.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-[11px] rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          title={preview ? undefined : 'Preview the reset first'}>
+          <RotateCcw className="h-3 w-3" /> Apply
+        </button>
+        <button onClick={onClose} className="p-1 rounded hover:bg-accent text-muted-foreground" title="Close">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {strategy === 'offset' && (
+        <div className="flex gap-2 flex-wrap">
+          {partitions.map(p => (
+            <label key={p} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              P{p}
+              <input type="number" min={0} value={offsets[p] ?? ''} placeholder="keep"
+                onChange={e => edit(setOffsets)({ ...offsets, [p]: e.target.value })} className={`w-24 font-mono ${inputClass}`} />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {preview && preview.activeMembers > 0 && (
+        <div className="flex items-center gap-1.5 text-[11px] text-amber-500">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          The group has {preview.activeMembers} active member(s). Stop its consumers before applying.
+        </div>
+      )}
+
+      {preview && (
+        <div className="rounded border overflow-hidden">
+          <table className="w-full text-[11px]">
+            <thead><tr className="bg-muted/30 border-b">
+              <th className="text-left px-2 py-1 font-medium w-20">Partition</th>
+              <th className="text-left px-2 py-1 font-medium">Current</th>
+              <th className="text-left px-2 py-1 font-medium">New</th>
+              <th className="text-left px-2 py-1 font-medium">Change</th>
+              <th className="text-left px-2 py-1 font-medium">Range</th>
+            </tr></thead>
+            <tbody>
+              {preview.rows.map(r => {
+                const delta = r.target !== null && r.current !== null ? r.target - r.current : null
+                return (
+                  <tr key={r.partition} className="border-b last:border-0 hover:bg-muted/20">
+                    <td className="px-2 py-1 font-mono text-amber-400">{r.partition}</td>
+                    <td className="px-2 py-1 font-mono">{r.current ?? '—'}</td>
+                    <td className="px-2 py-1 font-mono">
+                      {r.target ?? <span className="text-muted-foreground">unchanged (no committed offset)</span>}
+                      {r.clamped && <span className="ml-1.5 text-[10px] text-amber-500" title="The requested offset is outside the retained range">clamped</span>}
+                    </td>
+                    <td className={`px-2 py-1 font-mono ${delta && delta < 0 ? 'text-blue-400' : delta ? 'text-green-400' : 'text-muted-foreground'}`}>
+                      {delta === null ? '—' : delta > 0 ? `+${delta}` : delta}
+                    </td>
+                    <td className="px-2 py-1 font-mono text-muted-foreground">{r.low}–{r.high}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
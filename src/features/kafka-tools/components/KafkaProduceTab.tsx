@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Send, Square, Copy, Plus, Trash2, Upload, FileText } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import {
+  formatDeliveryReport, generateMessages, parseMessageFile,
+  type BulkMessage, type KafkaBulkSource, type KafkaCompression, type KafkaMessageTemplate,
+} from '@/utils/kafkaProduce'
+import { useKafkaBulkProduce } from '../hooks/useKafkaBulkProduce'
+
+type SourceKind = KafkaBulkSource['kind']
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+const PREVIEW_COUNT = 3
+
+const PLACEHOLDER_HELP = '{{seq}} · {{uuid}} · {{now}} · {{now:ms}} · {{random:a|b|c}}'
+
+/** Send many messages to a topic, generated from a template or read from a JSONL / CSV file */
+export const KafkaProduceTab = ({ connectionId, tt, initialTopic }: {
+  connectionId: string; tt: any; initialTopic?: string
+}) => {
+  const [topics, setTopics] = useState<string[]>([])
+  const [topic, setTopic] = useState(initialTopic || '')
+  const [kind, setKind] = useState<SourceKind>('template')
+  const [key, setKey] = useState('')
+  const [value, setValue] = useState('{\n  "id": {{seq}},\n  "event": "{{random:created|updated|deleted}}",\n  "at": "{{now}}"\n}')
+  const [partition, setPartition] = useState('')
+  const [headers, setHeaders] = useState<Array<{ name: string; value: string }>>([])
+  const [count, setCount] = useState(100)
+  const [sequenceStart, setSequenceStart] = useState(1)
+  const [file, setFile] = useState<{ name: string; messages: BulkMessage[] } | null>(null)
+  const [fileError, setFileError] = useState('')
+  const [compression, setCompression] = useState<KafkaCompression>('none')
+  const [acks, setAcks] = useState<-1 | 0 | 1>(-1)
+  const [batchSize, setBatchSize] = useState(500)
+  const [rate, setRate] = useState(0)
+  const produce = useKafkaBulkProduce(connectionId)
+
+  const loadTopics = useCallback(async () => {
+    try {
+      const result = await databaseService.listDatabases(connectionId, 'kafka')
+      if (!result.success) throw new Error(result.error)
+      const list = (result.databases || []).map((t: any) => typeof t === 'string' ? t : t.name).sort()
+      setTopics(list)
+      if (list.length > 0 && !topic) setTopic(list[0])
+    } catch (err: any) { tt.error(err.message) }
+  }, [connectionId])
+
+  useEffect(() => { loadTopics() }, [loadTopics])
+
+  const template = useMemo((): KafkaMessageTemplate => ({
+    key: key || undefined,
+    value,
+    partition: partition.trim() || undefined,
+    headers: headers.some(h => h.name.trim()) ? Object.fromEntries(headers.filter(h => h.name.trim()).map(h => [h.name.trim(), h.value])) : undefined,
+  }), [key, value, partition, headers])
+
+  // The first messages the run would send, or why the template or file can't be used
+  const preview = useMemo((): { messages: BulkMessage[]; error?: string } => {
+    if (kind === 'messages') return file ? { messages: file.messages.slice(0, PREVIEW_COUNT) } : { messages: [], error: fileError || undefined }
+    try {
+      return { messages: generateMessages(template, 0, Math.min(PREVIEW_COUNT, count), sequenceStart) }
+    } catch (err: any) { return { messages: [], error: err.message } }
+  }, [kind, file, fileError, template, count, sequenceStart])
+
+  const handleFile = async (selected?: File) => {
+    setFile(null)
+    setFileError('')
+    if (!selected) return
+    try {
+      const messages = parseMessageFile(selected.name, await selected.text())
+      if (messages.length === 0) throw new Error('The file has no messages')
+      setFile({ name: selected.name, messages })
+    } catch (err: any) { setFileError(err.message) }
+  }
+
+  const total = kind === 'template' ? count : file?.messages.length || 0
+
+  const handleStart = () => {
+    if (!topic) { tt.warning('Select a topic first'); return }
+    if (preview.error) { tt.warning(preview.error); return }
+    if (total <= 0) { tt.warning(kind === 'template' ? 'Enter how many messages to send' : 'Choose a file first'); return }
+    if (!confirm(`Produce ${total.toLocaleString()} message(s) to "${topic}"?`)) return
+    const source: KafkaBulkSource = kind === 'template'
+      ? { kind, template, count, sequenceStart }
+      : { kind, messages: file!.messages }
+    produce.start(topic, source, {
+      compression, acks, batchSize: Math.max(1, batchSize), messagesPerSecond: rate > 0 ? rate : undefined,
+    })
+  }
+
+  const progress = produce.progress
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.sent / progress.total) * 100)) : progress?.done ? 100 : 0
+  const seconds = (progress?.elapsedMs || 0) / 1000
+  const status = !progress ? (produce.running ? 'Starting…' : '')
+    : produce.running ? `Producing… ${progress.sent.toLocaleString()} of ${progress.total.toLocaleString()}${seconds > 0 ? ` · ${Math.round(progress.sent / seconds)} msg/s` : ''}`
+    : progress.error ? `Failed after ${progress.sent.toLocaleString()} sent`
+    : progress.cancelled ? `Cancelled after ${progress.sent.toLocaleString()} sent`
+    : `Done · ${progress.sent.toLocaleString()} sent in ${seconds.toFixed(1)}s`
+
+  const copyReport = () => {
+    if (!progress || !produce.topic) return
+    navigator.clipboard.writeText(formatDeliveryReport(produce.topic, progress))
+    tt.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Target and source */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground w-24">Produce to</h3>
+        <select value={topic} onChange={e => setTopic(e.target.value)} className={`${inputClass} font-mono min-w-[180px]`}>
+          <option value="">— Select Topic —</option>
+          {topics.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <div className="flex rounded border overflow-hidden">
+          {([['template', 'Template'], ['messages', 'File']] as const).map(([id, label]) => (
+            <button key={id} onClick={() => setKind(id)}
+              className={`px-2.5 py-1 text-[11px] ${kind === id ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      {kind === 'template' ? (
+        <div className="grid grid-cols-[1fr_280px] gap-3">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-muted-foreground">Value</span>
+              <span className="text-[10px] text-muted-foreground/70 font-mono">{PLACEHOLDER_HELP}</span>
+            </div>
+            <textarea value={value} onChange={e => setValue(e.target.value)} rows={8} spellCheck={false}
+              className={`w-full font-mono resize-y ${inputClass}`} />
+          </div>
+          <div className="space-y-2">
+            <label className="block">
+              <span className="text-[10px] text-muted-foreground">Key</span>
+              <input value={key} onChange={e => setKey(e.target.value)} placeholder="none, e.g. user-{{random:1|2|3}}" className={`w-full font-mono ${inputClass}`} />
+            </label>
+            <label className="block">
+              <span className="text-[10px] text-muted-foreground">Partition</span>
+              <input value={partition} onChange={e => setPartition(e.target.value)} placeholder="partitioner chooses" className={`w-full font-mono ${inputClass}`} />
+            </label>
+            <div className="flex gap-2">
+              <label className="block flex-1">
+                <span className="text-[10px] text-muted-foreground">Messages</span>
+                <input type="number" min={1} value={count} onChange={e => setCount(Math.max(0, Number(e.target.value) || 0))} className={`w-full ${inputClass}`} />
+              </label>
+              <label className="block flex-1">
+                <span className="text-[10px] text-muted-foreground">First {'{{seq}}'}</span>
+                <input type="number" value={sequenceStart} onChange={e => setSequenceStart(Number(e.target.value) || 0)} className={`w-full ${inputClass}`} />
+              </label>
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-muted-foreground">Headers</span>
+                <button onClick={() => setHeaders([...headers, { name: '', value: '' }])} className="flex items-center gap-0.5 text-[10px] text-primary hover:underline">
+                  <Plus className="h-3 w-3" /> Add
+                </button>
+              </div>
+              {headers.map((h, i) => (
+                <div key={i} className="flex gap-1">
+                  <input value={h.name} onChange={e => setHeaders(headers.map((x, j) => j === i ? { ...x, name: e.target.value } : x))}
+                    placeholder="name" className={`w-24 font-mono ${inputClass}`} />
+                  <input value={h.value} onChange={e => setHeaders(headers.map((x, j) => j === i ? { ...x, value: e.target.value } : x))}
+                    placeholder="value template" className={`flex-1 min-w-0 font-mono ${inputClass}`} />
+                  <button onClick={() => setHeaders(headers.filter((_, j) => j !== i))} className="p-1 rounded hover:bg-accent text-muted-foreground">
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 flex-wrap">
+          <label className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] rounded border hover:bg-accent cursor-pointer">
+            <Upload className="h-3.5 w-3.5" /> Choose file
+            <input type="file" accept=".jsonl,.ndjson,.json,.csv" className="hidden" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = '' }} />
+          </label>
+          {file && (
+            <span className="flex items-center gap-1 text-[11px]">
+              <FileText className="h-3.5 w-3.5 text-muted-foreground" /> <span className="font-mono">{file.name}</span>
+              <span className="text-muted-foreground">· {file.messages.length.toLocaleString()} message(s)</span>
+            </span>
+          )}
+          <span className="text-[10px] text-muted-foreground/70">
+            JSONL lines or CSV columns: value, key, partition, header.&lt;name&gt;
+          </span>
+        </div>
+      )}
+
+      {/* Options */}
+      <div className="flex items-center gap-3 flex-wrap text-[11px] text-muted-foreground">
+        <span className="text-[10px]">Compression:</span>
+        <select value={compression} onChange={e => setCompression(e.target.value as KafkaCompression)} className={inputClass}>
+          <option value="none">None</option>
+          <option value="gzip">GZIP</option>
+          <option value="snappy">Snappy</option>
+          <option value="lz4">LZ4</option>
+          <option value="zstd">ZSTD</option>
+        </select>
+        <span className="text-[10px]">Acks:</span>
+        <select value={acks} onChange={e => setAcks(Number(e.target.value) as -1 | 0 | 1)} className={inputClass}>
+          <option value={-1}>All replicas</option>
+          <option value={1}>Leader</option>
+          <option value={0}>None</option>
+        </select>
+        <span className="text-[10px]">Batch:</span>
+        <input type="number" min={1} value={batchSize} onChange={e => setBatchSize(Math.max(1, Number(e.target.value) || 1))} className={`w-20 ${inputClass}`} title="Messages per produce request" />
+        <span className="text-[10px]">Max msg/s:</span>
+        <input type="number" min={0} value={rate} onChange={e => setRate(Math.max(0, Number(e.target.value) || 0))} className={`w-20 ${inputClass}`} title="0 for unlimited" />
+        <div className="flex-1" />
+        {produce.running ? (
+          <button onClick={produce.cancel} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10">
+            <Square className="h-3.5 w-3.5" /> Cancel
+          </button>
+        ) : (
+          <button onClick={handleStart} disabled={!topic || total <= 0 || !!preview.error}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+            <Send className="h-3.5 w-3.5" /> Produce {total > 0 ? total.toLocaleString() : ''}
+          </button>
+        )}
+      </div>
+
+      {/* Progress */}
+      {(produce.running || progress) && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full transition-all ${progress?.error ? 'bg-red-500' : progress?.cancelled ? 'bg-muted-foreground/50' : 'bg-primary'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-[11px] text-muted-foreground">{status}</span>
+          <button onClick={copyReport} disabled={!progress} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">
+            <Copy className="h-3 w-3" /> Copy report
+          </button>
+        </div>
+      )}
+      {progress?.error && (
+        <p className="text-[11px] text-red-400 font-mono">
+          {progress.error}{progress.failedAt !== undefined ? ` — stopped at message #${(progress.failedAt + 1).toLocaleString()}` : ''}
+        </p>
+      )}
+
+      {/* Delivery report, or a preview before sending */}
+      <div className="flex-1 overflow-auto rounded-md border bg-card">
+        {progress?.partitions && progress.partitions.length > 0 ? (
+          <table className="w-full text-[11px]">
+            <thead className="bg-muted/50 border-b sticky top-0">
+              <tr>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-24">Partition</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase">Offsets</th>
+                <th className="px-2 py-2 text-right text-[10px] font-medium text-muted-foreground uppercase w-28">Messages</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {progress.partitions.map(d => (
+                <tr key={d.partition} className="hover:bg-muted/30">
+                  <td className="px-2 py-1.5 font-mono text-amber-400">{d.partition}</td>
+                  <td className="px-2 py-1.5 font-mono">{d.firstOffset} – {d.lastOffset}</td>
+                  <td className="px-2 py-1.5 font-mono text-right" title={d.approximate ? 'From the high watermarks — acks 0 returns no offsets, so this may include other producers' : undefined}>
+                    {d.approximate ? '~' : ''}{d.count.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : preview.error ? (
+          <p className="p-3 text-[11px] text-red-400 font-mono">{preview.error}</p>
+        ) : preview.messages.length > 0 ? (
+          <div className="p-2 space-y-2">
+            <p className="text-[10px] text-muted-foreground uppercase">Preview</p>
+            {preview.messages.map((m, i) => (
+              <div key={i} className="rounded border bg-background p-2 text-[11px] font-mono space-y-0.5">
+                <div className="text-[10px] text-muted-foreground">
+                  #{i + 1}{m.key !== undefined ? ` · key ${m.key}` : ''}{m.partition !== undefined ? ` · partition ${m.partition}` : ''}
+                  {m.headers ? ` · ${Object.entries(m.headers).map(([n, v]) => `${n}=${v}`).join(', ')}` : ''}
+                </div>
+                <pre className="whitespace-pre-wrap break-all">{m.value}</pre>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <Send className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+              <p className="text-xs text-muted-foreground">Generate test traffic from a template or send the messages of a file</p>
+            </div>
+          </div>
+        )}
+      </div>
+      {progress?.partitions && (
+        <p className="text-[10px] text-muted-foreground/70">Offsets are the range each partition grew by during the run, so they include other producers' writes</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Shuffle, Copy, Upload, Send, X } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import {
+  formatReassignmentPlan, parseReassignmentPlan, proposeReassignment, reassignmentChanges, validateReplicas,
+  type PartitionReplicas, type ReplicaAssignment,
+} from '@/utils/kafkaPartitions'
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+const replicaText = (replicas: number[]) => replicas.join(', ')
+
+/** Edit the replica list of each partition — by hand, balanced over chosen brokers or from a CLI plan — and submit the moves */
+export const KafkaReassignmentPanel = ({ connectionId, topic, partitions, tt, onSubmitted, onClose }: {
+  connectionId: string; topic: string; partitions: PartitionReplicas[]; tt: any;
+  onSubmitted: () => void; onClose: () => void
+}) => {
+  const [brokers, setBrokers] = useState<Array<{ nodeId: number; host: string; port: number }>>([])
+  const [selectedBrokers, setSelectedBrokers] = useState<Set<number>>(new Set())
+  const [replicationFactor, setReplicationFactor] = useState(() => Math.max(1, ...partitions.map(p => p.replicas.length)))
+  const [replicas, setReplicas] = useState<Record<number, string>>(
+    () => Object.fromEntries(partitions.map(p => [p.partitionId, replicaText(p.replicas)]))
+  )
+  const [importing, setImporting] = useState(false)
+  const [planText, setPlanText] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    databaseService.kafkaGetClusterInfo(connectionId)
+      .then((result: any) => {
+        const list = (result.cluster?.brokers || []).sort((a: any, b: any) => a.nodeId - b.nodeId)
+        setBrokers(list)
+        setSelectedBrokers(new Set(list.map((b: any) => b.nodeId)))
+      })
+      .catch((err: any) => tt.error(err.message))
+  }, [connectionId])
+
+  // The plan as typed, with an error per partition whose replica list is invalid
+  const { plan, errors } = useMemo(() => {
+    const brokerIds = new Set(brokers.map(b => b.nodeId))
+    const plan: ReplicaAssignment[] = []
+    const errors: Record<number, string> = {}
+    for (const p of partitions) {
+      const ids = (replicas[p.partitionId] || '').split(/[\s,]+/).filter(Boolean).map(Number)
+      try {
+        if (ids.some(id => !Number.isInteger(id))) throw new Error('Broker ids must be whole numbers')
+        if (brokerIds.size > 0) validateReplicas(p.partitionId, ids, brokerIds)
+        plan.push({ partition: p.partitionId, replicas: ids })
+      } catch (err: any) { errors[p.partitionId] = err.message }
+    }
+    return { plan, errors }
+  }, [partitions, replicas, brokers])
+
+  const changes = useMemo(() => reassignmentChanges(partitions, plan), [partitions, plan])
+  const changed = new Set(changes.map(c => c.partition))
+  const hasErrors = Object.keys(errors).length > 0
+
+  const applyPlan = (next: ReplicaAssignment[]) => {
+    setReplicas(prev => ({ ...prev, ...Object.fromEntries(next.map(a => [a.partition, replicaText(a.replicas)])) }))
+  }
+
+  const handleBalance = () => {
+    try {
+      applyPlan(proposeReassignment(partitions, [...selectedBrokers], replicationFactor))
+    } catch (err: any) { tt.warning(err.message) }
+  }
+
+  const handleImport = () => {
+    try {
+      applyPlan(parseReassignmentPlan(planText, topic, partitions.map(p => p.partitionId), brokers.map(b => b.nodeId)))
+      setImporting(false)
+      setPlanText('')
+    } catch (err: any) { tt.warning(err.message) }
+  }
+
+  const handleSubmit = async () => {
+    if (changes.length === 0 || hasErrors) return
+    if (!confirm(`Move ${changes.length} partition(s) of "${topic}"? Brokers copy the data in the background, which adds load to the cluster.`)) return
+    setBusy(true)
+    try {
+      const result = await databaseService.kafkaReassignPartitions(connectionId, topic, changes.map(({ partition, replicas }) => ({ partition, replicas })))
+      if (!result.success) throw new Error(result.error)
+      tt.success(`Reassignment of ${result.submitted} partition(s) started`)
+      onSubmitted()
+    } catch (err: any) { tt.error(err.message) }
+    finally { setBusy(false) }
+  }
+
+  const toggleBroker = (nodeId: number) => {
+    setSelectedBrokers(prev => {
+      const next = new Set(prev)
+      if (next.has(nodeId)) next.delete(nodeId); else next.add(nodeId)
+      return next
+    })
+  }
+
+  return (
+    <div className="rounded border bg-card p-2.5 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[11px] font-semibold">Reassign partitions</span>
+        <span className="text-[10px] text-muted-foreground">Brokers:</span>
+        {brokers.map(b => (
+          <button key={b.nodeId} onClick={() => toggleBroker(b.nodeId)} title={`${b.host}:${b.port}`}
+            className={`px-1.5 py-0.5 text-[10px] font-mono rounded border ${selectedBrokers.has(b.nodeId) ? 'bg-primary/15 text-primary border-primary/30' : 'hover:bg-accent'}`}>
+            {b.nodeId}
+          </button>
+        ))}
+        <span className="text-[10px] text-muted-foreground ml-1">Replicas:</span>
+        <input type="number" min={1} max={brokers.length || undefined} value={replicationFactor}
+          onChange={e => setReplicationFactor(Math.max(1, Number(e.target.value) || 1))} className={`w-14 ${inputClass}`} />
+        <button onClick={handleBalance} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent" title="Spread replicas and leaders evenly over the selected brokers">
+          <Shuffle className="h-3 w-3" /> Balance
+        </button>
+        <div className="flex-1" />
+        <button onClick={() => setImporting(!importing)} className={`flex items-center gap-1 px-2 py-1 text-[11px] rounded border ${importing ? 'bg-primary/15 text-primary' : 'hover:bg-accent'}`}>
+          <Upload className="h-3 w-3" /> Import plan
+        </button>
+        <button onClick={() => { navigator.clipboard.writeText(formatReassignmentPlan(topic, changes)); tt.success('Copied to clipboard') }}
+          disabled={changes.length === 0 || hasErrors} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50"
+          title="Copy as a kafka-reassign-partitions plan">
+          <Copy className="h-3 w-3" /> Copy plan
+        </button>
+        <button onClick={handleSubmit} disabled={busy || changes.length === 0 || hasErrors}
+          className="flex items-center gap-1 px-2 py-1 text-[11px] rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+          <Send className="h-3 w-3" /> Submit {changes.length > 0 ? `${changes.length} move(s)` : ''}
+        </button>
+        <button onClick={onClose} className="p-1 rounded hover:bg-accent text-muted-foreground" title="Close">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {importing && (
+        <div className="space-y-1">
+          <textarea value={planText} onChange={e => setPlanText(e.target.value)} rows={5}
+            placeholder={'{"version":1,"partitions":[{"topic":"' + topic + '","partition":0,"replicas":[1,2]}]}'}
+            className={`w-full font-mono resize-y ${inputClass}`} />
+          <button onClick={handleImport} disabled={!planText.trim()} className="px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">Load into the editor</button>
+        </div>
+      )}
+
+      <div className="rounded border overflow-hidden">
+        <table className="w-full text-[11px]">
+          <thead><tr className="bg-muted/30 border-b">
+            <th className="text-left px-2 py-1 font-medium w-20">Partition</th>
+            <th className="text-left px-2 py-1 font-medium">Current replicas</th>
+            <th className="text-left px-2 py-1 font-medium">New replicas (first is the preferred leader)</th>
+          </tr></thead>
+          <tbody>
+            {partitions.map(p => (
+              <tr key={p.partitionId} className={`border-b last:border-0 ${changed.has(p.partitionId) ? 'bg-blue-500/5' : ''}`}>
+                <td className="px-2 py-1 font-mono text-amber-400">{p.partitionId}</td>
+                <td className="px-2 py-1 font-mono text-muted-foreground">{replicaText(p.replicas)}</td>
+                <td className="px-2 py-1">
+                  <input value={replicas[p.partitionId] ?? ''} onChange={e => setReplicas({ ...replicas, [p.partitionId]: e.target.value })}
+                    className={`w-40 font-mono ${inputClass} ${errors[p.partitionId] ? 'border-red-500/60' : ''}`} />
+                  {errors[p.partitionId] && <span className="ml-2 text-[10px] text-red-400">{errors[p.partitionId]}</span>}
+                  {!errors[p.partitionId] && changed.has(p.partitionId) && <span className="ml-2 text-[10px] text-blue-400">moves</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Repeat, Square, Play, Copy, AlertTriangle } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import { useConnectionStore } from '@/store/connectionStore'
+import type { KafkaReplaySelection } from '@/utils/kafkaReplay'
+import { useKafkaReplay } from '../hooks/useKafkaReplay'
+
+type SelectionKind = KafkaReplaySelection['kind']
+
+/** Messages handed over from a search, replayed as-is */
+export interface KafkaReplayHits {
+  topic: string
+  messages: Array<{ partition: number; offset: string }>
+}
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+const listTopics = async (connectionId: string): Promise<string[]> => {
+  const result = await databaseService.listDatabases(connectionId, 'kafka')
+  if (!result.success) throw new Error(result.error)
+  return (result.databases || []).map((t: any) => typeof t === 'string' ? t : t.name).sort()
+}
+
+/** Copy an offset range, time range or search hits from a topic to a topic on this or another Kafka connection */
+export const KafkaReplayTab = ({ connectionId, tt, initialTopic, hits }: {
+  connectionId: string; tt: any; initialTopic?: string; hits?: KafkaReplayHits | null
+}) => {
+  const connections = useConnectionStore(s => s.connections)
+  const kafkaConnections = useMemo(() => connections.filter(c => c.type === 'kafka'), [connections])
+  const [topics, setTopics] = useState<string[]>([])
+  const [topic, setTopic] = useState(hits?.topic || initialTopic || '')
+  const [partitions, setPartitions] = useState<number[]>([])
+  const [kind, setKind] = useState<SelectionKind>(hits ? 'messages' : 'offsets')
+  const [partition, setPartition] = useState<number | undefined>(undefined)
+  const [startOffset, setStartOffset] = useState('')
+  const [endOffset, setEndOffset] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [destinationId, setDestinationId] = useState(connectionId)
+  const [destinationTopics, setDestinationTopics] = useState<string[] | null>([])
+  const [destinationTopic, setDestinationTopic] = useState('')
+  const [preserveKeys, setPreserveKeys] = useState(true)
+  const [preserveHeaders, setPreserveHeaders] = useState(true)
+  const [preserveTimestamps, setPreserveTimestamps] = useState(false)
+  const [preservePartitions, setPreservePartitions] = useState(false)
+  const [rate, setRate] = useState(0)
+  const replay = useKafkaReplay(connectionId)
+
+  const loadTopics = useCallback(async () => {
+    try {
+      const list = await listTopics(connectionId)
+      setTopics(list)
+      if (list.length > 0 && !topic) setTopic(list[0])
+    } catch (err: any) { tt.error(err.message) }
+  }, [connectionId])
+
+  useEffect(() => { loadTopics() }, [loadTopics])
+
+  useEffect(() => {
+    setPartitions([])
+    setPartition(undefined)
+    if (!topic) return
+    databaseService.getCollectionStats(connectionId, '', topic, 'kafka')
+      .then((result: any) => {
+        if (result.success) setPartitions((result.metadata?.partitions || []).map((p: any) => p.partitionId).sort((a: number, b: number) => a - b))
+      })
+      .catch(() => {})
+  }, [connectionId, topic])
+
+  // Topics of the destination; null when that connection is not connected
+  useEffect(() => {
+    let stale = false
+    listTopics(destinationId)
+      .then(list => { if (!stale) setDestinationTopics(list) })
+      .catch(() => { if (!stale) setDestinationTopics(null) })
+    return () => { stale = true }
+  }, [destinationId])
+
+  const fromHits = !!hits && hits.topic === topic && hits.messages.length > 0
+
+  const buildSelection = (): KafkaReplaySelection | null => {
+    const partitionList = partition === undefined ? undefined : [partition]
+    if (kind === 'messages') {
+      if (!fromHits) { tt.warning('Run a search on this topic and send its matches here first'); return null }
+      return { kind, messages: hits!.messages }
+    }
+    if (kind === 'time') {
+      const fromTs = from ? Date.parse(from) : undefined
+      const toTs = to ? Date.parse(to) : undefined
+      if (Number.isNaN(fromTs) || Number.isNaN(toTs)) { tt.warning('Invalid time range'); return null }
+      return { kind, partitions: partitionList, from: fromTs, to: toTs }
+    }
+    const start = startOffset.trim() === '' ? undefined : Number(startOffset)
+    const end = endOffset.trim() === '' ? undefined : Number(endOffset) + 1
+    if ((start !== undefined && !Number.isInteger(start)) || (end !== undefined && !Number.isInteger(end))) {
+      tt.warning('Offsets must be whole numbers'); return null
+    }
+    return { kind, partitions: partitionList, start, end }
+  }
+
+  const handleStart = () => {
+    if (!topic) { tt.warning('Select a source topic first'); return }
+    if (!destinationTopic.trim()) { tt.warning('Enter a destination topic'); return }
+    const selection = buildSelection()
+    if (!selection) return
+    const destinationName = kafkaConnections.find(c => c.id === destinationId)?.name || destinationId
+    if (!confirm(`Replay messages from "${topic}" into "${destinationTopic.trim()}" on ${destinationName}?`)) return
+    replay.start({
+      topic,
+      destination: { connectionId: destinationId, topic: destinationTopic.trim() },
+      selection,
+      options: { preserveKeys, preserveHeaders, preserveTimestamps, preservePartitions, messagesPerSecond: rate > 0 ? rate : undefined },
+    })
+  }
+
+  const progress = replay.progress
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.scanned / progress.total) * 100)) : progress?.done ? 100 : 0
+  const status = !progress ? (replay.running ? 'Starting…' : '')
+    : replay.running ? `Replaying… ${progress.produced.toLocaleString()} produced, ${progress.scanned.toLocaleString()} of ${progress.total.toLocaleString()} read`
+    : progress.error ? `Failed after ${progress.produced.toLocaleString()} produced`
+    : progress.cancelled ? `Cancelled after ${progress.produced.toLocaleString()} produced`
+    : `Done · ${progress.produced.toLocaleString()} produced`
+
+  const positions = useMemo(
+    () => Object.entries(progress?.positions || {}).map(([p, next]) => ({ partition: Number(p), next })).sort((a, b) => a.partition - b.partition),
+    [progress]
+  )
+
+  const copyReport = () => {
+    const report = {
+      source: { connectionId, topic: replay.request?.topic },
+      destination: replay.request?.destination,
+      selection: replay.request?.selection,
+      options: replay.request?.options,
+      produced: progress?.produced,
+      read: progress?.scanned,
+      total: progress?.total,
+      status: progress?.error ? 'failed' : progress?.cancelled ? 'cancelled' : progress?.done ? 'done' : 'running',
+      error: progress?.error,
+      resumeFrom: progress?.positions,
+    }
+    navigator.clipboard.writeText(JSON.stringify(report, null, 2))
+    tt.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Source */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground w-24">Replay from</h3>
+        <select value={topic} onChange={e => setTopic(e.target.value)} className={`${inputClass} font-mono min-w-[180px]`}>
+          <option value="">— Select Topic —</option>
+          {topics.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={kind} onChange={e => setKind(e.target.value as SelectionKind)} className={inputClass}>
+          <option value="offsets">Offset range</option>
+          <option value="time">Time range</option>
+          <option value="messages" disabled={!fromHits}>Search matches{fromHits ? ` (${hits!.messages.length})` : ''}</option>
+        </select>
+        {kind !== 'messages' && (
+          <select value={partition ?? ''} onChange={e => setPartition(e.target.value === '' ? undefined : Number(e.target.value))} className={inputClass}>
+            <option value="">All partitions</option>
+            {partitions.map(p => <option key={p} value={p}>Partition {p}</option>)}
+          </select>
+        )}
+        {kind === 'offsets' && (
+          <>
+            <span className="text-[10px] text-muted-foreground">Offsets:</span>
+            <input type="number" min={0} value={startOffset} onChange={e => setStartOffset(e.target.value)} placeholder="earliest" className={`w-24 font-mono ${inputClass}`} />
+            <span className="text-[10px] text-muted-foreground">to</span>
+            <input type="number" min={0} value={endOffset} onChange={e => setEndOffset(e.target.value)} placeholder="latest" className={`w-24 font-mono ${inputClass}`}
+              title="Inclusive" />
+          </>
+        )}
+        {kind === 'time' && (
+          <>
+            <span className="text-[10px] text-muted-foreground">From:</span>
+            <input type="datetime-local" step={1} value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+            <span className="text-[10px] text-muted-foreground">To:</span>
+            <input type="datetime-local" step={1} value={to} onChange={e => setTo(e.target.value)} className={inputClass} />
+          </>
+        )}
+      </div>
+
+      {/* Destination */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground w-24">Into</h3>
+        <select value={destinationId} onChange={e => setDestinationId(e.target.value)} className={inputClass}>
+          {kafkaConnections.map(c => <option key={c.id} value={c.id}>{c.name}{c.id === connectionId ? ' (this connection)' : ''}</option>)}
+        </select>
+        <input value={destinationTopic} onChange={e => setDestinationTopic(e.target.value)} list="kafka-replay-destination-topics"
+          placeholder="Destination topic" className={`min-w-[180px] font-mono ${inputClass}`} />
+        <datalist id="kafka-replay-destination-topics">
+          {(destinationTopics || []).map(t => <option key={t} value={t} />)}
+        </datalist>
+        {destinationTopics === null && (
+          <span className="flex items-center gap-1 text-[11px] text-amber-500">
+            <AlertTriangle className="h-3.5 w-3.5" /> Not connected — connect it from the Connections page first
+          </span>
+        )}
+      </div>
+
+      {/* Options */}
+      <div className="flex items-center gap-3 flex-wrap text-[11px] text-muted-foreground">
+        <span className="text-[10px]">Preserve:</span>
+        <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={preserveKeys} onChange={e => setPreserveKeys(e.target.checked)} /> Keys</label>
+        <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={preserveHeaders} onChange={e => setPreserveHeaders(e.target.checked)} /> Headers</label>
+        <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={preserveTimestamps} onChange={e => setPreserveTimestamps(e.target.checked)} /> Timestamps</label>
+        <label className="flex items-center gap-1 cursor-pointer" title="The destination needs at least as many partitions">
+          <input type="checkbox" checked={preservePartitions} onChange={e => setPreservePartitions(e.target.checked)} /> Partitions
+        </label>
+        <span className="text-[10px] ml-2">Max msg/s:</span>
+        <input type="number" min={0} value={rate} onChange={e => setRate(Math.max(0, Number(e.target.value) || 0))} className={`w-20 ${inputClass}`} title="0 for unlimited" />
+        <div className="flex-1" />
+        {replay.running ? (
+          <button onClick={replay.cancel} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10">
+            <Square className="h-3.5 w-3.5" /> Cancel
+          </button>
+        ) : (
+          <>
+            {replay.interrupted && (
+              <button onClick={replay.resume} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent text-foreground">
+                <Play className="h-3.5 w-3.5" /> Resume
+              </button>
+            )}
+            <button onClick={handleStart} disabled={!topic || destinationTopics === null}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+              <Repeat className="h-3.5 w-3.5" /> Start replay
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Progress */}
+      {(replay.running || progress) && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full transition-all ${progress?.error ? 'bg-red-500' : progress?.cancelled ? 'bg-muted-foreground/50' : 'bg-primary'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-[11px] text-muted-foreground">{status}</span>
+          <button onClick={copyReport} disabled={!progress} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">
+            <Copy className="h-3 w-3" /> Copy report
+          </button>
+        </div>
+      )}
+      {progress?.error && <p className="text-[11px] text-red-400 font-mono">{progress.error}</p>}
+
+      {/* Report */}
+      <div className="flex-1 overflow-auto rounded-md border bg-card">
+        {positions.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <Repeat className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+              <p className="text-xs text-muted-foreground">Replay a range of a topic — e.g. a dead letter queue — into another topic</p>
+            </div>
+          </div>
+        ) : (
+          <table className="w-full text-[11px]">
+            <thead className="bg-muted/50 border-b sticky top-0">
+              <tr>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-24">Partition</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase">Next offset to replay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {positions.map(p => (
+                <tr key={p.partition} className="hover:bg-muted/30">
+                  <td className="px-2 py-1.5 font-mono text-amber-400">{p.partition}</td>
+                  <td className="px-2 py-1.5 font-mono">{p.next}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { AlertTriangle, FileCode2 } from 'lucide-react'
+import type { KafkaMessageDocument } from '@/utils/kafkaMessages'
+
+/** Marks a message whose key or value was decoded through the Schema Registry, or could not be */
+export const KafkaSchemaBadge = ({ message }: { message: KafkaMessageDocument }) => {
+  const badge = 'inline-flex items-center gap-0.5 mr-1.5 px-1 py-px rounded text-[9px] font-sans align-middle'
+  if (message.decodeError) {
+    return (
+      <span className={`${badge} bg-red-500/15 text-red-400`} title={message.decodeError}>
+        <AlertTriangle className="h-2.5 w-2.5" /> raw
+      </span>
+    )
+  }
+  const ids = [
+    message.keySchemaId !== undefined && `key: schema ${message.keySchemaId}`,
+    message.valueSchemaId !== undefined && `value: schema ${message.valueSchemaId}`,
+  ].filter(Boolean)
+  if (ids.length === 0) return null
+  return (
+    <span className={`${badge} bg-amber-500/15 text-amber-400`} title={`Decoded with the Schema Registry (${ids.join(', ')})`}>
+      <FileCode2 className="h-2.5 w-2.5" /> {message.valueSchemaId ?? message.keySchemaId}
+    </span>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { RefreshCw, Search, FileCode2, Copy } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import { useConnectionStore } from '@/store/connectionStore'
+import { formatSchema, type RegisteredSchemaVersion } from '@/utils/schemaRegistry'
+
+const SCHEMA_TYPE_LABELS: Record<string, string> = { AVRO: 'Avro', PROTOBUF: 'Protobuf', JSON: 'JSON Schema' }
+
+/** Subjects and versions of the connection's Schema Registry */
+export const KafkaSchemaRegistryTab = ({ connectionId, tt }: { connectionId: string; tt: any }) => {
+  const registryUrl = useConnectionStore(s => s.connections.find(c => c.id === connectionId)?.kafkaSchemaRegistry?.url)
+  const [subjects, setSubjects] = useState<string[]>([])
+  const [search, setSearch] = useState('')
+  const [selectedSubject, setSelectedSubject] = useState('')
+  const [versions, setVersions] = useState<number[]>([])
+  const [schema, setSchema] = useState<RegisteredSchemaVersion | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const loadSubjects = useCallback(async () => {
+    if (!registryUrl) return
+    setLoading(true)
+    try {
+      const result = await databaseService.kafkaListSubjects(connectionId)
+      if (result.success) setSubjects(result.subjects || [])
+    } catch (err: any) { tt.error(err.message) }
+    finally { setLoading(false) }
+  }, [connectionId, registryUrl])
+
+  useEffect(() => { loadSubjects() }, [loadSubjects])
+
+  const loadVersion = useCallback(async (subject: string, version: number | 'latest') => {
+    try {
+      const result = await databaseService.kafkaGetSchema(connectionId, subject, version)
+      if (result.success) setSchema(result.schema)
+    } catch (err: any) { tt.error(err.message) }
+  }, [connectionId])
+
+  const selectSubject = async (subject: string) => {
+    setSelectedSubject(subject)
+    setVersions([])
+    setSchema(null)
+    try {
+      const result = await databaseService.kafkaGetSubjectVersions(connectionId, subject)
+      if (result.success) setVersions(result.versions || [])
+      await loadVersion(subject, 'latest')
+    } catch (err: any) { tt.error(err.message) }
+  }
+
+  const filteredSubjects = useMemo(
+    () => subjects.filter(s => s.toLowerCase().includes(search.toLowerCase())),
+    [subjects, search]
+  )
+  const schemaText = schema ? formatSchema(schema.schema, schema.schemaType) : ''
+
+  if (!registryUrl) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <FileCode2 className="h-8 w-8 text-muted-foreground/50 mx-auto mb-2" />
+          <p className="text-xs text-muted-foreground">No Schema Registry configured for this connection</p>
+          <p className="text-[10px] text-muted-foreground mt-1">Add its URL in the connection settings to browse subjects and decode messages</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Schema Registry</h3>
+        <span className="text-[11px] font-mono text-muted-foreground truncate">{registryUrl}</span>
+        <div className="flex-1" />
+        <button onClick={loadSubjects} disabled={loading} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent disabled:opacity-50">
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+
+      <div className="flex-1 flex gap-3 min-h-0">
+        {/* Subjects */}
+        <div className="w-64 flex flex-col rounded-md border bg-card overflow-hidden">
+          <div className="flex items-center gap-1.5 px-2 py-1.5 border-b">
+            <Search className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Filter subjects..."
+              className="flex-1 bg-transparent text-[11px] focus:outline-none" />
+          </div>
+          <div className="flex-1 overflow-auto">
+            {filteredSubjects.map(subject => (
+              <button key={subject} onClick={() => selectSubject(subject)}
+                className={`w-full text-left px-3 py-1.5 text-[11px] font-mono truncate transition-colors ${subject === selectedSubject ? 'bg-primary/15 text-primary' : 'hover:bg-accent'}`}>
+                {subject}
+              </button>
+            ))}
+            {filteredSubjects.length === 0 && (
+              <p className="px-3 py-4 text-[11px] text-muted-foreground text-center">{loading ? 'Loading...' : 'No subjects'}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Versions and schema */}
+        <div className="flex-1 flex flex-col rounded-md border bg-card overflow-hidden">
+          {!selectedSubject ? (
+            <div className="flex-1 flex items-center justify-center">
+              <p className="text-xs text-muted-foreground">Select a subject to view its schema</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 px-3 py-2 border-b flex-wrap">
+                <span className="text-[11px] font-semibold font-mono">{selectedSubject}</span>
+                <select value={schema?.version ?? ''} onChange={e => loadVersion(selectedSubject, Number(e.target.value))}
+                  className="px-2 py-1 text-[11px] rounded border bg-background">
+                  {versions.map(v => <option key={v} value={v}>Version {v}</option>)}
+                </select>
+                {schema && (
+                  <>
+                    <span className="px-1.5 py-0.5 text-[10px] rounded bg-amber-500/15 text-amber-400">{SCHEMA_TYPE_LABELS[schema.schemaType] || schema.schemaType}</span>
+                    <span className="text-[10px] text-muted-foreground">ID {schema.id}</span>
+                    {schema.references && schema.references.length > 0 && (
+                      <span className="text-[10px] text-muted-foreground" title={schema.references.map(r => `${r.name} → ${r.subject} v${r.version}`).join('\n')}>
+                        {schema.references.length} reference(s)
+                      </span>
+                    )}
+                  </>
+                )}
+                <div className="flex-1" />
+                <button onClick={() => { navigator.clipboard.writeText(schemaText); tt.success('Copied to clipboard') }} disabled={!schema}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">
+                  <Copy className="h-3 w-3" /> Copy
+                </button>
+              </div>
+              <pre className="flex-1 overflow-auto p-3 text-[11px] font-mono">{schemaText}</pre>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
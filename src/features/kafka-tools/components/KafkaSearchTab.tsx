@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Search, Square, ChevronDown, ChevronRight, Copy, Repeat } from 'lucide-react'
+import { databaseService } from '@/services/database.service'
+import type { KafkaSearchField, KafkaSearchMode, KafkaSearchOptions } from '@/utils/kafkaSearch'
+import { useKafkaSearch } from '../hooks/useKafkaSearch'
+import { KafkaSchemaBadge } from './KafkaSchemaBadge'
+
+const FIELDS: Array<{ value: KafkaSearchField; label: string }> = [
+  { value: 'value', label: 'Value' },
+  { value: 'key', label: 'Key' },
+  { value: 'header', label: 'Header' },
+]
+
+const MODES: Array<{ value: KafkaSearchMode; label: string; placeholder: string }> = [
+  { value: 'contains', label: 'Contains', placeholder: 'Text to find...' },
+  { value: 'regex', label: 'Regex', placeholder: '^order-\\d+$' },
+  { value: 'jsonpath', label: 'JSONPath', placeholder: '$.customer.id' },
+]
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** Scan a topic for messages by key, value or header — substring, regex or JSONPath — with live progress */
+export const KafkaSearchTab = ({ connectionId, tt, initialTopic, onReplay }: {
+  connectionId: string; tt: any; initialTopic?: string
+  /** Hand the matches over to the replay tool */
+  onReplay?: (topic: string, messages: Array<{ partition: number; offset: string }>) => void
+}) => {
+  const [topics, setTopics] = useState<string[]>([])
+  const [topic, setTopic] = useState(initialTopic || '')
+  const [partitions, setPartitions] = useState<number[]>([])
+  const [selectedPartitions, setSelectedPartitions] = useState<Set<number>>(new Set())
+  const [field, setField] = useState<KafkaSearchField>('value')
+  const [mode, setMode] = useState<KafkaSearchMode>('contains')
+  const [pattern, setPattern] = useState('')
+  const [header, setHeader] = useState('')
+  const [equals, setEquals] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [maxResults, setMaxResults] = useState(500)
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [searchedTopic, setSearchedTopic] = useState('')
+  const search = useKafkaSearch(connectionId)
+
+  const loadTopics = useCallback(async () => {
+    try {
+      const result = await databaseService.listDatabases(connectionId, 'kafka')
+      if (result.success) {
+        const list = (result.databases || []).map((t: any) => typeof t === 'string' ? t : t.name).sort()
+        setTopics(list)
+        if (list.length > 0 && !topic) setTopic(initialTopic && list.includes(initialTopic) ? initialTopic : list[0])
+      }
+    } catch (err: any) { tt.error(err.message) }
+  }, [connectionId])
+
+  useEffect(() => { loadTopics() }, [loadTopics])
+
+  useEffect(() => {
+    setPartitions([])
+    setSelectedPartitions(new Set())
+    if (!topic) return
+    databaseService.getCollectionStats(connectionId, '', topic, 'kafka')
+      .then((result: any) => {
+        if (result.success) setPartitions((result.metadata?.partitions || []).map((p: any) => p.partitionId).sort((a: number, b: number) => a - b))
+      })
+      .catch(() => {})
+  }, [connectionId, topic])
+
+  const togglePartition = (partition: number) => {
+    setSelectedPartitions(prev => {
+      const next = new Set(prev)
+      if (next.has(partition)) next.delete(partition); else next.add(partition)
+      return next
+    })
+  }
+
+  const handleSearch = () => {
+    if (!topic) { tt.warning('Select a topic first'); return }
+    if (!pattern.trim()) { tt.warning('Enter something to search for'); return }
+    const fromTs = from ? Date.parse(from) : undefined
+    const toTs = to ? Date.parse(to) : undefined
+    if (Number.isNaN(fromTs) || Number.isNaN(toTs)) { tt.warning('Invalid time window'); return }
+    const options: KafkaSearchOptions = {
+      criteria: { field, mode, pattern: pattern.trim(), header: header.trim() || undefined, equals: equals.trim() || undefined, caseSensitive },
+      partitions: selectedPartitions.size > 0 ? [...selectedPartitions] : undefined,
+      from: fromTs,
+      to: toTs,
+      maxResults: Math.max(1, maxResults),
+    }
+    setExpandedRows(new Set())
+    setSearchedTopic(topic)
+    search.start(topic, options)
+  }
+
+  const toggleRow = (key: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key); else next.add(key)
+      return next
+    })
+  }
+
+  const formatTs = (ts: string) => {
+    if (!ts) return '—'
+    try { return new Date(Number(ts)).toLocaleString() } catch { return ts }
+  }
+
+  const tryParseJSON = (val: string | null) => {
+    if (!val) return val
+    try { return JSON.stringify(JSON.parse(val), null, 2) } catch { return val }
+  }
+
+  const percent = search.total > 0 ? Math.min(100, Math.round((search.scanned / search.total) * 100)) : search.outcome ? 100 : 0
+  const status = search.running
+    ? `Scanning… ${search.scanned.toLocaleString()} of ${search.total.toLocaleString()} messages`
+    : search.outcome === 'cancelled' ? `Cancelled after ${search.scanned.toLocaleString()} messages`
+    : search.outcome === 'truncated' ? `Stopped at ${maxResults.toLocaleString()} matches after ${search.scanned.toLocaleString()} messages`
+    : search.outcome === 'complete' ? `Scanned ${search.scanned.toLocaleString()} messages`
+    : ''
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      {/* Criteria */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Search</h3>
+        <select value={topic} onChange={e => setTopic(e.target.value)} className={`${inputClass} font-mono min-w-[180px]`}>
+          <option value="">— Select Topic —</option>
+          {topics.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={field} onChange={e => setField(e.target.value as KafkaSearchField)} className={inputClass}>
+          {FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        {field === 'header' && (
+          <input value={header} onChange={e => setHeader(e.target.value)} placeholder="Header name (any)" className={`w-36 font-mono ${inputClass}`} />
+        )}
+        <select value={mode} onChange={e => setMode(e.target.value as KafkaSearchMode)} className={inputClass}>
+          {MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+        <input value={pattern} onChange={e => setPattern(e.target.value)} onKeyDown={e => { if (e.key === 'Enter' && !search.running) handleSearch() }}
+          placeholder={MODES.find(m => m.value === mode)?.placeholder} className={`flex-1 min-w-[180px] font-mono ${inputClass}`} />
+        {mode === 'jsonpath' && (
+          <input value={equals} onChange={e => setEquals(e.target.value)} placeholder="equals (optional)" className={`w-32 font-mono ${inputClass}`} />
+        )}
+        <label className="flex items-center gap-1 text-[11px] text-muted-foreground cursor-pointer" title="Case-sensitive">
+          <input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} /> Aa
+        </label>
+        {search.running ? (
+          <button onClick={search.cancel} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10">
+            <Square className="h-3.5 w-3.5" /> Cancel
+          </button>
+        ) : (
+          <button onClick={handleSearch} disabled={!topic} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+            <Search className="h-3.5 w-3.5" /> Search
+          </button>
+        )}
+      </div>
+
+      {/* Scope */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[10px] text-muted-foreground">Partitions:</span>
+        <button onClick={() => setSelectedPartitions(new Set())}
+          className={`px-1.5 py-0.5 text-[10px] rounded border ${selectedPartitions.size === 0 ? 'bg-primary/15 text-primary border-primary/30' : 'hover:bg-accent'}`}>
+          All
+        </button>
+        {partitions.map(p => (
+          <button key={p} onClick={() => togglePartition(p)}
+            className={`px-1.5 py-0.5 text-[10px] font-mono rounded border ${selectedPartitions.has(p) ? 'bg-primary/15 text-primary border-primary/30' : 'hover:bg-accent'}`}>
+            {p}
+          </button>
+        ))}
+        <span className="text-[10px] text-muted-foreground ml-2">From:</span>
+        <input type="datetime-local" step={1} value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+        <span className="text-[10px] text-muted-foreground">To:</span>
+        <input type="datetime-local" step={1} value={to} onChange={e => setTo(e.target.value)} className={inputClass} />
+        <span className="text-[10px] text-muted-foreground ml-2">Max matches:</span>
+        <input type="number" min={1} value={maxResults} onChange={e => setMaxResults(Number(e.target.value) || 500)} className={`w-20 ${inputClass}`} />
+      </div>
+
+      {/* Progress */}
+      {(search.running || search.outcome) && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full transition-all ${search.outcome === 'cancelled' ? 'bg-muted-foreground/50' : 'bg-primary'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-[11px] text-muted-foreground">{status} · {search.hits.length.toLocaleString()} match{search.hits.length === 1 ? '' : 'es'}</span>
+          <button onClick={() => { navigator.clipboard.writeText(JSON.stringify(search.hits, null, 2)); tt.success('Copied to clipboard') }}
+            disabled={search.hits.length === 0} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50">
+            <Copy className="h-3 w-3" /> Copy
+          </button>
+          {onReplay && (
+            <button onClick={() => onReplay(searchedTopic, search.hits.map(m => ({ partition: m.partition, offset: m.offset })))}
+              disabled={search.running || search.hits.length === 0} className="flex items-center gap-1 px-2 py-1 text-[11px] rounded border hover:bg-accent disabled:opacity-50"
+              title="Copy the matches to another topic">
+              <Repeat className="h-3 w-3" /> Replay
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto rounded-md border bg-card">
+        {search.hits.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <Search className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+              <p className="text-xs text-muted-foreground">
+                {search.running ? 'No matches yet...' : search.outcome ? 'No messages matched' : 'Search a topic by key, value or header'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-muted/50 border-b sticky top-0">
+              <tr>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-8"></th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-12">Part</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-16">Offset</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-32">Key</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase">Value</th>
+                <th className="px-2 py-2 text-left text-[10px] font-medium text-muted-foreground uppercase w-40">Timestamp</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {search.hits.map(msg => {
+                const rowKey = `${msg.partition}-${msg.offset}`
+                const isExp = expandedRows.has(rowKey)
+                return (
+                  <tr key={rowKey} className={`hover:bg-muted/30 text-[11px] align-top ${isExp ? 'bg-muted/10' : ''}`}>
+                    <td className="px-2 py-1.5">
+                      <button onClick={() => toggleRow(rowKey)} className="text-muted-foreground hover:text-primary">
+                        {isExp ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      </button>
+                    </td>
+                    <td className="px-2 py-1.5 font-mono text-amber-400">{msg.partition}</td>
+                    <td className="px-2 py-1.5 font-mono text-muted-foreground">{msg.offset}</td>
+                    <td className="px-2 py-1.5 font-mono truncate max-w-[200px]" title={msg.key || ''}>{msg.key || <span className="text-muted-foreground/50">null</span>}</td>
+                    <td className="px-2 py-1.5 font-mono truncate max-w-[400px]" title={msg.value || ''}>
+                      <KafkaSchemaBadge message={msg} />
+                      {isExp ? (
+                        <>
+                          <pre className="whitespace-pre-wrap break-all text-[11px]">{tryParseJSON(msg.value)}</pre>
+                          {msg.headers && Object.keys(msg.headers).length > 0 && (
+                            <pre className="mt-1 text-[10px] text-muted-foreground">{JSON.stringify(msg.headers, null, 2)}</pre>
+                          )}
+                        </>
+                      ) : (
+                        msg.value || <span className="text-muted-foreground/50">null</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5 text-muted-foreground">{formatTs(msg.timestamp)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,15 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import {
-  Radio, RefreshCw, Trash2, ChevronDown, ChevronRight, Plus, Search,
+  Radio, RefreshCw, Trash2, ChevronDown, ChevronRight, Plus, Search, Shuffle, AlertTriangle,
 } from 'lucide-react'
 import { databaseService } from '@/services/database.service'
 import { TableSkeleton } from '@/components/common/Skeleton'
 import { NoTopics } from '@/components/common/EmptyState'
+import { partitionHealth, summarizePartitions, type OngoingReassignment, type PartitionReplicas } from '@/utils/kafkaPartitions'
+import { KafkaReassignmentPanel } from './KafkaReassignmentPanel'
+
+/** How often a topic with moving partitions re-checks the reassignment */
+const REASSIGNMENT_POLL_MS = 3000
 
 export const KafkaTopicsTab = ({ connectionId, tt }: { connectionId: string; tt: any }) => {
   const [topics, setTopics] = useState<any[]>([])
@@ -52,17 +57,22 @@ export const KafkaTopicsTab = ({ connectionId, tt }: { connectionId: string; tt:
     } catch (err: any) { tt.error(err.message) }
   }
 
-  const toggleTopic = async (topicName: string) => {
-    if (expandedTopic === topicName) { setExpandedTopic(null); return }
-    setExpandedTopic(topicName)
+  const loadMeta = async (topicName: string) => {
     setMetaLoading(true)
     try {
-      const result = await databaseService.getCollectionStats(connectionId, topicName, 'kafka')
+      const result = await databaseService.getCollectionStats(connectionId, '', topicName, 'kafka')
       if (result.success) setTopicMeta(result)
     } catch (err: any) { tt.error(err.message) }
     finally { setMetaLoading(false) }
   }
 
+  const toggleTopic = async (topicName: string) => {
+    if (expandedTopic === topicName) { setExpandedTopic(null); return }
+    setExpandedTopic(topicName)
+    setTopicMeta(null)
+    await loadMeta(topicName)
+  }
+
   const filtered = useMemo(() => {
     if (!searchQ) return topics
     return topics.filter((t: any) => (t.name || t).toLowerCase().includes(searchQ.toLowerCase()))
@@ -141,7 +151,10 @@ export const KafkaTopicsTab = ({ connectionId, tt }: { connectionId: string; tt:
               </div>
               {/* Expanded: partition details */}
               {isExpanded && (
-                <TopicPartitionDetail meta={topicMeta} loading={metaLoading} />
+                <TopicPartitionDetail
+                  connectionId={connectionId} topic={name} meta={topicMeta} loading={metaLoading} tt={tt}
+                  onChanged={() => { loadMeta(name); loadTopics() }}
+                />
               )}
             </div>
           )
@@ -152,13 +165,113 @@ export const KafkaTopicsTab = ({ connectionId, tt }: { connectionId: string; tt:
 }
 
 /* ── Partition detail (expanded row) ── */
-const TopicPartitionDetail = ({ meta, loading }: { meta: any; loading: boolean }) => {
-  if (loading) return <div className="border-t px-4 py-3 bg-muted/10"><p className="text-[11px] text-muted-foreground">Loading partition details...</p></div>
+const HEALTH_ROW_CLASS = { ok: '', 'under-replicated': 'bg-amber-500/5', offline: 'bg-red-500/10' }
+
+const TopicPartitionDetail = ({ connectionId, topic, meta, loading, tt, onChanged }: {
+  connectionId: string; topic: string; meta: any; loading: boolean; tt: any; onChanged: () => void
+}) => {
+  const [addingPartitions, setAddingPartitions] = useState(false)
+  const [newCount, setNewCount] = useState(0)
+  const [reassigning, setReassigning] = useState(false)
+  const [ongoing, setOngoing] = useState<OngoingReassignment[]>([])
+  const [pollKey, setPollKey] = useState(0)
+  const partitions: PartitionReplicas[] = useMemo(
+    () => [...(meta?.metadata?.partitions || [])].sort((a: any, b: any) => a.partitionId - b.partitionId),
+    [meta]
+  )
+
+  // Poll while partitions are moving; refresh the replicas once they have all moved
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+    let wasMoving = false
+    const check = async () => {
+      try {
+        const result = await databaseService.kafkaListReassignments(connectionId, topic)
+        if (stopped || !result.success) return
+        setOngoing(result.reassignments)
+        if (result.reassignments.length > 0) {
+          wasMoving = true
+          timer = setTimeout(check, REASSIGNMENT_POLL_MS)
+        } else if (wasMoving) {
+          tt.success(`Reassignment of ${topic} finished`)
+          onChanged()
+        }
+      } catch {
+        // Brokers before 2.4 cannot list reassignments; the view just shows none
+      }
+    }
+    check()
+    return () => { stopped = true; clearTimeout(timer) }
+  }, [connectionId, topic, pollKey])
+
+  if (loading && !meta) return <div className="border-t px-4 py-3 bg-muted/10"><p className="text-[11px] text-muted-foreground">Loading partition details...</p></div>
   if (!meta?.metadata?.partitions) return <div className="border-t px-4 py-3 bg-muted/10"><p className="text-[11px] text-muted-foreground">No metadata available</p></div>
 
+  const summary = summarizePartitions(partitions)
+  const moving = new Map(ongoing.map(o => [o.partition, o]))
+
+  const handleAddPartitions = async () => {
+    if (newCount <= partitions.length) { tt.warning(`A topic can only grow: enter more than ${partitions.length} partitions`); return }
+    if (!confirm(`Increase "${topic}" to ${newCount} partitions? This cannot be undone, and keys may map to different partitions afterwards.`)) return
+    try {
+      const result = await databaseService.kafkaCreatePartitions(connectionId, topic, newCount)
+      if (!result.success) throw new Error(result.error)
+      tt.success(`"${topic}" now has ${newCount} partitions`)
+      setAddingPartitions(false)
+      onChanged()
+    } catch (err: any) { tt.error(err.message) }
+  }
+
   return (
     <div className="border-t px-4 py-3 bg-muted/10 space-y-2">
-      <h4 className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Partitions ({meta.metadata.partitions.length})</h4>
+      <div className="flex items-center gap-2 flex-wrap">
+        <h4 className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Partitions ({summary.total})</h4>
+        {summary.offline > 0 && (
+          <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded bg-red-500/15 text-red-400">
+            <AlertTriangle className="h-3 w-3" /> {summary.offline} offline
+          </span>
+        )}
+        {summary.underReplicated > 0 && (
+          <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded bg-amber-500/15 text-amber-500">
+            <AlertTriangle className="h-3 w-3" /> {summary.underReplicated} under-replicated
+          </span>
+        )}
+        {ongoing.length > 0 && (
+          <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded bg-blue-500/15 text-blue-400">
+            <Shuffle className="h-3 w-3" /> {ongoing.length} moving
+          </span>
+        )}
+        <div className="flex-1" />
+        {addingPartitions ? (
+          <>
+            <input type="number" min={partitions.length + 1} value={newCount} onChange={e => setNewCount(Number(e.target.value) || 0)}
+              className="w-20 px-2 py-0.5 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary" autoFocus
+              onKeyDown={e => e.key === 'Enter' && handleAddPartitions()} />
+            <button onClick={handleAddPartitions} className="px-2 py-0.5 text-[10px] rounded bg-primary text-primary-foreground hover:bg-primary/90">Apply</button>
+            <button onClick={() => setAddingPartitions(false)} className="px-2 py-0.5 text-[10px] rounded border hover:bg-accent">Cancel</button>
+          </>
+        ) : (
+          <button onClick={() => { setNewCount(partitions.length + 1); setAddingPartitions(true) }}
+            className="flex items-center gap-1 px-2 py-0.5 text-[10px] rounded border hover:bg-accent">
+            <Plus className="h-2.5 w-2.5" /> Add partitions
+          </button>
+        )}
+        <button onClick={() => setReassigning(!reassigning)} disabled={ongoing.length > 0}
+          className={`flex items-center gap-1 px-2 py-0.5 text-[10px] rounded border transition-colors disabled:opacity-50 ${reassigning ? 'bg-primary/15 text-primary' : 'hover:bg-accent'}`}
+          title={ongoing.length > 0 ? 'Wait for the running reassignment to finish' : 'Move replicas between brokers'}>
+          <Shuffle className="h-2.5 w-2.5" /> Reassign
+        </button>
+      </div>
+
+      {reassigning && (
+        <KafkaReassignmentPanel
+          connectionId={connectionId} topic={topic} partitions={partitions} tt={tt}
+          onSubmitted={() => { setReassigning(false); setPollKey(k => k + 1); onChanged() }}
+          onClose={() => setReassigning(false)}
+        />
+      )}
+
       <div className="rounded border overflow-hidden">
         <table className="w-full text-[11px]">
           <thead><tr className="bg-muted/30 border-b">
@@ -166,16 +279,34 @@ const TopicPartitionDetail = ({ meta, loading }: { meta: any; loading: boolean }
             <th className="text-left px-2 py-1 font-medium">Leader</th>
             <th className="text-left px-2 py-1 font-medium">Replicas</th>
             <th className="text-left px-2 py-1 font-medium">ISR</th>
+            <th className="text-left px-2 py-1 font-medium">Status</th>
           </tr></thead>
           <tbody>
-            {meta.metadata.partitions.map((p: any) => (
-              <tr key={p.partitionId} className="border-b last:border-0 hover:bg-muted/20">
-                <td className="px-2 py-1 font-mono text-amber-400">{p.partitionId}</td>
-                <td className="px-2 py-1 font-mono">{p.leader}</td>
-                <td className="px-2 py-1 font-mono text-muted-foreground">{(p.replicas || []).join(', ')}</td>
-                <td className="px-2 py-1 font-mono text-green-400">{(p.isr || []).join(', ')}</td>
-              </tr>
-            ))}
+            {partitions.map(p => {
+              const health = partitionHealth(p)
+              const outOfSync = p.replicas.filter(r => !p.isr.includes(r))
+              const move = moving.get(p.partitionId)
+              return (
+                <tr key={p.partitionId} className={`border-b last:border-0 hover:bg-muted/20 ${HEALTH_ROW_CLASS[health]}`}>
+                  <td className="px-2 py-1 font-mono text-amber-400">{p.partitionId}</td>
+                  <td className="px-2 py-1 font-mono">{p.leader < 0 ? <span className="text-red-400">none</span> : p.leader}</td>
+                  <td className="px-2 py-1 font-mono text-muted-foreground">{p.replicas.join(', ')}</td>
+                  <td className="px-2 py-1 font-mono">
+                    <span className="text-green-400">{p.isr.join(', ') || '—'}</span>
+                    {outOfSync.length > 0 && <span className="ml-2 text-amber-500" title="Replicas not in sync">missing {outOfSync.join(', ')}</span>}
+                  </td>
+                  <td className="px-2 py-1 text-[10px]">
+                    {move ? (
+                      <span className="text-blue-400" title={`Target replicas: ${move.replicas.join(', ')}`}>
+                        moving{move.addingReplicas.length > 0 && ` +${move.addingReplicas.join(',')}`}{move.removingReplicas.length > 0 && ` −${move.removingReplicas.join(',')}`}
+                      </span>
+                    ) : health === 'offline' ? <span className="text-red-400">offline</span>
+                      : health === 'under-replicated' ? <span className="text-amber-500">under-replicated</span>
+                      : <span className="text-muted-foreground">ok</span>}
+                  </td>
+                </tr>
+              )
+            })}
           </tbody>
         </table>
       </div>
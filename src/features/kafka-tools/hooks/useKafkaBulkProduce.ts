@@ -0,0 +1,52 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import type { KafkaBulkProduceOptions, KafkaBulkProduceProgress, KafkaBulkSource } from '@/utils/kafkaProduce'
+
+/** A bulk produce run in the main process: progress streams in until it ends with the delivery report */
+export function useKafkaBulkProduce(connectionId: string | null) {
+  const tt = useToast()
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<KafkaBulkProduceProgress | null>(null)
+  const [topic, setTopic] = useState<string | null>(null)
+  const produceIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return databaseService.onKafkaBulkProduceProgress((event) => {
+      if (event.produceId !== produceIdRef.current) return
+      setProgress(event)
+      if (!event.done) return
+      produceIdRef.current = null
+      setRunning(false)
+      if (event.error) tt.error('Produce failed: ' + event.error)
+      else if (!event.cancelled) tt.success(`Produced ${event.sent} message(s)`)
+    })
+  }, [tt])
+
+  const cancel = useCallback(async () => {
+    const produceId = produceIdRef.current
+    if (produceId) await databaseService.kafkaCancelBulkProduce(produceId).catch(() => {})
+  }, [])
+
+  const start = useCallback(async (nextTopic: string, source: KafkaBulkSource, options: KafkaBulkProduceOptions) => {
+    if (!connectionId) return
+    await cancel()
+    const produceId = crypto.randomUUID()
+    produceIdRef.current = produceId
+    setTopic(nextTopic)
+    setProgress(null)
+    setRunning(true)
+    try {
+      const result = await databaseService.kafkaStartBulkProduce(produceId, connectionId, nextTopic, source, options)
+      if (!result.success) throw new Error(result.error)
+    } catch (error: any) {
+      if (produceIdRef.current === produceId) { produceIdRef.current = null; setRunning(false) }
+      tt.error('Failed to start producing: ' + error.message)
+    }
+  }, [connectionId, cancel, tt])
+
+  // Leaving the view or switching connection cancels a running produce
+  useEffect(() => () => { cancel() }, [connectionId, cancel])
+
+  return { running, progress, topic, start, cancel }
+}
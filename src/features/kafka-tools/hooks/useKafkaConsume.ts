@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import { nextPageOffsets, previousPageOffsets, type KafkaConsumeOptions, type KafkaStartPosition, type PartitionWindow } from '@/utils/kafkaBrowse'
+
+/** Topic browsing state shared by the Kafka message views: start position, partition, page size and paging */
+export function useKafkaConsume(connectionId: string | null, topic: string | null) {
+  const tt = useToast()
+  const [messages, setMessages] = useState<any[]>([])
+  const [loading, setLoading] = useState(false)
+  const [from, setFrom] = useState<KafkaStartPosition>('beginning')
+  const [partition, setPartition] = useState<number | undefined>(undefined)
+  const [offset, setOffset] = useState('0')
+  const [timestamp, setTimestamp] = useState('')
+  const [limit, setLimit] = useState(50)
+  const [windows, setWindows] = useState<PartitionWindow[]>([])
+  const [partitions, setPartitions] = useState<number[]>([])
+  const requestRef = useRef(0)
+
+  const fetchPage = useCallback(async (offsets?: Record<number, number>, allPartitions = false) => {
+    if (!connectionId || !topic) return
+    const selected = allPartitions ? undefined : partition
+    if (from === 'timestamp' && !offsets && Number.isNaN(Date.parse(timestamp))) { tt.warning('Pick a timestamp to start from'); return }
+    const options: KafkaConsumeOptions = {
+      from, partition: selected, limit, offsets,
+      offset: from === 'offset' ? Number(offset) || 0 : undefined,
+      timestamp: from === 'timestamp' ? Date.parse(timestamp) : undefined,
+    }
+    const requestId = ++requestRef.current
+    setLoading(true)
+    try {
+      const result = await databaseService.kafkaConsumeMessages(connectionId, topic, options)
+      if (requestId !== requestRef.current) return
+      if (result.success) {
+        setMessages(result.documents || [])
+        setWindows(result.partitions || [])
+        if (selected === undefined) setPartitions((result.partitions || []).map((w: PartitionWindow) => w.partition))
+      }
+    } catch (error: any) {
+      if (requestId === requestRef.current) tt.error('Failed to consume: ' + error.message)
+    } finally {
+      if (requestId === requestRef.current) setLoading(false)
+    }
+  }, [connectionId, topic, from, partition, offset, timestamp, limit, tt])
+
+  // A new topic starts over on all partitions
+  useEffect(() => {
+    setMessages([])
+    setWindows([])
+    setPartitions([])
+    setPartition(undefined)
+    if (connectionId && topic) fetchPage(undefined, true)
+  }, [connectionId, topic])
+
+  const nextOffsets = nextPageOffsets(windows)
+  const previousOffsets = previousPageOffsets(windows, limit)
+
+  return {
+    messages, loading, windows, partitions,
+    from, setFrom, partition, setPartition, offset, setOffset, timestamp, setTimestamp, limit, setLimit,
+    consume: () => fetchPage(),
+    nextPage: () => { if (nextOffsets) fetchPage(nextOffsets) },
+    previousPage: () => { if (previousOffsets) fetchPage(previousOffsets) },
+    hasNext: nextOffsets !== null,
+    hasPrevious: previousOffsets !== null,
+  }
+}
+
+export type KafkaConsumeState = ReturnType<typeof useKafkaConsume>
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import type { KafkaReplayOptions, KafkaReplayProgress, KafkaReplaySelection } from '@/utils/kafkaReplay'
+
+export interface KafkaReplayRequest {
+  topic: string
+  destination: { connectionId: string; topic: string }
+  selection: KafkaReplaySelection
+  options: KafkaReplayOptions
+}
+
+/** A replay running in the main process: progress streams in until it ends; `resume` restarts it from the last positions */
+export function useKafkaReplay(connectionId: string | null) {
+  const tt = useToast()
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<KafkaReplayProgress | null>(null)
+  const [request, setRequest] = useState<KafkaReplayRequest | null>(null)
+  const replayIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return databaseService.onKafkaReplayProgress((event) => {
+      if (event.replayId !== replayIdRef.current) return
+      setProgress(event)
+      if (!event.done) return
+      replayIdRef.current = null
+      setRunning(false)
+      if (event.error) tt.error('Replay failed: ' + event.error)
+      else if (!event.cancelled) tt.success(`Replayed ${event.produced} message(s)`)
+    })
+  }, [tt])
+
+  const cancel = useCallback(async () => {
+    const replayId = replayIdRef.current
+    if (replayId) await databaseService.kafkaCancelReplay(replayId).catch(() => {})
+  }, [])
+
+  const start = useCallback(async (next: KafkaReplayRequest) => {
+    if (!connectionId) return
+    await cancel()
+    const replayId = crypto.randomUUID()
+    replayIdRef.current = replayId
+    setRequest(next)
+    setProgress(null)
+    setRunning(true)
+    try {
+      const result = await databaseService.kafkaStartReplay(
+        replayId, { connectionId, topic: next.topic }, next.destination, next.selection, next.options
+      )
+      if (!result.success) throw new Error(result.error)
+    } catch (error: any) {
+      if (replayIdRef.current === replayId) { replayIdRef.current = null; setRunning(false) }
+      tt.error('Failed to start replay: ' + error.message)
+    }
+  }, [connectionId, cancel, tt])
+
+  /** Start the last replay again from the positions it reported */
+  const resume = useCallback(async () => {
+    if (!request || !progress) return
+    await start({ ...request, selection: { ...request.selection, resumeFrom: progress.positions } })
+  }, [request, progress, start])
+
+  // Leaving the view or switching connection cancels a running replay
+  useEffect(() => () => { cancel() }, [connectionId, cancel])
+
+  const interrupted = !running && !!progress?.done && (!!progress.cancelled || !!progress.error)
+  return { running, progress, request, interrupted, start, resume, cancel }
+}
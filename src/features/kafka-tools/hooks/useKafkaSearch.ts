@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import type { KafkaMessageDocument } from '@/utils/kafkaMessages'
+import type { KafkaSearchOptions } from '@/utils/kafkaSearch'
+
+/** A topic search running in the main process: hits and progress stream in until it ends or is cancelled */
+export function useKafkaSearch(connectionId: string | null) {
+  const tt = useToast()
+  const [running, setRunning] = useState(false)
+  const [hits, setHits] = useState<KafkaMessageDocument[]>([])
+  const [scanned, setScanned] = useState(0)
+  const [total, setTotal] = useState(0)
+  const [outcome, setOutcome] = useState<'complete' | 'truncated' | 'cancelled' | null>(null)
+  const searchIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return databaseService.onKafkaSearchProgress((progress) => {
+      if (progress.searchId !== searchIdRef.current) return
+      if (progress.hits?.length) setHits(prev => prev.concat(progress.hits!))
+      setScanned(progress.scanned)
+      setTotal(progress.total)
+      if (!progress.done) return
+      searchIdRef.current = null
+      setRunning(false)
+      if (progress.error) tt.error('Search failed: ' + progress.error)
+      setOutcome(progress.cancelled ? 'cancelled' : progress.truncated ? 'truncated' : 'complete')
+    })
+  }, [tt])
+
+  const cancel = useCallback(async () => {
+    const searchId = searchIdRef.current
+    if (searchId) await databaseService.kafkaCancelSearch(searchId).catch(() => {})
+  }, [])
+
+  const start = useCallback(async (topic: string, options: KafkaSearchOptions) => {
+    if (!connectionId) return
+    await cancel()
+    const searchId = crypto.randomUUID()
+    searchIdRef.current = searchId
+    setHits([])
+    setScanned(0)
+    setTotal(0)
+    setOutcome(null)
+    setRunning(true)
+    try {
+      const result = await databaseService.kafkaStartSearch(connectionId, searchId, topic, options)
+      if (!result.success) throw new Error(result.error)
+    } catch (error: any) {
+      if (searchIdRef.current === searchId) { searchIdRef.current = null; setRunning(false) }
+      tt.error('Failed to start search: ' + error.message)
+    }
+  }, [connectionId, cancel, tt])
+
+  // Leaving the view or switching connection cancels a running search
+  useEffect(() => () => { cancel() }, [connectionId, cancel])
+
+  return { running, hits, scanned, total, outcome, start, cancel }
+}
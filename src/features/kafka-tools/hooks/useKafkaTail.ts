@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import { appendToRing, type KafkaMessageDocument } from '@/utils/kafkaMessages'
+
+export const TAIL_BUFFER_SIZES = [200, 1000, 5000]
+
+/** Live tail of a topic: a consumer in the main process pushes batches into a bounded buffer here */
+export function useKafkaTail(connectionId: string | null, topic: string | null) {
+  const tt = useToast()
+  const [live, setLive] = useState(false)
+  const [paused, setPaused] = useState(false)
+  const [messages, setMessages] = useState<KafkaMessageDocument[]>([])
+  const [received, setReceived] = useState(0)
+  const [capacity, setCapacity] = useState(TAIL_BUFFER_SIZES[1])
+  const tailIdRef = useRef<string | null>(null)
+  const capacityRef = useRef(capacity)
+  capacityRef.current = capacity
+
+  useEffect(() => {
+    return databaseService.onKafkaTailMessages((data) => {
+      if (data.tailId !== tailIdRef.current) return
+      if (data.error) {
+        tt.error('Live tail stopped: ' + data.error)
+        tailIdRef.current = null
+        setLive(false)
+        return
+      }
+      const batch = data.messages || []
+      setMessages(prev => appendToRing(prev, batch, capacityRef.current))
+      setReceived(n => n + batch.length)
+    })
+  }, [tt])
+
+  const stop = useCallback(async () => {
+    const tailId = tailIdRef.current
+    tailIdRef.current = null
+    setLive(false)
+    setPaused(false)
+    if (tailId) await databaseService.kafkaStopTail(tailId).catch(() => {})
+  }, [])
+
+  const start = useCallback(async () => {
+    if (!connectionId || !topic) return
+    await stop()
+    const tailId = crypto.randomUUID()
+    tailIdRef.current = tailId
+    setMessages([])
+    setReceived(0)
+    setLive(true)
+    try {
+      const result = await databaseService.kafkaStartTail(connectionId, tailId, topic)
+      if (!result.success) throw new Error(result.error)
+    } catch (error: any) {
+      if (tailIdRef.current === tailId) { tailIdRef.current = null; setLive(false) }
+      tt.error('Failed to start live tail: ' + error.message)
+    }
+  }, [connectionId, topic, stop, tt])
+
+  const togglePause = useCallback(async () => {
+    if (!tailIdRef.current) return
+    const result = await databaseService.kafkaPauseTail(tailIdRef.current, !paused)
+    if (result.success) setPaused(result.paused)
+  }, [paused])
+
+  const resize = useCallback((size: number) => {
+    setCapacity(size)
+    setMessages(prev => prev.slice(-size))
+  }, [])
+
+  // Switching topic or connection, or leaving the view, ends the tail
+  useEffect(() => () => { stop() }, [connectionId, topic, stop])
+
+  return {
+    live, paused, messages, received, capacity,
+    start, stop, togglePause, resize,
+    clear: useCallback(() => setMessages([]), []),
+  }
+}
@@ -1,14 +1,19 @@
 import { useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
-import { Radio, Users, Settings, Layers, MessageSquare } from 'lucide-react'
+import { Radio, Users, Settings, Layers, MessageSquare, FileCode2, Search, Repeat, ShieldCheck, Send } from 'lucide-react'
 import { useConnectionStore } from '@/store/connectionStore'
 import { useToast } from '@/components/common/Toast'
 import { KafkaTopicsTab } from '../components/KafkaTopicsTab'
 import { KafkaMessagesTab } from '../components/KafkaMessagesTab'
 import { KafkaConsumerGroupsTab } from '../components/KafkaConsumerGroupsTab'
 import { KafkaTopicConfigTab } from '../components/KafkaTopicConfigTab'
+import { KafkaSchemaRegistryTab } from '../components/KafkaSchemaRegistryTab'
+import { KafkaAclsTab } from '../components/KafkaAclsTab'
+import { KafkaSearchTab } from '../components/KafkaSearchTab'
+import { KafkaReplayTab, type KafkaReplayHits } from '../components/KafkaReplayTab'
+import { KafkaProduceTab } from '../components/KafkaProduceTab'
 
-type Tab = 'topics' | 'messages' | 'consumer-groups' | 'topic-config'
+type Tab = 'topics' | 'messages' | 'search' | 'replay' | 'produce' | 'consumer-groups' | 'topic-config' | 'schemas' | 'acls'
 
 export const KafkaToolsPage = () => {
   const { activeConnectionId, getActiveConnection } = useConnectionStore()
@@ -23,9 +28,15 @@ export const KafkaToolsPage = () => {
     if (urlTab === 'config') return 'topic-config'
     if (urlTab === 'groups') return 'consumer-groups'
     if (urlTab === 'messages') return 'messages'
+    if (urlTab === 'search') return 'search'
+    if (urlTab === 'replay') return 'replay'
+    if (urlTab === 'produce') return 'produce'
+    if (urlTab === 'schemas') return 'schemas'
+    if (urlTab === 'acls') return 'acls'
     return 'topics'
   }
   const [tab, setTab] = useState<Tab>(initialTab)
+  const [replayHits, setReplayHits] = useState<(KafkaReplayHits & { connectionId: string }) | null>(null)
 
   if (!activeConnectionId || dbType !== 'kafka') {
     return (
@@ -41,8 +52,13 @@ export const KafkaToolsPage = () => {
   const tabs: { id: Tab; label: string; icon: any }[] = [
     { id: 'topics', label: 'Topics', icon: Radio },
     { id: 'messages', label: 'Messages', icon: MessageSquare },
+    { id: 'search', label: 'Search', icon: Search },
+    { id: 'replay', label: 'Replay', icon: Repeat },
+    { id: 'produce', label: 'Produce', icon: Send },
     { id: 'consumer-groups', label: 'Consumer Groups', icon: Users },
     { id: 'topic-config', label: 'Topic Config', icon: Settings },
+    { id: 'schemas', label: 'Schemas', icon: FileCode2 },
+    { id: 'acls', label: 'ACLs', icon: ShieldCheck },
   ]
 
   return (
@@ -60,8 +76,19 @@ export const KafkaToolsPage = () => {
       <div className="flex-1 overflow-auto p-4">
         {tab === 'topics' && <KafkaTopicsTab connectionId={activeConnectionId} tt={tt} />}
         {tab === 'messages' && <KafkaMessagesTab connectionId={activeConnectionId} tt={tt} initialTopic={urlTopic || undefined} />}
+        {tab === 'search' && (
+          <KafkaSearchTab connectionId={activeConnectionId} tt={tt} initialTopic={urlTopic || undefined}
+            onReplay={(topic, messages) => { setReplayHits({ connectionId: activeConnectionId, topic, messages }); setTab('replay') }} />
+        )}
+        {tab === 'replay' && (
+          <KafkaReplayTab connectionId={activeConnectionId} tt={tt} initialTopic={urlTopic || undefined}
+            hits={replayHits?.connectionId === activeConnectionId ? replayHits : null} />
+        )}
+        {tab === 'produce' && <KafkaProduceTab connectionId={activeConnectionId} tt={tt} initialTopic={urlTopic || undefined} />}
         {tab === 'consumer-groups' && <KafkaConsumerGroupsTab connectionId={activeConnectionId} tt={tt} />}
         {tab === 'topic-config' && <KafkaTopicConfigTab connectionId={activeConnectionId} tt={tt} initialTopic={urlTopic || undefined} />}
+        {tab === 'schemas' && <KafkaSchemaRegistryTab connectionId={activeConnectionId} tt={tt} />}
+        {tab === 'acls' && <KafkaAclsTab connectionId={activeConnectionId} tt={tt} />}
       </div>
     </div>
   )
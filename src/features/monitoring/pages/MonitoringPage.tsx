@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { Activity, RefreshCw, Wifi, WifiOff, HardDrive, Cpu, Database, ArrowUpDown, Clock, Server, Gauge, Radio, Users, Layers } from 'lucide-react'
+import { Activity, RefreshCw, Wifi, WifiOff, HardDrive, Cpu, Database, ArrowUpDown, Clock, Server, Gauge, Radio, Users, Layers, XCircle } from 'lucide-react'
 import { ResponsiveContainer, AreaChart, Area, Tooltip } from 'recharts'
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { DatabaseIcon } from '@/components/common/DatabaseIcon'
 import { StatsSkeleton } from '@/components/common/Skeleton'
+import { useToast } from '@/components/common/Toast'
 import { formatBytes, formatCompactNumber, formatUptime } from '@/utils/formatters'
 
 const MAX_HISTORY = 30
@@ -25,6 +26,16 @@ const TREND_CONFIGS: Record<string, { key: string; label: string; color: string
     { key: 'committed', label: 'Committed Txns', color: '#4ade80' },
     { key: 'hitRatio', label: 'Cache Hit Ratio %', color: '#22d3ee' },
   ],
+  mysql: [
+    { key: 'connections', label: 'Threads Connected', color: '#4ade80' },
+    { key: 'running', label: 'Threads Running', color: '#60a5fa' },
+    { key: 'hitRatio', label: 'Buffer Pool Hit %', color: '#22d3ee' },
+  ],
+  mssql: [
+    { key: 'sessions', label: 'User Sessions', color: '#4ade80' },
+    { key: 'running', label: 'Running Requests', color: '#60a5fa' },
+    { key: 'hitRatio', label: 'Buffer Cache Hit %', color: '#22d3ee' },
+  ],
   redis: [
     { key: 'connected', label: 'Connected Clients', color: '#4ade80' },
     { key: 'opsPerSec', label: 'Ops/sec', color: '#4ade80' },
@@ -46,6 +57,16 @@ function buildHistoryEntry(dbType: string, stats: any): HistoryEntry | null {
     const hitRatio = blocks.hit + blocks.read > 0 ? +((blocks.hit / (blocks.hit + blocks.read)) * 100).toFixed(1) : 0
     return { time, connections: stats.total_connections ?? 0, committed: txn.committed ?? 0, hitRatio }
   }
+  if (dbType === 'mysql') {
+    const conn = stats.connections || {}
+    const innodb = stats.innodb || {}
+    const hitRatio = innodb.readRequests > 0 ? +((1 - innodb.diskReads / innodb.readRequests) * 100).toFixed(1) : 0
+    return { time, connections: conn.current ?? 0, running: conn.running ?? 0, hitRatio }
+  }
+  if (dbType === 'mssql') {
+    const conn = stats.connections || {}
+    return { time, sessions: conn.sessions ?? 0, running: conn.running ?? 0, hitRatio: stats.bufferCacheHitRatio ?? 0 }
+  }
   if (dbType === 'redis') {
     const cli = stats.clients || {}
     const st = stats.stats || {}
@@ -129,7 +150,7 @@ export const MonitoringPage = () => {
   const [history, setHistory] = useState<HistoryEntry[]>([])
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
-  const isSupported = dbType === 'mongodb' || dbType === 'postgresql' || dbType === 'redis' || dbType === 'kafka'
+  const isSupported = dbType === 'mongodb' || dbType === 'postgresql' || dbType === 'mysql' || dbType === 'mssql' || dbType === 'sqlite' || dbType === 'redis' || dbType === 'kafka'
 
   const fetchStats = useCallback(async () => {
     if (!activeConnectionId || !isSupported) return
@@ -188,7 +209,7 @@ export const MonitoringPage = () => {
             <Activity className="h-8 w-8 text-muted-foreground/50" />
           </div>
           <p className="text-sm font-medium text-muted-foreground">Server monitoring is not available for {dbType}</p>
-          <p className="text-[10px] text-muted-foreground mt-1">Supported: MongoDB, PostgreSQL, Redis, Kafka</p>
+          <p className="text-[10px] text-muted-foreground mt-1">Supported: MongoDB, PostgreSQL, MySQL, SQL Server, SQLite, Redis, Kafka</p>
         </div>
       </div>
     )
@@ -232,6 +253,9 @@ export const MonitoringPage = () => {
         {error && <div className="mb-4 p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-red-400 text-xs">{error}</div>}
         {stats && dbType === 'mongodb' && <MongoStats stats={stats} />}
         {stats && dbType === 'postgresql' && <PgStats stats={stats} />}
+        {stats && dbType === 'mysql' && <MySqlStats stats={stats} />}
+        {stats && dbType === 'mssql' && <MssqlStats stats={stats} connectionId={activeConnectionId} />}
+        {stats && dbType === 'sqlite' && <SqliteStats stats={stats} />}
         {stats && dbType === 'redis' && <RedisStats stats={stats} />}
         {stats && dbType === 'kafka' && <KafkaStats stats={stats} />}
         {!stats && !error && <StatsSkeleton />}
@@ -382,6 +406,230 @@ const PgStats = ({ stats }: { stats: any }) => {
   )
 }
 
+const MySqlStats = ({ stats }: { stats: any }) => {
+  const conn = stats.connections || {}
+  const cmd = stats.commands || {}
+  const net = stats.network || {}
+  const innodb = stats.innodb || {}
+
+  const hitRatio = innodb.readRequests > 0 ? ((1 - innodb.diskReads / innodb.readRequests) * 100).toFixed(1) : '0'
+
+  return (
+    <div className="space-y-4">
+      {/* Server Info */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Server Info</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Server} label="Version" value={stats.version || 'N/A'} color="text-blue-400" />
+          <StatCard icon={Clock} label="Uptime" value={formatUptime(stats.uptime || 0)} color="text-green-400" />
+          <StatCard icon={HardDrive} label="Data Size" value={formatBytes(stats.database_size || 0)} color="text-orange-400" />
+          <StatCard icon={Gauge} label="Buffer Pool Hit Ratio" value={`${hitRatio}%`} sub={`${formatBytes(innodb.bufferPoolSize || 0)} pool`} color="text-cyan-400" />
+        </div>
+      </div>
+
+      {/* Connections */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Connections</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Wifi} label="Connected" value={conn.current || 0} sub={`max ${conn.max || 0}`} color="text-green-400" />
+          <StatCard icon={Activity} label="Running" value={conn.running || 0} color="text-blue-400" />
+          <StatCard icon={Users} label="Total Since Start" value={formatNumber(conn.total || 0)} color="text-cyan-400" />
+          <StatCard icon={WifiOff} label="Aborted Connects" value={formatNumber(conn.aborted || 0)} color="text-red-400" />
+        </div>
+      </div>
+
+      {/* Statements */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Statements (Total)</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2.5">
+          <StatCard icon={ArrowUpDown} label="Queries" value={formatNumber(stats.queries || 0)} color="text-blue-400" />
+          <StatCard icon={ArrowUpDown} label="Select" value={formatNumber(cmd.select || 0)} color="text-cyan-400" />
+          <StatCard icon={ArrowUpDown} label="Insert" value={formatNumber(cmd.insert || 0)} color="text-green-400" />
+          <StatCard icon={ArrowUpDown} label="Update" value={formatNumber(cmd.update || 0)} color="text-yellow-400" />
+          <StatCard icon={ArrowUpDown} label="Delete" value={formatNumber(cmd.delete || 0)} color="text-red-400" />
+          <StatCard icon={Clock} label="Slow Queries" value={formatNumber(stats.slow_queries || 0)} color="text-orange-400" />
+        </div>
+      </div>
+
+      {/* Network & Locks */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Network & InnoDB</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2.5">
+          <StatCard icon={ArrowUpDown} label="Bytes Received" value={formatBytes(net.bytesReceived || 0)} color="text-blue-400" />
+          <StatCard icon={ArrowUpDown} label="Bytes Sent" value={formatBytes(net.bytesSent || 0)} color="text-green-400" />
+          <StatCard icon={Layers} label="Row Lock Waits" value={formatNumber(innodb.rowLockWaits || 0)} color="text-yellow-400" />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const MssqlStats = ({ stats, connectionId }: { stats: any; connectionId: string }) => {
+  const conn = stats.connections || {}
+
+  return (
+    <div className="space-y-4">
+      {/* Server Info */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Server Info</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Server} label="Version" value={stats.product_version || 'N/A'} sub={stats.edition} color="text-blue-400" />
+          <StatCard icon={Clock} label="Uptime" value={formatUptime(stats.uptime || 0)} color="text-green-400" />
+          <StatCard icon={HardDrive} label="Database Size" value={formatBytes(stats.database_size || 0)} sub={stats.database} color="text-orange-400" />
+          <StatCard icon={Gauge} label="Buffer Cache Hit Ratio" value={`${stats.bufferCacheHitRatio ?? 0}%`} sub={`page life ${formatNumber(stats.pageLifeExpectancy || 0)}s`} color="text-cyan-400" />
+        </div>
+      </div>
+
+      {/* Sessions */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Sessions</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Wifi} label="User Connections" value={conn.user || 0} color="text-green-400" />
+          <StatCard icon={Users} label="User Sessions" value={conn.sessions || 0} color="text-cyan-400" />
+          <StatCard icon={Activity} label="Running Requests" value={conn.running || 0} color="text-blue-400" />
+          <StatCard icon={WifiOff} label="Blocked" value={conn.blocked || 0} color={conn.blocked ? 'text-red-400' : 'text-muted-foreground'} />
+        </div>
+      </div>
+
+      {/* Workload */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Workload (Since Start)</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2.5">
+          <StatCard icon={ArrowUpDown} label="Batch Requests" value={formatNumber(stats.batchRequests || 0)} color="text-blue-400" />
+          <StatCard icon={Cpu} label="Compilations" value={formatNumber(stats.compilations || 0)} color="text-cyan-400" />
+          <StatCard icon={Cpu} label="Re-Compilations" value={formatNumber(stats.recompilations || 0)} color="text-yellow-400" />
+          <StatCard icon={Layers} label="Lock Waits" value={formatNumber(stats.lockWaits || 0)} color="text-orange-400" />
+          <StatCard icon={XCircle} label="Deadlocks" value={formatNumber(stats.deadlocks || 0)} color="text-red-400" />
+        </div>
+      </div>
+
+      <MssqlSessions connectionId={connectionId} stats={stats} />
+    </div>
+  )
+}
+
+/** Active user sessions, reloaded with every stats refresh */
+const MssqlSessions = ({ connectionId, stats }: { connectionId: string; stats: any }) => {
+  const tt = useToast()
+  const [sessions, setSessions] = useState<any[]>([])
+
+  const load = useCallback(async () => {
+    try {
+      const r = await databaseService.mssqlGetActiveSessions(connectionId)
+      if (r.success) setSessions(r.sessions || [])
+      else tt.error(r.error)
+    } catch (e: any) { tt.error(e.message) }
+  }, [connectionId])
+
+  useEffect(() => { load() }, [load, stats])
+
+  const handleKill = (sessionId: number) => {
+    tt.confirm(`Kill session ${sessionId}? Its open transaction will be rolled back.`, async () => {
+      const r = await databaseService.mssqlKillSession(connectionId, sessionId)
+      if (r.success) {
+        tt.success(`Session ${sessionId} killed`)
+        load()
+      } else tt.error(r.error)
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Active Sessions ({sessions.length})</h3><div className="flex-1 h-px bg-border/30" /></div>
+      {sessions.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-4 text-center">No other user sessions</p>
+      ) : (
+        <div className="rounded-lg border bg-card overflow-auto">
+          <table className="w-full text-[11px]">
+            <thead><tr className="border-b bg-muted/30">
+              <th className="text-left px-3 py-1.5 font-medium">SPID</th>
+              <th className="text-left px-3 py-1.5 font-medium">Login</th>
+              <th className="text-left px-3 py-1.5 font-medium">Database</th>
+              <th className="text-left px-3 py-1.5 font-medium">Host / Program</th>
+              <th className="text-left px-3 py-1.5 font-medium">Status</th>
+              <th className="text-left px-3 py-1.5 font-medium">Wait</th>
+              <th className="text-right px-3 py-1.5 font-medium">Duration (s)</th>
+              <th className="text-left px-3 py-1.5 font-medium">Query</th>
+              <th className="px-3 py-1.5" />
+            </tr></thead>
+            <tbody>
+              {sessions.map((s: any) => (
+                <tr key={s.session_id} className="border-b last:border-0 hover:bg-muted/20">
+                  <td className="px-3 py-1.5 font-mono">{s.session_id}</td>
+                  <td className="px-3 py-1.5">{s.login_name || '-'}</td>
+                  <td className="px-3 py-1.5">{s.database_name || '-'}</td>
+                  <td className="px-3 py-1.5 text-muted-foreground truncate max-w-[200px]">{[s.host_name, s.program_name].filter(Boolean).join(' · ') || '-'}</td>
+                  <td className="px-3 py-1.5">
+                    {s.request_status || s.status}
+                    {s.blocking_session_id > 0 && <span className="ml-1 text-red-400">blocked by {s.blocking_session_id}</span>}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono">{s.wait_type || '-'}</td>
+                  <td className="px-3 py-1.5 text-right">{s.duration_sec ?? '-'}</td>
+                  <td className="px-3 py-1.5 font-mono truncate max-w-[400px]" title={s.query || ''}>{s.query || '-'}</td>
+                  <td className="px-3 py-1.5 text-right">
+                    <button onClick={() => handleKill(s.session_id)} className="px-2 py-0.5 text-[10px] rounded border border-red-500/30 text-red-400 hover:bg-red-500/10">Kill</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const SQLITE_SYNCHRONOUS = ['OFF', 'NORMAL', 'FULL', 'EXTRA']
+const SQLITE_AUTO_VACUUM = ['NONE', 'FULL', 'INCREMENTAL']
+
+/** SQLite has no server process — show the file's size, object counts and PRAGMA settings instead */
+const SqliteStats = ({ stats }: { stats: any }) => {
+  const pragmas = stats.pragmas || {}
+  const objects = stats.objects || {}
+  const pageSize = pragmas.page_size || 0
+  const freeBytes = (pragmas.freelist_count || 0) * pageSize
+
+  return (
+    <div className="space-y-4">
+      {/* File Info */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Database File</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Server} label="SQLite Version" value={stats.version || 'N/A'} sub={stats.readonly ? 'read-only' : undefined} color="text-blue-400" />
+          <StatCard icon={HardDrive} label="File Size" value={formatBytes(stats.fileSize || 0)} sub={stats.filePath} color="text-orange-400" />
+          <StatCard icon={Layers} label="Pages" value={formatNumber(pragmas.page_count || 0)} sub={`${formatBytes(pageSize)} per page`} color="text-purple-400" />
+          <StatCard icon={Gauge} label="Free Pages" value={formatNumber(pragmas.freelist_count || 0)} sub={`${formatBytes(freeBytes)} reclaimable by VACUUM`} color="text-yellow-400" />
+        </div>
+      </div>
+
+      {/* Schema Objects */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Schema Objects</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Database} label="Tables" value={objects.table || 0} color="text-green-400" />
+          <StatCard icon={Database} label="Views" value={objects.view || 0} color="text-cyan-400" />
+          <StatCard icon={Layers} label="Indexes" value={objects.index || 0} color="text-purple-400" />
+          <StatCard icon={Activity} label="Triggers" value={objects.trigger || 0} color="text-red-400" />
+        </div>
+      </div>
+
+      {/* PRAGMA Settings */}
+      <div>
+        <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">PRAGMA Settings</h3><div className="flex-1 h-px bg-border/30" /></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+          <StatCard icon={Cpu} label="Journal Mode" value={String(pragmas.journal_mode || 'N/A').toUpperCase()} color="text-blue-400" />
+          <StatCard icon={Cpu} label="Synchronous" value={SQLITE_SYNCHRONOUS[pragmas.synchronous] || String(pragmas.synchronous ?? 'N/A')} color="text-green-400" />
+          <StatCard icon={Cpu} label="Foreign Keys" value={pragmas.foreign_keys ? 'ON' : 'OFF'} color="text-yellow-400" />
+          <StatCard icon={Cpu} label="Auto Vacuum" value={SQLITE_AUTO_VACUUM[pragmas.auto_vacuum] || String(pragmas.auto_vacuum ?? 'N/A')} color="text-orange-400" />
+          <StatCard icon={Cpu} label="Encoding" value={pragmas.encoding || 'N/A'} color="text-cyan-400" />
+          <StatCard icon={Cpu} label="Cache Size" value={pragmas.cache_size ?? 'N/A'} sub="negative = KiB, positive = pages" color="text-purple-400" />
+          <StatCard icon={Cpu} label="User Version" value={pragmas.user_version ?? 0} color="text-blue-400" />
+          <StatCard icon={Cpu} label="Application ID" value={pragmas.application_id ?? 0} color="text-green-400" />
+        </div>
+      </div>
+    </div>
+  )
+}
 
 const RedisStats = ({ stats }: { stats: any }) => {
   const srv = stats.server || {}
@@ -412,6 +660,52 @@ const RedisStats = ({ stats }: { stats: any }) => {
         </div>
       </div>
 
+      {/* Sentinel */}
+      {stats.sentinel && (
+        <div>
+          <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Sentinel</h3><div className="flex-1 h-px bg-border/30" /></div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+            <StatCard icon={Server} label="Master Name" value={stats.sentinel.masterName} color="text-purple-400" />
+            <StatCard icon={Wifi} label="Current Master" value={stats.sentinel.master || '—'} sub="Followed across failovers" color="text-green-400" />
+          </div>
+        </div>
+      )}
+
+      {/* Cluster nodes */}
+      {stats.cluster?.nodes?.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Cluster Masters</h3><div className="flex-1 h-px bg-border/30" /></div>
+          <div className="rounded-xl border bg-card overflow-hidden">
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="border-b bg-muted/30">
+                  <th className="text-left px-3 py-2 font-medium text-muted-foreground">Node</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Slots</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Keys</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Memory</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Ops/sec</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Clients</th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">Replicas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.cluster.nodes.map((node: any) => (
+                  <tr key={node.address} className="border-b last:border-0 hover:bg-muted/20">
+                    <td className="px-3 py-1.5 font-mono text-red-400">{node.address}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(node.slots)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(node.keys)}</td>
+                    <td className="px-3 py-1.5 text-right">{node.usedMemoryHuman}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(node.opsPerSec)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(node.connectedClients)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatNumber(node.connectedSlaves)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Clients */}
       <div>
         <div className="flex items-center gap-2 mb-2.5"><h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider shrink-0">Clients</h3><div className="flex-1 h-px bg-border/30" /></div>
@@ -16,7 +16,7 @@ export const PgMaintenanceTab = ({ connectionId, database, toast }: PgTabProps)
     try {
       const [tablesRes, sizesRes] = await Promise.all([
         postgresqlService.listTables(connectionId, database || ''),
-        postgresqlService.getTableSizes(connectionId),
+        postgresqlService.getTableSizes(connectionId, database),
       ])
       if (tablesRes.success) {
         const list = tablesRes.collections || []
@@ -8,9 +8,14 @@ interface MonacoQueryEditorProps {
   onChange: (value: string) => void
   height?: string
   readOnly?: boolean
-  language?: 'javascript' | 'sql' | 'redis'
+  language?: 'javascript' | 'sql' | 'redis' | 'lua'
   schemaFields?: string[]
   collectionNames?: string[]
+  /** 1-based lines to mark with errorMessage (errorEndLine defaults to errorLine) */
+  errorLine?: number
+  errorEndLine?: number
+  errorMessage?: string
+  onCursorOffsetChange?: (offset: number) => void
 }
 
 // SQL keywords for PostgreSQL autocomplete
@@ -38,6 +43,14 @@ const REDIS_COMMANDS = [
   'TYPE', 'RENAME', 'PERSIST', 'PEXPIRE', 'PTTL', 'DBSIZE', 'FLUSHDB', 'INFO', 'SELECT',
 ]
 
+// Mongo shell script helpers
+const SHELL_METHODS = [
+  'find', 'findOne', 'aggregate', 'countDocuments', 'estimatedDocumentCount', 'distinct',
+  'insertOne', 'insertMany', 'updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany',
+  'findOneAndUpdate', 'bulkWrite', 'createIndex', 'getIndexes', 'sort', 'limit', 'skip', 'project',
+  'toArray', 'forEach', 'getCollection', 'getCollectionNames', 'getSiblingDB', 'runCommand', 'print', 'printjson',
+]
+
 const schemaFieldsRef = { current: [] as string[] }
 const collectionNamesRef = { current: [] as string[] }
 
@@ -49,8 +62,15 @@ export const MonacoQueryEditor = ({
   language = 'javascript',
   schemaFields = [],
   collectionNames = [],
+  errorLine,
+  errorEndLine,
+  errorMessage,
+  onCursorOffsetChange,
 }: MonacoQueryEditorProps) => {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null)
+  const monacoRef = useRef<Monaco | null>(null)
+  const cursorCallbackRef = useRef(onCursorOffsetChange)
+  cursorCallbackRef.current = onCursorOffsetChange
   const theme = useSettingsStore((s) => s.theme)
   const monacoTheme = resolveTheme(theme) === 'light' ? 'light' : 'vs-dark'
 
@@ -60,8 +80,34 @@ export const MonacoQueryEditor = ({
     collectionNamesRef.current = collectionNames
   }, [schemaFields, collectionNames])
 
+  // Underline the line an error points at; cleared when errorLine goes away
+  useEffect(() => {
+    const model = editorRef.current?.getModel()
+    const m = monacoRef.current
+    if (!model || !m) return
+    if (!errorLine || errorLine > model.getLineCount()) {
+      m.editor.setModelMarkers(model, 'query-error', [])
+      return
+    }
+    const endLine = Math.min(Math.max(errorEndLine ?? errorLine, errorLine), model.getLineCount())
+    m.editor.setModelMarkers(model, 'query-error', [{
+      severity: m.MarkerSeverity.Error,
+      message: errorMessage || 'Error',
+      startLineNumber: errorLine,
+      startColumn: model.getLineFirstNonWhitespaceColumn(errorLine) || 1,
+      endLineNumber: endLine,
+      endColumn: model.getLineMaxColumn(endLine),
+    }])
+    editorRef.current?.revealLineInCenterIfOutsideViewport(errorLine)
+  }, [errorLine, errorEndLine, errorMessage])
+
   const handleEditorDidMount = (editor: monaco.editor.IStandaloneCodeEditor, monacoInstance: Monaco) => {
     editorRef.current = editor
+    monacoRef.current = monacoInstance
+    editor.onDidChangeCursorPosition(e => {
+      const model = editor.getModel()
+      if (model) cursorCallbackRef.current?.(model.getOffsetAt(e.position))
+    })
 
     monacoInstance.languages.typescript.javascriptDefaults.setDiagnosticsOptions({
       noSemanticValidation: true,
@@ -90,6 +136,10 @@ export const MonacoQueryEditor = ({
           ...['$sum','$avg','$min','$max','$first','$last','$push','$addToSet'].map(a => ({
             label: a, kind: monacoInstance.languages.CompletionItemKind.Function, insertText: a, range, detail: 'Accumulator',
           })),
+          // Shell script methods
+          ...SHELL_METHODS.map(m => ({
+            label: m, kind: monacoInstance.languages.CompletionItemKind.Method, insertText: m, range, detail: 'Shell Method',
+          })),
           // Schema fields
           ...schemaFieldsRef.current.map(f => ({
             label: f, kind: monacoInstance.languages.CompletionItemKind.Field, insertText: `"${f}"`, range, detail: 'Field',
@@ -139,7 +189,7 @@ export const MonacoQueryEditor = ({
     editor.focus()
   }
 
-  const monacoLang = language === 'sql' ? 'sql' : language === 'redis' ? 'plaintext' : 'javascript'
+  const monacoLang = language === 'sql' ? 'sql' : language === 'redis' ? 'plaintext' : language === 'lua' ? 'lua' : 'javascript'
 
   return (
     <Editor
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { useVirtualizer } from '@tanstack/react-virtual'
 import { Table, FileJson, Copy, Download, FileSpreadsheet, BarChart3 } from 'lucide-react'
 import { Button } from '@/components/common/Button'
@@ -6,6 +6,8 @@ import { formatJSON } from '@/utils/formatters'
 import { useToast } from '@/components/common/Toast'
 import { ChartView } from '@/components/charts/ChartView'
 import { NoResults } from '@/components/common/EmptyState'
+import { ejsonScalar, toShellSyntax } from '@/utils/ejson'
+import type { StatementResult } from '@/types'
 
 const ROW_HEIGHT = 36
 const VIRTUALIZATION_THRESHOLD = 100
@@ -14,14 +16,28 @@ interface QueryResultsProps {
   results: any[]
   executionTime?: number
   error?: string
+  /** Rows are still arriving from a server-side cursor */
+  streaming?: boolean
+  /** Streaming stopped at the row limit */
+  truncated?: boolean
+  /** Multi-statement run: one result tab per statement, replacing results/error */
+  statements?: StatementResult[]
 }
 
 type ViewMode = 'table' | 'json' | 'chart'
 
-export const QueryResults = ({ results, executionTime, error }: QueryResultsProps) => {
+export const QueryResults = ({ results, executionTime, error, streaming, truncated, statements }: QueryResultsProps) => {
   const tt = useToast()
   const [viewMode, setViewMode] = useState<ViewMode>('table')
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set())
+  const [activeStatement, setActiveStatement] = useState(0)
+
+  // Open the failing statement's tab, or the last one when everything ran
+  useEffect(() => {
+    if (!statements?.length) return
+    const failed = statements.findIndex(s => !s.success)
+    setActiveStatement(failed >= 0 ? failed : statements.length - 1)
+  }, [statements])
 
   const toggleRow = (index: number) => {
     const newExpanded = new Set(expandedRows)
@@ -52,7 +68,7 @@ export const QueryResults = ({ results, executionTime, error }: QueryResultsProp
 
   const downloadCSV = async () => {
     const keys = [...new Set(results.flatMap(d => Object.keys(d)))]
-    const esc = (v: any) => { const s = v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v); return s.includes(',') || s.includes('"') || s.includes('\n') ? `"${s.replace(/"/g, '""')}"` : s }
+    const esc = (v: any) => { const s = v === null || v === undefined ? '' : typeof v === 'object' ? ejsonScalar(v) ?? JSON.stringify(v) : String(v); return s.includes(',') || s.includes('"') || s.includes('\n') ? `"${s.replace(/"/g, '""')}"` : s }
     const csv = [keys.join(','), ...results.map(row => keys.map(k => esc(row[k])).join(','))].join('\n')
     const res = await window.electronAPI.dialog.showSaveDialog({
       defaultPath: `query-results-${Date.now()}.csv`,
@@ -64,6 +80,38 @@ export const QueryResults = ({ results, executionTime, error }: QueryResultsProp
     }
   }
 
+  if (statements && statements.length > 0) {
+    const index = Math.min(activeStatement, statements.length - 1)
+    const current = statements[index]
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-1">
+          {statements.map((s, i) => (
+            <button
+              key={i}
+              onClick={() => setActiveStatement(i)}
+              title={s.statement}
+              className={`px-2 py-1 rounded-md border text-[10px] font-medium transition-colors ${
+                i === index
+                  ? s.success ? 'bg-primary text-primary-foreground border-primary' : 'bg-red-500 text-white border-red-500'
+                  : s.success ? 'hover:bg-accent' : 'border-red-500/50 text-red-500 hover:bg-red-500/10'
+              }`}
+            >
+              {i + 1}. {s.command || 'SQL'}
+              {' · '}{s.success ? `${s.rowCount ?? s.documents.length} row${(s.rowCount ?? s.documents.length) !== 1 ? 's' : ''}` : 'failed'}
+              {s.executionTime !== undefined && ` · ${s.executionTime}ms`}
+            </button>
+          ))}
+        </div>
+        <QueryResults
+          results={current.documents}
+          executionTime={current.executionTime}
+          error={current.error && `Line ${current.startLine}: ${current.error}`}
+        />
+      </div>
+    )
+  }
+
   if (error) {
     return (
       <div className="rounded-lg border border-red-500 bg-red-50 dark:bg-red-950 p-4">
@@ -73,6 +121,15 @@ export const QueryResults = ({ results, executionTime, error }: QueryResultsProp
     )
   }
 
+  if ((!results || results.length === 0) && streaming) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <div className="h-4 w-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        Waiting for first rows...
+      </div>
+    )
+  }
+
   if (!results || results.length === 0) {
     return <NoResults />
   }
@@ -89,6 +146,15 @@ export const QueryResults = ({ results, executionTime, error }: QueryResultsProp
           <span className="text-sm text-muted-foreground">
             {results.length} document{results.length !== 1 ? 's' : ''}
           </span>
+          {streaming && (
+            <span className="flex items-center gap-1.5 text-sm text-primary">
+              <span className="h-3 w-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              Streaming...
+            </span>
+          )}
+          {truncated && (
+            <span className="text-sm text-yellow-500">Stopped at row limit</span>
+          )}
           {executionTime !== undefined && (
             <span className="text-sm text-muted-foreground">
               Execution time: {executionTime}ms
@@ -160,7 +226,7 @@ export const QueryResults = ({ results, executionTime, error }: QueryResultsProp
                     {allKeys.map((key) => (
                       <td key={key} className="px-4 py-2">
                         {typeof doc[key] === 'object' && doc[key] !== null ? (
-                          <pre className="text-xs">{JSON.stringify(doc[key], null, 2)}</pre>
+                          <pre className="text-xs">{toShellSyntax(doc[key])}</pre>
                         ) : (
                           String(doc[key] ?? '')
                         )}
@@ -222,7 +288,7 @@ function VirtualizedResultsTable({ results, allKeys }: { results: any[]; allKeys
                             {allKeys.map((key) => (
                               <td key={key} className="px-4 py-2">
                                 {typeof doc[key] === 'object' && doc[key] !== null ? (
-                                  <pre className="text-xs">{JSON.stringify(doc[key], null, 2)}</pre>
+                                  <pre className="text-xs">{toShellSyntax(doc[key])}</pre>
                                 ) : (
                                   String(doc[key] ?? '')
                                 )}
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
-import { Play, Save, History, BookOpen, X, Plus, FileSearch, FileCode2, Sparkles } from 'lucide-react'
+import { Play, StepForward, Square, Save, History, BookOpen, X, Plus, FileSearch, FileCode2, Sparkles, Check, Undo2 } from 'lucide-react'
 import { Input } from '@/components/common/Input'
 import { MonacoQueryEditor } from '../components/MonacoQueryEditor'
 import { QueryResults } from '../components/QueryResults'
@@ -7,21 +7,32 @@ import { QueryHistory } from '../components/QueryHistory'
 import { QueryTemplates } from '../components/QueryTemplates'
 import { ExplainPlanTree } from '@/components/explain/ExplainPlanTree'
 import { useConnectionStore } from '@/store/connectionStore'
-import { useQueryTabStore } from '@/store/queryTabStore'
+import { useQueryTabStore, type QueryTab } from '@/store/queryTabStore'
 import { databaseService } from '@/services/database.service'
 import { storageService } from '@/services/storage.service'
 import { useToast } from '@/components/common/Toast'
 import { aiService } from '@/services/ai.service'
 import { useAISettingsStore } from '@/store/aiSettingsStore'
 import { renderMarkdown } from '@/utils/markdown'
+import { isSQLDatabase, supportsSessions, supportsStreaming } from '@/utils/dbTypes'
+import { parseShellSyntax } from '@/utils/ejson'
+import { splitSqlStatements, statementAtOffset, statementKeyword, type SqlDialect, type SqlStatement } from '@/utils/sqlSplitter'
+import type { StatementResult } from '@/types'
+import { getDatabaseTypeName } from '@/components/common/DatabaseIcon'
+
+/** Rows requested per fetchNext round-trip */
+const STREAM_BATCH_SIZE = 200
+/** Stop streaming (and close the cursor) once this many rows are on screen */
+const STREAM_ROW_LIMIT = 10000
 
 export const QueryEditorPage = () => {
   const { activeConnectionId, selectedDatabase, selectedCollection, getActiveConnection } = useConnectionStore()
   const activeConnection = getActiveConnection()
   const dbType = activeConnection?.type || 'mongodb'
-  const isPostgreSQL = dbType === 'postgresql'
+  const isSQL = isSQLDatabase(dbType)
   const isRedis = dbType === 'redis'
   const isKafka = dbType === 'kafka'
+  const usesSession = supportsSessions(dbType)
 
   const { tabs, activeTabId, addTab: storeAddTab, closeTab: storeCloseTab, setActiveTab, updateTab: storeUpdateTab } = useQueryTabStore()
 
@@ -46,9 +57,14 @@ export const QueryEditorPage = () => {
   const [optimizeResult, setOptimizeResult] = useState('')
   const [optimizeLoading, setOptimizeLoading] = useState(false)
   const optimizeAbortRef = useRef<AbortController | null>(null)
+  const cancelledTabsRef = useRef(new Set<string>())
+  const cursorOffsetRef = useRef(0)
   const tt = useToast()
 
   const activeTab = tabs.find(t => t.id === activeTabId) || tabs[0]
+  const isScript = dbType === 'mongodb' && activeTab?.mongoMode === 'script'
+  const autoCommit = activeTab?.autoCommit ?? true
+  const inTransaction = !!activeTab?.transaction && activeTab.transaction !== 'idle'
 
   // Fetch collection/table names when database changes
   useEffect(() => {
@@ -89,7 +105,7 @@ export const QueryEditorPage = () => {
     fetchSchema()
   }, [activeConnectionId, selectedDatabase, selectedCollection, dbType])
 
-  const updateTab = useCallback((tabId: string, updates: Partial<import('@/store/queryTabStore').QueryTab>) => {
+  const updateTab = useCallback((tabId: string, updates: Partial<QueryTab>) => {
     storeUpdateTab(tabId, updates)
   }, [storeUpdateTab])
 
@@ -97,26 +113,186 @@ export const QueryEditorPage = () => {
 
   const closeTab = (tabId: string, e?: React.MouseEvent) => {
     e?.stopPropagation()
-    storeCloseTab(tabId)
+    const tab = tabs.find(t => t.id === tabId)
+    const close = () => {
+      if (tab?.cursorId) {
+        cancelledTabsRef.current.add(tabId)
+        databaseService.cancelCursor(tab.cursorId, dbType)
+      }
+      if (tab?.session) databaseService.closeSession(tab.session.id, tab.session.type)
+      storeCloseTab(tabId)
+    }
+    if (tab?.transaction && tab.transaction !== 'idle') {
+      tt.confirm(`"${tab.name}" has an uncommitted transaction. Close it and roll back?`, close)
+    } else {
+      close()
+    }
   }
 
-  const executeQuery = async () => {
+  /**
+   * The tab's pinned session, opened on first use. A tab that moved to another database or connection
+   * gets a fresh session — unless it still holds a transaction on the old one.
+   */
+  const ensureSession = async (tab: QueryTab): Promise<string> => {
+    const { session } = tab
+    if (session?.connectionId === activeConnectionId && session.database === selectedDatabase) return session.id
+    if (session) {
+      if (tab.transaction && tab.transaction !== 'idle') {
+        throw new Error(`This tab has an uncommitted transaction on ${session.database}. Commit or roll back first.`)
+      }
+      databaseService.closeSession(session.id, session.type)
+    }
+    const opened = await databaseService.openSession(activeConnectionId!, selectedDatabase!, dbType)
+    if (!opened.success) throw new Error(opened.error || 'Failed to open session')
+    updateTab(tab.id, {
+      session: { id: opened.sessionId, type: dbType, connectionId: activeConnectionId!, database: selectedDatabase! },
+      transaction: 'idle',
+    })
+    return opened.sessionId
+  }
+
+  /** Re-read the session's transaction status; a session the server dropped is forgotten */
+  const syncTransaction = async (tabId: string, sessionId: string) => {
+    const status = await databaseService.sessionStatus(sessionId, dbType)
+    updateTab(tabId, status.success ? { transaction: status.transaction } : { session: undefined, transaction: undefined })
+  }
+
+  const endTransaction = async (commit: boolean) => {
+    const session = activeTab?.session
+    if (!activeTab || !session) return
+    const result = await databaseService.endTransaction(session.id, commit, session.type)
+    if (!result.success) {
+      tt.error(result.error || 'Failed to end transaction')
+      await syncTransaction(activeTab.id, session.id)
+      return
+    }
+    updateTab(activeTab.id, { transaction: result.transaction })
+    if (commit && result.command === 'ROLLBACK') tt.warning('The transaction had failed and was rolled back')
+    else tt.success(commit ? 'Transaction committed' : 'Transaction rolled back')
+  }
+
+  /** Pull batches from a server-side cursor into the tab until it is exhausted, cancelled or hits the row limit */
+  const streamQuery = async (tabId: string, query: any, startTime: number, session?: { sessionId: string; autoCommit: boolean }) => {
+    const open = await databaseService.openCursor(activeConnectionId!, selectedDatabase!, selectedCollection || '', query, { session }, dbType)
+    if (!open.success) throw new Error(open.error || 'Failed to open cursor')
+    const cursorId: string = open.cursorId
+    updateTab(tabId, { cursorId, results: [], truncated: false })
+
+    let rows: any[] = []
+    try {
+      for (;;) {
+        const batch = await databaseService.fetchNext(cursorId, STREAM_BATCH_SIZE, dbType)
+        if (cancelledTabsRef.current.has(tabId)) {
+          tt.info(`Query cancelled after ${rows.length} row${rows.length !== 1 ? 's' : ''}`)
+          break
+        }
+        if (!batch.success) throw new Error(batch.error || 'Failed to fetch results')
+        rows = rows.concat(batch.documents || [])
+        updateTab(tabId, { results: rows, executionTime: Date.now() - startTime })
+        if (batch.done) break
+        if (rows.length >= STREAM_ROW_LIMIT) {
+          await databaseService.closeCursor(cursorId, dbType)
+          updateTab(tabId, { truncated: true })
+          break
+        }
+      }
+    } finally {
+      cancelledTabsRef.current.delete(tabId)
+      updateTab(tabId, { cursorId: undefined })
+    }
+    return rows
+  }
+
+  const cancelQuery = async () => {
+    if (!activeTab?.cursorId) return
+    cancelledTabsRef.current.add(activeTab.id)
+    const result = await databaseService.cancelCursor(activeTab.cursorId, dbType)
+    if (!result.success) tt.error(result.error || 'Failed to cancel query')
+  }
+
+  /** Switch a MongoDB tab between collection filters and shell scripts, seeding an empty script with a find() */
+  const setMongoMode = (mode: 'filter' | 'script') => {
+    if (!activeTab || (activeTab.mongoMode ?? 'filter') === mode) return
+    const query = activeTab.query.trim()
+    const starter = mode === 'script' && (query === '' || query === '{}')
+      ? selectedCollection ? `db.getCollection(${JSON.stringify(selectedCollection)}).find({}).limit(20)` : 'db.getCollectionNames()'
+      : undefined
+    updateTab(activeTab.id, { mongoMode: mode, output: undefined, errorLine: undefined, ...(starter ? { query: starter } : {}) })
+  }
+
+  /** Run a multi-statement SQL script: one result tab per statement, the failing statement marked in the editor */
+  const runStatements = async (tab: QueryTab, statements: SqlStatement[], query: string) => {
+    const tabId = tab.id
+    const startTime = Date.now()
+    updateTab(tabId, { loading: true, error: undefined, truncated: false, errorLine: undefined, errorEndLine: undefined, statementResults: undefined })
+    let sessionId: string | undefined
+    try {
+      const texts = statements.map(s => s.text)
+      let result: any
+      if (usesSession) {
+        sessionId = await ensureSession(tab)
+        result = await databaseService.sessionExecute(sessionId, texts, autoCommit, dbType)
+      } else {
+        result = await databaseService.executeScript(activeConnectionId!, selectedDatabase!, texts, dbType)
+      }
+      if (!result.success) throw new Error(result.error || 'Failed to run script')
+      if (result.transaction) updateTab(tabId, { transaction: result.transaction })
+      const statementResults: StatementResult[] = result.results.map((r: any, i: number) => ({
+        ...r,
+        command: r.command || statementKeyword(statements[i].text),
+        statement: statements[i].text,
+        startLine: statements[i].startLine,
+        endLine: statements[i].endLine,
+      }))
+      const failed = statementResults.find(s => !s.success)
+      const execTime = Date.now() - startTime
+      updateTab(tabId, {
+        statementResults, results: [], executionTime: execTime, loading: false,
+        errorLine: failed?.startLine, errorEndLine: failed?.endLine,
+      })
+      if (failed && statementResults.length < statements.length) {
+        tt.warning(`Stopped at statement ${statementResults.length} of ${statements.length}`)
+      }
+      await storageService.addQueryHistory({
+        id: Date.now().toString(), query,
+        database: selectedDatabase!, collection: selectedCollection,
+        executedAt: new Date().toISOString(), executionTime: execTime,
+        resultCount: statementResults.reduce((n, s) => n + (s.rowCount ?? s.documents.length), 0),
+      })
+    } catch (err: any) {
+      updateTab(tabId, { error: err.message || 'Failed to run script', results: [], loading: false })
+      if (sessionId) await syncTransaction(tabId, sessionId)
+    }
+  }
+
+  /** Run the editor contents — or, for SQL with scope 'current', only the statement under the cursor */
+  const executeQuery = async (scope: 'all' | 'current' = 'all') => {
     if (!activeTab || !activeConnectionId || !selectedDatabase) {
       tt.warning('Please select a database first'); return
     }
-    if (!isRedis && !isKafka && !selectedCollection) {
+    if (!isRedis && !isKafka && !isScript && !selectedCollection) {
       tt.warning('Please select a collection/table first'); return
     }
     const tabId = activeTab.id
-    const query = activeTab.query
+    let query = activeTab.query
+    let single: SqlStatement | undefined
+    if (isSQL) {
+      const all = splitSqlStatements(query, dbType as SqlDialect)
+      const current = scope === 'current' ? statementAtOffset(all, cursorOffsetRef.current) : undefined
+      const statements = scope === 'current' ? (current ? [current] : []) : all
+      if (statements.length === 0) { tt.warning('Nothing to run'); return }
+      if (statements.length > 1) { await runStatements(activeTab, statements, query); return }
+      single = statements[0]
+      query = single.text
+    }
     try {
-      updateTab(tabId, { loading: true, error: undefined })
+      updateTab(tabId, { loading: true, error: undefined, truncated: false, output: undefined, errorLine: undefined, errorEndLine: undefined, statementResults: undefined })
       const startTime = Date.now()
       let result: any
       if (isKafka) {
         const topic = selectedCollection || ''
         if (activeTab.kafkaMode === 'consume') {
-          result = await databaseService.kafkaConsumeMessages(activeConnectionId, topic, 50, true)
+          result = await databaseService.kafkaConsumeMessages(activeConnectionId, topic, { from: 'beginning', limit: 50 })
         } else {
           try {
             const msg = JSON.parse(query)
@@ -126,11 +302,29 @@ export const QueryEditorPage = () => {
         }
       } else if (isRedis) {
         result = await databaseService.executeQuery(activeConnectionId, selectedDatabase, selectedCollection || '', query)
-      } else if (isPostgreSQL) {
+      } else if (isScript) {
+        result = await databaseService.mongoRunScript(activeConnectionId, selectedDatabase, query)
+        updateTab(tabId, { output: result.output, truncated: !!result.truncated })
+        if (!result.success) {
+          updateTab(tabId, { errorLine: result.line })
+          throw new Error(result.line ? `Line ${result.line}: ${result.error}` : result.error || 'Script failed')
+        }
+      } else if (supportsStreaming(dbType)) {
+        let cursorQuery: any = query
+        if (!isSQL) {
+          try { cursorQuery = parseShellSyntax(query) } catch (e: any) { throw new Error(`Invalid query: ${e.message}`) }
+        }
+        const session = usesSession ? { sessionId: await ensureSession(activeTab), autoCommit } : undefined
+        try {
+          result = { documents: await streamQuery(tabId, cursorQuery, startTime, session) }
+        } finally {
+          if (session) await syncTransaction(tabId, session.sessionId)
+        }
+      } else if (isSQL) {
         result = await databaseService.executeQuery(activeConnectionId, selectedDatabase, selectedCollection || '', query)
       } else {
         let queryInput: any
-        try { queryInput = JSON.parse(query) } catch { throw new Error('Invalid JSON query') }
+        try { queryInput = parseShellSyntax(query) } catch (e: any) { throw new Error(`Invalid query: ${e.message}`) }
         result = await databaseService.executeQuery(activeConnectionId, selectedDatabase, selectedCollection || '', queryInput, { limit: 100 })
       }
       const execTime = Date.now() - startTime
@@ -150,7 +344,10 @@ export const QueryEditorPage = () => {
         executedAt: new Date().toISOString(), executionTime: execTime, resultCount: formattedResults?.length || 0,
       })
     } catch (err: any) {
-      updateTab(tabId, { error: err.message || 'Failed to execute query', results: [], loading: false })
+      updateTab(tabId, {
+        error: err.message || 'Failed to execute query', results: [], loading: false,
+        ...(single ? { errorLine: single.startLine, errorEndLine: single.endLine } : {}),
+      })
     }
   }
 
@@ -206,10 +403,10 @@ export const QueryEditorPage = () => {
     setExplainLoading(true)
     try {
       let queryInput: any
-      if (isPostgreSQL) {
+      if (isSQL) {
         queryInput = activeTab.query
       } else {
-        try { queryInput = JSON.parse(activeTab.query) } catch { queryInput = {} }
+        try { queryInput = parseShellSyntax(activeTab.query) } catch { queryInput = {} }
       }
       const result = await databaseService.explainQuery(activeConnectionId, selectedDatabase, selectedCollection, queryInput, dbType)
       if (result.success) {
@@ -248,10 +445,10 @@ export const QueryEditorPage = () => {
     try {
       // 1. Get explain plan
       let queryInput: any
-      if (isPostgreSQL) {
+      if (isSQL) {
         queryInput = activeTab.query
       } else {
-        try { queryInput = JSON.parse(activeTab.query) } catch { queryInput = {} }
+        try { queryInput = parseShellSyntax(activeTab.query) } catch { queryInput = {} }
       }
       const explainResult = await databaseService.explainQuery(activeConnectionId, selectedDatabase, selectedCollection, queryInput, dbType)
       if (!explainResult.success) {
@@ -278,7 +475,7 @@ If the query can be rewritten for better performance, provide the optimized vers
 
 Be specific and actionable. Include exact CREATE INDEX commands or query rewrites.`
 
-      const userPrompt = `Database: ${isPostgreSQL ? 'PostgreSQL' : 'MongoDB'}
+      const userPrompt = `Database: ${getDatabaseTypeName(dbType)}
 Table/Collection: ${selectedCollection}
 ${schemaFields.length > 0 ? `Fields: ${schemaFields.join(', ')}` : ''}
 
@@ -315,7 +512,7 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') { e.preventDefault(); executeQuery() }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') { e.preventDefault(); executeQuery(e.shiftKey ? 'current' : 'all') }
       if ((e.metaKey || e.ctrlKey) && e.key === 's') { e.preventDefault(); setShowSaveDialog(true) }
       if ((e.metaKey || e.ctrlKey) && e.key === 't') { e.preventDefault(); addTab() }
       if ((e.metaKey || e.ctrlKey) && e.key === 'w') { e.preventDefault(); if (tabs.length > 1) closeTab(activeTabId) }
@@ -358,6 +555,10 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
                   <>
                     <span className="truncate">{tab.name}</span>
                     {tab.loading && <span className="w-2 h-2 rounded-full bg-warning animate-pulse shrink-0" />}
+                    {!tab.loading && tab.transaction && tab.transaction !== 'idle' && (
+                      <span title={tab.transaction === 'failed' ? 'Transaction failed' : 'Transaction open'}
+                        className={`w-2 h-2 rounded-full shrink-0 ${tab.transaction === 'failed' ? 'bg-red-400' : 'bg-amber-400'}`} />
+                    )}
                   </>
                 )}
                 {tabs.length > 1 && (
@@ -389,6 +590,14 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
                 className={`px-2.5 py-1 text-[10px] font-medium transition-colors ${activeTab.kafkaMode === 'produce' ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}>Produce</button>
             </div>
           )}
+          {dbType === 'mongodb' && activeTab && (
+            <div className="flex items-center rounded-lg border overflow-hidden">
+              <button onClick={() => setMongoMode('filter')}
+                className={`px-2.5 py-1 text-[10px] font-medium transition-colors ${!isScript ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}>Filter</button>
+              <button onClick={() => setMongoMode('script')}
+                className={`px-2.5 py-1 text-[10px] font-medium transition-colors ${isScript ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}>Script</button>
+            </div>
+          )}
           <button onClick={() => { setShowTemplates(!showTemplates); setShowHistory(false) }} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border hover:bg-accent transition-all duration-150 active:scale-[0.97]">
             <FileCode2 className="h-3 w-3" /> Templates
           </button>
@@ -398,11 +607,40 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
           <button onClick={() => setShowSaveDialog(true)} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border hover:bg-accent transition-all duration-150 active:scale-[0.97]">
             <Save className="h-3 w-3" /> Save
           </button>
-          <button onClick={executeQuery} disabled={activeTab?.loading || !activeConnectionId}
+          {usesSession && activeTab && (
+            <>
+              <button onClick={() => updateTab(activeTab.id, { autoCommit: !autoCommit })}
+                title={autoCommit ? 'Each statement commits on its own' : 'Statements run in a transaction until Commit or Rollback'}
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border transition-all duration-150 active:scale-[0.97] ${autoCommit ? 'hover:bg-accent' : 'border-amber-500/40 text-amber-400 bg-amber-500/10'}`}>
+                Auto-commit {autoCommit ? 'On' : 'Off'}
+              </button>
+              <button onClick={() => endTransaction(true)} disabled={!inTransaction || activeTab.loading}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10 transition-all duration-150 active:scale-[0.97] disabled:opacity-50">
+                <Check className="h-3 w-3" /> Commit
+              </button>
+              <button onClick={() => endTransaction(false)} disabled={!inTransaction || activeTab.loading}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-all duration-150 active:scale-[0.97] disabled:opacity-50">
+                <Undo2 className="h-3 w-3" /> Rollback
+              </button>
+            </>
+          )}
+          {isSQL && (
+            <button onClick={() => executeQuery('current')} disabled={activeTab?.loading || !activeConnectionId} title="Run the statement under the cursor (⌘⇧↵)"
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border hover:bg-accent transition-all duration-150 active:scale-[0.97] disabled:opacity-50">
+              <StepForward className="h-3 w-3" /> Run Current
+            </button>
+          )}
+          <button onClick={() => executeQuery()} disabled={activeTab?.loading || !activeConnectionId}
             className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 shadow-sm transition-all duration-150 active:scale-[0.97] disabled:opacity-50">
-            <Play className="h-3 w-3" /> {activeTab?.loading ? 'Running...' : 'Run (⌘↵)'}
+            <Play className="h-3 w-3" /> {activeTab?.loading ? 'Running...' : isSQL ? 'Run All (⌘↵)' : 'Run (⌘↵)'}
           </button>
-          {!isRedis && !isKafka && (
+          {activeTab?.cursorId && (
+            <button onClick={cancelQuery}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-all duration-150 active:scale-[0.97]">
+              <Square className="h-3 w-3" /> Cancel
+            </button>
+          )}
+          {!isRedis && !isKafka && !isScript && (
             <>
               <button onClick={handleExplain} disabled={explainLoading || !activeConnectionId}
                 className="flex items-center gap-1.5 px-2.5 py-1.5 text-[10px] font-medium rounded-md border border-orange-500/30 text-orange-400 hover:bg-orange-500/10 transition-all duration-150 active:scale-[0.97] disabled:opacity-50">
@@ -418,7 +656,7 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
       </div>
 
       {/* Content */}
-      {!activeConnectionId || !selectedDatabase || (!isKafka && !selectedCollection) ? (
+      {!activeConnectionId || !selectedDatabase || (!isKafka && !isScript && !selectedCollection) ? (
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center animate-fade-in">
             <BookOpen className="mx-auto h-8 w-8 text-muted-foreground/50 mb-3" />
@@ -429,8 +667,11 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
         <div className="flex-1 flex flex-col gap-2 overflow-hidden px-2 pb-2 pt-1">
           <div className="flex-1 rounded-lg border bg-card overflow-hidden min-h-[120px] shadow-sm">
             <MonacoQueryEditor value={activeTab.query} onChange={v => updateTab(activeTab.id, { query: v })} height="100%"
-              language={isPostgreSQL ? 'sql' : isRedis ? 'redis' : 'javascript'}
-              schemaFields={schemaFields} collectionNames={collectionNames} />
+              language={isSQL ? 'sql' : isRedis ? 'redis' : 'javascript'}
+              schemaFields={schemaFields} collectionNames={collectionNames}
+              errorLine={activeTab.errorLine} errorEndLine={activeTab.errorEndLine}
+              errorMessage={activeTab.error ?? activeTab.statementResults?.find(s => !s.success)?.error}
+              onCursorOffsetChange={offset => { cursorOffsetRef.current = offset }} />
           </div>
           <div className="rounded-lg border bg-card max-h-[45%] overflow-auto shadow-sm">
             <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
@@ -440,7 +681,11 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
               )}
             </div>
             <div className="p-2">
-              <QueryResults results={activeTab.results || []} executionTime={activeTab.executionTime} error={activeTab.error} />
+              {activeTab.output && activeTab.output.length > 0 && (
+                <pre className="mb-2 max-h-40 overflow-auto rounded-md bg-muted/50 p-2 text-[11px] font-mono whitespace-pre-wrap">{activeTab.output.join('\n')}</pre>
+              )}
+              <QueryResults results={activeTab.results || []} executionTime={activeTab.executionTime} error={activeTab.error}
+                streaming={!!activeTab.cursorId} truncated={activeTab.truncated} statements={activeTab.statementResults} />
             </div>
           </div>
         </div>
@@ -531,12 +776,12 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
               <div className="flex items-center gap-2">
                 <FileSearch className="h-4 w-4 text-orange-400" />
                 <h3 className="text-sm font-semibold">Query Execution Plan</h3>
-                <span className="text-[10px] text-muted-foreground px-1.5 py-0.5 rounded-md bg-muted font-medium">{isPostgreSQL ? 'PostgreSQL' : 'MongoDB'}</span>
+                <span className="text-[10px] text-muted-foreground px-1.5 py-0.5 rounded-md bg-muted font-medium">{getDatabaseTypeName(dbType)}</span>
               </div>
               <button onClick={() => setShowExplain(false)} className="p-1.5 rounded-md hover:bg-accent transition-colors"><X className="h-4 w-4" /></button>
             </div>
             <div className="flex-1 overflow-auto p-4">
-              <ExplainPlanTree plan={explainPlan} dbType={isPostgreSQL ? 'postgresql' : 'mongodb'} />
+              <ExplainPlanTree plan={explainPlan} dbType={dbType} />
             </div>
           </div>
         </div>
@@ -550,7 +795,7 @@ ${JSON.stringify(explainResult.explain, null, 2)}`
               <div className="flex items-center gap-2">
                 <Sparkles className="h-4 w-4 text-purple-400" />
                 <h3 className="text-sm font-semibold">AI Query Optimization</h3>
-                <span className="text-[10px] text-muted-foreground px-1.5 py-0.5 rounded-md bg-muted font-medium">{isPostgreSQL ? 'PostgreSQL' : 'MongoDB'}</span>
+                <span className="text-[10px] text-muted-foreground px-1.5 py-0.5 rounded-md bg-muted font-medium">{getDatabaseTypeName(dbType)}</span>
                 {optimizeLoading && (
                   <span className="flex items-center gap-1.5 text-[10px] text-purple-400 ml-1">
                     <span className="h-2 w-2 rounded-full bg-purple-400 animate-pulse" />
@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react'
+import { FileCode2, Play, Upload, Save, Plus, Trash2, RefreshCw, Search, Eraser } from 'lucide-react'
+import { MonacoQueryEditor } from '@/features/query-editor/components/MonacoQueryEditor'
+import { databaseService } from '@/services/database.service'
+import { storageService } from '@/services/storage.service'
+import { formatRedisReply, luaErrorLine, parseArgList, type RedisFunctionLibrary } from '@/utils/redisLua'
+import type { RedisScript } from '@/types'
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border hover:bg-accent disabled:opacity-50'
+
+const TEMPLATES: Record<RedisScript['kind'], string> = {
+  script: "-- KEYS[n] and ARGV[n] come from the lists below\nreturn redis.call('GET', KEYS[1])\n",
+  function: "#!lua name=mylib\n\nredis.register_function('myfunc', function(keys, args)\n  return redis.call('GET', keys[1])\nend)\n",
+}
+
+const newScript = (kind: RedisScript['kind'] = 'script'): RedisScript => ({ id: '', name: '', kind, body: TEMPLATES[kind], keys: '', args: '' })
+
+interface Output {
+  label: string
+  text: string
+  error?: boolean
+  durationMs?: number
+}
+
+/** Write, run and keep Lua: EVAL / EVALSHA with the script cache, and Redis 7 function libraries */
+export const LuaWorkbenchTab = ({ connectionId, database, tt }: { connectionId: string; database: string; tt: any }) => {
+  const [saved, setSaved] = useState<RedisScript[]>([])
+  const [script, setScript] = useState<RedisScript>(() => newScript())
+  const [sha, setSha] = useState('')
+  const [replace, setReplace] = useState(true)
+  const [libraries, setLibraries] = useState<RedisFunctionLibrary[]>([])
+  const [fnName, setFnName] = useState('')
+  const [output, setOutput] = useState<Output | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const update = (patch: Partial<RedisScript>) => setScript(prev => ({ ...prev, ...patch }))
+  const keys = parseArgList(script.keys || '')
+  const args = parseArgList(script.args || '')
+  const errorLine = output?.error ? luaErrorLine(output.text) : undefined
+
+  const loadSaved = async () => {
+    try {
+      setSaved(await storageService.getRedisScripts())
+    } catch { /* ignore */ }
+  }
+
+  useEffect(() => { loadSaved() }, [])
+
+  /** Run one server call and show its reply (or error) in the output pane */
+  const run = async (label: string, call: () => Promise<any>, show: (r: any) => string = r => formatRedisReply(r.result)) => {
+    setBusy(true)
+    try {
+      const r = await call()
+      if (r.success) setOutput({ label, text: show(r), durationMs: r.durationMs })
+      else setOutput({ label, text: r.error, error: true })
+      return r
+    } catch (e: any) {
+      setOutput({ label, text: e.message, error: true })
+    } finally { setBusy(false) }
+  }
+
+  const loadLibraries = async () => {
+    const r = await run('FUNCTION LIST', () => databaseService.redisFunctionList(connectionId),
+      r => r.libraries.length ? `${r.libraries.length} librar${r.libraries.length === 1 ? 'y' : 'ies'} loaded` : '(empty array)')
+    if (r?.success) {
+      setLibraries(r.libraries)
+      const names = r.libraries.flatMap((l: RedisFunctionLibrary) => l.functions.map(f => f.name))
+      if (!names.includes(fnName)) setFnName(names[0] || '')
+    }
+  }
+
+  useEffect(() => {
+    if (script.kind === 'function') loadLibraries()
+  }, [script.kind, connectionId])
+
+  const handleScriptLoad = async () => {
+    const r = await run('SCRIPT LOAD', () => databaseService.redisScriptLoad(connectionId, script.body), r => JSON.stringify(r.sha))
+    if (r?.success) setSha(r.sha)
+  }
+
+  const handleFunctionLoad = async () => {
+    const r = await run(`FUNCTION LOAD${replace ? ' REPLACE' : ''}`, () => databaseService.redisFunctionLoad(connectionId, script.body, replace), r => JSON.stringify(r.library))
+    if (r?.success) {
+      tt.success(`Library "${r.library}" loaded`)
+      await loadLibraries()
+    }
+  }
+
+  const handleFlush = () => {
+    tt.confirm('Remove every script from the server script cache? EVALSHA calls will fail until they are loaded again.', async () => {
+      const r = await run('SCRIPT FLUSH', () => databaseService.redisScriptFlush(connectionId), () => 'OK')
+      if (r?.success) setSha('')
+    })
+  }
+
+  const handleDeleteLibrary = (library: string) => {
+    tt.confirm(`Delete function library "${library}" and all its functions?`, async () => {
+      const r = await run('FUNCTION DELETE', () => databaseService.redisFunctionDelete(connectionId, library), () => 'OK')
+      if (r?.success) await loadLibraries()
+    })
+  }
+
+  const handleSave = async () => {
+    if (!script.name.trim() || !script.body.trim()) { tt.warning('Name and script are required'); return }
+    try {
+      const stored = await storageService.saveRedisScript({ ...script, id: script.id || crypto.randomUUID(), name: script.name.trim() })
+      setScript(stored)
+      await loadSaved()
+      tt.success('Script saved')
+    } catch { tt.error('Failed to save script') }
+  }
+
+  const handleDelete = (s: RedisScript) => {
+    tt.confirm(`Delete saved script "${s.name}"?`, async () => {
+      try {
+        await storageService.deleteRedisScript(s.id)
+        setSaved(prev => prev.filter(x => x.id !== s.id))
+        if (script.id === s.id) setScript(prev => ({ ...prev, id: '' }))
+        tt.success('Script deleted')
+      } catch { tt.error('Failed to delete script') }
+    })
+  }
+
+  const setKind = (kind: RedisScript['kind']) => {
+    if (kind === script.kind) return
+    // Swap the starter body, but never throw away something the user wrote
+    update({ kind, body: script.body === TEMPLATES[script.kind] || !script.body.trim() ? TEMPLATES[kind] : script.body })
+  }
+
+  return (
+    <div className="flex gap-3 h-full min-h-[520px]">
+      {/* Saved scripts */}
+      <div className="w-52 shrink-0 rounded-lg border bg-card flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-1.5 border-b bg-muted/30">
+          <h4 className="text-[11px] font-medium">Saved Scripts</h4>
+          <button onClick={() => { setScript(newScript(script.kind)); setOutput(null) }} className="p-0.5 rounded hover:bg-accent" title="New script">
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {saved.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground py-4 text-center">No saved scripts</p>
+          ) : saved.map(s => (
+            <div key={s.id} onClick={() => { setScript(s); setOutput(null) }}
+              className={`group flex items-center gap-1.5 px-3 py-1.5 text-[11px] cursor-pointer border-b last:border-0 ${script.id === s.id ? 'bg-primary/10' : 'hover:bg-muted/20'}`}>
+              <FileCode2 className={`h-3 w-3 shrink-0 ${s.kind === 'function' ? 'text-purple-400' : 'text-red-400'}`} />
+              <span className="flex-1 truncate" title={s.name}>{s.name}</span>
+              <button onClick={e => { e.stopPropagation(); handleDelete(s) }} className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-red-500/10 text-red-400" title="Delete">
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-3">
+        {/* Name & kind */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <input value={script.name} onChange={e => update({ name: e.target.value })} placeholder="Script name" className={`w-56 ${inputClass}`} />
+          <div className="flex rounded-md border overflow-hidden">
+            {(['script', 'function'] as const).map(kind => (
+              <button key={kind} onClick={() => setKind(kind)}
+                className={`px-2.5 py-1 text-[11px] ${script.kind === kind ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'}`}>
+                {kind === 'script' ? 'Script (EVAL)' : 'Function library'}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1" />
+          <span className="text-[10px] text-muted-foreground">{database}</span>
+          <button onClick={handleSave} className={buttonClass}><Save className="h-3.5 w-3.5" /> Save</button>
+        </div>
+
+        <div className="rounded-lg border overflow-hidden">
+          <MonacoQueryEditor
+            value={script.body}
+            onChange={body => update({ body })}
+            language="lua"
+            height="280px"
+            errorLine={errorLine}
+            errorMessage={output?.error ? output.text : undefined}
+          />
+        </div>
+
+        {/* KEYS / ARGV */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1">
+            <span className="text-[10px] text-muted-foreground">KEYS — one per line ({keys.length})</span>
+            <textarea value={script.keys || ''} onChange={e => update({ keys: e.target.value })} rows={3} className={`w-full font-mono resize-y ${inputClass}`} placeholder="user:42" />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] text-muted-foreground">ARGV — one per line ({args.length})</span>
+            <textarea value={script.args || ''} onChange={e => update({ args: e.target.value })} rows={3} className={`w-full font-mono resize-y ${inputClass}`} />
+          </label>
+        </div>
+
+        {/* Actions */}
+        {script.kind === 'script' ? (
+          <div className="flex items-center gap-2 flex-wrap">
+            <button disabled={busy} onClick={() => run('EVAL', () => databaseService.redisEvalScript(connectionId, database, 'eval', script.body, keys, args))}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+              <Play className="h-3.5 w-3.5" /> EVAL
+            </button>
+            <button disabled={busy} onClick={handleScriptLoad} className={buttonClass}><Upload className="h-3.5 w-3.5" /> SCRIPT LOAD</button>
+            <input value={sha} onChange={e => setSha(e.target.value.trim())} placeholder="SHA1" className={`w-72 font-mono ${inputClass}`} />
+            <button disabled={busy || !sha} onClick={() => run('EVALSHA', () => databaseService.redisEvalScript(connectionId, database, 'evalsha', sha, keys, args))} className={buttonClass}>
+              <Play className="h-3.5 w-3.5" /> EVALSHA
+            </button>
+            <button disabled={busy || !sha} onClick={() => run('SCRIPT EXISTS', () => databaseService.redisScriptExists(connectionId, [sha]), r => r.exists[0] ? 'Cached' : 'Not in the script cache')} className={buttonClass}>
+              <Search className="h-3.5 w-3.5" /> EXISTS
+            </button>
+            <div className="flex-1" />
+            <button disabled={busy} onClick={handleFlush} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10 disabled:opacity-50">
+              <Eraser className="h-3.5 w-3.5" /> SCRIPT FLUSH
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <button disabled={busy} onClick={handleFunctionLoad}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">
+                <Upload className="h-3.5 w-3.5" /> FUNCTION LOAD
+              </button>
+              <label className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                <input type="checkbox" checked={replace} onChange={e => setReplace(e.target.checked)} /> REPLACE
+              </label>
+              <div className="w-px h-5 bg-border mx-1" />
+              <select value={fnName} onChange={e => setFnName(e.target.value)} className={`w-48 font-mono ${inputClass}`}>
+                {!fnName && <option value="">No functions</option>}
+                {libraries.map(l => (
+                  <optgroup key={l.name} label={l.name}>
+                    {l.functions.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+                  </optgroup>
+                ))}
+              </select>
+              <button disabled={busy || !fnName} onClick={() => run('FCALL', () => databaseService.redisCallFunction(connectionId, database, fnName, keys, args))} className={buttonClass}>
+                <Play className="h-3.5 w-3.5" /> FCALL
+              </button>
+              <button disabled={busy || !fnName} onClick={() => run('FCALL_RO', () => databaseService.redisCallFunction(connectionId, database, fnName, keys, args, true))} className={buttonClass}>
+                <Play className="h-3.5 w-3.5" /> FCALL_RO
+              </button>
+              <button disabled={busy} onClick={loadLibraries} className={buttonClass} title="FUNCTION LIST">
+                <RefreshCw className={`h-3.5 w-3.5 ${busy ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+            {libraries.length > 0 && (
+              <div className="rounded-lg border bg-card divide-y">
+                {libraries.map(l => (
+                  <div key={l.name} className="flex items-center gap-2 px-3 py-1.5 text-[11px]">
+                    <span className="font-mono font-medium">{l.name}</span>
+                    <span className="text-[10px] text-muted-foreground">{l.engine}</span>
+                    <span className="flex-1 truncate text-muted-foreground font-mono" title={l.functions.map(f => f.name).join(', ')}>
+                      {l.functions.map(f => f.flags.includes('no-writes') ? `${f.name} (ro)` : f.name).join(', ')}
+                    </span>
+                    {l.code !== undefined && (
+                      <button onClick={() => update({ kind: 'function', body: l.code! })} className="px-1.5 py-0.5 text-[10px] rounded border hover:bg-accent">Open</button>
+                    )}
+                    <button onClick={() => handleDeleteLibrary(l.name)} className="p-0.5 rounded hover:bg-red-500/10 text-red-400" title="FUNCTION DELETE">
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Result */}
+        {output && (
+          <div className="rounded-lg border bg-card overflow-hidden">
+            <div className="flex items-center justify-between px-3 py-1.5 border-b bg-muted/30">
+              <h4 className="text-[11px] font-medium">{output.label}</h4>
+              {output.durationMs !== undefined && <span className="text-[10px] text-muted-foreground">{output.durationMs} ms</span>}
+            </div>
+            <pre className={`p-3 text-[11px] font-mono whitespace-pre-wrap break-all max-h-80 overflow-auto ${output.error ? 'text-red-400' : ''}`}>
+              {output.error ? `(error) ${output.text}` : output.text}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import { useState, type ReactNode } from 'react'
+import { HardDrive, Square, Play, Download } from 'lucide-react'
+import { useSettingsStore } from '@/store/settingsStore'
+import { formatBytes } from '@/utils/formatters'
+import {
+  memoryReportCsv,
+  type RedisKeySample, type RedisMemoryGroup, type RedisMemoryReport, type RedisMemoryReportSection,
+} from '@/utils/redisMemory'
+import { useRedisMemoryAnalysis } from '../hooks/useRedisMemoryAnalysis'
+
+const inputClass = 'px-2 py-1 text-[11px] rounded border bg-background focus:outline-none focus:ring-1 focus:ring-primary'
+
+const SAMPLE_RATES = [[1, 'All keys'], [0.5, '50%'], [0.1, '10%'], [0.01, '1%']] as const
+
+const formatTtl = (ms: number) => {
+  if (ms < 0) return '—'
+  const s = Math.round(ms / 1000)
+  return s < 60 ? `${s}s` : s < 3600 ? `${Math.round(s / 60)}m` : s < 86400 ? `${(s / 3600).toFixed(1)}h` : `${(s / 86400).toFixed(1)}d`
+}
+
+/** Scan a database and report where its memory goes: biggest keys, prefixes, types and TTLs */
+export const MemoryAnalysisTab = ({ connectionId, database, tt }: { connectionId: string; database: string; tt: any }) => {
+  const defaultDelimiter = useSettingsStore(s => s.general.redisKeyDelimiter)
+  const [pattern, setPattern] = useState('*')
+  const [sampleRate, setSampleRate] = useState(1)
+  const [maxKeys, setMaxKeys] = useState(0)
+  const [topN, setTopN] = useState(50)
+  const [delimiter, setDelimiter] = useState(defaultDelimiter)
+  const [prefixDepth, setPrefixDepth] = useState(1)
+  const analysis = useRedisMemoryAnalysis(connectionId)
+
+  const progress = analysis.progress
+  const report = progress?.report
+  const target = maxKeys > 0 && progress ? Math.min(maxKeys, progress.total) : progress?.total || 0
+  const percent = progress?.done ? 100 : target > 0 ? Math.min(100, Math.round((progress!.scanned / target) * 100)) : 0
+  const status = !progress ? (analysis.running ? 'Starting…' : '')
+    : analysis.running ? `Scanning ${analysis.database}… ${progress.scanned.toLocaleString()} of ~${target.toLocaleString()} keys`
+    : progress.error ? `Failed after ${progress.scanned.toLocaleString()} keys`
+    : progress.cancelled ? `Cancelled after ${progress.scanned.toLocaleString()} keys`
+    : `Done · ${progress.scanned.toLocaleString()} keys in ${(progress.elapsedMs / 1000).toFixed(1)}s`
+
+  const handleStart = () => analysis.start(database, {
+    pattern: pattern.trim() || '*', sampleRate, maxKeys, topN, delimiter, prefixDepth,
+  })
+
+  const exportCsv = async (section: RedisMemoryReportSection) => {
+    if (!report) return
+    const res = await window.electronAPI.dialog.showSaveDialog({
+      defaultPath: `redis-memory-${analysis.database}-${section}-${Date.now()}.csv`,
+      filters: [{ name: 'CSV', extensions: ['csv'] }],
+    })
+    if (!res.canceled && res.filePath) {
+      await window.electronAPI.fs.writeFile(res.filePath, memoryReportCsv(report, section))
+      tt.success('Exported as CSV')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Memory Analysis — {database}</h3>
+
+      {/* Options */}
+      <div className="flex items-center gap-2 flex-wrap text-muted-foreground">
+        <span className="text-[10px]">Pattern:</span>
+        <input value={pattern} onChange={e => setPattern(e.target.value)} className={`w-40 font-mono ${inputClass}`} placeholder="*" />
+        <span className="text-[10px]">Sample:</span>
+        <select value={sampleRate} onChange={e => setSampleRate(Number(e.target.value))} className={inputClass}>
+          {SAMPLE_RATES.map(([rate, label]) => <option key={rate} value={rate}>{label}</option>)}
+        </select>
+        <span className="text-[10px]">Max keys:</span>
+        <input type="number" min={0} value={maxKeys} onChange={e => setMaxKeys(Math.max(0, Number(e.target.value) || 0))} className={`w-24 ${inputClass}`} title="0 scans the whole database" />
+        <span className="text-[10px]">Top:</span>
+        <input type="number" min={1} max={1000} value={topN} onChange={e => setTopN(Math.min(1000, Math.max(1, Number(e.target.value) || 1)))} className={`w-16 ${inputClass}`} />
+        <span className="text-[10px]">Prefix:</span>
+        <input value={delimiter} onChange={e => setDelimiter(e.target.value)} className={`w-10 text-center font-mono ${inputClass}`} title="Delimiter" />
+        <select value={prefixDepth} onChange={e => setPrefixDepth(Number(e.target.value))} className={inputClass} title="Segments per prefix">
+          {[1, 2, 3].map(d => <option key={d} value={d}>{d} level{d > 1 ? 's' : ''}</option>)}
+        </select>
+        <div className="flex-1" />
+        {analysis.running ? (
+          <button onClick={analysis.cancel} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md border border-red-500/30 text-red-400 hover:bg-red-500/10">
+            <Square className="h-3.5 w-3.5" /> Cancel
+          </button>
+        ) : (
+          <button onClick={handleStart} className="flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90">
+            <Play className="h-3.5 w-3.5" /> Analyze
+          </button>
+        )}
+      </div>
+      <p className="text-[10px] text-muted-foreground/70">
+        Runs SCAN with MEMORY USAGE, length and PTTL per key — sample or cap the keys on busy production servers
+      </p>
+
+      {/* Progress */}
+      {(analysis.running || progress) && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full transition-all ${progress?.error ? 'bg-red-500' : progress?.cancelled ? 'bg-muted-foreground/50' : 'bg-primary'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-[11px] text-muted-foreground">{status}</span>
+        </div>
+      )}
+      {progress?.error && <p className="text-[11px] text-red-400 font-mono">{progress.error}</p>}
+
+      {report ? <MemoryReport report={report} onExport={exportCsv} /> : !analysis.running && (
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <HardDrive className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+            <p className="text-xs text-muted-foreground">Find the biggest keys and see memory by prefix, type and TTL</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const MemoryReport = ({ report, onExport }: { report: RedisMemoryReport; onExport: (section: RedisMemoryReportSection) => void }) => {
+  const estimated = report.sampleRate < 1
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2.5">
+        <Summary label="Keys scanned" value={report.scannedKeys.toLocaleString()} sub={estimated ? `${report.sampledKeys.toLocaleString()} measured` : undefined} />
+        <Summary label={estimated ? 'Memory (estimated)' : 'Memory'} value={formatBytes(report.estimatedBytes)} sub={estimated ? `${formatBytes(report.sampledBytes)} measured` : undefined} />
+        <Summary label="Avg key size" value={formatBytes(report.sampledKeys ? report.sampledBytes / report.sampledKeys : 0)} />
+        <Summary label="Keys without TTL" value={report.noTtl.keys.toLocaleString()} sub={`${formatBytes(report.noTtl.bytes)}${estimated ? ' measured' : ''}`} />
+      </div>
+
+      <Section title={`Biggest keys (top ${report.topKeys.length})`} onExport={() => onExport('topKeys')}>
+        <KeyTable keys={report.topKeys} />
+      </Section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+        <Section title="Memory by prefix" onExport={() => onExport('byPrefix')}>
+          <GroupTable groups={report.byPrefix} total={report.sampledBytes} label="Prefix" />
+        </Section>
+        <Section title="Memory by type" onExport={() => onExport('byType')}>
+          <GroupTable groups={report.byType} total={report.sampledBytes} label="Type" />
+        </Section>
+        <Section title="TTL distribution" onExport={() => onExport('ttlBuckets')}>
+          <GroupTable groups={report.ttlBuckets} total={report.sampledBytes} label="TTL" />
+        </Section>
+        <Section title="Biggest keys without TTL" onExport={() => onExport('noTtl')}>
+          <KeyTable keys={report.noTtl.topKeys} />
+        </Section>
+      </div>
+    </div>
+  )
+}
+
+const Summary = ({ label, value, sub }: { label: string; value: string; sub?: string }) => (
+  <div className="rounded-lg border bg-card p-3">
+    <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</p>
+    <p className="text-sm font-semibold mt-0.5">{value}</p>
+    {sub && <p className="text-[10px] text-muted-foreground">{sub}</p>}
+  </div>
+)
+
+const Section = ({ title, onExport, children }: { title: string; onExport: () => void; children: ReactNode }) => (
+  <div className="rounded-lg border bg-card overflow-hidden">
+    <div className="flex items-center justify-between px-3 py-1.5 border-b bg-muted/30">
+      <h4 className="text-[11px] font-medium">{title}</h4>
+      <button onClick={onExport} className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded border hover:bg-accent">
+        <Download className="h-3 w-3" /> CSV
+      </button>
+    </div>
+    <div className="max-h-80 overflow-auto">{children}</div>
+  </div>
+)
+
+const KeyTable = ({ keys }: { keys: RedisKeySample[] }) => keys.length === 0 ? (
+  <p className="text-[11px] text-muted-foreground py-4 text-center">No keys</p>
+) : (
+  <table className="w-full text-[11px]">
+    <thead className="sticky top-0 bg-card"><tr className="border-b">
+      <th className="text-left px-3 py-1.5 font-medium">Key</th>
+      <th className="text-left px-3 py-1.5 font-medium w-16">Type</th>
+      <th className="text-right px-3 py-1.5 font-medium w-24">Size</th>
+      <th className="text-right px-3 py-1.5 font-medium w-24">Length</th>
+      <th className="text-right px-3 py-1.5 font-medium w-16">TTL</th>
+    </tr></thead>
+    <tbody>
+      {keys.map(k => (
+        <tr key={k.key} className="border-b last:border-0 hover:bg-muted/20">
+          <td className="px-3 py-1 font-mono truncate max-w-[360px]" title={k.key}>{k.key}</td>
+          <td className="px-3 py-1 text-muted-foreground">{k.type}</td>
+          <td className="px-3 py-1 text-right font-mono">{formatBytes(k.bytes)}</td>
+          <td className="px-3 py-1 text-right font-mono">{k.length.toLocaleString()}</td>
+          <td className="px-3 py-1 text-right font-mono text-muted-foreground">{formatTtl(k.ttlMs)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+)
+
+const GroupTable = ({ groups, total, label }: { groups: RedisMemoryGroup[]; total: number; label: string }) => groups.length === 0 ? (
+  <p className="text-[11px] text-muted-foreground py-4 text-center">No keys</p>
+) : (
+  <table className="w-full text-[11px]">
+    <thead className="sticky top-0 bg-card"><tr className="border-b">
+      <th className="text-left px-3 py-1.5 font-medium">{label}</th>
+      <th className="text-right px-3 py-1.5 font-medium w-20">Keys</th>
+      <th className="text-right px-3 py-1.5 font-medium w-24">Size</th>
+      <th className="px-3 py-1.5 font-medium w-28" />
+    </tr></thead>
+    <tbody>
+      {groups.map(g => {
+        const share = total > 0 ? (g.bytes / total) * 100 : 0
+        return (
+          <tr key={g.name} className="border-b last:border-0 hover:bg-muted/20">
+            <td className="px-3 py-1 font-mono truncate max-w-[220px]" title={g.name}>{g.name}</td>
+            <td className="px-3 py-1 text-right font-mono">{g.keys.toLocaleString()}</td>
+            <td className="px-3 py-1 text-right font-mono">{formatBytes(g.bytes)}</td>
+            <td className="px-3 py-1">
+              <div className="flex items-center gap-1.5">
+                <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-red-400/70" style={{ width: `${share}%` }} />
+                </div>
+                <span className="text-[10px] text-muted-foreground w-8 text-right">{share.toFixed(0)}%</span>
+              </div>
+            </td>
+          </tr>
+        )
+      })}
+    </tbody>
+  </table>
+)
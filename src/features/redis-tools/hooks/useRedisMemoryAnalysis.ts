@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { databaseService } from '@/services/database.service'
+import { useToast } from '@/components/common/Toast'
+import type { RedisMemoryAnalysisOptions, RedisMemoryAnalysisProgress } from '@/utils/redisMemory'
+
+/** A keyspace memory analysis in the main process: the report fills in while the scan runs */
+export function useRedisMemoryAnalysis(connectionId: string | null) {
+  const tt = useToast()
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<RedisMemoryAnalysisProgress | null>(null)
+  const [database, setDatabase] = useState<string | null>(null)
+  const analysisIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return databaseService.onRedisMemoryAnalysisProgress((event) => {
+      if (event.analysisId !== analysisIdRef.current) return
+      setProgress(event)
+      if (!event.done) return
+      analysisIdRef.current = null
+      setRunning(false)
+      if (event.error) tt.error('Memory analysis failed: ' + event.error)
+    })
+  }, [tt])
+
+  const cancel = useCallback(async () => {
+    const analysisId = analysisIdRef.current
+    if (analysisId) await databaseService.redisCancelMemoryAnalysis(analysisId).catch(() => {})
+  }, [])
+
+  const start = useCallback(async (nextDatabase: string, options: RedisMemoryAnalysisOptions) => {
+    if (!connectionId) return
+    await cancel()
+    const analysisId = crypto.randomUUID()
+    analysisIdRef.current = analysisId
+    setDatabase(nextDatabase)
+    setProgress(null)
+    setRunning(true)
+    try {
+      const result = await databaseService.redisStartMemoryAnalysis(analysisId, connectionId, nextDatabase, options)
+      if (!result.success) throw new Error(result.error)
+    } catch (error: any) {
+      if (analysisIdRef.current === analysisId) { analysisIdRef.current = null; setRunning(false) }
+      tt.error('Failed to start the analysis: ' + error.message)
+    }
+  }, [connectionId, cancel, tt])
+
+  // Leaving the view or switching connection cancels a running analysis
+  useEffect(() => () => { cancel() }, [connectionId, cancel])
+
+  return { running, progress, database, start, cancel }
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Terminal, Users, Trash2, Clock, RefreshCw, Layers, Radio, Send, X } from 'lucide-react'
+import { Terminal, Users, Trash2, Clock, RefreshCw, Layers, Radio, Send, X, HardDrive, FileCode2 } from 'lucide-react'
 import { useConnectionStore } from '@/store/connectionStore'
 import { databaseService } from '@/services/database.service'
 import { useToast } from '@/components/common/Toast'
+import { MemoryAnalysisTab } from '../components/MemoryAnalysisTab'
+import { LuaWorkbenchTab } from '../components/LuaWorkbenchTab'
 
-type Tab = 'slowlog' | 'clients' | 'bulk' | 'pubsub'
+type Tab = 'slowlog' | 'clients' | 'bulk' | 'pubsub' | 'memory' | 'lua'
 
 export const RedisToolsPage = () => {
   const { activeConnectionId, getActiveConnection, selectedDatabase } = useConnectionStore()
@@ -29,6 +31,8 @@ export const RedisToolsPage = () => {
     { id: 'clients', label: 'Client List', icon: Users },
     { id: 'bulk', label: 'Bulk Operations', icon: Trash2 },
     { id: 'pubsub', label: 'Pub/Sub', icon: Radio },
+    { id: 'memory', label: 'Memory', icon: HardDrive },
+    { id: 'lua', label: 'Lua Scripts', icon: FileCode2 },
   ]
 
   return (
@@ -48,6 +52,8 @@ export const RedisToolsPage = () => {
         {tab === 'clients' && <ClientListTab connectionId={activeConnectionId} tt={tt} />}
         {tab === 'bulk' && <BulkOpsTab connectionId={activeConnectionId} database={selectedDatabase || 'db0'} tt={tt} />}
         {tab === 'pubsub' && <PubSubTab connectionId={activeConnectionId} tt={tt} />}
+        {tab === 'memory' && <MemoryAnalysisTab connectionId={activeConnectionId} database={selectedDatabase || 'db0'} tt={tt} />}
+        {tab === 'lua' && <LuaWorkbenchTab connectionId={activeConnectionId} database={selectedDatabase || 'db0'} tt={tt} />}
       </div>
     </div>
   )
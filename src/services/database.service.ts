@@ -1,14 +1,26 @@
 /**
  * Unified Database Service
- * Routes to the correct service (MongoDB, PostgreSQL, Redis, or Kafka) based on connection type
+ * Routes to the correct service (MongoDB, PostgreSQL, MySQL, SQL Server, SQLite, Redis, or Kafka) based on connection type
  */
 
 import { mongodbService } from './mongodb.service'
 import { postgresqlService } from './postgresql.service'
+import { mysqlService } from './mysql.service'
+import { sqliteService } from './sqlite.service'
+import { mssqlService } from './mssql.service'
 import { redisService } from './redis.service'
 import { kafkaService } from './kafka.service'
 import { useConnectionStore } from '@/store/connectionStore'
-import type { DatabaseType } from '@/types'
+import { toBulkWriteOperations, toSqlStatements, type StagedChange } from '@/utils/stagedChanges'
+import type { KafkaAcl, KafkaAclFilter } from '@/utils/kafkaAcls'
+import type { KafkaConsumeOptions } from '@/utils/kafkaBrowse'
+import type { OffsetResetSpec } from '@/utils/kafkaOffsetReset'
+import type { ReplicaAssignment } from '@/utils/kafkaPartitions'
+import type { KafkaReplayOptions, KafkaReplayProgress, KafkaReplaySelection } from '@/utils/kafkaReplay'
+import type { KafkaBulkProduceOptions, KafkaBulkProduceProgress, KafkaBulkSource } from '@/utils/kafkaProduce'
+import type { KafkaSearchOptions, KafkaSearchProgress } from '@/utils/kafkaSearch'
+import type { RedisMemoryAnalysisOptions, RedisMemoryAnalysisProgress } from '@/utils/redisMemory'
+import type { DatabaseType, KafkaConnectOptions, RedisConnectOptions } from '@/types'
 
 class DatabaseService {
   /** Get the active connection's database type */
@@ -18,16 +30,25 @@ class DatabaseService {
     return conn?.type || 'mongodb'
   }
 
-  async connect(connectionId: string, connectionString: string, type: DatabaseType, sshTunnel?: any): Promise<any> {
+  async connect(
+    connectionId: string, connectionString: string, type: DatabaseType, sshTunnel?: any,
+    kafkaOptions?: KafkaConnectOptions, redisOptions?: RedisConnectOptions
+  ): Promise<any> {
     if (type === 'postgresql') return postgresqlService.connect(connectionId, connectionString, sshTunnel)
-    if (type === 'redis') return redisService.connect(connectionId, connectionString, sshTunnel)
-    if (type === 'kafka') return kafkaService.connect(connectionId, connectionString, sshTunnel)
+    if (type === 'mysql') return mysqlService.connect(connectionId, connectionString, sshTunnel)
+    if (type === 'mssql') return mssqlService.connect(connectionId, connectionString, sshTunnel)
+    if (type === 'sqlite') return sqliteService.connect(connectionId, connectionString)
+    if (type === 'redis') return redisService.connect(connectionId, connectionString, sshTunnel, redisOptions)
+    if (type === 'kafka') return kafkaService.connect(connectionId, connectionString, sshTunnel, kafkaOptions)
     return mongodbService.connect(connectionId, connectionString, sshTunnel)
   }
 
   async disconnect(connectionId: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.disconnect(connectionId)
+    if (dbType === 'mysql') return mysqlService.disconnect(connectionId)
+    if (dbType === 'mssql') return mssqlService.disconnect(connectionId)
+    if (dbType === 'sqlite') return sqliteService.disconnect(connectionId)
     if (dbType === 'redis') return redisService.disconnect(connectionId)
     if (dbType === 'kafka') return kafkaService.disconnect(connectionId)
     return mongodbService.disconnect(connectionId)
@@ -36,15 +57,34 @@ class DatabaseService {
   async listDatabases(connectionId: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.listDatabases(connectionId)
+    if (dbType === 'mysql') return mysqlService.listDatabases(connectionId)
+    if (dbType === 'mssql') return mssqlService.listDatabases(connectionId)
+    if (dbType === 'sqlite') return sqliteService.listDatabases(connectionId)
     if (dbType === 'redis') return redisService.listDatabases(connectionId)
     if (dbType === 'kafka') return kafkaService.listTopics(connectionId)
     return mongodbService.listDatabases(connectionId)
   }
 
-  /** List collections (MongoDB), tables (PostgreSQL), keys (Redis), or topics (Kafka) */
+  /** List schemas of a database (PostgreSQL / SQL Server) */
+  async listSchemas(connectionId: string, database: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.listSchemas(connectionId, database)
+    if (dbType === 'mssql') return mssqlService.listSchemas(connectionId, database)
+    return { success: false, error: `Schemas not supported for ${dbType}` }
+  }
+
+  /** List functions and procedures in a PostgreSQL schema */
+  async pgListFunctions(connectionId: string, database: string, schema: string): Promise<any> {
+    return postgresqlService.listFunctions(connectionId, database, schema)
+  }
+
+  /** List collections (MongoDB), tables (PostgreSQL/MySQL/SQL Server/SQLite), keys (Redis), or topics (Kafka) */
   async listCollections(connectionId: string, database: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.listTables(connectionId, database)
+    if (dbType === 'mysql') return mysqlService.listTables(connectionId, database)
+    if (dbType === 'mssql') return mssqlService.listTables(connectionId, database)
+    if (dbType === 'sqlite') return sqliteService.listTables(connectionId, database)
     if (dbType === 'redis') return redisService.listKeys(connectionId, database)
     if (dbType === 'kafka') return kafkaService.listTopics(connectionId)
     return mongodbService.listCollections(connectionId, database)
@@ -65,6 +105,24 @@ class DatabaseService {
       }
       return postgresqlService.findQuery(connectionId, database, collection, query, options)
     }
+    if (dbType === 'mysql') {
+      if (typeof query === 'string') {
+        return mysqlService.executeQuery(connectionId, database, collection, query, options)
+      }
+      return mysqlService.findQuery(connectionId, database, collection, query, options)
+    }
+    if (dbType === 'mssql') {
+      if (typeof query === 'string') {
+        return mssqlService.executeQuery(connectionId, database, collection, query, options)
+      }
+      return mssqlService.findQuery(connectionId, database, collection, query, options)
+    }
+    if (dbType === 'sqlite') {
+      if (typeof query === 'string') {
+        return sqliteService.executeQuery(connectionId, database, collection, query, options)
+      }
+      return sqliteService.findQuery(connectionId, database, collection, query, options)
+    }
     if (dbType === 'redis') {
       // For Redis: if query is a string, execute as raw command
       if (typeof query === 'string') {
@@ -75,11 +133,114 @@ class DatabaseService {
     }
     if (dbType === 'kafka') {
       // For Kafka: consume messages from topic
-      return kafkaService.consumeMessages(connectionId, collection, options?.limit || 50, options?.fromBeginning !== false)
+      return kafkaService.consumeMessages(connectionId, collection, {
+        from: options?.fromBeginning === false ? 'end' : 'beginning',
+        limit: options?.limit || 50,
+      })
     }
     return mongodbService.executeQuery(connectionId, database, collection, query, options)
   }
 
+  /**
+   * Run SQL statements in order on one session, stopping at the first failure. SQLite has a single
+   * connection anyway, so its statements go one executeQuery at a time.
+   */
+  async executeScript(connectionId: string, database: string, statements: string[], type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.executeScript(connectionId, database, statements)
+    if (dbType === 'mysql') return mysqlService.executeScript(connectionId, database, statements)
+    if (dbType === 'mssql') return mssqlService.executeScript(connectionId, database, statements)
+
+    const results = []
+    for (const statement of statements) {
+      const startTime = Date.now()
+      const result = await this.executeQuery(connectionId, database, '', statement, undefined, dbType)
+      results.push({
+        success: !!result.success,
+        documents: result.documents || [],
+        rowCount: result.totalCount,
+        error: result.error,
+        executionTime: Date.now() - startTime,
+      })
+      if (!result.success) break
+    }
+    return { success: true, results }
+  }
+
+  /* ── Streaming cursors (MongoDB / PostgreSQL) ── */
+
+  /**
+   * Open a server-side cursor — `query` is a filter object for MongoDB, SQL text for PostgreSQL.
+   * PostgreSQL takes `options.session` to stream on a Query Editor session.
+   */
+  async openCursor(
+    connectionId: string,
+    database: string,
+    collection: string,
+    query: any,
+    options?: any,
+    type?: DatabaseType
+  ): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.openCursor(connectionId, database, query, options?.session)
+    if (dbType === 'mongodb') return mongodbService.openCursor(connectionId, database, collection, query, options)
+    return { success: false, error: `Streaming not supported for ${dbType}` }
+  }
+
+  async fetchNext(cursorId: string, batchSize?: number, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.fetchNext(cursorId, batchSize)
+    return mongodbService.fetchNext(cursorId, batchSize)
+  }
+
+  async closeCursor(cursorId: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.closeCursor(cursorId)
+    return mongodbService.closeCursor(cursorId)
+  }
+
+  /** Kill the server-side operation behind a cursor (killOp / pg_cancel_backend) */
+  async cancelCursor(cursorId: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.cancelCursor(cursorId)
+    return mongodbService.cancelCursor(cursorId)
+  }
+
+  /* ── SQL sessions (PostgreSQL) ── */
+
+  /** Pin a connection to a Query Editor tab; statements, cursors and transactions on it share one backend */
+  async openSession(connectionId: string, database: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.openSession(connectionId, database)
+    return { success: false, error: `Sessions not supported for ${dbType}` }
+  }
+
+  /** Run statements on a session; with autoCommit off the first one opens a transaction */
+  async sessionExecute(sessionId: string, statements: string[], autoCommit: boolean, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.sessionExecute(sessionId, statements, autoCommit)
+    return { success: false, error: `Sessions not supported for ${dbType}` }
+  }
+
+  async endTransaction(sessionId: string, commit: boolean, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.endTransaction(sessionId, commit)
+    return { success: false, error: `Sessions not supported for ${dbType}` }
+  }
+
+  async sessionStatus(sessionId: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.sessionStatus(sessionId)
+    return { success: false, error: `Sessions not supported for ${dbType}` }
+  }
+
+  /** Close a session; an open transaction on it is rolled back */
+  async closeSession(sessionId: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.closeSession(sessionId)
+    return { success: true }
+  }
+
   async insertDocument(
     connectionId: string,
     database: string,
@@ -89,6 +250,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.insertDocument(connectionId, database, collection, document)
+    if (dbType === 'mysql') return mysqlService.insertDocument(connectionId, database, collection, document)
+    if (dbType === 'mssql') return mssqlService.insertDocument(connectionId, database, collection, document)
+    if (dbType === 'sqlite') return sqliteService.insertDocument(connectionId, database, collection, document)
     if (dbType === 'redis') {
       // For Redis: document should have { key, value, type?, ttl? }
       return redisService.setKey(connectionId, database, document.key || collection, document.value, document.type, document.ttl)
@@ -111,6 +275,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.updateDocument(connectionId, database, collection, filter, update)
+    if (dbType === 'mysql') return mysqlService.updateDocument(connectionId, database, collection, filter, update)
+    if (dbType === 'mssql') return mssqlService.updateDocument(connectionId, database, collection, filter, update)
+    if (dbType === 'sqlite') return sqliteService.updateDocument(connectionId, database, collection, filter, update)
     if (dbType === 'redis') {
       // For Redis: update a key's value
       return redisService.setKey(connectionId, database, collection, update.value, update.type, update.ttl)
@@ -128,11 +295,43 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.deleteDocument(connectionId, database, collection, filter)
+    if (dbType === 'mysql') return mysqlService.deleteDocument(connectionId, database, collection, filter)
+    if (dbType === 'mssql') return mssqlService.deleteDocument(connectionId, database, collection, filter)
+    if (dbType === 'sqlite') return sqliteService.deleteDocument(connectionId, database, collection, filter)
     if (dbType === 'redis') return redisService.deleteKey(connectionId, database, collection)
     if (dbType === 'kafka') return kafkaService.deleteTopic(connectionId, collection)
     return mongodbService.deleteDocument(connectionId, database, collection, filter)
   }
 
+  /** Apply staged Data Viewer changes: one transaction on PostgreSQL, on MongoDB one where the deployment supports it */
+  async applyStagedChanges(
+    connectionId: string,
+    database: string,
+    collection: string,
+    changes: StagedChange[],
+    type?: DatabaseType
+  ): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType !== 'postgresql' && dbType !== 'mongodb') return { success: false, error: `Staged edits not supported for ${dbType}` }
+    // Convert change by change so a failing statement can be traced back to the change that produced it
+    const owners: number[] = []
+    const converted = changes.flatMap((change, i) => {
+      const items: any[] = dbType === 'postgresql' ? toSqlStatements([change], collection) : toBulkWriteOperations([change])
+      items.forEach(() => owners.push(i))
+      return items
+    })
+    if (converted.length === 0) return { success: true }
+    const result = dbType === 'postgresql'
+      ? await postgresqlService.applyChanges(connectionId, database, converted)
+      : await mongodbService.bulkWrite(connectionId, database, collection, converted)
+    if (!result.success) {
+      if (result.failedIndex !== undefined) result.failedIndex = owners[result.failedIndex]
+      if (result.staleIndexes) result.staleIndexes = result.staleIndexes.map((i: number) => owners[i])
+      if (result.appliedIndexes) result.appliedIndexes = result.appliedIndexes.map((i: number) => owners[i])
+    }
+    return result
+  }
+
   async updateMany(
     connectionId: string,
     database: string,
@@ -143,6 +342,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.updateMany(connectionId, database, collection, filter, update)
+    if (dbType === 'mysql') return mysqlService.updateMany(connectionId, database, collection, filter, update)
+    if (dbType === 'mssql') return mssqlService.updateMany(connectionId, database, collection, filter, update)
+    if (dbType === 'sqlite') return sqliteService.updateMany(connectionId, database, collection, filter, update)
     return mongodbService.updateMany(connectionId, database, collection, filter, update)
   }
 
@@ -155,6 +357,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.deleteMany(connectionId, database, collection, filter)
+    if (dbType === 'mysql') return mysqlService.deleteMany(connectionId, database, collection, filter)
+    if (dbType === 'mssql') return mssqlService.deleteMany(connectionId, database, collection, filter)
+    if (dbType === 'sqlite') return sqliteService.deleteMany(connectionId, database, collection, filter)
     return mongodbService.deleteMany(connectionId, database, collection, filter)
   }
 
@@ -167,6 +372,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.countRows(connectionId, database, collection, filter)
+    if (dbType === 'mysql') return mysqlService.countRows(connectionId, database, collection, filter)
+    if (dbType === 'mssql') return mssqlService.countRows(connectionId, database, collection, filter)
+    if (dbType === 'sqlite') return sqliteService.countRows(connectionId, database, collection, filter)
     return mongodbService.countDocuments(connectionId, database, collection, filter)
   }
 
@@ -179,6 +387,9 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.aggregate(connectionId, database, collection, pipeline)
+    if (dbType === 'mysql') return mysqlService.aggregate(connectionId, database, collection, pipeline)
+    if (dbType === 'mssql') return mssqlService.aggregate(connectionId, database, collection, pipeline)
+    if (dbType === 'sqlite') return sqliteService.aggregate(connectionId, database, collection, pipeline)
     if (dbType === 'redis') {
       // For Redis, execute as raw command
       if (typeof pipeline === 'string') {
@@ -198,12 +409,34 @@ class DatabaseService {
   ): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.getTableSchema(connectionId, database, collection)
+    if (dbType === 'mysql') return mysqlService.getTableSchema(connectionId, database, collection)
+    if (dbType === 'mssql') return mssqlService.getTableSchema(connectionId, database, collection)
+    if (dbType === 'sqlite') return sqliteService.getTableSchema(connectionId, database, collection)
     if (dbType === 'redis') return redisService.getKeyValue(connectionId, database, collection)
     if (dbType === 'kafka') return kafkaService.getTopicMetadata(connectionId, collection)
     return mongodbService.getCollectionStats(connectionId, database, collection)
   }
 
+  /** Column metadata for SQL tables (information_schema shape) */
+  async getTableSchema(connectionId: string, database: string, table: string, type?: DatabaseType): Promise<any> {
+    const dbType = type || this.getActiveType()
+    if (dbType === 'postgresql') return postgresqlService.getTableSchema(connectionId, database, table)
+    if (dbType === 'mysql') return mysqlService.getTableSchema(connectionId, database, table)
+    if (dbType === 'mssql') return mssqlService.getTableSchema(connectionId, database, table)
+    if (dbType === 'sqlite') return sqliteService.getTableSchema(connectionId, database, table)
+    return { success: false, error: `Table schema not supported for ${dbType}` }
+  }
+
+  /* ── MongoDB-specific methods ── */
+  async mongoRunScript(connectionId: string, database: string, script: string): Promise<any> {
+    return mongodbService.runScript(connectionId, database, script)
+  }
+
   /* ── Redis-specific methods ── */
+  async redisScanKeys(connectionId: string, database: string, options: { pattern?: string; type?: string; cursor?: string; count?: number } = {}): Promise<any> {
+    return redisService.listKeys(connectionId, database, options.pattern, options.count, options.cursor, options.type)
+  }
+
   async redisGetKeyValue(connectionId: string, database: string, key: string): Promise<any> {
     return redisService.getKeyValue(connectionId, database, key)
   }
@@ -225,12 +458,84 @@ class DatabaseService {
   }
 
   /* ── Kafka-specific methods ── */
-  async kafkaConsumeMessages(connectionId: string, topic: string, limit?: number, fromBeginning?: boolean): Promise<any> {
-    return kafkaService.consumeMessages(connectionId, topic, limit, fromBeginning)
+  async kafkaConsumeMessages(connectionId: string, topic: string, options: KafkaConsumeOptions): Promise<any> {
+    return kafkaService.consumeMessages(connectionId, topic, options)
+  }
+
+  async kafkaStartTail(connectionId: string, tailId: string, topic: string): Promise<any> {
+    return kafkaService.startTail(connectionId, tailId, topic)
+  }
+
+  async kafkaPauseTail(tailId: string, paused: boolean): Promise<any> {
+    return kafkaService.pauseTail(tailId, paused)
+  }
+
+  async kafkaStopTail(tailId: string): Promise<any> {
+    return kafkaService.stopTail(tailId)
+  }
+
+  onKafkaTailMessages(callback: (data: { tailId: string; messages?: any[]; error?: string }) => void): () => void {
+    return kafkaService.onTailMessages(callback)
+  }
+
+  async kafkaStartSearch(connectionId: string, searchId: string, topic: string, options: KafkaSearchOptions): Promise<any> {
+    return kafkaService.startSearch(connectionId, searchId, topic, options)
+  }
+
+  async kafkaCancelSearch(searchId: string): Promise<any> {
+    return kafkaService.cancelSearch(searchId)
+  }
+
+  onKafkaSearchProgress(callback: (data: KafkaSearchProgress) => void): () => void {
+    return kafkaService.onSearchProgress(callback)
+  }
+
+  async kafkaStartReplay(
+    replayId: string, source: { connectionId: string; topic: string }, destination: { connectionId: string; topic: string },
+    selection: KafkaReplaySelection, options: KafkaReplayOptions
+  ): Promise<any> {
+    return kafkaService.startReplay(replayId, source, destination, selection, options)
+  }
+
+  async kafkaCancelReplay(replayId: string): Promise<any> {
+    return kafkaService.cancelReplay(replayId)
   }
 
-  async kafkaProduceMessage(connectionId: string, topic: string, messages: Array<{ key?: string; value: string }>): Promise<any> {
-    return kafkaService.produceMessage(connectionId, topic, messages)
+  onKafkaReplayProgress(callback: (data: KafkaReplayProgress) => void): () => void {
+    return kafkaService.onReplayProgress(callback)
+  }
+
+  async kafkaProduceMessage(
+    connectionId: string, topic: string, messages: Array<{ key?: string; value: string; headers?: Record<string, string> }>,
+    schema?: { subject: string; version?: number }
+  ): Promise<any> {
+    return kafkaService.produceMessage(connectionId, topic, messages, schema)
+  }
+
+  async kafkaStartBulkProduce(
+    produceId: string, connectionId: string, topic: string, source: KafkaBulkSource, options: KafkaBulkProduceOptions
+  ): Promise<any> {
+    return kafkaService.startBulkProduce(produceId, connectionId, topic, source, options)
+  }
+
+  async kafkaCancelBulkProduce(produceId: string): Promise<any> {
+    return kafkaService.cancelBulkProduce(produceId)
+  }
+
+  onKafkaBulkProduceProgress(callback: (data: KafkaBulkProduceProgress) => void): () => void {
+    return kafkaService.onBulkProduceProgress(callback)
+  }
+
+  async kafkaListSubjects(connectionId: string): Promise<any> {
+    return kafkaService.listSubjects(connectionId)
+  }
+
+  async kafkaGetSubjectVersions(connectionId: string, subject: string): Promise<any> {
+    return kafkaService.getSubjectVersions(connectionId, subject)
+  }
+
+  async kafkaGetSchema(connectionId: string, subject: string, version: number | 'latest'): Promise<any> {
+    return kafkaService.getSchema(connectionId, subject, version)
   }
 
   async kafkaCreateTopic(connectionId: string, topic: string, numPartitions?: number, replicationFactor?: number): Promise<any> {
@@ -241,6 +546,18 @@ class DatabaseService {
     return kafkaService.deleteTopic(connectionId, topic)
   }
 
+  async kafkaCreatePartitions(connectionId: string, topic: string, count: number): Promise<any> {
+    return kafkaService.createPartitions(connectionId, topic, count)
+  }
+
+  async kafkaReassignPartitions(connectionId: string, topic: string, assignments: ReplicaAssignment[]): Promise<any> {
+    return kafkaService.reassignPartitions(connectionId, topic, assignments)
+  }
+
+  async kafkaListReassignments(connectionId: string, topic?: string): Promise<any> {
+    return kafkaService.listReassignments(connectionId, topic)
+  }
+
   async kafkaGetClusterInfo(connectionId: string): Promise<any> {
     return kafkaService.getClusterInfo(connectionId)
   }
@@ -257,8 +574,8 @@ class DatabaseService {
     return kafkaService.getConsumerGroupOffsets(connectionId, groupId, topic)
   }
 
-  async kafkaResetConsumerGroupOffsets(connectionId: string, groupId: string, topic: string, earliest: boolean): Promise<any> {
-    return kafkaService.resetConsumerGroupOffsets(connectionId, groupId, topic, earliest)
+  async kafkaResetConsumerGroupOffsets(connectionId: string, groupId: string, topic: string, spec: OffsetResetSpec, dryRun?: boolean): Promise<any> {
+    return kafkaService.resetConsumerGroupOffsets(connectionId, groupId, topic, spec, dryRun)
   }
 
   async kafkaDeleteConsumerGroup(connectionId: string, groupId: string): Promise<any> {
@@ -273,6 +590,18 @@ class DatabaseService {
     return kafkaService.alterTopicConfig(connectionId, topic, configEntries)
   }
 
+  async kafkaDescribeAcls(connectionId: string, filter?: KafkaAclFilter): Promise<any> {
+    return kafkaService.describeAcls(connectionId, filter)
+  }
+
+  async kafkaCreateAcls(connectionId: string, acls: KafkaAcl[]): Promise<any> {
+    return kafkaService.createAcls(connectionId, acls)
+  }
+
+  async kafkaDeleteAcls(connectionId: string, acls: KafkaAcl[]): Promise<any> {
+    return kafkaService.deleteAcls(connectionId, acls)
+  }
+
   async kafkaGetStats(connectionId: string): Promise<any> {
     return kafkaService.getStats(connectionId)
   }
@@ -281,6 +610,8 @@ class DatabaseService {
   async createDatabase(connectionId: string, database: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.createDatabase(connectionId, database)
+    if (dbType === 'mysql') return mysqlService.createDatabase(connectionId, database)
+    if (dbType === 'mssql') return mssqlService.createDatabase(connectionId, database)
     if (dbType === 'mongodb') return mongodbService.createDatabase(connectionId, database)
     return { success: false, error: `Create database not supported for ${dbType}` }
   }
@@ -288,6 +619,8 @@ class DatabaseService {
   async dropDatabase(connectionId: string, database: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.dropDatabase(connectionId, database)
+    if (dbType === 'mysql') return mysqlService.dropDatabase(connectionId, database)
+    if (dbType === 'mssql') return mssqlService.dropDatabase(connectionId, database)
     if (dbType === 'mongodb') return mongodbService.dropDatabase(connectionId, database)
     if (dbType === 'redis') return redisService.flushDatabase(connectionId, database)
     return { success: false, error: `Drop database not supported for ${dbType}` }
@@ -296,6 +629,9 @@ class DatabaseService {
   async createCollection(connectionId: string, database: string, name: string, options?: any, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.createTable(connectionId, database, name, options?.columns || [])
+    if (dbType === 'mysql') return mysqlService.createTable(connectionId, database, name, options?.columns || [])
+    if (dbType === 'mssql') return mssqlService.createTable(connectionId, database, name, options?.columns || [])
+    if (dbType === 'sqlite') return sqliteService.createTable(connectionId, database, name, options?.columns || [])
     if (dbType === 'mongodb') return mongodbService.createCollection(connectionId, database, name, options)
     if (dbType === 'kafka') return kafkaService.createTopic(connectionId, name, options?.numPartitions, options?.replicationFactor)
     if (dbType === 'redis') return redisService.setKey(connectionId, database, name, options?.value ?? '', options?.keyType || 'string', options?.ttl)
@@ -305,6 +641,9 @@ class DatabaseService {
   async dropCollection(connectionId: string, database: string, name: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.dropTable(connectionId, database, name)
+    if (dbType === 'mysql') return mysqlService.dropTable(connectionId, database, name)
+    if (dbType === 'mssql') return mssqlService.dropTable(connectionId, database, name)
+    if (dbType === 'sqlite') return sqliteService.dropTable(connectionId, database, name)
     if (dbType === 'mongodb') return mongodbService.dropCollection(connectionId, database, name)
     if (dbType === 'kafka') return kafkaService.deleteTopic(connectionId, name)
     if (dbType === 'redis') return redisService.deleteKey(connectionId, database, name)
@@ -314,6 +653,9 @@ class DatabaseService {
   async renameCollection(connectionId: string, database: string, oldName: string, newName: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.renameTable(connectionId, database, oldName, newName)
+    if (dbType === 'mysql') return mysqlService.renameTable(connectionId, database, oldName, newName)
+    if (dbType === 'mssql') return mssqlService.renameTable(connectionId, database, oldName, newName)
+    if (dbType === 'sqlite') return sqliteService.renameTable(connectionId, database, oldName, newName)
     if (dbType === 'mongodb') return mongodbService.renameCollection(connectionId, database, oldName, newName)
     if (dbType === 'redis') return redisService.renameKey(connectionId, database, oldName, newName)
     return { success: false, error: `Rename not supported for ${dbType}` }
@@ -323,6 +665,9 @@ class DatabaseService {
   async listIndexes(connectionId: string, database: string, collection: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.listIndexes(connectionId, database, collection)
+    if (dbType === 'mysql') return mysqlService.listIndexes(connectionId, database, collection)
+    if (dbType === 'mssql') return mssqlService.listIndexes(connectionId, database, collection)
+    if (dbType === 'sqlite') return sqliteService.listIndexes(connectionId, database, collection)
     if (dbType === 'mongodb') return mongodbService.listIndexes(connectionId, database, collection)
     return { success: false, error: `Index management not supported for ${dbType}` }
   }
@@ -330,13 +675,19 @@ class DatabaseService {
   async createIndex(connectionId: string, database: string, collection: string, keys: any, options?: any, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.createIndex(connectionId, database, collection, options?.name || `idx_${collection}_${Date.now()}`, Array.isArray(keys) ? keys : Object.keys(keys), options)
+    if (dbType === 'mysql') return mysqlService.createIndex(connectionId, database, collection, options?.name || `idx_${collection}_${Date.now()}`, Array.isArray(keys) ? keys : Object.keys(keys), options)
+    if (dbType === 'mssql') return mssqlService.createIndex(connectionId, database, collection, options?.name || `idx_${collection}_${Date.now()}`, Array.isArray(keys) ? keys : Object.keys(keys), options)
+    if (dbType === 'sqlite') return sqliteService.createIndex(connectionId, database, collection, options?.name || `idx_${collection}_${Date.now()}`, Array.isArray(keys) ? keys : Object.keys(keys), options)
     if (dbType === 'mongodb') return mongodbService.createIndex(connectionId, database, collection, keys, options)
     return { success: false, error: `Index management not supported for ${dbType}` }
   }
 
   async dropIndex(connectionId: string, database: string, collection: string, indexName: string, type?: DatabaseType): Promise<any> {
     const dbType = type || this.getActiveType()
-    if (dbType === 'postgresql') return postgresqlService.dropIndex(connectionId, database, indexName)
+    if (dbType === 'postgresql') return postgresqlService.dropIndex(connectionId, database, collection, indexName)
+    if (dbType === 'mysql') return mysqlService.dropIndex(connectionId, database, collection, indexName)
+    if (dbType === 'mssql') return mssqlService.dropIndex(connectionId, database, collection, indexName)
+    if (dbType === 'sqlite') return sqliteService.dropIndex(connectionId, database, indexName)
     if (dbType === 'mongodb') return mongodbService.dropIndex(connectionId, database, collection, indexName)
     return { success: false, error: `Index management not supported for ${dbType}` }
   }
@@ -344,6 +695,9 @@ class DatabaseService {
   async explainQuery(connectionId: string, database: string, collection: string, queryOrFilter: any, type?: string): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.explainQuery(connectionId, database, collection, queryOrFilter)
+    if (dbType === 'mysql') return mysqlService.explainQuery(connectionId, database, collection, queryOrFilter)
+    if (dbType === 'mssql') return mssqlService.explainQuery(connectionId, database, collection, queryOrFilter)
+    if (dbType === 'sqlite') return sqliteService.explainQuery(connectionId, database, collection, queryOrFilter)
     if (dbType === 'mongodb') return mongodbService.explainQuery(connectionId, database, collection, queryOrFilter)
     return { success: false, error: 'Explain not supported for this database type' }
   }
@@ -351,12 +705,24 @@ class DatabaseService {
   async getServerStats(connectionId: string, type?: string): Promise<any> {
     const dbType = type || this.getActiveType()
     if (dbType === 'postgresql') return postgresqlService.getServerStats(connectionId)
+    if (dbType === 'mysql') return mysqlService.getServerStats(connectionId)
+    if (dbType === 'mssql') return mssqlService.getServerStats(connectionId)
+    if (dbType === 'sqlite') return sqliteService.getServerStats(connectionId)
     if (dbType === 'mongodb') return mongodbService.getServerStatus(connectionId)
     if (dbType === 'redis') return redisService.getServerStats(connectionId)
     if (dbType === 'kafka') return kafkaService.getStats(connectionId)
     return { success: false, error: 'Server monitoring not supported for this database type' }
   }
 
+  /* ── SQL Server sessions ── */
+  async mssqlGetActiveSessions(connectionId: string): Promise<any> {
+    return mssqlService.getActiveSessions(connectionId)
+  }
+
+  async mssqlKillSession(connectionId: string, sessionId: number): Promise<any> {
+    return mssqlService.killSession(connectionId, sessionId)
+  }
+
   /* ── Redis Advanced methods ── */
   async redisGetSlowLog(connectionId: string, count?: number): Promise<any> {
     return redisService.getSlowLog(connectionId, count)
@@ -370,6 +736,50 @@ class DatabaseService {
     return redisService.memoryUsage(connectionId, database, key)
   }
 
+  async redisStartMemoryAnalysis(analysisId: string, connectionId: string, database: string, options: RedisMemoryAnalysisOptions): Promise<any> {
+    return redisService.startMemoryAnalysis(analysisId, connectionId, database, options)
+  }
+
+  async redisCancelMemoryAnalysis(analysisId: string): Promise<any> {
+    return redisService.cancelMemoryAnalysis(analysisId)
+  }
+
+  onRedisMemoryAnalysisProgress(callback: (data: RedisMemoryAnalysisProgress) => void): () => void {
+    return redisService.onMemoryAnalysisProgress(callback)
+  }
+
+  async redisEvalScript(connectionId: string, database: string, mode: 'eval' | 'evalsha', scriptOrSha: string, keys: string[], args: string[]): Promise<any> {
+    return redisService.evalScript(connectionId, database, mode, scriptOrSha, keys, args)
+  }
+
+  async redisCallFunction(connectionId: string, database: string, name: string, keys: string[], args: string[], readOnly?: boolean): Promise<any> {
+    return redisService.callFunction(connectionId, database, name, keys, args, readOnly)
+  }
+
+  async redisScriptLoad(connectionId: string, script: string): Promise<any> {
+    return redisService.scriptLoad(connectionId, script)
+  }
+
+  async redisScriptExists(connectionId: string, shas: string[]): Promise<any> {
+    return redisService.scriptExists(connectionId, shas)
+  }
+
+  async redisScriptFlush(connectionId: string): Promise<any> {
+    return redisService.scriptFlush(connectionId)
+  }
+
+  async redisFunctionLoad(connectionId: string, code: string, replace?: boolean): Promise<any> {
+    return redisService.functionLoad(connectionId, code, replace)
+  }
+
+  async redisFunctionList(connectionId: string): Promise<any> {
+    return redisService.functionList(connectionId)
+  }
+
+  async redisFunctionDelete(connectionId: string, library: string): Promise<any> {
+    return redisService.functionDelete(connectionId, library)
+  }
+
   async redisBulkDelete(connectionId: string, database: string, pattern: string): Promise<any> {
     return redisService.bulkDelete(connectionId, database, pattern)
   }
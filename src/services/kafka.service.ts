@@ -3,6 +3,15 @@
  * Calls Electron IPC for Kafka operations
  */
 
+import type { KafkaConnectOptions } from '@/types'
+import type { KafkaAcl, KafkaAclFilter } from '@/utils/kafkaAcls'
+import type { KafkaConsumeOptions } from '@/utils/kafkaBrowse'
+import type { OffsetResetSpec } from '@/utils/kafkaOffsetReset'
+import type { ReplicaAssignment } from '@/utils/kafkaPartitions'
+import type { KafkaReplayOptions, KafkaReplayProgress, KafkaReplaySelection } from '@/utils/kafkaReplay'
+import type { KafkaBulkProduceOptions, KafkaBulkProduceProgress, KafkaBulkSource } from '@/utils/kafkaProduce'
+import type { KafkaSearchOptions, KafkaSearchProgress } from '@/utils/kafkaSearch'
+
 class KafkaService {
   private async callElectronAPI<T>(method: string, ...args: any[]): Promise<T> {
     if (!window.electronAPI) {
@@ -11,8 +20,8 @@ class KafkaService {
     return (window.electronAPI as any).kafka[method](...args)
   }
 
-  async connect(connectionId: string, connectionString: string, sshTunnel?: any): Promise<any> {
-    return this.callElectronAPI('connect', connectionId, connectionString, sshTunnel)
+  async connect(connectionId: string, connectionString: string, sshTunnel?: any, options?: KafkaConnectOptions): Promise<any> {
+    return this.callElectronAPI('connect', connectionId, connectionString, sshTunnel, options)
   }
 
   async disconnect(connectionId: string): Promise<any> {
@@ -27,12 +36,94 @@ class KafkaService {
     return this.callElectronAPI('getTopicMetadata', connectionId, topic)
   }
 
-  async consumeMessages(connectionId: string, topic: string, limit?: number, fromBeginning?: boolean): Promise<any> {
-    return this.callElectronAPI('consumeMessages', connectionId, topic, limit || 50, fromBeginning !== false)
+  async consumeMessages(connectionId: string, topic: string, options: KafkaConsumeOptions): Promise<any> {
+    return this.callElectronAPI('consumeMessages', connectionId, topic, options)
+  }
+
+  /* ── Live Tail ── */
+  async startTail(connectionId: string, tailId: string, topic: string): Promise<any> {
+    return this.callElectronAPI('startTail', connectionId, tailId, topic)
+  }
+
+  async pauseTail(tailId: string, paused: boolean): Promise<any> {
+    return this.callElectronAPI('pauseTail', tailId, paused)
+  }
+
+  async stopTail(tailId: string): Promise<any> {
+    return this.callElectronAPI('stopTail', tailId)
+  }
+
+  onTailMessages(callback: (data: { tailId: string; messages?: any[]; error?: string }) => void): () => void {
+    if (!window.electronAPI) return () => {}
+    return (window.electronAPI as any).kafka.onTailMessages(callback)
+  }
+
+  /* ── Search ── */
+  async startSearch(connectionId: string, searchId: string, topic: string, options: KafkaSearchOptions): Promise<any> {
+    return this.callElectronAPI('startSearch', connectionId, searchId, topic, options)
+  }
+
+  async cancelSearch(searchId: string): Promise<any> {
+    return this.callElectronAPI('cancelSearch', searchId)
+  }
+
+  onSearchProgress(callback: (data: KafkaSearchProgress) => void): () => void {
+    if (!window.electronAPI) return () => {}
+    return (window.electronAPI as any).kafka.onSearchProgress(callback)
+  }
+
+  /* ── Replay ── */
+  async startReplay(
+    replayId: string, source: { connectionId: string; topic: string }, destination: { connectionId: string; topic: string },
+    selection: KafkaReplaySelection, options: KafkaReplayOptions
+  ): Promise<any> {
+    return this.callElectronAPI('startReplay', replayId, source, destination, selection, options)
+  }
+
+  async cancelReplay(replayId: string): Promise<any> {
+    return this.callElectronAPI('cancelReplay', replayId)
+  }
+
+  onReplayProgress(callback: (data: KafkaReplayProgress) => void): () => void {
+    if (!window.electronAPI) return () => {}
+    return (window.electronAPI as any).kafka.onReplayProgress(callback)
+  }
+
+  /** With `schema`, values are JSON encoded by the Schema Registry with that subject's latest or given version */
+  async produceMessage(
+    connectionId: string, topic: string, messages: Array<{ key?: string; value: string; headers?: Record<string, string> }>,
+    schema?: { subject: string; version?: number }
+  ): Promise<any> {
+    return this.callElectronAPI('produceMessage', connectionId, topic, messages, schema)
   }
 
-  async produceMessage(connectionId: string, topic: string, messages: Array<{ key?: string; value: string; headers?: Record<string, string> }>): Promise<any> {
-    return this.callElectronAPI('produceMessage', connectionId, topic, messages)
+  /* ── Bulk produce ── */
+  async startBulkProduce(
+    produceId: string, connectionId: string, topic: string, source: KafkaBulkSource, options: KafkaBulkProduceOptions
+  ): Promise<any> {
+    return this.callElectronAPI('startBulkProduce', produceId, connectionId, topic, source, options)
+  }
+
+  async cancelBulkProduce(produceId: string): Promise<any> {
+    return this.callElectronAPI('cancelBulkProduce', produceId)
+  }
+
+  onBulkProduceProgress(callback: (data: KafkaBulkProduceProgress) => void): () => void {
+    if (!window.electronAPI) return () => {}
+    return (window.electronAPI as any).kafka.onBulkProduceProgress(callback)
+  }
+
+  /* ── Schema Registry ── */
+  async listSubjects(connectionId: string): Promise<any> {
+    return this.callElectronAPI('listSubjects', connectionId)
+  }
+
+  async getSubjectVersions(connectionId: string, subject: string): Promise<any> {
+    return this.callElectronAPI('getSubjectVersions', connectionId, subject)
+  }
+
+  async getSchema(connectionId: string, subject: string, version: number | 'latest'): Promise<any> {
+    return this.callElectronAPI('getSchema', connectionId, subject, version)
   }
 
   async createTopic(connectionId: string, topic: string, numPartitions?: number, replicationFactor?: number): Promise<any> {
@@ -43,6 +134,18 @@ class KafkaService {
     return this.callElectronAPI('deleteTopic', connectionId, topic)
   }
 
+  async createPartitions(connectionId: string, topic: string, count: number): Promise<any> {
+    return this.callElectronAPI('createPartitions', connectionId, topic, count)
+  }
+
+  async reassignPartitions(connectionId: string, topic: string, assignments: ReplicaAssignment[]): Promise<any> {
+    return this.callElectronAPI('reassignPartitions', connectionId, topic, assignments)
+  }
+
+  async listReassignments(connectionId: string, topic?: string): Promise<any> {
+    return this.callElectronAPI('listReassignments', connectionId, topic)
+  }
+
   async getClusterInfo(connectionId: string): Promise<any> {
     return this.callElectronAPI('getClusterInfo', connectionId)
   }
@@ -60,8 +163,9 @@ class KafkaService {
     return this.callElectronAPI('getConsumerGroupOffsets', connectionId, groupId, topic)
   }
 
-  async resetConsumerGroupOffsets(connectionId: string, groupId: string, topic: string, earliest: boolean = true): Promise<any> {
-    return this.callElectronAPI('resetConsumerGroupOffsets', connectionId, groupId, topic, earliest)
+  /** With `dryRun`, only returns the old and new offset per partition */
+  async resetConsumerGroupOffsets(connectionId: string, groupId: string, topic: string, spec: OffsetResetSpec, dryRun: boolean = false): Promise<any> {
+    return this.callElectronAPI('resetConsumerGroupOffsets', connectionId, groupId, topic, spec, dryRun)
   }
 
   async deleteConsumerGroup(connectionId: string, groupId: string): Promise<any> {
@@ -77,6 +181,19 @@ class KafkaService {
     return this.callElectronAPI('alterTopicConfig', connectionId, topic, configEntries)
   }
 
+  /* ── ACLs ── */
+  async describeAcls(connectionId: string, filter?: KafkaAclFilter): Promise<any> {
+    return this.callElectronAPI('describeAcls', connectionId, filter)
+  }
+
+  async createAcls(connectionId: string, acls: KafkaAcl[]): Promise<any> {
+    return this.callElectronAPI('createAcls', connectionId, acls)
+  }
+
+  async deleteAcls(connectionId: string, acls: KafkaAcl[]): Promise<any> {
+    return this.callElectronAPI('deleteAcls', connectionId, acls)
+  }
+
   /* ── Stats ── */
   async getStats(connectionId: string): Promise<any> {
     return this.callElectronAPI('getStats', connectionId)
@@ -41,6 +41,33 @@ class MongoDBService {
     return this.callElectronAPI('executeQuery', connectionId, dbName, collectionName, filter, opts)
   }
 
+  async openCursor(
+    connectionId: string,
+    dbName: string,
+    collectionName: string,
+    filter: QueryFilter,
+    options?: QueryOptions
+  ): Promise<any> {
+    return this.callElectronAPI('openCursor', connectionId, dbName, collectionName, filter, options || {})
+  }
+
+  async fetchNext(cursorId: string, batchSize?: number): Promise<any> {
+    return this.callElectronAPI('fetchNext', cursorId, batchSize)
+  }
+
+  async closeCursor(cursorId: string): Promise<any> {
+    return this.callElectronAPI('closeCursor', cursorId)
+  }
+
+  async cancelCursor(cursorId: string): Promise<any> {
+    return this.callElectronAPI('cancelCursor', cursorId)
+  }
+
+  /** Run a mongo shell-style script; errors carry the script line they occurred on */
+  async runScript(connectionId: string, dbName: string, script: string): Promise<any> {
+    return this.callElectronAPI('runScript', connectionId, dbName, script)
+  }
+
   async insertDocument(
     connectionId: string,
     dbName: string,
@@ -95,6 +122,11 @@ class MongoDBService {
     return this.callElectronAPI('deleteMany', connectionId, dbName, collectionName, filter)
   }
 
+  /** Apply staged insertOne / updateOne / deleteOne operations (EJSON), in a transaction where the server has them */
+  async bulkWrite(connectionId: string, dbName: string, collectionName: string, operations: any[]): Promise<any> {
+    return this.callElectronAPI('bulkWrite', connectionId, dbName, collectionName, operations)
+  }
+
   async countDocuments(
     connectionId: string,
     dbName: string,
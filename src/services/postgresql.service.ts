@@ -23,10 +23,18 @@ class PostgreSQLService {
     return this.callElectronAPI('listDatabases', connectionId)
   }
 
+  async listSchemas(connectionId: string, database: string): Promise<any> {
+    return this.callElectronAPI('listSchemas', connectionId, database)
+  }
+
   async listTables(connectionId: string, database: string): Promise<any> {
     return this.callElectronAPI('listTables', connectionId, database)
   }
 
+  async listFunctions(connectionId: string, database: string, schema: string): Promise<any> {
+    return this.callElectronAPI('listFunctions', connectionId, database, schema)
+  }
+
   async executeQuery(
     connectionId: string,
     database: string,
@@ -37,6 +45,49 @@ class PostgreSQLService {
     return this.callElectronAPI('executeQuery', connectionId, database, table, query, options || {})
   }
 
+  /** Run statements in order on one session; stops at the first failure */
+  async executeScript(connectionId: string, database: string, statements: string[]): Promise<any> {
+    return this.callElectronAPI('executeScript', connectionId, database, statements)
+  }
+
+  /** Open a streaming cursor; with a session it runs on that session's connection */
+  async openCursor(connectionId: string, database: string, query: string, session?: { sessionId: string; autoCommit: boolean }): Promise<any> {
+    return this.callElectronAPI('openCursor', connectionId, database, query, session)
+  }
+
+  async fetchNext(cursorId: string, batchSize?: number): Promise<any> {
+    return this.callElectronAPI('fetchNext', cursorId, batchSize)
+  }
+
+  async closeCursor(cursorId: string): Promise<any> {
+    return this.callElectronAPI('closeCursor', cursorId)
+  }
+
+  async cancelCursor(cursorId: string): Promise<any> {
+    return this.callElectronAPI('cancelCursor', cursorId)
+  }
+
+  /** Pin a connection for a Query Editor tab so transactions span several runs */
+  async openSession(connectionId: string, database: string): Promise<any> {
+    return this.callElectronAPI('openSession', connectionId, database)
+  }
+
+  async sessionExecute(sessionId: string, statements: string[], autoCommit: boolean): Promise<any> {
+    return this.callElectronAPI('sessionExecute', sessionId, statements, autoCommit)
+  }
+
+  async endTransaction(sessionId: string, commit: boolean): Promise<any> {
+    return this.callElectronAPI('endTransaction', sessionId, commit)
+  }
+
+  async sessionStatus(sessionId: string): Promise<any> {
+    return this.callElectronAPI('sessionStatus', sessionId)
+  }
+
+  async closeSession(sessionId: string): Promise<any> {
+    return this.callElectronAPI('closeSession', sessionId)
+  }
+
   async findQuery(
     connectionId: string,
     database: string,
@@ -94,6 +145,11 @@ class PostgreSQLService {
     return this.callElectronAPI('deleteMany', connectionId, database, table, filter)
   }
 
+  /** Run parameterised statements in one transaction; any failure or no-op statement rolls all of them back */
+  async applyChanges(connectionId: string, database: string, statements: { text: string; values: unknown[] }[]): Promise<any> {
+    return this.callElectronAPI('applyChanges', connectionId, database, statements)
+  }
+
   async countRows(
     connectionId: string,
     database: string,
@@ -150,8 +206,8 @@ class PostgreSQLService {
     return this.callElectronAPI('createIndex', connectionId, database, table, indexName, columns, options)
   }
 
-  async dropIndex(connectionId: string, database: string, indexName: string): Promise<any> {
-    return this.callElectronAPI('dropIndex', connectionId, database, indexName)
+  async dropIndex(connectionId: string, database: string, table: string, indexName: string): Promise<any> {
+    return this.callElectronAPI('dropIndex', connectionId, database, table, indexName)
   }
 
   async explainQuery(connectionId: string, database: string, table: string, query: string): Promise<any> {
@@ -191,8 +247,8 @@ class PostgreSQLService {
     return this.callElectronAPI('runMaintenance', connectionId, database, table, action)
   }
 
-  async getTableSizes(connectionId: string): Promise<any> {
-    return this.callElectronAPI('getTableSizes', connectionId)
+  async getTableSizes(connectionId: string, database?: string): Promise<any> {
+    return this.callElectronAPI('getTableSizes', connectionId, database || undefined)
   }
 }
 
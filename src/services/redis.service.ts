@@ -3,6 +3,9 @@
  * This service handles all Redis operations through Electron IPC
  */
 
+import type { RedisConnectOptions } from '@/types'
+import type { RedisMemoryAnalysisOptions, RedisMemoryAnalysisProgress } from '@/utils/redisMemory'
+
 class RedisService {
   private async callElectronAPI<T>(method: string, ...args: any[]): Promise<T> {
     if (!window.electronAPI) {
@@ -11,8 +14,8 @@ class RedisService {
     return (window.electronAPI as any).redis[method](...args)
   }
 
-  async connect(connectionId: string, connectionString: string, sshTunnel?: any): Promise<any> {
-    return this.callElectronAPI('connect', connectionId, connectionString, sshTunnel)
+  async connect(connectionId: string, connectionString: string, sshTunnel?: any, options?: RedisConnectOptions): Promise<any> {
+    return this.callElectronAPI('connect', connectionId, connectionString, sshTunnel, options)
   }
 
   async disconnect(connectionId: string): Promise<void> {
@@ -23,8 +26,9 @@ class RedisService {
     return this.callElectronAPI('listDatabases', connectionId)
   }
 
-  async listKeys(connectionId: string, database: string, pattern?: string, count?: number): Promise<any> {
-    return this.callElectronAPI('listKeys', connectionId, database, pattern || '*', count || 200)
+  /** One SCAN page of keys; pass the returned `cursor` back to continue until it is `'0'` */
+  async listKeys(connectionId: string, database: string, pattern?: string, count?: number, cursor?: string, type?: string): Promise<any> {
+    return this.callElectronAPI('listKeys', connectionId, database, pattern || '*', count || 200, cursor || '0', type)
   }
 
   async getKeyValue(connectionId: string, database: string, key: string): Promise<any> {
@@ -80,6 +84,52 @@ class RedisService {
     return this.callElectronAPI('memoryUsage', connectionId, database, key)
   }
 
+  async startMemoryAnalysis(analysisId: string, connectionId: string, database: string, options: RedisMemoryAnalysisOptions): Promise<any> {
+    return this.callElectronAPI('startMemoryAnalysis', analysisId, connectionId, database, options)
+  }
+
+  async cancelMemoryAnalysis(analysisId: string): Promise<any> {
+    return this.callElectronAPI('cancelMemoryAnalysis', analysisId)
+  }
+
+  onMemoryAnalysisProgress(callback: (data: RedisMemoryAnalysisProgress) => void): () => void {
+    if (!window.electronAPI) return () => {}
+    return (window.electronAPI as any).redis.onMemoryAnalysisProgress(callback)
+  }
+
+  // Lua scripts & functions
+  async evalScript(connectionId: string, database: string, mode: 'eval' | 'evalsha', scriptOrSha: string, keys: string[], args: string[]): Promise<any> {
+    return this.callElectronAPI('evalScript', connectionId, database, mode, scriptOrSha, keys, args)
+  }
+
+  async callFunction(connectionId: string, database: string, name: string, keys: string[], args: string[], readOnly?: boolean): Promise<any> {
+    return this.callElectronAPI('callFunction', connectionId, database, name, keys, args, readOnly)
+  }
+
+  async scriptLoad(connectionId: string, script: string): Promise<any> {
+    return this.callElectronAPI('scriptLoad', connectionId, script)
+  }
+
+  async scriptExists(connectionId: string, shas: string[]): Promise<any> {
+    return this.callElectronAPI('scriptExists', connectionId, shas)
+  }
+
+  async scriptFlush(connectionId: string): Promise<any> {
+    return this.callElectronAPI('scriptFlush', connectionId)
+  }
+
+  async functionLoad(connectionId: string, code: string, replace?: boolean): Promise<any> {
+    return this.callElectronAPI('functionLoad', connectionId, code, replace)
+  }
+
+  async functionList(connectionId: string): Promise<any> {
+    return this.callElectronAPI('functionList', connectionId)
+  }
+
+  async functionDelete(connectionId: string, library: string): Promise<any> {
+    return this.callElectronAPI('functionDelete', connectionId, library)
+  }
+
   async bulkDelete(connectionId: string, database: string, pattern: string): Promise<any> {
     return this.callElectronAPI('bulkDelete', connectionId, database, pattern)
   }
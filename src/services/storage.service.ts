@@ -3,7 +3,7 @@
  * This service handles local storage operations (SQLite) through Electron IPC
  */
 
-import { DatabaseConnection, SavedQuery } from '@/types'
+import { DatabaseConnection, RedisScript, SavedQuery } from '@/types'
 
 class StorageService {
   private async callElectronAPI<T>(method: string, ...args: any[]): Promise<T> {
@@ -63,6 +63,19 @@ class StorageService {
   async deleteQueryTemplate(id: string): Promise<{ success: boolean }> {
     return this.callElectronAPI('deleteQueryTemplate', id)
   }
+
+  // Redis Lua scripts
+  async getRedisScripts(): Promise<RedisScript[]> {
+    return this.callElectronAPI('getRedisScripts')
+  }
+
+  async saveRedisScript(script: RedisScript): Promise<RedisScript> {
+    return this.callElectronAPI('saveRedisScript', script)
+  }
+
+  async deleteRedisScript(id: string): Promise<{ success: boolean }> {
+    return this.callElectronAPI('deleteRedisScript', id)
+  }
 }
 
 export const storageService = new StorageService()
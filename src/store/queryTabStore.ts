@@ -1,20 +1,40 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { isSQLDatabase } from '@/utils/dbTypes'
+import type { DatabaseType, StatementResult, TransactionState } from '@/types'
 
 export interface QueryTab {
   id: string
   name: string
   query: string
   kafkaMode: 'consume' | 'produce'
+  /** MongoDB tabs: filter against the selected collection, or a shell-style script against the database */
+  mongoMode?: 'filter' | 'script'
+  /** SQL session tabs: commit each statement on its own (default), or keep a transaction open until Commit/Rollback */
+  autoCommit?: boolean
   // Transient fields (not persisted but used at runtime)
   results?: any[]
   executionTime?: number
   error?: string
   loading?: boolean
+  /** Server-side cursor currently streaming into this tab */
+  cursorId?: string
+  /** Streaming stopped at the row limit before the cursor was exhausted */
+  truncated?: boolean
+  /** print() / printjson() lines from the last script run */
+  output?: string[]
+  /** Editor lines the last error points at (1-based, end inclusive) */
+  errorLine?: number
+  errorEndLine?: number
+  /** Per-statement results of a multi-statement SQL run */
+  statementResults?: StatementResult[]
+  /** Pinned server session this tab runs on, and the database it is bound to */
+  session?: { id: string; type: DatabaseType; connectionId: string; database: string }
+  transaction?: TransactionState
 }
 
 /** Serialisable subset that gets written to localStorage */
-type PersistedTab = Pick<QueryTab, 'id' | 'name' | 'query' | 'kafkaMode'>
+type PersistedTab = Pick<QueryTab, 'id' | 'name' | 'query' | 'kafkaMode' | 'mongoMode' | 'autoCommit'>
 
 interface QueryTabState {
   tabs: QueryTab[]
@@ -27,10 +47,12 @@ interface QueryTabState {
   setActiveTab: (tabId: string) => void
   updateTab: (tabId: string, updates: Partial<QueryTab>) => void
   resetTabsForConnection: (dbType: string) => void
+  /** Forget the sessions of a connection that went away (the server side is already gone) */
+  dropSessions: (connectionId: string) => void
 }
 
 const defaultQuery = (dbType: string) =>
-  dbType === 'kafka' ? '{"key": "", "value": ""}' : dbType === 'redis' ? 'PING' : dbType === 'postgresql' ? 'SELECT * FROM ' : '{}'
+  dbType === 'kafka' ? '{"key": "", "value": ""}' : dbType === 'redis' ? 'PING' : isSQLDatabase(dbType) ? 'SELECT * FROM ' : '{}'
 
 export const useQueryTabStore = create<QueryTabState>()(
   persist(
@@ -89,6 +111,11 @@ export const useQueryTabStore = create<QueryTabState>()(
         }
         set({ tabs: [newTab], activeTabId: id, _tabCounter: counter })
       },
+
+      dropSessions: (connectionId: string) =>
+        set((s) => ({
+          tabs: s.tabs.map((t) => (t.session?.connectionId === connectionId ? { ...t, session: undefined, transaction: undefined } : t)),
+        })),
     }),
     {
       name: 'zentab-query-tabs',
@@ -100,6 +127,8 @@ export const useQueryTabStore = create<QueryTabState>()(
             name: t.name,
             query: t.query,
             kafkaMode: t.kafkaMode,
+            mongoMode: t.mongoMode,
+            autoCommit: t.autoCommit,
           })
         ),
         activeTabId: state.activeTabId,
@@ -115,6 +144,13 @@ export const useQueryTabStore = create<QueryTabState>()(
           loading: false,
           error: undefined,
           executionTime: undefined,
+          cursorId: undefined,
+          output: undefined,
+          errorLine: undefined,
+          errorEndLine: undefined,
+          statementResults: undefined,
+          session: undefined,
+          transaction: undefined,
         })),
       }),
     }
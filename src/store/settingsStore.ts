@@ -20,6 +20,8 @@ export interface GeneralSettings {
   dateFormat: string
   showWelcomePage: boolean
   autoUpdate: boolean
+  /** Splits Redis key names into the sidebar's namespace folders; empty for a flat list */
+  redisKeyDelimiter: string
 }
 
 export interface AppSettings {
@@ -56,6 +58,7 @@ const DEFAULT_GENERAL: GeneralSettings = {
   dateFormat: 'YYYY-MM-DD HH:mm:ss',
   showWelcomePage: true,
   autoUpdate: true,
+  redisKeyDelimiter: ':',
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -82,7 +85,19 @@ export const useSettingsStore = create<SettingsState>()(
 
       resetSettings: () => set(DEFAULT_SETTINGS),
     }),
-    { name: 'app-settings' }
+    {
+      name: 'app-settings',
+      // Settings added in later versions start from their defaults instead of being missing
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<AppSettings>
+        return {
+          ...current,
+          ...saved,
+          editor: { ...current.editor, ...saved.editor },
+          general: { ...current.general, ...saved.general },
+        }
+      },
+    }
   )
 )
 
@@ -1 +1,7 @@
 import '@testing-library/jest-dom'
+
+// vite-plugin-electron-renderer turns Node built-in imports into require() shims meant for the renderer;
+// main-process code under test needs a real require behind them
+if (typeof (globalThis as any).require === 'undefined') {
+  (globalThis as any).require = (process as any).getBuiltinModule('module').createRequire(import.meta.url)
+}
@@ -14,8 +14,14 @@ export interface DatabaseConnection {
   database?: string
   ssl?: boolean
   sshTunnel?: SSHTunnelConfig
-  kafkaSASL?: 'none' | 'plain' | 'scram-sha-256' | 'scram-sha-512'
+  kafkaSASL?: 'none' | 'plain' | 'scram-sha-256' | 'scram-sha-512' | 'oauthbearer'
   kafkaSSL?: boolean
+  kafkaTLS?: KafkaTlsConfig
+  kafkaOAuth?: KafkaOAuthConfig
+  kafkaSchemaRegistry?: SchemaRegistryConfig
+  redisOptions?: RedisConnectOptions
+  /** SQL Server: accept a self-signed certificate, as local / containerised instances use */
+  mssqlTrustServerCertificate?: boolean
   createdAt: Date
   updatedAt: Date
   isFavorite?: boolean
@@ -35,6 +41,59 @@ export interface SSHTunnelConfig {
   privateKey?: string
 }
 
+/** Confluent-compatible Schema Registry used to decode and encode Kafka message values */
+export interface SchemaRegistryConfig {
+  url: string
+  username?: string
+  password?: string
+}
+
+/** TLS for Kafka brokers beyond the `+ssl` flag; the PEM files are read in the main process when connecting */
+export interface KafkaTlsConfig {
+  caFile?: string
+  /** Client certificate and key for mutual TLS */
+  certFile?: string
+  keyFile?: string
+  passphrase?: string
+  /** Verify the broker certificate against the CA (default true) */
+  verifyCertificate?: boolean
+  /** Check that the certificate matches the broker host name (default true) */
+  verifyHostname?: boolean
+  /** SNI server name to send instead of the broker host */
+  servername?: string
+}
+
+/** SASL/OAUTHBEARER tokens fetched with the OAuth 2.0 client credentials grant */
+export interface KafkaOAuthConfig {
+  tokenEndpoint: string
+  clientId: string
+  clientSecret: string
+  scope?: string
+}
+
+/** Kafka settings passed at connect time besides the connection string */
+export interface KafkaConnectOptions {
+  schemaRegistry?: SchemaRegistryConfig
+  tls?: KafkaTlsConfig
+  oauth?: KafkaOAuthConfig
+}
+
+/** How a Redis connection reaches its data: one server, a Redis Cluster, or the master a Sentinel group names */
+export type RedisMode = 'standalone' | 'cluster' | 'sentinel'
+
+/** Redis settings passed at connect time; the connection string still carries credentials, TLS and the database */
+export interface RedisConnectOptions {
+  mode: RedisMode
+  /** Cluster seed nodes as host:port; the connection string's host when empty */
+  nodes?: string[]
+  /** Sentinel addresses as host:port */
+  sentinels?: string[]
+  /** Name of the master the sentinels monitor */
+  masterName?: string
+  sentinelUsername?: string
+  sentinelPassword?: string
+}
+
 export interface ConnectionStatus {
   connectionId: string
   isConnected: boolean
@@ -94,6 +153,25 @@ export interface QueryResult {
   error?: string
 }
 
+/** Outcome of one statement in a multi-statement SQL script */
+export interface StatementResult {
+  success: boolean
+  documents: any[]
+  /** Rows returned or affected */
+  rowCount?: number
+  /** Command tag reported by the server (SELECT, INSERT …) */
+  command?: string
+  executionTime?: number
+  error?: string
+  /** Statement text and its 1-based line span in the editor */
+  statement: string
+  startLine: number
+  endLine: number
+}
+
+/** Transaction status of a pinned SQL session: no transaction, one in progress, or one aborted by an error */
+export type TransactionState = 'idle' | 'open' | 'failed'
+
 export interface SavedQuery {
   id: string
   name: string
@@ -121,6 +199,19 @@ export interface QueryHistory {
   resultCount: number
 }
 
+/** A Lua script (EVAL) or function library (FUNCTION LOAD) saved in the Redis workbench */
+export interface RedisScript {
+  id: string
+  name: string
+  kind: 'script' | 'function'
+  body: string
+  /** KEYS and ARGV, one per line */
+  keys?: string
+  args?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
 // Aggregation types
 export interface AggregationPipeline {
   id: string
@@ -0,0 +1,21 @@
+import type { DatabaseType } from '@/types'
+
+/** Relational engines that share the SQL editor, row editor and table tooling */
+export const SQL_DATABASE_TYPES: ReadonlySet<DatabaseType> = new Set<DatabaseType>(['postgresql', 'mysql', 'mssql', 'sqlite'])
+
+export const isSQLDatabase = (type?: string | null): boolean => !!type && SQL_DATABASE_TYPES.has(type as DatabaseType)
+
+/** Engines whose editor queries run through a server-side cursor (open → fetchNext → close, cancellable) */
+export const STREAMING_DATABASE_TYPES: ReadonlySet<DatabaseType> = new Set<DatabaseType>(['mongodb', 'postgresql'])
+
+export const supportsStreaming = (type?: string | null): boolean => !!type && STREAMING_DATABASE_TYPES.has(type as DatabaseType)
+
+/** Engines whose Query Editor tabs get a pinned session with explicit transaction control */
+export const SESSION_DATABASE_TYPES: ReadonlySet<DatabaseType> = new Set<DatabaseType>(['postgresql'])
+
+export const supportsSessions = (type?: string | null): boolean => !!type && SESSION_DATABASE_TYPES.has(type as DatabaseType)
+
+/** Engines whose Data Viewer can collect edits and apply them in one go */
+export const STAGED_EDIT_DATABASE_TYPES: ReadonlySet<DatabaseType> = new Set<DatabaseType>(['mongodb', 'postgresql'])
+
+export const supportsStagedEdits = (type?: string | null): boolean => !!type && STAGED_EDIT_DATABASE_TYPES.has(type as DatabaseType)
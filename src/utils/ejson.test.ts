@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest'
+// From the driver, so the values are built from the same bson copy electron/mongodb.ts checks them against
+import { BSON, Decimal128, Double, Int32, Long } from 'mongodb'
+import { parseShellSyntax, toShellSyntax, ejsonScalar, ejsonType } from './ejson'
+
+/** The EJSON half of electron/mongodb.ts — electron/ is its own TypeScript project, so its types aren't importable here */
+interface MongoEjson {
+  toEJSON: (value: unknown) => unknown
+  fromEJSON: (value: unknown) => Record<string, unknown>
+  READ_OPTIONS: BSON.DeserializeOptions
+}
+
+describe('parseShellSyntax', () => {
+  it('parses plain JSON unchanged', () => {
+    expect(parseShellSyntax('{"a": 1, "b": [true, null, "x"]}')).toEqual({ a: 1, b: [true, null, 'x'] })
+  })
+
+  it('converts shell constructors to EJSON', () => {
+    const doc = parseShellSyntax(`{
+      "_id": ObjectId("65a1f0c2e4b0a1b2c3d4e5f6"),
+      "at": ISODate("2024-01-15T10:00:00Z"),
+      "price": NumberDecimal("19.99"),
+      "views": NumberLong("9007199254740993"),
+      "n": NumberInt(7)
+    }`)
+    expect(doc).toEqual({
+      _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f6' },
+      at: { $date: '2024-01-15T10:00:00.000Z' },
+      price: { $numberDecimal: '19.99' },
+      views: { $numberLong: '9007199254740993' },
+      n: { $numberInt: '7' },
+    })
+  })
+
+  it('accepts new Date(), unquoted keys and single-quoted strings', () => {
+    expect(parseShellSyntax("{ createdAt: { $gte: new Date('2024-01-01T00:00:00Z') }, name: 'it\\'s' }")).toEqual({
+      createdAt: { $gte: { $date: '2024-01-01T00:00:00.000Z' } },
+      name: "it's",
+    })
+  })
+
+  it('parses BinData and UUID', () => {
+    expect(parseShellSyntax('[BinData(0, "AQI="), UUID("0f8fad5b-d9cb-469f-a165-70867728950e")]')).toEqual([
+      { $binary: { base64: 'AQI=', subType: '00' } },
+      { $uuid: '0f8fad5b-d9cb-469f-a165-70867728950e' },
+    ])
+  })
+
+  it('leaves constructor names inside strings alone', () => {
+    expect(parseShellSyntax('{"note": "ObjectId(\\"x\\")"}')).toEqual({ note: 'ObjectId("x")' })
+  })
+
+  it('keeps number literals with exponents', () => {
+    expect(parseShellSyntax('{"a": 1e5, "b": -2.5}')).toEqual({ a: 100000, b: -2.5 })
+  })
+
+  it('rejects malformed ObjectIds and unknown identifiers', () => {
+    expect(() => parseShellSyntax('{"_id": ObjectId("nope")}')).toThrow('ObjectId')
+    expect(() => parseShellSyntax('{"a": undefinedThing}')).toThrow('Unexpected identifier')
+  })
+})
+
+describe('toShellSyntax', () => {
+  it('prints EJSON wrappers as shell constructors', () => {
+    const text = toShellSyntax({
+      _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f6' },
+      at: { $date: '2024-01-15T10:00:00.000Z' },
+      price: { $numberDecimal: '19.99' },
+      views: { $numberLong: '9007199254740993' },
+    })
+    expect(text).toContain('"_id": ObjectId("65a1f0c2e4b0a1b2c3d4e5f6")')
+    expect(text).toContain('"at": ISODate("2024-01-15T10:00:00.000Z")')
+    expect(text).toContain('"price": NumberDecimal("19.99")')
+    expect(text).toContain('"views": NumberLong("9007199254740993")')
+  })
+
+  it('matches JSON.stringify for plain values', () => {
+    const doc = { a: 1, b: [1, { c: 'x' }], d: {}, e: [] }
+    expect(toShellSyntax(doc)).toBe(JSON.stringify(doc, null, 2))
+    expect(toShellSyntax(doc, 0)).toBe(JSON.stringify(doc))
+  })
+
+  it('round-trips through parseShellSyntax', () => {
+    const doc = {
+      _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f6' },
+      at: { $date: '2024-01-15T10:00:00.000Z' },
+      tags: ['a', { $numberDecimal: '1.10' }],
+      blob: { $binary: { base64: 'AQI=', subType: '00' } },
+    }
+    expect(parseShellSyntax(toShellSyntax(doc))).toEqual(doc)
+  })
+
+  it('prints canonical dates as ISODate', () => {
+    expect(toShellSyntax({ $date: { $numberLong: '0' } })).toBe('ISODate("1970-01-01T00:00:00.000Z")')
+  })
+})
+
+describe('ejsonScalar / ejsonType', () => {
+  it('describes wrapper values', () => {
+    expect(ejsonScalar({ $oid: 'abc' })).toBe('abc')
+    expect(ejsonType({ $oid: 'abc' })).toBe('ObjectId')
+    expect(ejsonScalar({ $binary: { base64: 'D4+tW9nLRp+hZXCGdyiVDg==', subType: '04' } })).toBe('0f8fad5b-d9cb-469f-a165-70867728950e')
+    expect(ejsonType({ $numberLong: '1' })).toBe('Long')
+  })
+
+  it('ignores ordinary objects', () => {
+    expect(ejsonScalar({ a: 1 })).toBeNull()
+    expect(ejsonType({ $gt: 1 })).toBeNull()
+    expect(ejsonType('x')).toBeNull()
+  })
+})
+
+describe('main-process EJSON round trip', () => {
+  it('gives every numeric field back with its stored BSON type', async () => {
+    const { toEJSON, fromEJSON, READ_OPTIONS } = await vi.importActual<MongoEjson>('../../electron/mongodb')
+    const stored = {
+      double: new Double(5),
+      bigDouble: new Double(3000000000),
+      fraction: new Double(2.5),
+      int: new Int32(7),
+      long: Long.fromString('9007199254740993'),
+      decimal: Decimal128.fromString('1.10'),
+    }
+    // Read the way the driver does, then cross IPC as plain JSON
+    const read = BSON.deserialize(BSON.serialize(stored), READ_OPTIONS)
+    const back = fromEJSON(JSON.parse(JSON.stringify(toEJSON(read))))
+
+    expect(BSON.EJSON.serialize(back, { relaxed: false })).toEqual(BSON.EJSON.serialize(stored, { relaxed: false }))
+    expect(back.double).toBeInstanceOf(Double)
+    expect(back.bigDouble).toBeInstanceOf(Double)
+    expect(back.int).toBeInstanceOf(Int32)
+    expect(back.long).toBeInstanceOf(Long)
+    expect(back.decimal).toBeInstanceOf(Decimal128)
+  })
+
+  it('prints integral doubles as Double() so an edit keeps them doubles', () => {
+    expect(toShellSyntax({ $numberDouble: '5.0' })).toBe('Double(5)')
+    expect(parseShellSyntax('Double(5)')).toEqual({ $numberDouble: '5' })
+  })
+})
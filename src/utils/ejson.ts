@@ -0,0 +1,259 @@
+/**
+ * MongoDB Extended JSON helpers for the renderer.
+ *
+ * The main process sends documents as relaxed EJSON ({ "$oid": ... }, { "$date": ... }, { "$numberLong": ... })
+ * and rebuilds BSON types from EJSON it receives. These helpers print EJSON in mongo shell syntax for editing
+ * and parse shell syntax (ObjectId("…"), ISODate("…"), NumberDecimal("…") …) back into EJSON.
+ */
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+const UUID_HEX = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i
+
+const base64ToHex = (base64: string) =>
+  Array.from(atob(base64), c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+
+const formatUUID = (hex: string) =>
+  `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+
+/** ISO string of an EJSON $date (relaxed ISO form or canonical { $numberLong }) */
+const dateToISO = (date: any): string | null => {
+  const d = typeof date === 'string' ? new Date(date)
+    : isPlainObject(date) && date.$numberLong !== undefined ? new Date(Number(date.$numberLong))
+    : typeof date === 'number' ? new Date(date) : null
+  return d && !isNaN(d.getTime()) ? d.toISOString() : null
+}
+
+/** Single-key EJSON wrapper name ("$oid", "$date" …), or null for ordinary values */
+const wrapperKey = (value: any): string | null => {
+  if (!isPlainObject(value)) return null
+  const keys = Object.keys(value)
+  return keys.length === 1 && keys[0].startsWith('$') ? keys[0] : null
+}
+
+/** BSON type name of an EJSON wrapper value, e.g. "ObjectId" — null for plain JSON values */
+export const ejsonType = (value: any): string | null => {
+  switch (wrapperKey(value)) {
+    case '$oid': return 'ObjectId'
+    case '$date': return 'Date'
+    case '$numberDecimal': return 'Decimal128'
+    case '$numberLong': return 'Long'
+    case '$numberInt': return 'Int32'
+    case '$numberDouble': return 'Double'
+    case '$binary': return value.$binary?.subType === '04' ? 'UUID' : 'Binary'
+    case '$uuid': return 'UUID'
+    case '$timestamp': return 'Timestamp'
+    default: return null
+  }
+}
+
+/** Plain display text for an EJSON wrapper (hex id, ISO date, decimal digits …) — null for other values */
+export const ejsonScalar = (value: any): string | null => {
+  switch (wrapperKey(value)) {
+    case '$oid': return String(value.$oid)
+    case '$date': return dateToISO(value.$date)
+    case '$numberDecimal': return String(value.$numberDecimal)
+    case '$numberLong': return String(value.$numberLong)
+    case '$numberInt': return String(value.$numberInt)
+    case '$numberDouble': return String(value.$numberDouble)
+    case '$binary': {
+      const { base64 = '', subType = '00' } = value.$binary || {}
+      return subType === '04' ? formatUUID(base64ToHex(base64)) : base64
+    }
+    case '$uuid': return String(value.$uuid)
+    case '$timestamp': return `${value.$timestamp?.t}:${value.$timestamp?.i}`
+    default: return null
+  }
+}
+
+/** Shell literal for an EJSON wrapper, or null when the value has no shell form */
+const shellLiteral = (value: any): string | null => {
+  switch (wrapperKey(value)) {
+    case '$oid': return `ObjectId(${JSON.stringify(String(value.$oid))})`
+    case '$date': {
+      const iso = dateToISO(value.$date)
+      return iso ? `ISODate(${JSON.stringify(iso)})` : null
+    }
+    case '$numberDecimal': return `NumberDecimal(${JSON.stringify(String(value.$numberDecimal))})`
+    case '$numberLong': return `NumberLong(${JSON.stringify(String(value.$numberLong))})`
+    case '$numberInt': return `NumberInt(${Number(value.$numberInt)})`
+    case '$numberDouble': return `Double(${Number(value.$numberDouble)})`
+    case '$binary': {
+      const { base64 = '', subType = '00' } = value.$binary || {}
+      return subType === '04'
+        ? `UUID(${JSON.stringify(formatUUID(base64ToHex(base64)))})`
+        : `BinData(${parseInt(subType, 16)}, ${JSON.stringify(base64)})`
+    }
+    case '$uuid': return `UUID(${JSON.stringify(String(value.$uuid))})`
+    case '$timestamp': return `Timestamp(${Number(value.$timestamp?.t)}, ${Number(value.$timestamp?.i)})`
+    default: return null
+  }
+}
+
+/** Pretty-print EJSON the way JSON.stringify would, but with BSON wrappers written in mongo shell syntax */
+export const toShellSyntax = (value: any, indent = 2): string => {
+  const pad = (depth: number) => indent > 0 ? '\n' + ' '.repeat(indent * depth) : ''
+  const sep = indent > 0 ? ': ' : ':'
+
+  const write = (v: any, depth: number): string => {
+    const literal = shellLiteral(v)
+    if (literal !== null) return literal
+    if (Array.isArray(v)) {
+      if (v.length === 0) return '[]'
+      return `[${v.map(item => pad(depth + 1) + write(item === undefined ? null : item, depth + 1)).join(',')}${pad(depth)}]`
+    }
+    if (isPlainObject(v)) {
+      const entries = Object.entries(v).filter(([, item]) => item !== undefined)
+      if (entries.length === 0) return '{}'
+      return `{${entries.map(([k, item]) => pad(depth + 1) + JSON.stringify(k) + sep + write(item, depth + 1)).join(',')}${pad(depth)}}`
+    }
+    return JSON.stringify(v) ?? 'null'
+  }
+
+  return write(value, 0)
+}
+
+/* ── Shell syntax parser ──────────────────────────────── */
+
+type ShellArg = string | number
+
+const CONSTRUCTORS: Record<string, (args: ShellArg[]) => unknown> = {
+  ObjectId: ([hex]) => {
+    if (typeof hex !== 'string' || !/^[0-9a-f]{24}$/i.test(hex)) throw new Error('ObjectId() needs a 24-character hex string')
+    return { $oid: hex.toLowerCase() }
+  },
+  ISODate: (args) => {
+    const d = args.length ? new Date(args[0]) : new Date()
+    if (isNaN(d.getTime())) throw new Error(`Invalid date: ${args[0]}`)
+    return { $date: d.toISOString() }
+  },
+  NumberDecimal: ([v]) => {
+    if (v === undefined || !/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$|^[+-]?(Infinity|NaN)$/.test(String(v))) throw new Error(`Invalid decimal: ${v}`)
+    return { $numberDecimal: String(v) }
+  },
+  NumberLong: ([v]) => {
+    if (v === undefined || !/^[+-]?\d+$/.test(String(v))) throw new Error(`Invalid long: ${v}`)
+    return { $numberLong: String(v) }
+  },
+  NumberInt: ([v]) => {
+    const n = Number(v)
+    if (!Number.isInteger(n) || n > 2147483647 || n < -2147483648) throw new Error(`Invalid int32: ${v}`)
+    return { $numberInt: String(n) }
+  },
+  Double: ([v]) => {
+    const n = Number(v)
+    if (v === undefined || isNaN(n)) throw new Error(`Invalid double: ${v}`)
+    return { $numberDouble: String(n) }
+  },
+  BinData: ([subType, base64]) => {
+    if (typeof subType !== 'number' || typeof base64 !== 'string') throw new Error('BinData() needs a subtype and a base64 string')
+    return { $binary: { base64, subType: subType.toString(16).padStart(2, '0') } }
+  },
+  UUID: ([v]) => {
+    if (typeof v !== 'string' || !UUID_HEX.test(v)) throw new Error(`Invalid UUID: ${v}`)
+    return { $uuid: formatUUID(v.replace(/-/g, '').toLowerCase()) }
+  },
+  Timestamp: ([t, i]) => {
+    if (typeof t !== 'number' || typeof i !== 'number') throw new Error('Timestamp() needs two numbers')
+    return { $timestamp: { t, i } }
+  },
+}
+// mongosh / Node driver spellings of the same constructors
+CONSTRUCTORS.Date = CONSTRUCTORS.ISODate
+CONSTRUCTORS.Decimal128 = CONSTRUCTORS.NumberDecimal
+CONSTRUCTORS.Long = CONSTRUCTORS.NumberLong
+CONSTRUCTORS.Int32 = CONSTRUCTORS.NumberInt
+
+/**
+ * Parse JSON, EJSON or mongo shell syntax into EJSON.
+ * Accepts ObjectId("…"), ISODate("…"), new Date("…"), NumberDecimal("…"), NumberLong("…"), NumberInt(…),
+ * BinData(…), UUID("…"), Timestamp(…), single-quoted strings and unquoted keys.
+ */
+export const parseShellSyntax = (text: string): any => {
+  let pos = 0
+  let out = ''
+
+  const fail = (message: string): never => { throw new Error(`${message} at position ${pos}`) }
+  const skipSpace = () => { while (pos < text.length && /\s/.test(text[pos])) pos++ }
+
+  const readString = (): string => {
+    const quote = text[pos++]
+    let raw = ''
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\') raw += text[pos++]
+      raw += text[pos++]
+    }
+    if (pos >= text.length) fail('Unterminated string')
+    pos++
+    // Re-quote single-quoted strings as JSON
+    return quote === '"' ? JSON.parse(`"${raw}"`) : JSON.parse(`"${raw.replace(/\\'/g, "'").replace(/"/g, '\\"')}"`)
+  }
+
+  const readNumber = (): number => {
+    const match = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(pos))
+    if (!match) fail('Expected a number')
+    pos += match![0].length
+    return Number(match![0])
+  }
+
+  const readArgs = (): ShellArg[] => {
+    const args: ShellArg[] = []
+    pos++ // (
+    skipSpace()
+    while (text[pos] !== ')') {
+      if (pos >= text.length) fail('Unterminated call')
+      args.push(text[pos] === '"' || text[pos] === "'" ? readString() : readNumber())
+      skipSpace()
+      if (text[pos] === ',') { pos++; skipSpace() }
+    }
+    pos++ // )
+    return args
+  }
+
+  while (pos < text.length) {
+    const ch = text[pos]
+    if (ch === '"' || ch === "'") {
+      out += JSON.stringify(readString())
+      continue
+    }
+    if (/[\d.-]/.test(ch)) {
+      // Copy number literals whole so exponents ("1e5") are not read as identifiers
+      const match = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(pos))
+      const literal = match ? match[0] : ch
+      out += literal
+      pos += literal.length
+      continue
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      const start = pos
+      while (pos < text.length && /[\w$]/.test(text[pos])) pos++
+      let word = text.slice(start, pos)
+      if (word === 'new') {
+        skipSpace()
+        const next = pos
+        while (pos < text.length && /[\w$]/.test(text[pos])) pos++
+        word = text.slice(next, pos)
+      }
+      const afterWord = pos
+      skipSpace()
+      if (text[pos] === '(' && CONSTRUCTORS[word]) {
+        out += JSON.stringify(CONSTRUCTORS[word](readArgs()))
+      } else if (text[pos] === ':') {
+        out += JSON.stringify(word)
+        pos = afterWord
+      } else if (word === 'true' || word === 'false' || word === 'null') {
+        out += word
+        pos = afterWord
+      } else {
+        pos = start
+        fail(`Unexpected identifier "${word}"`)
+      }
+      continue
+    }
+    out += ch
+    pos++
+  }
+
+  return JSON.parse(out)
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { aclBundle, aclKey, normalizePrincipal, sortAcls } from './kafkaAcls'
+
+const summary = (acls: ReturnType<typeof aclBundle>) => acls.map(a => `${a.resourceType}:${a.resourceName}:${a.patternType}:${a.operation}`)
+
+describe('normalizePrincipal', () => {
+  it('treats a bare name as a user', () => {
+    expect(normalizePrincipal(' alice ')).toBe('User:alice')
+    expect(normalizePrincipal('Group:ops')).toBe('Group:ops')
+  })
+})
+
+describe('aclBundle', () => {
+  it('grants a consumer read on the topic and its group', () => {
+    const acls = aclBundle('consumer', { principal: 'alice', topic: 'orders', patternType: 'literal', group: 'billing' })
+    expect(summary(acls)).toEqual(['topic:orders:literal:read', 'topic:orders:literal:describe', 'group:billing:literal:read'])
+    expect(acls.every(a => a.principal === 'User:alice' && a.host === '*' && a.permission === 'allow')).toBe(true)
+  })
+
+  it('grants a producer write on topics with the prefix, plus transactions when asked', () => {
+    expect(summary(aclBundle('producer', { principal: 'bob', topic: 'orders.', patternType: 'prefixed' })))
+      .toEqual(['topic:orders.:prefixed:write', 'topic:orders.:prefixed:describe', 'topic:orders.:prefixed:create'])
+    expect(summary(aclBundle('producer', { principal: 'bob', topic: 'orders', patternType: 'literal', transactionalId: 'tx' })).slice(3))
+      .toEqual(['transactional-id:tx:literal:write', 'transactional-id:tx:literal:describe', 'cluster:kafka-cluster:literal:idempotent-write'])
+  })
+})
+
+describe('sortAcls', () => {
+  it('orders by principal, resource and operation without duplicating keys', () => {
+    const acls = [
+      ...aclBundle('consumer', { principal: 'bob', topic: 'b', patternType: 'literal' }),
+      ...aclBundle('consumer', { principal: 'alice', topic: 'a', patternType: 'literal' }),
+    ]
+    const sorted = sortAcls(acls)
+    expect(sorted.map(a => a.principal)).toEqual(['User:alice', 'User:alice', 'User:alice', 'User:bob', 'User:bob', 'User:bob'])
+    expect(sorted[0].resourceType).toBe('group')
+    expect(new Set(sorted.map(aclKey)).size).toBe(6)
+  })
+})
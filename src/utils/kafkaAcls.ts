@@ -0,0 +1,108 @@
+/**
+ * Kafka ACLs: the bindings the ACLs tab lists, filters and grants.
+ *
+ * An ACL allows or denies a principal an operation on a resource — a topic, consumer group, the
+ * cluster or a transactional id — named literally or by prefix. Granting "producer" or "consumer"
+ * access adds the same bindings as `kafka-acls --producer` / `--consumer`.
+ */
+
+export type AclResourceType = 'topic' | 'group' | 'cluster' | 'transactional-id'
+export type AclPatternType = 'literal' | 'prefixed'
+export type AclOperation =
+  | 'all' | 'read' | 'write' | 'create' | 'delete' | 'alter' | 'describe'
+  | 'cluster-action' | 'describe-configs' | 'alter-configs' | 'idempotent-write'
+export type AclPermission = 'allow' | 'deny'
+
+export interface KafkaAcl {
+  /** e.g. `User:alice` */
+  principal: string
+  /** `*` for any host */
+  host: string
+  resourceType: AclResourceType
+  resourceName: string
+  patternType: AclPatternType
+  operation: AclOperation
+  permission: AclPermission
+}
+
+export interface KafkaAclFilter {
+  principal?: string
+  resourceType?: AclResourceType
+  resourceName?: string
+  /** 'match' finds the literal, wildcard and prefixed ACLs that apply to `resourceName` */
+  patternType?: AclPatternType | 'match'
+}
+
+/** Operations that mean something for each resource type */
+export const ACL_OPERATIONS: Record<AclResourceType, AclOperation[]> = {
+  topic: ['all', 'read', 'write', 'create', 'delete', 'alter', 'describe', 'describe-configs', 'alter-configs'],
+  group: ['all', 'read', 'delete', 'describe'],
+  cluster: ['all', 'create', 'alter', 'describe', 'cluster-action', 'describe-configs', 'alter-configs', 'idempotent-write'],
+  'transactional-id': ['all', 'write', 'describe'],
+}
+
+/** The cluster resource is always named `kafka-cluster` */
+export const CLUSTER_RESOURCE_NAME = 'kafka-cluster'
+
+/** Principals without a type are users */
+export const normalizePrincipal = (principal: string) => {
+  const trimmed = principal.trim()
+  return trimmed.includes(':') ? trimmed : `User:${trimmed}`
+}
+
+export type AclBundle = 'producer' | 'consumer'
+
+export interface AclBundleOptions {
+  principal: string
+  host?: string
+  topic: string
+  patternType: AclPatternType
+  /** Consumer group a consumer reads as; `*` for any */
+  group?: string
+  /** Producers: transactional id to grant, which also needs idempotent writes */
+  transactionalId?: string
+  /** Producers: allow idempotent writes on the cluster */
+  idempotent?: boolean
+}
+
+/** The ACLs that let a principal produce to or consume from the topic (or topics with that prefix) */
+export const aclBundle = (bundle: AclBundle, options: AclBundleOptions): KafkaAcl[] => {
+  const base = { principal: normalizePrincipal(options.principal), host: options.host?.trim() || '*', permission: 'allow' as const }
+  const onTopic = (operation: AclOperation): KafkaAcl => ({
+    ...base, resourceType: 'topic', resourceName: options.topic, patternType: options.patternType, operation,
+  })
+
+  if (bundle === 'consumer') {
+    return [
+      onTopic('read'),
+      onTopic('describe'),
+      { ...base, resourceType: 'group', resourceName: options.group?.trim() || '*', patternType: 'literal', operation: 'read' },
+    ]
+  }
+
+  const acls = [onTopic('write'), onTopic('describe'), onTopic('create')]
+  const transactionalId = options.transactionalId?.trim()
+  if (transactionalId) {
+    acls.push(
+      { ...base, resourceType: 'transactional-id', resourceName: transactionalId, patternType: options.patternType, operation: 'write' },
+      { ...base, resourceType: 'transactional-id', resourceName: transactionalId, patternType: options.patternType, operation: 'describe' }
+    )
+  }
+  if (options.idempotent || transactionalId) {
+    acls.push({ ...base, resourceType: 'cluster', resourceName: CLUSTER_RESOURCE_NAME, patternType: 'literal', operation: 'idempotent-write' })
+  }
+  return acls
+}
+
+/** Identifies an ACL binding; two bindings with the same key are the same ACL */
+export const aclKey = (acl: KafkaAcl) =>
+  [acl.principal, acl.host, acl.resourceType, acl.patternType, acl.resourceName, acl.operation, acl.permission].join('|')
+
+/** Sort by principal, then resource, then operation */
+export const sortAcls = (acls: KafkaAcl[]) =>
+  [...acls].sort((a, b) =>
+    a.principal.localeCompare(b.principal) ||
+    a.resourceType.localeCompare(b.resourceType) ||
+    a.resourceName.localeCompare(b.resourceName) ||
+    a.operation.localeCompare(b.operation)
+  )
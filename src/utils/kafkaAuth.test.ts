@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { createOAuthTokenProvider, hasTlsSettings, kafkaTlsOptions } from './kafkaAuth'
+
+const files: Record<string, string> = { '/ca.pem': 'CA', '/client.pem': 'CERT', '/client.key': 'KEY' }
+const readFile = (path: string) => {
+  if (!(path in files)) throw new Error('ENOENT')
+  return files[path]
+}
+
+describe('kafkaTlsOptions', () => {
+  it('reads the CA and client certificate for mutual TLS', () => {
+    expect(kafkaTlsOptions({ caFile: '/ca.pem', certFile: '/client.pem', keyFile: '/client.key', passphrase: 'pw' }, readFile))
+      .toEqual({ ca: ['CA'], cert: 'CERT', key: 'KEY', passphrase: 'pw', rejectUnauthorized: true })
+  })
+
+  it('can skip certificate or host name checks and override SNI', () => {
+    const options = kafkaTlsOptions({ verifyCertificate: false, verifyHostname: false, servername: 'kafka.internal' }, readFile)
+    expect(options.rejectUnauthorized).toBe(false)
+    expect(options.servername).toBe('kafka.internal')
+    expect(options.checkServerIdentity?.()).toBeUndefined()
+    expect(hasTlsSettings({ verifyHostname: true })).toBe(false)
+    expect(hasTlsSettings({ caFile: '/ca.pem' })).toBe(true)
+  })
+
+  it('rejects unreadable files and a certificate without its key', () => {
+    expect(() => kafkaTlsOptions({ caFile: '/missing.pem' }, readFile)).toThrow('Cannot read CA file /missing.pem')
+    expect(() => kafkaTlsOptions({ certFile: '/client.pem' }, readFile)).toThrow('both a client certificate and its key')
+  })
+})
+
+describe('createOAuthTokenProvider', () => {
+  const config = { tokenEndpoint: 'https://idp/token', clientId: 'app', clientSecret: 's3cret', scope: 'kafka' }
+
+  it('fetches a client credentials token and reuses it until it nearly expires', async () => {
+    const requests: Array<{ body: string; auth: string }> = []
+    let clock = 0
+    const stub: typeof fetch = async (_input, init) => {
+      requests.push({ body: String(init?.body), auth: (init?.headers as Record<string, string>).Authorization })
+      return new Response(JSON.stringify({ access_token: `token-${requests.length}`, expires_in: 300 }), { status: 200 })
+    }
+    const provide = createOAuthTokenProvider(config, stub, () => clock)
+
+    expect(await provide()).toEqual({ value: 'token-1' })
+    clock = 200_000
+    expect(await provide()).toEqual({ value: 'token-1' })
+    clock = 250_000
+    expect(await provide()).toEqual({ value: 'token-2' })
+    expect(requests[0].body).toBe('grant_type=client_credentials&scope=kafka')
+    expect(requests[0].auth).toBe(`Basic ${btoa('app:s3cret')}`)
+  })
+
+  it('surfaces the error the endpoint reports', async () => {
+    const stub: typeof fetch = async () => new Response(JSON.stringify({ error: 'invalid_client', error_description: 'Bad secret' }), { status: 401 })
+    await expect(createOAuthTokenProvider(config, stub)()).rejects.toThrow('Bad secret')
+  })
+})
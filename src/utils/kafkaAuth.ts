@@ -0,0 +1,84 @@
+/**
+ * Kafka client authentication beyond connection-string credentials: TLS with a custom CA or a
+ * client certificate (mutual TLS), and SASL/OAUTHBEARER tokens from an OAuth 2.0 token endpoint.
+ */
+
+import type { KafkaOAuthConfig, KafkaTlsConfig } from '../types'
+
+/** Options for `tls.connect`, the shape kafkajs accepts for `ssl` */
+export interface KafkaTlsOptions {
+  ca?: string[]
+  cert?: string
+  key?: string
+  passphrase?: string
+  rejectUnauthorized: boolean
+  servername?: string
+  checkServerIdentity?: () => undefined
+}
+
+/** Build TLS options, reading the PEM files with `readFile` (the main process passes `fs.readFileSync`) */
+export const kafkaTlsOptions = (config: KafkaTlsConfig, readFile: (path: string) => string): KafkaTlsOptions => {
+  const read = (label: string, path?: string) => {
+    if (!path?.trim()) return undefined
+    try {
+      return readFile(path.trim())
+    } catch (error: any) {
+      throw new Error(`Cannot read ${label} file ${path.trim()}: ${error.message}`)
+    }
+  }
+  const cert = read('client certificate', config.certFile)
+  const key = read('client key', config.keyFile)
+  if (!!cert !== !!key) throw new Error('Mutual TLS needs both a client certificate and its key')
+  const ca = read('CA', config.caFile)
+
+  const options: KafkaTlsOptions = { rejectUnauthorized: config.verifyCertificate !== false }
+  if (ca) options.ca = [ca]
+  if (cert && key) Object.assign(options, { cert, key })
+  if (config.passphrase) options.passphrase = config.passphrase
+  if (config.servername?.trim()) options.servername = config.servername.trim()
+  // Still verifies the chain, just not that the certificate names the broker host
+  if (config.verifyHostname === false) options.checkServerIdentity = () => undefined
+  return options
+}
+
+/** Whether the TLS settings ask for anything beyond a default TLS connection */
+export const hasTlsSettings = (config?: KafkaTlsConfig) =>
+  !!config && (!!config.caFile?.trim() || !!config.certFile?.trim() || !!config.keyFile?.trim() || !!config.servername?.trim() ||
+    config.verifyCertificate === false || config.verifyHostname === false)
+
+/** Refresh this long before the token expires */
+const TOKEN_EXPIRY_MARGIN_MS = 60_000
+
+/**
+ * Token provider for kafkajs' `oauthBearerProvider`: fetches a token with the client credentials
+ * grant and reuses it until shortly before it expires. `fetchImpl` and `now` let tests stub both.
+ */
+export const createOAuthTokenProvider = (
+  config: KafkaOAuthConfig,
+  fetchImpl: typeof fetch = fetch,
+  now: () => number = Date.now
+) => {
+  let cached: { value: string; expiresAt: number } | null = null
+
+  return async (): Promise<{ value: string }> => {
+    if (cached && now() < cached.expiresAt) return { value: cached.value }
+    const body = new URLSearchParams({ grant_type: 'client_credentials' })
+    if (config.scope?.trim()) body.set('scope', config.scope.trim())
+    const response = await fetchImpl(config.tokenEndpoint.trim(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+        Authorization: `Basic ${btoa(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`)}`,
+      },
+      body: body.toString(),
+    })
+    const token = await response.json().catch(() => null)
+    if (!response.ok || !token?.access_token) {
+      throw new Error(token?.error_description || token?.error || `Token endpoint returned HTTP ${response.status}`)
+    }
+    const lifetimeMs = Number(token.expires_in) > 0 ? Number(token.expires_in) * 1000 : 0
+    cached = { value: token.access_token, expiresAt: now() + Math.max(0, lifetimeMs - TOKEN_EXPIRY_MARGIN_MS) }
+    return { value: token.access_token }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { consumeWindows, nextPageOffsets, previousPageOffsets } from './kafkaBrowse'
+
+const watermarks = [
+  { partition: 1, low: 0, high: 5 },
+  { partition: 0, low: 100, high: 250 },
+]
+
+const ranges = (windows: ReturnType<typeof consumeWindows>) => windows.map(w => [w.partition, w.start, w.end])
+
+describe('consumeWindows', () => {
+  it('reads from the first retained offset of each partition', () => {
+    expect(ranges(consumeWindows(watermarks, { from: 'beginning', limit: 10 }))).toEqual([[0, 100, 110], [1, 0, 5]])
+  })
+
+  it('reads the last N messages per partition', () => {
+    expect(ranges(consumeWindows(watermarks, { from: 'end', limit: 10 }))).toEqual([[0, 240, 250], [1, 0, 5]])
+  })
+
+  it('clamps an offset to the partition and honours the partition filter', () => {
+    expect(ranges(consumeWindows(watermarks, { from: 'offset', partition: 0, offset: 20, limit: 10 }))).toEqual([[0, 100, 110]])
+    expect(ranges(consumeWindows(watermarks, { from: 'offset', partition: 0, offset: 245, limit: 10 }))).toEqual([[0, 245, 250]])
+  })
+
+  it('starts at the broker offset for a timestamp and reads nothing when none is later', () => {
+    const found = new Map([[0, 180], [1, -1]])
+    expect(ranges(consumeWindows(watermarks, { from: 'timestamp', timestamp: 1, limit: 10 }, found))).toEqual([[0, 180, 190], [1, 5, 5]])
+  })
+})
+
+describe('paging', () => {
+  const windows = consumeWindows(watermarks, { from: 'beginning', limit: 10 })
+
+  it('moves forward from the end of each window', () => {
+    expect(nextPageOffsets(windows)).toEqual({ 0: 110, 1: 5 })
+    expect(nextPageOffsets(consumeWindows(watermarks, { from: 'end', limit: 10 }))).toBeNull()
+  })
+
+  it('moves back by the page size without passing the first offset', () => {
+    expect(previousPageOffsets(windows, 10)).toBeNull()
+    const later = consumeWindows(watermarks, { from: 'beginning', offsets: { 0: 105, 1: 3 }, limit: 10 })
+    expect(previousPageOffsets(later, 10)).toEqual({ 0: 100, 1: 0 })
+  })
+})
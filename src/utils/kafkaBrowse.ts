@@ -0,0 +1,75 @@
+/**
+ * Kafka topic browsing windows.
+ *
+ * A fetch reads a window [start, end) from each partition — from the beginning, the last N messages, a
+ * given offset or the first offset at a timestamp — and pages forward or back by moving those windows.
+ */
+
+export type KafkaStartPosition = 'beginning' | 'end' | 'offset' | 'timestamp'
+
+export interface KafkaConsumeOptions {
+  from: KafkaStartPosition
+  /** Only this partition; every partition when omitted */
+  partition?: number
+  /** Start offset for 'offset' */
+  offset?: number
+  /** Epoch milliseconds for 'timestamp' */
+  timestamp?: number
+  /** Start offset per partition, used when paging — overrides `from` */
+  offsets?: Record<number, number>
+  /** Messages per partition */
+  limit: number
+}
+
+export interface PartitionWatermarks {
+  partition: number
+  /** First retained offset */
+  low: number
+  /** Offset the next produced message will get */
+  high: number
+}
+
+export interface PartitionWindow extends PartitionWatermarks {
+  start: number
+  /** Exclusive */
+  end: number
+}
+
+const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high)
+
+/**
+ * Windows to read for a fetch. `timestampOffsets` holds the broker's answer for 'timestamp' — the first
+ * offset at or after the timestamp, or a negative offset when there is none.
+ */
+export const consumeWindows = (
+  watermarks: PartitionWatermarks[],
+  options: KafkaConsumeOptions,
+  timestampOffsets?: Map<number, number>
+): PartitionWindow[] => {
+  const limit = Math.max(1, options.limit)
+  return watermarks
+    .filter(w => options.partition === undefined || w.partition === options.partition)
+    .sort((a, b) => a.partition - b.partition)
+    .map(w => {
+      let start: number
+      if (options.offsets) start = options.offsets[w.partition] ?? w.high
+      else if (options.from === 'end') start = w.high - limit
+      else if (options.from === 'offset') start = options.offset ?? w.low
+      else if (options.from === 'timestamp') {
+        const found = timestampOffsets?.get(w.partition)
+        start = found === undefined || found < 0 ? w.high : found
+      } else start = w.low
+      start = clamp(start, w.low, w.high)
+      return { ...w, start, end: Math.min(start + limit, w.high) }
+    })
+}
+
+/** Start offsets for the next page, or null when every window already reaches the end of its partition */
+export const nextPageOffsets = (windows: PartitionWindow[]): Record<number, number> | null =>
+  windows.some(w => w.end < w.high) ? Object.fromEntries(windows.map(w => [w.partition, w.end])) : null
+
+/** Start offsets for the previous page, or null when every window starts at the first retained offset */
+export const previousPageOffsets = (windows: PartitionWindow[], limit: number): Record<number, number> | null =>
+  windows.some(w => w.start > w.low)
+    ? Object.fromEntries(windows.map(w => [w.partition, Math.max(w.low, w.start - Math.max(1, limit))]))
+    : null
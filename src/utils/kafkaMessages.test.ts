@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { appendToRing, matchesMessageFilter, type KafkaMessageDocument } from './kafkaMessages'
+
+describe('appendToRing', () => {
+  it('keeps the newest messages up to capacity', () => {
+    expect(appendToRing([1, 2, 3], [4, 5], 4)).toEqual([2, 3, 4, 5])
+    expect(appendToRing([1], [2], 4)).toEqual([1, 2])
+  })
+
+  it('returns the same buffer when nothing arrives', () => {
+    const buffer = [1, 2]
+    expect(appendToRing(buffer, [], 4)).toBe(buffer)
+  })
+})
+
+describe('matchesMessageFilter', () => {
+  const msg: KafkaMessageDocument = {
+    partition: 0, offset: '7', key: 'order-42', value: '{"status":"PAID"}', timestamp: '0',
+    headers: { 'trace-id': 'abc123', source: 'checkout' },
+  }
+
+  it('matches key, value and headers case-insensitively', () => {
+    expect(matchesMessageFilter(msg, { key: 'ORDER', value: 'paid' })).toBe(true)
+    expect(matchesMessageFilter(msg, { header: 'source=check' })).toBe(true)
+    expect(matchesMessageFilter(msg, { header: 'abc1' })).toBe(true)
+  })
+
+  it('requires every filter that is set', () => {
+    expect(matchesMessageFilter(msg, { key: 'order', header: 'missing' })).toBe(false)
+    expect(matchesMessageFilter({ ...msg, key: null }, { key: 'order' })).toBe(false)
+  })
+})
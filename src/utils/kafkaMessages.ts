@@ -0,0 +1,42 @@
+/**
+ * Client-side handling of consumed Kafka messages: the live tail's bounded buffer and the
+ * key / value / header filter shared by the message views.
+ */
+
+export interface KafkaMessageDocument {
+  partition: number
+  offset: string
+  key: string | null
+  value: string | null
+  timestamp: string
+  headers?: Record<string, string | undefined>
+  /** Registry schema ids of a Confluent wire-format key / value, which is shown decoded as JSON */
+  keySchemaId?: number
+  valueSchemaId?: number
+  /** Why a wire-format key or value could not be decoded; it is shown raw instead */
+  decodeError?: string
+}
+
+export interface KafkaMessageFilter {
+  key?: string
+  value?: string
+  /** Matched against `name=value` of each header */
+  header?: string
+}
+
+/** Append to a ring buffer: keeps the newest `capacity` messages, oldest first */
+export const appendToRing = <T>(buffer: T[], incoming: T[], capacity: number): T[] => {
+  if (incoming.length === 0) return buffer
+  const next = buffer.concat(incoming)
+  return next.length > capacity ? next.slice(next.length - capacity) : next
+}
+
+const contains = (text: string | null | undefined, needle: string) => (text || '').toLowerCase().includes(needle.toLowerCase())
+
+export const isFilterEmpty = (filter: KafkaMessageFilter) => !filter.key && !filter.value && !filter.header
+
+/** Case-insensitive substring match on every filter that is set */
+export const matchesMessageFilter = (msg: KafkaMessageDocument, filter: KafkaMessageFilter) =>
+  (!filter.key || contains(msg.key, filter.key)) &&
+  (!filter.value || contains(msg.value, filter.value)) &&
+  (!filter.header || Object.entries(msg.headers || {}).some(([name, value]) => contains(`${name}=${value ?? ''}`, filter.header!)))
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { planOffsetReset } from './kafkaOffsetReset'
+
+const watermarks = [
+  { partition: 1, low: 10, high: 50 },
+  { partition: 0, low: 0, high: 100 },
+]
+const committed = new Map([[0, 40], [1, 20]])
+
+const targets = (rows: ReturnType<typeof planOffsetReset>) => rows.map(r => [r.partition, r.current, r.target])
+
+describe('planOffsetReset', () => {
+  it('moves to the earliest or latest retained offset', () => {
+    expect(targets(planOffsetReset(watermarks, committed, { strategy: 'earliest' }))).toEqual([[0, 40, 0], [1, 20, 10]])
+    expect(targets(planOffsetReset(watermarks, committed, { strategy: 'latest', partitions: [1] }))).toEqual([[1, 20, 50]])
+  })
+
+  it('uses the broker offset for a datetime, or the end when nothing is later', () => {
+    const found = new Map([[0, 70], [1, -1]])
+    expect(targets(planOffsetReset(watermarks, committed, { strategy: 'datetime', timestamp: 1 }, found))).toEqual([[0, 40, 70], [1, 20, 50]])
+  })
+
+  it('resets only the partitions given an offset and clamps out-of-range targets', () => {
+    const rows = planOffsetReset(watermarks, committed, { strategy: 'offset', offsets: { 1: 5 } })
+    expect(targets(rows)).toEqual([[1, 20, 10]])
+    expect(rows[0].clamped).toBe(true)
+  })
+
+  it('shifts from the committed offset and leaves partitions without one alone', () => {
+    const partial = new Map([[0, 95]])
+    const rows = planOffsetReset(watermarks, partial, { strategy: 'shift', shiftBy: 10 })
+    expect(targets(rows)).toEqual([[0, 95, 100], [1, null, null]])
+    expect(targets(planOffsetReset(watermarks, committed, { strategy: 'current' }))).toEqual([[0, 40, 40], [1, 20, 20]])
+  })
+})
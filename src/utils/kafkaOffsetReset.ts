@@ -0,0 +1,70 @@
+/**
+ * Consumer group offset resets, modelled on `kafka-consumer-groups --reset-offsets`.
+ *
+ * A plan lists, per partition, the committed offset and the offset it would move to. Targets are
+ * clamped to the partition's retained range, as the CLI does.
+ */
+
+import type { PartitionWatermarks } from './kafkaBrowse'
+
+export type OffsetResetStrategy = 'earliest' | 'latest' | 'datetime' | 'offset' | 'shift' | 'current'
+
+export interface OffsetResetSpec {
+  strategy: OffsetResetStrategy
+  /** Epoch milliseconds for 'datetime' */
+  timestamp?: number
+  /** Target per partition for 'offset'; partitions left out are not reset */
+  offsets?: Record<number, number>
+  /** Messages to move by for 'shift' — negative moves back */
+  shiftBy?: number
+  /** Only these partitions; every partition when omitted */
+  partitions?: number[]
+}
+
+export interface OffsetResetRow {
+  partition: number
+  /** Committed offset, or null when the group has none for the partition */
+  current: number | null
+  /** Offset to commit, or null when the partition is left as it is */
+  target: number | null
+  low: number
+  high: number
+  /** The requested offset was outside the retained range */
+  clamped?: boolean
+}
+
+/**
+ * Plan a reset. `committed` holds the group's committed offsets; `timestampOffsets` the broker's
+ * answer for 'datetime' — the first offset at or after the timestamp, or negative when there is none.
+ */
+export const planOffsetReset = (
+  watermarks: PartitionWatermarks[],
+  committed: Map<number, number>,
+  spec: OffsetResetSpec,
+  timestampOffsets?: Map<number, number>
+): OffsetResetRow[] => {
+  const only = spec.partitions && new Set(spec.partitions)
+  return watermarks
+    .filter(w => !only || only.has(w.partition))
+    .filter(w => spec.strategy !== 'offset' || spec.offsets?.[w.partition] !== undefined)
+    .sort((a, b) => a.partition - b.partition)
+    .map(w => {
+      const current = committed.get(w.partition) ?? null
+      let requested: number | null
+      if (spec.strategy === 'earliest') requested = w.low
+      else if (spec.strategy === 'latest') requested = w.high
+      else if (spec.strategy === 'datetime') {
+        const found = timestampOffsets?.get(w.partition)
+        requested = found === undefined || found < 0 ? w.high : found
+      } else if (spec.strategy === 'offset') requested = spec.offsets![w.partition]
+      else if (spec.strategy === 'shift') requested = current === null ? null : current + (spec.shiftBy ?? 0)
+      else requested = current
+
+      if (requested === null) return { partition: w.partition, current, target: null, low: w.low, high: w.high }
+      const target = Math.min(Math.max(requested, w.low), w.high)
+      return {
+        partition: w.partition, current, target, low: w.low, high: w.high,
+        ...(target !== requested && { clamped: true }),
+      }
+    })
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatReassignmentPlan, parseReassignmentPlan, partitionHealth, proposeReassignment, reassignmentChanges, summarizePartitions,
+} from './kafkaPartitions'
+
+const partitions = [
+  { partitionId: 0, leader: 1, replicas: [1, 2], isr: [1, 2] },
+  { partitionId: 1, leader: 2, replicas: [2, 3], isr: [2] },
+  { partitionId: 2, leader: -1, replicas: [3, 1], isr: [] },
+]
+
+describe('partitionHealth', () => {
+  it('flags partitions without a leader or with replicas out of sync', () => {
+    expect(partitions.map(partitionHealth)).toEqual(['ok', 'under-replicated', 'offline'])
+    expect(summarizePartitions(partitions)).toEqual({ total: 3, underReplicated: 1, offline: 1 })
+  })
+})
+
+describe('proposeReassignment', () => {
+  it('spreads replicas and leaders round-robin over the chosen brokers', () => {
+    expect(proposeReassignment(partitions, [3, 1, 2])).toEqual([
+      { partition: 0, replicas: [1, 2] },
+      { partition: 1, replicas: [2, 3] },
+      { partition: 2, replicas: [3, 1] },
+    ])
+    expect(proposeReassignment(partitions, [4, 5], 1).map(a => a.replicas)).toEqual([[4], [5], [4]])
+  })
+
+  it('needs as many brokers as replicas', () => {
+    expect(() => proposeReassignment(partitions, [1])).toThrow('needs at least 2 brokers')
+  })
+})
+
+describe('reassignment plans', () => {
+  const plan = [{ partition: 0, replicas: [1, 2] }, { partition: 1, replicas: [3, 2] }]
+
+  it('lists only the partitions that move', () => {
+    expect(reassignmentChanges(partitions, plan)).toEqual([{ partition: 1, replicas: [3, 2], current: [2, 3] }])
+  })
+
+  it('round-trips the kafka-reassign-partitions format', () => {
+    expect(parseReassignmentPlan(formatReassignmentPlan('orders', plan), 'orders', [0, 1, 2], [1, 2, 3])).toEqual(plan)
+  })
+
+  it('rejects unknown partitions, unknown brokers and duplicate replicas', () => {
+    const text = (replicas: number[], partition = 0) => JSON.stringify({ version: 1, partitions: [{ topic: 'orders', partition, replicas }] })
+    expect(() => parseReassignmentPlan(text([1], 9), 'orders', [0], [1])).toThrow('does not exist')
+    expect(() => parseReassignmentPlan(text([1, 7]), 'orders', [0], [1])).toThrow('broker 7 is not in the cluster')
+    expect(() => parseReassignmentPlan(text([1, 1]), 'orders', [0], [1])).toThrow('lists a broker twice')
+    expect(() => parseReassignmentPlan(text([1]), 'payments', [0], [1])).toThrow('no partitions of payments')
+  })
+})
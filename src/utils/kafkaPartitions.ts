@@ -0,0 +1,114 @@
+/**
+ * Kafka partition health and replica reassignment plans.
+ *
+ * A partition is offline without a leader and under-replicated while some replica is out of the
+ * in-sync set. A reassignment moves each partition to a new replica list, the first being the
+ * preferred leader; plans use the JSON format of `kafka-reassign-partitions` so they can be
+ * exchanged with the CLI.
+ */
+
+export interface PartitionReplicas {
+  partitionId: number
+  /** -1 when the partition has no leader */
+  leader: number
+  replicas: number[]
+  isr: number[]
+  offlineReplicas?: number[]
+}
+
+export type PartitionHealth = 'ok' | 'under-replicated' | 'offline'
+
+export interface ReplicaAssignment {
+  partition: number
+  replicas: number[]
+}
+
+/** A partition that is moving, as the broker reports it */
+export interface OngoingReassignment {
+  topic: string
+  partition: number
+  replicas: number[]
+  addingReplicas: number[]
+  removingReplicas: number[]
+}
+
+export const partitionHealth = (p: PartitionReplicas): PartitionHealth => {
+  if (p.leader < 0) return 'offline'
+  return p.isr.length < p.replicas.length ? 'under-replicated' : 'ok'
+}
+
+export const summarizePartitions = (partitions: PartitionReplicas[]) => {
+  const health = partitions.map(partitionHealth)
+  return {
+    total: partitions.length,
+    underReplicated: health.filter(h => h === 'under-replicated').length,
+    offline: health.filter(h => h === 'offline').length,
+  }
+}
+
+/**
+ * Spread every partition's replicas round-robin over the brokers, shifting the start per partition
+ * so leaders are balanced too. Keeps each partition's replica count unless `replicationFactor` is given.
+ */
+export const proposeReassignment = (
+  partitions: PartitionReplicas[],
+  brokerIds: number[],
+  replicationFactor?: number
+): ReplicaAssignment[] => {
+  const brokers = [...new Set(brokerIds)].sort((a, b) => a - b)
+  if (brokers.length === 0) throw new Error('Select at least one broker')
+  return [...partitions]
+    .sort((a, b) => a.partitionId - b.partitionId)
+    .map((p, i) => {
+      const count = replicationFactor ?? p.replicas.length
+      if (count > brokers.length) throw new Error(`Replication factor ${count} needs at least ${count} brokers`)
+      return { partition: p.partitionId, replicas: Array.from({ length: count }, (_, r) => brokers[(i + r) % brokers.length]) }
+    })
+}
+
+/** Partitions whose replica list the plan changes, with their current replicas */
+export const reassignmentChanges = (partitions: PartitionReplicas[], plan: ReplicaAssignment[]) => {
+  const current = new Map(partitions.map(p => [p.partitionId, p.replicas]))
+  return plan
+    .filter(a => (current.get(a.partition) || []).join(',') !== a.replicas.join(','))
+    .map(a => ({ ...a, current: current.get(a.partition) || [] }))
+}
+
+/** A plan in the `kafka-reassign-partitions` JSON format */
+export const formatReassignmentPlan = (topic: string, plan: ReplicaAssignment[]) =>
+  JSON.stringify({ version: 1, partitions: plan.map(a => ({ topic, partition: a.partition, replicas: a.replicas })) }, null, 2)
+
+/**
+ * Read a `kafka-reassign-partitions` plan (entries for other topics are ignored) and check it
+ * against the topic's partitions and the cluster's brokers.
+ */
+export const parseReassignmentPlan = (text: string, topic: string, partitionIds: number[], brokerIds: number[]): ReplicaAssignment[] => {
+  let parsed: any
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The plan is not valid JSON')
+  }
+  if (!Array.isArray(parsed?.partitions)) throw new Error('The plan needs a "partitions" array')
+  const partitions = new Set(partitionIds)
+  const brokers = new Set(brokerIds)
+  const plan: ReplicaAssignment[] = []
+  for (const entry of parsed.partitions) {
+    if (entry?.topic !== topic) continue
+    const partition = entry.partition
+    if (!partitions.has(partition)) throw new Error(`Partition ${partition} does not exist`)
+    if (plan.some(a => a.partition === partition)) throw new Error(`Partition ${partition} is listed twice`)
+    validateReplicas(partition, entry.replicas, brokers)
+    plan.push({ partition, replicas: entry.replicas })
+  }
+  if (plan.length === 0) throw new Error(`The plan has no partitions of ${topic}`)
+  return plan.sort((a, b) => a.partition - b.partition)
+}
+
+/** Throws unless `replicas` is a non-empty list of distinct known broker ids */
+export const validateReplicas = (partition: number, replicas: unknown, brokers: Set<number>) => {
+  if (!Array.isArray(replicas) || replicas.length === 0) throw new Error(`Partition ${partition} needs at least one replica`)
+  if (new Set(replicas).size !== replicas.length) throw new Error(`Partition ${partition} lists a broker twice`)
+  const unknown = replicas.find(id => !brokers.has(id))
+  if (unknown !== undefined) throw new Error(`Partition ${partition}: broker ${unknown} is not in the cluster`)
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { addDeliveries, compileTemplate, deliveredOffsets, generateMessages, parseCsvMessages, parseJsonlMessages } from './kafkaProduce'
+
+const context = { uuid: () => 'u-1', now: () => Date.UTC(2026, 0, 2, 3, 4, 5), random: () => 0.6 }
+
+describe('generateMessages', () => {
+  it('fills the placeholders per message', () => {
+    const messages = generateMessages({
+      key: 'order-{{seq}}',
+      value: '{"id":"{{uuid}}","at":"{{now}}","ms":{{now:ms}},"status":"{{random:new|paid|sent}}"}',
+      partition: '{{random:0|1}}',
+      headers: { source: 'zentab-{{ seq }}' },
+    }, 0, 2, 10, context)
+    expect(messages).toEqual([
+      { key: 'order-10', value: '{"id":"u-1","at":"2026-01-02T03:04:05.000Z","ms":1767323045000,"status":"paid"}', partition: 1, headers: { source: 'zentab-10' } },
+      { key: 'order-11', value: '{"id":"u-1","at":"2026-01-02T03:04:05.000Z","ms":1767323045000,"status":"paid"}', partition: 1, headers: { source: 'zentab-11' } },
+    ])
+  })
+
+  it('rejects unknown placeholders and partitions that are not numbers', () => {
+    expect(() => compileTemplate('{{nope}}')).toThrow('Unknown placeholder {{nope}}')
+    expect(() => generateMessages({ value: 'x', partition: '{{random:a|b}}' }, 0, 1, 1, context)).toThrow('Message 1: partition "b"')
+  })
+})
+
+describe('message files', () => {
+  it('reads JSONL lines with or without message fields', () => {
+    expect(parseJsonlMessages('{"key":"k1","value":{"a":1},"partition":2,"headers":{"h":"v"}}\n\n{"a":2}\n')).toEqual([
+      { key: 'k1', value: '{"a":1}', partition: 2, headers: { h: 'v' } },
+      { value: '{"a":2}' },
+    ])
+    expect(parseJsonlMessages('[{"value":"x"},{"b":1}]')).toEqual([{ value: 'x' }, { value: '{"b":1}' }])
+    expect(() => parseJsonlMessages('{"value":1}\n{oops')).toThrow('Line 2: not valid JSON')
+  })
+
+  it('reads CSV with quoted fields and header columns', () => {
+    const csv = 'key,value,partition,header.trace\r\nk1,"{""a"":1, ""b"":""x,y""}",0,t-1\nk2,plain,,\n'
+    expect(parseCsvMessages(csv)).toEqual([
+      { key: 'k1', value: '{"a":1, "b":"x,y"}', partition: 0, headers: { trace: 't-1' } },
+      { key: 'k2', value: 'plain' },
+    ])
+    expect(() => parseCsvMessages('key\nk1')).toThrow('needs a "value" column')
+  })
+})
+
+describe('deliveredOffsets', () => {
+  it('reports the offsets each partition advanced by', () => {
+    expect(deliveredOffsets(
+      [{ partition: 0, high: 5 }, { partition: 1, high: 7 }],
+      [{ partition: 1, high: 9 }, { partition: 0, high: 5 }, { partition: 2, high: 3 }]
+    )).toEqual([
+      { partition: 1, count: 2, firstOffset: 7, lastOffset: 8, approximate: true },
+      { partition: 2, count: 3, firstOffset: 0, lastOffset: 2, approximate: true },
+    ])
+  })
+})
+
+describe('addDeliveries', () => {
+  it('counts only the run\'s own messages from each request\'s base offsets', () => {
+    const first = addDeliveries([], [{ partition: 0 }, { partition: 1 }, { partition: 0 }], [
+      { partition: 0, baseOffset: '10' },
+      { partition: 1, baseOffset: '4' },
+    ])
+    // Another producer wrote offsets 12–19 to partition 0 in between
+    const second = addDeliveries(first, [{ partition: 0 }], [{ partition: 0, baseOffset: '20' }])
+    expect(second).toEqual([
+      { partition: 0, count: 3, firstOffset: 10, lastOffset: 20 },
+      { partition: 1, count: 1, firstOffset: 4, lastOffset: 4 },
+    ])
+  })
+})
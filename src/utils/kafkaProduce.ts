@@ -0,0 +1,288 @@
+/**
+ * Kafka bulk producing: messages generated from a template or read from a JSONL / CSV file.
+ *
+ * Templates fill placeholders per message — `{{seq}}`, `{{uuid}}`, `{{now}}` (ISO time),
+ * `{{now:ms}}` (epoch milliseconds) and `{{random:a|b|c}}` — in the key, value, partition and header
+ * values. Files give each message its own key, partition and headers.
+ */
+
+export interface BulkMessage {
+  key?: string
+  value: string
+  /** The producer's partitioner chooses when omitted */
+  partition?: number
+  headers?: Record<string, string>
+}
+
+export interface KafkaMessageTemplate {
+  key?: string
+  value: string
+  /** A template too, so it can be e.g. `{{random:0|1|2}}`; empty lets the partitioner choose */
+  partition?: string
+  headers?: Record<string, string>
+}
+
+export type KafkaBulkSource =
+  | { kind: 'template'; template: KafkaMessageTemplate; count: number; /** First `{{seq}}` value, 1 when omitted */ sequenceStart?: number }
+  | { kind: 'messages'; messages: BulkMessage[] }
+
+export type KafkaCompression = 'none' | 'gzip' | 'snappy' | 'lz4' | 'zstd'
+
+export interface KafkaBulkProduceOptions {
+  compression: KafkaCompression
+  /** Produce at most this many messages per second; unlimited when 0 or omitted */
+  messagesPerSecond?: number
+  /** Messages per produce request */
+  batchSize?: number
+  /** -1 waits for all in-sync replicas, 1 for the leader only, 0 for no acknowledgement */
+  acks?: -1 | 0 | 1
+}
+
+/** Where the run's messages landed in one partition */
+export interface PartitionDelivery {
+  partition: number
+  /** Messages written */
+  count: number
+  firstOffset: number
+  /** Inclusive; other producers' messages may sit between the first and the last */
+  lastOffset: number
+  /** From the high watermarks (acks 0 returns no offsets), so it also counts other producers' messages */
+  approximate?: boolean
+}
+
+/** Pushed to the renderer after each produce request and once when the run ends */
+export interface KafkaBulkProduceProgress {
+  produceId: string
+  sent: number
+  total: number
+  elapsedMs: number
+  done?: boolean
+  cancelled?: boolean
+  error?: string
+  /** Index of the first message of the request that failed */
+  failedAt?: number
+  /** On the final event */
+  partitions?: PartitionDelivery[]
+}
+
+export interface TemplateContext {
+  seq: number
+  uuid: () => string
+  now: () => number
+  random: () => number
+}
+
+/** Compile a template into a function of the per-message context; throws on an unknown placeholder */
+export const compileTemplate = (text: string): ((ctx: TemplateContext) => string) => {
+  const parts: Array<string | ((ctx: TemplateContext) => string)> = []
+  let last = 0
+  for (const match of text.matchAll(/\{\{\s*([a-z]+)(?::([^}]*))?\s*\}\}/g)) {
+    parts.push(text.slice(last, match.index))
+    last = match.index! + match[0].length
+    const [, name, arg] = match
+    if (name === 'seq' && arg === undefined) parts.push(ctx => String(ctx.seq))
+    else if (name === 'uuid' && arg === undefined) parts.push(ctx => ctx.uuid())
+    else if (name === 'now' && arg === undefined) parts.push(ctx => new Date(ctx.now()).toISOString())
+    else if (name === 'now' && arg === 'ms') parts.push(ctx => String(ctx.now()))
+    else if (name === 'random' && arg) {
+      const choices = arg.split('|')
+      parts.push(ctx => choices[Math.min(choices.length - 1, Math.floor(ctx.random() * choices.length))])
+    } else {
+      throw new Error(`Unknown placeholder ${match[0]}`)
+    }
+  }
+  parts.push(text.slice(last))
+  return ctx => parts.map(p => typeof p === 'string' ? p : p(ctx)).join('')
+}
+
+const defaultContext = { uuid: () => crypto.randomUUID(), now: Date.now, random: Math.random }
+
+/**
+ * Messages `from` (inclusive) to `to` (exclusive) of a template run. The template is compiled once
+ * per call, so generate in chunks rather than message by message.
+ */
+export const generateMessages = (
+  template: KafkaMessageTemplate,
+  from: number,
+  to: number,
+  sequenceStart = 1,
+  context: Omit<TemplateContext, 'seq'> = defaultContext
+): BulkMessage[] => {
+  const key = template.key ? compileTemplate(template.key) : null
+  const value = compileTemplate(template.value)
+  const partition = template.partition?.trim() ? compileTemplate(template.partition.trim()) : null
+  const headers = Object.entries(template.headers || {}).map(([name, text]) => [name, compileTemplate(text)] as const)
+
+  const messages: BulkMessage[] = []
+  for (let i = from; i < to; i++) {
+    const ctx = { ...context, seq: sequenceStart + i }
+    const message: BulkMessage = { value: value(ctx) }
+    if (key) message.key = key(ctx)
+    if (partition) message.partition = toPartition(partition(ctx), `Message ${i + 1}`)
+    if (headers.length > 0) message.headers = Object.fromEntries(headers.map(([name, header]) => [name, header(ctx)]))
+    messages.push(message)
+  }
+  return messages
+}
+
+const toPartition = (text: string, where: string) => {
+  const partition = Number(text)
+  if (!Number.isInteger(partition) || partition < 0) throw new Error(`${where}: partition "${text}" is not a partition number`)
+  return partition
+}
+
+const toText = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value)
+
+/** A JSON entry with a `value` field may also set `key`, `partition` and `headers`; any other entry is itself the value */
+const toBulkMessage = (input: unknown, where: string): BulkMessage => {
+  if (!input || typeof input !== 'object' || Array.isArray(input) || !('value' in input)) return { value: toText(input) }
+  const entry = input as Record<string, unknown>
+  const message: BulkMessage = { value: toText(entry.value) }
+  if (entry.key != null) message.key = toText(entry.key)
+  if (entry.partition != null && entry.partition !== '') message.partition = toPartition(String(entry.partition), where)
+  if (entry.headers && typeof entry.headers === 'object') {
+    message.headers = Object.fromEntries(Object.entries(entry.headers).map(([name, v]) => [name, toText(v)]))
+  }
+  return message
+}
+
+/** One JSON message per line, or a single JSON array of messages */
+export const parseJsonlMessages = (text: string): BulkMessage[] => {
+  if (text.trimStart().startsWith('[')) {
+    let entries: unknown
+    try {
+      entries = JSON.parse(text)
+    } catch {
+      throw new Error('The file is not a valid JSON array')
+    }
+    return (entries as unknown[]).map((entry, i) => toBulkMessage(entry, `Entry ${i + 1}`))
+  }
+  const messages: BulkMessage[] = []
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return
+    let entry: unknown
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      throw new Error(`Line ${i + 1}: not valid JSON`)
+    }
+    messages.push(toBulkMessage(entry, `Line ${i + 1}`))
+  })
+  return messages
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, newlines and doubled quotes */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"' && field === '') quoted = true
+    else if (c === ',') { row.push(field); field = '' }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field); field = ''
+      rows.push(row); row = []
+    } else field += c
+  }
+  if (quoted) throw new Error('Unterminated quoted field')
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row) }
+  return rows.filter(r => r.some(f => f !== ''))
+}
+
+/**
+ * The first row names the columns: `value` (required), `key`, `partition` and `header.<name>` for
+ * each header. Empty keys, partitions and headers are left out of the message.
+ */
+export const parseCsvMessages = (text: string): BulkMessage[] => {
+  const [columns, ...rows] = parseCsvRows(text)
+  if (!columns) return []
+  const names = columns.map(c => c.trim())
+  const valueIndex = names.indexOf('value')
+  if (valueIndex < 0) throw new Error('The CSV needs a "value" column')
+  const keyIndex = names.indexOf('key')
+  const partitionIndex = names.indexOf('partition')
+  const headerColumns = names.flatMap((name, i) => name.startsWith('header.') ? [[name.slice(7), i] as const] : [])
+
+  return rows.map((row, r) => {
+    const message: BulkMessage = { value: row[valueIndex] ?? '' }
+    if (keyIndex >= 0 && row[keyIndex]) message.key = row[keyIndex]
+    if (partitionIndex >= 0 && row[partitionIndex]?.trim()) message.partition = toPartition(row[partitionIndex].trim(), `Row ${r + 2}`)
+    const headers = headerColumns.filter(([, i]) => row[i]).map(([name, i]) => [name, row[i]])
+    if (headers.length > 0) message.headers = Object.fromEntries(headers)
+    return message
+  })
+}
+
+/** Messages from a `.jsonl` / `.ndjson` / `.json` or `.csv` file, by extension */
+export const parseMessageFile = (fileName: string, text: string): BulkMessage[] => {
+  if (/\.csv$/i.test(fileName)) return parseCsvMessages(text)
+  if (/\.(jsonl|ndjson|json)$/i.test(fileName)) return parseJsonlMessages(text)
+  throw new Error('Use a .jsonl, .ndjson, .json or .csv file')
+}
+
+/**
+ * Fold one produce request's RecordMetadata into the run's deliveries. `messages` must have their partitions
+ * resolved: a partition's messages in one request are written from its `baseOffset` on, one offset each.
+ */
+export const addDeliveries = (
+  deliveries: PartitionDelivery[],
+  messages: Array<{ partition?: number }>,
+  metadata: Array<{ partition: number; baseOffset?: string }>
+): PartitionDelivery[] => {
+  const counts = new Map<number, number>()
+  for (const m of messages) {
+    if (m.partition !== undefined) counts.set(m.partition, (counts.get(m.partition) ?? 0) + 1)
+  }
+  const byPartition = new Map(deliveries.map(d => [d.partition, d]))
+  for (const { partition, baseOffset } of metadata) {
+    const count = counts.get(partition)
+    if (!count || baseOffset === undefined) continue
+    const previous = byPartition.get(partition)
+    byPartition.set(partition, {
+      partition,
+      count: (previous?.count ?? 0) + count,
+      firstOffset: previous?.firstOffset ?? Number(baseOffset),
+      lastOffset: Number(baseOffset) + count - 1,
+    })
+  }
+  return [...byPartition.values()].sort((a, b) => a.partition - b.partition)
+}
+
+/** Fallback for acks 0: how far each partition's high watermark moved during the run */
+export const deliveredOffsets = (
+  before: Array<{ partition: number; high: number }>,
+  after: Array<{ partition: number; high: number }>
+): PartitionDelivery[] => {
+  const start = new Map(before.map(w => [w.partition, w.high]))
+  return after
+    .map(w => {
+      const firstOffset = start.get(w.partition) ?? 0
+      return { partition: w.partition, count: w.high - firstOffset, firstOffset, lastOffset: w.high - 1, approximate: true }
+    })
+    .filter(d => d.count > 0)
+    .sort((a, b) => a.partition - b.partition)
+}
+
+/** The delivery report as text to copy */
+export const formatDeliveryReport = (topic: string, progress: KafkaBulkProduceProgress) => {
+  const status = progress.error ? `failed: ${progress.error}` : progress.cancelled ? 'cancelled' : 'complete'
+  const seconds = progress.elapsedMs / 1000
+  const lines = [
+    `Topic: ${topic}`,
+    `Status: ${status}`,
+    `Sent: ${progress.sent} of ${progress.total} in ${seconds.toFixed(1)}s` + (seconds > 0 ? ` (${Math.round(progress.sent / seconds)} msg/s)` : ''),
+  ]
+  if (progress.failedAt !== undefined) lines.push(`First unsent message: #${progress.failedAt + 1}`)
+  for (const d of progress.partitions || []) {
+    const source = d.approximate ? ' — from the high watermarks, may include other producers' : ''
+    lines.push(`Partition ${d.partition}: offsets ${d.firstOffset}–${d.lastOffset} (${d.count})${source}`)
+  }
+  return lines.join('\n')
+}
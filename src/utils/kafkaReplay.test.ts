@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { createReplayFilter, replayTotal, replayWindows, throttleDelay, toReplayMessage } from './kafkaReplay'
+
+const watermarks = [{ partition: 0, low: 10, high: 100 }, { partition: 1, low: 0, high: 50 }]
+const ranges = (selection: Parameters<typeof replayWindows>[1], start?: Map<number, number>, end?: Map<number, number>) =>
+  replayWindows(watermarks, selection, start, end).map(w => [w.partition, w.start, w.end])
+
+describe('replayWindows', () => {
+  it('clamps an offset range to what each partition retains', () => {
+    expect(ranges({ kind: 'offsets' })).toEqual([[0, 10, 100], [1, 0, 50]])
+    expect(ranges({ kind: 'offsets', partitions: [0], start: 5, end: 40 })).toEqual([[0, 10, 40]])
+    expect(ranges({ kind: 'offsets', start: 60 })).toEqual([[0, 60, 100], [1, 50, 50]])
+  })
+
+  it('reads a time range between the offsets the broker found', () => {
+    expect(ranges({ kind: 'time', from: 1, to: 2 }, new Map([[0, 20], [1, 30]]), new Map([[0, 25], [1, -1]])))
+      .toEqual([[0, 20, 25], [1, 30, 50]])
+  })
+
+  it('spans the listed messages of each partition', () => {
+    const messages = [{ partition: 1, offset: '7' }, { partition: 1, offset: '3' }, { partition: 0, offset: '42' }]
+    expect(ranges({ kind: 'messages', messages })).toEqual([[0, 42, 43], [1, 3, 8]])
+  })
+
+  it('resumes from the reported positions', () => {
+    expect(ranges({ kind: 'offsets', resumeFrom: { 0: 70, 1: 80 } })).toEqual([[0, 70, 100], [1, 50, 50]])
+    const messages = [{ partition: 1, offset: '3' }, { partition: 1, offset: '7' }]
+    const selection = { kind: 'messages' as const, messages, resumeFrom: { 1: 4 } }
+    expect(replayTotal(selection, replayWindows(watermarks, selection))).toBe(1)
+  })
+})
+
+describe('createReplayFilter', () => {
+  it('keeps listed messages or those inside the time range', () => {
+    const listed = createReplayFilter({ kind: 'messages', messages: [{ partition: 1, offset: '3' }] })
+    expect([listed(1, '3', 0), listed(1, '4', 0), listed(0, '3', 0)]).toEqual([true, false, false])
+    const timed = createReplayFilter({ kind: 'time', from: 100, to: 200 })
+    expect([timed(0, '0', 99), timed(0, '0', 100), timed(0, '0', 200)]).toEqual([false, true, false])
+  })
+})
+
+describe('throttleDelay', () => {
+  it('spreads messages over the requested rate', () => {
+    expect(throttleDelay(100, 0)).toBe(0)
+    expect(throttleDelay(100, 400, 100)).toBe(600)
+    expect(throttleDelay(100, 1500, 100)).toBe(0)
+  })
+})
+
+describe('toReplayMessage', () => {
+  const consumed = { key: 'k', value: 'v', headers: { trace: 't' }, timestamp: '1700000000000' }
+
+  it('copies only what the options preserve', () => {
+    expect(toReplayMessage(2, consumed, { preserveKeys: false, preserveHeaders: false, preserveTimestamps: false })).toEqual({ value: 'v' })
+    expect(toReplayMessage(2, consumed, { preserveKeys: true, preserveHeaders: true, preserveTimestamps: true, preservePartitions: true }))
+      .toEqual({ ...consumed, partition: 2 })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Kafka replay: copying a selection of messages from one topic to another, possibly on another cluster.
+ *
+ * A replay reads an offset range, a time range or a list of messages (e.g. search hits) from the
+ * source topic and produces the raw bytes to the destination. Progress reports the next offset to
+ * copy on each partition, so an interrupted replay can resume where it stopped.
+ */
+
+import { searchWindows } from './kafkaSearch'
+import type { PartitionWatermarks, PartitionWindow } from './kafkaBrowse'
+
+export type KafkaReplaySelection = (
+  | {
+      kind: 'offsets'
+      /** Only these partitions; every partition when omitted */
+      partitions?: number[]
+      /** First offset to copy; the first retained offset when omitted */
+      start?: number
+      /** Exclusive; the end of the partition when omitted */
+      end?: number
+    }
+  | {
+      kind: 'time'
+      partitions?: number[]
+      /** Epoch milliseconds; messages before `from` or at/after `to` are skipped */
+      from?: number
+      to?: number
+    }
+  | { kind: 'messages'; messages: Array<{ partition: number; offset: string }> }
+) & {
+  /** Next offset to copy per partition, from an earlier replay's progress */
+  resumeFrom?: Record<number, number>
+}
+
+export interface KafkaReplayOptions {
+  preserveKeys: boolean
+  preserveHeaders: boolean
+  preserveTimestamps: boolean
+  /** Produce to the source message's partition instead of letting the producer choose */
+  preservePartitions?: boolean
+  /** Produce at most this many messages per second; unlimited when 0 or omitted */
+  messagesPerSecond?: number
+}
+
+/** Pushed to the renderer after each produced chunk and once when the replay ends */
+export interface KafkaReplayProgress {
+  replayId: string
+  produced: number
+  scanned: number
+  total: number
+  /** Next offset to copy per partition — `resumeFrom` for a replay that picks up from here */
+  positions: Record<number, number>
+  done?: boolean
+  cancelled?: boolean
+  error?: string
+}
+
+const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high)
+
+/**
+ * Windows a replay reads. For a time range, `startOffsets` / `endOffsets` hold the broker's first
+ * offsets at `from` / `to`, as for a search.
+ */
+export const replayWindows = (
+  watermarks: PartitionWatermarks[],
+  selection: KafkaReplaySelection,
+  startOffsets?: Map<number, number>,
+  endOffsets?: Map<number, number>
+): PartitionWindow[] => {
+  let windows: PartitionWindow[]
+  if (selection.kind === 'time') {
+    windows = searchWindows(watermarks, selection.partitions, startOffsets, endOffsets)
+  } else if (selection.kind === 'offsets') {
+    windows = searchWindows(watermarks, selection.partitions).map(w => {
+      const start = clamp(selection.start ?? w.low, w.low, w.high)
+      return { ...w, start, end: Math.max(start, clamp(selection.end ?? w.high, w.low, w.high)) }
+    })
+  } else {
+    const ranges = new Map<number, { start: number; end: number }>()
+    for (const { partition, offset } of selection.messages) {
+      const o = Number(offset)
+      const range = ranges.get(partition)
+      ranges.set(partition, range ? { start: Math.min(range.start, o), end: Math.max(range.end, o + 1) } : { start: o, end: o + 1 })
+    }
+    windows = searchWindows(watermarks, [...ranges.keys()]).map(w => {
+      const range = ranges.get(w.partition)!
+      const start = clamp(range.start, w.low, w.high)
+      return { ...w, start, end: Math.max(start, clamp(range.end, w.low, w.high)) }
+    })
+  }
+  const resume = selection.resumeFrom
+  if (!resume) return windows
+  return windows.map(w => {
+    const next = resume[w.partition]
+    return next === undefined ? w : { ...w, start: clamp(next, w.start, w.end) }
+  })
+}
+
+/** Whether a message read from the windows belongs to the selection */
+export const createReplayFilter = (selection: KafkaReplaySelection): ((partition: number, offset: string, timestamp: number) => boolean) => {
+  if (selection.kind === 'messages') {
+    const wanted = new Set(selection.messages.map(m => `${m.partition}:${m.offset}`))
+    return (partition, offset) => wanted.has(`${partition}:${offset}`)
+  }
+  if (selection.kind === 'time') {
+    const { from, to } = selection
+    return (_partition, _offset, timestamp) => (from === undefined || timestamp >= from) && (to === undefined || timestamp < to)
+  }
+  return () => true
+}
+
+/** Messages a replay will read: the listed messages still ahead, or every offset of the windows */
+export const replayTotal = (selection: KafkaReplaySelection, windows: PartitionWindow[]) => {
+  if (selection.kind !== 'messages') return windows.reduce((sum, w) => sum + (w.end - w.start), 0)
+  const byPartition = new Map(windows.map(w => [w.partition, w]))
+  return selection.messages.filter(m => {
+    const w = byPartition.get(m.partition)
+    return !!w && Number(m.offset) >= w.start && Number(m.offset) < w.end
+  }).length
+}
+
+/** Milliseconds to wait before producing more, so `produced` messages take at least `produced / rate` seconds */
+export const throttleDelay = (produced: number, elapsedMs: number, messagesPerSecond?: number) =>
+  messagesPerSecond && messagesPerSecond > 0 ? Math.max(0, Math.ceil((produced * 1000) / messagesPerSecond - elapsedMs)) : 0
+
+/** The message to produce for a consumed one, keeping only what the options preserve */
+export const toReplayMessage = <K, V, H>(
+  partition: number,
+  message: { key: K; value: V; headers?: H; timestamp: string },
+  options: KafkaReplayOptions
+) => ({
+  value: message.value,
+  ...(options.preserveKeys ? { key: message.key } : {}),
+  ...(options.preserveHeaders && message.headers ? { headers: message.headers } : {}),
+  ...(options.preserveTimestamps ? { timestamp: message.timestamp } : {}),
+  ...(options.preservePartitions ? { partition } : {}),
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { createMessageMatcher, parseJsonPath, searchWindows, selectJsonPath } from './kafkaSearch'
+import type { KafkaMessageDocument } from './kafkaMessages'
+
+const message = (value: string | null, key: string | null = null, headers: Record<string, string> = {}): KafkaMessageDocument =>
+  ({ partition: 0, offset: '0', key, value, timestamp: '0', headers })
+
+const order = JSON.stringify({ id: 7, customer: { name: 'Ada', tier: 'gold' }, items: [{ sku: 'A-1' }, { sku: 'B-2' }] })
+
+describe('searchWindows', () => {
+  const watermarks = [{ partition: 1, low: 0, high: 50 }, { partition: 0, low: 10, high: 100 }]
+
+  it('scans every retained offset of the chosen partitions', () => {
+    expect(searchWindows(watermarks).map(w => [w.partition, w.start, w.end])).toEqual([[0, 10, 100], [1, 0, 50]])
+    expect(searchWindows(watermarks, [1]).map(w => w.partition)).toEqual([1])
+  })
+
+  it('narrows to a time window and treats a missing offset as the end', () => {
+    const start = new Map([[0, 40], [1, -1]])
+    const end = new Map([[0, 60], [1, -1]])
+    expect(searchWindows(watermarks, undefined, start, end).map(w => [w.start, w.end])).toEqual([[40, 60], [50, 50]])
+  })
+})
+
+describe('JSONPath', () => {
+  const select = (path: string) => selectJsonPath(JSON.parse(order), parseJsonPath(path))
+
+  it('selects members, indexes, wildcards and descendants', () => {
+    expect(select('$.customer.name')).toEqual(['Ada'])
+    expect(select("$['items'][1].sku")).toEqual(['B-2'])
+    expect(select('$.items[*].sku')).toEqual(['A-1', 'B-2'])
+    expect(select('$..sku')).toEqual(['A-1', 'B-2'])
+    expect(select('$.missing')).toEqual([])
+  })
+
+  it('rejects expressions it does not understand', () => {
+    expect(() => parseJsonPath('customer.name')).toThrow('must start with $')
+    expect(() => parseJsonPath('$.items[?(@.sku)]')).toThrow('Unsupported')
+  })
+})
+
+describe('createMessageMatcher', () => {
+  it('matches substrings and regular expressions, case-insensitive by default', () => {
+    expect(createMessageMatcher({ field: 'value', mode: 'contains', pattern: 'ADA' })(message(order))).toBe(true)
+    expect(createMessageMatcher({ field: 'value', mode: 'contains', pattern: 'ADA', caseSensitive: true })(message(order))).toBe(false)
+    expect(createMessageMatcher({ field: 'key', mode: 'regex', pattern: '^order-\\d+$' })(message(null, 'order-12'))).toBe(true)
+  })
+
+  it('matches a JSONPath by presence or by value and skips non-JSON values', () => {
+    expect(createMessageMatcher({ field: 'value', mode: 'jsonpath', pattern: '$.customer.tier' })(message(order))).toBe(true)
+    expect(createMessageMatcher({ field: 'value', mode: 'jsonpath', pattern: '$.id', equals: '7' })(message(order))).toBe(true)
+    expect(createMessageMatcher({ field: 'value', mode: 'jsonpath', pattern: '$.id', equals: '8' })(message(order))).toBe(false)
+    expect(createMessageMatcher({ field: 'value', mode: 'jsonpath', pattern: '$.id' })(message('plain text'))).toBe(false)
+  })
+
+  it('looks in one named header or all of them', () => {
+    const msg = message(order, null, { source: 'billing', trace: 'abc' })
+    expect(createMessageMatcher({ field: 'header', mode: 'contains', pattern: 'bill', header: 'source' })(msg)).toBe(true)
+    expect(createMessageMatcher({ field: 'header', mode: 'contains', pattern: 'bill', header: 'trace' })(msg)).toBe(false)
+    expect(createMessageMatcher({ field: 'header', mode: 'contains', pattern: 'abc' })(msg)).toBe(true)
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Kafka topic search: which offsets a search scans and whether a message matches.
+ *
+ * A search reads every partition (or the chosen ones) from the first offset of its time window to
+ * the offset it ends at, and keeps the messages whose key, value or a header matches a substring,
+ * a regular expression or a JSONPath expression.
+ */
+
+import type { PartitionWatermarks, PartitionWindow } from './kafkaBrowse'
+import type { KafkaMessageDocument } from './kafkaMessages'
+
+export type KafkaSearchField = 'key' | 'value' | 'header'
+export type KafkaSearchMode = 'contains' | 'regex' | 'jsonpath'
+
+export interface KafkaSearchCriteria {
+  field: KafkaSearchField
+  mode: KafkaSearchMode
+  /** Substring, regular expression or JSONPath expression */
+  pattern: string
+  /** Header to look in for 'header'; every header when empty */
+  header?: string
+  /** For 'jsonpath': a selected value must equal this; any selected value matches when empty */
+  equals?: string
+  caseSensitive?: boolean
+}
+
+export interface KafkaSearchOptions {
+  criteria: KafkaSearchCriteria
+  /** Only these partitions; every partition when omitted */
+  partitions?: number[]
+  /** Epoch milliseconds; messages before `from` or at/after `to` are skipped */
+  from?: number
+  to?: number
+  /** Stop once this many messages matched */
+  maxResults: number
+}
+
+/** Pushed to the renderer after each scanned batch and once when the search ends */
+export interface KafkaSearchProgress {
+  searchId: string
+  hits?: KafkaMessageDocument[]
+  scanned: number
+  total: number
+  done?: boolean
+  /** Stopped at `maxResults` */
+  truncated?: boolean
+  cancelled?: boolean
+  error?: string
+}
+
+/**
+ * Windows a search scans. `startOffsets` / `endOffsets` hold the broker's first offsets at the
+ * window's `from` / `to` timestamps — negative when no message is that late, which means the end.
+ */
+export const searchWindows = (
+  watermarks: PartitionWatermarks[],
+  partitions?: number[],
+  startOffsets?: Map<number, number>,
+  endOffsets?: Map<number, number>
+): PartitionWindow[] => {
+  const only = partitions && partitions.length > 0 ? new Set(partitions) : undefined
+  const resolve = (found: number | undefined, fallback: number, w: PartitionWatermarks) =>
+    found === undefined ? fallback : found < 0 ? w.high : Math.min(Math.max(found, w.low), w.high)
+  return watermarks
+    .filter(w => !only || only.has(w.partition))
+    .sort((a, b) => a.partition - b.partition)
+    .map(w => {
+      const start = resolve(startOffsets?.get(w.partition), w.low, w)
+      const end = Math.max(start, resolve(endOffsets?.get(w.partition), w.high, w))
+      return { ...w, start, end }
+    })
+}
+
+type PathStep = { key: string } | { index: number } | { wildcard: true } | { descend: string | '*' }
+
+/** Parse the JSONPath subset the search supports: `$`, `.name`, `['name']`, `[0]`, `[*]`, `.*` and `..name` */
+export const parseJsonPath = (expression: string): PathStep[] => {
+  const path = expression.trim()
+  if (!path.startsWith('$')) throw new Error('JSONPath must start with $')
+  const steps: PathStep[] = []
+  let i = 1
+  const name = () => {
+    const match = /^[A-Za-z_$][\w$-]*|^\*/.exec(path.slice(i))
+    if (!match) throw new Error(`Invalid JSONPath at position ${i}`)
+    i += match[0].length
+    return match[0]
+  }
+  while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2
+      steps.push({ descend: name() })
+    } else if (path[i] === '.') {
+      i += 1
+      const key = name()
+      steps.push(key === '*' ? { wildcard: true } : { key })
+    } else if (path[i] === '[') {
+      const close = path.indexOf(']', i)
+      if (close < 0) throw new Error('Unclosed [ in JSONPath')
+      const inner = path.slice(i + 1, close).trim()
+      if (inner === '*') steps.push({ wildcard: true })
+      else if (/^-?\d+$/.test(inner)) steps.push({ index: Number(inner) })
+      else if (/^(['"]).*\1$/.test(inner)) steps.push({ key: inner.slice(1, -1) })
+      else throw new Error(`Unsupported JSONPath selector [${inner}]`)
+      i = close + 1
+    } else {
+      throw new Error(`Invalid JSONPath at position ${i}`)
+    }
+  }
+  return steps
+}
+
+const children = (value: unknown): unknown[] =>
+  value !== null && typeof value === 'object' ? Object.values(value as Record<string, unknown>) : []
+
+const descendants = (value: unknown): unknown[] => [value, ...children(value).flatMap(descendants)]
+
+/** Values a parsed path selects from a document */
+export const selectJsonPath = (document: unknown, steps: PathStep[]): unknown[] =>
+  steps.reduce<unknown[]>((values, step) => values.flatMap(value => {
+    if ('descend' in step) {
+      return descendants(value).flatMap(node =>
+        step.descend === '*' ? children(node) : node !== null && typeof node === 'object' && step.descend in node ? [(node as Record<string, unknown>)[step.descend]] : []
+      )
+    }
+    if ('wildcard' in step) return children(value)
+    if ('index' in step) {
+      if (!Array.isArray(value)) return []
+      const item = value[step.index < 0 ? value.length + step.index : step.index]
+      return item === undefined ? [] : [item]
+    }
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && step.key in value ? [(value as Record<string, unknown>)[step.key]] : []
+  }), [document])
+
+const scalarText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value))
+
+/** Build a matcher for the criteria; throws on an invalid regular expression or JSONPath */
+export const createMessageMatcher = (criteria: KafkaSearchCriteria): ((message: KafkaMessageDocument) => boolean) => {
+  const flags = criteria.caseSensitive ? '' : 'i'
+  let test: (text: string) => boolean
+  if (criteria.mode === 'regex') {
+    const regex = new RegExp(criteria.pattern, flags)
+    test = text => regex.test(text)
+  } else if (criteria.mode === 'jsonpath') {
+    const steps = parseJsonPath(criteria.pattern)
+    const equals = criteria.equals?.trim()
+    const same = (a: string, b: string) => (criteria.caseSensitive ? a === b : a.toLowerCase() === b.toLowerCase())
+    test = text => {
+      let document: unknown
+      try { document = JSON.parse(text) } catch { return false }
+      const selected = selectJsonPath(document, steps)
+      return equals ? selected.some(value => same(scalarText(value), equals)) : selected.length > 0
+    }
+  } else {
+    const needle = criteria.caseSensitive ? criteria.pattern : criteria.pattern.toLowerCase()
+    test = text => (criteria.caseSensitive ? text : text.toLowerCase()).includes(needle)
+  }
+
+  return (message) => {
+    if (criteria.field !== 'header') {
+      const text = message[criteria.field]
+      return text !== null && test(text)
+    }
+    const header = criteria.header?.trim()
+    return Object.entries(message.headers || {}).some(([name, value]) =>
+      value !== undefined && (!header || name === header) && test(value)
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+/**
+ * A MongoClient stand-in with one slow collection: find().toArray() only settles once its cursor is closed,
+ * and every read records the abort signal it was given.
+ */
+const fakeMongo = vi.hoisted(() => {
+  const calls: string[] = []
+  const signals: AbortSignal[] = []
+  const cursors: { closed: boolean }[] = []
+
+  const collection = {
+    find: (_filter: unknown, options: { signal: AbortSignal }) => {
+      signals.push(options.signal)
+      let finish: (docs: unknown[]) => void = () => {}
+      const cursor = {
+        closed: false,
+        toArray: () => { calls.push('toArray'); return new Promise(resolve => { finish = resolve }) },
+        close: async () => { cursor.closed = true; finish([]) },
+      }
+      cursors.push(cursor)
+      return cursor
+    },
+    findOne: async (_filter: unknown, options: { signal: AbortSignal }) => { signals.push(options.signal); calls.push('findOne'); return { n: 1 } },
+    insertOne: async () => { calls.push('insertOne'); return { acknowledged: true } },
+  }
+  const client = { db: () => ({ collection: () => collection }) }
+
+  return { calls, signals, cursors, client }
+})
+
+vi.mock('../../electron/mongodb', async (importOriginal) => ({
+  ...await importOriginal<object>(),
+  getMongoClient: () => fakeMongo.client,
+}))
+
+type ScriptResult = { success: boolean; error?: string; documents?: unknown[]; output?: string[] }
+
+/** The parts of electron/mongodb-shell.ts under test — electron/ is its own TypeScript project, so its types aren't importable here */
+interface MongoShell {
+  mongoRunScript: (connectionId: string, database: string, script: string) => Promise<ScriptResult>
+}
+
+const { mongoRunScript } = await vi.importActual<MongoShell>('../../electron/mongodb-shell')
+
+afterEach(() => {
+  vi.useRealTimers()
+  fakeMongo.calls.length = 0
+  fakeMongo.signals.length = 0
+  fakeMongo.cursors.length = 0
+})
+
+describe('mongoRunScript', () => {
+  it('passes the run\'s abort signal to reads', async () => {
+    const result = await mongoRunScript('c1', 'shop', 'db.items.findOne({})')
+    expect(result).toMatchObject({ success: true, documents: [{ n: 1 }] })
+    expect(fakeMongo.signals).toHaveLength(1)
+    expect(fakeMongo.signals[0].aborted).toBe(false)
+  })
+
+  it('cancels a timed-out script: aborts reads, closes its cursors and fails every later call', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const running = mongoRunScript('c1', 'shop', [
+      'const items = db.items.find({}).toArray()',
+      'db.items.insertOne({ late: true })',
+    ].join('\n'))
+    await vi.waitFor(() => expect(fakeMongo.calls).toEqual(['toArray']))
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(await running).toMatchObject({ success: false, error: 'Script timed out after 60s' })
+    expect(fakeMongo.signals[0].aborted).toBe(true)
+    expect(fakeMongo.cursors[0].closed).toBe(true)
+
+    // The closed cursor's toArray settles, but its reply is refused and the script never gets to insertOne
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fakeMongo.calls).toEqual(['toArray'])
+  })
+})
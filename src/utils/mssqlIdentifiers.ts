@@ -0,0 +1,19 @@
+/** SQL Server identifier quoting, shared by the main-process driver and its tests */
+
+/** Quote a T-SQL identifier with brackets (escaping embedded closing brackets) */
+export const quoteId = (name: string) => `[${String(name).replace(/]/g, ']]')}]`
+
+/**
+ * Tables outside `dbo` are listed as "schema.table"; split them back into [schema].[table].
+ * Unqualified names resolve against dbo.
+ */
+export const splitTable = (table: string) => {
+  const dot = table.indexOf('.')
+  return dot > 0 ? { schema: table.slice(0, dot), name: table.slice(dot + 1) } : { schema: 'dbo', name: table }
+}
+
+/** Data Viewer table name → [schema].[table] */
+export const qualify = (table: string) => {
+  const { schema, name } = splitTable(table)
+  return `${quoteId(schema)}.${quoteId(name)}`
+}
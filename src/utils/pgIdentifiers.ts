@@ -0,0 +1,17 @@
+/** PostgreSQL identifier quoting, shared by the main-process driver and the Data Viewer's staged statements */
+
+export const quoteId = (name: string) => `"${String(name).replace(/"/g, '""')}"`
+
+/** Split "schema.table" — a bare name lives in public */
+export const splitTable = (table: string) => {
+  const dot = table.indexOf('.')
+  return dot === -1
+    ? { schema: 'public', name: table }
+    : { schema: table.slice(0, dot), name: table.slice(dot + 1) }
+}
+
+/** Data Viewer table name → "schema"."table" */
+export const qualify = (table: string) => {
+  const { schema, name } = splitTable(table)
+  return `${quoteId(schema)}.${quoteId(name)}`
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createDbClientPool, parseDbIndex } from './redisDbClients'
+
+/**
+ * An ioredis stand-in whose connections keep the SELECTed database as their own state, as a real
+ * connection does: every command runs on whatever database the connection has selected when it executes.
+ */
+const fakeIoredis = vi.hoisted(() => {
+  const keyspaces = new Map<number, Map<string, string>>()
+  const keyspace = (db: number) => keyspaces.get(db) ?? keyspaces.set(db, new Map()).get(db)!
+  const later = () => new Promise(resolve => setTimeout(resolve, Math.random() * 5))
+
+  class FakeRedis {
+    options: { host: string; port: number; db?: number }
+    selected = 0
+
+    constructor(_url?: string, options: { db?: number } = {}) {
+      this.options = { host: '127.0.0.1', port: 6379, ...options }
+    }
+
+    /** ioredis SELECTs the configured database as it connects */
+    async connect() { if (this.options.db) await this.select(this.options.db) }
+    async select(db: number) { await later(); this.selected = db; return 'OK' }
+    async ping() { return 'PONG' }
+    duplicate(override: { db?: number }) { return new FakeRedis(undefined, { ...this.options, ...override }) }
+    async scan(_cursor: string, _match: string, pattern: string) {
+      await later()
+      const prefix = pattern.replace(/\*$/, '')
+      return ['0', Array.from(keyspace(this.selected).keys()).filter(key => key.startsWith(prefix))]
+    }
+    pipeline() {
+      const keys: string[] = []
+      return {
+        type: (key: string) => { keys.push(key) },
+        exec: async () => { await later(); return keys.map(key => [null, keyspace(this.selected).has(key) ? 'string' : 'none']) },
+      }
+    }
+    async type(key: string) { await later(); return keyspace(this.selected).has(key) ? 'string' : 'none' }
+    async ttl() { await later(); return -1 }
+    async get(key: string) { await later(); return keyspace(this.selected).get(key) ?? null }
+    async quit() { return 'OK' }
+    disconnect() {}
+  }
+  class FakeCluster {}
+
+  return { keyspace, FakeRedis, FakeCluster }
+})
+
+vi.mock('ioredis', () => ({ default: fakeIoredis.FakeRedis, Cluster: fakeIoredis.FakeCluster }))
+
+type DriverResult = { success: boolean; error?: string; collections?: { name: string }[]; [field: string]: unknown }
+
+/** The parts of electron/redis.ts under test — electron/ is its own TypeScript project, so its types aren't importable here */
+interface RedisDriver {
+  connectToRedis: (connectionId: string, connectionString: string) => Promise<DriverResult>
+  disconnectFromRedis: (connectionId: string) => Promise<DriverResult>
+  redisListKeys: (connectionId: string, database: string, pattern?: string) => Promise<DriverResult>
+  redisGetKeyValue: (connectionId: string, database: string, key: string) => Promise<DriverResult>
+}
+
+/** The client surface createDbClientPool's callers use here */
+interface FakeDbClient {
+  db: number
+  set: (key: string, value: string) => Promise<void>
+  get: (key: string) => Promise<string | null>
+  quit: () => Promise<void>
+}
+
+/** A server keeping one keyspace per database; a client answers after a random delay, like the network */
+const createServer = () => {
+  const keyspaces = new Map<number, Map<string, string>>()
+  const keyspace = (db: number) => keyspaces.get(db) ?? keyspaces.set(db, new Map()).get(db)!
+  const later = () => new Promise(resolve => setTimeout(resolve, Math.random() * 5))
+  const connect = (db: number): FakeDbClient => ({
+    db,
+    set: async (key: string, value: string) => { await later(); keyspace(db).set(key, value) },
+    get: async (key: string) => { await later(); return keyspace(db).get(key) ?? null },
+    quit: vi.fn(async () => {}),
+  })
+  return { keyspace, connect }
+}
+
+describe('createDbClientPool', () => {
+  it('keeps concurrent commands for different databases in their own database', async () => {
+    const server = createServer()
+    const pool = createDbClientPool(async (db) => server.connect(db), client => client.quit())
+
+    // Interleave writes and reads on db0 and db3 with the same key names
+    await Promise.all(Array.from({ length: 40 }, async (_, i) => {
+      const db = i % 2 ? 3 : 0
+      const client = await pool.get(db)
+      await client.set(`key:${i % 10}`, `db${db}`)
+      expect(await client.get(`key:${i % 10}`)).toBe(`db${db}`)
+    }))
+
+    expect(Array.from(server.keyspace(0).values()).every(v => v === 'db0')).toBe(true)
+    expect(Array.from(server.keyspace(3).values()).every(v => v === 'db3')).toBe(true)
+    expect(server.keyspace(0).size).toBe(5)
+    expect(server.keyspace(3).size).toBe(5)
+  })
+
+  it('opens each database once, retries a failed open and closes every client', async () => {
+    const server = createServer()
+    let fail = true
+    const open = vi.fn(async (db: number) => {
+      if (db === 5 && fail) { fail = false; throw new Error('ECONNREFUSED') }
+      return server.connect(db)
+    })
+    const pool = createDbClientPool(open, client => client.quit())
+
+    const [a, b] = await Promise.all([pool.get(1), pool.get(1)])
+    expect(a).toBe(b)
+    await expect(pool.get(5)).rejects.toThrow('ECONNREFUSED')
+    const retried = await pool.get(5)
+    expect(retried.db).toBe(5)
+    expect(open).toHaveBeenCalledTimes(3)
+    expect(pool.databases().sort()).toEqual([1, 5])
+
+    await pool.closeAll()
+    expect(a.quit).toHaveBeenCalledOnce()
+    expect(retried.quit).toHaveBeenCalledOnce()
+    expect(pool.databases()).toEqual([])
+  })
+
+  it('reads database indexes from names', () => {
+    expect(parseDbIndex('db3')).toBe(3)
+    expect(parseDbIndex('db0')).toBe(0)
+    expect(parseDbIndex('whatever')).toBe(0)
+  })
+})
+
+describe('electron redis database clients', () => {
+  it('runs concurrent db0 and db3 calls each on its own database', async () => {
+    const { connectToRedis, disconnectFromRedis, redisGetKeyValue, redisListKeys } = await vi.importActual<RedisDriver>('../../electron/redis')
+    for (let i = 0; i < 5; i++) {
+      fakeIoredis.keyspace(0).set(`key:${i}`, 'db0')
+      fakeIoredis.keyspace(3).set(`key:${i}`, 'db3')
+    }
+    fakeIoredis.keyspace(0).set('only:db0', 'db0')
+    fakeIoredis.keyspace(3).set('only:db3', 'db3')
+    expect((await connectToRedis('redis-test', 'redis://127.0.0.1:6379')).success).toBe(true)
+
+    await Promise.all(Array.from({ length: 40 }, async (_, i) => {
+      const database = i % 2 ? 'db3' : 'db0'
+      if (i % 4 < 2) {
+        const value = await redisGetKeyValue('redis-test', database, `key:${i % 5}`)
+        expect(value).toMatchObject({ success: true, type: 'string', value: database })
+      } else {
+        const listed = await redisListKeys('redis-test', database, 'only:*')
+        expect(listed.collections?.map(c => c.name)).toEqual([`only:${database}`])
+      }
+    }))
+
+    await disconnectFromRedis('redis-test')
+  })
+})
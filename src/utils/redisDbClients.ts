@@ -0,0 +1,45 @@
+/**
+ * One Redis client per logical database.
+ *
+ * SELECT changes the database of the whole connection, so two calls for different databases sharing
+ * a client can run each other's commands on the wrong one when they interleave. Giving every
+ * database its own client, opened on first use with `db` set, binds each command to its database.
+ */
+
+/** `db3` → 3; anything else is database 0 */
+export const parseDbIndex = (database: string) => Number.parseInt(database.replace('db', '')) || 0
+
+export interface DbClientPool<C> {
+  /** The client of a database, opening it on first use; concurrent callers share one open */
+  get: (db: number) => Promise<C>
+  /** Close every client that was opened */
+  closeAll: () => Promise<void>
+  /** Databases with a client (or one being opened) */
+  databases: () => number[]
+}
+
+export const createDbClientPool = <C>(
+  open: (db: number) => Promise<C>,
+  close: (client: C) => Promise<unknown> | unknown,
+): DbClientPool<C> => {
+  const clients = new Map<number, Promise<C>>()
+
+  return {
+    get: (db) => {
+      let client = clients.get(db)
+      if (!client) {
+        client = open(db)
+        clients.set(db, client)
+        // A failed open is forgotten so the next call tries again
+        client.catch(() => { if (clients.get(db) === client) clients.delete(db) })
+      }
+      return client
+    },
+    closeAll: async () => {
+      const opening = Array.from(clients.values())
+      clients.clear()
+      await Promise.all(opening.map(client => client.then(close, () => {})))
+    },
+    databases: () => Array.from(clients.keys()),
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { buildKeyTree, keyLeafName, mergeKeyPages } from './redisKeyspace'
+import { formatClusterCursor, parseClusterCursor } from './redisTopology'
+
+describe('buildKeyTree', () => {
+  it('groups keys into folders with counts of the keys below them', () => {
+    const tree = buildKeyTree([
+      { name: 'user:2:profile' }, { name: 'user:1:profile' }, { name: 'user:1:cart' }, { name: 'session' }, { name: 'user' },
+    ], ':')
+    expect(tree.count).toBe(5)
+    expect(tree.keys.map(k => k.name)).toEqual(['session', 'user'])
+    const [user] = tree.folders
+    expect(user).toMatchObject({ name: 'user', path: 'user:', count: 3 })
+    expect(user.folders.map(f => [f.path, f.count])).toEqual([['user:1:', 2], ['user:2:', 1]])
+    expect(user.folders[0].keys.map(k => keyLeafName(k.name, user.folders[0].path))).toEqual(['cart', 'profile'])
+  })
+
+  it('keeps a flat list without a delimiter', () => {
+    const tree = buildKeyTree([{ name: 'b:1' }, { name: 'a:1' }], '')
+    expect(tree.folders).toEqual([])
+    expect(tree.keys.map(k => k.name)).toEqual(['a:1', 'b:1'])
+  })
+})
+
+describe('key pages', () => {
+  it('drops keys SCAN returns again on a later page', () => {
+    expect(mergeKeyPages([{ name: 'a' }, { name: 'b' }], [{ name: 'b' }, { name: 'c' }, { name: 'c' }]).map(k => k.name)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('resumes a cluster scan only on the masters that are not done', () => {
+    const nodes = ['10.0.0.1:7000', '[::1]:7001']
+    expect(parseClusterCursor('0', nodes)).toEqual(new Map([['10.0.0.1:7000', '0'], ['[::1]:7001', '0']]))
+    const cursor = formatClusterCursor(new Map([['[::1]:7001', '384']]))
+    expect(parseClusterCursor(cursor, nodes)).toEqual(new Map([['[::1]:7001', '384']]))
+    expect(formatClusterCursor(new Map())).toBe('0')
+    expect(() => parseClusterCursor('10.0.0.9:7000=5', nodes)).toThrow('no longer matches')
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Redis key browser helpers: the namespace tree built from key names and merging SCAN pages.
+ *
+ * Key names like `user:42:profile` are grouped into folders by a delimiter; a folder's count is the
+ * number of loaded keys below it, so it grows as more SCAN pages come in.
+ */
+
+/** Types SCAN can filter on (`SCAN ... TYPE`, Redis 6+) */
+export const REDIS_KEY_TYPES = ['string', 'list', 'set', 'zset', 'hash', 'stream'] as const
+
+export interface RedisKeyEntry {
+  name: string
+  type?: string
+}
+
+export interface KeyTreeFolder<T extends RedisKeyEntry = RedisKeyEntry> {
+  /** Segment shown in the tree */
+  name: string
+  /** Key prefix of everything in the folder, ending with the delimiter (`''` for the root) */
+  path: string
+  /** Keys in the folder and all its subfolders */
+  count: number
+  folders: KeyTreeFolder<T>[]
+  keys: T[]
+}
+
+/** Group keys into folders on `delimiter`; an empty delimiter keeps a flat list */
+export const buildKeyTree = <T extends RedisKeyEntry>(keys: T[], delimiter: string): KeyTreeFolder<T> => {
+  const root: KeyTreeFolder<T> = { name: '', path: '', count: 0, folders: [], keys: [] }
+  const folderIndex = new Map<string, KeyTreeFolder<T>>([['', root]])
+
+  for (const key of keys) {
+    const segments = delimiter ? key.name.split(delimiter) : [key.name]
+    let folder = root
+    folder.count++
+    for (const segment of segments.slice(0, -1)) {
+      const path = folder.path + segment + delimiter
+      let child = folderIndex.get(path)
+      if (!child) {
+        child = { name: segment, path, count: 0, folders: [], keys: [] }
+        folderIndex.set(path, child)
+        folder.folders.push(child)
+      }
+      child.count++
+      folder = child
+    }
+    folder.keys.push(key)
+  }
+
+  const sort = (folder: KeyTreeFolder<T>) => {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name))
+    folder.keys.sort((a, b) => a.name.localeCompare(b.name))
+    folder.folders.forEach(sort)
+  }
+  sort(root)
+  return root
+}
+
+/** The part of a key shown under its folder */
+export const keyLeafName = (key: string, folderPath: string) => key.slice(folderPath.length)
+
+/** Append a SCAN page — SCAN may return a key more than once while the keyspace changes */
+export const mergeKeyPages = <T extends RedisKeyEntry>(loaded: T[], page: T[]) => {
+  const seen = new Set(loaded.map(key => key.name))
+  return loaded.concat(page.filter(key => !seen.has(key.name) && seen.add(key.name)))
+}
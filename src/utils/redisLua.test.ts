@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { formatRedisReply, functionLibraryName, luaErrorLine, parseArgList, parseFunctionList } from './redisLua'
+
+describe('script inputs', () => {
+  it('reads one argument per line, keeping spaces and inner blank lines', () => {
+    expect(parseArgList('user:1\nhello world\n\nlast\n\n')).toEqual(['user:1', 'hello world', '', 'last'])
+    expect(parseArgList('')).toEqual([])
+  })
+
+  it('finds the library name and the line of a script error', () => {
+    expect(functionLibraryName('\n#!lua name=mylib\nredis.register_function("f", function() return 1 end)')).toBe('mylib')
+    expect(() => functionLibraryName('return 1')).toThrow('#!lua name=')
+    expect(luaErrorLine("ERR user_script:3: Script attempted to access nonexistent global variable 'x' script: 9f3a, on @user_script:3.")).toBe(3)
+    expect(luaErrorLine('ERR Error running script')).toBeUndefined()
+  })
+})
+
+describe('parseFunctionList', () => {
+  it('turns the flat map replies into libraries', () => {
+    const reply = [[
+      'library_name', 'mylib', 'engine', 'LUA',
+      'functions', [['name', 'knockknock', 'description', null, 'flags', ['no-writes']]],
+      'library_code', '#!lua name=mylib\n...',
+    ]]
+    expect(parseFunctionList(reply)).toEqual([{
+      name: 'mylib', engine: 'LUA', code: '#!lua name=mylib\n...',
+      functions: [{ name: 'knockknock', description: null, flags: ['no-writes'] }],
+    }])
+  })
+})
+
+describe('formatRedisReply', () => {
+  it('prints replies like redis-cli', () => {
+    expect(formatRedisReply(null)).toBe('(nil)')
+    expect(formatRedisReply(42)).toBe('(integer) 42')
+    expect(formatRedisReply('OK')).toBe('"OK"')
+    expect(formatRedisReply([])).toBe('(empty array)')
+    expect(formatRedisReply(['a', [1, null], new Error('WRONGTYPE')])).toBe(
+      '1) "a"\n2) 1) (integer) 1\n   2) (nil)\n3) (error) WRONGTYPE'
+    )
+  })
+})
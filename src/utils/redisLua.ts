@@ -0,0 +1,80 @@
+/**
+ * Redis Lua workbench helpers: KEYS / ARGV lists, function libraries, script errors and replies
+ * printed the way redis-cli prints them.
+ */
+
+/** One argument per line, so values may contain spaces; trailing empty lines are dropped */
+export const parseArgList = (text: string) => {
+  const lines = text.split(/\r?\n/)
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/** The library a FUNCTION LOAD body declares in its `#!lua name=<library>` first line */
+export const functionLibraryName = (code: string) => {
+  const name = code.trimStart().match(/^#!lua\s+name=(\S+)/)?.[1]
+  if (!name) throw new Error('A function library starts with "#!lua name=<library>"')
+  return name
+}
+
+export interface RedisFunctionInfo {
+  name: string
+  description: string | null
+  flags: string[]
+}
+
+export interface RedisFunctionLibrary {
+  name: string
+  engine: string
+  functions: RedisFunctionInfo[]
+  code?: string
+}
+
+/** `[key1, value1, key2, value2, ...]` map replies (RESP2) as an object */
+const pairs = (reply: unknown): Record<string, unknown> => {
+  const entries: unknown[] = Array.isArray(reply) ? reply : []
+  const out: Record<string, unknown> = {}
+  for (let i = 0; i + 1 < entries.length; i += 2) out[String(entries[i])] = entries[i + 1]
+  return out
+}
+
+/** The libraries of a `FUNCTION LIST [WITHCODE]` reply */
+export const parseFunctionList = (reply: unknown): RedisFunctionLibrary[] =>
+  (Array.isArray(reply) ? reply as unknown[] : []).map(entry => {
+    const library = pairs(entry)
+    return {
+      name: String(library.library_name ?? ''),
+      engine: String(library.engine ?? ''),
+      functions: (Array.isArray(library.functions) ? library.functions as unknown[] : []).map(fn => {
+        const info = pairs(fn)
+        return {
+          name: String(info.name ?? ''),
+          description: info.description == null ? null : String(info.description),
+          flags: Array.isArray(info.flags) ? info.flags.map(String) : [],
+        }
+      }),
+      ...(library.library_code !== undefined ? { code: String(library.library_code) } : {}),
+    }
+  })
+
+/** The script line a Lua error points at (`user_script:3:` or `user_function:3:`) */
+export const luaErrorLine = (message: string) => {
+  const line = message.match(/user_(?:script|function):(\d+)/)?.[1]
+  return line ? Number(line) : undefined
+}
+
+/** A reply as redis-cli prints it: quoted strings, `(integer)`, `(nil)` and numbered nested arrays */
+export const formatRedisReply = (value: unknown): string => {
+  if (value === null || value === undefined) return '(nil)'
+  if (typeof value === 'number') return Number.isInteger(value) ? `(integer) ${value}` : `(double) ${value}`
+  if (value instanceof Error) return `(error) ${value.message}`
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(empty array)'
+    const width = String(value.length).length
+    return value.map((item, i) => {
+      const prefix = `${String(i + 1).padStart(width)}) `
+      return prefix + formatRedisReply(item).split('\n').join('\n' + ' '.repeat(prefix.length))
+    }).join('\n')
+  }
+  return JSON.stringify(value)
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { createMemoryReport, keyPrefix, memoryReportCsv, ttlBucket, type RedisKeySample } from './redisMemory'
+
+const sample = (key: string, bytes: number, type = 'string', ttlMs = -1): RedisKeySample => ({ key, type, bytes, length: 1, ttlMs })
+
+describe('key grouping', () => {
+  it('takes prefixes up to a depth and buckets TTLs', () => {
+    expect(keyPrefix('user:42:profile')).toBe('user:')
+    expect(keyPrefix('user:42:profile', ':', 2)).toBe('user:42:')
+    expect(keyPrefix('user:42', ':', 5)).toBe('user:')
+    expect(keyPrefix('counter')).toBe('(no prefix)')
+    expect([-1, 0, 59_999, 60_000, 90_000_000, 700_000_000].map(ttlBucket))
+      .toEqual(['No TTL', '< 1 minute', '< 1 minute', '< 1 hour', '< 1 week', '≥ 1 week'])
+  })
+})
+
+describe('createMemoryReport', () => {
+  it('reports the biggest keys, groups and keys without a TTL', () => {
+    const report = createMemoryReport({ topN: 2 })
+    report.add(sample('user:1', 100))
+    report.add(sample('user:2', 300, 'hash', 5_000))
+    report.add(sample('session:a', 50, 'string', 120_000))
+    report.add(sample('big', 1000, 'list'))
+    report.add(sample('user:3', 10))
+    const built = report.build(5)
+
+    expect(built.topKeys.map(k => k.key)).toEqual(['big', 'user:2'])
+    expect(built.byPrefix).toEqual([
+      { name: '(no prefix)', keys: 1, bytes: 1000 },
+      { name: 'user:', keys: 3, bytes: 410 },
+      { name: 'session:', keys: 1, bytes: 50 },
+    ])
+    expect(built.byType.map(g => [g.name, g.keys])).toEqual([['list', 1], ['hash', 1], ['string', 3]])
+    expect(built.noTtl).toMatchObject({ keys: 3, bytes: 1110 })
+    expect(built.noTtl.topKeys.map(k => k.key)).toEqual(['big', 'user:1'])
+    expect(built.ttlBuckets.map(b => b.keys)).toEqual([3, 1, 1, 0, 0, 0])
+  })
+
+  it('scales sampled bytes up to the scanned keys', () => {
+    const report = createMemoryReport({ sampleRate: 0.1 })
+    report.add(sample('a', 200))
+    expect(report.build(10)).toMatchObject({ sampledKeys: 1, sampledBytes: 200, estimatedBytes: 2000, sampleRate: 0.1 })
+  })
+})
+
+describe('memoryReportCsv', () => {
+  it('exports a section with quoted fields', () => {
+    const report = createMemoryReport()
+    report.add(sample('a,"b"', 10, 'string', 1000))
+    const built = report.build(1)
+    expect(memoryReportCsv(built, 'topKeys')).toBe('key,type,bytes,length,ttl_ms\n"a,""b""",string,10,1,1000\n')
+    expect(memoryReportCsv(built, 'byType')).toBe('type,keys,bytes\nstring,1,10\n')
+  })
+})
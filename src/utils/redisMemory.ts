@@ -0,0 +1,174 @@
+/**
+ * Redis keyspace memory analysis: per-key samples (MEMORY USAGE, length, TTL) folded into a report
+ * of the biggest keys, memory by key prefix and type, keys without a TTL and the TTL distribution.
+ *
+ * The analysis can sample a fraction of the keys it scans; totals are then estimated by scaling the
+ * sampled ones up, while the per-key lists only ever contain keys that were measured.
+ */
+
+export interface RedisKeySample {
+  key: string
+  type: string
+  /** MEMORY USAGE in bytes */
+  bytes: number
+  /** Characters of a string, or elements of a hash / list / set / zset / stream */
+  length: number
+  /** Remaining time to live in ms, -1 without one */
+  ttlMs: number
+}
+
+export interface RedisMemoryAnalysisOptions {
+  /** SCAN MATCH pattern */
+  pattern?: string
+  /** Fraction of scanned keys that are measured, (0, 1] */
+  sampleRate?: number
+  /** Stop after scanning this many keys (0 for the whole keyspace) */
+  maxKeys?: number
+  /** Length of the biggest-key lists */
+  topN?: number
+  /** Splits key names into prefixes, `:` by default */
+  delimiter?: string
+  /** Segments a prefix is made of (`user:` for 1, `user:42:` for 2) */
+  prefixDepth?: number
+}
+
+export interface RedisMemoryGroup {
+  name: string
+  keys: number
+  bytes: number
+}
+
+export interface RedisMemoryReport {
+  scannedKeys: number
+  sampledKeys: number
+  sampleRate: number
+  /** MEMORY USAGE of the measured keys */
+  sampledBytes: number
+  /** sampledBytes scaled to every scanned key */
+  estimatedBytes: number
+  topKeys: RedisKeySample[]
+  byPrefix: RedisMemoryGroup[]
+  byType: RedisMemoryGroup[]
+  noTtl: { keys: number; bytes: number; topKeys: RedisKeySample[] }
+  ttlBuckets: RedisMemoryGroup[]
+}
+
+export interface RedisMemoryAnalysisProgress {
+  analysisId: string
+  scanned: number
+  sampled: number
+  /** DBSIZE when the analysis started, for a percentage */
+  total: number
+  elapsedMs: number
+  done?: boolean
+  cancelled?: boolean
+  error?: string
+  report?: RedisMemoryReport
+}
+
+/** Command giving the length of a key of `type`, if it has one */
+export const keyLengthCommand = (type: string) => ({
+  string: 'STRLEN', hash: 'HLEN', list: 'LLEN', set: 'SCARD', zset: 'ZCARD', stream: 'XLEN',
+} as Record<string, string | undefined>)[type]
+
+const TTL_BUCKETS: [label: string, upToMs: number][] = [
+  ['< 1 minute', 60_000],
+  ['< 1 hour', 3_600_000],
+  ['< 1 day', 86_400_000],
+  ['< 1 week', 604_800_000],
+  ['≥ 1 week', Infinity],
+]
+const NO_TTL = 'No TTL'
+
+export const ttlBucket = (ttlMs: number) => ttlMs < 0 ? NO_TTL : TTL_BUCKETS.find(([, upTo]) => ttlMs < upTo)![0]
+
+/** The first `depth` segments of a key with their delimiters, or `(no prefix)` */
+export const keyPrefix = (key: string, delimiter = ':', depth = 1) => {
+  if (!delimiter) return '(no prefix)'
+  const segments = key.split(delimiter)
+  if (segments.length <= 1) return '(no prefix)'
+  return segments.slice(0, Math.min(depth, segments.length - 1)).join(delimiter) + delimiter
+}
+
+/** Keep the `n` biggest samples without sorting on every key */
+const createTopList = (n: number) => {
+  let items: RedisKeySample[] = []
+  const trim = () => { items = items.sort((a, b) => b.bytes - a.bytes).slice(0, n) }
+  return {
+    add: (sample: RedisKeySample) => {
+      items.push(sample)
+      if (items.length >= n * 2) trim()
+    },
+    list: () => { trim(); return items },
+  }
+}
+
+const addTo = (groups: Map<string, RedisMemoryGroup>, name: string, bytes: number) => {
+  const group = groups.get(name) || { name, keys: 0, bytes: 0 }
+  group.keys++
+  group.bytes += bytes
+  groups.set(name, group)
+}
+
+const bySize = (groups: Map<string, RedisMemoryGroup>) => Array.from(groups.values()).sort((a, b) => b.bytes - a.bytes)
+
+/** Accumulates samples as the scan goes; `build` can be called at any point for a partial report */
+export const createMemoryReport = (options: RedisMemoryAnalysisOptions = {}) => {
+  const sampleRate = Math.min(1, Math.max(options.sampleRate ?? 1, 0.0001))
+  const topN = options.topN || 50
+  const topKeys = createTopList(topN)
+  const noTtlTop = createTopList(topN)
+  const prefixes = new Map<string, RedisMemoryGroup>()
+  const types = new Map<string, RedisMemoryGroup>()
+  const ttls = new Map<string, RedisMemoryGroup>()
+  let sampledKeys = 0
+  let sampledBytes = 0
+  let noTtlKeys = 0
+  let noTtlBytes = 0
+
+  return {
+    add: (sample: RedisKeySample) => {
+      sampledKeys++
+      sampledBytes += sample.bytes
+      topKeys.add(sample)
+      addTo(prefixes, keyPrefix(sample.key, options.delimiter ?? ':', options.prefixDepth || 1), sample.bytes)
+      addTo(types, sample.type, sample.bytes)
+      addTo(ttls, ttlBucket(sample.ttlMs), sample.bytes)
+      if (sample.ttlMs < 0) {
+        noTtlKeys++
+        noTtlBytes += sample.bytes
+        noTtlTop.add(sample)
+      }
+    },
+    build: (scannedKeys: number): RedisMemoryReport => ({
+      scannedKeys,
+      sampledKeys,
+      sampleRate,
+      sampledBytes,
+      estimatedBytes: sampledKeys ? Math.round(sampledBytes * (scannedKeys / sampledKeys)) : 0,
+      topKeys: topKeys.list(),
+      byPrefix: bySize(prefixes),
+      byType: bySize(types),
+      noTtl: { keys: noTtlKeys, bytes: noTtlBytes, topKeys: noTtlTop.list() },
+      // Buckets stay in TTL order, not size order
+      ttlBuckets: [NO_TTL, ...TTL_BUCKETS.map(([label]) => label)].map(name => ttls.get(name) || { name, keys: 0, bytes: 0 }),
+    }),
+  }
+}
+
+export type RedisMemoryReportSection = 'topKeys' | 'byPrefix' | 'byType' | 'noTtl' | 'ttlBuckets'
+
+const csvField = (value: string | number) => {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One table of the report as CSV */
+export const memoryReportCsv = (report: RedisMemoryReport, section: RedisMemoryReportSection) => {
+  const rows: (string | number)[][] = section === 'topKeys' || section === 'noTtl'
+    ? [['key', 'type', 'bytes', 'length', 'ttl_ms'],
+      ...(section === 'topKeys' ? report.topKeys : report.noTtl.topKeys).map(k => [k.key, k.type, k.bytes, k.length, k.ttlMs])]
+    : [[section === 'byPrefix' ? 'prefix' : section === 'byType' ? 'type' : 'ttl', 'keys', 'bytes'],
+      ...report[section].map(g => [g.name, g.keys, g.bytes])]
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n'
+}
@@ -0,0 +1,108 @@
+/**
+ * Redis Cluster and Sentinel helpers: host lists, hash slots and command routing.
+ *
+ * A Cluster spreads keys over 16384 hash slots, each served by one master; a key's slot is the
+ * CRC16 of the key, or of its `{hash tag}` when it has one. Commands without keys reach a single
+ * node, so commands that describe the whole keyspace are run on every master instead.
+ */
+
+export const CLUSTER_SLOTS = 16384
+
+export interface RedisNodeAddress {
+  host: string
+  port: number
+}
+
+/** `host:port` entries separated by commas, spaces or new lines; IPv6 hosts go in brackets */
+export const parseHostList = (text: string | string[], defaultPort = 6379): RedisNodeAddress[] => {
+  const entries = (Array.isArray(text) ? text : [text]).flatMap(t => t.split(/[\s,]+/)).filter(Boolean)
+  return entries.map(entry => {
+    const match = entry.match(/^\[([^\]]+)\](?::(\d+))?$/) || entry.match(/^([^:]+)(?::(\d+))?$/)
+    if (!match) throw new Error(`"${entry}" is not a host:port address`)
+    const port = match[2] ? Number(match[2]) : defaultPort
+    if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`"${entry}" has an invalid port`)
+    return { host: match[1], port }
+  })
+}
+
+export const formatAddress = ({ host, port }: RedisNodeAddress) => host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`
+
+/** Credentials, TLS and database of a `redis://` or `rediss://` URL, for clients built from options */
+export const redisUrlOptions = (connectionString: string) => {
+  const url = new URL(connectionString)
+  return {
+    host: url.hostname.replace(/^\[|\]$/g, '') || '127.0.0.1',
+    port: Number(url.port) || 6379,
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    db: Number(url.pathname.slice(1)) || 0,
+    tls: url.protocol === 'rediss:',
+  }
+}
+
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc
+}
+
+/** The hash slot of a key, honouring a non-empty `{hash tag}` */
+export const keySlot = (key: string) => {
+  const open = key.indexOf('{')
+  if (open >= 0) {
+    const close = key.indexOf('}', open + 1)
+    if (close > open + 1) key = key.slice(open + 1, close)
+  }
+  return crc16(new TextEncoder().encode(key)) % CLUSTER_SLOTS
+}
+
+/** Keyless commands about the keyspace, run on every master of a Cluster with a result per node */
+const CLUSTER_FANOUT_COMMANDS = new Set(['DBSIZE', 'KEYS', 'SCAN', 'RANDOMKEY', 'FLUSHDB', 'FLUSHALL', 'INFO', 'PING', 'SLOWLOG'])
+
+/**
+ * Commands that fan out only for their keyless subcommands. The rest (MEMORY USAGE <key>, CONFIG SET …)
+ * go through the Cluster client, which routes them to the key's master — any other master answers MOVED.
+ */
+const CLUSTER_FANOUT_SUBCOMMANDS: Record<string, Set<string>> = {
+  MEMORY: new Set(['STATS', 'DOCTOR', 'MALLOC-STATS']),
+  CLIENT: new Set(['LIST']),
+  CONFIG: new Set(['GET']),
+}
+
+export const isClusterFanoutCommand = (command: string, subcommand?: string) => {
+  const cmd = command.toUpperCase()
+  return CLUSTER_FANOUT_COMMANDS.has(cmd) || (!!subcommand && !!CLUSTER_FANOUT_SUBCOMMANDS[cmd]?.has(subcommand.toUpperCase()))
+}
+
+/** Slots each node serves, from a slot → node addresses table (the first address is the master) */
+export const slotsPerNode = (slots: string[][]) => {
+  const counts = new Map<string, number>()
+  for (const nodes of slots) {
+    if (nodes?.[0]) counts.set(nodes[0], (counts.get(nodes[0]) || 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * A Cluster SCAN cursor: each master has its own, so the cursor the UI resumes from lists the
+ * unfinished ones as `address=cursor` pairs. A node missing from it is done; `0` starts every node.
+ */
+export const parseClusterCursor = (cursor: string, addresses: string[]) => {
+  if (!cursor || cursor === '0') return new Map(addresses.map(address => [address, '0']))
+  const cursors = new Map<string, string>()
+  for (const entry of cursor.split(',')) {
+    const split = entry.lastIndexOf('=')
+    const address = entry.slice(0, split)
+    if (split < 0 || !addresses.includes(address)) throw new Error('The key scan cursor no longer matches the cluster — reload the keys')
+    cursors.set(address, entry.slice(split + 1))
+  }
+  return cursors
+}
+
+export const formatClusterCursor = (cursors: Map<string, string>) =>
+  cursors.size ? Array.from(cursors, ([address, cursor]) => `${address}=${cursor}`).join(',') : '0'
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Response as MappersmithResponse, type Middleware } from 'mappersmith'
+import { createRegistryClient, formatSchema, readSchemaId } from './schemaRegistry'
+
+const avroSchema = '{"type":"record","name":"User","fields":[{"name":"id","type":"long"}]}'
+const protoSchema = 'syntax = "proto3";\npackage shop;\nmessage Order { string id = 1; int32 qty = 2; }'
+const jsonSchema = JSON.stringify({
+  type: 'object', properties: { type: { type: 'string' }, x: { type: 'number' } }, required: ['type'],
+})
+
+/** In-memory stand-in for a registry's REST API */
+const stubRegistry = (requests: Array<{ url: string; auth?: string }>): typeof fetch => async (input, init) => {
+  const url = String(input)
+  requests.push({ url, auth: (init?.headers as Record<string, string>)?.Authorization })
+  const path = url.replace('http://registry:8081', '')
+  const routes: Record<string, unknown> = {
+    '/subjects': ['users-value', 'orders-value'],
+    '/subjects/users-value/versions': [1, 2],
+    '/subjects/users-value/versions/2': { subject: 'users-value', version: 2, id: 7, schema: avroSchema },
+    '/subjects/orders-value/versions/latest': { subject: 'orders-value', version: 1, id: 9, schemaType: 'PROTOBUF', schema: protoSchema },
+    '/subjects/events-value/versions/latest': { subject: 'events-value', version: 1, id: 11, schemaType: 'JSON', schema: jsonSchema },
+    '/schemas/ids/7': { schema: avroSchema },
+    '/schemas/ids/9': { schemaType: 'PROTOBUF', schema: protoSchema },
+    '/schemas/ids/11': { schemaType: 'JSON', schema: jsonSchema },
+  }
+  if (path in routes) return new Response(JSON.stringify(routes[path]), { status: 200 })
+  return new Response(JSON.stringify({ error_code: 40401, message: 'Subject not found.' }), { status: 404 })
+}
+
+describe('readSchemaId', () => {
+  it('reads the big-endian schema id after the magic byte', () => {
+    expect(readSchemaId(new Uint8Array([0, 0, 0, 1, 2, 42]))).toBe(258)
+  })
+
+  it('ignores plain payloads and truncated headers', () => {
+    expect(readSchemaId(new TextEncoder().encode('{"id":1}'))).toBeNull()
+    expect(readSchemaId(new Uint8Array([0, 0, 1]))).toBeNull()
+  })
+})
+
+describe('createRegistryClient', () => {
+  it('lists subjects and versions with basic auth', async () => {
+    const requests: Array<{ url: string; auth?: string }> = []
+    const client = createRegistryClient({ url: 'http://registry:8081/', username: 'app', password: 'secret' }, stubRegistry(requests))
+    expect(await client.listSubjects()).toEqual(['orders-value', 'users-value'])
+    expect(await client.listVersions('users-value')).toEqual([1, 2])
+    expect(requests.map(r => r.url)).toEqual(['http://registry:8081/subjects', 'http://registry:8081/subjects/users-value/versions'])
+    expect(requests[0].auth).toBe(`Basic ${btoa('app:secret')}`)
+  })
+
+  it('defaults the schema type to Avro and keeps the registry error message', async () => {
+    const client = createRegistryClient({ url: 'http://registry:8081' }, stubRegistry([]))
+    expect((await client.getVersion('users-value', 2)).schemaType).toBe('AVRO')
+    expect((await client.getVersion('orders-value', 'latest')).schemaType).toBe('PROTOBUF')
+    await expect(client.listVersions('missing')).rejects.toThrow('Subject not found.')
+  })
+})
+
+describe('formatSchema', () => {
+  it('pretty-prints JSON-based schemas only', () => {
+    expect(formatSchema(avroSchema, 'AVRO')).toContain('\n  "type": "record"')
+    expect(formatSchema('syntax = "proto3";', 'PROTOBUF')).toBe('syntax = "proto3";')
+  })
+})
+
+/**
+ * The Kafka driver with a one-partition in-memory broker: produced messages are kept per topic, and a live
+ * tail replays them. The registry client keeps its real encode / decode and reaches the stub above instead
+ * of the network.
+ */
+const fakeKafka = vi.hoisted(() => {
+  type StoredMessage = { key: Buffer | null; value: Buffer | null; offset: string; timestamp: string; headers?: Record<string, string> }
+  const topics = new Map<string, StoredMessage[]>()
+  const log = (topic: string) => topics.get(topic) ?? topics.set(topic, []).get(topic)!
+  const toBuffer = (data?: string | Buffer | null) => (data == null ? null : Buffer.isBuffer(data) ? data : Buffer.from(data))
+
+  class FakeKafka {
+    admin() { return { connect: async () => {}, disconnect: async () => {} } }
+    producer() {
+      return {
+        connect: async () => {},
+        disconnect: async () => {},
+        send: async ({ topic, messages }: { topic: string; messages: { key?: string | Buffer; value: string | Buffer }[] }) => {
+          const stored = log(topic)
+          const baseOffset = stored.length
+          for (const message of messages) {
+            stored.push({ key: toBuffer(message.key), value: toBuffer(message.value), offset: String(stored.length), timestamp: '0' })
+          }
+          return [{ topicName: topic, partition: 0, errorCode: 0, baseOffset: String(baseOffset) }]
+        },
+      }
+    }
+    consumer() {
+      let subscribed = ''
+      return {
+        events: { CRASH: 'consumer.crash' },
+        on: () => {},
+        connect: async () => {},
+        disconnect: async () => {},
+        subscribe: async ({ topic }: { topic: string }) => { subscribed = topic },
+        run: async ({ eachBatch }: { eachBatch: (payload: { batch: { topic: string; partition: number; messages: StoredMessage[] } }) => Promise<void> }) => {
+          await eachBatch({ batch: { topic: subscribed, partition: 0, messages: log(subscribed) } })
+        },
+      }
+    }
+  }
+
+  return { topics, log, FakeKafka, registryFetch: null as typeof fetch | null }
+})
+
+// kafkajs is CommonJS: only some of its exports are detected as named ones, the rest live on `default`
+vi.mock('kafkajs', async (importOriginal) => {
+  const actual = await importOriginal<{ default: object }>()
+  return { ...actual.default, Kafka: fakeKafka.FakeKafka }
+})
+
+vi.mock('@kafkajs/confluent-schema-registry', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@kafkajs/confluent-schema-registry')>()
+  /** Answer every registry request from the stub, without calling the HTTP gateway */
+  const stubMiddleware: Middleware = () => ({
+    response: async (_next, _renew, request) => {
+      const reply = await fakeKafka.registryFetch!(request.url())
+      const response = new MappersmithResponse(request, reply.status, await reply.text(), { 'content-type': 'application/json' })
+      if (reply.status >= 400) throw response
+      return response
+    },
+  })
+  class StubbedSchemaRegistry extends actual.SchemaRegistry {
+    constructor(...[api, options]: ConstructorParameters<typeof actual.SchemaRegistry>) {
+      super({ ...api, middlewares: [stubMiddleware] }, options)
+    }
+  }
+  return { ...actual, SchemaRegistry: StubbedSchemaRegistry }
+})
+
+type DriverResult = { success: boolean; [field: string]: unknown }
+type TailEvent = { messages?: { value: string | null; valueSchemaId?: number; decodeError?: string }[]; error?: string }
+
+/** The parts of electron/kafka.ts under test — electron/ is its own TypeScript project, so its types aren't importable here */
+interface KafkaDriver {
+  connectToKafka: (connectionId: string, connectionString: string, options?: { schemaRegistry?: { url: string } }) => Promise<DriverResult>
+  kafkaProduceMessage: (
+    connectionId: string, topic: string, messages: { key?: string; value: string }[], schema?: { subject: string; version?: number }
+  ) => Promise<DriverResult>
+  kafkaStartTail: (connectionId: string, tailId: string, topic: string) => Promise<DriverResult>
+  kafkaStopTail: (tailId: string) => Promise<DriverResult>
+  setTailMessageCallback: (callback: (tailId: string, event: TailEvent) => void) => void
+}
+
+describe('wire format through the Kafka driver', async () => {
+  const kafka = await vi.importActual<KafkaDriver>('../../electron/kafka')
+  fakeKafka.registryFetch = stubRegistry([])
+  await kafka.connectToKafka('registry-test', 'kafka://broker:9092', { schemaRegistry: { url: 'http://registry:8081' } })
+
+  /** Decode a topic the way the viewer does, by tailing it */
+  const readBack = async (topic: string) => {
+    const events: TailEvent[] = []
+    kafka.setTailMessageCallback((_tailId, event) => { events.push(event) })
+    expect((await kafka.kafkaStartTail('registry-test', `tail-${topic}`, topic)).success).toBe(true)
+    await kafka.kafkaStopTail(`tail-${topic}`)
+    return events.flatMap(event => event.messages ?? [])
+  }
+
+  it('round-trips Avro through the subject version\'s schema id', async () => {
+    await kafka.kafkaProduceMessage('registry-test', 'users', [{ value: '{"id": 5}' }], { subject: 'users-value', version: 2 })
+    const [stored] = fakeKafka.log('users')
+    expect(readSchemaId(stored.value!)).toBe(7)
+    expect(stored.value!.subarray(5)).toEqual(Buffer.from([10])) // zig-zag varint of 5
+
+    const [message] = await readBack('users')
+    expect(message).toMatchObject({ value: '{"id":5}', valueSchemaId: 7 })
+  })
+
+  it('round-trips Protobuf through the latest schema', async () => {
+    await kafka.kafkaProduceMessage('registry-test', 'orders', [{ value: '{"id": "o-1", "qty": 3}' }], { subject: 'orders-value' })
+    expect(readSchemaId(fakeKafka.log('orders')[0].value!)).toBe(9)
+
+    const [message] = await readBack('orders')
+    expect(message.valueSchemaId).toBe(9)
+    expect(JSON.parse(message.value!)).toEqual({ id: 'o-1', qty: 3 })
+  })
+
+  it('round-trips JSON Schema and refuses payloads the schema rejects', async () => {
+    await kafka.kafkaProduceMessage('registry-test', 'events', [{ value: '{"type": "click", "x": 1.5}' }], { subject: 'events-value' })
+    const [message] = await readBack('events')
+    expect(message.valueSchemaId).toBe(11)
+    expect(JSON.parse(message.value!)).toEqual({ type: 'click', x: 1.5 })
+
+    await expect(kafka.kafkaProduceMessage('registry-test', 'events', [{ value: '{"x": 1}' }], { subject: 'events-value' })).rejects.toThrow('invalid payload')
+    await expect(kafka.kafkaProduceMessage('registry-test', 'events', [{ value: 'click' }], { subject: 'events-value' }))
+      .rejects.toThrow('Message value must be JSON to encode with a schema')
+    expect(fakeKafka.log('events')).toHaveLength(1)
+  })
+
+  it('shows plain payloads as text and keeps undecodable ones with the error', async () => {
+    await kafka.kafkaProduceMessage('registry-test', 'mixed', [{ value: '{"plain": true}' }])
+    fakeKafka.log('mixed').push({ key: null, value: Buffer.from([0, 0, 0, 0, 99, 1]), offset: '1', timestamp: '0' })
+
+    const [plain, unknown] = await readBack('mixed')
+    expect(plain).toEqual(expect.objectContaining({ value: '{"plain": true}' }))
+    expect(plain.valueSchemaId).toBeUndefined()
+    expect(unknown.valueSchemaId).toBe(99)
+    expect(unknown.decodeError).toMatch(/^Schema 99: /)
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { runShellScript, type ShellBridge } from './shellSandbox'
+import { SCRIPT_FILENAME, wrapScript } from './shellScript'
+
+/** A db whose collections are handle 2; find() gives cursor 3 over two documents, findOne() a document */
+const fakeHost = () => {
+  const calls: [number, string, unknown[]][] = []
+  const printed: string[] = []
+  const pending = [{ n: 1 }, { n: 2 }]
+  const bridge: ShellBridge = (target, method, args, callback) => {
+    const list = JSON.parse(args)
+    calls.push([target, method, list])
+    const reply = (value: object) => {
+      if (!callback) return JSON.stringify(value)
+      setTimeout(() => callback(JSON.stringify(value)))
+      return ''
+    }
+    if (target === 0 && method === 'print') { printed.push(JSON.stringify(list[1])); return reply({}) }
+    if (method === 'getCollection') return reply({ handle: 2, kind: 'collection' })
+    if (method === 'hasNext') return reply({ value: pending.length > 0 })
+    if (method === 'next') return reply({ value: pending.shift() })
+    if (method === 'find' || target === 3) return reply({ handle: 3, kind: 'cursor' })
+    if (method === 'findOne') return reply({ value: { _id: { $oid: '65a1b2c3d4e5f60718293a4b' }, at: { $date: '2024-01-02T00:00:00Z' } } })
+    return reply({ value: null })
+  }
+  return { bridge, calls, printed }
+}
+
+const run = (script: string, bridge: ShellBridge) =>
+  runShellScript(wrapScript(script), bridge, { filename: SCRIPT_FILENAME, lineOffset: -1, timeout: 1000 })
+
+describe('runShellScript', () => {
+  it('gives scripts no way to reach the host process', async () => {
+    const { bridge } = fakeHost()
+    const escapes = [
+      "print.constructor('return process')()",
+      "this.constructor.constructor('return process')()",
+      "db.constructor.constructor('return process')()",
+      "db.orders.constructor.constructor('return process')()",
+      "ObjectId.constructor('return process')()",
+      "doc.constructor.constructor('return process')()",
+      "doc._id.constructor.constructor('return process')()",
+      'process',
+      "require('fs')",
+    ]
+    for (const escape of escapes) {
+      const script = `const doc = db.orders.findOne()\nlet seen\ntry { seen = typeof (${escape}) } catch (e) { seen = 'blocked' }\nseen`
+      const result = await run(script, bridge)
+      expect(['blocked', 'undefined'], escape).toContain(result.value)
+    }
+  })
+
+  it('sends arguments as EJSON and ends on the cursor a chain builds', async () => {
+    const { bridge, calls } = fakeHost()
+    const result = await run("db.orders.find({ _id: ObjectId('65a1b2c3d4e5f60718293a4b'), n: NumberLong(5) }).sort({ at: -1 }).limit(2)", bridge)
+    expect(result).toEqual({ cursor: 3 })
+    expect(calls.slice(1)).toEqual([
+      [2, 'find', [{ _id: { $oid: '65a1b2c3d4e5f60718293a4b' }, n: { $numberLong: '5' } }]],
+      [3, 'sort', [{ at: -1 }]],
+      [3, 'limit', [2]],
+    ])
+  })
+
+  it('hands back documents with live ObjectId and Date values', async () => {
+    const { bridge, printed } = fakeHost()
+    const result = await run('const doc = db.orders.findOne()\nprint(doc._id.toHexString(), doc.at.getUTCFullYear())\ndb.orders.find().map(d => d.n * 2)', bridge)
+    expect(printed).toEqual(['["65a1b2c3d4e5f60718293a4b",{"value":2024}]'])
+    expect(result.value).toEqual([2, 4])
+  })
+
+  it('reports script errors with their line', async () => {
+    const { bridge } = fakeHost()
+    await expect(run('const a = 1\nundefinedFn()', bridge)).rejects.toThrow(/undefinedFn is not defined/)
+    const error = await run('const a = 1\nundefinedFn()', bridge).catch(e => e)
+    expect(error.stack).toMatch(/script\.js:2/)
+  })
+})
@@ -0,0 +1,307 @@
+/**
+ * The vm sandbox mongo shell-style scripts run in.
+ *
+ * A vm context is no boundary by itself: any function or object made in the main process that reaches a
+ * script leads to the host's Function constructor, and `fn.constructor('return process')()` to `process`
+ * and `require`. So nothing host-made goes in. The shell API — db, collections, cursors, print and the
+ * BSON type helpers — is built by SHELL_RUNTIME inside the context, and reaches the host through a single
+ * bridge function that is never a global and only trades strings.
+ */
+import vm from 'vm'
+
+/** Methods the script may call on each kind of host object; `sync` ones answer straight away */
+export const SHELL_METHODS = {
+  db: {
+    sync: ['getName', 'getCollection', 'getSiblingDB'],
+    async: ['getCollectionNames', 'createCollection', 'runCommand', 'adminCommand'],
+  },
+  collection: {
+    sync: ['getName', 'find', 'aggregate'],
+    async: [
+      'findOne', 'countDocuments', 'estimatedDocumentCount', 'distinct', 'insertOne', 'insertMany',
+      'updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany',
+      'findOneAndUpdate', 'findOneAndReplace', 'findOneAndDelete', 'bulkWrite',
+      'createIndex', 'getIndexes', 'dropIndex', 'drop',
+    ],
+  },
+  cursor: {
+    sync: ['sort', 'skip', 'limit', 'project', 'projection', 'hint', 'batchSize', 'maxTimeMS'],
+    async: ['toArray', 'hasNext', 'next', 'close', 'count', 'explain'],
+  },
+} as const
+
+export type ShellObjectKind = keyof typeof SHELL_METHODS
+
+/** Keys of the EJSON wrappers for BSON types — an object whose first key is one of them is a value, not a document */
+export const EJSON_TYPE_KEYS = [
+  '$oid', '$date', '$numberDecimal', '$numberLong', '$numberInt', '$numberDouble', '$binary', '$uuid',
+  '$timestamp', '$regularExpression', '$minKey', '$maxKey', '$symbol', '$code', '$dbPointer', '$undefined',
+]
+
+export const isShellMethod = (kind: ShellObjectKind, method: string) =>
+  (SHELL_METHODS[kind].sync as readonly string[]).includes(method) || (SHELL_METHODS[kind].async as readonly string[]).includes(method)
+
+/**
+ * Host end of the bridge. `target` is a handle the host gave out (1 is the script's db, 0 the shell itself:
+ * `print`, `objectId`, `uuid`) and `args` the argument list as EJSON text. Without a callback the reply is
+ * returned; with one the host returns '' and calls back later. A reply is JSON — `{ "value": <EJSON> }`,
+ * `{ "handle": n, "kind": "cursor" }` or `{ "error": "message" }`. It must never throw: the error object
+ * would be the host's own.
+ */
+export type ShellBridge = (target: number, method: string, args: string, callback?: (reply: string) => void) => string
+
+/** How a script ended: on a cursor (its handle) or on a value (EJSON, absent for undefined) */
+export interface ShellRunResult {
+  cursor?: number
+  value?: unknown
+}
+
+const RUNTIME_FILENAME = 'shell-runtime.js'
+
+/** Evaluated inside the context; returns `install(bridge)`, which defines the globals and returns `settle(running)` */
+const SHELL_RUNTIME = `(function (bridge) {
+  'use strict'
+  const METHODS = ${JSON.stringify(SHELL_METHODS)}
+  // Taken before the script runs, so replacing them from the script changes nothing here
+  const { parse, stringify } = JSON
+  const { defineProperty, keys, create } = Object
+  const { apply } = Reflect
+  const isArray = Array.isArray
+  const then = Promise.prototype.then
+  const getTime = Date.prototype.getTime
+  const PromiseCtor = Promise, ErrorCtor = Error, DateCtor = Date, RegExpCtor = RegExp, ProxyCtor = Proxy
+  const HANDLE = Symbol('handle')
+  const TYPE_KEYS = ${JSON.stringify(EJSON_TYPE_KEYS)}
+
+  // prepareStackTrace gets call sites, and through them the functions on the stack
+  defineProperty(ErrorCtor, 'prepareStackTrace', { value: undefined, writable: false, configurable: false })
+
+  class BsonValue {
+    constructor(ejson) { defineProperty(this, 'ejson', { value: ejson }) }
+    number() {
+      const v = this.ejson
+      const n = v.$numberLong !== undefined ? v.$numberLong : v.$numberInt !== undefined ? v.$numberInt
+        : v.$numberDouble !== undefined ? v.$numberDouble : v.$numberDecimal
+      return n === undefined ? undefined : Number(n)
+    }
+    valueOf() { const n = this.number(); return n === undefined ? this : n }
+    toString() { const n = this.number(); return n === undefined ? stringify(this.ejson) : String(n) }
+    toJSON() { return this.ejson }
+  }
+
+  class ObjectId {
+    constructor(hex) {
+      hex = String(hex)
+      if (!/^[0-9a-fA-F]{24}$/.test(hex)) throw new ErrorCtor('ObjectId() needs a 24-character hex string')
+      defineProperty(this, 'hex', { value: hex.toLowerCase() })
+    }
+    toHexString() { return this.hex }
+    toString() { return this.hex }
+    toJSON() { return this.hex }
+    equals(other) { return String(other).toLowerCase() === this.hex }
+    getTimestamp() { return new DateCtor(parseInt(this.hex.slice(0, 8), 16) * 1000) }
+  }
+
+  const setKey = (target, key, value) => defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true })
+
+  /** Script values as EJSON (canonical where it matters: Date, Long, Int32, Double) */
+  const encode = (value) => {
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined
+    if (typeof value === 'bigint') return { $numberLong: String(value) }
+    if (typeof value === 'number' && !isFinite(value)) return { $numberDouble: String(value) }
+    if (value === null || typeof value !== 'object') return value
+    if (value instanceof ObjectId) return { $oid: value.hex }
+    if (value instanceof BsonValue) return value.ejson
+    if (value instanceof DateCtor) return { $date: { $numberLong: String(apply(getTime, value, [])) } }
+    if (value instanceof RegExpCtor) {
+      return { $regularExpression: { pattern: value.source, options: ['i', 'm', 's', 'u'].filter(f => value.flags.includes(f)).join('') } }
+    }
+    if (value[HANDLE] !== undefined) throw new ErrorCtor('Cursors and collections cannot be passed as values')
+    if (isArray(value)) return value.map(v => { const e = encode(v); return e === undefined ? null : e })
+    const out = {}
+    for (const key of keys(value)) {
+      const e = encode(value[key])
+      if (e !== undefined) setKey(out, key, e)
+    }
+    return out
+  }
+
+  /** Host EJSON back into script values: ObjectId, Date and RegExp become live objects, other BSON types BsonValue */
+  const decode = (value) => {
+    if (value === null || typeof value !== 'object') return value
+    if (isArray(value)) return value.map(decode)
+    const k = keys(value)
+    if (k.length > 0 && TYPE_KEYS.includes(k[0])) {
+      if (k[0] === '$oid') return new ObjectId(value.$oid)
+      if (k[0] === '$date') {
+        const d = value.$date
+        return new DateCtor(d !== null && typeof d === 'object' ? Number(d.$numberLong) : d)
+      }
+      if (k[0] === '$numberInt' || k[0] === '$numberDouble') return Number(value[k[0]])
+      if (k[0] === '$regularExpression' && !value.$regularExpression.options.includes('x')) {
+        try { return new RegExpCtor(value.$regularExpression.pattern, value.$regularExpression.options.replace('l', '')) } catch (e) { /* keep it as BSON */ }
+      }
+      return new BsonValue(value)
+    }
+    for (const key of k) setKey(value, key, decode(value[key]))
+    return value
+  }
+
+  const request = (target, method, args, callback) => {
+    const text = stringify(encode(args))
+    try {
+      return bridge(target, method, text, callback)
+    } catch {
+      // Never bind what the host threw: it is a host object
+      throw new ErrorCtor('The shell bridge failed')
+    }
+  }
+
+  const unwrap = (text) => {
+    const reply = parse(text)
+    if (reply.error !== undefined) throw new ErrorCtor(reply.error)
+    if (reply.handle !== undefined) return wrapHandle(reply.handle, reply.kind)
+    return decode(reply.value)
+  }
+
+  const callSync = (target, method, args) => unwrap(request(target, method, args))
+  const callAsync = (target, method, args) => new PromiseCtor((resolve, reject) => {
+    request(target, method, args, (text) => {
+      try { resolve(unwrap(text)) } catch (e) { reject(e) }
+    })
+  })
+
+  /** Bridge-backed methods; \`chain\` makes the sync ones return the object itself (cursor modifiers) */
+  const defineMethods = (proto, kind, chain) => {
+    for (const m of METHODS[kind].sync) {
+      proto[m] = chain
+        ? function (...args) { callSync(this[HANDLE], m, args); return this }
+        : function (...args) { return callSync(this[HANDLE], m, args) }
+    }
+    for (const m of METHODS[kind].async) proto[m] = function (...args) { return callAsync(this[HANDLE], m, args) }
+  }
+
+  class Collection { constructor(handle) { defineProperty(this, HANDLE, { value: handle }) } }
+  defineMethods(Collection.prototype, 'collection', false)
+
+  class Cursor { constructor(handle) { defineProperty(this, HANDLE, { value: handle }) } }
+  defineMethods(Cursor.prototype, 'cursor', true)
+  Cursor.prototype.forEach = async function (fn) {
+    while (await this.hasNext()) {
+      if (await fn(await this.next()) === false) break
+    }
+  }
+  Cursor.prototype.map = async function (fn) {
+    const out = []
+    while (await this.hasNext()) out.push(await fn(await this.next()))
+    return out
+  }
+
+  /** db.orders and db['order-items'] are collections; known helpers win */
+  const makeDb = (handle) => {
+    const helpers = create(null)
+    defineProperty(helpers, HANDLE, { value: handle })
+    for (const m of METHODS.db.sync) helpers[m] = (...args) => callSync(handle, m, args)
+    for (const m of METHODS.db.async) helpers[m] = (...args) => callAsync(handle, m, args)
+    return new ProxyCtor(helpers, {
+      get: (target, prop) => {
+        if (typeof prop !== 'string' || prop === 'then') return prop === HANDLE ? handle : undefined
+        return prop in target ? target[prop] : target.getCollection(prop)
+      },
+    })
+  }
+
+  const wrapHandle = (handle, kind) =>
+    kind === 'db' ? makeDb(handle) : kind === 'collection' ? new Collection(handle) : new Cursor(handle)
+
+  // Plain functions, so both ObjectId(…) and new ObjectId(…) work
+  const helper = (make) => function (...args) { return make(...args) }
+  const types = {
+    ObjectId: helper(hex => new ObjectId(hex === undefined ? callSync(0, 'objectId', []) : hex)),
+    ISODate: helper(value => value === undefined ? new DateCtor() : new DateCtor(value)),
+    NumberDecimal: helper(value => new BsonValue({ $numberDecimal: String(value) })),
+    NumberLong: helper(value => new BsonValue({ $numberLong: String(value) })),
+    NumberInt: helper(value => new BsonValue({ $numberInt: String(Number(value) | 0) })),
+    Double: helper(value => new BsonValue({ $numberDouble: String(Number(value)) })),
+    UUID: helper(value => value === undefined ? callSync(0, 'uuid', []) : new BsonValue({ $uuid: String(value) })),
+    BinData: helper((subType, base64) => new BsonValue({ $binary: { base64: String(base64), subType: Number(subType).toString(16).padStart(2, '0') } })),
+    Timestamp: helper((t, i) => new BsonValue({ $timestamp: { t: Number(t), i: Number(i) } })),
+  }
+  types.Decimal128 = types.NumberDecimal
+  types.Long = types.NumberLong
+  types.Int32 = types.NumberInt
+
+  // Strings print as they are, everything else in shell syntax
+  const show = (indent, values) => {
+    callSync(0, 'print', [indent, values.map(v => typeof v === 'string' ? v : v === undefined ? 'undefined' : { value: v })])
+  }
+  const print = (...values) => show(0, values)
+
+  Object.assign(globalThis, types, {
+    db: makeDb(1),
+    print,
+    printjson: (value) => show(2, [value]),
+    console: { log: print, info: print, warn: print, error: print },
+  })
+
+  const report = (method, payload) => {
+    try { request(0, method, [payload]) } catch (e) { /* nothing left to tell */ }
+  }
+  const describe = (error) => {
+    try {
+      return error instanceof ErrorCtor ? { message: String(error.message), stack: String(error.stack) } : { message: String(error) }
+    } catch (e) {
+      return { message: 'The script failed' }
+    }
+  }
+
+  return function settle(running) {
+    apply(then, running, [
+      (value) => {
+        try {
+          request(0, 'result', [value instanceof Cursor ? { cursor: value[HANDLE] } : { value }])
+        } catch (e) {
+          report('error', describe(e))
+        }
+      },
+      (error) => report('error', describe(error)),
+    ])
+  }
+})`
+
+/**
+ * Run compiled script source (see wrapScript) in a fresh sandbox; settles when the script's promise does.
+ * `timeout` bounds the synchronous part only — callers race the returned promise for the rest.
+ */
+export const runShellScript = (
+  code: string, bridge: ShellBridge, options: { filename: string; lineOffset?: number; timeout: number }
+): Promise<ShellRunResult> => {
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } })
+  const install = vm.runInContext(SHELL_RUNTIME, context, { filename: RUNTIME_FILENAME })
+
+  return new Promise((resolve, reject) => {
+    const sandboxBridge: ShellBridge = (target, method, args, callback) => {
+      if (typeof args !== 'string') return JSON.stringify({ error: 'Invalid bridge call' })
+      if (target === 0 && (method === 'result' || method === 'error')) {
+        try {
+          const [payload] = JSON.parse(args)
+          if (method === 'result') resolve(payload)
+          else reject(Object.assign(new Error(String(payload?.message)), payload?.stack ? { stack: String(payload.stack) } : {}))
+        } catch (error) {
+          reject(error)
+        }
+        return '{}'
+      }
+      return bridge(target, method, args, callback)
+    }
+
+    try {
+      const settle = install(sandboxBridge)
+      const running = new vm.Script(code, { filename: options.filename, lineOffset: options.lineOffset })
+        .runInContext(context, { timeout: options.timeout })
+      settle(running)
+    } catch (error) {
+      reject(error)
+    }
+  })
+}
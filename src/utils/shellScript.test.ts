@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { prepareScript, scriptErrorLine } from './shellScript'
+
+describe('prepareScript', () => {
+  it('awaits db chains and returns the last expression', () => {
+    expect(prepareScript('db.orders.find({ a: 1 }).sort({ b: -1 }).limit(10)'))
+      .toBe('return await db.orders.find({ a: 1 }).sort({ b: -1 }).limit(10)')
+  })
+
+  it('handles multi-statement scripts with variables', () => {
+    expect(prepareScript('const n = db.users.countDocuments({})\nprint(n)\nn * 2'))
+      .toBe('const n = await db.users.countDocuments({})\nprint(n)\nreturn n * 2')
+  })
+
+  it('keeps chains split over several lines together', () => {
+    expect(prepareScript('const docs = db.orders\n  .find({})\n  .toArray()\ndocs.length'))
+      .toBe('const docs = await db.orders\n  .find({})\n  .toArray()\nreturn docs.length')
+  })
+
+  it('leaves db calls inside callbacks and functions alone', () => {
+    expect(prepareScript('db.a.find().forEach(d => db.b.insertOne(d))\nfunction f() { return db.c.find() }'))
+      .toBe('await db.a.find().forEach(d => db.b.insertOne(d))\nfunction f() { return db.c.find() }')
+  })
+
+  it('awaits inside top-level blocks but does not return declarations or control flow', () => {
+    expect(prepareScript('if (x) {\n  db.a.drop()\n}')).toBe('if (x) {\n  await db.a.drop()\n}')
+    expect(prepareScript('let a = db.a.findOne();')).toBe('let a = await db.a.findOne();')
+  })
+
+  it('ignores db inside strings, comments and regexes', () => {
+    expect(prepareScript('const re = /db.x/g; "db.y" // db.z\nre'))
+      .toBe('const re = /db.x/g; "db.y" // db.z\nreturn re')
+  })
+
+  it('does not double an explicit await', () => {
+    expect(prepareScript('await db.x.find()')).toBe('return await db.x.find()')
+  })
+
+  it('never adds lines', () => {
+    const script = 'const a = 1\n\ndb.x.insertOne({ a })\n// done\ndb.x.find()'
+    expect(prepareScript(script).split('\n')).toHaveLength(script.split('\n').length)
+  })
+})
+
+describe('scriptErrorLine', () => {
+  it('reads the first script frame and clamps to the script length', () => {
+    expect(scriptErrorLine('TypeError: x\n    at script.js:3:5\n    at script.js:1:1', 5)).toBe(3)
+    expect(scriptErrorLine('script.js:9\n})()', 4)).toBe(4)
+    expect(scriptErrorLine('Error: boom\n    at Connection.onMessage', 4)).toBeUndefined()
+  })
+})
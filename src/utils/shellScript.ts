@@ -0,0 +1,226 @@
+/**
+ * Source transforms for mongo shell-style scripts.
+ *
+ * Users write scripts the way mongosh accepts them — `db.orders.find({...}).sort({...}).limit(10)` with no
+ * `await` — and the main process runs them inside an async wrapper. prepareScript adds the awaits and returns
+ * the value of the last expression. Neither transform adds newlines, so error positions still point at the
+ * user's own lines.
+ */
+
+export const SCRIPT_FILENAME = 'script.js'
+
+/** Statements that cannot be prefixed with `return` */
+const STATEMENT_KEYWORDS = new Set([
+  'const', 'let', 'var', 'if', 'for', 'while', 'do', 'switch', 'try', 'function', 'class',
+  'return', 'throw', 'break', 'continue', 'async', 'import', 'export',
+])
+
+/** Keywords after which `/` starts a regex rather than a division */
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'await'])
+
+/** Keywords that keep an expression going onto the next line */
+const CONTINUATION_KEYWORDS = new Set(['typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'await', 'case', 'extends'])
+
+/** Keywords whose parenthesised part is followed by a block rather than a function body */
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with'])
+
+/** Open brackets; 'fn' is a function body and '=>' an arrow function's expression body */
+type Frame = '(' | '(ctl' | '[' | '{' | 'fn' | '=>'
+
+const isIdentStart = (ch: string) => /[A-Za-z_$]/.test(ch)
+
+const skipString = (s: string, i: number): number => {
+  const quote = s[i++]
+  while (i < s.length && s[i] !== quote && s[i] !== '\n') i += s[i] === '\\' ? 2 : 1
+  return i + 1
+}
+
+const skipTemplate = (s: string, i: number): number => {
+  i++
+  while (i < s.length && s[i] !== '`') {
+    if (s[i] === '\\') i += 2
+    else if (s[i] === '$' && s[i + 1] === '{') i = skipBraces(s, i + 1)
+    else i++
+  }
+  return i + 1
+}
+
+const skipBraces = (s: string, i: number): number => {
+  let depth = 0
+  while (i < s.length) {
+    const c = s[i]
+    if (c === '"' || c === "'") { i = skipString(s, i); continue }
+    if (c === '`') { i = skipTemplate(s, i); continue }
+    if (c === '{') depth++
+    else if (c === '}' && --depth === 0) return i + 1
+    i++
+  }
+  return i
+}
+
+const skipRegex = (s: string, i: number): number => {
+  let inClass = false
+  i++
+  while (i < s.length && s[i] !== '\n') {
+    const c = s[i]
+    if (c === '\\') { i += 2; continue }
+    if (c === '[') inClass = true
+    else if (c === ']') inClass = false
+    else if (c === '/' && !inClass) { i++; break }
+    i++
+  }
+  while (i < s.length && /[a-z]/i.test(s[i])) i++
+  return i
+}
+
+/** Next character that is not whitespace or a comment */
+const peek = (s: string, i: number): string => {
+  while (i < s.length) {
+    if (/\s/.test(s[i])) i++
+    else if (s.startsWith('//', i)) i = s.indexOf('\n', i) < 0 ? s.length : s.indexOf('\n', i)
+    else if (s.startsWith('/*', i)) i = s.indexOf('*/', i + 2) < 0 ? s.length : s.indexOf('*/', i + 2) + 2
+    else return s[i]
+  }
+  return ''
+}
+
+/**
+ * Make a shell script runnable as the body of an async function:
+ * - `await` goes in front of every `db.` / `db[` chain outside nested functions, so driver calls resolve
+ *   in statement order. Inside callbacks the chain stays a promise — cursor helpers await what callbacks return.
+ * - `return` goes in front of the last top-level expression statement, which becomes the script result.
+ */
+export const prepareScript = (source: string): string => {
+  const inserts: { pos: number; text: string }[] = []
+  const stack: Frame[] = []
+  let fnDepth = 0
+  let prev = ''
+  let closedParen: Frame | null = null
+  let newlineBefore = false
+  let expectStart = true
+  let statementStart = -1
+
+  const endsValue = (token: string) => /[\w$)\]}"'`]$/.test(token) && !CONTINUATION_KEYWORDS.has(token)
+  const startsValue = (token: string) => /^[\w$"'`]/.test(token) && token !== 'in' && token !== 'instanceof' && token !== 'of'
+  const regexAllowed = () => prev === '' || /[(,=:[!&|?{};+\-*%<>~^]$/.test(prev) || REGEX_KEYWORDS.has(prev)
+  const closeArrowBodies = () => {
+    while (stack[stack.length - 1] === '=>') { stack.pop(); fnDepth-- }
+  }
+
+  const token = (pos: number, text: string) => {
+    if (stack.length === 0 && text !== ';' && (expectStart || (newlineBefore && endsValue(prev) && startsValue(text)))) {
+      statementStart = pos
+      expectStart = false
+    }
+    newlineBefore = false
+    prev = text
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    const start = i
+
+    if (ch === '\n') { newlineBefore = true; i++; continue }
+    if (/\s/.test(ch)) { i++; continue }
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i)
+      i = end < 0 ? source.length : end
+      continue
+    }
+    if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2)
+      i = end < 0 ? source.length : end + 2
+      if (source.slice(start, i).includes('\n')) newlineBefore = true
+      continue
+    }
+    if (ch === '"' || ch === "'") { i = skipString(source, i); token(start, source.slice(start, i)); continue }
+    if (ch === '`') { i = skipTemplate(source, i); token(start, '`'); continue }
+    if (ch === '/' && regexAllowed()) { i = skipRegex(source, i); token(start, 'regex'); continue }
+
+    if (isIdentStart(ch)) {
+      while (i < source.length && /[\w$]/.test(source[i])) i++
+      const word = source.slice(start, i)
+      const next = peek(source, i)
+      if (word === 'db' && fnDepth === 0 && prev !== '.' && prev !== '?.' && prev !== 'await' && (next === '.' || next === '[')) {
+        inserts.push({ pos: start, text: 'await ' })
+      }
+      token(start, word)
+      continue
+    }
+    if (/\d/.test(ch)) {
+      while (i < source.length && /[\w.]/.test(source[i])) i++
+      token(start, source.slice(start, i))
+      continue
+    }
+
+    if (source.startsWith('=>', i)) {
+      i += 2
+      token(start, '=>')
+      if (peek(source, i) !== '{') { stack.push('=>'); fnDepth++ }
+      continue
+    }
+    if (source.startsWith('?.', i) && !/\d/.test(source[i + 2] ?? '')) { i += 2; token(start, '?.'); continue }
+
+    i++
+    switch (ch) {
+      case '(':
+        stack.push(CONTROL_KEYWORDS.has(prev) ? '(ctl' : '(')
+        break
+      case '[':
+        stack.push('[')
+        break
+      case '{': {
+        const isFunctionBody = prev === '=>' || (prev === ')' && closedParen === '(')
+        stack.push(isFunctionBody ? 'fn' : '{')
+        if (isFunctionBody) fnDepth++
+        break
+      }
+      case ')':
+      case ']':
+      case '}': {
+        closeArrowBodies()
+        const frame = stack.pop()
+        if (frame === 'fn') fnDepth--
+        closedParen = frame ?? null
+        break
+      }
+      case ',':
+        closeArrowBodies()
+        break
+      case ';':
+        closeArrowBodies()
+        token(start, ch)
+        if (stack.length === 0) expectStart = true
+        continue
+    }
+    token(start, ch)
+  }
+
+  if (statementStart >= 0) {
+    const word = /^[A-Za-z_$][\w$]*/.exec(source.slice(statementStart))?.[0]
+    if (source[statementStart] !== '{' && !(word && STATEMENT_KEYWORDS.has(word))) {
+      inserts.unshift({ pos: statementStart, text: 'return ' })
+    }
+  }
+
+  // Stable sort keeps `return ` ahead of an `await ` at the same position
+  inserts.sort((a, b) => a.pos - b.pos)
+  let out = ''
+  let last = 0
+  for (const { pos, text } of inserts) {
+    out += source.slice(last, pos) + text
+    last = pos
+  }
+  return out + source.slice(last)
+}
+
+/** Async wrapper around a prepared script — compile it with lineOffset -1 so line 1 is the user's first line */
+export const wrapScript = (source: string) => `(async () => {\n${prepareScript(source)}\n})()`
+
+/** 1-based script line named in an error stack, clamped to the script's length */
+export const scriptErrorLine = (stack: string | undefined, lineCount: number): number | undefined => {
+  const match = stack ? /script\.js:(\d+)/.exec(stack) : null
+  if (!match) return undefined
+  return Math.min(Math.max(Number(match[1]), 1), Math.max(lineCount, 1))
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { splitSqlStatements, statementAtOffset, statementKeyword } from './sqlSplitter'
+
+const texts = (sql: string, dialect?: Parameters<typeof splitSqlStatements>[1]) =>
+  splitSqlStatements(sql, dialect).map(s => s.text)
+
+describe('splitSqlStatements', () => {
+  it('splits on semicolons and drops empty statements', () => {
+    expect(texts('SELECT 1;\n\nSELECT 2;;\n')).toEqual(['SELECT 1', 'SELECT 2'])
+  })
+
+  it('keeps the last statement without a trailing semicolon', () => {
+    expect(texts('SELECT 1; SELECT 2')).toEqual(['SELECT 1', 'SELECT 2'])
+  })
+
+  it('ignores semicolons in strings, identifiers and comments', () => {
+    expect(texts(`SELECT 'a;b', "c;d" FROM t; -- x; y\nSELECT 'it''s; fine' /* ; */;`)).toEqual([
+      `SELECT 'a;b', "c;d" FROM t`,
+      `-- x; y\nSELECT 'it''s; fine' /* ; */`,
+    ])
+  })
+
+  it('skips comment-only segments', () => {
+    expect(texts('SELECT 1;\n-- trailing note\n/* block */')).toEqual(['SELECT 1'])
+  })
+
+  it('understands PostgreSQL dollar quoting and escape strings', () => {
+    const fn = `CREATE FUNCTION f() RETURNS int AS $body$\nBEGIN\n  RETURN 1;\nEND;\n$body$ LANGUAGE plpgsql`
+    expect(texts(`${fn};\nSELECT E'a\\';b';\nSELECT $$x;y$$`)).toEqual([fn, `SELECT E'a\\';b'`, 'SELECT $$x;y$$'])
+  })
+
+  it('does not treat positional parameters as dollar quotes', () => {
+    expect(texts('SELECT $1; SELECT $2')).toEqual(['SELECT $1', 'SELECT $2'])
+  })
+
+  it('nests PostgreSQL block comments', () => {
+    expect(texts('/* a /* b; */ c; */ SELECT 1; SELECT 2')).toEqual(['/* a /* b; */ c; */ SELECT 1', 'SELECT 2'])
+  })
+
+  it('splits SQL Server batches on GO', () => {
+    expect(texts('SELECT 1\nGO\nSELECT [a;b] FROM t\ngo', 'mssql')).toEqual(['SELECT 1', 'SELECT [a;b] FROM t'])
+  })
+
+  it('sends each SQL Server batch whole, semicolons and all', () => {
+    const proc = 'CREATE PROCEDURE dbo.p AS\nBEGIN\n SELECT 1;\n SELECT 2;\nEND'
+    expect(texts(`${proc}\nGO\nEXEC dbo.p`, 'mssql')).toEqual([proc, 'EXEC dbo.p'])
+    expect(texts('SELECT 1; SELECT 2', 'mssql')).toEqual(['SELECT 1; SELECT 2'])
+  })
+
+  it('keeps PostgreSQL BEGIN ATOMIC bodies in one statement', () => {
+    const fn = 'CREATE FUNCTION f(x int) RETURNS text LANGUAGE sql\nBEGIN ATOMIC\n  SELECT CASE WHEN x > 0 THEN \'pos\' ELSE \'neg\' END;\n  SELECT \'done\';\nEND'
+    expect(texts(`${fn};\nSELECT f(1); BEGIN; END`)).toEqual([fn, 'SELECT f(1)', 'BEGIN', 'END'])
+  })
+
+  it('honours MySQL DELIMITER, backslash escapes and # comments', () => {
+    const sql = `DELIMITER //\nCREATE PROCEDURE p() BEGIN SELECT 1; END//\nDELIMITER ;\nSELECT 'a\\';b'; # note;\nSELECT \`x;y\``
+    expect(texts(sql, 'mysql')).toEqual([
+      'CREATE PROCEDURE p() BEGIN SELECT 1; END',
+      `SELECT 'a\\';b'`,
+      '# note;\nSELECT `x;y`',
+    ])
+  })
+
+  it('reports offsets and line numbers', () => {
+    const [first, second] = splitSqlStatements('SELECT 1;\n\n  SELECT\n  2;')
+    expect(first).toMatchObject({ start: 0, end: 8, startLine: 1, endLine: 1 })
+    expect(second).toMatchObject({ text: 'SELECT\n  2', start: 13, startLine: 3, endLine: 4 })
+  })
+})
+
+describe('statementAtOffset', () => {
+  const sql = 'SELECT 1;\n\nSELECT 2;\n'
+  const statements = splitSqlStatements(sql)
+
+  it('finds the statement containing the cursor', () => {
+    expect(statementAtOffset(statements, sql.indexOf('2'))?.text).toBe('SELECT 2')
+  })
+
+  it('attributes the gap after a statement to that statement', () => {
+    expect(statementAtOffset(statements, sql.indexOf(';') + 1)?.text).toBe('SELECT 1')
+  })
+
+  it('falls back to the first statement before any code', () => {
+    expect(statementAtOffset(splitSqlStatements('\n\nSELECT 1'), 0)?.text).toBe('SELECT 1')
+    expect(statementAtOffset([], 0)).toBeUndefined()
+  })
+})
+
+describe('statementKeyword', () => {
+  it('skips leading comments', () => {
+    expect(statementKeyword('-- note\n/* x */ select 1')).toBe('SELECT')
+    expect(statementKeyword('  ')).toBe('')
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * SQL script splitting for the Query Editor.
+ *
+ * Splits editor contents into statements on `;` while skipping semicolons inside comments, string literals,
+ * quoted identifiers and PostgreSQL bodies — dollar-quoted ($$ … $$, $fn$ … $fn$) or SQL-standard
+ * (BEGIN ATOMIC … END). MySQL `DELIMITER` lines change the delimiter. SQL Server is split on `GO` lines
+ * only: each batch is sent whole, so procedure bodies and other multi-statement batches stay intact.
+ */
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'mssql' | 'sqlite'
+
+export interface SqlStatement {
+  /** Statement text without the trailing delimiter */
+  text: string
+  /** Offset of the first character in the source */
+  start: number
+  /** Offset just past the last character (before the delimiter) */
+  end: number
+  /** 1-based line numbers in the source */
+  startLine: number
+  endLine: number
+}
+
+const DOLLAR_TAG = /^\$([A-Za-z_][\w]*)?\$/
+
+export const splitSqlStatements = (sql: string, dialect: SqlDialect = 'postgresql'): SqlStatement[] => {
+  const statements: SqlStatement[] = []
+  const lineStarts = [0]
+  for (let i = 0; i < sql.length; i++) if (sql[i] === '\n') lineStarts.push(i + 1)
+  const lineOf = (offset: number) => {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return lo + 1
+  }
+
+  let delimiter = ';'
+  let segmentStart = 0
+  // Open BEGIN ATOMIC bodies, and CASE … END inside them, whose END must not be taken for the body's
+  let blockDepth = 0
+  // A segment that holds nothing but comments and whitespace is not a statement
+  let hasCode = false
+
+  const push = (end: number) => {
+    if (hasCode) {
+      const raw = sql.slice(segmentStart, end)
+      const start = segmentStart + (raw.length - raw.trimStart().length)
+      const stop = segmentStart + raw.trimEnd().length
+      statements.push({ text: sql.slice(start, stop), start, end: stop, startLine: lineOf(start), endLine: lineOf(Math.max(stop - 1, start)) })
+    }
+    hasCode = false
+  }
+
+  const atLineStart = (i: number) => /^[ \t]*$/.test(sql.slice(sql.lastIndexOf('\n', i - 1) + 1, i))
+
+  let i = 0
+  while (i < sql.length) {
+    const ch = sql[i]
+    const next = sql[i + 1]
+
+    // Comments
+    if ((ch === '-' && next === '-') || (ch === '#' && dialect === 'mysql')) {
+      const end = sql.indexOf('\n', i)
+      i = end < 0 ? sql.length : end
+      continue
+    }
+    if (ch === '/' && next === '*') {
+      // PostgreSQL block comments nest
+      let depth = 1
+      i += 2
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*' && dialect === 'postgresql') { depth++; i += 2 }
+        else if (sql[i] === '*' && sql[i + 1] === '/') { depth--; i += 2 }
+        else i++
+      }
+      continue
+    }
+
+    // Batch separators that only count at the start of a line
+    if (atLineStart(i) && (ch === 'G' || ch === 'g' || ch === 'D' || ch === 'd')) {
+      const lineEnd = sql.indexOf('\n', i) < 0 ? sql.length : sql.indexOf('\n', i)
+      const line = sql.slice(i, lineEnd).trim()
+      if (dialect === 'mssql' && /^go(\s+\d+)?$/i.test(line)) {
+        push(i)
+        i = lineEnd
+        segmentStart = i
+        continue
+      }
+      const custom = dialect === 'mysql' ? /^delimiter\s+(\S+)$/i.exec(line) : null
+      if (custom) {
+        push(i)
+        delimiter = custom[1]
+        i = lineEnd
+        segmentStart = i
+        continue
+      }
+    }
+
+    // Delimiter — T-SQL batches only end at GO
+    if (dialect !== 'mssql' && blockDepth === 0 && sql.startsWith(delimiter, i)) {
+      push(i)
+      i += delimiter.length
+      segmentStart = i
+      continue
+    }
+
+    if (!/\s/.test(ch)) hasCode = true
+
+    // String literals and quoted identifiers
+    if (ch === "'" || ch === '"' || (ch === '`' && (dialect === 'mysql' || dialect === 'sqlite'))) {
+      const escapePrefix = dialect === 'postgresql' && ch === "'" && /[eE]/.test(sql[i - 1] ?? '') && !/[\w$]/.test(sql[i - 2] ?? '')
+      const backslashes = escapePrefix || (dialect === 'mysql' && ch !== '`')
+      i++
+      while (i < sql.length) {
+        if (backslashes && sql[i] === '\\') { i += 2; continue }
+        if (sql[i] === ch) {
+          // Doubled quote is an escaped quote
+          if (sql[i + 1] === ch) { i += 2; continue }
+          break
+        }
+        i++
+      }
+      i++
+      continue
+    }
+    if (ch === '[' && (dialect === 'mssql' || dialect === 'sqlite')) {
+      const end = sql.indexOf(']', i + 1)
+      i = end < 0 ? sql.length : end + 1
+      continue
+    }
+    if (ch === '$' && dialect === 'postgresql' && !/[\w$]/.test(sql[i - 1] ?? '')) {
+      const tag = DOLLAR_TAG.exec(sql.slice(i))
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length)
+        i = close < 0 ? sql.length : close + tag[0].length
+        continue
+      }
+    }
+    if (dialect === 'postgresql' && /[A-Za-z_]/.test(ch) && !/[\w$]/.test(sql[i - 1] ?? '')) {
+      const word = /^[A-Za-z_][\w$]*/.exec(sql.slice(i))![0].toLowerCase()
+      if (word === 'begin' && /^\s+atomic\b/i.test(sql.slice(i + word.length))) blockDepth++
+      else if (blockDepth > 0 && word === 'case') blockDepth++
+      else if (blockDepth > 0 && word === 'end') blockDepth--
+      i += word.length
+      continue
+    }
+    i++
+  }
+  push(sql.length)
+
+  return statements
+}
+
+/** First keyword of a statement (SELECT, INSERT …), skipping leading comments */
+export const statementKeyword = (text: string): string => {
+  const body = text.replace(/^(\s+|--[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)*/, '')
+  return (/^[A-Za-z]+/.exec(body)?.[0] ?? '').toUpperCase()
+}
+
+/**
+ * Statement the cursor is in. A cursor in the gap after a statement (on its delimiter or the
+ * blank lines that follow) belongs to that statement; before the first statement it picks the first.
+ */
+export const statementAtOffset = (statements: SqlStatement[], offset: number): SqlStatement | undefined => {
+  let candidate: SqlStatement | undefined = statements[0]
+  for (const statement of statements) {
+    if (statement.start > offset) break
+    candidate = statement
+  }
+  return candidate
+}
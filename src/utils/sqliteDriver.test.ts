@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest'
+import { databaseService } from '@/services/database.service'
+
+type DriverResult = { success: boolean; [field: string]: unknown }
+type DriverCall = (...args: never[]) => Promise<DriverResult>
+
+/** The parts of electron/sqlite.ts under test — electron/ is its own TypeScript project, so its types aren't importable here */
+interface SQLiteDriver {
+  connectToSQLite: DriverCall
+  disconnectFromSQLite: DriverCall
+  sqliteListDatabases: DriverCall
+  sqliteListTables: DriverCall
+  sqliteExecuteQuery: DriverCall
+  sqliteFindQuery: DriverCall
+}
+
+let connectionCount = 0
+
+/** Each connection to :memory: is a fresh, empty database */
+const connect = async () => {
+  const connectionId = `sqlite-${++connectionCount}`
+  expect(await databaseService.connect(connectionId, ':memory:', 'sqlite')).toEqual({ success: true, connectionId })
+  return connectionId
+}
+
+const seed = async (connectionId: string) => {
+  for (const statement of [
+    'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)',
+    "INSERT INTO users (name) VALUES ('ada'), ('grace'), ('linus')",
+    'CREATE VIEW short_names AS SELECT name FROM users WHERE length(name) < 5',
+  ]) {
+    expect((await databaseService.executeQuery(connectionId, 'main', '', statement, undefined, 'sqlite')).success).toBe(true)
+  }
+}
+
+describe('SQLite through the database service', () => {
+  const open: string[] = []
+
+  beforeAll(async () => {
+    // Stand in for the preload bridge: the renderer services call straight into the main-process driver
+    const driver = await vi.importActual<SQLiteDriver>('../../electron/sqlite')
+    vi.stubGlobal('electronAPI', {
+      sqlite: {
+        connect: driver.connectToSQLite,
+        disconnect: driver.disconnectFromSQLite,
+        listDatabases: driver.sqliteListDatabases,
+        listTables: driver.sqliteListTables,
+        executeQuery: driver.sqliteExecuteQuery,
+        findQuery: driver.sqliteFindQuery,
+      },
+    })
+    return () => { vi.unstubAllGlobals() }
+  })
+
+  afterEach(async () => {
+    for (const connectionId of open.splice(0)) await databaseService.disconnect(connectionId, 'sqlite')
+  })
+
+  it('connects to an in-memory database and lists main', async () => {
+    const connectionId = await connect()
+    open.push(connectionId)
+    const { databases } = await databaseService.listDatabases(connectionId, 'sqlite')
+    expect(databases).toEqual([{ name: 'main' }])
+  })
+
+  it('lists tables and views, leaving out sqlite_ internals', async () => {
+    const connectionId = await connect()
+    open.push(connectionId)
+    await seed(connectionId)
+    await databaseService.executeQuery(connectionId, 'main', '', 'CREATE TABLE t (id INTEGER PRIMARY KEY AUTOINCREMENT)', undefined, 'sqlite')
+
+    const { collections } = await databaseService.listCollections(connectionId, 'main', 'sqlite')
+    expect(collections).toEqual([
+      { name: 'short_names', type: 'view' },
+      { name: 't', type: 'table' },
+      { name: 'users', type: 'table' },
+    ])
+  })
+
+  it('runs SQL text as a query and a filter object as a find', async () => {
+    const connectionId = await connect()
+    open.push(connectionId)
+    await seed(connectionId)
+
+    const rows = await databaseService.executeQuery(connectionId, 'main', '', 'SELECT id, name FROM users ORDER BY id DESC', undefined, 'sqlite')
+    expect(rows).toMatchObject({ success: true, totalCount: 3, documents: [{ id: 3, name: 'linus' }, { id: 2, name: 'grace' }, { id: 1, name: 'ada' }] })
+    expect(rows.fields.map((f: { name: string }) => f.name)).toEqual(['id', 'name'])
+
+    const write = await databaseService.executeQuery(connectionId, 'main', '', "UPDATE users SET name = upper(name) WHERE id > 1", undefined, 'sqlite')
+    expect(write.documents).toEqual([{ changes: 2, lastInsertRowid: 3 }])
+
+    const found = await databaseService.executeQuery(connectionId, 'main', 'users', { name: 'GRACE' }, { limit: 10 }, 'sqlite')
+    expect(found).toMatchObject({ success: true, totalCount: 1, documents: [{ id: 2, name: 'GRACE' }] })
+  })
+
+  it('falls back to running script statements one by one on the same connection', async () => {
+    const connectionId = await connect()
+    open.push(connectionId)
+
+    const { success, results } = await databaseService.executeScript(connectionId, 'main', [
+      'CREATE TABLE notes (body TEXT)',
+      "INSERT INTO notes VALUES ('a'), ('b')",
+      'SELECT count(*) AS n FROM notes',
+    ], 'sqlite')
+    expect(success).toBe(true)
+    expect(results.map((r: DriverResult) => r.success)).toEqual([true, true, true])
+    expect(results[1].rowCount).toBe(2)
+    expect(results[2].documents).toEqual([{ n: 2 }])
+  })
+
+  it('stops the script at the first failing statement', async () => {
+    const connectionId = await connect()
+    open.push(connectionId)
+
+    const { results } = await databaseService.executeScript(connectionId, 'main', [
+      'CREATE TABLE notes (body TEXT NOT NULL)',
+      'INSERT INTO notes VALUES (NULL)',
+      "INSERT INTO notes VALUES ('never')",
+    ], 'sqlite')
+    expect(results).toHaveLength(2)
+    expect(results[1]).toMatchObject({ success: false, error: expect.stringMatching(/NOT NULL constraint failed/) })
+
+    const { documents } = await databaseService.executeQuery(connectionId, 'main', '', 'SELECT count(*) AS n FROM notes', undefined, 'sqlite')
+    expect(documents).toEqual([{ n: 0 }])
+  })
+
+  it('reports operations on a closed connection', async () => {
+    const connectionId = await connect()
+    await databaseService.disconnect(connectionId, 'sqlite')
+    expect(await databaseService.listCollections(connectionId, 'main', 'sqlite')).toEqual({ success: false, error: 'Not connected' })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { stageChange, overlayChanges, toBulkWriteOperations, toSqlStatements, inlineSqlValues, type StagedChange } from './stagedChanges'
+
+const row = { id: 1, name: 'Ada', age: 36 }
+const update = (after: Record<string, unknown>): StagedChange => ({ kind: 'update', key: 'r1', filter: { id: 1 }, before: row, after })
+
+describe('stageChange', () => {
+  it('keeps the original values when a row is edited twice', () => {
+    const changes = stageChange(stageChange([], update({ ...row, name: 'Ada L.' })), update({ ...row, name: 'Ada Lovelace' }))
+    expect(changes).toEqual([update({ ...row, name: 'Ada Lovelace' })])
+  })
+
+  it('drops an edit that restores the original row', () => {
+    expect(stageChange([update({ ...row, age: 37 })], update(row))).toEqual([])
+    expect(stageChange([], update(row))).toEqual([])
+  })
+
+  it('folds edits into a staged insert and cancels it on delete', () => {
+    const insert: StagedChange = { kind: 'insert', key: 'new-1', after: { name: 'Grace' } }
+    const edited = stageChange([insert], { kind: 'update', key: 'new-1', filter: {}, before: insert.after, after: { name: 'Grace Hopper' } })
+    expect(edited).toEqual([{ ...insert, after: { name: 'Grace Hopper' } }])
+    expect(stageChange(edited, { kind: 'delete', key: 'new-1', filter: {}, before: {} })).toEqual([])
+  })
+
+  it('turns an edited row that is then deleted into a delete of the original', () => {
+    const changes = stageChange([update({ ...row, age: 37 })], { kind: 'delete', key: 'r1', filter: { id: 1 }, before: { ...row, age: 37 } })
+    expect(changes).toEqual([{ kind: 'delete', key: 'r1', filter: { id: 1 }, before: row }])
+  })
+})
+
+describe('overlayChanges', () => {
+  it('applies updates, marks deletes and appends inserts', () => {
+    const docs = [row, { id: 2, name: 'Alan', age: 41 }]
+    const changes: StagedChange[] = [
+      update({ ...row, age: 37 }),
+      { kind: 'delete', key: 'r2', filter: { id: 2 }, before: docs[1] },
+      { kind: 'insert', key: 'new-1', after: { name: 'Grace' } },
+    ]
+    const rows = overlayChanges(docs, changes, doc => `r${doc.id}`)
+    expect(rows.map(r => [r.key, r.status, r.doc.age])).toEqual([['r1', 'updated', 37], ['r2', 'deleted', 41], ['new-1', 'inserted', undefined]])
+  })
+})
+
+describe('toBulkWriteOperations', () => {
+  it('builds $set / $unset updates without touching _id', () => {
+    const before = { _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f6' }, a: 1, b: 2 }
+    const ops = toBulkWriteOperations([
+      { kind: 'update', key: 'x', filter: { _id: before._id }, before, after: { _id: before._id, a: 5 } },
+      { kind: 'insert', key: 'new-1', after: { a: 1 } },
+      { kind: 'delete', key: 'y', filter: { _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f7' } }, before: {} },
+    ])
+    expect(ops).toEqual([
+      { updateOne: { filter: { _id: before._id }, update: { $set: { a: 5 }, $unset: { b: '' } } } },
+      { insertOne: { document: { a: 1 } } },
+      { deleteOne: { filter: { _id: { $oid: '65a1f0c2e4b0a1b2c3d4e5f7' } } } },
+    ])
+  })
+})
+
+describe('toSqlStatements', () => {
+  it('updates only changed columns and parameterises values', () => {
+    const [statement] = toSqlStatements([update({ ...row, name: "O'Brien" })], 'users')
+    expect(statement).toEqual({ text: 'UPDATE "public"."users" SET "name" = $1 WHERE "id" = $2', values: ["O'Brien", 1] })
+    expect(inlineSqlValues(statement)).toBe(`UPDATE "public"."users" SET "name" = 'O''Brien' WHERE "id" = 1`)
+  })
+
+  it('qualifies schema tables for inserts and deletes', () => {
+    const statements = toSqlStatements([
+      { kind: 'insert', key: 'new-1', after: { name: 'Grace', tags: ['a'] } },
+      { kind: 'delete', key: 'r1', filter: { id: 1 }, before: row },
+    ], 'sales.orders')
+    expect(statements.map(s => s.text)).toEqual([
+      'INSERT INTO "sales"."orders" ("name", "tags") VALUES ($1, $2)',
+      'DELETE FROM "sales"."orders" WHERE "id" = $1',
+    ])
+  })
+
+  it('skips edits that change nothing', () => {
+    expect(toSqlStatements([update(row)], 'users')).toEqual([])
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Pending changes for the Data Viewer.
+ *
+ * Edits, inserts and deletes are collected per row instead of being sent one by one, previewed, and applied
+ * together — as insertOne / updateOne / deleteOne operations for MongoDB or one transaction of parameterised
+ * statements for PostgreSQL.
+ */
+
+import { qualify, quoteId } from './pgIdentifiers'
+
+export type StagedChange =
+  | { kind: 'insert'; key: string; after: Record<string, unknown> }
+  | { kind: 'update'; key: string; filter: Record<string, unknown>; before: Record<string, unknown>; after: Record<string, unknown> }
+  | { kind: 'delete'; key: string; filter: Record<string, unknown>; before: Record<string, unknown> }
+
+export type RowStatus = 'inserted' | 'updated' | 'deleted'
+
+export interface StagedRow {
+  doc: Record<string, unknown>
+  /** Row identity: the loaded row's key, or the insert's own key */
+  key: string
+  status?: RowStatus
+}
+
+/** A MongoDB bulkWrite operation */
+export type BulkWriteOperation =
+  | { insertOne: { document: Record<string, unknown> } }
+  | { updateOne: { filter: Record<string, unknown>; update: Record<string, unknown> } }
+  | { deleteOne: { filter: Record<string, unknown> } }
+
+export interface SqlChangeStatement {
+  text: string
+  values: unknown[]
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/** Top-level fields that differ: new or changed values go to `set`, fields missing from `after` to `unset` */
+export const changedFields = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+  const set: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(after)) {
+    if (!(key in before) || !same(before[key], value)) set[key] = value
+  }
+  const unset = Object.keys(before).filter(key => !(key in after))
+  return { set, unset }
+}
+
+/**
+ * Add a change, folding it into an earlier one for the same row: editing a staged insert keeps it an insert,
+ * deleting one drops it, an edit back to the original disappears, and a delete keeps the row's original values.
+ */
+export const stageChange = (changes: StagedChange[], change: StagedChange): StagedChange[] => {
+  const index = changes.findIndex(c => c.key === change.key)
+  if (index < 0) return change.kind === 'update' && same(change.before, change.after) ? changes : [...changes, change]
+  const previous = changes[index]
+  const rest = changes.filter((_, i) => i !== index)
+
+  if (previous.kind === 'insert') {
+    if (change.kind === 'delete') return rest
+    if (change.kind === 'update') return changes.map((c, i) => (i === index ? { ...previous, after: change.after } : c))
+  }
+  if (previous.kind === 'update') {
+    if (change.kind === 'update') {
+      if (same(previous.before, change.after)) return rest
+      return changes.map((c, i) => (i === index ? { ...previous, after: change.after } : c))
+    }
+    if (change.kind === 'delete') {
+      return changes.map((c, i) => (i === index ? { kind: 'delete', key: c.key, filter: previous.filter, before: previous.before } : c))
+    }
+  }
+  return changes.map((c, i) => (i === index ? change : c))
+}
+
+/** Drop the staged change for a row, restoring it as loaded */
+export const unstageChange = (changes: StagedChange[], key: string) => changes.filter(c => c.key !== key)
+
+/** Loaded rows with staged updates applied and deletes marked, followed by staged inserts */
+export const overlayChanges = (
+  documents: Record<string, unknown>[],
+  changes: StagedChange[],
+  keyOf: (doc: Record<string, unknown>) => string
+): StagedRow[] => {
+  const byKey = new Map(changes.map(c => [c.key, c]))
+  const rows: StagedRow[] = documents.map(doc => {
+    const key = keyOf(doc)
+    const change = byKey.get(key)
+    if (change?.kind === 'update') return { doc: change.after, key, status: 'updated' }
+    if (change?.kind === 'delete') return { doc, key, status: 'deleted' }
+    return { doc, key }
+  })
+  for (const change of changes) {
+    if (change.kind === 'insert') rows.push({ doc: change.after, key: change.key, status: 'inserted' })
+  }
+  return rows
+}
+
+/**
+ * MongoDB update operators touching only the fields an edit changed, so the others keep their stored BSON
+ * types; null when nothing changed
+ */
+export const toMongoUpdate = (before: Record<string, unknown>, after: Record<string, unknown>): Record<string, unknown> | null => {
+  // _id is immutable — a changed _id is never part of the update
+  const { set, unset } = changedFields(before, after)
+  delete set._id
+  const update: Record<string, unknown> = {}
+  if (Object.keys(set).length > 0) update.$set = set
+  if (unset.length > 0) update.$unset = Object.fromEntries(unset.map(field => [field, '']))
+  return Object.keys(update).length > 0 ? update : null
+}
+
+/** MongoDB bulkWrite-style operations, in staging order */
+export const toBulkWriteOperations = (changes: StagedChange[]): BulkWriteOperation[] =>
+  changes.flatMap((change): BulkWriteOperation[] => {
+    if (change.kind === 'insert') return [{ insertOne: { document: change.after } }]
+    if (change.kind === 'delete') return [{ deleteOne: { filter: change.filter } }]
+    const update = toMongoUpdate(change.before, change.after)
+    return update ? [{ updateOne: { filter: change.filter, update } }] : []
+  })
+
+const whereClause = (filter: Record<string, unknown>, values: unknown[]) =>
+  Object.entries(filter).map(([column, value]) => {
+    if (value === null) return `${quoteId(column)} IS NULL`
+    values.push(value)
+    return `${quoteId(column)} = $${values.length}`
+  }).join(' AND ')
+
+/** PostgreSQL statements for the staged changes; fields dropped from an edited row are set to NULL */
+export const toSqlStatements = (changes: StagedChange[], table: string): SqlChangeStatement[] => {
+  const statements: SqlChangeStatement[] = []
+  for (const change of changes) {
+    const values: unknown[] = []
+    if (change.kind === 'insert') {
+      const columns = Object.keys(change.after)
+      values.push(...columns.map(c => change.after[c]))
+      statements.push({
+        text: columns.length > 0
+          ? `INSERT INTO ${qualify(table)} (${columns.map(quoteId).join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})`
+          : `INSERT INTO ${qualify(table)} DEFAULT VALUES`,
+        values,
+      })
+    } else if (change.kind === 'update') {
+      const { set, unset } = changedFields(change.before, change.after)
+      const assignments = [
+        ...Object.entries(set).map(([column, value]) => { values.push(value); return `${quoteId(column)} = $${values.length}` }),
+        ...unset.map(column => `${quoteId(column)} = NULL`),
+      ]
+      if (assignments.length === 0) continue
+      statements.push({ text: `UPDATE ${qualify(table)} SET ${assignments.join(', ')} WHERE ${whereClause(change.filter, values)}`, values })
+    } else {
+      statements.push({ text: `DELETE FROM ${qualify(table)} WHERE ${whereClause(change.filter, values)}`, values })
+    }
+  }
+  return statements
+}
+
+const sqlLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return `'${text.replace(/'/g, "''")}'`
+}
+
+/** Statement text with its parameters written in as literals — for display only */
+export const inlineSqlValues = ({ text, values }: SqlChangeStatement) =>
+  text.replace(/\$(\d+)/g, (match, n) => (Number(n) <= values.length ? sqlLiteral(values[Number(n) - 1]) : match))
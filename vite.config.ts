@@ -42,8 +42,11 @@ export default defineConfig({
                 'pg-types',
                 'pgpass',
                 'pg-connection-string',
+                'mysql2',
+                'mssql',
                 'ioredis',
                 'kafkajs',
+                '@kafkajs/confluent-schema-registry',
                 'ssh2',
                 'kerberos',
                 'snappy',